@@ -0,0 +1,6 @@
+export class AccountLockedError extends Error {
+  constructor() {
+    super('Too many failed sign-in attempts, try again later');
+    this.name = 'AccountLockedError';
+  }
+}
@@ -0,0 +1,6 @@
+export class ApiTokenNotFoundError extends Error {
+  constructor() {
+    super('The API token was not found');
+    this.name = 'ApiTokenNotFoundError';
+  }
+}
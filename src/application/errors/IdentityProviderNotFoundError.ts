@@ -0,0 +1,6 @@
+export class IdentityProviderNotFoundError extends Error {
+  constructor() {
+    super('Identity provider not found');
+    this.name = 'IdentityProviderNotFoundError';
+  }
+}
@@ -0,0 +1,6 @@
+export class InvalidMfaCodeError extends Error {
+  constructor() {
+    super('The verification code is invalid');
+    this.name = 'InvalidMfaCodeError';
+  }
+}
@@ -0,0 +1,6 @@
+export class InvalidPageMoveError extends Error {
+  constructor() {
+    super('The Page cannot be moved below itself');
+    this.name = 'InvalidPageMoveError';
+  }
+}
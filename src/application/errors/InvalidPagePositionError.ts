@@ -0,0 +1,6 @@
+export class InvalidPagePositionError extends Error {
+  constructor() {
+    super('The Page can only be placed next to its siblings');
+    this.name = 'InvalidPagePositionError';
+  }
+}
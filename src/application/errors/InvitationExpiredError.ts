@@ -0,0 +1,6 @@
+export class InvitationExpiredError extends Error {
+  constructor() {
+    super('The Invitation has expired');
+    this.name = 'InvitationExpiredError';
+  }
+}
@@ -0,0 +1,6 @@
+export class InvitationNotFoundError extends Error {
+  constructor() {
+    super('The Invitation was not found');
+    this.name = 'InvitationNotFoundError';
+  }
+}
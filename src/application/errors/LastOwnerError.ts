@@ -0,0 +1,6 @@
+export class LastOwnerError extends Error {
+  constructor() {
+    super('The last owner cannot leave the Workspace');
+    this.name = 'LastOwnerError';
+  }
+}
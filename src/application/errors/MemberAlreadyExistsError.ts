@@ -0,0 +1,6 @@
+export class MemberAlreadyExistsError extends Error {
+  constructor() {
+    super('The User is already a Member of the Workspace');
+    this.name = 'MemberAlreadyExistsError';
+  }
+}
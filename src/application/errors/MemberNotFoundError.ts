@@ -0,0 +1,6 @@
+export class MemberNotFoundError extends Error {
+  constructor() {
+    super('The Member was not found');
+    this.name = 'MemberNotFoundError';
+  }
+}
@@ -0,0 +1,6 @@
+export class MfaAlreadyEnabledError extends Error {
+  constructor() {
+    super('Two-factor authentication is already enabled');
+    this.name = 'MfaAlreadyEnabledError';
+  }
+}
@@ -0,0 +1,6 @@
+export class MfaNotEnrolledError extends Error {
+  constructor() {
+    super('Two-factor authentication has not been set up');
+    this.name = 'MfaNotEnrolledError';
+  }
+}
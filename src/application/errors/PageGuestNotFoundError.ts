@@ -0,0 +1,6 @@
+export class PageGuestNotFoundError extends Error {
+  constructor() {
+    super('The Guest was not found on this Page');
+    this.name = 'PageGuestNotFoundError';
+  }
+}
@@ -0,0 +1,6 @@
+export class PageLockedError extends Error {
+  constructor() {
+    super('The Page is locked');
+    this.name = 'PageLockedError';
+  }
+}
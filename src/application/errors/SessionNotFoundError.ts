@@ -0,0 +1,6 @@
+export class SessionNotFoundError extends Error {
+  constructor() {
+    super('The Session was not found');
+    this.name = 'SessionNotFoundError';
+  }
+}
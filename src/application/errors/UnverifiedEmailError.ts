@@ -0,0 +1,6 @@
+export class UnverifiedEmailError extends Error {
+  constructor() {
+    super('The email address has not been verified');
+    this.name = 'UnverifiedEmailError';
+  }
+}
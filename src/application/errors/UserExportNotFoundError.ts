@@ -0,0 +1,6 @@
+export class UserExportNotFoundError extends Error {
+  constructor() {
+    super('The Export was not found');
+    this.name = 'UserExportNotFoundError';
+  }
+}
@@ -0,0 +1,6 @@
+export class UserExportNotReadyError extends Error {
+  constructor() {
+    super('The Export is not ready yet');
+    this.name = 'UserExportNotReadyError';
+  }
+}
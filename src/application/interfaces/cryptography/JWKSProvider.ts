@@ -0,0 +1,14 @@
+export type JsonWebKeyType = {
+  kid: string;
+  alg: string;
+  use: 'sig';
+  [parameter: string]: unknown;
+};
+
+export type JsonWebKeySetType = {
+  keys: JsonWebKeyType[];
+};
+
+export interface JWKSProvider {
+  getJsonWebKeySet(): Promise<JsonWebKeySetType>;
+}
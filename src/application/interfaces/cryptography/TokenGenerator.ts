@@ -0,0 +1,3 @@
+export interface TokenGenerator {
+  generateToken(): Promise<string>;
+}
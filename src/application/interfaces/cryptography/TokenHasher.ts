@@ -0,0 +1,3 @@
+export interface TokenHasher {
+  hashToken(token: string): Promise<string>;
+}
@@ -0,0 +1,4 @@
+export interface TotpGenerator {
+  generateSecret(): Promise<string>;
+  generateUri(secret: string, accountName: string): string;
+}
@@ -0,0 +1,3 @@
+export interface TotpVerifier {
+  verify(secret: string, code: string): Promise<number | null>;
+}
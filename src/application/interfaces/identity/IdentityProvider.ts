@@ -0,0 +1,30 @@
+export type ExternalIdentityType = {
+  subject: string;
+  email: string;
+  emailVerified: boolean;
+  name: string;
+  picture?: string;
+};
+
+export type AuthorizationRequestType = {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+};
+
+export type AuthorizationCodeType = {
+  code: string;
+  nonce: string;
+  codeVerifier: string;
+};
+
+export interface IdentityProvider {
+  getAuthorizationUrl(request: AuthorizationRequestType): Promise<string>;
+  // null when the provider refuses the code or its id token does not check out
+  getIdentity(
+    authorization: AuthorizationCodeType
+  ): Promise<ExternalIdentityType | null>;
+}
+
+// keyed by the provider name taken from the url, so a map and not an object
+export type IdentityProviders = Map<string, IdentityProvider>;
@@ -0,0 +1,9 @@
+export type MailType = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export interface MailSender {
+  send(mail: MailType): Promise<void>;
+}
@@ -0,0 +1,4 @@
+export interface PositionGenerator {
+  // null leaves that end open, so (last, null) appends and (null, first) prepends
+  generatePosition(lower: string | null, upper: string | null): string;
+}
@@ -0,0 +1,12 @@
+import { ApiTokenProps } from '@domain/entities/ApiToken';
+
+export namespace CreateApiTokenRepository {
+  export type Request = Omit<ApiTokenProps, 'id' | 'lastUsedAt' | 'createdAt'>;
+  export type Response = string;
+}
+
+export interface CreateApiTokenRepository {
+  createApiToken(
+    apiTokenData: CreateApiTokenRepository.Request
+  ): Promise<CreateApiTokenRepository.Response>;
+}
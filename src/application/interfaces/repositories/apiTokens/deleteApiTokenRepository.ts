@@ -0,0 +1,13 @@
+export namespace DeleteApiTokenRepository {
+  export type Request = {
+    userId: string;
+    apiTokenId: string;
+  };
+  export type Response = boolean;
+}
+
+export interface DeleteApiTokenRepository {
+  deleteApiToken(
+    params: DeleteApiTokenRepository.Request
+  ): Promise<DeleteApiTokenRepository.Response>;
+}
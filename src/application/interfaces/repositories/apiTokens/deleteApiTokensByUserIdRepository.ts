@@ -0,0 +1,10 @@
+export namespace DeleteApiTokensByUserIdRepository {
+  export type Request = string;
+  export type Response = void;
+}
+
+export interface DeleteApiTokensByUserIdRepository {
+  deleteApiTokensByUserId(
+    userId: DeleteApiTokensByUserIdRepository.Request
+  ): Promise<DeleteApiTokensByUserIdRepository.Response>;
+}
@@ -0,0 +1,12 @@
+import { ApiToken } from '@domain/entities/ApiToken';
+
+export namespace GetApiTokenByHashRepository {
+  export type Request = string;
+  export type Response = ApiToken | null;
+}
+
+export interface GetApiTokenByHashRepository {
+  getApiTokenByHash(
+    tokenHash: GetApiTokenByHashRepository.Request
+  ): Promise<GetApiTokenByHashRepository.Response>;
+}
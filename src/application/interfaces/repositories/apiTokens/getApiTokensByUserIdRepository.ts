@@ -0,0 +1,12 @@
+import { ApiToken } from '@domain/entities/ApiToken';
+
+export namespace GetApiTokensByUserIdRepository {
+  export type Request = string;
+  export type Response = ApiToken[];
+}
+
+export interface GetApiTokensByUserIdRepository {
+  getApiTokensByUserId(
+    userId: GetApiTokensByUserIdRepository.Request
+  ): Promise<GetApiTokensByUserIdRepository.Response>;
+}
@@ -0,0 +1,10 @@
+export namespace UpdateApiTokenLastUsedAtRepository {
+  export type Request = string;
+  export type Response = void;
+}
+
+export interface UpdateApiTokenLastUsedAtRepository {
+  updateApiTokenLastUsedAt(
+    id: UpdateApiTokenLastUsedAtRepository.Request
+  ): Promise<UpdateApiTokenLastUsedAtRepository.Response>;
+}
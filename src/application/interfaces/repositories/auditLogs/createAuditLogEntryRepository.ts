@@ -0,0 +1,18 @@
+import { AuditLogEntryProps } from '@domain/entities/AuditLogEntry';
+
+export namespace CreateAuditLogEntryRepository {
+  export type Request = Omit<
+    AuditLogEntryProps,
+    'id' | 'workspaceId' | 'ip' | 'createdAt'
+  > & {
+    workspaceId?: string | null;
+    ip?: string;
+  };
+  export type Response = void;
+}
+
+export interface CreateAuditLogEntryRepository {
+  createAuditLogEntry(
+    entryData: CreateAuditLogEntryRepository.Request
+  ): Promise<CreateAuditLogEntryRepository.Response>;
+}
@@ -0,0 +1,20 @@
+import { AuditLogAction, AuditLogEntry } from '@domain/entities/AuditLogEntry';
+
+export namespace GetAuditLogEntriesByUserIdRepository {
+  export type Request = {
+    userId: string;
+    action?: AuditLogAction;
+    from?: Date;
+    to?: Date;
+    // id of the last entry of the previous page, entries come newest first
+    cursor?: string;
+    limit: number;
+  };
+  export type Response = AuditLogEntry[];
+}
+
+export interface GetAuditLogEntriesByUserIdRepository {
+  getAuditLogEntriesByUserId(
+    params: GetAuditLogEntriesByUserIdRepository.Request
+  ): Promise<GetAuditLogEntriesByUserIdRepository.Response>;
+}
@@ -0,0 +1,21 @@
+import { AuditLogAction, AuditLogEntry } from '@domain/entities/AuditLogEntry';
+
+export namespace GetAuditLogEntriesByWorkspaceIdRepository {
+  export type Request = {
+    workspaceId: string;
+    action?: AuditLogAction;
+    actorId?: string;
+    from?: Date;
+    to?: Date;
+    // id of the last entry of the previous page, entries come newest first
+    cursor?: string;
+    limit: number;
+  };
+  export type Response = AuditLogEntry[];
+}
+
+export interface GetAuditLogEntriesByWorkspaceIdRepository {
+  getAuditLogEntriesByWorkspaceId(
+    params: GetAuditLogEntriesByWorkspaceIdRepository.Request
+  ): Promise<GetAuditLogEntriesByWorkspaceIdRepository.Response>;
+}
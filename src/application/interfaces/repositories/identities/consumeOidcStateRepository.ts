@@ -0,0 +1,20 @@
+export type OidcStateType = {
+  id: string;
+  state: string;
+  provider: string;
+  nonce: string;
+  codeVerifier: string;
+  expiresAt: Date;
+  createdAt: Date;
+};
+
+export namespace ConsumeOidcStateRepository {
+  export type Request = string;
+  export type Response = OidcStateType | null;
+}
+
+export interface ConsumeOidcStateRepository {
+  consumeOidcState(
+    state: ConsumeOidcStateRepository.Request
+  ): Promise<ConsumeOidcStateRepository.Response>;
+}
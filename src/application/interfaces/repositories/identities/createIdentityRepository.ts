@@ -0,0 +1,14 @@
+export namespace CreateIdentityRepository {
+  export type Request = {
+    provider: string;
+    subject: string;
+    userId: string;
+  };
+  export type Response = string;
+}
+
+export interface CreateIdentityRepository {
+  createIdentity(
+    identityData: CreateIdentityRepository.Request
+  ): Promise<CreateIdentityRepository.Response>;
+}
@@ -0,0 +1,16 @@
+export namespace CreateOidcStateRepository {
+  export type Request = {
+    state: string;
+    provider: string;
+    nonce: string;
+    codeVerifier: string;
+    expiresAt: Date;
+  };
+  export type Response = string;
+}
+
+export interface CreateOidcStateRepository {
+  createOidcState(
+    stateData: CreateOidcStateRepository.Request
+  ): Promise<CreateOidcStateRepository.Response>;
+}
@@ -0,0 +1,10 @@
+export namespace DeleteIdentitiesByUserIdRepository {
+  export type Request = string;
+  export type Response = void;
+}
+
+export interface DeleteIdentitiesByUserIdRepository {
+  deleteIdentitiesByUserId(
+    userId: DeleteIdentitiesByUserIdRepository.Request
+  ): Promise<DeleteIdentitiesByUserIdRepository.Response>;
+}
@@ -0,0 +1,21 @@
+export type IdentityType = {
+  id: string;
+  provider: string;
+  subject: string;
+  userId: string;
+  createdAt: Date;
+};
+
+export namespace GetIdentityRepository {
+  export type Request = {
+    provider: string;
+    subject: string;
+  };
+  export type Response = IdentityType | null;
+}
+
+export interface GetIdentityRepository {
+  getIdentity(
+    params: GetIdentityRepository.Request
+  ): Promise<GetIdentityRepository.Response>;
+}
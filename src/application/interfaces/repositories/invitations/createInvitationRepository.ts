@@ -0,0 +1,15 @@
+import { Invitation } from '@domain/entities/Invitation';
+
+export namespace CreateInvitationRepository {
+  export type Request = Omit<
+    Invitation,
+    'id' | 'status' | 'createdAt' | 'updatedAt'
+  >;
+  export type Response = string;
+}
+
+export interface CreateInvitationRepository {
+  createInvitation(
+    invitationData: CreateInvitationRepository.Request
+  ): Promise<CreateInvitationRepository.Response>;
+}
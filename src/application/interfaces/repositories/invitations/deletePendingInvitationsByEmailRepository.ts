@@ -0,0 +1,10 @@
+export namespace DeletePendingInvitationsByEmailRepository {
+  export type Request = string;
+  export type Response = void;
+}
+
+export interface DeletePendingInvitationsByEmailRepository {
+  deletePendingInvitationsByEmail(
+    email: DeletePendingInvitationsByEmailRepository.Request
+  ): Promise<DeletePendingInvitationsByEmailRepository.Response>;
+}
@@ -0,0 +1,12 @@
+import { Invitation } from '@domain/entities/Invitation';
+
+export namespace GetInvitationByTokenRepository {
+  export type Request = string;
+  export type Response = Invitation | null;
+}
+
+export interface GetInvitationByTokenRepository {
+  getInvitationByToken(
+    token: GetInvitationByTokenRepository.Request
+  ): Promise<GetInvitationByTokenRepository.Response>;
+}
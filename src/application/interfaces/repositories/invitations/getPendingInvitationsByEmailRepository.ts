@@ -0,0 +1,12 @@
+import { Invitation } from '@domain/entities/Invitation';
+
+export namespace GetPendingInvitationsByEmailRepository {
+  export type Request = string;
+  export type Response = Invitation[];
+}
+
+export interface GetPendingInvitationsByEmailRepository {
+  getPendingInvitationsByEmail(
+    email: GetPendingInvitationsByEmailRepository.Request
+  ): Promise<GetPendingInvitationsByEmailRepository.Response>;
+}
@@ -0,0 +1,15 @@
+import { InvitationStatus } from '@domain/entities/Invitation';
+
+export namespace UpdateInvitationStatusRepository {
+  export type Request = {
+    invitationId: string;
+    status: InvitationStatus;
+  };
+  export type Response = void;
+}
+
+export interface UpdateInvitationStatusRepository {
+  updateInvitationStatus(
+    params: UpdateInvitationStatusRepository.Request
+  ): Promise<UpdateInvitationStatusRepository.Response>;
+}
@@ -0,0 +1,10 @@
+export namespace ClearLoginAttemptsRepository {
+  export type Request = string;
+  export type Response = void;
+}
+
+export interface ClearLoginAttemptsRepository {
+  clearLoginAttempts(
+    key: ClearLoginAttemptsRepository.Request
+  ): Promise<ClearLoginAttemptsRepository.Response>;
+}
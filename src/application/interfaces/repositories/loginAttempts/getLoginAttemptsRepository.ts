@@ -0,0 +1,19 @@
+export type LoginAttemptType = {
+  id: string;
+  key: string;
+  failures: number;
+  lastFailureAt: Date;
+  expiresAt: Date;
+  createdAt: Date;
+};
+
+export namespace GetLoginAttemptsRepository {
+  export type Request = string[];
+  export type Response = LoginAttemptType[];
+}
+
+export interface GetLoginAttemptsRepository {
+  getLoginAttempts(
+    keys: GetLoginAttemptsRepository.Request
+  ): Promise<GetLoginAttemptsRepository.Response>;
+}
@@ -0,0 +1,13 @@
+export namespace RecordFailedLoginRepository {
+  export type Request = {
+    key: string;
+    expiresAt: Date;
+  };
+  export type Response = void;
+}
+
+export interface RecordFailedLoginRepository {
+  recordFailedLogin(
+    attemptData: RecordFailedLoginRepository.Request
+  ): Promise<RecordFailedLoginRepository.Response>;
+}
@@ -0,0 +1,19 @@
+export type MfaChallengeType = {
+  id: string;
+  token: string;
+  userId: string;
+  attempts: number;
+  expiresAt: Date;
+  createdAt: Date;
+};
+
+export namespace AttemptMfaChallengeRepository {
+  export type Request = string;
+  export type Response = MfaChallengeType | null;
+}
+
+export interface AttemptMfaChallengeRepository {
+  attemptMfaChallenge(
+    token: AttemptMfaChallengeRepository.Request
+  ): Promise<AttemptMfaChallengeRepository.Response>;
+}
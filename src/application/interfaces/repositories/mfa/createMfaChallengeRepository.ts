@@ -0,0 +1,14 @@
+export namespace CreateMfaChallengeRepository {
+  export type Request = {
+    token: string;
+    userId: string;
+    expiresAt: Date;
+  };
+  export type Response = string;
+}
+
+export interface CreateMfaChallengeRepository {
+  createMfaChallenge(
+    challengeData: CreateMfaChallengeRepository.Request
+  ): Promise<CreateMfaChallengeRepository.Response>;
+}
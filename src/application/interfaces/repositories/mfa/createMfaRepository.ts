@@ -0,0 +1,13 @@
+export namespace CreateMfaRepository {
+  export type Request = {
+    userId: string;
+    secret: string;
+  };
+  export type Response = void;
+}
+
+export interface CreateMfaRepository {
+  createMfa(
+    mfaData: CreateMfaRepository.Request
+  ): Promise<CreateMfaRepository.Response>;
+}
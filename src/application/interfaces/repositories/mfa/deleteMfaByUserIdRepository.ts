@@ -0,0 +1,10 @@
+export namespace DeleteMfaByUserIdRepository {
+  export type Request = string;
+  export type Response = void;
+}
+
+export interface DeleteMfaByUserIdRepository {
+  deleteMfaByUserId(
+    userId: DeleteMfaByUserIdRepository.Request
+  ): Promise<DeleteMfaByUserIdRepository.Response>;
+}
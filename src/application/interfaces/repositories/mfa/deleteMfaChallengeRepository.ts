@@ -0,0 +1,10 @@
+export namespace DeleteMfaChallengeRepository {
+  export type Request = string;
+  export type Response = void;
+}
+
+export interface DeleteMfaChallengeRepository {
+  deleteMfaChallenge(
+    token: DeleteMfaChallengeRepository.Request
+  ): Promise<DeleteMfaChallengeRepository.Response>;
+}
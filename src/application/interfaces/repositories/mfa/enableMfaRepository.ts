@@ -0,0 +1,13 @@
+export namespace EnableMfaRepository {
+  export type Request = {
+    userId: string;
+    recoveryCodes: string[];
+  };
+  export type Response = void;
+}
+
+export interface EnableMfaRepository {
+  enableMfa(
+    params: EnableMfaRepository.Request
+  ): Promise<EnableMfaRepository.Response>;
+}
@@ -0,0 +1,21 @@
+export type MfaType = {
+  id: string;
+  userId: string;
+  secret: string;
+  enabled: boolean;
+  recoveryCodes: string[];
+  lastUsedStep: number | null;
+  createdAt: Date;
+  updatedAt?: Date;
+};
+
+export namespace GetMfaByUserIdRepository {
+  export type Request = string;
+  export type Response = MfaType | null;
+}
+
+export interface GetMfaByUserIdRepository {
+  getMfaByUserId(
+    userId: GetMfaByUserIdRepository.Request
+  ): Promise<GetMfaByUserIdRepository.Response>;
+}
@@ -0,0 +1,13 @@
+export namespace RemoveRecoveryCodeRepository {
+  export type Request = {
+    userId: string;
+    recoveryCode: string;
+  };
+  export type Response = boolean;
+}
+
+export interface RemoveRecoveryCodeRepository {
+  removeRecoveryCode(
+    params: RemoveRecoveryCodeRepository.Request
+  ): Promise<RemoveRecoveryCodeRepository.Response>;
+}
@@ -0,0 +1,13 @@
+export namespace UseMfaTimeStepRepository {
+  export type Request = {
+    userId: string;
+    timeStep: number;
+  };
+  export type Response = boolean;
+}
+
+export interface UseMfaTimeStepRepository {
+  useMfaTimeStep(
+    params: UseMfaTimeStepRepository.Request
+  ): Promise<UseMfaTimeStepRepository.Response>;
+}
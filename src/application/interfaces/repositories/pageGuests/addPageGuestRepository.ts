@@ -0,0 +1,12 @@
+import { PageGuestProps } from '@domain/entities/PageGuest';
+
+export namespace AddPageGuestRepository {
+  export type Request = Omit<PageGuestProps, 'id' | 'createdAt' | 'updatedAt'>;
+  export type Response = void;
+}
+
+export interface AddPageGuestRepository {
+  addPageGuest(
+    pageGuestData: AddPageGuestRepository.Request
+  ): Promise<AddPageGuestRepository.Response>;
+}
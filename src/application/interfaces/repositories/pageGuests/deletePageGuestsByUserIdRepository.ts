@@ -0,0 +1,10 @@
+export namespace DeletePageGuestsByUserIdRepository {
+  export type Request = string;
+  export type Response = void;
+}
+
+export interface DeletePageGuestsByUserIdRepository {
+  deletePageGuestsByUserId(
+    userId: DeletePageGuestsByUserIdRepository.Request
+  ): Promise<DeletePageGuestsByUserIdRepository.Response>;
+}
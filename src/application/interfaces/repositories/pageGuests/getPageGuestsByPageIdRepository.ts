@@ -0,0 +1,12 @@
+import { PageGuest } from '@domain/entities/PageGuest';
+
+export namespace GetPageGuestsByPageIdRepository {
+  export type Request = string;
+  export type Response = PageGuest[];
+}
+
+export interface GetPageGuestsByPageIdRepository {
+  getPageGuestsByPageId(
+    pageId: GetPageGuestsByPageIdRepository.Request
+  ): Promise<GetPageGuestsByPageIdRepository.Response>;
+}
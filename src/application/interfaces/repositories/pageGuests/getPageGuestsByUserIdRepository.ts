@@ -0,0 +1,12 @@
+import { PageGuest } from '@domain/entities/PageGuest';
+
+export namespace GetPageGuestsByUserIdRepository {
+  export type Request = string;
+  export type Response = PageGuest[];
+}
+
+export interface GetPageGuestsByUserIdRepository {
+  getPageGuestsByUserId(
+    userId: GetPageGuestsByUserIdRepository.Request
+  ): Promise<GetPageGuestsByUserIdRepository.Response>;
+}
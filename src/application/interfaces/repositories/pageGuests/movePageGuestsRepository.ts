@@ -0,0 +1,13 @@
+export namespace MovePageGuestsRepository {
+  export type Request = {
+    pageIds: string[];
+    workspaceId: string;
+  };
+  export type Response = void;
+}
+
+export interface MovePageGuestsRepository {
+  movePageGuests(
+    params: MovePageGuestsRepository.Request
+  ): Promise<MovePageGuestsRepository.Response>;
+}
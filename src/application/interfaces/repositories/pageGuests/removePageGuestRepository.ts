@@ -0,0 +1,13 @@
+export namespace RemovePageGuestRepository {
+  export type Request = {
+    pageId: string;
+    userId: string;
+  };
+  export type Response = boolean;
+}
+
+export interface RemovePageGuestRepository {
+  removePageGuest(
+    params: RemovePageGuestRepository.Request
+  ): Promise<RemovePageGuestRepository.Response>;
+}
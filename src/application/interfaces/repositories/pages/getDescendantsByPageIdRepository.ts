@@ -0,0 +1,12 @@
+import { Page } from '@domain/entities/Page';
+
+export namespace GetDescendantsByPageIdRepository {
+  export type Request = string;
+  export type Response = Page[];
+}
+
+export interface GetDescendantsByPageIdRepository {
+  getDescendantsByPageId(
+    pageId: GetDescendantsByPageIdRepository.Request
+  ): Promise<GetDescendantsByPageIdRepository.Response>;
+}
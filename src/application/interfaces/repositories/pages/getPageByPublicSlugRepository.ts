@@ -0,0 +1,12 @@
+import { Page } from '@domain/entities/Page';
+
+export namespace GetPageByPublicSlugRepository {
+  export type Request = string;
+  export type Response = Page | null;
+}
+
+export interface GetPageByPublicSlugRepository {
+  getPageByPublicSlug(
+    slug: GetPageByPublicSlugRepository.Request
+  ): Promise<GetPageByPublicSlugRepository.Response>;
+}
@@ -0,0 +1,12 @@
+import { Page } from '@domain/entities/Page';
+
+export namespace GetPagesByWorkspaceIdRepository {
+  export type Request = string;
+  export type Response = Page[];
+}
+
+export interface GetPagesByWorkspaceIdRepository {
+  getPagesByWorkspaceId(
+    workspaceId: GetPagesByWorkspaceIdRepository.Request
+  ): Promise<GetPagesByWorkspaceIdRepository.Response>;
+}
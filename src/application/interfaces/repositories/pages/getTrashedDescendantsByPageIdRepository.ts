@@ -0,0 +1,12 @@
+import { Page } from '@domain/entities/Page';
+
+export namespace GetTrashedDescendantsByPageIdRepository {
+  export type Request = string;
+  export type Response = Page[];
+}
+
+export interface GetTrashedDescendantsByPageIdRepository {
+  getTrashedDescendantsByPageId(
+    pageId: GetTrashedDescendantsByPageIdRepository.Request
+  ): Promise<GetTrashedDescendantsByPageIdRepository.Response>;
+}
@@ -0,0 +1,12 @@
+import { Page } from '@domain/entities/Page';
+
+export namespace GetTrashedPagesByPageIdRepository {
+  export type Request = string;
+  export type Response = Page[];
+}
+
+export interface GetTrashedPagesByPageIdRepository {
+  getTrashedPagesByPageId(
+    pageId: GetTrashedPagesByPageIdRepository.Request
+  ): Promise<GetTrashedPagesByPageIdRepository.Response>;
+}
@@ -0,0 +1,12 @@
+import { Page } from '@domain/entities/Page';
+
+export namespace GetTrashedPagesByWorkspaceIdRepository {
+  export type Request = string;
+  export type Response = Page[];
+}
+
+export interface GetTrashedPagesByWorkspaceIdRepository {
+  getTrashedPagesByWorkspaceId(
+    workspaceId: GetTrashedPagesByWorkspaceIdRepository.Request
+  ): Promise<GetTrashedPagesByWorkspaceIdRepository.Response>;
+}
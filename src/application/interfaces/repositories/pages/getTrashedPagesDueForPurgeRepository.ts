@@ -0,0 +1,12 @@
+import { Page } from '@domain/entities/Page';
+
+export namespace GetTrashedPagesDueForPurgeRepository {
+  export type Request = Date;
+  export type Response = Page[];
+}
+
+export interface GetTrashedPagesDueForPurgeRepository {
+  getTrashedPagesDueForPurge(
+    trashedBefore: GetTrashedPagesDueForPurgeRepository.Request
+  ): Promise<GetTrashedPagesDueForPurgeRepository.Response>;
+}
@@ -0,0 +1,13 @@
+export namespace MovePagesRepository {
+  export type Request = {
+    workspaceId: string;
+    pages: { pageId: string; parentId: string | null; ancestors: string[] }[];
+  };
+  export type Response = void;
+}
+
+export interface MovePagesRepository {
+  movePages(
+    params: MovePagesRepository.Request
+  ): Promise<MovePagesRepository.Response>;
+}
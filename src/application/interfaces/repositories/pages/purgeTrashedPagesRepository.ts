@@ -0,0 +1,10 @@
+export namespace PurgeTrashedPagesRepository {
+  export type Request = string;
+  export type Response = void;
+}
+
+export interface PurgeTrashedPagesRepository {
+  purgeTrashedPages(
+    pageId: PurgeTrashedPagesRepository.Request
+  ): Promise<PurgeTrashedPagesRepository.Response>;
+}
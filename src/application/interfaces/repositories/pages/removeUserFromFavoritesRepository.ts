@@ -0,0 +1,10 @@
+export namespace RemoveUserFromFavoritesRepository {
+  export type Request = string;
+  export type Response = void;
+}
+
+export interface RemoveUserFromFavoritesRepository {
+  removeUserFromFavorites(
+    userId: RemoveUserFromFavoritesRepository.Request
+  ): Promise<RemoveUserFromFavoritesRepository.Response>;
+}
@@ -0,0 +1,12 @@
+export namespace RestorePagesRepository {
+  export type Request = {
+    pages: { pageId: string; parentId: string | null; ancestors: string[] }[];
+  };
+  export type Response = void;
+}
+
+export interface RestorePagesRepository {
+  restorePages(
+    params: RestorePagesRepository.Request
+  ): Promise<RestorePagesRepository.Response>;
+}
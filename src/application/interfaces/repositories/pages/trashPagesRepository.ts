@@ -0,0 +1,14 @@
+export namespace TrashPagesRepository {
+  export type Request = {
+    pageId: string;
+    pageIds: string[];
+    trashedAt: Date;
+  };
+  export type Response = void;
+}
+
+export interface TrashPagesRepository {
+  trashPages(
+    params: TrashPagesRepository.Request
+  ): Promise<TrashPagesRepository.Response>;
+}
@@ -0,0 +1,15 @@
+import { PagePublicationType } from '@domain/entities/Page';
+
+export namespace UpdatePagePublicationByPageIdRepository {
+  export type Request = {
+    pageId: string;
+    publication: PagePublicationType | null;
+  };
+  export type Response = void;
+}
+
+export interface UpdatePagePublicationByPageIdRepository {
+  updatePagePublicationByPageId(
+    params: UpdatePagePublicationByPageIdRepository.Request
+  ): Promise<UpdatePagePublicationByPageIdRepository.Response>;
+}
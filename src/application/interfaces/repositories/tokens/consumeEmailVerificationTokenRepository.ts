@@ -0,0 +1,20 @@
+export type EmailVerificationTokenType = {
+  id: string;
+  token: string;
+  userId: string;
+  email: string;
+  expiresAt: Date;
+  usedAt: Date | null;
+  createdAt: Date;
+};
+
+export namespace ConsumeEmailVerificationTokenRepository {
+  export type Request = string;
+  export type Response = EmailVerificationTokenType | null;
+}
+
+export interface ConsumeEmailVerificationTokenRepository {
+  consumeEmailVerificationToken(
+    token: ConsumeEmailVerificationTokenRepository.Request
+  ): Promise<ConsumeEmailVerificationTokenRepository.Response>;
+}
@@ -0,0 +1,19 @@
+export type PasswordResetTokenType = {
+  id: string;
+  token: string;
+  userId: string;
+  expiresAt: Date;
+  usedAt: Date | null;
+  createdAt: Date;
+};
+
+export namespace ConsumePasswordResetTokenRepository {
+  export type Request = string;
+  export type Response = PasswordResetTokenType | null;
+}
+
+export interface ConsumePasswordResetTokenRepository {
+  consumePasswordResetToken(
+    token: ConsumePasswordResetTokenRepository.Request
+  ): Promise<ConsumePasswordResetTokenRepository.Response>;
+}
@@ -0,0 +1,15 @@
+export namespace CreateEmailVerificationTokenRepository {
+  export type Request = {
+    token: string;
+    userId: string;
+    email: string;
+    expiresAt: Date;
+  };
+  export type Response = string;
+}
+
+export interface CreateEmailVerificationTokenRepository {
+  createEmailVerificationToken(
+    tokenData: CreateEmailVerificationTokenRepository.Request
+  ): Promise<CreateEmailVerificationTokenRepository.Response>;
+}
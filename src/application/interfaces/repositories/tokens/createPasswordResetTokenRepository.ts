@@ -0,0 +1,14 @@
+export namespace CreatePasswordResetTokenRepository {
+  export type Request = {
+    token: string;
+    userId: string;
+    expiresAt: Date;
+  };
+  export type Response = string;
+}
+
+export interface CreatePasswordResetTokenRepository {
+  createPasswordResetToken(
+    tokenData: CreatePasswordResetTokenRepository.Request
+  ): Promise<CreatePasswordResetTokenRepository.Response>;
+}
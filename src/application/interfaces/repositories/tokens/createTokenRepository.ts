@@ -1,10 +1,16 @@
 export namespace CreateTokenRepository {
-  export type Request = string;
+  export type Request = {
+    token: string;
+    userId: string;
+    family?: string;
+    userAgent?: string;
+    ip?: string;
+  };
   export type Response = string;
 }
 
 export interface CreateTokenRepository {
   createToken(
-    token: CreateTokenRepository.Request
+    tokenData: CreateTokenRepository.Request
   ): Promise<CreateTokenRepository.Response>;
 }
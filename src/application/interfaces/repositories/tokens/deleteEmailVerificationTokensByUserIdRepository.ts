@@ -0,0 +1,10 @@
+export namespace DeleteEmailVerificationTokensByUserIdRepository {
+  export type Request = string;
+  export type Response = void;
+}
+
+export interface DeleteEmailVerificationTokensByUserIdRepository {
+  deleteEmailVerificationTokensByUserId(
+    userId: DeleteEmailVerificationTokensByUserIdRepository.Request
+  ): Promise<DeleteEmailVerificationTokensByUserIdRepository.Response>;
+}
@@ -0,0 +1,10 @@
+export namespace DeletePasswordResetTokensByUserIdRepository {
+  export type Request = string;
+  export type Response = void;
+}
+
+export interface DeletePasswordResetTokensByUserIdRepository {
+  deletePasswordResetTokensByUserId(
+    userId: DeletePasswordResetTokensByUserIdRepository.Request
+  ): Promise<DeletePasswordResetTokensByUserIdRepository.Response>;
+}
@@ -0,0 +1,10 @@
+export namespace DeleteTokensByFamilyRepository {
+  export type Request = string;
+  export type Response = void;
+}
+
+export interface DeleteTokensByFamilyRepository {
+  deleteTokensByFamily(
+    family: DeleteTokensByFamilyRepository.Request
+  ): Promise<DeleteTokensByFamilyRepository.Response>;
+}
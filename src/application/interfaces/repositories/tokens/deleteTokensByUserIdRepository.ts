@@ -0,0 +1,10 @@
+export namespace DeleteTokensByUserIdRepository {
+  export type Request = string;
+  export type Response = void;
+}
+
+export interface DeleteTokensByUserIdRepository {
+  deleteTokensByUserId(
+    userId: DeleteTokensByUserIdRepository.Request
+  ): Promise<DeleteTokensByUserIdRepository.Response>;
+}
@@ -0,0 +1,17 @@
+export type SessionType = {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  lastUsedAt: Date;
+};
+
+export namespace GetSessionsByUserIdRepository {
+  export type Request = string;
+  export type Response = SessionType[];
+}
+
+export interface GetSessionsByUserIdRepository {
+  getSessionsByUserId(
+    userId: GetSessionsByUserIdRepository.Request
+  ): Promise<GetSessionsByUserIdRepository.Response>;
+}
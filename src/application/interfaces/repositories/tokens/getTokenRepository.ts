@@ -3,6 +3,12 @@ export namespace GetTokenRepository {
   export type Response = {
     _id: string;
     token: string;
+    userId: string;
+    family: string;
+    userAgent?: string;
+    ip?: string;
+    retiredAt?: Date | null;
+    lastUsedAt?: Date;
     createdAt: Date;
   } | null;
 }
@@ -0,0 +1,10 @@
+export namespace RetireTokenRepository {
+  export type Request = string;
+  export type Response = boolean;
+}
+
+export interface RetireTokenRepository {
+  retireToken(
+    token: RetireTokenRepository.Request
+  ): Promise<RetireTokenRepository.Response>;
+}
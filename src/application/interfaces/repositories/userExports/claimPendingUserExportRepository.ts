@@ -0,0 +1,11 @@
+import { UserExport } from '@domain/entities/UserExport';
+
+export namespace ClaimPendingUserExportRepository {
+  export type Request = void;
+  // the oldest pending export, already moved to processing
+  export type Response = UserExport | null;
+}
+
+export interface ClaimPendingUserExportRepository {
+  claimPendingUserExport(): Promise<ClaimPendingUserExportRepository.Response>;
+}
@@ -0,0 +1,14 @@
+export namespace CompleteUserExportRepository {
+  export type Request = {
+    exportId: string;
+    status: 'ready' | 'failed';
+    expiresAt: Date | null;
+  };
+  export type Response = void;
+}
+
+export interface CompleteUserExportRepository {
+  completeUserExport(
+    params: CompleteUserExportRepository.Request
+  ): Promise<CompleteUserExportRepository.Response>;
+}
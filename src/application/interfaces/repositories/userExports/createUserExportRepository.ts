@@ -0,0 +1,12 @@
+import { UserExport } from '@domain/entities/UserExport';
+
+export namespace CreateUserExportRepository {
+  export type Request = string;
+  export type Response = UserExport;
+}
+
+export interface CreateUserExportRepository {
+  createUserExport(
+    userId: CreateUserExportRepository.Request
+  ): Promise<CreateUserExportRepository.Response>;
+}
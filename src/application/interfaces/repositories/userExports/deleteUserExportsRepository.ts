@@ -0,0 +1,10 @@
+export namespace DeleteUserExportsRepository {
+  export type Request = string[];
+  export type Response = void;
+}
+
+export interface DeleteUserExportsRepository {
+  deleteUserExports(
+    exportIds: DeleteUserExportsRepository.Request
+  ): Promise<DeleteUserExportsRepository.Response>;
+}
@@ -0,0 +1,12 @@
+import { UserExport } from '@domain/entities/UserExport';
+
+export namespace GetExpiredUserExportsRepository {
+  export type Request = Date;
+  export type Response = UserExport[];
+}
+
+export interface GetExpiredUserExportsRepository {
+  getExpiredUserExports(
+    date: GetExpiredUserExportsRepository.Request
+  ): Promise<GetExpiredUserExportsRepository.Response>;
+}
@@ -0,0 +1,12 @@
+import { UserExport } from '@domain/entities/UserExport';
+
+export namespace GetUserExportByIdRepository {
+  export type Request = string;
+  export type Response = UserExport | null;
+}
+
+export interface GetUserExportByIdRepository {
+  getUserExportById(
+    exportId: GetUserExportByIdRepository.Request
+  ): Promise<GetUserExportByIdRepository.Response>;
+}
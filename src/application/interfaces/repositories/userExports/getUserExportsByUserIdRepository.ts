@@ -0,0 +1,12 @@
+import { UserExport } from '@domain/entities/UserExport';
+
+export namespace GetUserExportsByUserIdRepository {
+  export type Request = string;
+  export type Response = UserExport[];
+}
+
+export interface GetUserExportsByUserIdRepository {
+  getUserExportsByUserId(
+    userId: GetUserExportsByUserIdRepository.Request
+  ): Promise<GetUserExportsByUserIdRepository.Response>;
+}
@@ -0,0 +1,11 @@
+export namespace CancelUserDeletionRepository {
+  export type Request = string;
+  // false when no deletion was scheduled
+  export type Response = boolean;
+}
+
+export interface CancelUserDeletionRepository {
+  cancelUserDeletion(
+    userId: CancelUserDeletionRepository.Request
+  ): Promise<CancelUserDeletionRepository.Response>;
+}
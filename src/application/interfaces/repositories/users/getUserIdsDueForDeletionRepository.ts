@@ -0,0 +1,10 @@
+export namespace GetUserIdsDueForDeletionRepository {
+  export type Request = Date;
+  export type Response = string[];
+}
+
+export interface GetUserIdsDueForDeletionRepository {
+  getUserIdsDueForDeletion(
+    date: GetUserIdsDueForDeletionRepository.Request
+  ): Promise<GetUserIdsDueForDeletionRepository.Response>;
+}
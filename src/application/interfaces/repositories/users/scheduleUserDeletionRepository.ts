@@ -0,0 +1,13 @@
+export namespace ScheduleUserDeletionRepository {
+  export type Request = {
+    userId: string;
+    scheduledDeletionAt: Date;
+  };
+  export type Response = void;
+}
+
+export interface ScheduleUserDeletionRepository {
+  scheduleUserDeletion(
+    params: ScheduleUserDeletionRepository.Request
+  ): Promise<ScheduleUserDeletionRepository.Response>;
+}
@@ -0,0 +1,13 @@
+export namespace UpdatePasswordRepository {
+  export type Request = {
+    userId: string;
+    password: string;
+  };
+  export type Response = void;
+}
+
+export interface UpdatePasswordRepository {
+  updatePassword(
+    params: UpdatePasswordRepository.Request
+  ): Promise<UpdatePasswordRepository.Response>;
+}
@@ -6,7 +6,12 @@ export namespace UpdateUserRepository {
     userData: Partial<
       Omit<
         UserProps,
-        'id' | 'createdAt' | 'updatedAt' | 'profilePicture' | 'workspaces'
+        | 'id'
+        | 'password'
+        | 'createdAt'
+        | 'updatedAt'
+        | 'profilePicture'
+        | 'workspaces'
       >
     >;
   };
@@ -0,0 +1,13 @@
+export namespace VerifyEmailRepository {
+  export type Request = {
+    userId: string;
+    email: string;
+  };
+  export type Response = boolean;
+}
+
+export interface VerifyEmailRepository {
+  verifyEmail(
+    params: VerifyEmailRepository.Request
+  ): Promise<VerifyEmailRepository.Response>;
+}
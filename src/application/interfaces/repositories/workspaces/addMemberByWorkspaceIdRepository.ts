@@ -1,9 +1,10 @@
-import { Workspace } from '@domain/entities/Workspace';
+import { Workspace, WorkspaceRole } from '@domain/entities/Workspace';
 
 export namespace AddMemberByWorkspaceIdRepository {
   export type Request = {
     workspaceId: string;
     memberId: string;
+    role: WorkspaceRole;
   };
   export type Response = Workspace;
 }
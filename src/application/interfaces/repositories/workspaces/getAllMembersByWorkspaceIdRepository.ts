@@ -1,6 +1,8 @@
+import { MemberType } from '@domain/entities/Workspace';
+
 export namespace GetAllMembersByWorkspaceIdRepository {
   export type Request = string;
-  export type Response = string[] | null;
+  export type Response = MemberType[] | null;
 }
 
 export interface GetAllMembersByWorkspaceIdRepository {
@@ -0,0 +1,12 @@
+import { PageType } from '@domain/entities/Workspace';
+
+export namespace GetPagesByWorkspaceIdRepository {
+  export type Request = string;
+  export type Response = PageType[] | null;
+}
+
+export interface GetPagesByWorkspaceIdRepository {
+  getPagesByWorkspaceId(
+    workspaceId: GetPagesByWorkspaceIdRepository.Request
+  ): Promise<GetPagesByWorkspaceIdRepository.Response>;
+}
@@ -0,0 +1,16 @@
+import { WorkspaceRole } from '@domain/entities/Workspace';
+
+export namespace UpdateMemberRoleByWorkspaceIdRepository {
+  export type Request = {
+    workspaceId: string;
+    memberId: string;
+    role: WorkspaceRole;
+  };
+  export type Response = void;
+}
+
+export interface UpdateMemberRoleByWorkspaceIdRepository {
+  updateMemberRoleByWorkspaceId(
+    params: UpdateMemberRoleByWorkspaceIdRepository.Request
+  ): Promise<UpdateMemberRoleByWorkspaceIdRepository.Response>;
+}
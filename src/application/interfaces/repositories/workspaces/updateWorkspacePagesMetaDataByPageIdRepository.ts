@@ -2,7 +2,8 @@ export type updatedPagesDataType = {
   title?: string;
   icon?: string;
   reference?: string;
-  path?: string;
+  parentId?: string | null;
+  position?: string;
 };
 
 export namespace UpdateWorkspacePagesMetaDataByPageIdRepository {
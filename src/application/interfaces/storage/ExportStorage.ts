@@ -0,0 +1,6 @@
+export interface ExportStorage {
+  save(exportId: string, content: string): Promise<void>;
+  load(exportId: string): Promise<string | null>;
+  // removing an export that has no file is not an error
+  remove(exportId: string): Promise<void>;
+}
@@ -0,0 +1,33 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { InvitationExpiredError } from '@application/errors/InvitationExpiredError';
+import { InvitationNotFoundError } from '@application/errors/InvitationNotFoundError';
+import { UnverifiedEmailError } from '@application/errors/UnverifiedEmailError';
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace AcceptInvitationInterface {
+  export type Request = {
+    userId: string;
+    token: string;
+    ip?: string;
+  };
+  export type Response =
+    | void
+    | InvitationNotFoundError
+    | InvitationExpiredError
+    | ForbiddenError
+    | UnverifiedEmailError
+    | UserNotFoundError
+    | WorkspaceNotFoundError;
+}
+
+export interface AcceptInvitationInterface
+  extends UseCase<
+    AcceptInvitationInterface.Request,
+    AcceptInvitationInterface.Response
+  > {
+  execute(
+    params: AcceptInvitationInterface.Request
+  ): Promise<AcceptInvitationInterface.Response>;
+}
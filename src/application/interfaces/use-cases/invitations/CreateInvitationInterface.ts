@@ -0,0 +1,27 @@
+import { MemberAlreadyExistsError } from '@application/errors/MemberAlreadyExistsError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+import { WorkspaceRole } from '@domain/entities/Workspace';
+
+export namespace CreateInvitationInterface {
+  export type Request = {
+    workspaceId: string;
+    email: string;
+    role: WorkspaceRole;
+    invitedBy: string;
+  };
+  export type Response =
+    | string
+    | WorkspaceNotFoundError
+    | MemberAlreadyExistsError;
+}
+
+export interface CreateInvitationInterface
+  extends UseCase<
+    CreateInvitationInterface.Request,
+    CreateInvitationInterface.Response
+  > {
+  execute(
+    params: CreateInvitationInterface.Request
+  ): Promise<CreateInvitationInterface.Response>;
+}
@@ -0,0 +1,28 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { InvitationExpiredError } from '@application/errors/InvitationExpiredError';
+import { InvitationNotFoundError } from '@application/errors/InvitationNotFoundError';
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace DeclineInvitationInterface {
+  export type Request = {
+    userId: string;
+    token: string;
+  };
+  export type Response =
+    | void
+    | InvitationNotFoundError
+    | InvitationExpiredError
+    | ForbiddenError
+    | UserNotFoundError;
+}
+
+export interface DeclineInvitationInterface
+  extends UseCase<
+    DeclineInvitationInterface.Request,
+    DeclineInvitationInterface.Response
+  > {
+  execute(
+    params: DeclineInvitationInterface.Request
+  ): Promise<DeclineInvitationInterface.Response>;
+}
@@ -0,0 +1,18 @@
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+import { Invitation } from '@domain/entities/Invitation';
+
+export namespace GetInvitationsByUserIdInterface {
+  export type Request = string;
+  export type Response = Invitation[] | UserNotFoundError;
+}
+
+export interface GetInvitationsByUserIdInterface
+  extends UseCase<
+    GetInvitationsByUserIdInterface.Request,
+    GetInvitationsByUserIdInterface.Response
+  > {
+  execute(
+    userId: GetInvitationsByUserIdInterface.Request
+  ): Promise<GetInvitationsByUserIdInterface.Response>;
+}
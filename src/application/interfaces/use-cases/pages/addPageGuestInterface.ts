@@ -0,0 +1,24 @@
+import { MemberAlreadyExistsError } from '@application/errors/MemberAlreadyExistsError';
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+import { PageGuestRole } from '@domain/entities/PageGuest';
+
+export namespace AddPageGuestInterface {
+  export type Request = {
+    pageId: string;
+    email: string;
+    role: PageGuestRole;
+    grantedBy: string;
+  };
+  export type Response = void | PageNotFoundError | MemberAlreadyExistsError;
+}
+
+export interface AddPageGuestInterface
+  extends UseCase<
+    AddPageGuestInterface.Request,
+    AddPageGuestInterface.Response
+  > {
+  execute(
+    params: AddPageGuestInterface.Request
+  ): Promise<AddPageGuestInterface.Response>;
+}
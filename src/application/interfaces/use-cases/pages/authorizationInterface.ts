@@ -1,11 +1,14 @@
 import { ForbiddenError } from '@application/errors/ForbiddenError';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { UseCase } from '@application/interfaces/use-cases/UseCase';
+import { WorkspaceRole } from '@domain/entities/Workspace';
 
 export namespace AuthorizationInterface {
   export type Request = {
     userId: string;
     pageId: string;
+    roles?: WorkspaceRole[];
+    membersOnly?: boolean;
   };
   export type Response = string | PageNotFoundError | ForbiddenError;
 }
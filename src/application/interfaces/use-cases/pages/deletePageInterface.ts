@@ -1,13 +1,20 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { UseCase } from '@application/interfaces/use-cases/UseCase';
 
 export namespace DeletePageInterface {
-  export type Request = string;
-  export type Response = void;
+  export type Request = {
+    pageId: string;
+    workspaceId: string;
+    actorId: string;
+    ip?: string;
+  };
+  // ids of every page moved to the trash, the deleted page first
+  export type Response = string[] | PageNotFoundError;
 }
 
 export interface DeletePageInterface
   extends UseCase<DeletePageInterface.Request, DeletePageInterface.Response> {
   execute(
-    pageId: DeletePageInterface.Request
+    params: DeletePageInterface.Request
   ): Promise<DeletePageInterface.Response>;
 }
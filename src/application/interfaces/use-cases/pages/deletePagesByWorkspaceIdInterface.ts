@@ -1,7 +1,11 @@
 import { UseCase } from '@application/interfaces/use-cases/UseCase';
 
 export namespace DeletePagesByWorkspaceIdInterface {
-  export type Request = string;
+  export type Request = {
+    workspaceId: string;
+    actorId: string;
+    ip?: string;
+  };
   export type Response = void;
 }
 
@@ -11,6 +15,6 @@ export interface DeletePagesByWorkspaceIdInterface
     DeletePagesByWorkspaceIdInterface.Response
   > {
   execute(
-    workspaceId: DeletePagesByWorkspaceIdInterface.Request
+    params: DeletePagesByWorkspaceIdInterface.Request
   ): Promise<DeletePagesByWorkspaceIdInterface.Response>;
 }
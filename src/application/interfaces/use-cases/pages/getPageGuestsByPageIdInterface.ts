@@ -0,0 +1,17 @@
+import { PageGuest } from '@domain/entities/PageGuest';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace GetPageGuestsByPageIdInterface {
+  export type Request = string;
+  export type Response = PageGuest[];
+}
+
+export interface GetPageGuestsByPageIdInterface
+  extends UseCase<
+    GetPageGuestsByPageIdInterface.Request,
+    GetPageGuestsByPageIdInterface.Response
+  > {
+  execute(
+    pageId: GetPageGuestsByPageIdInterface.Request
+  ): Promise<GetPageGuestsByPageIdInterface.Response>;
+}
@@ -0,0 +1,38 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+import { ContentType, CoverPictureType } from '@domain/entities/Page';
+
+export type PublicPageTreeType = {
+  id: string;
+  title: string;
+  icon: string;
+  children: PublicPageTreeType[];
+};
+
+export type PublicPageType = {
+  id: string;
+  title: string;
+  icon: string;
+  coverPicture: CoverPictureType;
+  content: ContentType;
+  allowIndexing: boolean;
+  children: PublicPageTreeType[];
+};
+
+export namespace GetPublicPageBySlugInterface {
+  export type Request = {
+    slug: string;
+    pageId?: string;
+  };
+  export type Response = PublicPageType | PageNotFoundError;
+}
+
+export interface GetPublicPageBySlugInterface
+  extends UseCase<
+    GetPublicPageBySlugInterface.Request,
+    GetPublicPageBySlugInterface.Response
+  > {
+  execute(
+    params: GetPublicPageBySlugInterface.Request
+  ): Promise<GetPublicPageBySlugInterface.Response>;
+}
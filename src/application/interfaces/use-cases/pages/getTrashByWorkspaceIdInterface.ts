@@ -0,0 +1,17 @@
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+import { Page } from '@domain/entities/Page';
+
+export namespace GetTrashByWorkspaceIdInterface {
+  export type Request = string;
+  export type Response = Page[];
+}
+
+export interface GetTrashByWorkspaceIdInterface
+  extends UseCase<
+    GetTrashByWorkspaceIdInterface.Request,
+    GetTrashByWorkspaceIdInterface.Response
+  > {
+  execute(
+    workspaceId: GetTrashByWorkspaceIdInterface.Request
+  ): Promise<GetTrashByWorkspaceIdInterface.Response>;
+}
@@ -0,0 +1,15 @@
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+import { Page } from '@domain/entities/Page';
+
+export namespace GetTrashedPagesDueForPurgeInterface {
+  export type Request = void;
+  export type Response = Page[];
+}
+
+export interface GetTrashedPagesDueForPurgeInterface
+  extends UseCase<
+    GetTrashedPagesDueForPurgeInterface.Request,
+    GetTrashedPagesDueForPurgeInterface.Response
+  > {
+  execute(): Promise<GetTrashedPagesDueForPurgeInterface.Response>;
+}
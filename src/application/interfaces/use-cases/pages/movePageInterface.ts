@@ -0,0 +1,28 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { InvalidPageMoveError } from '@application/errors/InvalidPageMoveError';
+import { PageLockedError } from '@application/errors/PageLockedError';
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+import { Page } from '@domain/entities/Page';
+
+export namespace MovePageInterface {
+  export type Request = {
+    pageId: string;
+    userId: string;
+    parentId: string | null;
+    workspaceId?: string;
+  };
+  export type Response =
+    | { previousWorkspaceId: string; pages: Page[] }
+    | PageNotFoundError
+    | PageLockedError
+    | InvalidPageMoveError
+    | ForbiddenError;
+}
+
+export interface MovePageInterface
+  extends UseCase<MovePageInterface.Request, MovePageInterface.Response> {
+  execute(
+    params: MovePageInterface.Request
+  ): Promise<MovePageInterface.Response>;
+}
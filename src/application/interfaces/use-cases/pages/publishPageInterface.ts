@@ -0,0 +1,20 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+import { PagePublicationType } from '@domain/entities/Page';
+
+export namespace PublishPageInterface {
+  export type Request = {
+    pageId: string;
+    includeChildren?: boolean;
+    allowIndexing?: boolean;
+    expiresInDays?: number;
+  };
+  export type Response = PagePublicationType | PageNotFoundError;
+}
+
+export interface PublishPageInterface
+  extends UseCase<PublishPageInterface.Request, PublishPageInterface.Response> {
+  execute(
+    params: PublishPageInterface.Request
+  ): Promise<PublishPageInterface.Response>;
+}
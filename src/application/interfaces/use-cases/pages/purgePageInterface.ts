@@ -0,0 +1,20 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace PurgePageInterface {
+  export type Request = {
+    workspaceId: string;
+    pageId: string;
+    // retention purges run without an actor and are not audited
+    actorId?: string;
+    ip?: string;
+  };
+  export type Response = void | PageNotFoundError;
+}
+
+export interface PurgePageInterface
+  extends UseCase<PurgePageInterface.Request, PurgePageInterface.Response> {
+  execute(
+    params: PurgePageInterface.Request
+  ): Promise<PurgePageInterface.Response>;
+}
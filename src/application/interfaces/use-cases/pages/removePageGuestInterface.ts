@@ -0,0 +1,20 @@
+import { PageGuestNotFoundError } from '@application/errors/PageGuestNotFoundError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace RemovePageGuestInterface {
+  export type Request = {
+    pageId: string;
+    userId: string;
+  };
+  export type Response = void | PageGuestNotFoundError;
+}
+
+export interface RemovePageGuestInterface
+  extends UseCase<
+    RemovePageGuestInterface.Request,
+    RemovePageGuestInterface.Response
+  > {
+  execute(
+    params: RemovePageGuestInterface.Request
+  ): Promise<RemovePageGuestInterface.Response>;
+}
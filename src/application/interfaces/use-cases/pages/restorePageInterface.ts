@@ -0,0 +1,20 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+import { Page } from '@domain/entities/Page';
+
+export namespace RestorePageInterface {
+  export type Request = {
+    workspaceId: string;
+    pageId: string;
+    actorId: string;
+    ip?: string;
+  };
+  export type Response = Page[] | PageNotFoundError;
+}
+
+export interface RestorePageInterface
+  extends UseCase<RestorePageInterface.Request, RestorePageInterface.Response> {
+  execute(
+    params: RestorePageInterface.Request
+  ): Promise<RestorePageInterface.Response>;
+}
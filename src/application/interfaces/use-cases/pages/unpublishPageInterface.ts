@@ -0,0 +1,17 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace UnpublishPageInterface {
+  export type Request = string;
+  export type Response = void | PageNotFoundError;
+}
+
+export interface UnpublishPageInterface
+  extends UseCase<
+    UnpublishPageInterface.Request,
+    UnpublishPageInterface.Response
+  > {
+  execute(
+    pageId: UnpublishPageInterface.Request
+  ): Promise<UnpublishPageInterface.Response>;
+}
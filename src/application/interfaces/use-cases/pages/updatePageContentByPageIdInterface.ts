@@ -1,3 +1,4 @@
+import { PageLockedError } from '@application/errors/PageLockedError';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { UseCase } from '@application/interfaces/use-cases/UseCase';
 import { ContentType, Page } from '@domain/entities/Page';
@@ -10,7 +11,7 @@ export namespace UpdatePageContentByPageIdInterface {
     pageId: pageIdType;
     content: contentType;
   };
-  export type Response = Page | PageNotFoundError;
+  export type Response = Page | PageNotFoundError | PageLockedError;
 }
 
 export interface UpdatePageContentByPageIdInterface
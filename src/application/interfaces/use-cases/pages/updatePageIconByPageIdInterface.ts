@@ -1,3 +1,4 @@
+import { PageLockedError } from '@application/errors/PageLockedError';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { UseCase } from '@application/interfaces/use-cases/UseCase';
 import { Page } from '@domain/entities/Page';
@@ -7,7 +8,7 @@ export namespace UpdatePageIconByPageIdInterface {
     pageId: string;
     icon: string;
   };
-  export type Response = Page | PageNotFoundError;
+  export type Response = Page | PageNotFoundError | PageLockedError;
 }
 
 export interface UpdatePageIconByPageIdInterface
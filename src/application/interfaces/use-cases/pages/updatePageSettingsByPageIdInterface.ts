@@ -1,3 +1,4 @@
+import { PageLockedError } from '@application/errors/PageLockedError';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { UseCase } from '@application/interfaces/use-cases/UseCase';
 import { Page, PageSettingsType } from '@domain/entities/Page';
@@ -9,8 +10,10 @@ export namespace UpdatePageSettingsByPageIdInterface {
   export type Request = {
     pageId: pageIdType;
     settings: PageSettingsType;
+    actorId: string;
+    ip?: string;
   };
-  export type Response = Page | PageNotFoundError;
+  export type Response = Page | PageNotFoundError | PageLockedError;
 }
 
 export interface UpdatePageSettingsByPageIdInterface
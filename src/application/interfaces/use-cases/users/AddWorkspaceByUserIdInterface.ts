@@ -1,3 +1,4 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
 import { UserNotFoundError } from '@application/errors/UserNotFoundError';
 import { UseCase } from '@application/interfaces/use-cases/UseCase';
 
@@ -8,7 +9,7 @@ export namespace AddWorkspaceByUserIdInterface {
     workspaceName: string;
     workspaceIcon: string;
   };
-  export type Response = void | UserNotFoundError;
+  export type Response = void | UserNotFoundError | ForbiddenError;
 }
 
 export interface AddWorkspaceByUserIdInterface
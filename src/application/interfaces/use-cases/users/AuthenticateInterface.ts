@@ -1,9 +1,15 @@
 import { UseCase } from '@application/interfaces/use-cases/UseCase';
 import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { ApiTokenScope } from '@domain/entities/ApiToken';
 
 export namespace AuthenticateInterface {
   export type Request = string;
-  export type Response = string | ForbiddenError;
+  export type Response =
+    | {
+        userId: string;
+        apiToken?: { scopes: ApiTokenScope[]; workspaceId: string | null };
+      }
+    | ForbiddenError;
 }
 
 export interface AuthenticateInterface
@@ -0,0 +1,24 @@
+import { InvalidPasswordError } from '@application/errors/InvalidPasswordError';
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+import { User } from '@domain/entities/User';
+
+export namespace ChangePasswordInterface {
+  export type Request = {
+    userId: string;
+    currentPassword: string;
+    newPassword: string;
+    ip?: string;
+  };
+  export type Response = User | UserNotFoundError | InvalidPasswordError;
+}
+
+export interface ChangePasswordInterface
+  extends UseCase<
+    ChangePasswordInterface.Request,
+    ChangePasswordInterface.Response
+  > {
+  execute(
+    params: ChangePasswordInterface.Request
+  ): Promise<ChangePasswordInterface.Response>;
+}
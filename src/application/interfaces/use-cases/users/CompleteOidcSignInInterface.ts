@@ -0,0 +1,29 @@
+import { IdentityProviderNotFoundError } from '@application/errors/IdentityProviderNotFoundError';
+import { InvalidTokenError } from '@application/errors/InvalidTokenError';
+import { UnverifiedEmailError } from '@application/errors/UnverifiedEmailError';
+import { ExternalIdentityType } from '@application/interfaces/identity/IdentityProvider';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace CompleteOidcSignInInterface {
+  export type Request = {
+    provider: string;
+    code: string;
+    state: string;
+  };
+  export type Response =
+    | { userId: string }
+    | { identity: ExternalIdentityType }
+    | IdentityProviderNotFoundError
+    | InvalidTokenError
+    | UnverifiedEmailError;
+}
+
+export interface CompleteOidcSignInInterface
+  extends UseCase<
+    CompleteOidcSignInInterface.Request,
+    CompleteOidcSignInInterface.Response
+  > {
+  execute(
+    params: CompleteOidcSignInInterface.Request
+  ): Promise<CompleteOidcSignInInterface.Response>;
+}
@@ -0,0 +1,23 @@
+import { InvalidMfaCodeError } from '@application/errors/InvalidMfaCodeError';
+import { MfaAlreadyEnabledError } from '@application/errors/MfaAlreadyEnabledError';
+import { MfaNotEnrolledError } from '@application/errors/MfaNotEnrolledError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace ConfirmMfaInterface {
+  export type Request = {
+    userId: string;
+    code: string;
+  };
+  export type Response =
+    | { recoveryCodes: string[] }
+    | MfaNotEnrolledError
+    | MfaAlreadyEnabledError
+    | InvalidMfaCodeError;
+}
+
+export interface ConfirmMfaInterface
+  extends UseCase<ConfirmMfaInterface.Request, ConfirmMfaInterface.Response> {
+  execute(
+    params: ConfirmMfaInterface.Request
+  ): Promise<ConfirmMfaInterface.Response>;
+}
@@ -0,0 +1,23 @@
+import { ApiTokenProps, ApiTokenScope } from '@domain/entities/ApiToken';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace CreateApiTokenInterface {
+  export type Request = {
+    userId: string;
+    name: string;
+    scopes: ApiTokenScope[];
+    workspaceId?: string;
+    expiresInDays?: number;
+  };
+  export type Response = Omit<ApiTokenProps, 'tokenHash'> & { token: string };
+}
+
+export interface CreateApiTokenInterface
+  extends UseCase<
+    CreateApiTokenInterface.Request,
+    CreateApiTokenInterface.Response
+  > {
+  execute(
+    params: CreateApiTokenInterface.Request
+  ): Promise<CreateApiTokenInterface.Response>;
+}
@@ -0,0 +1,22 @@
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace CreateSessionInterface {
+  export type Request = {
+    userId: string;
+    userAgent?: string;
+    ip?: string;
+  };
+  export type Response =
+    | { accessToken: string; refreshToken: string }
+    | { mfaToken: string };
+}
+
+export interface CreateSessionInterface
+  extends UseCase<
+    CreateSessionInterface.Request,
+    CreateSessionInterface.Response
+  > {
+  execute(
+    params: CreateSessionInterface.Request
+  ): Promise<CreateSessionInterface.Response>;
+}
@@ -0,0 +1,21 @@
+import { ApiTokenNotFoundError } from '@application/errors/ApiTokenNotFoundError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace DeleteApiTokenInterface {
+  export type Request = {
+    userId: string;
+    apiTokenId: string;
+    ip?: string;
+  };
+  export type Response = void | ApiTokenNotFoundError;
+}
+
+export interface DeleteApiTokenInterface
+  extends UseCase<
+    DeleteApiTokenInterface.Request,
+    DeleteApiTokenInterface.Response
+  > {
+  execute(
+    params: DeleteApiTokenInterface.Request
+  ): Promise<DeleteApiTokenInterface.Response>;
+}
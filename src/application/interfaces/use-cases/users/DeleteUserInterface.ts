@@ -1,13 +1,23 @@
+import { InvalidPasswordError } from '@application/errors/InvalidPasswordError';
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
 import { UseCase } from '@application/interfaces/use-cases/UseCase';
 
 export namespace DeleteUserInterface {
-  export type Request = string;
-  export type Response = void;
+  export type Request = {
+    userId: string;
+    actorId: string;
+    password?: string;
+    ip?: string;
+  };
+  export type Response =
+    | { scheduledDeletionAt: Date }
+    | UserNotFoundError
+    | InvalidPasswordError;
 }
 
 export interface DeleteUserInterface
   extends UseCase<DeleteUserInterface.Request, DeleteUserInterface.Response> {
   execute(
-    userId: DeleteUserInterface.Request
+    params: DeleteUserInterface.Request
   ): Promise<DeleteUserInterface.Response>;
 }
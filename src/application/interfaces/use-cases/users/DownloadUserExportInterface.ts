@@ -0,0 +1,24 @@
+import { UserExportNotFoundError } from '@application/errors/UserExportNotFoundError';
+import { UserExportNotReadyError } from '@application/errors/UserExportNotReadyError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace DownloadUserExportInterface {
+  export type Request = {
+    userId: string;
+    exportId: string;
+  };
+  export type Response =
+    | { fileName: string; content: string }
+    | UserExportNotFoundError
+    | UserExportNotReadyError;
+}
+
+export interface DownloadUserExportInterface
+  extends UseCase<
+    DownloadUserExportInterface.Request,
+    DownloadUserExportInterface.Response
+  > {
+  execute(
+    params: DownloadUserExportInterface.Request
+  ): Promise<DownloadUserExportInterface.Response>;
+}
@@ -0,0 +1,18 @@
+import { MfaAlreadyEnabledError } from '@application/errors/MfaAlreadyEnabledError';
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace EnrollMfaInterface {
+  export type Request = string;
+  export type Response =
+    | { secret: string; uri: string }
+    | UserNotFoundError
+    | MfaAlreadyEnabledError;
+}
+
+export interface EnrollMfaInterface
+  extends UseCase<EnrollMfaInterface.Request, EnrollMfaInterface.Response> {
+  execute(
+    userId: EnrollMfaInterface.Request
+  ): Promise<EnrollMfaInterface.Response>;
+}
@@ -0,0 +1,16 @@
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace ForgotPasswordInterface {
+  export type Request = string;
+  export type Response = void;
+}
+
+export interface ForgotPasswordInterface
+  extends UseCase<
+    ForgotPasswordInterface.Request,
+    ForgotPasswordInterface.Response
+  > {
+  execute(
+    email: ForgotPasswordInterface.Request
+  ): Promise<ForgotPasswordInterface.Response>;
+}
@@ -0,0 +1,15 @@
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace GenerateUserExportInterface {
+  export type Request = void;
+  // false once no export is waiting
+  export type Response = boolean;
+}
+
+export interface GenerateUserExportInterface
+  extends UseCase<
+    GenerateUserExportInterface.Request,
+    GenerateUserExportInterface.Response
+  > {
+  execute(): Promise<GenerateUserExportInterface.Response>;
+}
@@ -5,7 +5,7 @@ import { UseCase } from '@application/interfaces/use-cases/UseCase';
 export namespace GetAccessTokenInterface {
   export type Request = string;
   export type Response =
-    | { accessToken: string }
+    | { accessToken: string; refreshToken: string }
     | InvalidTokenError
     | ForbiddenError;
 }
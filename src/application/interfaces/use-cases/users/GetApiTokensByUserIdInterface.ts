@@ -0,0 +1,17 @@
+import { ApiTokenProps } from '@domain/entities/ApiToken';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace GetApiTokensByUserIdInterface {
+  export type Request = string;
+  export type Response = Omit<ApiTokenProps, 'tokenHash'>[];
+}
+
+export interface GetApiTokensByUserIdInterface
+  extends UseCase<
+    GetApiTokensByUserIdInterface.Request,
+    GetApiTokensByUserIdInterface.Response
+  > {
+  execute(
+    userId: GetApiTokensByUserIdInterface.Request
+  ): Promise<GetApiTokensByUserIdInterface.Response>;
+}
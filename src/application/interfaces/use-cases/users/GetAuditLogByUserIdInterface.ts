@@ -0,0 +1,27 @@
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+import { AuditLogAction, AuditLogEntry } from '@domain/entities/AuditLogEntry';
+
+export namespace GetAuditLogByUserIdInterface {
+  export type Request = {
+    userId: string;
+    action?: AuditLogAction;
+    from?: Date;
+    to?: Date;
+    cursor?: string;
+    limit?: number;
+  };
+  export type Response = {
+    entries: AuditLogEntry[];
+    nextCursor: string | null;
+  };
+}
+
+export interface GetAuditLogByUserIdInterface
+  extends UseCase<
+    GetAuditLogByUserIdInterface.Request,
+    GetAuditLogByUserIdInterface.Response
+  > {
+  execute(
+    params: GetAuditLogByUserIdInterface.Request
+  ): Promise<GetAuditLogByUserIdInterface.Response>;
+}
@@ -0,0 +1,15 @@
+import { JsonWebKeySetType } from '@application/interfaces/cryptography/JWKSProvider';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace GetJsonWebKeySetInterface {
+  export type Request = void;
+  export type Response = JsonWebKeySetType;
+}
+
+export interface GetJsonWebKeySetInterface
+  extends UseCase<
+    GetJsonWebKeySetInterface.Request,
+    GetJsonWebKeySetInterface.Response
+  > {
+  execute(): Promise<GetJsonWebKeySetInterface.Response>;
+}
@@ -0,0 +1,17 @@
+import { SessionType } from '@application/interfaces/repositories/tokens/getSessionsByUserIdRepository';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace GetSessionsByUserIdInterface {
+  export type Request = string;
+  export type Response = SessionType[];
+}
+
+export interface GetSessionsByUserIdInterface
+  extends UseCase<
+    GetSessionsByUserIdInterface.Request,
+    GetSessionsByUserIdInterface.Response
+  > {
+  execute(
+    userId: GetSessionsByUserIdInterface.Request
+  ): Promise<GetSessionsByUserIdInterface.Response>;
+}
@@ -0,0 +1,27 @@
+import { PageGuestRole } from '@domain/entities/PageGuest';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export type SharedPageType = {
+  id: string;
+  reference: string;
+  title: string;
+  icon: string;
+  workspaceId: string;
+  role: PageGuestRole;
+  sharedAt: Date;
+};
+
+export namespace GetSharedPagesByUserIdInterface {
+  export type Request = string;
+  export type Response = SharedPageType[];
+}
+
+export interface GetSharedPagesByUserIdInterface
+  extends UseCase<
+    GetSharedPagesByUserIdInterface.Request,
+    GetSharedPagesByUserIdInterface.Response
+  > {
+  execute(
+    userId: GetSharedPagesByUserIdInterface.Request
+  ): Promise<GetSharedPagesByUserIdInterface.Response>;
+}
@@ -0,0 +1,21 @@
+import { UserExportNotFoundError } from '@application/errors/UserExportNotFoundError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+import { UserExport } from '@domain/entities/UserExport';
+
+export namespace GetUserExportByIdInterface {
+  export type Request = {
+    userId: string;
+    exportId: string;
+  };
+  export type Response = UserExport | UserExportNotFoundError;
+}
+
+export interface GetUserExportByIdInterface
+  extends UseCase<
+    GetUserExportByIdInterface.Request,
+    GetUserExportByIdInterface.Response
+  > {
+  execute(
+    params: GetUserExportByIdInterface.Request
+  ): Promise<GetUserExportByIdInterface.Response>;
+}
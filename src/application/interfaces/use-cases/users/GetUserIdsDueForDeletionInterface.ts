@@ -0,0 +1,14 @@
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace GetUserIdsDueForDeletionInterface {
+  export type Request = void;
+  export type Response = string[];
+}
+
+export interface GetUserIdsDueForDeletionInterface
+  extends UseCase<
+    GetUserIdsDueForDeletionInterface.Request,
+    GetUserIdsDueForDeletionInterface.Response
+  > {
+  execute(): Promise<GetUserIdsDueForDeletionInterface.Response>;
+}
@@ -0,0 +1,14 @@
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace PurgeExpiredUserExportsInterface {
+  export type Request = void;
+  export type Response = void;
+}
+
+export interface PurgeExpiredUserExportsInterface
+  extends UseCase<
+    PurgeExpiredUserExportsInterface.Request,
+    PurgeExpiredUserExportsInterface.Response
+  > {
+  execute(): Promise<PurgeExpiredUserExportsInterface.Response>;
+}
@@ -0,0 +1,14 @@
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace PurgeUserInterface {
+  export type Request = string;
+  export type Response = void | UserNotFoundError;
+}
+
+export interface PurgeUserInterface
+  extends UseCase<PurgeUserInterface.Request, PurgeUserInterface.Response> {
+  execute(
+    userId: PurgeUserInterface.Request
+  ): Promise<PurgeUserInterface.Response>;
+}
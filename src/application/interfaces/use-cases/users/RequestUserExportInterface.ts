@@ -0,0 +1,17 @@
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+import { UserExport } from '@domain/entities/UserExport';
+
+export namespace RequestUserExportInterface {
+  export type Request = string;
+  export type Response = UserExport;
+}
+
+export interface RequestUserExportInterface
+  extends UseCase<
+    RequestUserExportInterface.Request,
+    RequestUserExportInterface.Response
+  > {
+  execute(
+    userId: RequestUserExportInterface.Request
+  ): Promise<RequestUserExportInterface.Response>;
+}
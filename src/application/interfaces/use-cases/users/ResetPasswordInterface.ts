@@ -0,0 +1,21 @@
+import { InvalidTokenError } from '@application/errors/InvalidTokenError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace ResetPasswordInterface {
+  export type Request = {
+    token: string;
+    password: string;
+    ip?: string;
+  };
+  export type Response = void | InvalidTokenError;
+}
+
+export interface ResetPasswordInterface
+  extends UseCase<
+    ResetPasswordInterface.Request,
+    ResetPasswordInterface.Response
+  > {
+  execute(
+    params: ResetPasswordInterface.Request
+  ): Promise<ResetPasswordInterface.Response>;
+}
@@ -0,0 +1,17 @@
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace RestoreUserInterface {
+  export type Request = {
+    userId: string;
+    actorId: string;
+    ip?: string;
+  };
+  export type Response = void;
+}
+
+export interface RestoreUserInterface
+  extends UseCase<RestoreUserInterface.Request, RestoreUserInterface.Response> {
+  execute(
+    params: RestoreUserInterface.Request
+  ): Promise<RestoreUserInterface.Response>;
+}
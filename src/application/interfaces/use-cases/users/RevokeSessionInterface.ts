@@ -0,0 +1,21 @@
+import { SessionNotFoundError } from '@application/errors/SessionNotFoundError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace RevokeSessionInterface {
+  export type Request = {
+    userId: string;
+    sessionId: string;
+    ip?: string;
+  };
+  export type Response = void | SessionNotFoundError;
+}
+
+export interface RevokeSessionInterface
+  extends UseCase<
+    RevokeSessionInterface.Request,
+    RevokeSessionInterface.Response
+  > {
+  execute(
+    params: RevokeSessionInterface.Request
+  ): Promise<RevokeSessionInterface.Response>;
+}
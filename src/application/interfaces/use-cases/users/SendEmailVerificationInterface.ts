@@ -0,0 +1,19 @@
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace SendEmailVerificationInterface {
+  export type Request = {
+    userId: string;
+    email: string;
+  };
+  export type Response = void;
+}
+
+export interface SendEmailVerificationInterface
+  extends UseCase<
+    SendEmailVerificationInterface.Request,
+    SendEmailVerificationInterface.Response
+  > {
+  execute(
+    params: SendEmailVerificationInterface.Request
+  ): Promise<SendEmailVerificationInterface.Response>;
+}
@@ -1,13 +1,21 @@
+import { AccountLockedError } from '@application/errors/AccountLockedError';
 import { InvalidPasswordError } from '@application/errors/InvalidPasswordError';
 import { InvalidUserError } from '@application/errors/InvalidUserError';
 import { UseCase } from '@application/interfaces/use-cases/UseCase';
 
 export namespace SignInInterface {
-  export type Request = { email: string; password: string };
+  export type Request = {
+    email: string;
+    password: string;
+    userAgent?: string;
+    ip?: string;
+  };
   export type Response =
     | { accessToken: string; refreshToken: string }
+    | { mfaToken: string }
     | InvalidUserError
-    | InvalidPasswordError;
+    | InvalidPasswordError
+    | AccountLockedError;
 }
 
 export interface SignInInterface
@@ -0,0 +1,19 @@
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace SignOutEverywhereInterface {
+  export type Request = {
+    userId: string;
+    ip?: string;
+  };
+  export type Response = void;
+}
+
+export interface SignOutEverywhereInterface
+  extends UseCase<
+    SignOutEverywhereInterface.Request,
+    SignOutEverywhereInterface.Response
+  > {
+  execute(
+    params: SignOutEverywhereInterface.Request
+  ): Promise<SignOutEverywhereInterface.Response>;
+}
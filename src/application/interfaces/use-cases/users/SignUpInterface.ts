@@ -3,7 +3,10 @@ import { UserProps } from '@domain/entities/User';
 import { UseCase } from '@application/interfaces/use-cases/UseCase';
 
 export namespace SignUpInterface {
-  export type Request = Omit<UserProps, 'id' | 'createdAt' | 'updatedAt'>;
+  export type Request = Omit<
+    UserProps,
+    'id' | 'emailVerified' | 'createdAt' | 'updatedAt'
+  >;
   export type Response = string | EmailInUseError;
 }
 
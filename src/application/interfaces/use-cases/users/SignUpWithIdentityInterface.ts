@@ -0,0 +1,23 @@
+import { EmailInUseError } from '@application/errors/EmailInUseError';
+import { ExternalIdentityType } from '@application/interfaces/identity/IdentityProvider';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+import { WorkspaceType } from '@domain/entities/User';
+
+export namespace SignUpWithIdentityInterface {
+  export type Request = {
+    provider: string;
+    identity: ExternalIdentityType;
+    workspaces: WorkspaceType[];
+  };
+  export type Response = string | EmailInUseError;
+}
+
+export interface SignUpWithIdentityInterface
+  extends UseCase<
+    SignUpWithIdentityInterface.Request,
+    SignUpWithIdentityInterface.Response
+  > {
+  execute(
+    params: SignUpWithIdentityInterface.Request
+  ): Promise<SignUpWithIdentityInterface.Response>;
+}
@@ -0,0 +1,19 @@
+import { IdentityProviderNotFoundError } from '@application/errors/IdentityProviderNotFoundError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace StartOidcSignInInterface {
+  export type Request = string;
+  export type Response =
+    | { authorizationUrl: string }
+    | IdentityProviderNotFoundError;
+}
+
+export interface StartOidcSignInInterface
+  extends UseCase<
+    StartOidcSignInInterface.Request,
+    StartOidcSignInInterface.Response
+  > {
+  execute(
+    provider: StartOidcSignInInterface.Request
+  ): Promise<StartOidcSignInInterface.Response>;
+}
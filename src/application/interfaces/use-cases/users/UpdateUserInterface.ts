@@ -5,7 +5,15 @@ import { UseCase } from '@application/interfaces/use-cases/UseCase';
 export namespace UpdateUserInterface {
   export type UserIdType = string;
   export type UserDataType = Partial<
-    Omit<UserProps, 'id' | 'createdAt' | 'updatedAt' | 'profilePicture'>
+    Omit<
+      UserProps,
+      | 'id'
+      | 'emailVerified'
+      | 'password'
+      | 'createdAt'
+      | 'updatedAt'
+      | 'profilePicture'
+    >
   >;
 
   export type Request = {
@@ -0,0 +1,20 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace UserAuthorizationInterface {
+  export type Request = {
+    userId: string;
+    targetUserId: string;
+  };
+  export type Response = string | ForbiddenError;
+}
+
+export interface UserAuthorizationInterface
+  extends UseCase<
+    UserAuthorizationInterface.Request,
+    UserAuthorizationInterface.Response
+  > {
+  execute(
+    params: UserAuthorizationInterface.Request
+  ): Promise<UserAuthorizationInterface.Response>;
+}
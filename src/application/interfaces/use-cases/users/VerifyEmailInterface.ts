@@ -0,0 +1,14 @@
+import { InvalidTokenError } from '@application/errors/InvalidTokenError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace VerifyEmailInterface {
+  export type Request = string;
+  export type Response = void | InvalidTokenError;
+}
+
+export interface VerifyEmailInterface
+  extends UseCase<VerifyEmailInterface.Request, VerifyEmailInterface.Response> {
+  execute(
+    token: VerifyEmailInterface.Request
+  ): Promise<VerifyEmailInterface.Response>;
+}
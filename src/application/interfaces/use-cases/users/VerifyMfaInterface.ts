@@ -0,0 +1,23 @@
+import { InvalidMfaCodeError } from '@application/errors/InvalidMfaCodeError';
+import { InvalidTokenError } from '@application/errors/InvalidTokenError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace VerifyMfaInterface {
+  export type Request = {
+    mfaToken: string;
+    code: string;
+    userAgent?: string;
+    ip?: string;
+  };
+  export type Response =
+    | { accessToken: string; refreshToken: string }
+    | InvalidTokenError
+    | InvalidMfaCodeError;
+}
+
+export interface VerifyMfaInterface
+  extends UseCase<VerifyMfaInterface.Request, VerifyMfaInterface.Response> {
+  execute(
+    params: VerifyMfaInterface.Request
+  ): Promise<VerifyMfaInterface.Response>;
+}
@@ -1,10 +1,14 @@
 import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
 import { UseCase } from '@application/interfaces/use-cases/UseCase';
+import { WorkspaceRole } from '@domain/entities/Workspace';
 
 export namespace AddMemberByWorkspaceIdInterface {
   export type Request = {
     workspaceId: string;
     memberId: string;
+    role: WorkspaceRole;
+    actorId: string;
+    ip?: string;
   };
   export type Response = void | WorkspaceNotFoundError;
 }
@@ -5,7 +5,7 @@ import { PageType, Workspace } from '@domain/entities/Workspace';
 export namespace AddPageInterface {
   export type Request = {
     workspaceId: string;
-    pageData: PageType;
+    pageData: Omit<PageType, 'position'>;
   };
   export type Response = Workspace | WorkspaceNotFoundError;
 }
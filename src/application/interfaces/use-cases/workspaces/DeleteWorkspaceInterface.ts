@@ -1,7 +1,11 @@
 import { UseCase } from '@application/interfaces/use-cases/UseCase';
 
 export namespace DeleteWorkspaceInterface {
-  export type Request = string;
+  export type Request = {
+    workspaceId: string;
+    actorId: string;
+    ip?: string;
+  };
   export type Response = void;
 }
 
@@ -11,6 +15,6 @@ export interface DeleteWorkspaceInterface
     DeleteWorkspaceInterface.Response
   > {
   execute(
-    workspaceId: DeleteWorkspaceInterface.Request
+    params: DeleteWorkspaceInterface.Request
   ): Promise<DeleteWorkspaceInterface.Response>;
 }
@@ -1,9 +1,10 @@
 import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
 import { UseCase } from '@application/interfaces/use-cases/UseCase';
+import { MemberType } from '@domain/entities/Workspace';
 
 export namespace GetAllMembersByWorkspaceIdInterface {
   export type Request = string;
-  export type Response = string[] | WorkspaceNotFoundError | null;
+  export type Response = MemberType[] | WorkspaceNotFoundError | null;
 }
 
 export interface GetAllMembersByWorkspaceIdInterface
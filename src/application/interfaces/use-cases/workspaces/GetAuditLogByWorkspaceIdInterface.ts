@@ -0,0 +1,28 @@
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+import { AuditLogAction, AuditLogEntry } from '@domain/entities/AuditLogEntry';
+
+export namespace GetAuditLogByWorkspaceIdInterface {
+  export type Request = {
+    workspaceId: string;
+    action?: AuditLogAction;
+    actorId?: string;
+    from?: Date;
+    to?: Date;
+    cursor?: string;
+    limit?: number;
+  };
+  export type Response =
+    | { entries: AuditLogEntry[]; nextCursor: string | null }
+    | WorkspaceNotFoundError;
+}
+
+export interface GetAuditLogByWorkspaceIdInterface
+  extends UseCase<
+    GetAuditLogByWorkspaceIdInterface.Request,
+    GetAuditLogByWorkspaceIdInterface.Response
+  > {
+  execute(
+    params: GetAuditLogByWorkspaceIdInterface.Request
+  ): Promise<GetAuditLogByWorkspaceIdInterface.Response>;
+}
@@ -0,0 +1,32 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+import { PageType } from '@domain/entities/Workspace';
+
+// children stays empty below the requested depth, hasChildren tells if more can be loaded
+export type PageTreeNodeType = PageType & {
+  hasChildren: boolean;
+  children: PageTreeNodeType[];
+};
+
+export namespace GetPageTreeByWorkspaceIdInterface {
+  export type Request = {
+    workspaceId: string;
+    rootPageId?: string;
+    depth?: number;
+  };
+  export type Response =
+    | PageTreeNodeType[]
+    | WorkspaceNotFoundError
+    | PageNotFoundError;
+}
+
+export interface GetPageTreeByWorkspaceIdInterface
+  extends UseCase<
+    GetPageTreeByWorkspaceIdInterface.Request,
+    GetPageTreeByWorkspaceIdInterface.Response
+  > {
+  execute(
+    params: GetPageTreeByWorkspaceIdInterface.Request
+  ): Promise<GetPageTreeByWorkspaceIdInterface.Response>;
+}
@@ -1,3 +1,5 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { LastOwnerError } from '@application/errors/LastOwnerError';
 import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
 import { UseCase } from '@application/interfaces/use-cases/UseCase';
 
@@ -5,8 +7,14 @@ export namespace RemoveMemberByWorkspaceIdInterface {
   export type Request = {
     workspaceId: string;
     memberId: string;
+    userId: string;
+    ip?: string;
   };
-  export type Response = void | WorkspaceNotFoundError;
+  export type Response =
+    | void
+    | WorkspaceNotFoundError
+    | ForbiddenError
+    | LastOwnerError;
 }
 
 export interface RemoveMemberByWorkspaceIdInterface
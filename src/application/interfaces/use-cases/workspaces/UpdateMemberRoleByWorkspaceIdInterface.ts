@@ -0,0 +1,30 @@
+import { LastOwnerError } from '@application/errors/LastOwnerError';
+import { MemberNotFoundError } from '@application/errors/MemberNotFoundError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+import { WorkspaceRole } from '@domain/entities/Workspace';
+
+export namespace UpdateMemberRoleByWorkspaceIdInterface {
+  export type Request = {
+    workspaceId: string;
+    memberId: string;
+    role: WorkspaceRole;
+    actorId: string;
+    ip?: string;
+  };
+  export type Response =
+    | void
+    | WorkspaceNotFoundError
+    | MemberNotFoundError
+    | LastOwnerError;
+}
+
+export interface UpdateMemberRoleByWorkspaceIdInterface
+  extends UseCase<
+    UpdateMemberRoleByWorkspaceIdInterface.Request,
+    UpdateMemberRoleByWorkspaceIdInterface.Response
+  > {
+  execute(
+    params: UpdateMemberRoleByWorkspaceIdInterface.Request
+  ): Promise<UpdateMemberRoleByWorkspaceIdInterface.Response>;
+}
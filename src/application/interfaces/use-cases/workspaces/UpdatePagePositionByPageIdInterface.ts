@@ -0,0 +1,30 @@
+import { InvalidPagePositionError } from '@application/errors/InvalidPagePositionError';
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+
+export namespace UpdatePagePositionByPageIdInterface {
+  export type Request = {
+    workspaceId: string;
+    pageId: string;
+    // null places the page first
+    afterPageId?: string | null;
+    // null places the page last
+    beforePageId?: string | null;
+  };
+  export type Response =
+    | string
+    | WorkspaceNotFoundError
+    | PageNotFoundError
+    | InvalidPagePositionError;
+}
+
+export interface UpdatePagePositionByPageIdInterface
+  extends UseCase<
+    UpdatePagePositionByPageIdInterface.Request,
+    UpdatePagePositionByPageIdInterface.Response
+  > {
+  execute(
+    params: UpdatePagePositionByPageIdInterface.Request
+  ): Promise<UpdatePagePositionByPageIdInterface.Response>;
+}
@@ -11,6 +11,8 @@ export namespace UpdateWorkspaceInterface {
   export type Request = {
     workspaceId: WorkspaceIdType;
     workspaceData: WorkspaceDataType;
+    actorId: string;
+    ip?: string;
   };
   export type Response = Workspace | WorkspaceNotFoundError;
 }
@@ -0,0 +1,23 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { UseCase } from '@application/interfaces/use-cases/UseCase';
+import { WorkspaceRole } from '@domain/entities/Workspace';
+
+export namespace WorkspaceAuthorizationInterface {
+  export type Request = {
+    userId: string;
+    workspaceId: string;
+    roles?: WorkspaceRole[];
+  };
+  export type Response = string | WorkspaceNotFoundError | ForbiddenError;
+}
+
+export interface WorkspaceAuthorizationInterface
+  extends UseCase<
+    WorkspaceAuthorizationInterface.Request,
+    WorkspaceAuthorizationInterface.Response
+  > {
+  execute(
+    params: WorkspaceAuthorizationInterface.Request
+  ): Promise<WorkspaceAuthorizationInterface.Response>;
+}
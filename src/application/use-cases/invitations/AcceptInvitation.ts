@@ -0,0 +1,92 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { InvitationExpiredError } from '@application/errors/InvitationExpiredError';
+import { InvitationNotFoundError } from '@application/errors/InvitationNotFoundError';
+import { UnverifiedEmailError } from '@application/errors/UnverifiedEmailError';
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { CreateAuditLogEntryRepository } from '@application/interfaces/repositories/auditLogs/createAuditLogEntryRepository';
+import { GetInvitationByTokenRepository } from '@application/interfaces/repositories/invitations/getInvitationByTokenRepository';
+import { UpdateInvitationStatusRepository } from '@application/interfaces/repositories/invitations/updateInvitationStatusRepository';
+import { AddWorkspaceByUserIdRepository } from '@application/interfaces/repositories/users/addWorkspaceByUserIdRepository';
+import { GetUserByIdRepository } from '@application/interfaces/repositories/users/getUserByIdRepository';
+import { AddMemberByWorkspaceIdRepository } from '@application/interfaces/repositories/workspaces/addMemberByWorkspaceIdRepository';
+import { GetWorkspaceByIdRepository } from '@application/interfaces/repositories/workspaces/getWorkspaceByIdRepository';
+import { AcceptInvitationInterface } from '@application/interfaces/use-cases/invitations/AcceptInvitationInterface';
+
+export class AcceptInvitation implements AcceptInvitationInterface {
+  constructor(
+    private readonly getInvitationByTokenRepository: GetInvitationByTokenRepository,
+    private readonly getUserByIdRepository: GetUserByIdRepository,
+    private readonly getWorkspaceByIdRepository: GetWorkspaceByIdRepository,
+    private readonly addMemberByWorkspaceIdRepository: AddMemberByWorkspaceIdRepository,
+    private readonly addWorkspaceByUserIdRepository: AddWorkspaceByUserIdRepository,
+    private readonly updateInvitationStatusRepository: UpdateInvitationStatusRepository,
+    private readonly createAuditLogEntryRepository: CreateAuditLogEntryRepository
+  ) {}
+
+  async execute(
+    params: AcceptInvitationInterface.Request
+  ): Promise<AcceptInvitationInterface.Response> {
+    const { userId, token, ip } = params;
+
+    const invitation =
+      await this.getInvitationByTokenRepository.getInvitationByToken(token);
+
+    if (!invitation || invitation.status !== 'pending') {
+      return new InvitationNotFoundError();
+    }
+
+    const user = await this.getUserByIdRepository.getUserById(userId);
+
+    if (!user) {
+      return new UserNotFoundError();
+    }
+
+    if (user.email.toLowerCase() !== invitation.email) {
+      return new ForbiddenError();
+    }
+
+    if (!user.emailVerified) {
+      return new UnverifiedEmailError();
+    }
+
+    if (invitation.expiresAt.getTime() < Date.now()) {
+      return new InvitationExpiredError();
+    }
+
+    const workspace = await this.getWorkspaceByIdRepository.getWorkspaceById(
+      invitation.workspaceId
+    );
+
+    if (!workspace) {
+      return new WorkspaceNotFoundError();
+    }
+
+    await this.addMemberByWorkspaceIdRepository.addMemberByWorkspaceId({
+      workspaceId: workspace.id,
+      memberId: userId,
+      role: invitation.role,
+    });
+
+    await this.addWorkspaceByUserIdRepository.addWorkspaceByUserId({
+      userId,
+      workspaceId: workspace.id,
+      workspaceName: workspace.name,
+      workspaceIcon: workspace.icon,
+    });
+
+    await this.updateInvitationStatusRepository.updateInvitationStatus({
+      invitationId: invitation.id,
+      status: 'accepted',
+    });
+
+    await this.createAuditLogEntryRepository.createAuditLogEntry({
+      action: 'workspace.member_add',
+      actorId: userId,
+      targetType: 'user',
+      targetId: userId,
+      workspaceId: workspace.id,
+      ip,
+    });
+  }
+}
@@ -0,0 +1,71 @@
+import { MemberAlreadyExistsError } from '@application/errors/MemberAlreadyExistsError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { TokenGenerator } from '@application/interfaces/cryptography/TokenGenerator';
+import { MailSender } from '@application/interfaces/mail/MailSender';
+import { CreateInvitationRepository } from '@application/interfaces/repositories/invitations/createInvitationRepository';
+import { LoadUserByEmailRepository } from '@application/interfaces/repositories/users/loadUserByEmailRepository';
+import { GetWorkspaceByIdRepository } from '@application/interfaces/repositories/workspaces/getWorkspaceByIdRepository';
+import { CreateInvitationInterface } from '@application/interfaces/use-cases/invitations/CreateInvitationInterface';
+
+export class CreateInvitation implements CreateInvitationInterface {
+  constructor(
+    private readonly getWorkspaceByIdRepository: GetWorkspaceByIdRepository,
+    private readonly loadUserByEmailRepository: LoadUserByEmailRepository,
+    private readonly createInvitationRepository: CreateInvitationRepository,
+    private readonly tokenGenerator: TokenGenerator,
+    private readonly mailSender: MailSender,
+    private readonly appUrl: string,
+    private readonly invitationTtlHours: number
+  ) {}
+
+  async execute(
+    params: CreateInvitationInterface.Request
+  ): Promise<CreateInvitationInterface.Response> {
+    const { workspaceId, role, invitedBy } = params;
+    const email = params.email.toLowerCase();
+
+    const workspace = await this.getWorkspaceByIdRepository.getWorkspaceById(
+      workspaceId
+    );
+
+    if (!workspace) {
+      return new WorkspaceNotFoundError();
+    }
+
+    const invitee = await this.loadUserByEmailRepository.loadUserByEmail(email);
+
+    if (
+      invitee &&
+      workspace.members.some(member => member.userId === invitee.id)
+    ) {
+      return new MemberAlreadyExistsError();
+    }
+
+    const token = await this.tokenGenerator.generateToken();
+    const expiresAt = new Date(
+      Date.now() + this.invitationTtlHours * 60 * 60 * 1000
+    );
+
+    const invitationId = await this.createInvitationRepository.createInvitation(
+      {
+        workspaceId,
+        workspaceName: workspace.name,
+        email,
+        role,
+        invitedBy,
+        token,
+        expiresAt,
+      }
+    );
+
+    await this.mailSender.send({
+      to: email,
+      subject: `You have been invited to ${workspace.name}`,
+      text: `Open ${this.appUrl}/invitations/${token} to join ${
+        workspace.name
+      }. The invitation expires on ${expiresAt.toUTCString()}.`,
+    });
+
+    return invitationId;
+  }
+}
@@ -0,0 +1,48 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { InvitationExpiredError } from '@application/errors/InvitationExpiredError';
+import { InvitationNotFoundError } from '@application/errors/InvitationNotFoundError';
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
+import { GetInvitationByTokenRepository } from '@application/interfaces/repositories/invitations/getInvitationByTokenRepository';
+import { UpdateInvitationStatusRepository } from '@application/interfaces/repositories/invitations/updateInvitationStatusRepository';
+import { GetUserByIdRepository } from '@application/interfaces/repositories/users/getUserByIdRepository';
+import { DeclineInvitationInterface } from '@application/interfaces/use-cases/invitations/DeclineInvitationInterface';
+
+export class DeclineInvitation implements DeclineInvitationInterface {
+  constructor(
+    private readonly getInvitationByTokenRepository: GetInvitationByTokenRepository,
+    private readonly getUserByIdRepository: GetUserByIdRepository,
+    private readonly updateInvitationStatusRepository: UpdateInvitationStatusRepository
+  ) {}
+
+  async execute(
+    params: DeclineInvitationInterface.Request
+  ): Promise<DeclineInvitationInterface.Response> {
+    const { userId, token } = params;
+
+    const invitation =
+      await this.getInvitationByTokenRepository.getInvitationByToken(token);
+
+    if (!invitation || invitation.status !== 'pending') {
+      return new InvitationNotFoundError();
+    }
+
+    const user = await this.getUserByIdRepository.getUserById(userId);
+
+    if (!user) {
+      return new UserNotFoundError();
+    }
+
+    if (user.email.toLowerCase() !== invitation.email) {
+      return new ForbiddenError();
+    }
+
+    if (invitation.expiresAt.getTime() < Date.now()) {
+      return new InvitationExpiredError();
+    }
+
+    await this.updateInvitationStatusRepository.updateInvitationStatus({
+      invitationId: invitation.id,
+      status: 'declined',
+    });
+  }
+}
@@ -0,0 +1,25 @@
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
+import { GetPendingInvitationsByEmailRepository } from '@application/interfaces/repositories/invitations/getPendingInvitationsByEmailRepository';
+import { GetUserByIdRepository } from '@application/interfaces/repositories/users/getUserByIdRepository';
+import { GetInvitationsByUserIdInterface } from '@application/interfaces/use-cases/invitations/GetInvitationsByUserIdInterface';
+
+export class GetInvitationsByUserId implements GetInvitationsByUserIdInterface {
+  constructor(
+    private readonly getUserByIdRepository: GetUserByIdRepository,
+    private readonly getPendingInvitationsByEmailRepository: GetPendingInvitationsByEmailRepository
+  ) {}
+
+  async execute(
+    userId: GetInvitationsByUserIdInterface.Request
+  ): Promise<GetInvitationsByUserIdInterface.Response> {
+    const user = await this.getUserByIdRepository.getUserById(userId);
+
+    if (!user) {
+      return new UserNotFoundError();
+    }
+
+    return this.getPendingInvitationsByEmailRepository.getPendingInvitationsByEmail(
+      user.email.toLowerCase()
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import { MemberAlreadyExistsError } from '@application/errors/MemberAlreadyExistsError';
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { MailSender } from '@application/interfaces/mail/MailSender';
+import { AddPageGuestRepository } from '@application/interfaces/repositories/pageGuests/addPageGuestRepository';
+import { GetPageByIdRepository } from '@application/interfaces/repositories/pages/getPageByIdRepository';
+import { LoadUserByEmailRepository } from '@application/interfaces/repositories/users/loadUserByEmailRepository';
+import { GetAllMembersByWorkspaceIdRepository } from '@application/interfaces/repositories/workspaces/getAllMembersByWorkspaceIdRepository';
+import { AddPageGuestInterface } from '@application/interfaces/use-cases/pages/addPageGuestInterface';
+
+export class AddPageGuest implements AddPageGuestInterface {
+  constructor(
+    private readonly getPageByIdRepository: GetPageByIdRepository,
+    private readonly loadUserByEmailRepository: LoadUserByEmailRepository,
+    private readonly getAllMembersByWorkspaceIdRepository: GetAllMembersByWorkspaceIdRepository,
+    private readonly addPageGuestRepository: AddPageGuestRepository,
+    private readonly mailSender: MailSender,
+    private readonly appUrl: string
+  ) {}
+
+  async execute(
+    params: AddPageGuestInterface.Request
+  ): Promise<AddPageGuestInterface.Response> {
+    const { pageId, role, grantedBy } = params;
+    const email = params.email.toLowerCase();
+
+    const page = await this.getPageByIdRepository.getPageById(pageId);
+
+    if (!page) {
+      return new PageNotFoundError();
+    }
+
+    const user = await this.loadUserByEmailRepository.loadUserByEmail(email);
+
+    // answered like a share, so the sharer cannot probe which emails have accounts
+    if (!user || !user.emailVerified) {
+      await this.mailSender.send({
+        to: email,
+        subject: 'A page was shared with you',
+        text: `Someone wants to share a page with you. Sign up or sign in at ${this.appUrl} with this email and verify it, then ask them to share the page again.`,
+      });
+      return;
+    }
+
+    const members =
+      await this.getAllMembersByWorkspaceIdRepository.getAllMembersByWorkspaceId(
+        page.workspaceId
+      );
+
+    // members already reach the page through their workspace role
+    if (members?.some(member => member.userId === user.id)) {
+      return new MemberAlreadyExistsError();
+    }
+
+    await this.addPageGuestRepository.addPageGuest({
+      pageId,
+      workspaceId: page.workspaceId,
+      userId: user.id,
+      role,
+      grantedBy,
+    });
+  }
+}
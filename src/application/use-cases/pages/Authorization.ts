@@ -1,41 +1,78 @@
 import { ForbiddenError } from '@application/errors/ForbiddenError';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { GetPageGuestsByUserIdRepository } from '@application/interfaces/repositories/pageGuests/getPageGuestsByUserIdRepository';
 import { GetPageByIdRepository } from '@application/interfaces/repositories/pages/getPageByIdRepository';
-import { GetWorkspacesByUserIdRepository } from '@application/interfaces/repositories/users/getWorkspacesByUserIdRepository';
+import { GetAllMembersByWorkspaceIdRepository } from '@application/interfaces/repositories/workspaces/getAllMembersByWorkspaceIdRepository';
 import { AuthorizationInterface } from '@application/interfaces/use-cases/pages/authorizationInterface';
+import { Page } from '@domain/entities/Page';
 
 export class Authorization implements AuthorizationInterface {
   constructor(
     private readonly getPageByIdRepository: GetPageByIdRepository,
-    private readonly getWorkspacesByUserIdRepository: GetWorkspacesByUserIdRepository
+    private readonly getAllMembersByWorkspaceIdRepository: GetAllMembersByWorkspaceIdRepository,
+    private readonly getPageGuestsByUserIdRepository: GetPageGuestsByUserIdRepository
   ) {}
 
   async execute(
     params: AuthorizationInterface.Request
   ): Promise<AuthorizationInterface.Response> {
-    const { userId, pageId } = params;
-
-    const userWorkspaces =
-      await this.getWorkspacesByUserIdRepository.getWorkspacesByUserId(userId);
+    const { userId, pageId, roles, membersOnly } = params;
 
     const pageWorkspaceOrError = await this.getPageByIdRepository.getPageById(
       pageId
     );
 
-    if (!pageWorkspaceOrError) {
+    // trashed pages are only reachable through the trash of their workspace
+    if (!pageWorkspaceOrError || pageWorkspaceOrError.trashedAt) {
       return new PageNotFoundError();
     }
 
     const pageWorkspaceId = pageWorkspaceOrError.workspaceId;
 
-    const accessOrError = userWorkspaces?.find(
-      userWorkspace => userWorkspace.workspaceId === pageWorkspaceId
+    if (
+      !membersOnly &&
+      (await this.isGuest(userId, pageWorkspaceOrError, roles))
+    ) {
+      return pageWorkspaceId;
+    }
+
+    // membership comes from the workspace, users can write their own workspace list
+    const members =
+      await this.getAllMembersByWorkspaceIdRepository.getAllMembersByWorkspaceId(
+        pageWorkspaceId
+      );
+
+    const member = members?.find(
+      workspaceMember => workspaceMember.userId === userId
     );
 
-    if (!accessOrError) {
+    if (!member || (roles && !roles.includes(member.role))) {
       return new ForbiddenError();
     }
 
-    return accessOrError.workspaceId;
+    return pageWorkspaceId;
+  }
+
+  // a guest of a page is also a guest of every page below it
+  private async isGuest(
+    userId: string,
+    page: Page,
+    roles?: AuthorizationInterface.Request['roles']
+  ): Promise<boolean> {
+    const pageGuests = (
+      await this.getPageGuestsByUserIdRepository.getPageGuestsByUserId(userId)
+    ).filter(
+      pageGuest =>
+        pageGuest.workspaceId === page.workspaceId &&
+        (!roles || roles.includes(pageGuest.role))
+    );
+
+    if (!pageGuests.length) {
+      return false;
+    }
+
+    const pageIds = [page.id, ...page.ancestors];
+
+    return pageGuests.some(pageGuest => pageIds.includes(pageGuest.pageId));
   }
 }
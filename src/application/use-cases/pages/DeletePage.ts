@@ -1,12 +1,51 @@
-import { DeletePageRepository } from '@application/interfaces/repositories/pages/deletePageRepository';
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { CreateAuditLogEntryRepository } from '@application/interfaces/repositories/auditLogs/createAuditLogEntryRepository';
+import { GetDescendantsByPageIdRepository } from '@application/interfaces/repositories/pages/getDescendantsByPageIdRepository';
+import { GetPageByIdRepository } from '@application/interfaces/repositories/pages/getPageByIdRepository';
+import { TrashPagesRepository } from '@application/interfaces/repositories/pages/trashPagesRepository';
 import { DeletePageInterface } from '@application/interfaces/use-cases/pages/deletePageInterface';
 
 export class DeletePage implements DeletePageInterface {
-  constructor(private readonly deletePageRepository: DeletePageRepository) {}
+  constructor(
+    private readonly getPageByIdRepository: GetPageByIdRepository,
+    private readonly getDescendantsByPageIdRepository: GetDescendantsByPageIdRepository,
+    private readonly trashPagesRepository: TrashPagesRepository,
+    private readonly createAuditLogEntryRepository: CreateAuditLogEntryRepository
+  ) {}
 
   async execute(
-    pageId: DeletePageInterface.Request
+    params: DeletePageInterface.Request
   ): Promise<DeletePageInterface.Response> {
-    await this.deletePageRepository.deletePage(pageId);
+    const { pageId, workspaceId, actorId, ip } = params;
+
+    const page = await this.getPageByIdRepository.getPageById(pageId);
+
+    if (!page || page.trashedAt) {
+      return new PageNotFoundError();
+    }
+
+    // pages trashed on their own before stay separate entries of the trash
+    const descendants =
+      await this.getDescendantsByPageIdRepository.getDescendantsByPageId(
+        page.id
+      );
+    const pageIds = [pageId, ...descendants.map(descendant => descendant.id)];
+
+    await this.trashPagesRepository.trashPages({
+      pageId,
+      pageIds,
+      trashedAt: new Date(),
+    });
+
+    await this.createAuditLogEntryRepository.createAuditLogEntry({
+      action: 'page.delete',
+      actorId,
+      targetType: 'page',
+      targetId: pageId,
+      workspaceId,
+      ip,
+    });
+
+    return pageIds;
   }
 }
@@ -1,3 +1,4 @@
+import { CreateAuditLogEntryRepository } from '@application/interfaces/repositories/auditLogs/createAuditLogEntryRepository';
 import { DeletePagesByWorkspaceIdRepository } from '@application/interfaces/repositories/pages/deletePagesByWorkspaceIdRepository';
 import { DeletePagesByWorkspaceIdInterface } from '@application/interfaces/use-cases/pages/deletePagesByWorkspaceIdInterface';
 
@@ -5,14 +6,26 @@ export class DeletePagesByWorkspaceId
   implements DeletePagesByWorkspaceIdInterface
 {
   constructor(
-    private readonly deletePagesByWorkspaceIdRepository: DeletePagesByWorkspaceIdRepository
+    private readonly deletePagesByWorkspaceIdRepository: DeletePagesByWorkspaceIdRepository,
+    private readonly createAuditLogEntryRepository: CreateAuditLogEntryRepository
   ) {}
 
   async execute(
-    workspaceId: DeletePagesByWorkspaceIdInterface.Request
+    params: DeletePagesByWorkspaceIdInterface.Request
   ): Promise<DeletePagesByWorkspaceIdInterface.Response> {
+    const { workspaceId, actorId, ip } = params;
+
     await this.deletePagesByWorkspaceIdRepository.deletePagesByWorkspaceId(
       workspaceId
     );
+
+    await this.createAuditLogEntryRepository.createAuditLogEntry({
+      action: 'workspace.pages_delete',
+      actorId,
+      targetType: 'workspace',
+      targetId: workspaceId,
+      workspaceId,
+      ip,
+    });
   }
 }
@@ -0,0 +1,14 @@
+import { GetPageGuestsByPageIdRepository } from '@application/interfaces/repositories/pageGuests/getPageGuestsByPageIdRepository';
+import { GetPageGuestsByPageIdInterface } from '@application/interfaces/use-cases/pages/getPageGuestsByPageIdInterface';
+
+export class GetPageGuestsByPageId implements GetPageGuestsByPageIdInterface {
+  constructor(
+    private readonly getPageGuestsByPageIdRepository: GetPageGuestsByPageIdRepository
+  ) {}
+
+  async execute(
+    pageId: GetPageGuestsByPageIdInterface.Request
+  ): Promise<GetPageGuestsByPageIdInterface.Response> {
+    return this.getPageGuestsByPageIdRepository.getPageGuestsByPageId(pageId);
+  }
+}
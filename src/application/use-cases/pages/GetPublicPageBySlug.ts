@@ -0,0 +1,76 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { GetDescendantsByPageIdRepository } from '@application/interfaces/repositories/pages/getDescendantsByPageIdRepository';
+import { GetPageByPublicSlugRepository } from '@application/interfaces/repositories/pages/getPageByPublicSlugRepository';
+import {
+  GetPublicPageBySlugInterface,
+  PublicPageTreeType,
+} from '@application/interfaces/use-cases/pages/getPublicPageBySlugInterface';
+import { Page } from '@domain/entities/Page';
+
+export class GetPublicPageBySlug implements GetPublicPageBySlugInterface {
+  constructor(
+    private readonly getPageByPublicSlugRepository: GetPageByPublicSlugRepository,
+    private readonly getDescendantsByPageIdRepository: GetDescendantsByPageIdRepository
+  ) {}
+
+  async execute(
+    params: GetPublicPageBySlugInterface.Request
+  ): Promise<GetPublicPageBySlugInterface.Response> {
+    const { slug, pageId } = params;
+
+    const publishedPage =
+      await this.getPageByPublicSlugRepository.getPageByPublicSlug(slug);
+
+    const { publication } = publishedPage || {};
+
+    // an expired link or a trashed page looks exactly like one that never existed
+    if (
+      !publishedPage ||
+      !publication ||
+      publishedPage.trashedAt ||
+      (publication.expiresAt && publication.expiresAt <= new Date())
+    ) {
+      return new PageNotFoundError();
+    }
+
+    const descendants = publication.includeChildren
+      ? await this.getDescendantsByPageIdRepository.getDescendantsByPageId(
+          publishedPage.id
+        )
+      : [];
+
+    const page =
+      !pageId || pageId === publishedPage.id
+        ? publishedPage
+        : descendants.find(descendant => descendant.id === pageId);
+
+    if (!page) {
+      return new PageNotFoundError();
+    }
+
+    // only what a visitor needs is returned, never the members' data
+    return {
+      id: page.id,
+      title: page.title,
+      icon: page.icon,
+      coverPicture: page.coverPicture,
+      content: page.content,
+      allowIndexing: publication.allowIndexing,
+      children: this.getChildren(page.id, descendants),
+    };
+  }
+
+  private getChildren(
+    pageId: string,
+    descendants: Page[]
+  ): PublicPageTreeType[] {
+    return descendants
+      .filter(descendant => descendant.parentId === pageId)
+      .map(child => ({
+        id: child.id,
+        title: child.title,
+        icon: child.icon,
+        children: this.getChildren(child.id, descendants),
+      }));
+  }
+}
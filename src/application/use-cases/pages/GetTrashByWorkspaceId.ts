@@ -0,0 +1,16 @@
+import { GetTrashedPagesByWorkspaceIdRepository } from '@application/interfaces/repositories/pages/getTrashedPagesByWorkspaceIdRepository';
+import { GetTrashByWorkspaceIdInterface } from '@application/interfaces/use-cases/pages/getTrashByWorkspaceIdInterface';
+
+export class GetTrashByWorkspaceId implements GetTrashByWorkspaceIdInterface {
+  constructor(
+    private readonly getTrashedPagesByWorkspaceIdRepository: GetTrashedPagesByWorkspaceIdRepository
+  ) {}
+
+  async execute(
+    workspaceId: GetTrashByWorkspaceIdInterface.Request
+  ): Promise<GetTrashByWorkspaceIdInterface.Response> {
+    return this.getTrashedPagesByWorkspaceIdRepository.getTrashedPagesByWorkspaceId(
+      workspaceId
+    );
+  }
+}
@@ -0,0 +1,17 @@
+import { GetTrashedPagesDueForPurgeRepository } from '@application/interfaces/repositories/pages/getTrashedPagesDueForPurgeRepository';
+import { GetTrashedPagesDueForPurgeInterface } from '@application/interfaces/use-cases/pages/getTrashedPagesDueForPurgeInterface';
+
+export class GetTrashedPagesDueForPurge
+  implements GetTrashedPagesDueForPurgeInterface
+{
+  constructor(
+    private readonly getTrashedPagesDueForPurgeRepository: GetTrashedPagesDueForPurgeRepository,
+    private readonly retentionDays: number
+  ) {}
+
+  async execute(): Promise<GetTrashedPagesDueForPurgeInterface.Response> {
+    return this.getTrashedPagesDueForPurgeRepository.getTrashedPagesDueForPurge(
+      new Date(Date.now() - this.retentionDays * 24 * 60 * 60 * 1000)
+    );
+  }
+}
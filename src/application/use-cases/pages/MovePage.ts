@@ -0,0 +1,198 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { InvalidPageMoveError } from '@application/errors/InvalidPageMoveError';
+import { PageLockedError } from '@application/errors/PageLockedError';
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { MovePageGuestsRepository } from '@application/interfaces/repositories/pageGuests/movePageGuestsRepository';
+import { GetDescendantsByPageIdRepository } from '@application/interfaces/repositories/pages/getDescendantsByPageIdRepository';
+import { GetPageByIdRepository } from '@application/interfaces/repositories/pages/getPageByIdRepository';
+import { GetTrashedDescendantsByPageIdRepository } from '@application/interfaces/repositories/pages/getTrashedDescendantsByPageIdRepository';
+import { MovePagesRepository } from '@application/interfaces/repositories/pages/movePagesRepository';
+import { RemoveFromFavoriteRepository } from '@application/interfaces/repositories/pages/removeFromFavoriteRepository';
+import { AddPageIdToFavoritesByWorkspaceIdRepository } from '@application/interfaces/repositories/users/addPageIdToFavoritesByWorkspaceIdRepository';
+import { RemovePageIdFromFavoritesByWorkspaceIdRepository } from '@application/interfaces/repositories/users/removePageIdFromFavoritesByWorkspaceIdRepository';
+import { GetAllMembersByWorkspaceIdRepository } from '@application/interfaces/repositories/workspaces/getAllMembersByWorkspaceIdRepository';
+import { MovePageInterface } from '@application/interfaces/use-cases/pages/movePageInterface';
+import { Page } from '@domain/entities/Page';
+import { MemberType, WorkspaceRole } from '@domain/entities/Workspace';
+
+const MOVER_ROLES: WorkspaceRole[] = ['owner', 'editor'];
+
+export class MovePage implements MovePageInterface {
+  constructor(
+    private readonly getPageByIdRepository: GetPageByIdRepository,
+    private readonly getAllMembersByWorkspaceIdRepository: GetAllMembersByWorkspaceIdRepository,
+    private readonly getDescendantsByPageIdRepository: GetDescendantsByPageIdRepository,
+    private readonly getTrashedDescendantsByPageIdRepository: GetTrashedDescendantsByPageIdRepository,
+    private readonly movePagesRepository: MovePagesRepository,
+    private readonly movePageGuestsRepository: MovePageGuestsRepository,
+    private readonly removeFromFavoriteRepository: RemoveFromFavoriteRepository,
+    private readonly removePageIdFromFavoritesByWorkspaceIdRepository: RemovePageIdFromFavoritesByWorkspaceIdRepository,
+    private readonly addPageIdToFavoritesByWorkspaceIdRepository: AddPageIdToFavoritesByWorkspaceIdRepository
+  ) {}
+
+  async execute(
+    params: MovePageInterface.Request
+  ): Promise<MovePageInterface.Response> {
+    const { pageId, userId, parentId } = params;
+
+    const page = await this.getPageByIdRepository.getPageById(pageId);
+
+    if (!page) {
+      return new PageNotFoundError();
+    }
+
+    if (page.pageSettings?.lock) {
+      return new PageLockedError();
+    }
+
+    const workspaceId = params.workspaceId || page.workspaceId;
+    const parent = parentId
+      ? await this.getPageByIdRepository.getPageById(parentId)
+      : null;
+
+    if (
+      parentId &&
+      (!parent || parent.workspaceId !== workspaceId || parent.trashedAt)
+    ) {
+      return new PageNotFoundError();
+    }
+
+    // guests never move pages, members need to be able to edit both sides
+    const members =
+      await this.getAllMembersByWorkspaceIdRepository.getAllMembersByWorkspaceId(
+        workspaceId
+      );
+    const previousMembers =
+      workspaceId === page.workspaceId
+        ? members
+        : await this.getAllMembersByWorkspaceIdRepository.getAllMembersByWorkspaceId(
+            page.workspaceId
+          );
+
+    if (
+      !MovePage.canMove(members, userId) ||
+      !MovePage.canMove(previousMembers, userId)
+    ) {
+      return new ForbiddenError();
+    }
+
+    if (
+      parent &&
+      (parent.id === page.id || parent.ancestors.includes(page.id))
+    ) {
+      return new InvalidPageMoveError();
+    }
+
+    const ancestors = parent ? [...parent.ancestors, parent.id] : [];
+
+    const descendants =
+      await this.getDescendantsByPageIdRepository.getDescendantsByPageId(
+        page.id
+      );
+    // trashed descendants move along, so restoring them lands in the new place
+    const trashedDescendants =
+      await this.getTrashedDescendantsByPageIdRepository.getTrashedDescendantsByPageId(
+        page.id
+      );
+
+    // descendants keep everything below the moved page and swap what is above
+    const toMovedPage = (descendant: Page) => ({
+      page: descendant,
+      parentId: descendant.parentId,
+      ancestors: [
+        ...ancestors,
+        ...descendant.ancestors.slice(page.ancestors.length),
+      ],
+    });
+    const movedPages = [
+      { page, parentId: parent ? parent.id : null, ancestors },
+      ...descendants.map(toMovedPage),
+    ];
+    const movedTrashedPages = trashedDescendants.map(toMovedPage);
+
+    await this.movePagesRepository.movePages({
+      workspaceId,
+      pages: [...movedPages, ...movedTrashedPages].map(movedPage => ({
+        pageId: movedPage.page.id,
+        parentId: movedPage.parentId,
+        ancestors: movedPage.ancestors,
+      })),
+    });
+
+    // guests keep the pages shared with them, now in the new workspace
+    if (workspaceId !== page.workspaceId) {
+      await this.movePageGuestsRepository.movePageGuests({
+        pageIds: [...movedPages, ...movedTrashedPages].map(
+          movedPage => movedPage.page.id
+        ),
+        workspaceId,
+      });
+    }
+
+    const pages = await Promise.all(
+      movedPages.map(async movedPage => {
+        const favorite =
+          workspaceId === page.workspaceId
+            ? movedPage.page.favorite
+            : await this.moveFavorites(movedPage.page, workspaceId, members!);
+
+        return new Page({
+          ...movedPage.page,
+          parentId: movedPage.parentId,
+          ancestors: movedPage.ancestors,
+          workspaceId,
+          favorite,
+        });
+      })
+    );
+
+    return { previousWorkspaceId: page.workspaceId, pages };
+  }
+
+  private static canMove(
+    members: MemberType[] | null,
+    userId: string
+  ): boolean {
+    const member = members?.find(
+      workspaceMember => workspaceMember.userId === userId
+    );
+
+    return !!member && MOVER_ROLES.includes(member.role);
+  }
+
+  // favorites follow the page for users who are members of both workspaces
+  private async moveFavorites(
+    page: Page,
+    workspaceId: string,
+    members: MemberType[]
+  ): Promise<string[]> {
+    const favorite = (page.favorite || []).filter(favoriteUserId =>
+      members.some(member => member.userId === favoriteUserId)
+    );
+
+    await Promise.all(
+      (page.favorite || []).map(async favoriteUserId => {
+        await this.removePageIdFromFavoritesByWorkspaceIdRepository.removePageIdFromFavoritesByWorkspaceId(
+          {
+            userId: favoriteUserId,
+            workspaceId: page.workspaceId,
+            pageId: page.id,
+          }
+        );
+
+        if (favorite.includes(favoriteUserId)) {
+          await this.addPageIdToFavoritesByWorkspaceIdRepository.addPageIdToFavoritesByWorkspaceId(
+            { userId: favoriteUserId, workspaceId, pageId: page.id }
+          );
+        } else {
+          await this.removeFromFavoriteRepository.removeFromFavorite({
+            pageId: page.id,
+            userId: favoriteUserId,
+          });
+        }
+      })
+    );
+
+    return favorite;
+  }
+}
@@ -0,0 +1,46 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { TokenGenerator } from '@application/interfaces/cryptography/TokenGenerator';
+import { GetPageByIdRepository } from '@application/interfaces/repositories/pages/getPageByIdRepository';
+import { UpdatePagePublicationByPageIdRepository } from '@application/interfaces/repositories/pages/updatePagePublicationByPageIdRepository';
+import { PublishPageInterface } from '@application/interfaces/use-cases/pages/publishPageInterface';
+
+export class PublishPage implements PublishPageInterface {
+  constructor(
+    private readonly getPageByIdRepository: GetPageByIdRepository,
+    private readonly tokenGenerator: TokenGenerator,
+    private readonly updatePagePublicationByPageIdRepository: UpdatePagePublicationByPageIdRepository
+  ) {}
+
+  async execute(
+    params: PublishPageInterface.Request
+  ): Promise<PublishPageInterface.Response> {
+    const { pageId, includeChildren, allowIndexing, expiresInDays } = params;
+
+    const page = await this.getPageByIdRepository.getPageById(pageId);
+
+    if (!page) {
+      return new PageNotFoundError();
+    }
+
+    // changing the options of a published page keeps its link working
+    const publication = {
+      slug:
+        page.publication?.slug || (await this.tokenGenerator.generateToken()),
+      includeChildren: !!includeChildren,
+      allowIndexing: !!allowIndexing,
+      expiresAt: expiresInDays
+        ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+        : null,
+      publishedAt: page.publication?.publishedAt || new Date(),
+    };
+
+    await this.updatePagePublicationByPageIdRepository.updatePagePublicationByPageId(
+      {
+        pageId,
+        publication,
+      }
+    );
+
+    return publication;
+  }
+}
@@ -0,0 +1,42 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { CreateAuditLogEntryRepository } from '@application/interfaces/repositories/auditLogs/createAuditLogEntryRepository';
+import { GetTrashedPagesByPageIdRepository } from '@application/interfaces/repositories/pages/getTrashedPagesByPageIdRepository';
+import { PurgeTrashedPagesRepository } from '@application/interfaces/repositories/pages/purgeTrashedPagesRepository';
+import { PurgePageInterface } from '@application/interfaces/use-cases/pages/purgePageInterface';
+
+export class PurgePage implements PurgePageInterface {
+  constructor(
+    private readonly getTrashedPagesByPageIdRepository: GetTrashedPagesByPageIdRepository,
+    private readonly purgeTrashedPagesRepository: PurgeTrashedPagesRepository,
+    private readonly createAuditLogEntryRepository: CreateAuditLogEntryRepository
+  ) {}
+
+  async execute(
+    params: PurgePageInterface.Request
+  ): Promise<PurgePageInterface.Response> {
+    const { workspaceId, pageId, actorId, ip } = params;
+
+    const trashedPages =
+      await this.getTrashedPagesByPageIdRepository.getTrashedPagesByPageId(
+        pageId
+      );
+    const page = trashedPages.find(trashedPage => trashedPage.id === pageId);
+
+    if (!page || page.workspaceId !== workspaceId) {
+      return new PageNotFoundError();
+    }
+
+    await this.purgeTrashedPagesRepository.purgeTrashedPages(pageId);
+
+    if (actorId) {
+      await this.createAuditLogEntryRepository.createAuditLogEntry({
+        action: 'page.purge',
+        actorId,
+        targetType: 'page',
+        targetId: pageId,
+        workspaceId,
+        ip,
+      });
+    }
+  }
+}
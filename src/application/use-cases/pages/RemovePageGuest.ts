@@ -0,0 +1,21 @@
+import { PageGuestNotFoundError } from '@application/errors/PageGuestNotFoundError';
+import { RemovePageGuestRepository } from '@application/interfaces/repositories/pageGuests/removePageGuestRepository';
+import { RemovePageGuestInterface } from '@application/interfaces/use-cases/pages/removePageGuestInterface';
+
+export class RemovePageGuest implements RemovePageGuestInterface {
+  constructor(
+    private readonly removePageGuestRepository: RemovePageGuestRepository
+  ) {}
+
+  async execute(
+    params: RemovePageGuestInterface.Request
+  ): Promise<RemovePageGuestInterface.Response> {
+    const isRemoved = await this.removePageGuestRepository.removePageGuest(
+      params
+    );
+
+    if (!isRemoved) {
+      return new PageGuestNotFoundError();
+    }
+  }
+}
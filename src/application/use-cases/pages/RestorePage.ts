@@ -0,0 +1,95 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { CreateAuditLogEntryRepository } from '@application/interfaces/repositories/auditLogs/createAuditLogEntryRepository';
+import { GetPageByIdRepository } from '@application/interfaces/repositories/pages/getPageByIdRepository';
+import { GetTrashedPagesByPageIdRepository } from '@application/interfaces/repositories/pages/getTrashedPagesByPageIdRepository';
+import { RestorePagesRepository } from '@application/interfaces/repositories/pages/restorePagesRepository';
+import { RestorePageInterface } from '@application/interfaces/use-cases/pages/restorePageInterface';
+import { Page } from '@domain/entities/Page';
+
+export class RestorePage implements RestorePageInterface {
+  constructor(
+    private readonly getTrashedPagesByPageIdRepository: GetTrashedPagesByPageIdRepository,
+    private readonly getPageByIdRepository: GetPageByIdRepository,
+    private readonly restorePagesRepository: RestorePagesRepository,
+    private readonly createAuditLogEntryRepository: CreateAuditLogEntryRepository
+  ) {}
+
+  async execute(
+    params: RestorePageInterface.Request
+  ): Promise<RestorePageInterface.Response> {
+    const { workspaceId, pageId, actorId, ip } = params;
+
+    const trashedPages =
+      await this.getTrashedPagesByPageIdRepository.getTrashedPagesByPageId(
+        pageId
+      );
+    const page = trashedPages.find(trashedPage => trashedPage.id === pageId);
+
+    if (!page || page.workspaceId !== workspaceId) {
+      return new PageNotFoundError();
+    }
+
+    const parent = await this.getRestoredParent(page);
+    const parentId = parent ? parent.id : null;
+    const ancestors = parent ? [...parent.ancestors, parent.id] : [];
+
+    // the rest of the subtree keeps its shape below the restored page
+    const restoredPages = trashedPages.map(
+      trashedPage =>
+        new Page({
+          ...trashedPage,
+          parentId: trashedPage.id === pageId ? parentId : trashedPage.parentId,
+          ancestors:
+            trashedPage.id === pageId
+              ? ancestors
+              : [
+                  ...ancestors,
+                  ...trashedPage.ancestors.slice(page.ancestors.length),
+                ],
+          trashedAt: null,
+          trashedWithPageId: null,
+        })
+    );
+
+    await this.restorePagesRepository.restorePages({
+      pages: restoredPages.map(restoredPage => ({
+        pageId: restoredPage.id,
+        parentId: restoredPage.parentId,
+        ancestors: restoredPage.ancestors,
+      })),
+    });
+
+    await this.createAuditLogEntryRepository.createAuditLogEntry({
+      action: 'page.restore',
+      actorId,
+      targetType: 'page',
+      targetId: pageId,
+      workspaceId,
+      ip,
+    });
+
+    return [
+      restoredPages.find(restoredPage => restoredPage.id === pageId)!,
+      ...restoredPages.filter(restoredPage => restoredPage.id !== pageId),
+    ];
+  }
+
+  // back below the previous parent, or to the root once that parent is gone
+  private async getRestoredParent(page: Page): Promise<Page | null> {
+    if (!page.parentId) {
+      return null;
+    }
+
+    const parent = await this.getPageByIdRepository.getPageById(page.parentId);
+
+    if (
+      !parent ||
+      parent.trashedAt ||
+      parent.workspaceId !== page.workspaceId
+    ) {
+      return null;
+    }
+
+    return parent;
+  }
+}
@@ -0,0 +1,28 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { GetPageByIdRepository } from '@application/interfaces/repositories/pages/getPageByIdRepository';
+import { UpdatePagePublicationByPageIdRepository } from '@application/interfaces/repositories/pages/updatePagePublicationByPageIdRepository';
+import { UnpublishPageInterface } from '@application/interfaces/use-cases/pages/unpublishPageInterface';
+
+export class UnpublishPage implements UnpublishPageInterface {
+  constructor(
+    private readonly getPageByIdRepository: GetPageByIdRepository,
+    private readonly updatePagePublicationByPageIdRepository: UpdatePagePublicationByPageIdRepository
+  ) {}
+
+  async execute(
+    pageId: UnpublishPageInterface.Request
+  ): Promise<UnpublishPageInterface.Response> {
+    const page = await this.getPageByIdRepository.getPageById(pageId);
+
+    if (!page) {
+      return new PageNotFoundError();
+    }
+
+    await this.updatePagePublicationByPageIdRepository.updatePagePublicationByPageId(
+      {
+        pageId,
+        publication: null,
+      }
+    );
+  }
+}
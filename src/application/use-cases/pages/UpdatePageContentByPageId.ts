@@ -1,3 +1,4 @@
+import { PageLockedError } from '@application/errors/PageLockedError';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { GetPageByIdRepository } from '@application/interfaces/repositories/pages/getPageByIdRepository';
 import { UpdatePageContentByPageIdRepository } from '@application/interfaces/repositories/pages/updatePageContentByPageIdRepository';
@@ -22,6 +23,10 @@ export class UpdatePageContentByPageId
       return new PageNotFoundError();
     }
 
+    if (page.pageSettings?.lock) {
+      return new PageLockedError();
+    }
+
     const updated =
       await this.updatePageContentByPageIdRepository.updatePageContentByPageId({
         pageId,
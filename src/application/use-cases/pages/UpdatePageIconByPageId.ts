@@ -1,3 +1,4 @@
+import { PageLockedError } from '@application/errors/PageLockedError';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { GetPageByIdRepository } from '@application/interfaces/repositories/pages/getPageByIdRepository';
 import { UpdatePageIconByPageIdRepository } from '@application/interfaces/repositories/pages/updatePageIconByPageIdRepository';
@@ -20,6 +21,10 @@ export class UpdatePageIconByPageId implements UpdatePageIconByPageIdInterface {
       return new PageNotFoundError();
     }
 
+    if (page.pageSettings?.lock) {
+      return new PageLockedError();
+    }
+
     const updated =
       await this.updatePageIconByPageIdRepository.updatePageIconByPageId({
         pageId,
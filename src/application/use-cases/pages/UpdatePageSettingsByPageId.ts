@@ -1,20 +1,24 @@
+import { PageLockedError } from '@application/errors/PageLockedError';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { CreateAuditLogEntryRepository } from '@application/interfaces/repositories/auditLogs/createAuditLogEntryRepository';
 import { GetPageByIdRepository } from '@application/interfaces/repositories/pages/getPageByIdRepository';
 import { UpdatePageSettingsByPageIdRepository } from '@application/interfaces/repositories/pages/updatePageSettingsByPageIdRepository';
 import { UpdatePageSettingsByPageIdInterface } from '@application/interfaces/use-cases/pages/updatePageSettingsByPageIdInterface';
+import { PageSettingsType } from '@domain/entities/Page';
 
 export class UpdatePageSettingsByPageId
   implements UpdatePageSettingsByPageIdInterface
 {
   constructor(
     private readonly getPageByIdRepository: GetPageByIdRepository,
-    private readonly updatePageSettingsByPageIdRepository: UpdatePageSettingsByPageIdRepository
+    private readonly updatePageSettingsByPageIdRepository: UpdatePageSettingsByPageIdRepository,
+    private readonly createAuditLogEntryRepository: CreateAuditLogEntryRepository
   ) {}
 
   async execute(
     params: UpdatePageSettingsByPageIdInterface.Request
   ): Promise<UpdatePageSettingsByPageIdInterface.Response> {
-    const { pageId, settings } = params;
+    const { pageId, settings, actorId, ip } = params;
 
     const page = await this.getPageByIdRepository.getPageById(pageId);
 
@@ -22,6 +26,13 @@ export class UpdatePageSettingsByPageId
       return new PageNotFoundError();
     }
 
+    if (
+      page.pageSettings?.lock &&
+      !UpdatePageSettingsByPageId.isUnlockOnly(page.pageSettings, settings)
+    ) {
+      return new PageLockedError();
+    }
+
     const updated =
       await this.updatePageSettingsByPageIdRepository.updatePageSettingsByPageId(
         {
@@ -30,6 +41,28 @@ export class UpdatePageSettingsByPageId
         }
       );
 
+    await this.createAuditLogEntryRepository.createAuditLogEntry({
+      action: 'page.settings_update',
+      actorId,
+      targetType: 'page',
+      targetId: pageId,
+      workspaceId: page.workspaceId,
+      ip,
+    });
+
     return updated;
   }
+
+  // a locked page only takes the settings change that unlocks it, and nothing else
+  private static isUnlockOnly(
+    current: PageSettingsType,
+    settings: PageSettingsType
+  ): boolean {
+    return (
+      settings.lock === false &&
+      settings.font === current.font &&
+      settings.smallText === current.smallText &&
+      settings.fullWidth === current.fullWidth
+    );
+  }
 }
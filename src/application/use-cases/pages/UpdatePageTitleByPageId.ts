@@ -1,3 +1,4 @@
+import { PageLockedError } from '@application/errors/PageLockedError';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { GetPageByIdRepository } from '@application/interfaces/repositories/pages/getPageByIdRepository';
 import { UpdatePageTitleByPageIdRepository } from '@application/interfaces/repositories/pages/updatePageTitleByPageIdRepository';
@@ -22,6 +23,10 @@ export class UpdatePageTitleByPageId
       return new PageNotFoundError();
     }
 
+    if (page.pageSettings?.lock) {
+      return new PageLockedError();
+    }
+
     const updated =
       await this.updatePageTitleByPageIdRepository.updatePageTitleByPageId({
         pageId,
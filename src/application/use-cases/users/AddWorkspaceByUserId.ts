@@ -1,12 +1,15 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
 import { UserNotFoundError } from '@application/errors/UserNotFoundError';
 import { AddWorkspaceByUserIdRepository } from '@application/interfaces/repositories/users/addWorkspaceByUserIdRepository';
 import { GetUserByIdRepository } from '@application/interfaces/repositories/users/getUserByIdRepository';
+import { GetAllMembersByWorkspaceIdRepository } from '@application/interfaces/repositories/workspaces/getAllMembersByWorkspaceIdRepository';
 import { AddWorkspaceByUserIdInterface } from '@application/interfaces/use-cases/users/AddWorkspaceByUserIdInterface';
 
 export class AddWorkspaceByUserId implements AddWorkspaceByUserIdInterface {
   constructor(
     private readonly getUserByIdRepository: GetUserByIdRepository,
-    private readonly addWorkspaceByUserIdRepository: AddWorkspaceByUserIdRepository
+    private readonly addWorkspaceByUserIdRepository: AddWorkspaceByUserIdRepository,
+    private readonly getAllMembersByWorkspaceIdRepository: GetAllMembersByWorkspaceIdRepository
   ) {}
 
   async execute(
@@ -20,6 +23,16 @@ export class AddWorkspaceByUserId implements AddWorkspaceByUserIdInterface {
       return new UserNotFoundError();
     }
 
+    // the list only mirrors memberships, it never grants one
+    const members =
+      await this.getAllMembersByWorkspaceIdRepository.getAllMembersByWorkspaceId(
+        workspaceId
+      );
+
+    if (!members?.some(member => member.userId === userId)) {
+      return new ForbiddenError();
+    }
+
     await this.addWorkspaceByUserIdRepository.addWorkspaceByUserId({
       userId,
       workspaceId,
@@ -1,13 +1,26 @@
 import { ForbiddenError } from '@application/errors/ForbiddenError';
 import { JWTVerifier } from '@application/interfaces/cryptography/JWTVerifier';
+import { TokenHasher } from '@application/interfaces/cryptography/TokenHasher';
+import { GetApiTokenByHashRepository } from '@application/interfaces/repositories/apiTokens/getApiTokenByHashRepository';
+import { UpdateApiTokenLastUsedAtRepository } from '@application/interfaces/repositories/apiTokens/updateApiTokenLastUsedAtRepository';
 import { AuthenticateInterface } from '@application/interfaces/use-cases/users/AuthenticateInterface';
+import { API_TOKEN_PREFIX } from '@domain/entities/ApiToken';
 
 export class Authenticate implements AuthenticateInterface {
-  constructor(private readonly jwtVerifier: JWTVerifier) {}
+  constructor(
+    private readonly jwtVerifier: JWTVerifier,
+    private readonly tokenHasher: TokenHasher,
+    private readonly getApiTokenByHashRepository: GetApiTokenByHashRepository,
+    private readonly updateApiTokenLastUsedAtRepository: UpdateApiTokenLastUsedAtRepository
+  ) {}
 
   async execute(
     authenticationToken: AuthenticateInterface.Request
   ): Promise<AuthenticateInterface.Response> {
+    if (authenticationToken.startsWith(API_TOKEN_PREFIX)) {
+      return this.authenticateApiToken(authenticationToken);
+    }
+
     const decodedToken = await this.jwtVerifier.verifyAccessToken(
       authenticationToken
     );
@@ -20,6 +33,27 @@ export class Authenticate implements AuthenticateInterface {
 
     const decodedTokenObject = JSON.parse(decodedTokenString);
 
-    return decodedTokenObject.userId;
+    return { userId: decodedTokenObject.userId };
+  }
+
+  private async authenticateApiToken(
+    token: string
+  ): Promise<AuthenticateInterface.Response> {
+    const tokenHash = await this.tokenHasher.hashToken(token);
+    const apiToken = await this.getApiTokenByHashRepository.getApiTokenByHash(
+      tokenHash
+    );
+
+    if (!apiToken || (apiToken.expiresAt && apiToken.expiresAt < new Date())) {
+      return new ForbiddenError();
+    }
+
+    await this.updateApiTokenLastUsedAtRepository.updateApiTokenLastUsedAt(
+      apiToken.id
+    );
+
+    const { userId, scopes, workspaceId } = apiToken;
+
+    return { userId, apiToken: { scopes, workspaceId } };
   }
 }
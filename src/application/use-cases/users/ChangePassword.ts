@@ -0,0 +1,69 @@
+import { InvalidPasswordError } from '@application/errors/InvalidPasswordError';
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
+import { CreateAuditLogEntryRepository } from '@application/interfaces/repositories/auditLogs/createAuditLogEntryRepository';
+import { HashComparer } from '@application/interfaces/cryptography/HashCompare';
+import { HashGenerator } from '@application/interfaces/cryptography/HashGenerator';
+import { DeleteTokensByUserIdRepository } from '@application/interfaces/repositories/tokens/deleteTokensByUserIdRepository';
+import { GetUserByIdRepository } from '@application/interfaces/repositories/users/getUserByIdRepository';
+import { LoadUserByEmailRepository } from '@application/interfaces/repositories/users/loadUserByEmailRepository';
+import { UpdatePasswordRepository } from '@application/interfaces/repositories/users/updatePasswordRepository';
+import { ChangePasswordInterface } from '@application/interfaces/use-cases/users/ChangePasswordInterface';
+
+export class ChangePassword implements ChangePasswordInterface {
+  constructor(
+    private readonly getUserByIdRepository: GetUserByIdRepository,
+    private readonly loadUserByEmailRepository: LoadUserByEmailRepository,
+    private readonly hashComparer: HashComparer,
+    private readonly hashGenerator: HashGenerator,
+    private readonly updatePasswordRepository: UpdatePasswordRepository,
+    private readonly deleteTokensByUserIdRepository: DeleteTokensByUserIdRepository,
+    private readonly createAuditLogEntryRepository: CreateAuditLogEntryRepository
+  ) {}
+
+  async execute(
+    params: ChangePasswordInterface.Request
+  ): Promise<ChangePasswordInterface.Response> {
+    const { userId, currentPassword, newPassword, ip } = params;
+
+    const user = await this.getUserByIdRepository.getUserById(userId);
+
+    if (!user) {
+      return new UserNotFoundError();
+    }
+
+    // users are read by id without their password hash
+    const userWithPassword =
+      await this.loadUserByEmailRepository.loadUserByEmail(user.email);
+
+    const isPasswordValid =
+      !!userWithPassword &&
+      (await this.hashComparer.compare(
+        currentPassword,
+        userWithPassword.password
+      ));
+
+    if (!isPasswordValid) {
+      return new InvalidPasswordError();
+    }
+
+    const hashedPassword = await this.hashGenerator.hash(newPassword);
+
+    await this.updatePasswordRepository.updatePassword({
+      userId,
+      password: hashedPassword,
+    });
+
+    // every session is revoked, the caller signs in again with the new password
+    await this.deleteTokensByUserIdRepository.deleteTokensByUserId(userId);
+
+    await this.createAuditLogEntryRepository.createAuditLogEntry({
+      action: 'user.sign_out_everywhere',
+      actorId: userId,
+      targetType: 'user',
+      targetId: userId,
+      ip,
+    });
+
+    return user;
+  }
+}
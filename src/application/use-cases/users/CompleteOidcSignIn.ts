@@ -0,0 +1,85 @@
+import { IdentityProviderNotFoundError } from '@application/errors/IdentityProviderNotFoundError';
+import { InvalidTokenError } from '@application/errors/InvalidTokenError';
+import { UnverifiedEmailError } from '@application/errors/UnverifiedEmailError';
+import { IdentityProviders } from '@application/interfaces/identity/IdentityProvider';
+import { ConsumeOidcStateRepository } from '@application/interfaces/repositories/identities/consumeOidcStateRepository';
+import { CreateIdentityRepository } from '@application/interfaces/repositories/identities/createIdentityRepository';
+import { GetIdentityRepository } from '@application/interfaces/repositories/identities/getIdentityRepository';
+import { LoadUserByEmailRepository } from '@application/interfaces/repositories/users/loadUserByEmailRepository';
+import { CompleteOidcSignInInterface } from '@application/interfaces/use-cases/users/CompleteOidcSignInInterface';
+
+export class CompleteOidcSignIn implements CompleteOidcSignInInterface {
+  constructor(
+    private readonly identityProviders: IdentityProviders,
+    private readonly consumeOidcStateRepository: ConsumeOidcStateRepository,
+    private readonly getIdentityRepository: GetIdentityRepository,
+    private readonly loadUserByEmailRepository: LoadUserByEmailRepository,
+    private readonly createIdentityRepository: CreateIdentityRepository
+  ) {}
+
+  async execute(
+    params: CompleteOidcSignInInterface.Request
+  ): Promise<CompleteOidcSignInInterface.Response> {
+    const { provider, code, state } = params;
+    const identityProvider = this.identityProviders.get(provider);
+
+    if (!identityProvider) {
+      return new IdentityProviderNotFoundError();
+    }
+
+    const oidcState = await this.consumeOidcStateRepository.consumeOidcState(
+      state
+    );
+
+    if (
+      !oidcState ||
+      oidcState.provider !== provider ||
+      oidcState.expiresAt < new Date()
+    ) {
+      return new InvalidTokenError();
+    }
+
+    const identity = await identityProvider.getIdentity({
+      code,
+      nonce: oidcState.nonce,
+      codeVerifier: oidcState.codeVerifier,
+    });
+
+    if (!identity) {
+      return new InvalidTokenError();
+    }
+
+    const { subject, email, emailVerified } = identity;
+    const linkedIdentity = await this.getIdentityRepository.getIdentity({
+      provider,
+      subject,
+    });
+
+    if (linkedIdentity) {
+      return { userId: linkedIdentity.userId };
+    }
+
+    if (!emailVerified) {
+      return new UnverifiedEmailError();
+    }
+
+    const user = await this.loadUserByEmailRepository.loadUserByEmail(email);
+
+    if (!user) {
+      return { identity };
+    }
+
+    // whoever registered an unverified address first must not get the identity
+    if (!user.emailVerified) {
+      return new UnverifiedEmailError();
+    }
+
+    await this.createIdentityRepository.createIdentity({
+      provider,
+      subject,
+      userId: user.id,
+    });
+
+    return { userId: user.id };
+  }
+}
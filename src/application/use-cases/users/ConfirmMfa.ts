@@ -0,0 +1,69 @@
+import { InvalidMfaCodeError } from '@application/errors/InvalidMfaCodeError';
+import { MfaAlreadyEnabledError } from '@application/errors/MfaAlreadyEnabledError';
+import { MfaNotEnrolledError } from '@application/errors/MfaNotEnrolledError';
+import { HashGenerator } from '@application/interfaces/cryptography/HashGenerator';
+import { TokenGenerator } from '@application/interfaces/cryptography/TokenGenerator';
+import { TotpVerifier } from '@application/interfaces/cryptography/TotpVerifier';
+import { EnableMfaRepository } from '@application/interfaces/repositories/mfa/enableMfaRepository';
+import { GetMfaByUserIdRepository } from '@application/interfaces/repositories/mfa/getMfaByUserIdRepository';
+import { UseMfaTimeStepRepository } from '@application/interfaces/repositories/mfa/useMfaTimeStepRepository';
+import { ConfirmMfaInterface } from '@application/interfaces/use-cases/users/ConfirmMfaInterface';
+
+const RECOVERY_CODE_COUNT = 10;
+
+export class ConfirmMfa implements ConfirmMfaInterface {
+  constructor(
+    private readonly getMfaByUserIdRepository: GetMfaByUserIdRepository,
+    private readonly totpVerifier: TotpVerifier,
+    private readonly useMfaTimeStepRepository: UseMfaTimeStepRepository,
+    private readonly tokenGenerator: TokenGenerator,
+    private readonly hashGenerator: HashGenerator,
+    private readonly enableMfaRepository: EnableMfaRepository
+  ) {}
+
+  async execute(
+    params: ConfirmMfaInterface.Request
+  ): Promise<ConfirmMfaInterface.Response> {
+    const { userId, code } = params;
+
+    const mfa = await this.getMfaByUserIdRepository.getMfaByUserId(userId);
+
+    if (!mfa) {
+      return new MfaNotEnrolledError();
+    }
+
+    if (mfa.enabled) {
+      return new MfaAlreadyEnabledError();
+    }
+
+    const timeStep = await this.totpVerifier.verify(mfa.secret, code);
+
+    if (
+      timeStep === null ||
+      !(await this.useMfaTimeStepRepository.useMfaTimeStep({
+        userId,
+        timeStep,
+      }))
+    ) {
+      return new InvalidMfaCodeError();
+    }
+
+    const recoveryCodes = await Promise.all(
+      Array.from({ length: RECOVERY_CODE_COUNT }, () =>
+        this.tokenGenerator.generateToken()
+      )
+    );
+
+    // only hashes are kept, the codes are shown this one time
+    const hashedRecoveryCodes = await Promise.all(
+      recoveryCodes.map(recoveryCode => this.hashGenerator.hash(recoveryCode))
+    );
+
+    await this.enableMfaRepository.enableMfa({
+      userId,
+      recoveryCodes: hashedRecoveryCodes,
+    });
+
+    return { recoveryCodes };
+  }
+}
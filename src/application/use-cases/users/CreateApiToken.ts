@@ -0,0 +1,46 @@
+import { TokenGenerator } from '@application/interfaces/cryptography/TokenGenerator';
+import { TokenHasher } from '@application/interfaces/cryptography/TokenHasher';
+import { CreateApiTokenRepository } from '@application/interfaces/repositories/apiTokens/createApiTokenRepository';
+import { CreateApiTokenInterface } from '@application/interfaces/use-cases/users/CreateApiTokenInterface';
+import { API_TOKEN_PREFIX } from '@domain/entities/ApiToken';
+
+export class CreateApiToken implements CreateApiTokenInterface {
+  constructor(
+    private readonly tokenGenerator: TokenGenerator,
+    private readonly tokenHasher: TokenHasher,
+    private readonly createApiTokenRepository: CreateApiTokenRepository
+  ) {}
+
+  async execute(
+    params: CreateApiTokenInterface.Request
+  ): Promise<CreateApiTokenInterface.Response> {
+    const { userId, name, scopes, workspaceId, expiresInDays } = params;
+
+    const token = `${API_TOKEN_PREFIX}${await this.tokenGenerator.generateToken()}`;
+    const tokenHash = await this.tokenHasher.hashToken(token);
+
+    const apiTokenData = {
+      userId,
+      name,
+      scopes,
+      workspaceId: workspaceId || null,
+      expiresAt: expiresInDays
+        ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000)
+        : null,
+    };
+
+    const id = await this.createApiTokenRepository.createApiToken({
+      ...apiTokenData,
+      tokenHash,
+    });
+
+    // the plain token is only ever shown in this response
+    return {
+      id,
+      ...apiTokenData,
+      lastUsedAt: null,
+      createdAt: new Date(),
+      token,
+    };
+  }
+}
@@ -0,0 +1,64 @@
+import { JWTGenerator } from '@application/interfaces/cryptography/JWTGenerator';
+import { TokenGenerator } from '@application/interfaces/cryptography/TokenGenerator';
+import { CreateAuditLogEntryRepository } from '@application/interfaces/repositories/auditLogs/createAuditLogEntryRepository';
+import { CreateMfaChallengeRepository } from '@application/interfaces/repositories/mfa/createMfaChallengeRepository';
+import { GetMfaByUserIdRepository } from '@application/interfaces/repositories/mfa/getMfaByUserIdRepository';
+import { CreateTokenRepository } from '@application/interfaces/repositories/tokens/createTokenRepository';
+import { CreateSessionInterface } from '@application/interfaces/use-cases/users/CreateSessionInterface';
+
+export class CreateSession implements CreateSessionInterface {
+  constructor(
+    private readonly getMfaByUserIdRepository: GetMfaByUserIdRepository,
+    private readonly createMfaChallengeRepository: CreateMfaChallengeRepository,
+    private readonly tokenGenerator: TokenGenerator,
+    private readonly mfaChallengeTtlMinutes: number,
+    private readonly jwtGenerator: JWTGenerator,
+    private readonly createTokenRepository: CreateTokenRepository,
+    private readonly createAuditLogEntryRepository: CreateAuditLogEntryRepository
+  ) {}
+
+  async execute(
+    params: CreateSessionInterface.Request
+  ): Promise<CreateSessionInterface.Response> {
+    const { userId, userAgent, ip } = params;
+    const mfa = await this.getMfaByUserIdRepository.getMfaByUserId(userId);
+
+    // an external identity stands in for the password, not the second factor
+    if (mfa?.enabled) {
+      const mfaToken = await this.tokenGenerator.generateToken();
+
+      await this.createMfaChallengeRepository.createMfaChallenge({
+        token: mfaToken,
+        userId,
+        expiresAt: new Date(
+          Date.now() + this.mfaChallengeTtlMinutes * 60 * 1000
+        ),
+      });
+
+      return { mfaToken };
+    }
+
+    const accessToken = await this.jwtGenerator.generateAccessToken(userId);
+    const refreshToken = await this.jwtGenerator.generateRefreshToken(userId);
+
+    await this.createTokenRepository.createToken({
+      token: refreshToken,
+      userId,
+      userAgent,
+      ip,
+    });
+
+    await this.createAuditLogEntryRepository.createAuditLogEntry({
+      action: 'user.sign_in',
+      actorId: userId,
+      targetType: 'user',
+      targetId: userId,
+      ip,
+    });
+
+    return {
+      accessToken,
+      refreshToken,
+    };
+  }
+}
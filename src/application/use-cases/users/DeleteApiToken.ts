@@ -0,0 +1,34 @@
+import { ApiTokenNotFoundError } from '@application/errors/ApiTokenNotFoundError';
+import { DeleteApiTokenRepository } from '@application/interfaces/repositories/apiTokens/deleteApiTokenRepository';
+import { CreateAuditLogEntryRepository } from '@application/interfaces/repositories/auditLogs/createAuditLogEntryRepository';
+import { DeleteApiTokenInterface } from '@application/interfaces/use-cases/users/DeleteApiTokenInterface';
+
+export class DeleteApiToken implements DeleteApiTokenInterface {
+  constructor(
+    private readonly deleteApiTokenRepository: DeleteApiTokenRepository,
+    private readonly createAuditLogEntryRepository: CreateAuditLogEntryRepository
+  ) {}
+
+  async execute(
+    params: DeleteApiTokenInterface.Request
+  ): Promise<DeleteApiTokenInterface.Response> {
+    const { userId, apiTokenId, ip } = params;
+
+    const isDeleted = await this.deleteApiTokenRepository.deleteApiToken({
+      userId,
+      apiTokenId,
+    });
+
+    if (!isDeleted) {
+      return new ApiTokenNotFoundError();
+    }
+
+    await this.createAuditLogEntryRepository.createAuditLogEntry({
+      action: 'api_token.revoke',
+      actorId: userId,
+      targetType: 'api_token',
+      targetId: apiTokenId,
+      ip,
+    });
+  }
+}
@@ -1,12 +1,84 @@
-import { DeleteUserRepository } from '@application/interfaces/repositories/users/deleteUserRepository';
+import { InvalidPasswordError } from '@application/errors/InvalidPasswordError';
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
+import { HashComparer } from '@application/interfaces/cryptography/HashCompare';
+import { DeleteApiTokensByUserIdRepository } from '@application/interfaces/repositories/apiTokens/deleteApiTokensByUserIdRepository';
+import { CreateAuditLogEntryRepository } from '@application/interfaces/repositories/auditLogs/createAuditLogEntryRepository';
+import { DeleteTokensByUserIdRepository } from '@application/interfaces/repositories/tokens/deleteTokensByUserIdRepository';
+import { GetUserByIdRepository } from '@application/interfaces/repositories/users/getUserByIdRepository';
+import { LoadUserByEmailRepository } from '@application/interfaces/repositories/users/loadUserByEmailRepository';
+import { ScheduleUserDeletionRepository } from '@application/interfaces/repositories/users/scheduleUserDeletionRepository';
 import { DeleteUserInterface } from '@application/interfaces/use-cases/users/DeleteUserInterface';
 
 export class DeleteUser implements DeleteUserInterface {
-  constructor(private readonly deleteUserRepository: DeleteUserRepository) {}
+  constructor(
+    private readonly getUserByIdRepository: GetUserByIdRepository,
+    private readonly loadUserByEmailRepository: LoadUserByEmailRepository,
+    private readonly hashComparer: HashComparer,
+    private readonly scheduleUserDeletionRepository: ScheduleUserDeletionRepository,
+    private readonly deleteTokensByUserIdRepository: DeleteTokensByUserIdRepository,
+    private readonly deleteApiTokensByUserIdRepository: DeleteApiTokensByUserIdRepository,
+    private readonly createAuditLogEntryRepository: CreateAuditLogEntryRepository,
+    private readonly gracePeriodDays: number,
+    private readonly requirePassword: boolean
+  ) {}
 
   async execute(
-    userId: DeleteUserInterface.Request
+    params: DeleteUserInterface.Request
   ): Promise<DeleteUserInterface.Response> {
-    await this.deleteUserRepository.deleteUser(userId);
+    const { userId, actorId, password, ip } = params;
+
+    const user = await this.getUserByIdRepository.getUserById(userId);
+
+    if (!user) {
+      return new UserNotFoundError();
+    }
+
+    // an admin deleting somebody else cannot be asked for their password
+    if (this.requirePassword && actorId === userId) {
+      const isPasswordValid = await this.isPasswordValid(user.email, password);
+
+      if (!isPasswordValid) {
+        return new InvalidPasswordError();
+      }
+    }
+
+    const scheduledDeletionAt = new Date(
+      Date.now() + this.gracePeriodDays * 24 * 60 * 60 * 1000
+    );
+
+    await this.scheduleUserDeletionRepository.scheduleUserDeletion({
+      userId,
+      scheduledDeletionAt,
+    });
+
+    // the account is signed out everywhere, restoring it starts with signing in
+    await this.deleteTokensByUserIdRepository.deleteTokensByUserId(userId);
+    await this.deleteApiTokensByUserIdRepository.deleteApiTokensByUserId(
+      userId
+    );
+
+    await this.createAuditLogEntryRepository.createAuditLogEntry({
+      action: 'user.delete',
+      actorId,
+      targetType: 'user',
+      targetId: userId,
+      ip,
+    });
+
+    return { scheduledDeletionAt };
+  }
+
+  private async isPasswordValid(
+    email: string,
+    password?: string
+  ): Promise<boolean> {
+    if (!password) {
+      return false;
+    }
+
+    // users are read by id without their password hash
+    const user = await this.loadUserByEmailRepository.loadUserByEmail(email);
+
+    return !!user && this.hashComparer.compare(password, user.password);
   }
 }
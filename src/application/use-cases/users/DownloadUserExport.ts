@@ -0,0 +1,42 @@
+import { UserExportNotFoundError } from '@application/errors/UserExportNotFoundError';
+import { UserExportNotReadyError } from '@application/errors/UserExportNotReadyError';
+import { GetUserExportByIdRepository } from '@application/interfaces/repositories/userExports/getUserExportByIdRepository';
+import { ExportStorage } from '@application/interfaces/storage/ExportStorage';
+import { DownloadUserExportInterface } from '@application/interfaces/use-cases/users/DownloadUserExportInterface';
+
+export class DownloadUserExport implements DownloadUserExportInterface {
+  constructor(
+    private readonly getUserExportByIdRepository: GetUserExportByIdRepository,
+    private readonly exportStorage: ExportStorage
+  ) {}
+
+  async execute(
+    params: DownloadUserExportInterface.Request
+  ): Promise<DownloadUserExportInterface.Response> {
+    const { userId, exportId } = params;
+
+    const userExport = await this.getUserExportByIdRepository.getUserExportById(
+      exportId
+    );
+
+    if (!userExport || userExport.userId !== userId) {
+      return new UserExportNotFoundError();
+    }
+
+    if (userExport.status !== 'ready') {
+      return new UserExportNotReadyError();
+    }
+
+    if (userExport.expiresAt && userExport.expiresAt < new Date()) {
+      return new UserExportNotFoundError();
+    }
+
+    const content = await this.exportStorage.load(exportId);
+
+    if (content === null) {
+      return new UserExportNotFoundError();
+    }
+
+    return { fileName: `export-${exportId}.json`, content };
+  }
+}
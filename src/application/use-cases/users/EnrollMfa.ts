@@ -0,0 +1,42 @@
+import { MfaAlreadyEnabledError } from '@application/errors/MfaAlreadyEnabledError';
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
+import { TotpGenerator } from '@application/interfaces/cryptography/TotpGenerator';
+import { CreateMfaRepository } from '@application/interfaces/repositories/mfa/createMfaRepository';
+import { GetMfaByUserIdRepository } from '@application/interfaces/repositories/mfa/getMfaByUserIdRepository';
+import { GetUserByIdRepository } from '@application/interfaces/repositories/users/getUserByIdRepository';
+import { EnrollMfaInterface } from '@application/interfaces/use-cases/users/EnrollMfaInterface';
+
+export class EnrollMfa implements EnrollMfaInterface {
+  constructor(
+    private readonly getUserByIdRepository: GetUserByIdRepository,
+    private readonly getMfaByUserIdRepository: GetMfaByUserIdRepository,
+    private readonly createMfaRepository: CreateMfaRepository,
+    private readonly totpGenerator: TotpGenerator
+  ) {}
+
+  async execute(
+    userId: EnrollMfaInterface.Request
+  ): Promise<EnrollMfaInterface.Response> {
+    const user = await this.getUserByIdRepository.getUserById(userId);
+
+    if (!user) {
+      return new UserNotFoundError();
+    }
+
+    const mfa = await this.getMfaByUserIdRepository.getMfaByUserId(userId);
+
+    if (mfa?.enabled) {
+      return new MfaAlreadyEnabledError();
+    }
+
+    // enrolling again before confirming replaces the previous secret
+    const secret = await this.totpGenerator.generateSecret();
+
+    await this.createMfaRepository.createMfa({ userId, secret });
+
+    return {
+      secret,
+      uri: this.totpGenerator.generateUri(secret, user.email),
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import { TokenGenerator } from '@application/interfaces/cryptography/TokenGenerator';
+import { MailSender } from '@application/interfaces/mail/MailSender';
+import { CreatePasswordResetTokenRepository } from '@application/interfaces/repositories/tokens/createPasswordResetTokenRepository';
+import { LoadUserByEmailRepository } from '@application/interfaces/repositories/users/loadUserByEmailRepository';
+import { ForgotPasswordInterface } from '@application/interfaces/use-cases/users/ForgotPasswordInterface';
+
+export class ForgotPassword implements ForgotPasswordInterface {
+  constructor(
+    private readonly loadUserByEmailRepository: LoadUserByEmailRepository,
+    private readonly createPasswordResetTokenRepository: CreatePasswordResetTokenRepository,
+    private readonly tokenGenerator: TokenGenerator,
+    private readonly mailSender: MailSender,
+    private readonly appUrl: string,
+    private readonly passwordResetTtlMinutes: number
+  ) {}
+
+  async execute(
+    email: ForgotPasswordInterface.Request
+  ): Promise<ForgotPasswordInterface.Response> {
+    const user = await this.loadUserByEmailRepository.loadUserByEmail(email);
+
+    // unknown emails are answered the same way, so accounts cannot be probed
+    if (!user) {
+      return;
+    }
+
+    const token = await this.tokenGenerator.generateToken();
+    const expiresAt = new Date(
+      Date.now() + this.passwordResetTtlMinutes * 60 * 1000
+    );
+
+    await this.createPasswordResetTokenRepository.createPasswordResetToken({
+      token,
+      userId: user.id,
+      expiresAt,
+    });
+
+    await this.mailSender.send({
+      to: user.email,
+      subject: 'Reset your password',
+      text: `Open ${this.appUrl}/password/reset/${token} to choose a new password. The link expires in ${this.passwordResetTtlMinutes} minutes and can only be used once.`,
+    });
+  }
+}
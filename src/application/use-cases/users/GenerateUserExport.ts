@@ -0,0 +1,162 @@
+import { GetPageGuestsByUserIdRepository } from '@application/interfaces/repositories/pageGuests/getPageGuestsByUserIdRepository';
+import { GetDescendantsByPageIdRepository } from '@application/interfaces/repositories/pages/getDescendantsByPageIdRepository';
+import { GetPageByIdRepository } from '@application/interfaces/repositories/pages/getPageByIdRepository';
+import { GetPagesByWorkspaceIdRepository } from '@application/interfaces/repositories/pages/getPagesByWorkspaceIdRepository';
+import { GetSessionsByUserIdRepository } from '@application/interfaces/repositories/tokens/getSessionsByUserIdRepository';
+import { ClaimPendingUserExportRepository } from '@application/interfaces/repositories/userExports/claimPendingUserExportRepository';
+import { CompleteUserExportRepository } from '@application/interfaces/repositories/userExports/completeUserExportRepository';
+import { GetUserByIdRepository } from '@application/interfaces/repositories/users/getUserByIdRepository';
+import { GetWorkspaceByIdRepository } from '@application/interfaces/repositories/workspaces/getWorkspaceByIdRepository';
+import { ExportStorage } from '@application/interfaces/storage/ExportStorage';
+import { GenerateUserExportInterface } from '@application/interfaces/use-cases/users/GenerateUserExportInterface';
+import { Page } from '@domain/entities/Page';
+import { User } from '@domain/entities/User';
+
+export class GenerateUserExport implements GenerateUserExportInterface {
+  constructor(
+    private readonly claimPendingUserExportRepository: ClaimPendingUserExportRepository,
+    private readonly getUserByIdRepository: GetUserByIdRepository,
+    private readonly getWorkspaceByIdRepository: GetWorkspaceByIdRepository,
+    private readonly getSessionsByUserIdRepository: GetSessionsByUserIdRepository,
+    private readonly getPagesByWorkspaceIdRepository: GetPagesByWorkspaceIdRepository,
+    private readonly getPageGuestsByUserIdRepository: GetPageGuestsByUserIdRepository,
+    private readonly getPageByIdRepository: GetPageByIdRepository,
+    private readonly getDescendantsByPageIdRepository: GetDescendantsByPageIdRepository,
+    private readonly exportStorage: ExportStorage,
+    private readonly completeUserExportRepository: CompleteUserExportRepository,
+    private readonly exportTtlHours: number
+  ) {}
+
+  async execute(): Promise<GenerateUserExportInterface.Response> {
+    const userExport =
+      await this.claimPendingUserExportRepository.claimPendingUserExport();
+
+    if (!userExport) {
+      return false;
+    }
+
+    const user = await this.getUserByIdRepository.getUserById(
+      userExport.userId
+    );
+
+    // the account was deleted while the export was waiting
+    if (!user) {
+      await this.completeUserExportRepository.completeUserExport({
+        exportId: userExport.id,
+        status: 'failed',
+        expiresAt: null,
+      });
+      return true;
+    }
+
+    const content = JSON.stringify(await this.buildExport(user), null, 2);
+    await this.exportStorage.save(userExport.id, content);
+
+    await this.completeUserExportRepository.completeUserExport({
+      exportId: userExport.id,
+      status: 'ready',
+      expiresAt: new Date(Date.now() + this.exportTtlHours * 60 * 60 * 1000),
+    });
+
+    return true;
+  }
+
+  private async buildExport(user: User) {
+    const memberships = await this.getMemberships(user);
+    const sessions =
+      await this.getSessionsByUserIdRepository.getSessionsByUserId(user.id);
+    const pages = await this.getAccessiblePages(
+      user.id,
+      memberships.map(membership => membership.workspaceId)
+    );
+
+    // the password hash is never part of an export
+    return {
+      exportedAt: new Date(),
+      user: {
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        emailVerified: user.emailVerified,
+        isDarkMode: user.isDarkMode,
+        profilePicture: user.profilePicture,
+        createdAt: user.createdAt,
+        updatedAt: user.updatedAt,
+      },
+      memberships,
+      favorites: user.workspaces.map(({ workspaceId, favorites }) => ({
+        workspaceId,
+        pageIds: favorites,
+      })),
+      sessions,
+      pages,
+    };
+  }
+
+  private async getMemberships(user: User) {
+    const memberships = await Promise.all(
+      user.workspaces.map(async ({ workspaceId }) => {
+        const workspace =
+          await this.getWorkspaceByIdRepository.getWorkspaceById(workspaceId);
+        const member = workspace?.members.find(
+          ({ userId }) => userId === user.id
+        );
+
+        return workspace && member
+          ? { workspaceId, name: workspace.name, role: member.role }
+          : null;
+      })
+    );
+
+    return memberships.filter(
+      (membership): membership is NonNullable<typeof membership> =>
+        membership !== null
+    );
+  }
+
+  // every page of the member workspaces, plus the pages shared as a guest
+  private async getAccessiblePages(
+    userId: string,
+    workspaceIds: string[]
+  ): Promise<Page[]> {
+    const workspacePages = await Promise.all(
+      workspaceIds.map(workspaceId =>
+        this.getPagesByWorkspaceIdRepository.getPagesByWorkspaceId(workspaceId)
+      )
+    );
+
+    const pageGuests =
+      await this.getPageGuestsByUserIdRepository.getPageGuestsByUserId(userId);
+    const sharedPages = await Promise.all(
+      pageGuests
+        .filter(({ workspaceId }) => !workspaceIds.includes(workspaceId))
+        .map(async ({ pageId }) => {
+          const page = await this.getPageByIdRepository.getPageById(pageId);
+
+          if (!page) {
+            return [];
+          }
+
+          const descendants =
+            await this.getDescendantsByPageIdRepository.getDescendantsByPageId(
+              page.id
+            );
+
+          return [page, ...descendants];
+        })
+    );
+
+    const pagesById = new Map<string, Page>();
+    ([] as Page[]).concat(...workspacePages, ...sharedPages).forEach(page => {
+      pagesById.set(page.id, page);
+    });
+
+    // favorite lists every user who starred the page, only the owner's own is exported
+    return [...pagesById.values()].map(page => ({
+      ...page,
+      favorite: page.favorite.filter(
+        favoriteUserId => favoriteUserId === userId
+      ),
+    }));
+  }
+}
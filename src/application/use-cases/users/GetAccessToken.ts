@@ -2,12 +2,18 @@ import { ForbiddenError } from '@application/errors/ForbiddenError';
 import { InvalidTokenError } from '@application/errors/InvalidTokenError';
 import { JWTGenerator } from '@application/interfaces/cryptography/JWTGenerator';
 import { JWTVerifier } from '@application/interfaces/cryptography/JWTVerifier';
+import { CreateTokenRepository } from '@application/interfaces/repositories/tokens/createTokenRepository';
+import { DeleteTokensByFamilyRepository } from '@application/interfaces/repositories/tokens/deleteTokensByFamilyRepository';
 import { GetTokenRepository } from '@application/interfaces/repositories/tokens/getTokenRepository';
+import { RetireTokenRepository } from '@application/interfaces/repositories/tokens/retireTokenRepository';
 import { GetAccessTokenInterface } from '@application/interfaces/use-cases/users/GetAccessTokenInterface';
 
 export class GetAccessToken implements GetAccessTokenInterface {
   constructor(
     private readonly getTokenRepository: GetTokenRepository,
+    private readonly retireTokenRepository: RetireTokenRepository,
+    private readonly createTokenRepository: CreateTokenRepository,
+    private readonly deleteTokensByFamilyRepository: DeleteTokensByFamilyRepository,
     private readonly jwtVerifier: JWTVerifier,
     private readonly jwtGenerator: JWTGenerator
   ) {}
@@ -27,15 +33,38 @@ export class GetAccessToken implements GetAccessTokenInterface {
       return new ForbiddenError();
     }
 
+    const isActiveToken = await this.retireTokenRepository.retireToken(token);
+
+    // a retired token being presented again means it has leaked,
+    // so every session derived from the same sign in is revoked
+    if (!isActiveToken) {
+      await this.deleteTokensByFamilyRepository.deleteTokensByFamily(
+        storedToken.family
+      );
+      return new InvalidTokenError();
+    }
+
     const stringifyDecodedToken = JSON.stringify(decodedToken);
     const parsedDecodedToken = JSON.parse(stringifyDecodedToken);
 
     const accessToken = await this.jwtGenerator.generateAccessToken(
       parsedDecodedToken.userId
     );
+    const refreshToken = await this.jwtGenerator.generateRefreshToken(
+      parsedDecodedToken.userId
+    );
+
+    await this.createTokenRepository.createToken({
+      token: refreshToken,
+      userId: parsedDecodedToken.userId,
+      family: storedToken.family,
+      userAgent: storedToken.userAgent,
+      ip: storedToken.ip,
+    });
 
     return {
       accessToken,
+      refreshToken,
     };
   }
 }
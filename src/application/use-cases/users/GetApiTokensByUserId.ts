@@ -0,0 +1,26 @@
+import { GetApiTokensByUserIdRepository } from '@application/interfaces/repositories/apiTokens/getApiTokensByUserIdRepository';
+import { GetApiTokensByUserIdInterface } from '@application/interfaces/use-cases/users/GetApiTokensByUserIdInterface';
+
+export class GetApiTokensByUserId implements GetApiTokensByUserIdInterface {
+  constructor(
+    private readonly getApiTokensByUserIdRepository: GetApiTokensByUserIdRepository
+  ) {}
+
+  async execute(
+    userId: GetApiTokensByUserIdInterface.Request
+  ): Promise<GetApiTokensByUserIdInterface.Response> {
+    const apiTokens =
+      await this.getApiTokensByUserIdRepository.getApiTokensByUserId(userId);
+
+    return apiTokens.map(apiToken => ({
+      id: apiToken.id,
+      userId: apiToken.userId,
+      name: apiToken.name,
+      scopes: apiToken.scopes,
+      workspaceId: apiToken.workspaceId,
+      expiresAt: apiToken.expiresAt,
+      lastUsedAt: apiToken.lastUsedAt,
+      createdAt: apiToken.createdAt,
+    }));
+  }
+}
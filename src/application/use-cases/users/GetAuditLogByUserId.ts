@@ -0,0 +1,30 @@
+import { GetAuditLogEntriesByUserIdRepository } from '@application/interfaces/repositories/auditLogs/getAuditLogEntriesByUserIdRepository';
+import { GetAuditLogByUserIdInterface } from '@application/interfaces/use-cases/users/GetAuditLogByUserIdInterface';
+
+const DEFAULT_LIMIT = 50;
+
+export class GetAuditLogByUserId implements GetAuditLogByUserIdInterface {
+  constructor(
+    private readonly getAuditLogEntriesByUserIdRepository: GetAuditLogEntriesByUserIdRepository
+  ) {}
+
+  async execute(
+    params: GetAuditLogByUserIdInterface.Request
+  ): Promise<GetAuditLogByUserIdInterface.Response> {
+    const { limit = DEFAULT_LIMIT, ...filters } = params;
+
+    // one entry past the page tells whether there is another page to ask for
+    const entries =
+      await this.getAuditLogEntriesByUserIdRepository.getAuditLogEntriesByUserId(
+        {
+          ...filters,
+          limit: limit + 1,
+        }
+      );
+
+    const page = entries.slice(0, limit);
+    const nextCursor = entries.length > limit ? page[page.length - 1].id : null;
+
+    return { entries: page, nextCursor };
+  }
+}
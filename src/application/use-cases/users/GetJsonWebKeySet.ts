@@ -0,0 +1,10 @@
+import { JWKSProvider } from '@application/interfaces/cryptography/JWKSProvider';
+import { GetJsonWebKeySetInterface } from '@application/interfaces/use-cases/users/GetJsonWebKeySetInterface';
+
+export class GetJsonWebKeySet implements GetJsonWebKeySetInterface {
+  constructor(private readonly jwksProvider: JWKSProvider) {}
+
+  async execute(): Promise<GetJsonWebKeySetInterface.Response> {
+    return this.jwksProvider.getJsonWebKeySet();
+  }
+}
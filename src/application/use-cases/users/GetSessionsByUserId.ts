@@ -0,0 +1,14 @@
+import { GetSessionsByUserIdRepository } from '@application/interfaces/repositories/tokens/getSessionsByUserIdRepository';
+import { GetSessionsByUserIdInterface } from '@application/interfaces/use-cases/users/GetSessionsByUserIdInterface';
+
+export class GetSessionsByUserId implements GetSessionsByUserIdInterface {
+  constructor(
+    private readonly getSessionsByUserIdRepository: GetSessionsByUserIdRepository
+  ) {}
+
+  async execute(
+    userId: GetSessionsByUserIdInterface.Request
+  ): Promise<GetSessionsByUserIdInterface.Response> {
+    return this.getSessionsByUserIdRepository.getSessionsByUserId(userId);
+  }
+}
@@ -0,0 +1,51 @@
+import { GetPageGuestsByUserIdRepository } from '@application/interfaces/repositories/pageGuests/getPageGuestsByUserIdRepository';
+import { GetPageByIdRepository } from '@application/interfaces/repositories/pages/getPageByIdRepository';
+import {
+  GetSharedPagesByUserIdInterface,
+  SharedPageType,
+} from '@application/interfaces/use-cases/users/GetSharedPagesByUserIdInterface';
+
+export class GetSharedPagesByUserId implements GetSharedPagesByUserIdInterface {
+  constructor(
+    private readonly getPageGuestsByUserIdRepository: GetPageGuestsByUserIdRepository,
+    private readonly getPageByIdRepository: GetPageByIdRepository
+  ) {}
+
+  async execute(
+    userId: GetSharedPagesByUserIdInterface.Request
+  ): Promise<GetSharedPagesByUserIdInterface.Response> {
+    const pageGuests =
+      await this.getPageGuestsByUserIdRepository.getPageGuestsByUserId(userId);
+
+    const sharedPages = await Promise.all(
+      pageGuests.map(async pageGuest => {
+        const page = await this.getPageByIdRepository.getPageById(
+          pageGuest.pageId
+        );
+
+        // a grant stays behind when its page is trashed or moved elsewhere
+        if (
+          !page ||
+          page.trashedAt ||
+          page.workspaceId !== pageGuest.workspaceId
+        ) {
+          return null;
+        }
+
+        return {
+          id: page.id,
+          reference: page.reference,
+          title: page.title,
+          icon: page.icon,
+          workspaceId: page.workspaceId,
+          role: pageGuest.role,
+          sharedAt: pageGuest.createdAt,
+        };
+      })
+    );
+
+    return sharedPages.filter(
+      (sharedPage): sharedPage is SharedPageType => !!sharedPage
+    );
+  }
+}
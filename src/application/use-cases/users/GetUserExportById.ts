@@ -0,0 +1,25 @@
+import { UserExportNotFoundError } from '@application/errors/UserExportNotFoundError';
+import { GetUserExportByIdRepository } from '@application/interfaces/repositories/userExports/getUserExportByIdRepository';
+import { GetUserExportByIdInterface } from '@application/interfaces/use-cases/users/GetUserExportByIdInterface';
+
+export class GetUserExportById implements GetUserExportByIdInterface {
+  constructor(
+    private readonly getUserExportByIdRepository: GetUserExportByIdRepository
+  ) {}
+
+  async execute(
+    params: GetUserExportByIdInterface.Request
+  ): Promise<GetUserExportByIdInterface.Response> {
+    const { userId, exportId } = params;
+
+    const userExport = await this.getUserExportByIdRepository.getUserExportById(
+      exportId
+    );
+
+    if (!userExport || userExport.userId !== userId) {
+      return new UserExportNotFoundError();
+    }
+
+    return userExport;
+  }
+}
@@ -0,0 +1,16 @@
+import { GetUserIdsDueForDeletionRepository } from '@application/interfaces/repositories/users/getUserIdsDueForDeletionRepository';
+import { GetUserIdsDueForDeletionInterface } from '@application/interfaces/use-cases/users/GetUserIdsDueForDeletionInterface';
+
+export class GetUserIdsDueForDeletion
+  implements GetUserIdsDueForDeletionInterface
+{
+  constructor(
+    private readonly getUserIdsDueForDeletionRepository: GetUserIdsDueForDeletionRepository
+  ) {}
+
+  async execute(): Promise<GetUserIdsDueForDeletionInterface.Response> {
+    return this.getUserIdsDueForDeletionRepository.getUserIdsDueForDeletion(
+      new Date()
+    );
+  }
+}
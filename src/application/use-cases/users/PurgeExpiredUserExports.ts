@@ -0,0 +1,33 @@
+import { DeleteUserExportsRepository } from '@application/interfaces/repositories/userExports/deleteUserExportsRepository';
+import { GetExpiredUserExportsRepository } from '@application/interfaces/repositories/userExports/getExpiredUserExportsRepository';
+import { ExportStorage } from '@application/interfaces/storage/ExportStorage';
+import { PurgeExpiredUserExportsInterface } from '@application/interfaces/use-cases/users/PurgeExpiredUserExportsInterface';
+
+export class PurgeExpiredUserExports
+  implements PurgeExpiredUserExportsInterface
+{
+  constructor(
+    private readonly getExpiredUserExportsRepository: GetExpiredUserExportsRepository,
+    private readonly exportStorage: ExportStorage,
+    private readonly deleteUserExportsRepository: DeleteUserExportsRepository
+  ) {}
+
+  async execute(): Promise<PurgeExpiredUserExportsInterface.Response> {
+    const userExports =
+      await this.getExpiredUserExportsRepository.getExpiredUserExports(
+        new Date()
+      );
+
+    if (userExports.length === 0) {
+      return;
+    }
+
+    // the files go first, a record without a file is just a missing download
+    await Promise.all(
+      userExports.map(userExport => this.exportStorage.remove(userExport.id))
+    );
+    await this.deleteUserExportsRepository.deleteUserExports(
+      userExports.map(userExport => userExport.id)
+    );
+  }
+}
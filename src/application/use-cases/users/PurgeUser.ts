@@ -0,0 +1,181 @@
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
+import { DeleteApiTokensByUserIdRepository } from '@application/interfaces/repositories/apiTokens/deleteApiTokensByUserIdRepository';
+import { CreateAuditLogEntryRepository } from '@application/interfaces/repositories/auditLogs/createAuditLogEntryRepository';
+import { DeletePendingInvitationsByEmailRepository } from '@application/interfaces/repositories/invitations/deletePendingInvitationsByEmailRepository';
+import { ClearLoginAttemptsRepository } from '@application/interfaces/repositories/loginAttempts/clearLoginAttemptsRepository';
+import { DeleteIdentitiesByUserIdRepository } from '@application/interfaces/repositories/identities/deleteIdentitiesByUserIdRepository';
+import { DeleteMfaByUserIdRepository } from '@application/interfaces/repositories/mfa/deleteMfaByUserIdRepository';
+import { DeletePageGuestsByUserIdRepository } from '@application/interfaces/repositories/pageGuests/deletePageGuestsByUserIdRepository';
+import { DeletePagesByWorkspaceIdRepository } from '@application/interfaces/repositories/pages/deletePagesByWorkspaceIdRepository';
+import { RemoveUserFromFavoritesRepository } from '@application/interfaces/repositories/pages/removeUserFromFavoritesRepository';
+import { DeleteEmailVerificationTokensByUserIdRepository } from '@application/interfaces/repositories/tokens/deleteEmailVerificationTokensByUserIdRepository';
+import { DeletePasswordResetTokensByUserIdRepository } from '@application/interfaces/repositories/tokens/deletePasswordResetTokensByUserIdRepository';
+import { DeleteTokensByUserIdRepository } from '@application/interfaces/repositories/tokens/deleteTokensByUserIdRepository';
+import { DeleteUserExportsRepository } from '@application/interfaces/repositories/userExports/deleteUserExportsRepository';
+import { GetUserExportsByUserIdRepository } from '@application/interfaces/repositories/userExports/getUserExportsByUserIdRepository';
+import { DeleteUserRepository } from '@application/interfaces/repositories/users/deleteUserRepository';
+import { GetUserByIdRepository } from '@application/interfaces/repositories/users/getUserByIdRepository';
+import { DeleteWorkspaceRepository } from '@application/interfaces/repositories/workspaces/deleteWorkspaceRepository';
+import { GetWorkspaceByIdRepository } from '@application/interfaces/repositories/workspaces/getWorkspaceByIdRepository';
+import { RemoveMemberByWorkspaceIdRepository } from '@application/interfaces/repositories/workspaces/removeMemberByWorkspaceIdRepository';
+import { UpdateMemberRoleByWorkspaceIdRepository } from '@application/interfaces/repositories/workspaces/updateMemberRoleByWorkspaceIdRepository';
+import { ExportStorage } from '@application/interfaces/storage/ExportStorage';
+import { PurgeUserInterface } from '@application/interfaces/use-cases/users/PurgeUserInterface';
+import { WorkspaceRole } from '@domain/entities/Workspace';
+
+// the member who inherits a workspace is the most privileged one left
+const SUCCESSOR_ROLES: WorkspaceRole[] = ['editor', 'commenter', 'viewer'];
+
+export class PurgeUser implements PurgeUserInterface {
+  constructor(
+    private readonly getUserByIdRepository: GetUserByIdRepository,
+    private readonly getWorkspaceByIdRepository: GetWorkspaceByIdRepository,
+    private readonly updateMemberRoleByWorkspaceIdRepository: UpdateMemberRoleByWorkspaceIdRepository,
+    private readonly removeMemberByWorkspaceIdRepository: RemoveMemberByWorkspaceIdRepository,
+    private readonly deletePagesByWorkspaceIdRepository: DeletePagesByWorkspaceIdRepository,
+    private readonly deleteWorkspaceRepository: DeleteWorkspaceRepository,
+    private readonly removeUserFromFavoritesRepository: RemoveUserFromFavoritesRepository,
+    private readonly deletePageGuestsByUserIdRepository: DeletePageGuestsByUserIdRepository,
+    private readonly deleteIdentitiesByUserIdRepository: DeleteIdentitiesByUserIdRepository,
+    private readonly deleteMfaByUserIdRepository: DeleteMfaByUserIdRepository,
+    private readonly deleteTokensByUserIdRepository: DeleteTokensByUserIdRepository,
+    private readonly deleteApiTokensByUserIdRepository: DeleteApiTokensByUserIdRepository,
+    private readonly deletePasswordResetTokensByUserIdRepository: DeletePasswordResetTokensByUserIdRepository,
+    private readonly deleteEmailVerificationTokensByUserIdRepository: DeleteEmailVerificationTokensByUserIdRepository,
+    private readonly deletePendingInvitationsByEmailRepository: DeletePendingInvitationsByEmailRepository,
+    private readonly clearLoginAttemptsRepository: ClearLoginAttemptsRepository,
+    private readonly deleteUserRepository: DeleteUserRepository,
+    private readonly createAuditLogEntryRepository: CreateAuditLogEntryRepository,
+    private readonly getUserExportsByUserIdRepository: GetUserExportsByUserIdRepository,
+    private readonly exportStorage: ExportStorage,
+    private readonly deleteUserExportsRepository: DeleteUserExportsRepository
+  ) {}
+
+  async execute(
+    userId: PurgeUserInterface.Request
+  ): Promise<PurgeUserInterface.Response> {
+    const user = await this.getUserByIdRepository.getUserById(userId);
+
+    if (!user) {
+      return new UserNotFoundError();
+    }
+
+    await Promise.all(
+      user.workspaces.map(({ workspaceId }) =>
+        this.leaveWorkspace(userId, workspaceId)
+      )
+    );
+
+    await this.removeUserFromFavoritesRepository.removeUserFromFavorites(
+      userId
+    );
+    await this.deletePageGuestsByUserIdRepository.deletePageGuestsByUserId(
+      userId
+    );
+    await this.deleteIdentitiesByUserIdRepository.deleteIdentitiesByUserId(
+      userId
+    );
+    await this.deleteMfaByUserIdRepository.deleteMfaByUserId(userId);
+    await this.deleteTokensByUserIdRepository.deleteTokensByUserId(userId);
+    await this.deleteApiTokensByUserIdRepository.deleteApiTokensByUserId(
+      userId
+    );
+    await this.deletePasswordResetTokensByUserIdRepository.deletePasswordResetTokensByUserId(
+      userId
+    );
+    await this.deleteEmailVerificationTokensByUserIdRepository.deleteEmailVerificationTokensByUserId(
+      userId
+    );
+    // invitations and sign-in failures are keyed by the email, not the id
+    const email = user.email.trim().toLowerCase();
+    await this.deletePendingInvitationsByEmailRepository.deletePendingInvitationsByEmail(
+      email
+    );
+    await this.clearLoginAttemptsRepository.clearLoginAttempts(
+      `email:${email}`
+    );
+    await this.deleteExports(userId);
+
+    // audit entries outlive the account, they are never rewritten
+    await this.deleteUserRepository.deleteUser(userId);
+  }
+
+  // an export holds a copy of everything the account could read
+  private async deleteExports(userId: string): Promise<void> {
+    const userExports =
+      await this.getUserExportsByUserIdRepository.getUserExportsByUserId(
+        userId
+      );
+
+    await Promise.all(
+      userExports.map(userExport => this.exportStorage.remove(userExport.id))
+    );
+    await this.deleteUserExportsRepository.deleteUserExports(
+      userExports.map(userExport => userExport.id)
+    );
+  }
+
+  private async leaveWorkspace(
+    userId: string,
+    workspaceId: string
+  ): Promise<void> {
+    const workspace = await this.getWorkspaceByIdRepository.getWorkspaceById(
+      workspaceId
+    );
+
+    if (!workspace) {
+      return;
+    }
+
+    const remainingMembers = workspace.members.filter(
+      member => member.userId !== userId
+    );
+
+    if (remainingMembers.length === 0) {
+      await this.deletePagesByWorkspaceIdRepository.deletePagesByWorkspaceId(
+        workspaceId
+      );
+      await this.deleteWorkspaceRepository.deleteWorkspace(workspaceId);
+
+      await this.createAuditLogEntryRepository.createAuditLogEntry({
+        action: 'workspace.delete',
+        actorId: userId,
+        targetType: 'workspace',
+        targetId: workspaceId,
+        workspaceId,
+      });
+      return;
+    }
+
+    if (!remainingMembers.some(member => member.role === 'owner')) {
+      const successor = SUCCESSOR_ROLES.map(role =>
+        remainingMembers.find(member => member.role === role)
+      ).find(Boolean)!;
+
+      await this.updateMemberRoleByWorkspaceIdRepository.updateMemberRoleByWorkspaceId(
+        { workspaceId, memberId: successor.userId, role: 'owner' }
+      );
+
+      await this.createAuditLogEntryRepository.createAuditLogEntry({
+        action: 'workspace.member_role_update',
+        actorId: userId,
+        targetType: 'user',
+        targetId: successor.userId,
+        workspaceId,
+      });
+    }
+
+    await this.removeMemberByWorkspaceIdRepository.removeMemberByWorkspaceId({
+      workspaceId,
+      memberId: userId,
+    });
+
+    await this.createAuditLogEntryRepository.createAuditLogEntry({
+      action: 'workspace.member_remove',
+      actorId: userId,
+      targetType: 'user',
+      targetId: userId,
+      workspaceId,
+    });
+  }
+}
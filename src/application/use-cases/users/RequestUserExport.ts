@@ -0,0 +1,15 @@
+import { CreateUserExportRepository } from '@application/interfaces/repositories/userExports/createUserExportRepository';
+import { RequestUserExportInterface } from '@application/interfaces/use-cases/users/RequestUserExportInterface';
+
+export class RequestUserExport implements RequestUserExportInterface {
+  constructor(
+    private readonly createUserExportRepository: CreateUserExportRepository
+  ) {}
+
+  async execute(
+    userId: RequestUserExportInterface.Request
+  ): Promise<RequestUserExportInterface.Response> {
+    // the archive itself is built in the background, see GenerateUserExport
+    return this.createUserExportRepository.createUserExport(userId);
+  }
+}
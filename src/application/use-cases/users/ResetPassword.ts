@@ -0,0 +1,51 @@
+import { InvalidTokenError } from '@application/errors/InvalidTokenError';
+import { CreateAuditLogEntryRepository } from '@application/interfaces/repositories/auditLogs/createAuditLogEntryRepository';
+import { HashGenerator } from '@application/interfaces/cryptography/HashGenerator';
+import { ConsumePasswordResetTokenRepository } from '@application/interfaces/repositories/tokens/consumePasswordResetTokenRepository';
+import { DeleteTokensByUserIdRepository } from '@application/interfaces/repositories/tokens/deleteTokensByUserIdRepository';
+import { UpdatePasswordRepository } from '@application/interfaces/repositories/users/updatePasswordRepository';
+import { ResetPasswordInterface } from '@application/interfaces/use-cases/users/ResetPasswordInterface';
+
+export class ResetPassword implements ResetPasswordInterface {
+  constructor(
+    private readonly consumePasswordResetTokenRepository: ConsumePasswordResetTokenRepository,
+    private readonly hashGenerator: HashGenerator,
+    private readonly updatePasswordRepository: UpdatePasswordRepository,
+    private readonly deleteTokensByUserIdRepository: DeleteTokensByUserIdRepository,
+    private readonly createAuditLogEntryRepository: CreateAuditLogEntryRepository
+  ) {}
+
+  async execute(
+    params: ResetPasswordInterface.Request
+  ): Promise<ResetPasswordInterface.Response> {
+    const { token, password, ip } = params;
+
+    const resetToken =
+      await this.consumePasswordResetTokenRepository.consumePasswordResetToken(
+        token
+      );
+
+    if (!resetToken || resetToken.expiresAt.getTime() < Date.now()) {
+      return new InvalidTokenError();
+    }
+
+    const hashedPassword = await this.hashGenerator.hash(password);
+
+    await this.updatePasswordRepository.updatePassword({
+      userId: resetToken.userId,
+      password: hashedPassword,
+    });
+
+    await this.deleteTokensByUserIdRepository.deleteTokensByUserId(
+      resetToken.userId
+    );
+
+    await this.createAuditLogEntryRepository.createAuditLogEntry({
+      action: 'user.sign_out_everywhere',
+      actorId: resetToken.userId,
+      targetType: 'user',
+      targetId: resetToken.userId,
+      ip,
+    });
+  }
+}
@@ -0,0 +1,32 @@
+import { CreateAuditLogEntryRepository } from '@application/interfaces/repositories/auditLogs/createAuditLogEntryRepository';
+import { CancelUserDeletionRepository } from '@application/interfaces/repositories/users/cancelUserDeletionRepository';
+import { RestoreUserInterface } from '@application/interfaces/use-cases/users/RestoreUserInterface';
+
+export class RestoreUser implements RestoreUserInterface {
+  constructor(
+    private readonly cancelUserDeletionRepository: CancelUserDeletionRepository,
+    private readonly createAuditLogEntryRepository: CreateAuditLogEntryRepository
+  ) {}
+
+  async execute(
+    params: RestoreUserInterface.Request
+  ): Promise<RestoreUserInterface.Response> {
+    const { userId, actorId, ip } = params;
+
+    const isCancelled =
+      await this.cancelUserDeletionRepository.cancelUserDeletion(userId);
+
+    // restoring an account that was never on its way out changes nothing
+    if (!isCancelled) {
+      return;
+    }
+
+    await this.createAuditLogEntryRepository.createAuditLogEntry({
+      action: 'user.restore',
+      actorId,
+      targetType: 'user',
+      targetId: userId,
+      ip,
+    });
+  }
+}
@@ -0,0 +1,38 @@
+import { SessionNotFoundError } from '@application/errors/SessionNotFoundError';
+import { CreateAuditLogEntryRepository } from '@application/interfaces/repositories/auditLogs/createAuditLogEntryRepository';
+import { DeleteTokensByFamilyRepository } from '@application/interfaces/repositories/tokens/deleteTokensByFamilyRepository';
+import { GetSessionsByUserIdRepository } from '@application/interfaces/repositories/tokens/getSessionsByUserIdRepository';
+import { RevokeSessionInterface } from '@application/interfaces/use-cases/users/RevokeSessionInterface';
+
+export class RevokeSession implements RevokeSessionInterface {
+  constructor(
+    private readonly getSessionsByUserIdRepository: GetSessionsByUserIdRepository,
+    private readonly deleteTokensByFamilyRepository: DeleteTokensByFamilyRepository,
+    private readonly createAuditLogEntryRepository: CreateAuditLogEntryRepository
+  ) {}
+
+  async execute(
+    params: RevokeSessionInterface.Request
+  ): Promise<RevokeSessionInterface.Response> {
+    const { userId, sessionId, ip } = params;
+
+    const sessions =
+      await this.getSessionsByUserIdRepository.getSessionsByUserId(userId);
+
+    const verifiedSession = sessions.find(session => session.id === sessionId);
+
+    if (!verifiedSession) {
+      return new SessionNotFoundError();
+    }
+
+    await this.deleteTokensByFamilyRepository.deleteTokensByFamily(sessionId);
+
+    await this.createAuditLogEntryRepository.createAuditLogEntry({
+      action: 'session.revoke',
+      actorId: userId,
+      targetType: 'session',
+      targetId: sessionId,
+      ip,
+    });
+  }
+}
@@ -0,0 +1,40 @@
+import { TokenGenerator } from '@application/interfaces/cryptography/TokenGenerator';
+import { MailSender } from '@application/interfaces/mail/MailSender';
+import { CreateEmailVerificationTokenRepository } from '@application/interfaces/repositories/tokens/createEmailVerificationTokenRepository';
+import { SendEmailVerificationInterface } from '@application/interfaces/use-cases/users/SendEmailVerificationInterface';
+
+export class SendEmailVerification implements SendEmailVerificationInterface {
+  constructor(
+    private readonly createEmailVerificationTokenRepository: CreateEmailVerificationTokenRepository,
+    private readonly tokenGenerator: TokenGenerator,
+    private readonly mailSender: MailSender,
+    private readonly appUrl: string,
+    private readonly emailVerificationTtlHours: number
+  ) {}
+
+  async execute(
+    params: SendEmailVerificationInterface.Request
+  ): Promise<SendEmailVerificationInterface.Response> {
+    const { userId, email } = params;
+
+    const token = await this.tokenGenerator.generateToken();
+    const expiresAt = new Date(
+      Date.now() + this.emailVerificationTtlHours * 60 * 60 * 1000
+    );
+
+    await this.createEmailVerificationTokenRepository.createEmailVerificationToken(
+      {
+        token,
+        userId,
+        email,
+        expiresAt,
+      }
+    );
+
+    await this.mailSender.send({
+      to: email,
+      subject: 'Verify your email address',
+      text: `Open ${this.appUrl}/verify-email/${token} to verify your email address. The link expires in ${this.emailVerificationTtlHours} hours.`,
+    });
+  }
+}
@@ -1,46 +1,151 @@
+import { AccountLockedError } from '@application/errors/AccountLockedError';
 import { InvalidPasswordError } from '@application/errors/InvalidPasswordError';
 import { InvalidUserError } from '@application/errors/InvalidUserError';
 import { HashComparer } from '@application/interfaces/cryptography/HashCompare';
 import { JWTGenerator } from '@application/interfaces/cryptography/JWTGenerator';
+import { TokenGenerator } from '@application/interfaces/cryptography/TokenGenerator';
+import { CreateAuditLogEntryRepository } from '@application/interfaces/repositories/auditLogs/createAuditLogEntryRepository';
+import { ClearLoginAttemptsRepository } from '@application/interfaces/repositories/loginAttempts/clearLoginAttemptsRepository';
+import {
+  GetLoginAttemptsRepository,
+  LoginAttemptType,
+} from '@application/interfaces/repositories/loginAttempts/getLoginAttemptsRepository';
+import { RecordFailedLoginRepository } from '@application/interfaces/repositories/loginAttempts/recordFailedLoginRepository';
+import { CreateMfaChallengeRepository } from '@application/interfaces/repositories/mfa/createMfaChallengeRepository';
+import { GetMfaByUserIdRepository } from '@application/interfaces/repositories/mfa/getMfaByUserIdRepository';
 import { CreateTokenRepository } from '@application/interfaces/repositories/tokens/createTokenRepository';
 import { LoadUserByEmailRepository } from '@application/interfaces/repositories/users/loadUserByEmailRepository';
 import { SignInInterface } from '@application/interfaces/use-cases/users/SignInInterface';
 
+// failures answered without any delay before the backoff kicks in
+const FREE_FAILURES = 3;
+const MAX_ACCOUNT_FAILURES = 10;
+// an address is shared by many people, so it gets more room than an account
+const MAX_IP_FAILURES = 50;
+
 export class SignIn implements SignInInterface {
   constructor(
     private readonly loadUserByEmailRepository: LoadUserByEmailRepository,
     private readonly createTokenRepository: CreateTokenRepository,
     private readonly hashComparer: HashComparer,
-    private readonly jwtGenerator: JWTGenerator
+    private readonly jwtGenerator: JWTGenerator,
+    private readonly getMfaByUserIdRepository: GetMfaByUserIdRepository,
+    private readonly createMfaChallengeRepository: CreateMfaChallengeRepository,
+    private readonly tokenGenerator: TokenGenerator,
+    private readonly mfaChallengeTtlMinutes: number,
+    private readonly getLoginAttemptsRepository: GetLoginAttemptsRepository,
+    private readonly recordFailedLoginRepository: RecordFailedLoginRepository,
+    private readonly clearLoginAttemptsRepository: ClearLoginAttemptsRepository,
+    private readonly loginLockoutMinutes: number,
+    private readonly createAuditLogEntryRepository: CreateAuditLogEntryRepository,
+    private readonly dummyPasswordHash: string
   ) {}
 
   async execute(
     credentials: SignInInterface.Request
   ): Promise<SignInInterface.Response> {
-    const { email, password } = credentials;
-    const user = await this.loadUserByEmailRepository.loadUserByEmail(email);
+    const { email, password, userAgent, ip } = credentials;
+    const accountKey = `email:${email.trim().toLowerCase()}`;
+    const keys = ip ? [accountKey, `ip:${ip}`] : [accountKey];
 
-    if (!user) {
-      return new InvalidUserError();
+    const attempts = await this.getLoginAttemptsRepository.getLoginAttempts(
+      keys
+    );
+
+    // locked out callers are turned away before any hash is compared
+    if (attempts.some(attempt => this.isLocked(attempt))) {
+      return new AccountLockedError();
     }
 
+    const user = await this.loadUserByEmailRepository.loadUserByEmail(email);
+
+    // unknown emails still pay for a comparison so timing does not tell them apart
     const isPasswordValid = await this.hashComparer.compare(
       password,
-      user.password
+      user ? user.password : this.dummyPasswordHash
     );
 
+    if (!user) {
+      await this.recordFailure(keys);
+      return new InvalidUserError();
+    }
+
     if (!isPasswordValid) {
+      await this.recordFailure(keys);
       return new InvalidPasswordError();
     }
 
+    const mfa = await this.getMfaByUserIdRepository.getMfaByUserId(user.id);
+
+    // no tokens are issued until the second factor is verified, which is
+    // also where the failed attempts get cleared
+    if (mfa?.enabled) {
+      const mfaToken = await this.tokenGenerator.generateToken();
+
+      await this.createMfaChallengeRepository.createMfaChallenge({
+        token: mfaToken,
+        userId: user.id,
+        expiresAt: new Date(
+          Date.now() + this.mfaChallengeTtlMinutes * 60 * 1000
+        ),
+      });
+
+      return { mfaToken };
+    }
+
+    await this.clearLoginAttemptsRepository.clearLoginAttempts(accountKey);
+
     const accessToken = await this.jwtGenerator.generateAccessToken(user.id);
     const refreshToken = await this.jwtGenerator.generateRefreshToken(user.id);
 
-    await this.createTokenRepository.createToken(refreshToken);
+    await this.createTokenRepository.createToken({
+      token: refreshToken,
+      userId: user.id,
+      userAgent,
+      ip,
+    });
+
+    await this.createAuditLogEntryRepository.createAuditLogEntry({
+      action: 'user.sign_in',
+      actorId: user.id,
+      targetType: 'user',
+      targetId: user.id,
+      ip,
+    });
 
     return {
       accessToken,
       refreshToken,
     };
   }
+
+  private isLocked(attempt: LoginAttemptType): boolean {
+    const { key, failures, lastFailureAt } = attempt;
+    const lockoutSeconds = this.loginLockoutMinutes * 60;
+    const maxFailures = key.startsWith('ip:')
+      ? MAX_IP_FAILURES
+      : MAX_ACCOUNT_FAILURES;
+
+    let waitSeconds = 0;
+
+    if (failures >= maxFailures) {
+      waitSeconds = lockoutSeconds;
+    } else if (failures > FREE_FAILURES) {
+      waitSeconds = Math.min(2 ** (failures - FREE_FAILURES), lockoutSeconds);
+    }
+
+    return lastFailureAt.getTime() + waitSeconds * 1000 > Date.now();
+  }
+
+  private async recordFailure(keys: string[]): Promise<void> {
+    const expiresAt = new Date(
+      Date.now() + this.loginLockoutMinutes * 60 * 1000
+    );
+
+    await Promise.all(
+      keys.map(key =>
+        this.recordFailedLoginRepository.recordFailedLogin({ key, expiresAt })
+      )
+    );
+  }
 }
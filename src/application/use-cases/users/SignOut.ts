@@ -1,12 +1,33 @@
+import { CreateAuditLogEntryRepository } from '@application/interfaces/repositories/auditLogs/createAuditLogEntryRepository';
 import { DeleteTokenRepository } from '@application/interfaces/repositories/tokens/deleteTokenRepository';
+import { GetTokenRepository } from '@application/interfaces/repositories/tokens/getTokenRepository';
 import { SignOutInterface } from '@application/interfaces/use-cases/users/SignOutInterface';
 
 export class SignOut implements SignOutInterface {
-  constructor(private readonly deleteTokenRepository: DeleteTokenRepository) {}
+  constructor(
+    private readonly getTokenRepository: GetTokenRepository,
+    private readonly deleteTokenRepository: DeleteTokenRepository,
+    private readonly createAuditLogEntryRepository: CreateAuditLogEntryRepository
+  ) {}
 
   async execute(
-    token: SignOutInterface.Request
+    params: SignOutInterface.Request
   ): Promise<SignOutInterface.Response> {
+    const { token, ip } = params;
+
+    const storedToken = await this.getTokenRepository.getToken(token);
+
     await this.deleteTokenRepository.deleteToken(token);
+
+    // signing out with an unknown token changes nothing worth recording
+    if (storedToken) {
+      await this.createAuditLogEntryRepository.createAuditLogEntry({
+        action: 'user.sign_out',
+        actorId: storedToken.userId,
+        targetType: 'user',
+        targetId: storedToken.userId,
+        ip,
+      });
+    }
   }
 }
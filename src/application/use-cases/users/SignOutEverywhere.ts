@@ -0,0 +1,26 @@
+import { CreateAuditLogEntryRepository } from '@application/interfaces/repositories/auditLogs/createAuditLogEntryRepository';
+import { DeleteTokensByUserIdRepository } from '@application/interfaces/repositories/tokens/deleteTokensByUserIdRepository';
+import { SignOutEverywhereInterface } from '@application/interfaces/use-cases/users/SignOutEverywhereInterface';
+
+export class SignOutEverywhere implements SignOutEverywhereInterface {
+  constructor(
+    private readonly deleteTokensByUserIdRepository: DeleteTokensByUserIdRepository,
+    private readonly createAuditLogEntryRepository: CreateAuditLogEntryRepository
+  ) {}
+
+  async execute(
+    params: SignOutEverywhereInterface.Request
+  ): Promise<SignOutEverywhereInterface.Response> {
+    const { userId, ip } = params;
+
+    await this.deleteTokensByUserIdRepository.deleteTokensByUserId(userId);
+
+    await this.createAuditLogEntryRepository.createAuditLogEntry({
+      action: 'user.sign_out_everywhere',
+      actorId: userId,
+      targetType: 'user',
+      targetId: userId,
+      ip,
+    });
+  }
+}
@@ -28,6 +28,7 @@ export class SignUp implements SignUpInterface {
     const user = this.createUserRepository.createUser({
       ...userData,
       password: hashedPassword,
+      emailVerified: false,
     });
 
     return user;
@@ -0,0 +1,52 @@
+import { EmailInUseError } from '@application/errors/EmailInUseError';
+import { HashGenerator } from '@application/interfaces/cryptography/HashGenerator';
+import { TokenGenerator } from '@application/interfaces/cryptography/TokenGenerator';
+import { CreateIdentityRepository } from '@application/interfaces/repositories/identities/createIdentityRepository';
+import { CreateUserRepository } from '@application/interfaces/repositories/users/createUserRepository';
+import { LoadUserByEmailRepository } from '@application/interfaces/repositories/users/loadUserByEmailRepository';
+import { SignUpWithIdentityInterface } from '@application/interfaces/use-cases/users/SignUpWithIdentityInterface';
+
+export class SignUpWithIdentity implements SignUpWithIdentityInterface {
+  constructor(
+    private readonly loadUserByEmailRepository: LoadUserByEmailRepository,
+    private readonly createUserRepository: CreateUserRepository,
+    private readonly createIdentityRepository: CreateIdentityRepository,
+    private readonly tokenGenerator: TokenGenerator,
+    private readonly hashGenerator: HashGenerator
+  ) {}
+
+  async execute(
+    params: SignUpWithIdentityInterface.Request
+  ): Promise<SignUpWithIdentityInterface.Response> {
+    const { provider, identity, workspaces } = params;
+    const existingUser = await this.loadUserByEmailRepository.loadUserByEmail(
+      identity.email
+    );
+
+    if (existingUser) {
+      return new EmailInUseError();
+    }
+
+    // nobody knows this password, a local one can be set through a reset
+    const password = await this.tokenGenerator.generateToken();
+    const hashedPassword = await this.hashGenerator.hash(password);
+
+    const userId = await this.createUserRepository.createUser({
+      name: identity.name,
+      email: identity.email,
+      emailVerified: true,
+      password: hashedPassword,
+      isDarkMode: false,
+      profilePicture: { url: identity.picture || '' },
+      workspaces,
+    });
+
+    await this.createIdentityRepository.createIdentity({
+      provider,
+      subject: identity.subject,
+      userId,
+    });
+
+    return userId;
+  }
+}
@@ -0,0 +1,45 @@
+import { IdentityProviderNotFoundError } from '@application/errors/IdentityProviderNotFoundError';
+import { TokenGenerator } from '@application/interfaces/cryptography/TokenGenerator';
+import { IdentityProviders } from '@application/interfaces/identity/IdentityProvider';
+import { CreateOidcStateRepository } from '@application/interfaces/repositories/identities/createOidcStateRepository';
+import { StartOidcSignInInterface } from '@application/interfaces/use-cases/users/StartOidcSignInInterface';
+
+export class StartOidcSignIn implements StartOidcSignInInterface {
+  constructor(
+    private readonly identityProviders: IdentityProviders,
+    private readonly tokenGenerator: TokenGenerator,
+    private readonly createOidcStateRepository: CreateOidcStateRepository,
+    private readonly stateTtlMinutes: number
+  ) {}
+
+  async execute(
+    provider: StartOidcSignInInterface.Request
+  ): Promise<StartOidcSignInInterface.Response> {
+    const identityProvider = this.identityProviders.get(provider);
+
+    if (!identityProvider) {
+      return new IdentityProviderNotFoundError();
+    }
+
+    const state = await this.tokenGenerator.generateToken();
+    const nonce = await this.tokenGenerator.generateToken();
+    const codeVerifier = await this.tokenGenerator.generateToken();
+
+    // the verifier never leaves the server, only its challenge is sent out
+    await this.createOidcStateRepository.createOidcState({
+      state,
+      provider,
+      nonce,
+      codeVerifier,
+      expiresAt: new Date(Date.now() + this.stateTtlMinutes * 60 * 1000),
+    });
+
+    const authorizationUrl = await identityProvider.getAuthorizationUrl({
+      state,
+      nonce,
+      codeVerifier,
+    });
+
+    return { authorizationUrl };
+  }
+}
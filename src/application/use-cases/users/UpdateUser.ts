@@ -19,9 +19,12 @@ export class UpdateUser implements UpdateUserInterface {
       return new UserNotFoundError();
     }
 
+    // a new address has to be verified again before it can be trusted
+    const emailChanged = !!userData.email && userData.email !== user.email;
+
     const updated = await this.updateUserRepository.updateUser({
       userId,
-      userData,
+      userData: emailChanged ? { ...userData, emailVerified: false } : userData,
     });
 
     return updated;
@@ -0,0 +1,21 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { UserAuthorizationInterface } from '@application/interfaces/use-cases/users/UserAuthorizationInterface';
+
+export class UserAuthorization implements UserAuthorizationInterface {
+  constructor(private readonly adminUserIds: string[]) {}
+
+  async execute(
+    params: UserAuthorizationInterface.Request
+  ): Promise<UserAuthorizationInterface.Response> {
+    const { userId, targetUserId } = params;
+
+    const isSelf = userId === targetUserId;
+    const isAdmin = this.adminUserIds.includes(userId);
+
+    if (!isSelf && !isAdmin) {
+      return new ForbiddenError();
+    }
+
+    return targetUserId;
+  }
+}
@@ -0,0 +1,37 @@
+import { InvalidTokenError } from '@application/errors/InvalidTokenError';
+import { ConsumeEmailVerificationTokenRepository } from '@application/interfaces/repositories/tokens/consumeEmailVerificationTokenRepository';
+import { VerifyEmailRepository } from '@application/interfaces/repositories/users/verifyEmailRepository';
+import { VerifyEmailInterface } from '@application/interfaces/use-cases/users/VerifyEmailInterface';
+
+export class VerifyEmail implements VerifyEmailInterface {
+  constructor(
+    private readonly consumeEmailVerificationTokenRepository: ConsumeEmailVerificationTokenRepository,
+    private readonly verifyEmailRepository: VerifyEmailRepository
+  ) {}
+
+  async execute(
+    token: VerifyEmailInterface.Request
+  ): Promise<VerifyEmailInterface.Response> {
+    const verificationToken =
+      await this.consumeEmailVerificationTokenRepository.consumeEmailVerificationToken(
+        token
+      );
+
+    if (
+      !verificationToken ||
+      verificationToken.expiresAt.getTime() < Date.now()
+    ) {
+      return new InvalidTokenError();
+    }
+
+    // the link only verifies the address it was sent to
+    const verified = await this.verifyEmailRepository.verifyEmail({
+      userId: verificationToken.userId,
+      email: verificationToken.email,
+    });
+
+    if (!verified) {
+      return new InvalidTokenError();
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import { InvalidMfaCodeError } from '@application/errors/InvalidMfaCodeError';
+import { InvalidTokenError } from '@application/errors/InvalidTokenError';
+import { HashComparer } from '@application/interfaces/cryptography/HashCompare';
+import { JWTGenerator } from '@application/interfaces/cryptography/JWTGenerator';
+import { TotpVerifier } from '@application/interfaces/cryptography/TotpVerifier';
+import { CreateAuditLogEntryRepository } from '@application/interfaces/repositories/auditLogs/createAuditLogEntryRepository';
+import { ClearLoginAttemptsRepository } from '@application/interfaces/repositories/loginAttempts/clearLoginAttemptsRepository';
+import { RecordFailedLoginRepository } from '@application/interfaces/repositories/loginAttempts/recordFailedLoginRepository';
+import { AttemptMfaChallengeRepository } from '@application/interfaces/repositories/mfa/attemptMfaChallengeRepository';
+import { DeleteMfaChallengeRepository } from '@application/interfaces/repositories/mfa/deleteMfaChallengeRepository';
+import {
+  GetMfaByUserIdRepository,
+  MfaType,
+} from '@application/interfaces/repositories/mfa/getMfaByUserIdRepository';
+import { RemoveRecoveryCodeRepository } from '@application/interfaces/repositories/mfa/removeRecoveryCodeRepository';
+import { UseMfaTimeStepRepository } from '@application/interfaces/repositories/mfa/useMfaTimeStepRepository';
+import { CreateTokenRepository } from '@application/interfaces/repositories/tokens/createTokenRepository';
+import { GetUserByIdRepository } from '@application/interfaces/repositories/users/getUserByIdRepository';
+import { VerifyMfaInterface } from '@application/interfaces/use-cases/users/VerifyMfaInterface';
+
+// a challenge is dropped after this many codes, so they cannot be guessed
+const MAX_ATTEMPTS = 5;
+
+export class VerifyMfa implements VerifyMfaInterface {
+  constructor(
+    private readonly attemptMfaChallengeRepository: AttemptMfaChallengeRepository,
+    private readonly deleteMfaChallengeRepository: DeleteMfaChallengeRepository,
+    private readonly getMfaByUserIdRepository: GetMfaByUserIdRepository,
+    private readonly totpVerifier: TotpVerifier,
+    private readonly useMfaTimeStepRepository: UseMfaTimeStepRepository,
+    private readonly hashComparer: HashComparer,
+    private readonly removeRecoveryCodeRepository: RemoveRecoveryCodeRepository,
+    private readonly jwtGenerator: JWTGenerator,
+    private readonly createTokenRepository: CreateTokenRepository,
+    private readonly createAuditLogEntryRepository: CreateAuditLogEntryRepository,
+    private readonly getUserByIdRepository: GetUserByIdRepository,
+    private readonly recordFailedLoginRepository: RecordFailedLoginRepository,
+    private readonly clearLoginAttemptsRepository: ClearLoginAttemptsRepository,
+    private readonly loginLockoutMinutes: number
+  ) {}
+
+  async execute(
+    params: VerifyMfaInterface.Request
+  ): Promise<VerifyMfaInterface.Response> {
+    const { mfaToken, code, userAgent, ip } = params;
+
+    const challenge =
+      await this.attemptMfaChallengeRepository.attemptMfaChallenge(mfaToken);
+
+    if (
+      !challenge ||
+      challenge.attempts > MAX_ATTEMPTS ||
+      challenge.expiresAt.getTime() < Date.now()
+    ) {
+      return new InvalidTokenError();
+    }
+
+    const { userId } = challenge;
+    const mfa = await this.getMfaByUserIdRepository.getMfaByUserId(userId);
+    const user = await this.getUserByIdRepository.getUserById(userId);
+
+    if (!mfa?.enabled || !user) {
+      return new InvalidTokenError();
+    }
+
+    // wrong codes count against the same account as wrong passwords
+    const accountKey = `email:${user.email.trim().toLowerCase()}`;
+
+    const isCodeValid = /^\d{6}$/.test(code)
+      ? await this.useTotpCode(mfa, code)
+      : await this.useRecoveryCode(mfa, code);
+
+    if (!isCodeValid) {
+      await this.recordFailure(ip ? [accountKey, `ip:${ip}`] : [accountKey]);
+      return new InvalidMfaCodeError();
+    }
+
+    await this.deleteMfaChallengeRepository.deleteMfaChallenge(mfaToken);
+    await this.clearLoginAttemptsRepository.clearLoginAttempts(accountKey);
+
+    const accessToken = await this.jwtGenerator.generateAccessToken(userId);
+    const refreshToken = await this.jwtGenerator.generateRefreshToken(userId);
+
+    await this.createTokenRepository.createToken({
+      token: refreshToken,
+      userId,
+      userAgent,
+      ip,
+    });
+
+    await this.createAuditLogEntryRepository.createAuditLogEntry({
+      action: 'user.sign_in',
+      actorId: userId,
+      targetType: 'user',
+      targetId: userId,
+      ip,
+    });
+
+    return {
+      accessToken,
+      refreshToken,
+    };
+  }
+
+  private async recordFailure(keys: string[]): Promise<void> {
+    const expiresAt = new Date(
+      Date.now() + this.loginLockoutMinutes * 60 * 1000
+    );
+
+    await Promise.all(
+      keys.map(key =>
+        this.recordFailedLoginRepository.recordFailedLogin({ key, expiresAt })
+      )
+    );
+  }
+
+  private async useTotpCode(mfa: MfaType, code: string): Promise<boolean> {
+    const timeStep = await this.totpVerifier.verify(mfa.secret, code);
+
+    if (timeStep === null) {
+      return false;
+    }
+
+    // a code is only good once, even while it is still current
+    return this.useMfaTimeStepRepository.useMfaTimeStep({
+      userId: mfa.userId,
+      timeStep,
+    });
+  }
+
+  private async useRecoveryCode(mfa: MfaType, code: string): Promise<boolean> {
+    const matches = await Promise.all(
+      mfa.recoveryCodes.map(recoveryCode =>
+        this.hashComparer.compare(code, recoveryCode)
+      )
+    );
+    const index = matches.indexOf(true);
+
+    if (index === -1) {
+      return false;
+    }
+
+    return this.removeRecoveryCodeRepository.removeRecoveryCode({
+      userId: mfa.userId,
+      recoveryCode: mfa.recoveryCodes[index],
+    });
+  }
+}
@@ -1,4 +1,5 @@
 import { AddMemberByWorkspaceIdInterface } from '@application/interfaces/use-cases/workspaces/AddMemberByWorkspaceIdInterface';
+import { CreateAuditLogEntryRepository } from '@application/interfaces/repositories/auditLogs/createAuditLogEntryRepository';
 import { GetWorkspaceByIdRepository } from '@application/interfaces/repositories/workspaces/getWorkspaceByIdRepository';
 import { AddMemberByWorkspaceIdRepository } from '@application/interfaces/repositories/workspaces/addMemberByWorkspaceIdRepository';
 import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
@@ -6,13 +7,14 @@ import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundErr
 export class AddMemberByWorkspaceId implements AddMemberByWorkspaceIdInterface {
   constructor(
     private readonly getWorkspaceByIdRepository: GetWorkspaceByIdRepository,
-    private readonly addMemberByWorkspaceIdRepository: AddMemberByWorkspaceIdRepository
+    private readonly addMemberByWorkspaceIdRepository: AddMemberByWorkspaceIdRepository,
+    private readonly createAuditLogEntryRepository: CreateAuditLogEntryRepository
   ) {}
 
   async execute(
     params: AddMemberByWorkspaceIdInterface.Request
   ): Promise<AddMemberByWorkspaceIdInterface.Response> {
-    const { workspaceId, memberId } = params;
+    const { workspaceId, memberId, role, actorId, ip } = params;
 
     const workspace = await this.getWorkspaceByIdRepository.getWorkspaceById(
       workspaceId
@@ -25,6 +27,16 @@ export class AddMemberByWorkspaceId implements AddMemberByWorkspaceIdInterface {
     await this.addMemberByWorkspaceIdRepository.addMemberByWorkspaceId({
       workspaceId,
       memberId,
+      role,
+    });
+
+    await this.createAuditLogEntryRepository.createAuditLogEntry({
+      action: 'workspace.member_add',
+      actorId,
+      targetType: 'user',
+      targetId: memberId,
+      workspaceId,
+      ip,
     });
   }
 }
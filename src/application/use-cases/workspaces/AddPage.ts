@@ -1,12 +1,15 @@
 import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { PositionGenerator } from '@application/interfaces/ordering/PositionGenerator';
 import { AddPageRepository } from '@application/interfaces/repositories/workspaces/addPageRepository';
 import { GetWorkspaceByIdRepository } from '@application/interfaces/repositories/workspaces/getWorkspaceByIdRepository';
 import { AddPageInterface } from '@application/interfaces/use-cases/workspaces/AddPageInterface';
+import { PageType } from '@domain/entities/Workspace';
 
 export class AddPage implements AddPageInterface {
   constructor(
     private readonly getWorkspaceByIdRepository: GetWorkspaceByIdRepository,
-    private readonly addPageRepository: AddPageRepository
+    private readonly addPageRepository: AddPageRepository,
+    private readonly positionGenerator: PositionGenerator
   ) {}
 
   async execute(
@@ -24,9 +27,26 @@ export class AddPage implements AddPageInterface {
 
     const updated = await this.addPageRepository.addPage({
       workspaceId,
-      pageData,
+      pageData: {
+        ...pageData,
+        // new pages go below their last sibling
+        position: this.positionGenerator.generatePosition(
+          AddPage.getLastPosition(
+            workspace.pages.filter(page => page.parentId === pageData.parentId)
+          ),
+          null
+        ),
+      },
     });
 
     return updated;
   }
+
+  private static getLastPosition(pages: PageType[]): string | null {
+    return pages.reduce<string | null>(
+      (last, page) =>
+        last === null || page.position > last ? page.position : last,
+      null
+    );
+  }
 }
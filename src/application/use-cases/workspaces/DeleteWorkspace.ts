@@ -1,14 +1,38 @@
+import { CreateAuditLogEntryRepository } from '@application/interfaces/repositories/auditLogs/createAuditLogEntryRepository';
 import { DeleteWorkspaceRepository } from '@application/interfaces/repositories/workspaces/deleteWorkspaceRepository';
+import { GetWorkspaceByIdRepository } from '@application/interfaces/repositories/workspaces/getWorkspaceByIdRepository';
 import { DeleteWorkspaceInterface } from '@application/interfaces/use-cases/workspaces/DeleteWorkspaceInterface';
 
 export class DeleteWorkspace implements DeleteWorkspaceInterface {
   constructor(
-    private readonly deleteWorkspaceRepository: DeleteWorkspaceRepository
+    private readonly getWorkspaceByIdRepository: GetWorkspaceByIdRepository,
+    private readonly deleteWorkspaceRepository: DeleteWorkspaceRepository,
+    private readonly createAuditLogEntryRepository: CreateAuditLogEntryRepository
   ) {}
 
   async execute(
-    workspaceId: DeleteWorkspaceRepository.Request
-  ): Promise<DeleteWorkspaceRepository.Response> {
+    params: DeleteWorkspaceInterface.Request
+  ): Promise<DeleteWorkspaceInterface.Response> {
+    const { workspaceId, actorId, ip } = params;
+
+    // the owners are read first, the workspace log goes away with the members
+    const workspace = await this.getWorkspaceByIdRepository.getWorkspaceById(
+      workspaceId
+    );
+    const ownerIds = (workspace?.members || [])
+      .filter(member => member.role === 'owner')
+      .map(member => member.userId);
+
     await this.deleteWorkspaceRepository.deleteWorkspace(workspaceId);
+
+    await this.createAuditLogEntryRepository.createAuditLogEntry({
+      action: 'workspace.delete',
+      actorId,
+      targetType: 'workspace',
+      targetId: workspaceId,
+      workspaceId,
+      ip,
+      ownerIds,
+    });
   }
 }
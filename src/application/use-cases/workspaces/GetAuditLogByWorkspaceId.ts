@@ -0,0 +1,44 @@
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { GetAuditLogEntriesByWorkspaceIdRepository } from '@application/interfaces/repositories/auditLogs/getAuditLogEntriesByWorkspaceIdRepository';
+import { GetWorkspaceByIdRepository } from '@application/interfaces/repositories/workspaces/getWorkspaceByIdRepository';
+import { GetAuditLogByWorkspaceIdInterface } from '@application/interfaces/use-cases/workspaces/GetAuditLogByWorkspaceIdInterface';
+
+const DEFAULT_LIMIT = 50;
+
+export class GetAuditLogByWorkspaceId
+  implements GetAuditLogByWorkspaceIdInterface
+{
+  constructor(
+    private readonly getWorkspaceByIdRepository: GetWorkspaceByIdRepository,
+    private readonly getAuditLogEntriesByWorkspaceIdRepository: GetAuditLogEntriesByWorkspaceIdRepository
+  ) {}
+
+  async execute(
+    params: GetAuditLogByWorkspaceIdInterface.Request
+  ): Promise<GetAuditLogByWorkspaceIdInterface.Response> {
+    const { workspaceId, limit = DEFAULT_LIMIT, ...filters } = params;
+
+    const workspace = await this.getWorkspaceByIdRepository.getWorkspaceById(
+      workspaceId
+    );
+
+    if (!workspace) {
+      return new WorkspaceNotFoundError();
+    }
+
+    // one entry past the page tells whether there is another page to ask for
+    const entries =
+      await this.getAuditLogEntriesByWorkspaceIdRepository.getAuditLogEntriesByWorkspaceId(
+        {
+          ...filters,
+          workspaceId,
+          limit: limit + 1,
+        }
+      );
+
+    const page = entries.slice(0, limit);
+    const nextCursor = entries.length > limit ? page[page.length - 1].id : null;
+
+    return { entries: page, nextCursor };
+  }
+}
@@ -0,0 +1,76 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { GetPagesByWorkspaceIdRepository } from '@application/interfaces/repositories/workspaces/getPagesByWorkspaceIdRepository';
+import {
+  GetPageTreeByWorkspaceIdInterface,
+  PageTreeNodeType,
+} from '@application/interfaces/use-cases/workspaces/GetPageTreeByWorkspaceIdInterface';
+import { PageType } from '@domain/entities/Workspace';
+
+const DEFAULT_DEPTH = 1;
+
+export class GetPageTreeByWorkspaceId
+  implements GetPageTreeByWorkspaceIdInterface
+{
+  constructor(
+    private readonly getPagesByWorkspaceIdRepository: GetPagesByWorkspaceIdRepository
+  ) {}
+
+  async execute(
+    params: GetPageTreeByWorkspaceIdInterface.Request
+  ): Promise<GetPageTreeByWorkspaceIdInterface.Response> {
+    const { workspaceId, rootPageId, depth = DEFAULT_DEPTH } = params;
+
+    const pages =
+      await this.getPagesByWorkspaceIdRepository.getPagesByWorkspaceId(
+        workspaceId
+      );
+
+    if (!pages) {
+      return new WorkspaceNotFoundError();
+    }
+
+    if (rootPageId && !pages.some(({ id }) => id === rootPageId)) {
+      return new PageNotFoundError();
+    }
+
+    const childrenByParentId = new Map<string | null, PageType[]>();
+    [...pages]
+      .sort((first, second) =>
+        first.position < second.position
+          ? -1
+          : Number(first.position > second.position)
+      )
+      .forEach(page => {
+        childrenByParentId.set(page.parentId, [
+          ...(childrenByParentId.get(page.parentId) || []),
+          page,
+        ]);
+      });
+
+    return GetPageTreeByWorkspaceId.buildTree(
+      childrenByParentId,
+      rootPageId || null,
+      depth
+    );
+  }
+
+  private static buildTree(
+    childrenByParentId: Map<string | null, PageType[]>,
+    parentId: string | null,
+    depth: number
+  ): PageTreeNodeType[] {
+    return (childrenByParentId.get(parentId) || []).map(page => ({
+      ...page,
+      hasChildren: childrenByParentId.has(page.id),
+      children:
+        depth > 1
+          ? GetPageTreeByWorkspaceId.buildTree(
+              childrenByParentId,
+              page.id,
+              depth - 1
+            )
+          : [],
+    }));
+  }
+}
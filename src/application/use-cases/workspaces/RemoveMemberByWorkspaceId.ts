@@ -1,4 +1,7 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { LastOwnerError } from '@application/errors/LastOwnerError';
 import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { CreateAuditLogEntryRepository } from '@application/interfaces/repositories/auditLogs/createAuditLogEntryRepository';
 import { GetWorkspaceByIdRepository } from '@application/interfaces/repositories/workspaces/getWorkspaceByIdRepository';
 import { RemoveMemberByWorkspaceIdRepository } from '@application/interfaces/repositories/workspaces/removeMemberByWorkspaceIdRepository';
 import { RemoveMemberByWorkspaceIdInterface } from '@application/interfaces/use-cases/workspaces/RemoveMemberByWorkspaceIdInterface';
@@ -8,13 +11,14 @@ export class RemoveMemberByWorkspaceId
 {
   constructor(
     private readonly getWorkspaceByIdRepository: GetWorkspaceByIdRepository,
-    private readonly removeMemberByWorkspaceIdRepository: RemoveMemberByWorkspaceIdRepository
+    private readonly removeMemberByWorkspaceIdRepository: RemoveMemberByWorkspaceIdRepository,
+    private readonly createAuditLogEntryRepository: CreateAuditLogEntryRepository
   ) {}
 
   async execute(
     params: RemoveMemberByWorkspaceIdInterface.Request
   ): Promise<RemoveMemberByWorkspaceIdInterface.Response> {
-    const { workspaceId, memberId } = params;
+    const { workspaceId, memberId, userId, ip } = params;
 
     const workspace = await this.getWorkspaceByIdRepository.getWorkspaceById(
       workspaceId
@@ -24,9 +28,33 @@ export class RemoveMemberByWorkspaceId
       return new WorkspaceNotFoundError();
     }
 
+    const requester = workspace.members.find(
+      member => member.userId === userId
+    );
+
+    // anyone may leave, only owners may remove somebody else
+    if (memberId !== userId && requester?.role !== 'owner') {
+      return new ForbiddenError();
+    }
+
+    const owners = workspace.members.filter(member => member.role === 'owner');
+
+    if (owners.length === 1 && owners[0].userId === memberId) {
+      return new LastOwnerError();
+    }
+
     await this.removeMemberByWorkspaceIdRepository.removeMemberByWorkspaceId({
       workspaceId,
       memberId,
     });
+
+    await this.createAuditLogEntryRepository.createAuditLogEntry({
+      action: 'workspace.member_remove',
+      actorId: userId,
+      targetType: 'user',
+      targetId: memberId,
+      workspaceId,
+      ip,
+    });
   }
 }
@@ -0,0 +1,64 @@
+import { LastOwnerError } from '@application/errors/LastOwnerError';
+import { MemberNotFoundError } from '@application/errors/MemberNotFoundError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { CreateAuditLogEntryRepository } from '@application/interfaces/repositories/auditLogs/createAuditLogEntryRepository';
+import { GetWorkspaceByIdRepository } from '@application/interfaces/repositories/workspaces/getWorkspaceByIdRepository';
+import { UpdateMemberRoleByWorkspaceIdRepository } from '@application/interfaces/repositories/workspaces/updateMemberRoleByWorkspaceIdRepository';
+import { UpdateMemberRoleByWorkspaceIdInterface } from '@application/interfaces/use-cases/workspaces/UpdateMemberRoleByWorkspaceIdInterface';
+
+export class UpdateMemberRoleByWorkspaceId
+  implements UpdateMemberRoleByWorkspaceIdInterface
+{
+  constructor(
+    private readonly getWorkspaceByIdRepository: GetWorkspaceByIdRepository,
+    private readonly updateMemberRoleByWorkspaceIdRepository: UpdateMemberRoleByWorkspaceIdRepository,
+    private readonly createAuditLogEntryRepository: CreateAuditLogEntryRepository
+  ) {}
+
+  async execute(
+    params: UpdateMemberRoleByWorkspaceIdInterface.Request
+  ): Promise<UpdateMemberRoleByWorkspaceIdInterface.Response> {
+    const { workspaceId, memberId, role, actorId, ip } = params;
+
+    const workspace = await this.getWorkspaceByIdRepository.getWorkspaceById(
+      workspaceId
+    );
+
+    if (!workspace) {
+      return new WorkspaceNotFoundError();
+    }
+
+    const member = workspace.members.find(
+      workspaceMember => workspaceMember.userId === memberId
+    );
+
+    if (!member) {
+      return new MemberNotFoundError();
+    }
+
+    const owners = workspace.members.filter(
+      workspaceMember => workspaceMember.role === 'owner'
+    );
+
+    if (member.role === 'owner' && role !== 'owner' && owners.length === 1) {
+      return new LastOwnerError();
+    }
+
+    await this.updateMemberRoleByWorkspaceIdRepository.updateMemberRoleByWorkspaceId(
+      {
+        workspaceId,
+        memberId,
+        role,
+      }
+    );
+
+    await this.createAuditLogEntryRepository.createAuditLogEntry({
+      action: 'workspace.member_role_update',
+      actorId,
+      targetType: 'user',
+      targetId: memberId,
+      workspaceId,
+      ip,
+    });
+  }
+}
@@ -0,0 +1,104 @@
+import { InvalidPagePositionError } from '@application/errors/InvalidPagePositionError';
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { PositionGenerator } from '@application/interfaces/ordering/PositionGenerator';
+import { GetWorkspaceByIdRepository } from '@application/interfaces/repositories/workspaces/getWorkspaceByIdRepository';
+import { UpdateWorkspacePagesMetaDataByPageIdRepository } from '@application/interfaces/repositories/workspaces/updateWorkspacePagesMetaDataByPageIdRepository';
+import { UpdatePagePositionByPageIdInterface } from '@application/interfaces/use-cases/workspaces/UpdatePagePositionByPageIdInterface';
+
+export class UpdatePagePositionByPageId
+  implements UpdatePagePositionByPageIdInterface
+{
+  constructor(
+    private readonly getWorkspaceByIdRepository: GetWorkspaceByIdRepository,
+    private readonly updateWorkspacePagesMetaDataByPageIdRepository: UpdateWorkspacePagesMetaDataByPageIdRepository,
+    private readonly positionGenerator: PositionGenerator
+  ) {}
+
+  async execute(
+    params: UpdatePagePositionByPageIdInterface.Request
+  ): Promise<UpdatePagePositionByPageIdInterface.Response> {
+    const { workspaceId, pageId, afterPageId, beforePageId } = params;
+
+    const workspace = await this.getWorkspaceByIdRepository.getWorkspaceById(
+      workspaceId
+    );
+
+    if (!workspace) {
+      return new WorkspaceNotFoundError();
+    }
+
+    const page = workspace.pages.find(({ id }) => id === pageId);
+
+    if (!page) {
+      return new PageNotFoundError();
+    }
+
+    const siblings = workspace.pages
+      .filter(
+        sibling => sibling.parentId === page.parentId && sibling.id !== pageId
+      )
+      .sort((first, second) =>
+        first.position < second.position
+          ? -1
+          : Number(first.position > second.position)
+      );
+    const siblingIds = siblings.map(({ id }) => id);
+
+    if (
+      (afterPageId === undefined && beforePageId === undefined) ||
+      [afterPageId, beforePageId].some(
+        siblingId => siblingId && !siblingIds.includes(siblingId)
+      )
+    ) {
+      return new InvalidPagePositionError();
+    }
+
+    // a single neighbour is enough, the other one is the next sibling over
+    const lowerIndex =
+      afterPageId !== undefined
+        ? UpdatePagePositionByPageId.getIndex(siblingIds, afterPageId, -1)
+        : UpdatePagePositionByPageId.getIndex(
+            siblingIds,
+            beforePageId!,
+            siblingIds.length
+          ) - 1;
+    const upperIndex =
+      beforePageId !== undefined
+        ? UpdatePagePositionByPageId.getIndex(
+            siblingIds,
+            beforePageId,
+            siblingIds.length
+          )
+        : lowerIndex + 1;
+
+    // both neighbours came from a client whose list may be out of date
+    if (upperIndex !== lowerIndex + 1) {
+      return new InvalidPagePositionError();
+    }
+
+    const position = this.positionGenerator.generatePosition(
+      siblings[lowerIndex]?.position ?? null,
+      siblings[upperIndex]?.position ?? null
+    );
+
+    await this.updateWorkspacePagesMetaDataByPageIdRepository.updateWorkspacePagesMetaDataByPageId(
+      {
+        workspaceId,
+        pageId,
+        pageData: { position },
+      }
+    );
+
+    return position;
+  }
+
+  // null stands for the start of the list after a page and its end before one
+  private static getIndex(
+    siblingIds: string[],
+    siblingId: string | null,
+    openEnd: number
+  ): number {
+    return siblingId === null ? openEnd : siblingIds.indexOf(siblingId);
+  }
+}
@@ -1,4 +1,5 @@
 import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { CreateAuditLogEntryRepository } from '@application/interfaces/repositories/auditLogs/createAuditLogEntryRepository';
 import { GetWorkspaceByIdRepository } from '@application/interfaces/repositories/workspaces/getWorkspaceByIdRepository';
 import { UpdateWorkspaceRepository } from '@application/interfaces/repositories/workspaces/updateWorkspaceRepository';
 import { UpdateWorkspaceInterface } from '@application/interfaces/use-cases/workspaces/UpdateWorkspaceInterface';
@@ -6,13 +7,14 @@ import { UpdateWorkspaceInterface } from '@application/interfaces/use-cases/work
 export class UpdateWorkspace implements UpdateWorkspaceInterface {
   constructor(
     private readonly getWorkspaceByIdRepository: GetWorkspaceByIdRepository,
-    private readonly updateWorkspaceRepository: UpdateWorkspaceRepository
+    private readonly updateWorkspaceRepository: UpdateWorkspaceRepository,
+    private readonly createAuditLogEntryRepository: CreateAuditLogEntryRepository
   ) {}
 
   async execute(
     params: UpdateWorkspaceInterface.Request
   ): Promise<UpdateWorkspaceInterface.Response> {
-    const { workspaceId, workspaceData } = params;
+    const { workspaceId, workspaceData, actorId, ip } = params;
     const workspace = await this.getWorkspaceByIdRepository.getWorkspaceById(
       workspaceId
     );
@@ -21,9 +23,21 @@ export class UpdateWorkspace implements UpdateWorkspaceInterface {
       return new WorkspaceNotFoundError();
     }
 
-    return this.updateWorkspaceRepository.updateWorkspace({
+    const updatedWorkspace =
+      await this.updateWorkspaceRepository.updateWorkspace({
+        workspaceId,
+        workspaceData,
+      });
+
+    await this.createAuditLogEntryRepository.createAuditLogEntry({
+      action: 'workspace.update',
+      actorId,
+      targetType: 'workspace',
+      targetId: workspaceId,
       workspaceId,
-      workspaceData,
+      ip,
     });
+
+    return updatedWorkspace;
   }
 }
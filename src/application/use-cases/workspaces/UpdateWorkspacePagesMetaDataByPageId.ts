@@ -1,14 +1,17 @@
 import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { PositionGenerator } from '@application/interfaces/ordering/PositionGenerator';
 import { GetWorkspaceByIdRepository } from '@application/interfaces/repositories/workspaces/getWorkspaceByIdRepository';
 import { UpdateWorkspacePagesMetaDataByPageIdRepository } from '@application/interfaces/repositories/workspaces/updateWorkspacePagesMetaDataByPageIdRepository';
 import { UpdateWorkspacePagesMetaDataByPageIdInterface } from '@application/interfaces/use-cases/workspaces/UpdateWorkspacePagesMetaDataByPageIdInterface';
+import { PageType } from '@domain/entities/Workspace';
 
 export class UpdateWorkspacePagesMetaDataByPageId
   implements UpdateWorkspacePagesMetaDataByPageIdInterface
 {
   constructor(
     private readonly getWorkspaceByIdRepository: GetWorkspaceByIdRepository,
-    private readonly updateWorkspacePagesMetaDataByPageIdRepository: UpdateWorkspacePagesMetaDataByPageIdRepository
+    private readonly updateWorkspacePagesMetaDataByPageIdRepository: UpdateWorkspacePagesMetaDataByPageIdRepository,
+    private readonly positionGenerator: PositionGenerator
   ) {}
 
   async execute(
@@ -24,12 +27,39 @@ export class UpdateWorkspacePagesMetaDataByPageId
       return new WorkspaceNotFoundError();
     }
 
+    const page = workspace.pages.find(({ id }) => id === pageId);
+    const isReparented =
+      !!page &&
+      pageData.parentId !== undefined &&
+      pageData.parentId !== page.parentId;
+
+    // a page under a new parent goes below its new last sibling
+    const position = isReparented
+      ? this.positionGenerator.generatePosition(
+          UpdateWorkspacePagesMetaDataByPageId.getLastPosition(
+            workspace.pages.filter(
+              sibling =>
+                sibling.parentId === pageData.parentId && sibling.id !== pageId
+            )
+          ),
+          null
+        )
+      : undefined;
+
     await this.updateWorkspacePagesMetaDataByPageIdRepository.updateWorkspacePagesMetaDataByPageId(
       {
         workspaceId,
         pageId,
-        pageData,
+        pageData: position ? { ...pageData, position } : pageData,
       }
     );
   }
+
+  private static getLastPosition(pages: PageType[]): string | null {
+    return pages.reduce<string | null>(
+      (last, page) =>
+        last === null || page.position > last ? page.position : last,
+      null
+    );
+  }
 }
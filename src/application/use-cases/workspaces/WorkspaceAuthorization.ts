@@ -0,0 +1,39 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { GetAllMembersByWorkspaceIdRepository } from '@application/interfaces/repositories/workspaces/getAllMembersByWorkspaceIdRepository';
+import { WorkspaceAuthorizationInterface } from '@application/interfaces/use-cases/workspaces/WorkspaceAuthorizationInterface';
+
+export class WorkspaceAuthorization implements WorkspaceAuthorizationInterface {
+  constructor(
+    private readonly getAllMembersByWorkspaceIdRepository: GetAllMembersByWorkspaceIdRepository
+  ) {}
+
+  async execute(
+    params: WorkspaceAuthorizationInterface.Request
+  ): Promise<WorkspaceAuthorizationInterface.Response> {
+    const { userId, workspaceId, roles } = params;
+
+    const members =
+      await this.getAllMembersByWorkspaceIdRepository.getAllMembersByWorkspaceId(
+        workspaceId
+      );
+
+    if (!members) {
+      return new WorkspaceNotFoundError();
+    }
+
+    const member = members.find(
+      workspaceMember => workspaceMember.userId === userId
+    );
+
+    if (!member) {
+      return new ForbiddenError();
+    }
+
+    if (roles && !roles.includes(member.role)) {
+      return new ForbiddenError();
+    }
+
+    return workspaceId;
+  }
+}
@@ -0,0 +1,48 @@
+// tells API tokens apart from JWTs in the Authorization header
+export const API_TOKEN_PREFIX = 'ntn_';
+
+export type ApiTokenScope = 'pages:read' | 'pages:write';
+
+export type ApiTokenProps = {
+  id: string;
+  userId: string;
+  name: string;
+  tokenHash: string;
+  scopes: ApiTokenScope[];
+  workspaceId: string | null;
+  expiresAt: Date | null;
+  lastUsedAt: Date | null;
+  createdAt: Date;
+};
+
+export class ApiToken {
+  public readonly id: string;
+
+  public readonly userId: string;
+
+  public readonly name: string;
+
+  public readonly tokenHash: string;
+
+  public readonly scopes: ApiTokenScope[];
+
+  public readonly workspaceId: string | null;
+
+  public readonly expiresAt: Date | null;
+
+  public readonly lastUsedAt: Date | null;
+
+  public readonly createdAt: Date;
+
+  constructor(props: ApiTokenProps) {
+    this.id = props.id;
+    this.userId = props.userId;
+    this.name = props.name;
+    this.tokenHash = props.tokenHash;
+    this.scopes = props.scopes;
+    this.workspaceId = props.workspaceId;
+    this.expiresAt = props.expiresAt;
+    this.lastUsedAt = props.lastUsedAt;
+    this.createdAt = props.createdAt;
+  }
+}
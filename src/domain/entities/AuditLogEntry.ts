@@ -0,0 +1,71 @@
+export type AuditLogAction =
+  | 'user.sign_in'
+  | 'user.sign_out'
+  | 'user.sign_out_everywhere'
+  | 'user.delete'
+  | 'user.restore'
+  | 'session.revoke'
+  | 'api_token.revoke'
+  | 'workspace.update'
+  | 'workspace.delete'
+  | 'workspace.pages_delete'
+  | 'workspace.member_add'
+  | 'workspace.member_remove'
+  | 'workspace.member_role_update'
+  | 'page.delete'
+  | 'page.restore'
+  | 'page.purge'
+  | 'page.settings_update';
+
+export type AuditLogTargetType =
+  | 'user'
+  | 'session'
+  | 'api_token'
+  | 'workspace'
+  | 'page';
+
+export type AuditLogEntryProps = {
+  id: string;
+  action: AuditLogAction;
+  actorId: string;
+  targetType: AuditLogTargetType;
+  targetId: string;
+  // account level actions, like signing in, belong to no workspace
+  workspaceId: string | null;
+  ip: string | null;
+  // owners of a deleted workspace, who still read its deletion from their account log
+  ownerIds?: string[];
+  createdAt: Date;
+};
+
+export class AuditLogEntry {
+  public readonly id: string;
+
+  public readonly action: AuditLogAction;
+
+  public readonly actorId: string;
+
+  public readonly targetType: AuditLogTargetType;
+
+  public readonly targetId: string;
+
+  public readonly workspaceId: string | null;
+
+  public readonly ip: string | null;
+
+  public readonly ownerIds?: string[];
+
+  public readonly createdAt: Date;
+
+  constructor(props: AuditLogEntryProps) {
+    this.id = props.id;
+    this.action = props.action;
+    this.actorId = props.actorId;
+    this.targetType = props.targetType;
+    this.targetId = props.targetId;
+    this.workspaceId = props.workspaceId;
+    this.ip = props.ip;
+    this.ownerIds = props.ownerIds;
+    this.createdAt = props.createdAt;
+  }
+}
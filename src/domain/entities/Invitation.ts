@@ -0,0 +1,55 @@
+import { WorkspaceRole } from '@domain/entities/Workspace';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'declined';
+
+export type InvitationProps = {
+  id: string;
+  workspaceId: string;
+  workspaceName: string;
+  email: string;
+  role: WorkspaceRole;
+  invitedBy: string;
+  token: string;
+  status: InvitationStatus;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt?: Date;
+};
+
+export class Invitation {
+  public readonly id: string;
+
+  public readonly workspaceId: string;
+
+  public readonly workspaceName: string;
+
+  public readonly email: string;
+
+  public readonly role: WorkspaceRole;
+
+  public readonly invitedBy: string;
+
+  public readonly token: string;
+
+  public readonly status: InvitationStatus;
+
+  public readonly expiresAt: Date;
+
+  public readonly createdAt: Date;
+
+  public readonly updatedAt?: Date;
+
+  constructor(props: InvitationProps) {
+    this.id = props.id;
+    this.workspaceId = props.workspaceId;
+    this.workspaceName = props.workspaceName;
+    this.email = props.email;
+    this.role = props.role;
+    this.invitedBy = props.invitedBy;
+    this.token = props.token;
+    this.status = props.status;
+    this.expiresAt = props.expiresAt;
+    this.createdAt = props.createdAt;
+    this.updatedAt = props.updatedAt;
+  }
+}
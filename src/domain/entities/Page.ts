@@ -15,6 +15,14 @@ export type ContentType = {
   content: unknown[];
 };
 
+export type PagePublicationType = {
+  slug: string;
+  includeChildren: boolean;
+  allowIndexing: boolean;
+  expiresAt: Date | null;
+  publishedAt: Date;
+};
+
 export type PageProps = {
   id: string;
   reference: string;
@@ -24,8 +32,14 @@ export type PageProps = {
   content: ContentType;
   favorite: string[];
   pageSettings: PageSettingsType;
-  path: string | null;
+  parentId: string | null;
+  // ids from the root page down to the parent, empty for root pages
+  ancestors: string[];
   workspaceId: string;
+  publication?: PagePublicationType | null;
+  // set on every page of a deleted subtree, trashedWithPageId is its top page
+  trashedAt?: Date | null;
+  trashedWithPageId?: string | null;
   createdAt: Date;
   updatedAt?: Date;
 };
@@ -47,10 +61,18 @@ export class Page {
 
   public readonly pageSettings: PageSettingsType;
 
-  public readonly path: string | null;
+  public readonly parentId: string | null;
+
+  public readonly ancestors: string[];
 
   public readonly workspaceId: string;
 
+  public readonly publication?: PagePublicationType | null;
+
+  public readonly trashedAt?: Date | null;
+
+  public readonly trashedWithPageId?: string | null;
+
   public readonly createdAt: Date;
 
   public readonly updatedAt?: Date;
@@ -64,8 +86,12 @@ export class Page {
     this.content = props.content;
     this.favorite = props.favorite;
     this.pageSettings = props.pageSettings;
-    this.path = props.path;
+    this.parentId = props.parentId;
+    this.ancestors = props.ancestors;
     this.workspaceId = props.workspaceId;
+    this.publication = props.publication;
+    this.trashedAt = props.trashedAt;
+    this.trashedWithPageId = props.trashedWithPageId;
     this.createdAt = props.createdAt;
     this.updatedAt = props.updatedAt;
   }
@@ -0,0 +1,44 @@
+import { WorkspaceRole } from '@domain/entities/Workspace';
+
+// guests can do anything a member of the same role can, except own the workspace
+export type PageGuestRole = Exclude<WorkspaceRole, 'owner'>;
+
+export type PageGuestProps = {
+  id: string;
+  pageId: string;
+  workspaceId: string;
+  userId: string;
+  role: PageGuestRole;
+  grantedBy: string;
+  createdAt: Date;
+  updatedAt?: Date;
+};
+
+export class PageGuest {
+  public readonly id: string;
+
+  public readonly pageId: string;
+
+  public readonly workspaceId: string;
+
+  public readonly userId: string;
+
+  public readonly role: PageGuestRole;
+
+  public readonly grantedBy: string;
+
+  public readonly createdAt: Date;
+
+  public readonly updatedAt?: Date;
+
+  constructor(props: PageGuestProps) {
+    this.id = props.id;
+    this.pageId = props.pageId;
+    this.workspaceId = props.workspaceId;
+    this.userId = props.userId;
+    this.role = props.role;
+    this.grantedBy = props.grantedBy;
+    this.createdAt = props.createdAt;
+    this.updatedAt = props.updatedAt;
+  }
+}
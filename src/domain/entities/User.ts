@@ -13,10 +13,13 @@ export type UserProps = {
   id: string;
   name: string;
   email: string;
+  emailVerified: boolean;
   password: string;
   isDarkMode: boolean;
   profilePicture: ProfilePictureType;
   workspaces: WorkspaceType[];
+  // set while a requested deletion waits out its grace period
+  scheduledDeletionAt?: Date;
   createdAt: Date;
   updatedAt?: Date;
 };
@@ -28,6 +31,8 @@ export class User {
 
   public readonly email: string;
 
+  public readonly emailVerified: boolean;
+
   public readonly password: string;
 
   public readonly isDarkMode: boolean;
@@ -36,6 +41,8 @@ export class User {
 
   public readonly workspaces: WorkspaceType[];
 
+  public readonly scheduledDeletionAt?: Date;
+
   public readonly createdAt: Date;
 
   public readonly updatedAt?: Date;
@@ -44,10 +51,12 @@ export class User {
     this.id = props.id;
     this.name = props.name;
     this.email = props.email;
+    this.emailVerified = props.emailVerified;
     this.password = props.password;
     this.isDarkMode = props.isDarkMode;
     this.profilePicture = props.profilePicture;
     this.workspaces = props.workspaces;
+    this.scheduledDeletionAt = props.scheduledDeletionAt;
     this.createdAt = props.createdAt;
     this.updatedAt = props.updatedAt;
   }
@@ -0,0 +1,34 @@
+export type UserExportStatus = 'pending' | 'processing' | 'ready' | 'failed';
+
+export type UserExportProps = {
+  id: string;
+  userId: string;
+  status: UserExportStatus;
+  completedAt: Date | null;
+  // a ready export can be downloaded until then
+  expiresAt: Date | null;
+  createdAt: Date;
+};
+
+export class UserExport {
+  public readonly id: string;
+
+  public readonly userId: string;
+
+  public readonly status: UserExportStatus;
+
+  public readonly completedAt: Date | null;
+
+  public readonly expiresAt: Date | null;
+
+  public readonly createdAt: Date;
+
+  constructor(props: UserExportProps) {
+    this.id = props.id;
+    this.userId = props.userId;
+    this.status = props.status;
+    this.completedAt = props.completedAt;
+    this.expiresAt = props.expiresAt;
+    this.createdAt = props.createdAt;
+  }
+}
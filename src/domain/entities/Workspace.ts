@@ -1,17 +1,26 @@
 export type PageType = {
   id: string;
   reference: string;
-  path: string | null;
+  parentId: string | null;
+  // sorts the page among the pages that share its parent
+  position: string;
   icon: string;
   title: string;
   createdAt: Date;
 };
 
+export type WorkspaceRole = 'owner' | 'editor' | 'commenter' | 'viewer';
+
+export type MemberType = {
+  userId: string;
+  role: WorkspaceRole;
+};
+
 export type WorkspaceProps = {
   id: string;
   name: string;
   icon: string;
-  members: string[];
+  members: MemberType[];
   pages: PageType[];
   createdAt: Date;
   updatedAt?: Date;
@@ -24,7 +33,7 @@ export class Workspace {
 
   public readonly icon: string;
 
-  public readonly members: string[];
+  public readonly members: MemberType[];
 
   public readonly pages: PageType[];
 
@@ -1,36 +1,207 @@
-import jwt from 'jsonwebtoken';
+import jwt, { Algorithm, JwtHeader } from 'jsonwebtoken';
+import {
+  createPrivateKey,
+  createPublicKey,
+  KeyObject,
+  randomUUID,
+  sign as signData,
+  verify as verifyData,
+} from 'crypto';
 import { JWTVerifier } from '@application/interfaces/cryptography/JWTVerifier';
 import { JWTGenerator } from '@application/interfaces/cryptography/JWTGenerator';
+import {
+  JsonWebKeySetType,
+  JWKSProvider,
+} from '@application/interfaces/cryptography/JWKSProvider';
 
-export class JWTAdapter implements JWTGenerator, JWTVerifier {
-  constructor(
-    private readonly accessTokenSecret: string,
-    private readonly refreshTokenSecret: string
-  ) {}
+// the first key with a private part signs, every key listed still verifies
+export type JWTKey = {
+  kid: string;
+  privateKey?: string;
+  publicKey?: string;
+};
 
-  async generateAccessToken(payload: string): Promise<string> {
-    return jwt.sign({ userId: payload }, this.accessTokenSecret, {
-      expiresIn: '15m',
+// jsonwebtoken has no EdDSA support, those tokens are signed with node's crypto
+type SigningAlgorithm = Algorithm | 'EdDSA';
+
+type VerificationKey = {
+  kid: string;
+  publicKey: KeyObject;
+  algorithm: SigningAlgorithm;
+};
+
+type Claims = { userId: string; jti?: string };
+
+// RFC 9068 media type, so a refresh token is never accepted as an access token
+const ACCESS_TOKEN_TYPE = 'at+jwt';
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const REFRESH_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+const toBase64Url = (value: object): string =>
+  Buffer.from(JSON.stringify(value)).toString('base64url');
+
+const getAlgorithm = (kid: string, publicKey: KeyObject): SigningAlgorithm => {
+  const { asymmetricKeyType, asymmetricKeyDetails } = publicKey;
+
+  if (asymmetricKeyType === 'rsa') {
+    return 'RS256';
+  }
+
+  if (
+    asymmetricKeyType === 'ec' &&
+    asymmetricKeyDetails?.namedCurve === 'prime256v1'
+  ) {
+    return 'ES256';
+  }
+
+  if (asymmetricKeyType === 'ed25519') {
+    return 'EdDSA';
+  }
+
+  throw new Error(`JWT key ${kid} must be an RSA, P-256 or Ed25519 key`);
+};
+
+export class JWTAdapter implements JWTGenerator, JWTVerifier, JWKSProvider {
+  private readonly signingKey: VerificationKey & { privateKey: KeyObject };
+
+  private readonly verificationKeys: VerificationKey[];
+
+  constructor(keys: JWTKey[]) {
+    this.verificationKeys = keys.map(({ kid, privateKey, publicKey }) => {
+      const verificationKey = createPublicKey((publicKey || privateKey)!);
+      return {
+        kid,
+        publicKey: verificationKey,
+        algorithm: getAlgorithm(kid, verificationKey),
+      };
     });
+
+    const signingKeyIndex = keys.findIndex(({ privateKey }) => !!privateKey);
+
+    if (signingKeyIndex === -1) {
+      throw new Error('At least one JWT key needs a private key');
+    }
+
+    this.signingKey = {
+      ...this.verificationKeys[signingKeyIndex],
+      privateKey: createPrivateKey(keys[signingKeyIndex].privateKey!),
+    };
+  }
+
+  async generateAccessToken(payload: string): Promise<string> {
+    return this.sign(
+      { userId: payload },
+      ACCESS_TOKEN_TTL_SECONDS,
+      ACCESS_TOKEN_TYPE
+    );
   }
 
   async generateRefreshToken(payload: string): Promise<string> {
-    return jwt.sign({ userId: payload }, this.refreshTokenSecret);
+    return this.sign(
+      { userId: payload, jti: randomUUID() },
+      REFRESH_TOKEN_TTL_SECONDS
+    );
   }
 
   async verifyAccessToken(token: string): Promise<string | null> {
+    return this.verify(token, header => header.typ === ACCESS_TOKEN_TYPE);
+  }
+
+  async verifyRefreshToken(token: string): Promise<string | null> {
+    return this.verify(token, header => header.typ !== ACCESS_TOKEN_TYPE);
+  }
+
+  async getJsonWebKeySet(): Promise<JsonWebKeySetType> {
+    return {
+      keys: this.verificationKeys.map(({ kid, publicKey, algorithm }) => ({
+        ...publicKey.export({ format: 'jwk' }),
+        kid,
+        alg: algorithm,
+        use: 'sig',
+      })),
+    };
+  }
+
+  private sign(claims: Claims, expiresInSeconds: number, typ = 'JWT'): string {
+    const { kid, privateKey, algorithm } = this.signingKey;
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const payload = {
+      ...claims,
+      iat: issuedAt,
+      exp: issuedAt + expiresInSeconds,
+    };
+    const header = { alg: algorithm, typ, kid };
+
+    if (algorithm === 'EdDSA') {
+      const signingInput = `${toBase64Url(header)}.${toBase64Url(payload)}`;
+      const signature = signData(null, Buffer.from(signingInput), privateKey);
+
+      return `${signingInput}.${signature.toString('base64url')}`;
+    }
+
+    return jwt.sign(payload, privateKey, {
+      algorithm,
+      header: header as JwtHeader,
+    });
+  }
+
+  private verify(
+    token: string,
+    isExpectedType: (header: JwtHeader) => boolean
+  ): string | null {
     try {
-      return jwt.verify(token, this.accessTokenSecret) as string;
+      const decodedToken = jwt.decode(token, { complete: true });
+      const verificationKey = this.verificationKeys.find(
+        ({ kid }) => kid === decodedToken?.header.kid
+      );
+
+      if (!verificationKey || !isExpectedType(decodedToken!.header)) {
+        return null;
+      }
+
+      if (verificationKey.algorithm === 'EdDSA') {
+        return JWTAdapter.verifyEdDSA(
+          token,
+          decodedToken!.header,
+          verificationKey.publicKey
+        );
+      }
+
+      return jwt.verify(token, verificationKey.publicKey, {
+        algorithms: [verificationKey.algorithm],
+      }) as string;
     } catch (error) {
       return null;
     }
   }
 
-  async verifyRefreshToken(token: string): Promise<string | null> {
-    try {
-      return jwt.verify(token, this.refreshTokenSecret) as string;
-    } catch (error) {
+  private static verifyEdDSA(
+    token: string,
+    header: JwtHeader,
+    publicKey: KeyObject
+  ): string | null {
+    const [encodedHeader, encodedPayload, signature] = token.split('.');
+
+    if (
+      (header.alg as SigningAlgorithm) !== 'EdDSA' ||
+      !verifyData(
+        null,
+        Buffer.from(`${encodedHeader}.${encodedPayload}`),
+        publicKey,
+        Buffer.from(signature, 'base64url')
+      )
+    ) {
+      return null;
+    }
+
+    const payload = JSON.parse(
+      Buffer.from(encodedPayload, 'base64url').toString()
+    );
+
+    if (typeof payload.exp !== 'number' || payload.exp * 1000 <= Date.now()) {
       return null;
     }
+
+    return payload;
   }
 }
@@ -0,0 +1,10 @@
+import { randomBytes } from 'crypto';
+import { TokenGenerator } from '@application/interfaces/cryptography/TokenGenerator';
+
+export class RandomTokenAdapter implements TokenGenerator {
+  constructor(private readonly size: number) {}
+
+  async generateToken(): Promise<string> {
+    return randomBytes(this.size).toString('hex');
+  }
+}
@@ -0,0 +1,9 @@
+import { createHash } from 'crypto';
+import { TokenHasher } from '@application/interfaces/cryptography/TokenHasher';
+
+// random tokens carry enough entropy that a fast, unsalted digest can be looked up
+export class Sha256Adapter implements TokenHasher {
+  async hashToken(token: string): Promise<string> {
+    return createHash('sha256').update(token).digest('hex');
+  }
+}
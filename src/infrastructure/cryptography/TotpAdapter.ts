@@ -0,0 +1,100 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { TotpGenerator } from '@application/interfaces/cryptography/TotpGenerator';
+import { TotpVerifier } from '@application/interfaces/cryptography/TotpVerifier';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const PERIOD_SECONDS = 30;
+const DIGITS = 6;
+
+// RFC 6238 with the defaults authenticator apps expect: SHA-1, 6 digits, 30s
+export class TotpAdapter implements TotpGenerator, TotpVerifier {
+  constructor(
+    private readonly issuer: string,
+    private readonly window: number = 1
+  ) {}
+
+  async generateSecret(): Promise<string> {
+    return TotpAdapter.toBase32(randomBytes(20));
+  }
+
+  generateUri(secret: string, accountName: string): string {
+    const label = encodeURIComponent(`${this.issuer}:${accountName}`);
+    const issuer = encodeURIComponent(this.issuer);
+
+    return `otpauth://totp/${label}?secret=${secret}&issuer=${issuer}&algorithm=SHA1&digits=${DIGITS}&period=${PERIOD_SECONDS}`;
+  }
+
+  async generateCode(secret: string, at: number = Date.now()): Promise<string> {
+    const timeStep = Math.floor(at / 1000 / PERIOD_SECONDS);
+
+    return TotpAdapter.hotp(TotpAdapter.fromBase32(secret), timeStep);
+  }
+
+  async verify(secret: string, code: string): Promise<number | null> {
+    const key = TotpAdapter.fromBase32(secret);
+    const currentStep = Math.floor(Date.now() / 1000 / PERIOD_SECONDS);
+
+    for (let offset = -this.window; offset <= this.window; offset += 1) {
+      const timeStep = currentStep + offset;
+      const expected = Buffer.from(TotpAdapter.hotp(key, timeStep));
+      const received = Buffer.from(code);
+
+      if (
+        expected.length === received.length &&
+        timingSafeEqual(expected, received)
+      ) {
+        return timeStep;
+      }
+    }
+
+    return null;
+  }
+
+  private static hotp(key: Buffer, counter: number): string {
+    const message = Buffer.alloc(8);
+    message.writeBigUInt64BE(BigInt(counter));
+
+    const hmac = createHmac('sha1', key).update(message).digest();
+    // eslint-disable-next-line no-bitwise
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    // eslint-disable-next-line no-bitwise
+    const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+    return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0');
+  }
+
+  private static toBase32(buffer: Buffer): string {
+    let bits = '';
+    buffer.forEach(byte => {
+      bits += byte.toString(2).padStart(8, '0');
+    });
+
+    let encoded = '';
+    for (let index = 0; index < bits.length; index += 5) {
+      encoded +=
+        BASE32_ALPHABET[
+          parseInt(bits.slice(index, index + 5).padEnd(5, '0'), 2)
+        ];
+    }
+
+    return encoded;
+  }
+
+  private static fromBase32(encoded: string): Buffer {
+    let bits = '';
+    encoded
+      .toUpperCase()
+      .replace(/=+$/, '')
+      .split('')
+      .forEach(character => {
+        bits += BASE32_ALPHABET.indexOf(character).toString(2).padStart(5, '0');
+      });
+
+    const bytes = [];
+    for (let index = 0; index + 8 <= bits.length; index += 8) {
+      bytes.push(parseInt(bits.slice(index, index + 8), 2));
+    }
+
+    return Buffer.from(bytes);
+  }
+}
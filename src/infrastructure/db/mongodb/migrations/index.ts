@@ -0,0 +1,14 @@
+import { migratePageAncestors } from '@infrastructure/db/mongodb/migrations/page-ancestors';
+import { migratePagePublicationSlugs } from '@infrastructure/db/mongodb/migrations/page-publication-slugs';
+import { migrateUserEmailVerified } from '@infrastructure/db/mongodb/migrations/user-email-verified';
+import { migrateWorkspaceMemberRoles } from '@infrastructure/db/mongodb/migrations/workspace-member-roles';
+import { migrateWorkspacePagePositions } from '@infrastructure/db/mongodb/migrations/workspace-page-positions';
+
+// every migration must be idempotent, they all run on each start
+export const runMigrations = async (): Promise<void> => {
+  await migrateWorkspaceMemberRoles();
+  await migrateUserEmailVerified();
+  await migratePageAncestors();
+  await migrateWorkspacePagePositions();
+  await migratePagePublicationSlugs();
+};
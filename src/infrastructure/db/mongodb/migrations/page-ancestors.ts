@@ -0,0 +1,132 @@
+import { Document, WithId } from 'mongodb';
+import { objectIdToString } from '@infrastructure/db/mongodb/helpers/mapper';
+import { PageRepository } from '@infrastructure/db/mongodb/repositories/PageRepository';
+import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
+
+// references end with a random id that survives renames, the title before it
+// may be outdated in the paths of children
+const getUniqueId = (workspaceId: string, reference: string): string =>
+  `${workspaceId}:${reference.split('-').pop()}`;
+
+// pages used to store the references of their ancestors in a `,a,b.` path
+export const migratePageAncestors = async (): Promise<number> => {
+  const pageCollection = await PageRepository.getCollection();
+  const workspaceCollection = await WorkspaceRepository.getCollection();
+
+  // descendants are looked up through the ancestors of every page
+  await pageCollection.createIndex({ ancestors: 1 });
+
+  // this runs on every boot, the whole collection is only read while legacy
+  // pages or workspace entries are left to resolve paths against
+  const [legacyPageCount, legacyWorkspaceCount] = await Promise.all([
+    pageCollection.countDocuments({ path: { $exists: true } }, { limit: 1 }),
+    workspaceCollection.countDocuments(
+      { 'pages.path': { $exists: true } },
+      { limit: 1 }
+    ),
+  ]);
+
+  if (!legacyPageCount && !legacyWorkspaceCount) {
+    return 0;
+  }
+
+  const rawPages = await pageCollection
+    .find(
+      {},
+      { projection: { workspaceId: 1, reference: 1, path: 1, parentId: 1 } }
+    )
+    .toArray();
+
+  const pageIdsByUniqueId = new Map<string, string>();
+  rawPages.forEach(({ _id: pageObjectId, workspaceId, reference }) => {
+    pageIdsByUniqueId.set(
+      getUniqueId(workspaceId, reference || ''),
+      objectIdToString(pageObjectId)
+    );
+  });
+
+  // a parent that cannot be found anymore leaves its subtree at the root
+  const parentIds = new Map<string, string | null>();
+  rawPages.forEach(({ _id: pageObjectId, workspaceId, path, parentId }) => {
+    const pageId = objectIdToString(pageObjectId);
+
+    if (path === undefined) {
+      parentIds.set(pageId, parentId ?? null);
+      return;
+    }
+
+    const parentReference = ((path as string | null) || '')
+      .replace(/\.$/, '')
+      .split(',')
+      .filter(Boolean)
+      .pop();
+
+    parentIds.set(
+      pageId,
+      (parentReference &&
+        pageIdsByUniqueId.get(getUniqueId(workspaceId, parentReference))) ||
+        null
+    );
+  });
+
+  const getAncestors = (pageId: string): string[] => {
+    const ancestors: string[] = [];
+    let parentId = parentIds.get(pageId);
+
+    while (parentId && parentId !== pageId && !ancestors.includes(parentId)) {
+      ancestors.unshift(parentId);
+      parentId = parentIds.get(parentId);
+    }
+
+    return ancestors;
+  };
+
+  const legacyPages = rawPages.filter(rawPage => rawPage.path !== undefined);
+
+  if (legacyPages.length) {
+    await pageCollection.bulkWrite(
+      legacyPages.map(({ _id: pageObjectId }) => {
+        const pageId = objectIdToString(pageObjectId);
+
+        return {
+          updateOne: {
+            filter: { _id: pageObjectId },
+            update: {
+              $set: {
+                parentId: parentIds.get(pageId) ?? null,
+                ancestors: getAncestors(pageId),
+              },
+              $unset: { path: '' },
+            },
+          },
+        };
+      })
+    );
+  }
+
+  const legacyWorkspaces = await workspaceCollection
+    .find({ 'pages.path': { $exists: true } })
+    .toArray();
+
+  await Promise.all(
+    legacyWorkspaces.map((rawWorkspace: WithId<Document>) => {
+      const { _id: workspaceObjectId } = rawWorkspace;
+      const pages = (rawWorkspace.pages as Document[]).map(page => ({
+        ...page,
+        parentId: parentIds.get(page.id) ?? null,
+      }));
+
+      return workspaceCollection.updateOne(
+        { _id: workspaceObjectId },
+        { $set: { pages } }
+      );
+    })
+  );
+
+  await workspaceCollection.updateMany(
+    { 'pages.path': { $exists: true } },
+    { $unset: { 'pages.$[].path': '' } }
+  );
+
+  return legacyPages.length;
+};
@@ -0,0 +1,12 @@
+import { PageRepository } from '@infrastructure/db/mongodb/repositories/PageRepository';
+
+// public pages are looked up by slug, so two of them can never share one;
+// sparse leaves the pages that were never published out of the index
+export const migratePagePublicationSlugs = async (): Promise<void> => {
+  const collection = await PageRepository.getCollection();
+
+  await collection.createIndex(
+    { 'publication.slug': 1 },
+    { unique: true, sparse: true }
+  );
+};
@@ -0,0 +1,12 @@
+import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+
+// accounts created before verification existed are trusted as they are
+export const migrateUserEmailVerified = async (): Promise<number> => {
+  const collection = await UserRepository.getCollection();
+  const { modifiedCount } = await collection.updateMany(
+    { emailVerified: { $exists: false } },
+    { $set: { emailVerified: true } }
+  );
+
+  return modifiedCount;
+};
@@ -0,0 +1,32 @@
+import { Document, WithId } from 'mongodb';
+import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
+
+// members used to be a flat list of user ids, the creator always came first
+export const migrateWorkspaceMemberRoles = async (): Promise<number> => {
+  const collection = await WorkspaceRepository.getCollection();
+  const legacyWorkspaces = await collection
+    .find({ members: { $elemMatch: { $type: 'string' } } })
+    .toArray();
+
+  await Promise.all(
+    legacyWorkspaces.map((rawWorkspace: WithId<Document>) => {
+      const { _id: workspaceObjectId } = rawWorkspace;
+      const members = (rawWorkspace.members as unknown[]).map(
+        (member, index) => {
+          if (typeof member !== 'string') {
+            return member;
+          }
+
+          return { userId: member, role: index === 0 ? 'owner' : 'editor' };
+        }
+      );
+
+      return collection.updateOne(
+        { _id: workspaceObjectId },
+        { $set: { members } }
+      );
+    })
+  );
+
+  return legacyWorkspaces.length;
+};
@@ -0,0 +1,50 @@
+import { Document, WithId } from 'mongodb';
+import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
+import { FractionalIndexAdapter } from '@infrastructure/ordering/FractionalIndexAdapter';
+
+// pages used to be listed in the order they were added to the workspace
+export const migrateWorkspacePagePositions = async (): Promise<number> => {
+  const collection = await WorkspaceRepository.getCollection();
+  const fractionalIndexAdapter = new FractionalIndexAdapter();
+  const legacyWorkspaces = await collection
+    .find({ pages: { $elemMatch: { position: { $exists: false } } } })
+    .toArray();
+
+  await Promise.all(
+    legacyWorkspaces.map((rawWorkspace: WithId<Document>) => {
+      const { _id: workspaceObjectId } = rawWorkspace;
+      const rawPages = rawWorkspace.pages as Document[];
+
+      // pages without a position go below the siblings that already have one
+      const lastPositions = new Map<string | null, string>();
+      rawPages.forEach(({ parentId, position }) => {
+        const lastPosition = lastPositions.get(parentId ?? null);
+
+        if (position && (!lastPosition || position > lastPosition)) {
+          lastPositions.set(parentId ?? null, position);
+        }
+      });
+
+      const pages = rawPages.map(page => {
+        if (page.position) {
+          return page;
+        }
+
+        const position = fractionalIndexAdapter.generatePosition(
+          lastPositions.get(page.parentId ?? null) ?? null,
+          null
+        );
+        lastPositions.set(page.parentId ?? null, position);
+
+        return { ...page, position };
+      });
+
+      return collection.updateOne(
+        { _id: workspaceObjectId },
+        { $set: { pages } }
+      );
+    })
+  );
+
+  return legacyWorkspaces.length;
+};
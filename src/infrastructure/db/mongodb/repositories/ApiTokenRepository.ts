@@ -0,0 +1,97 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import {
+  isValidObjectId,
+  mapCollection,
+  mapDocument,
+  objectIdToString,
+  stringToObjectId,
+} from '@infrastructure/db/mongodb/helpers/mapper';
+import { CreateApiTokenRepository } from '@application/interfaces/repositories/apiTokens/createApiTokenRepository';
+import { GetApiTokensByUserIdRepository } from '@application/interfaces/repositories/apiTokens/getApiTokensByUserIdRepository';
+import { GetApiTokenByHashRepository } from '@application/interfaces/repositories/apiTokens/getApiTokenByHashRepository';
+import { UpdateApiTokenLastUsedAtRepository } from '@application/interfaces/repositories/apiTokens/updateApiTokenLastUsedAtRepository';
+import { DeleteApiTokenRepository } from '@application/interfaces/repositories/apiTokens/deleteApiTokenRepository';
+import { DeleteApiTokensByUserIdRepository } from '@application/interfaces/repositories/apiTokens/deleteApiTokensByUserIdRepository';
+
+export class ApiTokenRepository
+  implements
+    CreateApiTokenRepository,
+    GetApiTokensByUserIdRepository,
+    GetApiTokenByHashRepository,
+    UpdateApiTokenLastUsedAtRepository,
+    DeleteApiTokenRepository,
+    DeleteApiTokensByUserIdRepository
+{
+  static async getCollection(): Promise<Collection> {
+    return dbConnection.getCollection('apiTokens');
+  }
+
+  async createApiToken(
+    apiTokenData: CreateApiTokenRepository.Request
+  ): Promise<CreateApiTokenRepository.Response> {
+    const collection = await ApiTokenRepository.getCollection();
+    const { insertedId } = await collection.insertOne({
+      ...apiTokenData,
+      lastUsedAt: null,
+      createdAt: new Date(),
+    });
+    return objectIdToString(insertedId);
+  }
+
+  async getApiTokensByUserId(
+    userId: GetApiTokensByUserIdRepository.Request
+  ): Promise<GetApiTokensByUserIdRepository.Response> {
+    const collection = await ApiTokenRepository.getCollection();
+    const rawApiTokens = await collection
+      .find({ userId })
+      .sort({ createdAt: -1 })
+      .toArray();
+
+    return mapCollection(rawApiTokens);
+  }
+
+  async getApiTokenByHash(
+    tokenHash: GetApiTokenByHashRepository.Request
+  ): Promise<GetApiTokenByHashRepository.Response> {
+    const collection = await ApiTokenRepository.getCollection();
+    const rawApiToken = await collection.findOne({ tokenHash });
+
+    return rawApiToken && mapDocument(rawApiToken);
+  }
+
+  async updateApiTokenLastUsedAt(
+    id: UpdateApiTokenLastUsedAtRepository.Request
+  ): Promise<UpdateApiTokenLastUsedAtRepository.Response> {
+    const collection = await ApiTokenRepository.getCollection();
+    await collection.updateOne(
+      { _id: stringToObjectId(id) },
+      { $set: { lastUsedAt: new Date() } }
+    );
+  }
+
+  async deleteApiToken(
+    params: DeleteApiTokenRepository.Request
+  ): Promise<DeleteApiTokenRepository.Response> {
+    const { userId, apiTokenId } = params;
+
+    if (!isValidObjectId(apiTokenId)) {
+      return false;
+    }
+
+    const collection = await ApiTokenRepository.getCollection();
+    const { deletedCount } = await collection.deleteOne({
+      _id: stringToObjectId(apiTokenId),
+      userId,
+    });
+
+    return deletedCount === 1;
+  }
+
+  async deleteApiTokensByUserId(
+    userId: DeleteApiTokensByUserIdRepository.Request
+  ): Promise<DeleteApiTokensByUserIdRepository.Response> {
+    const collection = await ApiTokenRepository.getCollection();
+    await collection.deleteMany({ userId });
+  }
+}
@@ -0,0 +1,101 @@
+import { Collection, Filter, Document } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import {
+  mapCollection,
+  stringToObjectId,
+} from '@infrastructure/db/mongodb/helpers/mapper';
+import { CreateAuditLogEntryRepository } from '@application/interfaces/repositories/auditLogs/createAuditLogEntryRepository';
+import { GetAuditLogEntriesByWorkspaceIdRepository } from '@application/interfaces/repositories/auditLogs/getAuditLogEntriesByWorkspaceIdRepository';
+import { GetAuditLogEntriesByUserIdRepository } from '@application/interfaces/repositories/auditLogs/getAuditLogEntriesByUserIdRepository';
+import { AuditLogEntry } from '@domain/entities/AuditLogEntry';
+
+// entries are only ever inserted, nothing here updates or deletes them
+export class AuditLogRepository
+  implements
+    CreateAuditLogEntryRepository,
+    GetAuditLogEntriesByWorkspaceIdRepository,
+    GetAuditLogEntriesByUserIdRepository
+{
+  static async getCollection(): Promise<Collection> {
+    return dbConnection.getCollection('auditLogs');
+  }
+
+  async createAuditLogEntry(
+    entryData: CreateAuditLogEntryRepository.Request
+  ): Promise<CreateAuditLogEntryRepository.Response> {
+    const collection = await AuditLogRepository.getCollection();
+    const { workspaceId, ip, ...entry } = entryData;
+
+    await collection.insertOne({
+      ...entry,
+      workspaceId: workspaceId || null,
+      ip: ip || null,
+      createdAt: new Date(),
+    });
+  }
+
+  async getAuditLogEntriesByWorkspaceId(
+    params: GetAuditLogEntriesByWorkspaceIdRepository.Request
+  ): Promise<GetAuditLogEntriesByWorkspaceIdRepository.Response> {
+    const { workspaceId, actorId, ...filters } = params;
+
+    // account level entries have no workspace and stay out of every workspace log
+    return AuditLogRepository.findEntries(
+      { workspaceId, ...(actorId && { actorId }) },
+      filters
+    );
+  }
+
+  async getAuditLogEntriesByUserId(
+    params: GetAuditLogEntriesByUserIdRepository.Request
+  ): Promise<GetAuditLogEntriesByUserIdRepository.Response> {
+    const { userId, ...filters } = params;
+
+    // the account level entries by or about the user, and the deletion of any
+    // workspace the user owned, since that workspace log can no longer be read
+    return AuditLogRepository.findEntries(
+      {
+        $or: [
+          { workspaceId: null, actorId: userId },
+          { workspaceId: null, targetType: 'user', targetId: userId },
+          { action: 'workspace.delete', ownerIds: userId },
+        ],
+      },
+      filters
+    );
+  }
+
+  private static async findEntries(
+    filter: Filter<Document>,
+    params: Omit<GetAuditLogEntriesByUserIdRepository.Request, 'userId'>
+  ): Promise<AuditLogEntry[]> {
+    const collection = await AuditLogRepository.getCollection();
+    const { action, from, to, cursor, limit } = params;
+    const query: Filter<Document> = { ...filter };
+
+    if (action) {
+      query.action = action;
+    }
+
+    if (from || to) {
+      query.createdAt = {
+        ...(from && { $gte: from }),
+        ...(to && { $lte: to }),
+      };
+    }
+
+    // object ids grow with insertion time, so they double as the cursor
+    if (cursor) {
+      // eslint-disable-next-line no-underscore-dangle
+      query._id = { $lt: stringToObjectId(cursor) };
+    }
+
+    const rawEntries = await collection
+      .find(query)
+      .sort({ _id: -1 })
+      .limit(limit)
+      .toArray();
+
+    return mapCollection(rawEntries);
+  }
+}
@@ -0,0 +1,52 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import {
+  mapDocument,
+  objectIdToString,
+} from '@infrastructure/db/mongodb/helpers/mapper';
+import { CreateEmailVerificationTokenRepository } from '@application/interfaces/repositories/tokens/createEmailVerificationTokenRepository';
+import { ConsumeEmailVerificationTokenRepository } from '@application/interfaces/repositories/tokens/consumeEmailVerificationTokenRepository';
+import { DeleteEmailVerificationTokensByUserIdRepository } from '@application/interfaces/repositories/tokens/deleteEmailVerificationTokensByUserIdRepository';
+
+export class EmailVerificationTokenRepository
+  implements
+    CreateEmailVerificationTokenRepository,
+    ConsumeEmailVerificationTokenRepository,
+    DeleteEmailVerificationTokensByUserIdRepository
+{
+  static async getCollection(): Promise<Collection> {
+    return dbConnection.getCollection('emailVerificationTokens');
+  }
+
+  async createEmailVerificationToken(
+    tokenData: CreateEmailVerificationTokenRepository.Request
+  ): Promise<CreateEmailVerificationTokenRepository.Response> {
+    const collection = await EmailVerificationTokenRepository.getCollection();
+    const { insertedId } = await collection.insertOne({
+      ...tokenData,
+      usedAt: null,
+      createdAt: new Date(),
+    });
+    return objectIdToString(insertedId);
+  }
+
+  async consumeEmailVerificationToken(
+    token: ConsumeEmailVerificationTokenRepository.Request
+  ): Promise<ConsumeEmailVerificationTokenRepository.Response> {
+    const collection = await EmailVerificationTokenRepository.getCollection();
+    const { value: rawToken } = await collection.findOneAndUpdate(
+      { token, usedAt: null },
+      { $set: { usedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+
+    return rawToken && mapDocument(rawToken);
+  }
+
+  async deleteEmailVerificationTokensByUserId(
+    userId: DeleteEmailVerificationTokensByUserIdRepository.Request
+  ): Promise<DeleteEmailVerificationTokensByUserIdRepository.Response> {
+    const collection = await EmailVerificationTokenRepository.getCollection();
+    await collection.deleteMany({ userId });
+  }
+}
@@ -0,0 +1,48 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import {
+  mapDocument,
+  objectIdToString,
+} from '@infrastructure/db/mongodb/helpers/mapper';
+import { CreateIdentityRepository } from '@application/interfaces/repositories/identities/createIdentityRepository';
+import { GetIdentityRepository } from '@application/interfaces/repositories/identities/getIdentityRepository';
+import { DeleteIdentitiesByUserIdRepository } from '@application/interfaces/repositories/identities/deleteIdentitiesByUserIdRepository';
+
+export class IdentityRepository
+  implements
+    CreateIdentityRepository,
+    GetIdentityRepository,
+    DeleteIdentitiesByUserIdRepository
+{
+  static async getCollection(): Promise<Collection> {
+    return dbConnection.getCollection('identities');
+  }
+
+  async createIdentity(
+    identityData: CreateIdentityRepository.Request
+  ): Promise<CreateIdentityRepository.Response> {
+    const collection = await IdentityRepository.getCollection();
+    const { insertedId } = await collection.insertOne({
+      ...identityData,
+      createdAt: new Date(),
+    });
+    return objectIdToString(insertedId);
+  }
+
+  async getIdentity(
+    params: GetIdentityRepository.Request
+  ): Promise<GetIdentityRepository.Response> {
+    const collection = await IdentityRepository.getCollection();
+    const { provider, subject } = params;
+    const rawIdentity = await collection.findOne({ provider, subject });
+
+    return rawIdentity && mapDocument(rawIdentity);
+  }
+
+  async deleteIdentitiesByUserId(
+    userId: DeleteIdentitiesByUserIdRepository.Request
+  ): Promise<DeleteIdentitiesByUserIdRepository.Response> {
+    const collection = await IdentityRepository.getCollection();
+    await collection.deleteMany({ userId });
+  }
+}
@@ -0,0 +1,75 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import {
+  mapCollection,
+  mapDocument,
+  objectIdToString,
+  stringToObjectId,
+} from '@infrastructure/db/mongodb/helpers/mapper';
+import { CreateInvitationRepository } from '@application/interfaces/repositories/invitations/createInvitationRepository';
+import { GetInvitationByTokenRepository } from '@application/interfaces/repositories/invitations/getInvitationByTokenRepository';
+import { GetPendingInvitationsByEmailRepository } from '@application/interfaces/repositories/invitations/getPendingInvitationsByEmailRepository';
+import { UpdateInvitationStatusRepository } from '@application/interfaces/repositories/invitations/updateInvitationStatusRepository';
+import { DeletePendingInvitationsByEmailRepository } from '@application/interfaces/repositories/invitations/deletePendingInvitationsByEmailRepository';
+
+export class InvitationRepository
+  implements
+    CreateInvitationRepository,
+    GetInvitationByTokenRepository,
+    GetPendingInvitationsByEmailRepository,
+    UpdateInvitationStatusRepository,
+    DeletePendingInvitationsByEmailRepository
+{
+  static async getCollection(): Promise<Collection> {
+    return dbConnection.getCollection('invitations');
+  }
+
+  async createInvitation(
+    invitationData: CreateInvitationRepository.Request
+  ): Promise<CreateInvitationRepository.Response> {
+    const collection = await InvitationRepository.getCollection();
+    const { insertedId } = await collection.insertOne({
+      ...invitationData,
+      status: 'pending',
+      createdAt: new Date(),
+    });
+    return objectIdToString(insertedId);
+  }
+
+  async getInvitationByToken(
+    token: GetInvitationByTokenRepository.Request
+  ): Promise<GetInvitationByTokenRepository.Response> {
+    const collection = await InvitationRepository.getCollection();
+    const rawInvitation = await collection.findOne({ token });
+    return rawInvitation && mapDocument(rawInvitation);
+  }
+
+  async getPendingInvitationsByEmail(
+    email: GetPendingInvitationsByEmailRepository.Request
+  ): Promise<GetPendingInvitationsByEmailRepository.Response> {
+    const collection = await InvitationRepository.getCollection();
+    const rawInvitations = await collection
+      .find({ email, status: 'pending', expiresAt: { $gt: new Date() } })
+      .sort({ createdAt: -1 })
+      .toArray();
+    return mapCollection(rawInvitations);
+  }
+
+  async updateInvitationStatus(
+    params: UpdateInvitationStatusRepository.Request
+  ): Promise<UpdateInvitationStatusRepository.Response> {
+    const collection = await InvitationRepository.getCollection();
+    const { invitationId, status } = params;
+    await collection.updateOne(
+      { _id: stringToObjectId(invitationId) },
+      { $set: { status, updatedAt: new Date() } }
+    );
+  }
+
+  async deletePendingInvitationsByEmail(
+    email: DeletePendingInvitationsByEmailRepository.Request
+  ): Promise<DeletePendingInvitationsByEmailRepository.Response> {
+    const collection = await InvitationRepository.getCollection();
+    await collection.deleteMany({ email, status: 'pending' });
+  }
+}
@@ -0,0 +1,54 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import { mapCollection } from '@infrastructure/db/mongodb/helpers/mapper';
+import { GetLoginAttemptsRepository } from '@application/interfaces/repositories/loginAttempts/getLoginAttemptsRepository';
+import { RecordFailedLoginRepository } from '@application/interfaces/repositories/loginAttempts/recordFailedLoginRepository';
+import { ClearLoginAttemptsRepository } from '@application/interfaces/repositories/loginAttempts/clearLoginAttemptsRepository';
+
+export class LoginAttemptRepository
+  implements
+    GetLoginAttemptsRepository,
+    RecordFailedLoginRepository,
+    ClearLoginAttemptsRepository
+{
+  static async getCollection(): Promise<Collection> {
+    return dbConnection.getCollection('loginAttempts');
+  }
+
+  async getLoginAttempts(
+    keys: GetLoginAttemptsRepository.Request
+  ): Promise<GetLoginAttemptsRepository.Response> {
+    const collection = await LoginAttemptRepository.getCollection();
+    const rawAttempts = await collection
+      .find({ key: { $in: keys }, expiresAt: { $gt: new Date() } })
+      .toArray();
+
+    return mapCollection(rawAttempts);
+  }
+
+  async recordFailedLogin(
+    attemptData: RecordFailedLoginRepository.Request
+  ): Promise<RecordFailedLoginRepository.Response> {
+    const collection = await LoginAttemptRepository.getCollection();
+    const { key, expiresAt } = attemptData;
+
+    // failures from an elapsed window start counting from scratch
+    await collection.deleteMany({ key, expiresAt: { $lte: new Date() } });
+    await collection.updateOne(
+      { key },
+      {
+        $inc: { failures: 1 },
+        $set: { lastFailureAt: new Date(), expiresAt },
+        $setOnInsert: { createdAt: new Date() },
+      },
+      { upsert: true }
+    );
+  }
+
+  async clearLoginAttempts(
+    key: ClearLoginAttemptsRepository.Request
+  ): Promise<ClearLoginAttemptsRepository.Response> {
+    const collection = await LoginAttemptRepository.getCollection();
+    await collection.deleteMany({ key });
+  }
+}
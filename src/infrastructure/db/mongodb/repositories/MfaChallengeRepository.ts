@@ -0,0 +1,53 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import {
+  mapDocument,
+  objectIdToString,
+} from '@infrastructure/db/mongodb/helpers/mapper';
+import { CreateMfaChallengeRepository } from '@application/interfaces/repositories/mfa/createMfaChallengeRepository';
+import { AttemptMfaChallengeRepository } from '@application/interfaces/repositories/mfa/attemptMfaChallengeRepository';
+import { DeleteMfaChallengeRepository } from '@application/interfaces/repositories/mfa/deleteMfaChallengeRepository';
+
+export class MfaChallengeRepository
+  implements
+    CreateMfaChallengeRepository,
+    AttemptMfaChallengeRepository,
+    DeleteMfaChallengeRepository
+{
+  static async getCollection(): Promise<Collection> {
+    return dbConnection.getCollection('mfaChallenges');
+  }
+
+  async createMfaChallenge(
+    challengeData: CreateMfaChallengeRepository.Request
+  ): Promise<CreateMfaChallengeRepository.Response> {
+    const collection = await MfaChallengeRepository.getCollection();
+    const { insertedId } = await collection.insertOne({
+      ...challengeData,
+      attempts: 0,
+      createdAt: new Date(),
+    });
+    return objectIdToString(insertedId);
+  }
+
+  async attemptMfaChallenge(
+    token: AttemptMfaChallengeRepository.Request
+  ): Promise<AttemptMfaChallengeRepository.Response> {
+    const collection = await MfaChallengeRepository.getCollection();
+    // counting in the same query keeps parallel guesses from sharing a count
+    const { value: rawChallenge } = await collection.findOneAndUpdate(
+      { token },
+      { $inc: { attempts: 1 } },
+      { returnDocument: 'after' }
+    );
+
+    return rawChallenge && mapDocument(rawChallenge);
+  }
+
+  async deleteMfaChallenge(
+    token: DeleteMfaChallengeRepository.Request
+  ): Promise<DeleteMfaChallengeRepository.Response> {
+    const collection = await MfaChallengeRepository.getCollection();
+    await collection.deleteOne({ token });
+  }
+}
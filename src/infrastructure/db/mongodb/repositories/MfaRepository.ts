@@ -0,0 +1,100 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import { mapDocument } from '@infrastructure/db/mongodb/helpers/mapper';
+import { CreateMfaRepository } from '@application/interfaces/repositories/mfa/createMfaRepository';
+import { GetMfaByUserIdRepository } from '@application/interfaces/repositories/mfa/getMfaByUserIdRepository';
+import { EnableMfaRepository } from '@application/interfaces/repositories/mfa/enableMfaRepository';
+import { UseMfaTimeStepRepository } from '@application/interfaces/repositories/mfa/useMfaTimeStepRepository';
+import { RemoveRecoveryCodeRepository } from '@application/interfaces/repositories/mfa/removeRecoveryCodeRepository';
+import { DeleteMfaByUserIdRepository } from '@application/interfaces/repositories/mfa/deleteMfaByUserIdRepository';
+
+export class MfaRepository
+  implements
+    CreateMfaRepository,
+    GetMfaByUserIdRepository,
+    EnableMfaRepository,
+    UseMfaTimeStepRepository,
+    RemoveRecoveryCodeRepository,
+    DeleteMfaByUserIdRepository
+{
+  static async getCollection(): Promise<Collection> {
+    return dbConnection.getCollection('mfa');
+  }
+
+  async createMfa(
+    mfaData: CreateMfaRepository.Request
+  ): Promise<CreateMfaRepository.Response> {
+    const collection = await MfaRepository.getCollection();
+    const { userId, secret } = mfaData;
+    await collection.updateOne(
+      { userId },
+      {
+        $set: {
+          secret,
+          enabled: false,
+          recoveryCodes: [],
+          lastUsedStep: null,
+          createdAt: new Date(),
+        },
+      },
+      { upsert: true }
+    );
+  }
+
+  async getMfaByUserId(
+    userId: GetMfaByUserIdRepository.Request
+  ): Promise<GetMfaByUserIdRepository.Response> {
+    const collection = await MfaRepository.getCollection();
+    const rawMfa = await collection.findOne({ userId });
+
+    return rawMfa && mapDocument(rawMfa);
+  }
+
+  async enableMfa(
+    params: EnableMfaRepository.Request
+  ): Promise<EnableMfaRepository.Response> {
+    const collection = await MfaRepository.getCollection();
+    const { userId, recoveryCodes } = params;
+    await collection.updateOne(
+      { userId },
+      { $set: { enabled: true, recoveryCodes, updatedAt: new Date() } }
+    );
+  }
+
+  async useMfaTimeStep(
+    params: UseMfaTimeStepRepository.Request
+  ): Promise<UseMfaTimeStepRepository.Response> {
+    const collection = await MfaRepository.getCollection();
+    const { userId, timeStep } = params;
+    // only moves forward, so a code cannot be replayed in its window
+    const { modifiedCount } = await collection.updateOne(
+      {
+        userId,
+        $or: [{ lastUsedStep: null }, { lastUsedStep: { $lt: timeStep } }],
+      },
+      { $set: { lastUsedStep: timeStep } }
+    );
+
+    return modifiedCount === 1;
+  }
+
+  async removeRecoveryCode(
+    params: RemoveRecoveryCodeRepository.Request
+  ): Promise<RemoveRecoveryCodeRepository.Response> {
+    const collection = await MfaRepository.getCollection();
+    const { userId, recoveryCode } = params;
+    const { modifiedCount } = await collection.updateOne(
+      { userId, recoveryCodes: recoveryCode },
+      { $pull: { recoveryCodes: recoveryCode } }
+    );
+
+    return modifiedCount === 1;
+  }
+
+  async deleteMfaByUserId(
+    userId: DeleteMfaByUserIdRepository.Request
+  ): Promise<DeleteMfaByUserIdRepository.Response> {
+    const collection = await MfaRepository.getCollection();
+    await collection.deleteOne({ userId });
+  }
+}
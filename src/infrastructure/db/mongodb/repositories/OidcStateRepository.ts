@@ -0,0 +1,37 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import {
+  mapDocument,
+  objectIdToString,
+} from '@infrastructure/db/mongodb/helpers/mapper';
+import { CreateOidcStateRepository } from '@application/interfaces/repositories/identities/createOidcStateRepository';
+import { ConsumeOidcStateRepository } from '@application/interfaces/repositories/identities/consumeOidcStateRepository';
+
+export class OidcStateRepository
+  implements CreateOidcStateRepository, ConsumeOidcStateRepository
+{
+  static async getCollection(): Promise<Collection> {
+    return dbConnection.getCollection('oidcStates');
+  }
+
+  async createOidcState(
+    stateData: CreateOidcStateRepository.Request
+  ): Promise<CreateOidcStateRepository.Response> {
+    const collection = await OidcStateRepository.getCollection();
+    const { insertedId } = await collection.insertOne({
+      ...stateData,
+      createdAt: new Date(),
+    });
+    return objectIdToString(insertedId);
+  }
+
+  async consumeOidcState(
+    state: ConsumeOidcStateRepository.Request
+  ): Promise<ConsumeOidcStateRepository.Response> {
+    const collection = await OidcStateRepository.getCollection();
+    // a state is good for a single callback, so it goes as it is read
+    const { value: rawState } = await collection.findOneAndDelete({ state });
+
+    return rawState && mapDocument(rawState);
+  }
+}
@@ -0,0 +1,93 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import { mapCollection } from '@infrastructure/db/mongodb/helpers/mapper';
+import { AddPageGuestRepository } from '@application/interfaces/repositories/pageGuests/addPageGuestRepository';
+import { GetPageGuestsByPageIdRepository } from '@application/interfaces/repositories/pageGuests/getPageGuestsByPageIdRepository';
+import { GetPageGuestsByUserIdRepository } from '@application/interfaces/repositories/pageGuests/getPageGuestsByUserIdRepository';
+import { RemovePageGuestRepository } from '@application/interfaces/repositories/pageGuests/removePageGuestRepository';
+import { DeletePageGuestsByUserIdRepository } from '@application/interfaces/repositories/pageGuests/deletePageGuestsByUserIdRepository';
+import { MovePageGuestsRepository } from '@application/interfaces/repositories/pageGuests/movePageGuestsRepository';
+
+export class PageGuestRepository
+  implements
+    AddPageGuestRepository,
+    GetPageGuestsByPageIdRepository,
+    GetPageGuestsByUserIdRepository,
+    RemovePageGuestRepository,
+    DeletePageGuestsByUserIdRepository,
+    MovePageGuestsRepository
+{
+  static async getCollection(): Promise<Collection> {
+    return dbConnection.getCollection('pageGuests');
+  }
+
+  async addPageGuest(
+    pageGuestData: AddPageGuestRepository.Request
+  ): Promise<AddPageGuestRepository.Response> {
+    const collection = await PageGuestRepository.getCollection();
+    const { pageId, userId, ...grant } = pageGuestData;
+
+    // sharing a page again with the same user only changes their role
+    await collection.updateOne(
+      { pageId, userId },
+      {
+        $set: { ...grant, updatedAt: new Date() },
+        $setOnInsert: { createdAt: new Date() },
+      },
+      { upsert: true }
+    );
+  }
+
+  async getPageGuestsByPageId(
+    pageId: GetPageGuestsByPageIdRepository.Request
+  ): Promise<GetPageGuestsByPageIdRepository.Response> {
+    const collection = await PageGuestRepository.getCollection();
+    const rawPageGuests = await collection
+      .find({ pageId })
+      .sort({ createdAt: 1 })
+      .toArray();
+
+    return mapCollection(rawPageGuests);
+  }
+
+  async getPageGuestsByUserId(
+    userId: GetPageGuestsByUserIdRepository.Request
+  ): Promise<GetPageGuestsByUserIdRepository.Response> {
+    const collection = await PageGuestRepository.getCollection();
+    const rawPageGuests = await collection
+      .find({ userId })
+      .sort({ createdAt: -1 })
+      .toArray();
+
+    return mapCollection(rawPageGuests);
+  }
+
+  async removePageGuest(
+    params: RemovePageGuestRepository.Request
+  ): Promise<RemovePageGuestRepository.Response> {
+    const collection = await PageGuestRepository.getCollection();
+    const { pageId, userId } = params;
+    const { deletedCount } = await collection.deleteOne({ pageId, userId });
+
+    return deletedCount === 1;
+  }
+
+  async deletePageGuestsByUserId(
+    userId: DeletePageGuestsByUserIdRepository.Request
+  ): Promise<DeletePageGuestsByUserIdRepository.Response> {
+    const collection = await PageGuestRepository.getCollection();
+    await collection.deleteMany({ userId });
+  }
+
+  async movePageGuests(
+    params: MovePageGuestsRepository.Request
+  ): Promise<MovePageGuestsRepository.Response> {
+    const collection = await PageGuestRepository.getCollection();
+    const { pageIds, workspaceId } = params;
+
+    await collection.updateMany(
+      { pageId: { $in: pageIds } },
+      { $set: { workspaceId, updatedAt: new Date() } }
+    );
+  }
+}
@@ -4,6 +4,7 @@ import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
 import { CreatePageRepository } from '@application/interfaces/repositories/pages/createPageRepository';
 import {
   isValidObjectId,
+  mapCollection,
   mapDocument,
   objectIdToString,
   stringToObjectId,
@@ -20,8 +21,19 @@ import { UpdatePageTitleByPageIdRepository } from '@application/interfaces/repos
 import { RemoveFromFavoriteRepository } from '@application/interfaces/repositories/pages/removeFromFavoriteRepository';
 import { DeletePageRepository } from '@application/interfaces/repositories/pages/deletePageRepository';
 import { DeletePagesByWorkspaceIdRepository } from '@application/interfaces/repositories/pages/deletePagesByWorkspaceIdRepository';
-import { GetPageIdsByPathRepository } from '@application/interfaces/repositories/pages/getPageIdsByPathRepository';
-import { UpdatePagePathByPageIdRepository } from '@application/interfaces/repositories/pages/updatePagePathByPageIdRepository';
+import { UpdatePagePublicationByPageIdRepository } from '@application/interfaces/repositories/pages/updatePagePublicationByPageIdRepository';
+import { GetPageByPublicSlugRepository } from '@application/interfaces/repositories/pages/getPageByPublicSlugRepository';
+import { GetDescendantsByPageIdRepository } from '@application/interfaces/repositories/pages/getDescendantsByPageIdRepository';
+import { GetTrashedDescendantsByPageIdRepository } from '@application/interfaces/repositories/pages/getTrashedDescendantsByPageIdRepository';
+import { GetPagesByWorkspaceIdRepository } from '@application/interfaces/repositories/pages/getPagesByWorkspaceIdRepository';
+import { RemoveUserFromFavoritesRepository } from '@application/interfaces/repositories/pages/removeUserFromFavoritesRepository';
+import { MovePagesRepository } from '@application/interfaces/repositories/pages/movePagesRepository';
+import { TrashPagesRepository } from '@application/interfaces/repositories/pages/trashPagesRepository';
+import { GetTrashedPagesByWorkspaceIdRepository } from '@application/interfaces/repositories/pages/getTrashedPagesByWorkspaceIdRepository';
+import { GetTrashedPagesByPageIdRepository } from '@application/interfaces/repositories/pages/getTrashedPagesByPageIdRepository';
+import { GetTrashedPagesDueForPurgeRepository } from '@application/interfaces/repositories/pages/getTrashedPagesDueForPurgeRepository';
+import { RestorePagesRepository } from '@application/interfaces/repositories/pages/restorePagesRepository';
+import { PurgeTrashedPagesRepository } from '@application/interfaces/repositories/pages/purgeTrashedPagesRepository';
 
 export class PageRepository
   implements
@@ -30,16 +42,27 @@ export class PageRepository
     GetPageByIdRepository,
     GetPageContentByPageIdRepository,
     GetPageSettingsByPageIdRepository,
-    GetPageIdsByPathRepository,
+    GetPageByPublicSlugRepository,
+    GetDescendantsByPageIdRepository,
+    GetTrashedDescendantsByPageIdRepository,
+    GetPagesByWorkspaceIdRepository,
+    GetTrashedPagesByWorkspaceIdRepository,
+    GetTrashedPagesByPageIdRepository,
+    GetTrashedPagesDueForPurgeRepository,
     UpdatePageContentByPageIdRepository,
     UpdatePageCoverByPageIdRepository,
     UpdatePageIconByPageIdRepository,
     UpdatePageSettingsByPageIdRepository,
     UpdatePageTitleByPageIdRepository,
-    UpdatePagePathByPageIdRepository,
+    UpdatePagePublicationByPageIdRepository,
+    MovePagesRepository,
+    TrashPagesRepository,
+    RestorePagesRepository,
     RemoveFromFavoriteRepository,
     DeletePageRepository,
-    DeletePagesByWorkspaceIdRepository
+    DeletePagesByWorkspaceIdRepository,
+    PurgeTrashedPagesRepository,
+    RemoveUserFromFavoritesRepository
 {
   static async getCollection(): Promise<Collection> {
     return dbConnection.getCollection('pages');
@@ -146,24 +169,86 @@ export class PageRepository
     return null;
   }
 
-  async getPageIdsByPath(
-    path: GetPageIdsByPathRepository.Request
-  ): Promise<GetPageIdsByPathRepository.Response> {
+  async getPageByPublicSlug(
+    slug: GetPageByPublicSlugRepository.Request
+  ): Promise<GetPageByPublicSlugRepository.Response> {
+    const collection = await PageRepository.getCollection();
+    const rawPage = await collection.findOne({ 'publication.slug': slug });
+
+    return rawPage && mapDocument(rawPage);
+  }
+
+  async getDescendantsByPageId(
+    pageId: GetDescendantsByPageIdRepository.Request
+  ): Promise<GetDescendantsByPageIdRepository.Response> {
     const collection = await PageRepository.getCollection();
     const rawPages = await collection
-      .find(
-        {
-          path: { $eq: path },
-        },
-        {
-          projection: { id: 1 },
-        }
-      )
+      .find({ ancestors: pageId, trashedAt: null })
       .toArray();
 
-    // eslint-disable-next-line no-underscore-dangle
-    const pageIds = rawPages.map(page => page._id.toString());
-    return pageIds;
+    return mapCollection(rawPages);
+  }
+
+  async getTrashedDescendantsByPageId(
+    pageId: GetTrashedDescendantsByPageIdRepository.Request
+  ): Promise<GetTrashedDescendantsByPageIdRepository.Response> {
+    const collection = await PageRepository.getCollection();
+    const rawPages = await collection
+      .find({ ancestors: pageId, trashedAt: { $ne: null } })
+      .toArray();
+
+    return mapCollection(rawPages);
+  }
+
+  async getPagesByWorkspaceId(
+    workspaceId: GetPagesByWorkspaceIdRepository.Request
+  ): Promise<GetPagesByWorkspaceIdRepository.Response> {
+    const collection = await PageRepository.getCollection();
+    const rawPages = await collection.find({ workspaceId }).toArray();
+
+    return mapCollection(rawPages);
+  }
+
+  async getTrashedPagesByWorkspaceId(
+    workspaceId: GetTrashedPagesByWorkspaceIdRepository.Request
+  ): Promise<GetTrashedPagesByWorkspaceIdRepository.Response> {
+    const collection = await PageRepository.getCollection();
+    // only the pages that were deleted themselves, not the rest of their subtree
+    const rawPages = await collection
+      .find({
+        workspaceId,
+        trashedAt: { $ne: null },
+        $expr: { $eq: ['$trashedWithPageId', { $toString: '$_id' }] },
+      })
+      .sort({ trashedAt: -1 })
+      .toArray();
+
+    return mapCollection(rawPages);
+  }
+
+  async getTrashedPagesByPageId(
+    pageId: GetTrashedPagesByPageIdRepository.Request
+  ): Promise<GetTrashedPagesByPageIdRepository.Response> {
+    const collection = await PageRepository.getCollection();
+    const rawPages = await collection
+      .find({ trashedWithPageId: pageId })
+      .toArray();
+
+    return mapCollection(rawPages);
+  }
+
+  async getTrashedPagesDueForPurge(
+    trashedBefore: GetTrashedPagesDueForPurgeRepository.Request
+  ): Promise<GetTrashedPagesDueForPurgeRepository.Response> {
+    const collection = await PageRepository.getCollection();
+    const rawPages = await collection
+      .find({
+        trashedAt: { $lte: trashedBefore },
+        $expr: { $eq: ['$trashedWithPageId', { $toString: '$_id' }] },
+      })
+      .toArray();
+
+    return mapCollection(rawPages);
   }
 
   async updatePageContentByPageId(
@@ -259,19 +344,70 @@ export class PageRepository
     return mapDocument(rawPageContent);
   }
 
-  async updatePagePathByPageId(
-    params: UpdatePagePathByPageIdRepository.Request
-  ): Promise<UpdatePagePathByPageIdRepository.Response> {
+  async updatePagePublicationByPageId(
+    params: UpdatePagePublicationByPageIdRepository.Request
+  ): Promise<UpdatePagePublicationByPageIdRepository.Response> {
     const collection = await PageRepository.getCollection();
-    const { pageId, path } = params;
+    const { pageId, publication } = params;
 
-    const { value: rawPageContent } = await collection.findOneAndUpdate(
+    await collection.updateOne(
       { _id: stringToObjectId(pageId) },
-      { $set: { path } },
-      { upsert: true, returnDocument: 'after' }
+      { $set: { publication } }
     );
+  }
 
-    return mapDocument(rawPageContent);
+  async movePages(
+    params: MovePagesRepository.Request
+  ): Promise<MovePagesRepository.Response> {
+    const collection = await PageRepository.getCollection();
+    const { workspaceId, pages } = params;
+
+    await collection.bulkWrite(
+      pages.map(({ pageId, parentId, ancestors }) => ({
+        updateOne: {
+          filter: { _id: stringToObjectId(pageId) },
+          update: {
+            $set: { parentId, ancestors, workspaceId, updatedAt: new Date() },
+          },
+        },
+      }))
+    );
+  }
+
+  async trashPages(
+    params: TrashPagesRepository.Request
+  ): Promise<TrashPagesRepository.Response> {
+    const collection = await PageRepository.getCollection();
+    const { pageId, pageIds, trashedAt } = params;
+
+    await collection.updateMany(
+      { _id: { $in: pageIds.map(id => stringToObjectId(id)) } },
+      { $set: { trashedAt, trashedWithPageId: pageId } }
+    );
+  }
+
+  async restorePages(
+    params: RestorePagesRepository.Request
+  ): Promise<RestorePagesRepository.Response> {
+    const collection = await PageRepository.getCollection();
+    const { pages } = params;
+
+    await collection.bulkWrite(
+      pages.map(({ pageId, parentId, ancestors }) => ({
+        updateOne: {
+          filter: { _id: stringToObjectId(pageId) },
+          update: {
+            $set: {
+              parentId,
+              ancestors,
+              trashedAt: null,
+              trashedWithPageId: null,
+              updatedAt: new Date(),
+            },
+          },
+        },
+      }))
+    );
   }
 
   async removeFromFavorite(
@@ -303,4 +439,20 @@ export class PageRepository
       workspaceId,
     });
   }
+
+  async purgeTrashedPages(
+    pageId: PurgeTrashedPagesRepository.Request
+  ): Promise<PurgeTrashedPagesRepository.Response> {
+    const collection = await PageRepository.getCollection();
+    await collection.deleteMany({ trashedWithPageId: pageId });
+  }
+
+  async removeUserFromFavorites(
+    userId: RemoveUserFromFavoritesRepository.Request
+  ): Promise<RemoveUserFromFavoritesRepository.Response> {
+    const collection = await PageRepository.getCollection();
+    await collection.updateMany({ favorite: userId }, {
+      $pull: { favorite: userId },
+    } as SetFields<Document>);
+  }
 }
@@ -0,0 +1,53 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import {
+  mapDocument,
+  objectIdToString,
+} from '@infrastructure/db/mongodb/helpers/mapper';
+import { CreatePasswordResetTokenRepository } from '@application/interfaces/repositories/tokens/createPasswordResetTokenRepository';
+import { ConsumePasswordResetTokenRepository } from '@application/interfaces/repositories/tokens/consumePasswordResetTokenRepository';
+import { DeletePasswordResetTokensByUserIdRepository } from '@application/interfaces/repositories/tokens/deletePasswordResetTokensByUserIdRepository';
+
+export class PasswordResetTokenRepository
+  implements
+    CreatePasswordResetTokenRepository,
+    ConsumePasswordResetTokenRepository,
+    DeletePasswordResetTokensByUserIdRepository
+{
+  static async getCollection(): Promise<Collection> {
+    return dbConnection.getCollection('passwordResetTokens');
+  }
+
+  async createPasswordResetToken(
+    tokenData: CreatePasswordResetTokenRepository.Request
+  ): Promise<CreatePasswordResetTokenRepository.Response> {
+    const collection = await PasswordResetTokenRepository.getCollection();
+    const { insertedId } = await collection.insertOne({
+      ...tokenData,
+      usedAt: null,
+      createdAt: new Date(),
+    });
+    return objectIdToString(insertedId);
+  }
+
+  async consumePasswordResetToken(
+    token: ConsumePasswordResetTokenRepository.Request
+  ): Promise<ConsumePasswordResetTokenRepository.Response> {
+    const collection = await PasswordResetTokenRepository.getCollection();
+    // marking the token in the same query keeps a second request from using it
+    const { value: rawToken } = await collection.findOneAndUpdate(
+      { token, usedAt: null },
+      { $set: { usedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+
+    return rawToken && mapDocument(rawToken);
+  }
+
+  async deletePasswordResetTokensByUserId(
+    userId: DeletePasswordResetTokensByUserIdRepository.Request
+  ): Promise<DeletePasswordResetTokensByUserIdRepository.Response> {
+    const collection = await PasswordResetTokenRepository.getCollection();
+    await collection.deleteMany({ userId });
+  }
+}
@@ -1,26 +1,50 @@
 import { CreateTokenRepository } from '@application/interfaces/repositories/tokens/createTokenRepository';
 import { DeleteTokenRepository } from '@application/interfaces/repositories/tokens/deleteTokenRepository';
+import { DeleteTokensByFamilyRepository } from '@application/interfaces/repositories/tokens/deleteTokensByFamilyRepository';
+import { DeleteTokensByUserIdRepository } from '@application/interfaces/repositories/tokens/deleteTokensByUserIdRepository';
+import { GetSessionsByUserIdRepository } from '@application/interfaces/repositories/tokens/getSessionsByUserIdRepository';
 import { GetTokenRepository } from '@application/interfaces/repositories/tokens/getTokenRepository';
-import { Collection } from 'mongodb';
+import { RetireTokenRepository } from '@application/interfaces/repositories/tokens/retireTokenRepository';
+import { Collection, ObjectId } from 'mongodb';
 import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
 import {
+  isValidObjectId,
   mapDocument,
   objectIdToString,
+  stringToObjectId,
 } from '@infrastructure/db/mongodb/helpers/mapper';
 
 export class TokenRepository
-  implements CreateTokenRepository, GetTokenRepository, DeleteTokenRepository
+  implements
+    CreateTokenRepository,
+    GetTokenRepository,
+    GetSessionsByUserIdRepository,
+    RetireTokenRepository,
+    DeleteTokenRepository,
+    DeleteTokensByFamilyRepository,
+    DeleteTokensByUserIdRepository
 {
   static async getCollection(): Promise<Collection> {
     return dbConnection.getCollection('tokens');
   }
 
   async createToken(
-    token: CreateTokenRepository.Request
+    tokenData: CreateTokenRepository.Request
   ): Promise<CreateTokenRepository.Response> {
     const collection = await TokenRepository.getCollection();
+    const { token, userId, family, userAgent, ip } = tokenData;
+
+    // a token without a family starts a new one, named after its own id
+    const tokenId = new ObjectId();
     const { insertedId } = await collection.insertOne({
+      _id: tokenId,
       token,
+      userId,
+      family: family || objectIdToString(tokenId),
+      userAgent: userAgent || null,
+      ip: ip || null,
+      retiredAt: null,
+      lastUsedAt: new Date(),
       createdAt: new Date(),
     });
     return objectIdToString(insertedId);
@@ -35,16 +59,70 @@ export class TokenRepository
     });
 
     if (rawToken) {
-      return mapDocument(rawToken);
+      const storedToken = mapDocument(rawToken);
+      // tokens issued before rotation existed have no family of their own
+      return { ...storedToken, family: storedToken.family || storedToken.id };
     }
 
     return null;
   }
 
+  async getSessionsByUserId(
+    userId: GetSessionsByUserIdRepository.Request
+  ): Promise<GetSessionsByUserIdRepository.Response> {
+    const collection = await TokenRepository.getCollection();
+    const rawTokens = await collection
+      .find({ userId, retiredAt: null })
+      .sort({ lastUsedAt: -1 })
+      .toArray();
+
+    // like getToken, a token issued before rotation is its own family
+    return rawTokens.map(({ _id: tokenObjectId, ...rawToken }) => ({
+      id: rawToken.family || objectIdToString(tokenObjectId),
+      userAgent: rawToken.userAgent || null,
+      ip: rawToken.ip || null,
+      lastUsedAt: rawToken.lastUsedAt || rawToken.createdAt,
+    }));
+  }
+
+  async retireToken(
+    token: RetireTokenRepository.Request
+  ): Promise<RetireTokenRepository.Response> {
+    const collection = await TokenRepository.getCollection();
+    const { modifiedCount } = await collection.updateOne(
+      { token, retiredAt: null },
+      { $set: { retiredAt: new Date() } }
+    );
+
+    return modifiedCount === 1;
+  }
+
   async deleteToken(
     token: DeleteTokenRepository.Request
   ): Promise<DeleteTokenRepository.Response> {
     const collection = await TokenRepository.getCollection();
     await collection.deleteOne({ token });
   }
+
+  async deleteTokensByFamily(
+    family: DeleteTokensByFamilyRepository.Request
+  ): Promise<DeleteTokensByFamilyRepository.Response> {
+    const collection = await TokenRepository.getCollection();
+    // a token issued before rotation heads its family with its own id
+    await collection.deleteMany({
+      $or: [
+        { family },
+        ...(isValidObjectId(family)
+          ? [{ _id: stringToObjectId(family), family: { $exists: false } }]
+          : []),
+      ],
+    });
+  }
+
+  async deleteTokensByUserId(
+    userId: DeleteTokensByUserIdRepository.Request
+  ): Promise<DeleteTokensByUserIdRepository.Response> {
+    const collection = await TokenRepository.getCollection();
+    await collection.deleteMany({ userId });
+  }
 }
@@ -0,0 +1,122 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import {
+  isValidObjectId,
+  mapDocument,
+  stringToObjectId,
+} from '@infrastructure/db/mongodb/helpers/mapper';
+import { CreateUserExportRepository } from '@application/interfaces/repositories/userExports/createUserExportRepository';
+import { GetUserExportByIdRepository } from '@application/interfaces/repositories/userExports/getUserExportByIdRepository';
+import { ClaimPendingUserExportRepository } from '@application/interfaces/repositories/userExports/claimPendingUserExportRepository';
+import { CompleteUserExportRepository } from '@application/interfaces/repositories/userExports/completeUserExportRepository';
+import { GetExpiredUserExportsRepository } from '@application/interfaces/repositories/userExports/getExpiredUserExportsRepository';
+import { GetUserExportsByUserIdRepository } from '@application/interfaces/repositories/userExports/getUserExportsByUserIdRepository';
+import { DeleteUserExportsRepository } from '@application/interfaces/repositories/userExports/deleteUserExportsRepository';
+
+// a claim older than this belongs to a generation that died halfway
+const STALE_CLAIM_MS = 10 * 60 * 1000;
+
+export class UserExportRepository
+  implements
+    CreateUserExportRepository,
+    GetUserExportByIdRepository,
+    ClaimPendingUserExportRepository,
+    CompleteUserExportRepository,
+    GetExpiredUserExportsRepository,
+    GetUserExportsByUserIdRepository,
+    DeleteUserExportsRepository
+{
+  static async getCollection(): Promise<Collection> {
+    return dbConnection.getCollection('userExports');
+  }
+
+  async createUserExport(
+    userId: CreateUserExportRepository.Request
+  ): Promise<CreateUserExportRepository.Response> {
+    const collection = await UserExportRepository.getCollection();
+    const userExport = {
+      userId,
+      status: 'pending',
+      completedAt: null,
+      expiresAt: null,
+      createdAt: new Date(),
+    };
+    const { insertedId } = await collection.insertOne({ ...userExport });
+
+    return mapDocument({ _id: insertedId, ...userExport });
+  }
+
+  async getUserExportById(
+    exportId: GetUserExportByIdRepository.Request
+  ): Promise<GetUserExportByIdRepository.Response> {
+    if (!isValidObjectId(exportId)) {
+      return null;
+    }
+
+    const collection = await UserExportRepository.getCollection();
+    const rawUserExport = await collection.findOne({
+      _id: stringToObjectId(exportId),
+    });
+
+    return rawUserExport && mapDocument(rawUserExport);
+  }
+
+  async claimPendingUserExport(): Promise<ClaimPendingUserExportRepository.Response> {
+    const collection = await UserExportRepository.getCollection();
+    const { value: rawUserExport } = await collection.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'pending' },
+          {
+            status: 'processing',
+            claimedAt: { $lt: new Date(Date.now() - STALE_CLAIM_MS) },
+          },
+        ],
+      },
+      { $set: { status: 'processing', claimedAt: new Date() } },
+      { sort: { createdAt: 1 }, returnDocument: 'after' }
+    );
+
+    return rawUserExport && mapDocument(rawUserExport);
+  }
+
+  async completeUserExport(
+    params: CompleteUserExportRepository.Request
+  ): Promise<CompleteUserExportRepository.Response> {
+    const collection = await UserExportRepository.getCollection();
+    const { exportId, status, expiresAt } = params;
+    await collection.updateOne(
+      { _id: stringToObjectId(exportId) },
+      { $set: { status, expiresAt, completedAt: new Date() } }
+    );
+  }
+
+  async getExpiredUserExports(
+    date: GetExpiredUserExportsRepository.Request
+  ): Promise<GetExpiredUserExportsRepository.Response> {
+    const collection = await UserExportRepository.getCollection();
+    const rawUserExports = await collection
+      .find({ expiresAt: { $lte: date } })
+      .toArray();
+
+    return rawUserExports.map(rawUserExport => mapDocument(rawUserExport));
+  }
+
+  async getUserExportsByUserId(
+    userId: GetUserExportsByUserIdRepository.Request
+  ): Promise<GetUserExportsByUserIdRepository.Response> {
+    const collection = await UserExportRepository.getCollection();
+    const rawUserExports = await collection.find({ userId }).toArray();
+
+    return rawUserExports.map(rawUserExport => mapDocument(rawUserExport));
+  }
+
+  async deleteUserExports(
+    exportIds: DeleteUserExportsRepository.Request
+  ): Promise<DeleteUserExportsRepository.Response> {
+    const collection = await UserExportRepository.getCollection();
+    await collection.deleteMany({
+      _id: { $in: exportIds.map(exportId => stringToObjectId(exportId)) },
+    });
+  }
+}
@@ -19,6 +19,11 @@ import { UpdateUserWorkspaceMetaDataByWorkspaceIdRepository } from '@application
 import { RemoveWorkspaceByUserIdRepository } from '@application/interfaces/repositories/users/removeWorkspaceByUserIdRepository';
 import { RemovePageIdFromFavoritesByWorkspaceIdRepository } from '@application/interfaces/repositories/users/removePageIdFromFavoritesByWorkspaceIdRepository';
 import { DeleteUserRepository } from '@application/interfaces/repositories/users/deleteUserRepository';
+import { UpdatePasswordRepository } from '@application/interfaces/repositories/users/updatePasswordRepository';
+import { VerifyEmailRepository } from '@application/interfaces/repositories/users/verifyEmailRepository';
+import { ScheduleUserDeletionRepository } from '@application/interfaces/repositories/users/scheduleUserDeletionRepository';
+import { CancelUserDeletionRepository } from '@application/interfaces/repositories/users/cancelUserDeletionRepository';
+import { GetUserIdsDueForDeletionRepository } from '@application/interfaces/repositories/users/getUserIdsDueForDeletionRepository';
 
 export class UserRepository
   implements
@@ -30,10 +35,15 @@ export class UserRepository
     GetWorkspacesByUserIdRepository,
     GetFavoritesByWorkspaceIdRepository,
     UpdateUserRepository,
+    UpdatePasswordRepository,
+    VerifyEmailRepository,
     UpdateUserProfilePictureRepository,
     UpdateUserWorkspaceMetaDataByWorkspaceIdRepository,
     RemoveWorkspaceByUserIdRepository,
     RemovePageIdFromFavoritesByWorkspaceIdRepository,
+    ScheduleUserDeletionRepository,
+    CancelUserDeletionRepository,
+    GetUserIdsDueForDeletionRepository,
     DeleteUserRepository
 {
   static async getCollection(): Promise<Collection> {
@@ -175,6 +185,30 @@ export class UserRepository
     return rawUser && mapDocument(rawUser);
   }
 
+  async updatePassword(
+    params: UpdatePasswordRepository.Request
+  ): Promise<UpdatePasswordRepository.Response> {
+    const collection = await UserRepository.getCollection();
+    const { userId, password } = params;
+    await collection.updateOne(
+      { _id: stringToObjectId(userId) },
+      { $set: { password, updatedAt: new Date() } }
+    );
+  }
+
+  async verifyEmail(
+    params: VerifyEmailRepository.Request
+  ): Promise<VerifyEmailRepository.Response> {
+    const collection = await UserRepository.getCollection();
+    const { userId, email } = params;
+    const { matchedCount } = await collection.updateOne(
+      { _id: stringToObjectId(userId), email },
+      { $set: { emailVerified: true, updatedAt: new Date() } }
+    );
+
+    return matchedCount === 1;
+  }
+
   async updateUserProfilePicture(
     params: UpdateUserProfilePictureRepository.Request
   ): Promise<UpdateUserProfilePictureRepository.Response> {
@@ -246,6 +280,44 @@ export class UserRepository
     return rawUser && mapDocument(rawUser);
   }
 
+  async scheduleUserDeletion(
+    params: ScheduleUserDeletionRepository.Request
+  ): Promise<ScheduleUserDeletionRepository.Response> {
+    const collection = await UserRepository.getCollection();
+    const { userId, scheduledDeletionAt } = params;
+    await collection.updateOne(
+      { _id: stringToObjectId(userId) },
+      { $set: { scheduledDeletionAt, updatedAt: new Date() } }
+    );
+  }
+
+  async cancelUserDeletion(
+    userId: CancelUserDeletionRepository.Request
+  ): Promise<CancelUserDeletionRepository.Response> {
+    const collection = await UserRepository.getCollection();
+    const { modifiedCount } = await collection.updateOne(
+      {
+        _id: stringToObjectId(userId),
+        scheduledDeletionAt: { $exists: true },
+      },
+      { $unset: { scheduledDeletionAt: '' }, $set: { updatedAt: new Date() } }
+    );
+
+    return modifiedCount === 1;
+  }
+
+  async getUserIdsDueForDeletion(
+    date: GetUserIdsDueForDeletionRepository.Request
+  ): Promise<GetUserIdsDueForDeletionRepository.Response> {
+    const collection = await UserRepository.getCollection();
+    const rawUsers = await collection
+      .find({ scheduledDeletionAt: { $lte: date } }, { projection: { _id: 1 } })
+      .toArray();
+
+    // eslint-disable-next-line no-underscore-dangle
+    return rawUsers.map(rawUser => objectIdToString(rawUser._id));
+  }
+
   async deleteUser(
     userId: DeleteUserRepository.Request
   ): Promise<DeleteUserRepository.Response> {
@@ -12,12 +12,14 @@ import { AddPageRepository } from '@application/interfaces/repositories/workspac
 import { GetAllMembersByWorkspaceIdRepository } from '@application/interfaces/repositories/workspaces/getAllMembersByWorkspaceIdRepository';
 import { GetAllRootPagesRepository } from '@application/interfaces/repositories/workspaces/getAllRootPagesRepository';
 import { GetChildrensByPageReferenceRepository } from '@application/interfaces/repositories/workspaces/getChildrensByPageReferenceRepsoitory';
+import { GetPagesByWorkspaceIdRepository } from '@application/interfaces/repositories/workspaces/getPagesByWorkspaceIdRepository';
 import { GetWorkspaceByIdRepository } from '@application/interfaces/repositories/workspaces/getWorkspaceByIdRepository';
 import { UpdateWorkspaceRepository } from '@application/interfaces/repositories/workspaces/updateWorkspaceRepository';
 import { RemoveMemberByWorkspaceIdRepository } from '@application/interfaces/repositories/workspaces/removeMemberByWorkspaceIdRepository';
 import { RemovePageByPageIdRepository } from '@application/interfaces/repositories/workspaces/removePageByPageIdRepository';
 import { DeleteWorkspaceRepository } from '@application/interfaces/repositories/workspaces/deleteWorkspaceRepository';
 import { UpdateWorkspacePagesMetaDataByPageIdRepository } from '@application/interfaces/repositories/workspaces/updateWorkspacePagesMetaDataByPageIdRepository';
+import { UpdateMemberRoleByWorkspaceIdRepository } from '@application/interfaces/repositories/workspaces/updateMemberRoleByWorkspaceIdRepository';
 
 export class WorkspaceRepository
   implements
@@ -27,9 +29,11 @@ export class WorkspaceRepository
     GetAllMembersByWorkspaceIdRepository,
     GetAllRootPagesRepository,
     GetChildrensByPageReferenceRepository,
+    GetPagesByWorkspaceIdRepository,
     GetWorkspaceByIdRepository,
     UpdateWorkspaceRepository,
     UpdateWorkspacePagesMetaDataByPageIdRepository,
+    UpdateMemberRoleByWorkspaceIdRepository,
     RemoveMemberByWorkspaceIdRepository,
     RemovePageByPageIdRepository,
     DeleteWorkspaceRepository
@@ -53,14 +57,21 @@ export class WorkspaceRepository
     params: AddMemberByWorkspaceIdRepository.Request
   ): Promise<AddMemberByWorkspaceIdRepository.Response> {
     const collection = await WorkspaceRepository.getCollection();
-    const { workspaceId, memberId } = params;
+    const { workspaceId, memberId, role } = params;
 
-    const { value: rawWorkspace } = await collection.findOneAndUpdate(
-      { _id: stringToObjectId(workspaceId) },
-      { $addToSet: { members: memberId } } as SetFields<Document>,
-      { upsert: true, returnDocument: 'after' }
+    // a user holds a single membership, whatever its role
+    await collection.updateOne(
+      {
+        _id: stringToObjectId(workspaceId),
+        'members.userId': { $ne: memberId },
+      },
+      { $push: { members: { userId: memberId, role } } } as SetFields<Document>
     );
 
+    const rawWorkspace = await collection.findOne({
+      _id: stringToObjectId(workspaceId),
+    });
+
     return mapDocument(rawWorkspace);
   }
 
@@ -111,20 +122,13 @@ export class WorkspaceRepository
         {
           $match: {
             _id: stringToObjectId(workspaceId),
-            'pages.path': null,
-          },
-        },
-        {
-          $project: {
-            pages: {
-              $filter: {
-                input: '$pages',
-                as: 'page',
-                cond: { $eq: ['$$page.path', null] },
-              },
-            },
+            'pages.parentId': null,
           },
         },
+        { $unwind: '$pages' },
+        { $match: { 'pages.parentId': null } },
+        { $sort: { 'pages.position': 1 } },
+        { $group: { _id: '$_id', pages: { $push: '$pages' } } },
       ])
       .toArray();
 
@@ -141,13 +145,31 @@ export class WorkspaceRepository
     const collection = await WorkspaceRepository.getCollection();
     const { workspaceId, pageReference } = params;
 
-    const pathQuery = `,${pageReference}\\.`;
-
+    // children point at the id of their parent, its reference is looked up
     const rawChildrens = await collection
       .aggregate([
         { $match: { _id: stringToObjectId(workspaceId) } },
+        {
+          $project: {
+            pages: 1,
+            parent: {
+              $arrayElemAt: [
+                {
+                  $filter: {
+                    input: '$pages',
+                    as: 'page',
+                    cond: { $eq: ['$$page.reference', pageReference] },
+                  },
+                },
+                0,
+              ],
+            },
+          },
+        },
+        { $match: { 'parent.id': { $exists: true } } },
         { $unwind: '$pages' },
-        { $match: { 'pages.path': { $regex: pathQuery } } },
+        { $match: { $expr: { $eq: ['$pages.parentId', '$parent.id'] } } },
+        { $sort: { 'pages.position': 1 } },
         { $group: { _id: '$_id', pages: { $push: '$pages' } } },
       ])
       .toArray();
@@ -159,6 +181,23 @@ export class WorkspaceRepository
     return null;
   }
 
+  async getPagesByWorkspaceId(
+    workspaceId: GetPagesByWorkspaceIdRepository.Request
+  ): Promise<GetPagesByWorkspaceIdRepository.Response> {
+    if (!isValidObjectId(workspaceId)) {
+      return null;
+    }
+
+    // a single lookup by _id, only the page metadata is read
+    const collection = await WorkspaceRepository.getCollection();
+    const rawWorkspace = await collection.findOne(
+      { _id: stringToObjectId(workspaceId) },
+      { projection: { _id: 0, pages: 1 } }
+    );
+
+    return rawWorkspace && rawWorkspace.pages;
+  }
+
   async getWorkspaceById(
     workspaceId: GetWorkspaceByIdRepository.Request
   ): Promise<GetWorkspaceByIdRepository.Response> {
@@ -207,8 +246,13 @@ export class WorkspaceRepository
       updatedFields['pages.$.icon'] = pageData.icon;
     }
 
-    if (pageData.path) {
-      updatedFields['pages.$.path'] = pageData.path;
+    // a page moved to the root has its parent cleared
+    if (pageData.parentId !== undefined) {
+      updatedFields['pages.$.parentId'] = pageData.parentId;
+    }
+
+    if (pageData.position) {
+      updatedFields['pages.$.position'] = pageData.position;
     }
 
     await collection.updateOne(
@@ -217,6 +261,18 @@ export class WorkspaceRepository
     );
   }
 
+  async updateMemberRoleByWorkspaceId(
+    params: UpdateMemberRoleByWorkspaceIdRepository.Request
+  ): Promise<UpdateMemberRoleByWorkspaceIdRepository.Response> {
+    const collection = await WorkspaceRepository.getCollection();
+    const { workspaceId, memberId, role } = params;
+
+    await collection.updateOne(
+      { _id: stringToObjectId(workspaceId), 'members.userId': memberId },
+      { $set: { 'members.$.role': role, updatedAt: new Date() } }
+    );
+  }
+
   async removeMemberByWorkspaceId(
     params: RemoveMemberByWorkspaceIdRepository.Request
   ): Promise<RemoveMemberByWorkspaceIdRepository.Response> {
@@ -225,7 +281,7 @@ export class WorkspaceRepository
 
     const { value: rawWorkspace } = await collection.findOneAndUpdate(
       { _id: stringToObjectId(workspaceId) },
-      { $pull: { members: memberId } } as SetFields<Document>,
+      { $pull: { members: { userId: memberId } } } as SetFields<Document>,
       { returnDocument: 'after' }
     );
     return mapDocument(rawWorkspace);
@@ -0,0 +1,70 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { InvitationExpiredError } from '@application/errors/InvitationExpiredError';
+import { InvitationNotFoundError } from '@application/errors/InvitationNotFoundError';
+import { UnverifiedEmailError } from '@application/errors/UnverifiedEmailError';
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { AcceptInvitationInterface } from '@application/interfaces/use-cases/invitations/AcceptInvitationInterface';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { PermissionError } from '@infrastructure/http/errors/PermissionError';
+import {
+  conflict,
+  forbidden,
+  noContent,
+  notFound,
+} from '@infrastructure/http/helpers/http';
+
+export namespace AcceptInvitationController {
+  export type Request = HttpRequest<undefined, { token: string }>;
+  export type Response = HttpResponse<
+    | undefined
+    | InvitationNotFoundError
+    | InvitationExpiredError
+    | PermissionError
+    | UnverifiedEmailError
+    | UserNotFoundError
+    | WorkspaceNotFoundError
+  >;
+}
+
+export class AcceptInvitationController extends BaseController {
+  constructor(private readonly acceptInvitation: AcceptInvitationInterface) {
+    super();
+  }
+
+  async execute(
+    httpRequest: AcceptInvitationController.Request
+  ): Promise<AcceptInvitationController.Response> {
+    const { token } = httpRequest.params!;
+
+    const invitationOrError = await this.acceptInvitation.execute({
+      userId: httpRequest.userId!,
+      token,
+      ip: httpRequest.ip,
+    });
+
+    if (
+      invitationOrError instanceof InvitationNotFoundError ||
+      invitationOrError instanceof UserNotFoundError ||
+      invitationOrError instanceof WorkspaceNotFoundError
+    ) {
+      return notFound(invitationOrError);
+    }
+
+    if (invitationOrError instanceof ForbiddenError) {
+      return forbidden(new PermissionError());
+    }
+
+    if (invitationOrError instanceof UnverifiedEmailError) {
+      return forbidden(invitationOrError);
+    }
+
+    if (invitationOrError instanceof InvitationExpiredError) {
+      return conflict(invitationOrError);
+    }
+
+    return noContent();
+  }
+}
@@ -0,0 +1,52 @@
+import { MemberAlreadyExistsError } from '@application/errors/MemberAlreadyExistsError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { CreateInvitationInterface } from '@application/interfaces/use-cases/invitations/CreateInvitationInterface';
+import { WorkspaceRole } from '@domain/entities/Workspace';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { Validation } from '@infrastructure/http/interfaces/Validation';
+import { conflict, created, notFound } from '@infrastructure/http/helpers/http';
+
+export namespace CreateInvitationController {
+  export type Request = HttpRequest<
+    { email: string; role: WorkspaceRole },
+    { workspaceId: string }
+  >;
+  export type Response = HttpResponse<
+    { id: string } | WorkspaceNotFoundError | MemberAlreadyExistsError
+  >;
+}
+
+export class CreateInvitationController extends BaseController {
+  constructor(
+    private readonly createInvitationValidation: Validation,
+    private readonly createInvitation: CreateInvitationInterface
+  ) {
+    super(createInvitationValidation);
+  }
+
+  async execute(
+    httpRequest: CreateInvitationController.Request
+  ): Promise<CreateInvitationController.Response> {
+    const { workspaceId } = httpRequest.params!;
+    const { email, role } = httpRequest.body!;
+
+    const idOrError = await this.createInvitation.execute({
+      workspaceId,
+      email,
+      role,
+      invitedBy: httpRequest.userId!,
+    });
+
+    if (idOrError instanceof WorkspaceNotFoundError) {
+      return notFound(idOrError);
+    }
+
+    if (idOrError instanceof MemberAlreadyExistsError) {
+      return conflict(idOrError);
+    }
+
+    return created({ id: idOrError });
+  }
+}
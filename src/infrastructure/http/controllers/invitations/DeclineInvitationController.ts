@@ -0,0 +1,60 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { InvitationExpiredError } from '@application/errors/InvitationExpiredError';
+import { InvitationNotFoundError } from '@application/errors/InvitationNotFoundError';
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
+import { DeclineInvitationInterface } from '@application/interfaces/use-cases/invitations/DeclineInvitationInterface';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { PermissionError } from '@infrastructure/http/errors/PermissionError';
+import {
+  conflict,
+  forbidden,
+  noContent,
+  notFound,
+} from '@infrastructure/http/helpers/http';
+
+export namespace DeclineInvitationController {
+  export type Request = HttpRequest<undefined, { token: string }>;
+  export type Response = HttpResponse<
+    | undefined
+    | InvitationNotFoundError
+    | InvitationExpiredError
+    | PermissionError
+    | UserNotFoundError
+  >;
+}
+
+export class DeclineInvitationController extends BaseController {
+  constructor(private readonly declineInvitation: DeclineInvitationInterface) {
+    super();
+  }
+
+  async execute(
+    httpRequest: DeclineInvitationController.Request
+  ): Promise<DeclineInvitationController.Response> {
+    const { token } = httpRequest.params!;
+
+    const invitationOrError = await this.declineInvitation.execute({
+      userId: httpRequest.userId!,
+      token,
+    });
+
+    if (
+      invitationOrError instanceof InvitationNotFoundError ||
+      invitationOrError instanceof UserNotFoundError
+    ) {
+      return notFound(invitationOrError);
+    }
+
+    if (invitationOrError instanceof ForbiddenError) {
+      return forbidden(new PermissionError());
+    }
+
+    if (invitationOrError instanceof InvitationExpiredError) {
+      return conflict(invitationOrError);
+    }
+
+    return noContent();
+  }
+}
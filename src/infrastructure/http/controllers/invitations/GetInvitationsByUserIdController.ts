@@ -0,0 +1,33 @@
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
+import { GetInvitationsByUserIdInterface } from '@application/interfaces/use-cases/invitations/GetInvitationsByUserIdInterface';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { notFound, ok } from '@infrastructure/http/helpers/http';
+
+export namespace GetInvitationsByUserIdController {
+  export type Request = HttpRequest;
+  export type Response = HttpResponse<GetInvitationsByUserIdInterface.Response>;
+}
+
+export class GetInvitationsByUserIdController extends BaseController {
+  constructor(
+    private readonly getInvitationsByUserId: GetInvitationsByUserIdInterface
+  ) {
+    super();
+  }
+
+  async execute(
+    httpRequest: GetInvitationsByUserIdController.Request
+  ): Promise<GetInvitationsByUserIdController.Response> {
+    const invitationsOrError = await this.getInvitationsByUserId.execute(
+      httpRequest.userId!
+    );
+
+    if (invitationsOrError instanceof UserNotFoundError) {
+      return notFound(invitationsOrError);
+    }
+
+    return ok(invitationsOrError);
+  }
+}
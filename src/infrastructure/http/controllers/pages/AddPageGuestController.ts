@@ -0,0 +1,57 @@
+import { MemberAlreadyExistsError } from '@application/errors/MemberAlreadyExistsError';
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { AddPageGuestInterface } from '@application/interfaces/use-cases/pages/addPageGuestInterface';
+import { PageGuestRole } from '@domain/entities/PageGuest';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import {
+  conflict,
+  noContent,
+  notFound,
+} from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { Validation } from '@infrastructure/http/interfaces/Validation';
+
+export namespace AddPageGuestController {
+  export type Request = HttpRequest<
+    { email: string; role: PageGuestRole },
+    { pageId: string }
+  > & {
+    userId: string;
+  };
+  export type Response = HttpResponse<AddPageGuestInterface.Response>;
+}
+
+export class AddPageGuestController extends BaseController {
+  constructor(
+    private readonly addPageGuestValidation: Validation,
+    private readonly addPageGuest: AddPageGuestInterface
+  ) {
+    super(addPageGuestValidation);
+  }
+
+  async execute(
+    httpRequest: AddPageGuestController.Request
+  ): Promise<AddPageGuestController.Response> {
+    const { pageId } = httpRequest.params!;
+    const { email, role } = httpRequest.body!;
+    const userId = httpRequest.userId!;
+
+    const addedOrError = await this.addPageGuest.execute({
+      pageId,
+      email,
+      role,
+      grantedBy: userId,
+    });
+
+    if (addedOrError instanceof PageNotFoundError) {
+      return notFound(addedOrError);
+    }
+
+    if (addedOrError instanceof MemberAlreadyExistsError) {
+      return conflict(addedOrError);
+    }
+
+    return noContent();
+  }
+}
@@ -3,14 +3,20 @@ import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
 import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
 import { BaseController } from '@infrastructure/http/controllers/BaseController';
 import { Validation } from '@infrastructure/http/interfaces/Validation';
-import { created, forbidden } from '@infrastructure/http/helpers/http';
+import {
+  created,
+  forbidden,
+  notFound,
+} from '@infrastructure/http/helpers/http';
 import { GetPageByIdInterface } from '@application/interfaces/use-cases/pages/getPageByIdInterface';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { AddPageInterface } from '@application/interfaces/use-cases/workspaces/AddPageInterface';
 import { AddPageIdToFavoritesByWorkspaceIdInterface } from '@application/interfaces/use-cases/users/AddPageIdToFavoritesByWorkspaceIdInterface';
 
 export namespace CreatePageController {
-  export type Request = HttpRequest<CreatePageInterface.Request>;
+  export type Request = HttpRequest<
+    Omit<CreatePageInterface.Request, 'ancestors'>
+  >;
   export type Response = HttpResponse<{ id: string } | PageNotFoundError>;
 }
 
@@ -35,20 +41,37 @@ export class CreatePageController extends BaseController {
       content,
       favorite,
       pageSettings,
-      path,
+      parentId,
       workspaceId,
     } = httpRequest.body!;
 
-    const userId = favorite[0];
+    const userId = httpRequest.userId!;
+    // nobody can favorite the new page on behalf of another user
+    const favorites = favorite.includes(userId) ? [userId] : [];
+
+    const parentOrError = parentId
+      ? await this.getPageById.execute(parentId)
+      : null;
+
+    if (
+      parentOrError instanceof PageNotFoundError ||
+      (parentOrError &&
+        (parentOrError.workspaceId !== workspaceId || parentOrError.trashedAt))
+    ) {
+      return notFound(new PageNotFoundError());
+    }
 
     const id = await this.createPage.execute({
       title,
       icon,
       coverPicture,
       content,
-      favorite,
+      favorite: favorites,
       pageSettings,
-      path,
+      parentId,
+      ancestors: parentOrError
+        ? [...parentOrError.ancestors, parentOrError.id]
+        : [],
       workspaceId,
     });
 
@@ -65,14 +88,14 @@ export class CreatePageController extends BaseController {
       pageData: {
         id,
         reference,
-        path,
+        parentId,
         icon,
         title,
         createdAt,
       },
     });
 
-    if (userId) {
+    if (favorites.length) {
       await this.addPageIdToFavoritesByWorkspaceId.execute({
         userId,
         workspaceId,
@@ -37,11 +37,6 @@ export class DeletePageController extends BaseController {
       return notFound(pageOrError);
     }
 
-    await this.removePageByPageId.execute({
-      workspaceId: pageOrError.workspaceId,
-      pageId,
-    });
-
     const workspaceId = pageOrError.workspaceId!;
 
     const workspaceOrError = await this.getWorkspaceById.execute(workspaceId);
@@ -50,17 +45,37 @@ export class DeletePageController extends BaseController {
       return notFound(workspaceOrError);
     }
 
-    const userIds = workspaceOrError.members;
-
-    userIds.map(async userId => {
-      await this.removePageIdFromFavoritesByWorkspaceId.execute({
-        userId,
-        workspaceId,
-        pageId,
-      });
+    const pageIdsOrError = await this.deletePage.execute({
+      pageId,
+      workspaceId,
+      actorId: httpRequest.userId!,
+      ip: httpRequest.ip,
     });
 
-    await this.deletePage.execute(pageId);
+    if (pageIdsOrError instanceof PageNotFoundError) {
+      return notFound(pageIdsOrError);
+    }
+
+    const userIds = workspaceOrError.members.map(member => member.userId);
+
+    await Promise.all(
+      pageIdsOrError.map(async trashedPageId => {
+        await this.removePageByPageId.execute({
+          workspaceId,
+          pageId: trashedPageId,
+        });
+
+        await Promise.all(
+          userIds.map(async userId => {
+            await this.removePageIdFromFavoritesByWorkspaceId.execute({
+              userId,
+              workspaceId,
+              pageId: trashedPageId,
+            });
+          })
+        );
+      })
+    );
 
     return noContent();
   }
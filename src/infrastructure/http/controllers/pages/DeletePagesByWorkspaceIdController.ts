@@ -30,7 +30,11 @@ export class DeletePagesByWorkspaceIdController extends BaseController {
       return notFound(workspaceOrError);
     }
 
-    await this.deletePagesByWorkspaceId.execute(workspaceId);
+    await this.deletePagesByWorkspaceId.execute({
+      workspaceId,
+      actorId: httpRequest.userId!,
+      ip: httpRequest.ip,
+    });
 
     return noContent();
   }
@@ -0,0 +1,26 @@
+import { GetPageGuestsByPageIdInterface } from '@application/interfaces/use-cases/pages/getPageGuestsByPageIdInterface';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { ok } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+
+export namespace GetPageGuestsByPageIdController {
+  export type Request = HttpRequest<undefined, { pageId: string }>;
+  export type Response = HttpResponse<GetPageGuestsByPageIdInterface.Response>;
+}
+
+export class GetPageGuestsByPageIdController extends BaseController {
+  constructor(
+    private readonly getPageGuestsByPageId: GetPageGuestsByPageIdInterface
+  ) {
+    super();
+  }
+
+  async execute(
+    httpRequest: GetPageGuestsByPageIdController.Request
+  ): Promise<GetPageGuestsByPageIdController.Response> {
+    const { pageId } = httpRequest.params!;
+    const response = await this.getPageGuestsByPageId.execute(pageId);
+    return ok(response);
+  }
+}
@@ -0,0 +1,45 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { GetPublicPageBySlugInterface } from '@application/interfaces/use-cases/pages/getPublicPageBySlugInterface';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { notFound, ok } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+
+export namespace GetPublicPageBySlugController {
+  export type Request = HttpRequest<
+    undefined,
+    { slug: string; pageId?: string }
+  >;
+  export type Response = HttpResponse<GetPublicPageBySlugInterface.Response>;
+}
+
+export class GetPublicPageBySlugController extends BaseController {
+  constructor(
+    private readonly getPublicPageBySlug: GetPublicPageBySlugInterface
+  ) {
+    super();
+  }
+
+  async execute(
+    httpRequest: GetPublicPageBySlugController.Request
+  ): Promise<GetPublicPageBySlugController.Response> {
+    const { slug, pageId } = httpRequest.params!;
+
+    const publicPageOrError = await this.getPublicPageBySlug.execute({
+      slug,
+      pageId,
+    });
+
+    if (publicPageOrError instanceof PageNotFoundError) {
+      return notFound(publicPageOrError);
+    }
+
+    // the body flag alone does not stop crawlers from indexing the page
+    return ok(
+      publicPageOrError,
+      publicPageOrError.allowIndexing
+        ? undefined
+        : { 'X-Robots-Tag': 'noindex' }
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { InvalidPageMoveError } from '@application/errors/InvalidPageMoveError';
+import { PageLockedError } from '@application/errors/PageLockedError';
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { MovePageInterface } from '@application/interfaces/use-cases/pages/movePageInterface';
+import { AddPageInterface } from '@application/interfaces/use-cases/workspaces/AddPageInterface';
+import { RemovePageByPageIdInterface } from '@application/interfaces/use-cases/workspaces/RemovePageByPageIdInterface';
+import { UpdateWorkspacePagesMetaDataByPageIdInterface } from '@application/interfaces/use-cases/workspaces/UpdateWorkspacePagesMetaDataByPageIdInterface';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { PermissionError } from '@infrastructure/http/errors/PermissionError';
+import {
+  conflict,
+  forbidden,
+  locked,
+  noContent,
+  notFound,
+} from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { Validation } from '@infrastructure/http/interfaces/Validation';
+
+export namespace MovePageController {
+  export type Request = HttpRequest<
+    { parentId: string | null; workspaceId?: string },
+    { pageId: string }
+  >;
+  export type Response = HttpResponse<
+    | undefined
+    | PageNotFoundError
+    | PageLockedError
+    | InvalidPageMoveError
+    | PermissionError
+  >;
+}
+
+export class MovePageController extends BaseController {
+  constructor(
+    private readonly movePageValidation: Validation,
+    private readonly movePage: MovePageInterface,
+    private readonly updateWorkspacePagesMetaDataByPageId: UpdateWorkspacePagesMetaDataByPageIdInterface,
+    private readonly removePageByPageId: RemovePageByPageIdInterface,
+    private readonly addPage: AddPageInterface
+  ) {
+    super(movePageValidation);
+  }
+
+  async execute(
+    httpRequest: MovePageController.Request
+  ): Promise<MovePageController.Response> {
+    const { pageId } = httpRequest.params!;
+    const { parentId, workspaceId } = httpRequest.body!;
+    const { apiTokenWorkspaceId } = httpRequest;
+    const userId = httpRequest.userId!;
+
+    // a token bound to one workspace cannot carry pages into another
+    if (
+      apiTokenWorkspaceId &&
+      workspaceId &&
+      workspaceId !== apiTokenWorkspaceId
+    ) {
+      return forbidden(new PermissionError());
+    }
+
+    const movedOrError = await this.movePage.execute({
+      pageId,
+      userId,
+      parentId,
+      workspaceId,
+    });
+
+    if (movedOrError instanceof PageNotFoundError) {
+      return notFound(movedOrError);
+    }
+
+    if (movedOrError instanceof PageLockedError) {
+      return locked(movedOrError);
+    }
+
+    if (movedOrError instanceof InvalidPageMoveError) {
+      return conflict(movedOrError);
+    }
+
+    if (movedOrError instanceof ForbiddenError) {
+      return forbidden(new PermissionError());
+    }
+
+    const { previousWorkspaceId, pages } = movedOrError;
+
+    // one after the other, each page goes below the siblings added before it
+    await pages.reduce(async (previous, page) => {
+      await previous;
+
+      if (page.workspaceId === previousWorkspaceId) {
+        await this.updateWorkspacePagesMetaDataByPageId.execute({
+          workspaceId: page.workspaceId,
+          pageId: page.id,
+          pageData: { parentId: page.parentId },
+        });
+        return;
+      }
+
+      await this.removePageByPageId.execute({
+        workspaceId: previousWorkspaceId,
+        pageId: page.id,
+      });
+
+      await this.addPage.execute({
+        workspaceId: page.workspaceId,
+        pageData: {
+          id: page.id,
+          reference: page.reference,
+          parentId: page.parentId,
+          icon: page.icon,
+          title: page.title,
+          createdAt: page.createdAt,
+        },
+      });
+    }, Promise.resolve());
+
+    return noContent();
+  }
+}
@@ -0,0 +1,48 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { PublishPageInterface } from '@application/interfaces/use-cases/pages/publishPageInterface';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { notFound, ok } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { Validation } from '@infrastructure/http/interfaces/Validation';
+
+export namespace PublishPageController {
+  export type Request = HttpRequest<
+    {
+      includeChildren?: boolean;
+      allowIndexing?: boolean;
+      expiresInDays?: number;
+    },
+    { pageId: string }
+  >;
+  export type Response = HttpResponse<PublishPageInterface.Response>;
+}
+
+export class PublishPageController extends BaseController {
+  constructor(
+    private readonly publishPageValidation: Validation,
+    private readonly publishPage: PublishPageInterface
+  ) {
+    super(publishPageValidation);
+  }
+
+  async execute(
+    httpRequest: PublishPageController.Request
+  ): Promise<PublishPageController.Response> {
+    const { pageId } = httpRequest.params!;
+    const { includeChildren, allowIndexing, expiresInDays } = httpRequest.body!;
+
+    const publicationOrError = await this.publishPage.execute({
+      pageId,
+      includeChildren,
+      allowIndexing,
+      expiresInDays,
+    });
+
+    if (publicationOrError instanceof PageNotFoundError) {
+      return notFound(publicationOrError);
+    }
+
+    return ok(publicationOrError);
+  }
+}
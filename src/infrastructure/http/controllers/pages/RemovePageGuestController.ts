@@ -0,0 +1,37 @@
+import { PageGuestNotFoundError } from '@application/errors/PageGuestNotFoundError';
+import { RemovePageGuestInterface } from '@application/interfaces/use-cases/pages/removePageGuestInterface';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { noContent, notFound } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+
+export namespace RemovePageGuestController {
+  export type Request = HttpRequest<
+    undefined,
+    { pageId: string; guestId: string }
+  >;
+  export type Response = HttpResponse<undefined | PageGuestNotFoundError>;
+}
+
+export class RemovePageGuestController extends BaseController {
+  constructor(private readonly removePageGuest: RemovePageGuestInterface) {
+    super();
+  }
+
+  async execute(
+    httpRequest: RemovePageGuestController.Request
+  ): Promise<RemovePageGuestController.Response> {
+    const { pageId, guestId } = httpRequest.params!;
+
+    const removedOrError = await this.removePageGuest.execute({
+      pageId,
+      userId: guestId,
+    });
+
+    if (removedOrError instanceof PageGuestNotFoundError) {
+      return notFound(removedOrError);
+    }
+
+    return noContent();
+  }
+}
@@ -0,0 +1,31 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { UnpublishPageInterface } from '@application/interfaces/use-cases/pages/unpublishPageInterface';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { noContent, notFound } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+
+export namespace UnpublishPageController {
+  export type Request = HttpRequest<undefined, { pageId: string }>;
+  export type Response = HttpResponse<undefined | PageNotFoundError>;
+}
+
+export class UnpublishPageController extends BaseController {
+  constructor(private readonly unpublishPage: UnpublishPageInterface) {
+    super();
+  }
+
+  async execute(
+    httpRequest: UnpublishPageController.Request
+  ): Promise<UnpublishPageController.Response> {
+    const { pageId } = httpRequest.params!;
+
+    const unpublishedOrError = await this.unpublishPage.execute(pageId);
+
+    if (unpublishedOrError instanceof PageNotFoundError) {
+      return notFound(unpublishedOrError);
+    }
+
+    return noContent();
+  }
+}
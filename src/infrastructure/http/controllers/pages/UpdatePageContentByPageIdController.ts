@@ -1,3 +1,4 @@
+import { PageLockedError } from '@application/errors/PageLockedError';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
 import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
@@ -5,11 +6,13 @@ import { BaseController } from '@infrastructure/http/controllers/BaseController'
 import { Validation } from '@infrastructure/http/interfaces/Validation';
 import { GetPageByIdInterface } from '@application/interfaces/use-cases/pages/getPageByIdInterface';
 import { UpdatePageContentByPageIdInterface } from '@application/interfaces/use-cases/pages/updatePageContentByPageIdInterface';
-import { noContent, notFound } from '@infrastructure/http/helpers/http';
+import { locked, noContent, notFound } from '@infrastructure/http/helpers/http';
 
 export namespace UpdatePageContentByPageIdController {
   export type Request = HttpRequest<{ content: never }, { pageId: string }>;
-  export type Response = HttpResponse<undefined | PageNotFoundError>;
+  export type Response = HttpResponse<
+    undefined | PageNotFoundError | PageLockedError
+  >;
 }
 
 export class UpdatePageContentByPageIdController extends BaseController {
@@ -33,11 +36,15 @@ export class UpdatePageContentByPageIdController extends BaseController {
       return notFound(pageOrError);
     }
 
-    await this.updatePageContentByPageId.execute({
+    const updatedOrError = await this.updatePageContentByPageId.execute({
       pageId,
       content,
     });
 
+    if (updatedOrError instanceof PageLockedError) {
+      return locked(updatedOrError);
+    }
+
     return noContent();
   }
 }
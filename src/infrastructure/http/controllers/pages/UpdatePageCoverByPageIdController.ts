@@ -1,3 +1,4 @@
+import { PageLockedError } from '@application/errors/PageLockedError';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
 import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
@@ -5,14 +6,16 @@ import { BaseController } from '@infrastructure/http/controllers/BaseController'
 import { Validation } from '@infrastructure/http/interfaces/Validation';
 import { GetPageByIdInterface } from '@application/interfaces/use-cases/pages/getPageByIdInterface';
 import { UpdatePageCoverByPageIdInterface } from '@application/interfaces/use-cases/pages/updatePageCoverByPageIdInterface';
-import { noContent, notFound } from '@infrastructure/http/helpers/http';
+import { locked, noContent, notFound } from '@infrastructure/http/helpers/http';
 
 export namespace UpdatePageCoverByPageIdController {
   export type Request = HttpRequest<
     { url: string; verticalPosition: number },
     { pageId: string }
   >;
-  export type Response = HttpResponse<undefined | PageNotFoundError>;
+  export type Response = HttpResponse<
+    undefined | PageNotFoundError | PageLockedError
+  >;
 }
 
 export class UpdatePageCoverByPageIdController extends BaseController {
@@ -36,12 +39,16 @@ export class UpdatePageCoverByPageIdController extends BaseController {
       return notFound(pageOrError);
     }
 
-    await this.updatePageCoverByPageId.execute({
+    const updatedOrError = await this.updatePageCoverByPageId.execute({
       pageId,
       url,
       verticalPosition,
     });
 
+    if (updatedOrError instanceof PageLockedError) {
+      return locked(updatedOrError);
+    }
+
     return noContent();
   }
 }
@@ -1,16 +1,19 @@
+import { PageLockedError } from '@application/errors/PageLockedError';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { GetPageByIdInterface } from '@application/interfaces/use-cases/pages/getPageByIdInterface';
 import { UpdatePageIconByPageIdInterface } from '@application/interfaces/use-cases/pages/updatePageIconByPageIdInterface';
 import { UpdateWorkspacePagesMetaDataByPageIdInterface } from '@application/interfaces/use-cases/workspaces/UpdateWorkspacePagesMetaDataByPageIdInterface';
 import { BaseController } from '@infrastructure/http/controllers/BaseController';
-import { noContent, notFound } from '@infrastructure/http/helpers/http';
+import { locked, noContent, notFound } from '@infrastructure/http/helpers/http';
 import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
 import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
 import { Validation } from '@infrastructure/http/interfaces/Validation';
 
 export namespace UpdatePageIconByPageIdController {
   export type Request = HttpRequest<{ icon: string }, { pageId: string }>;
-  export type Response = HttpResponse<undefined | PageNotFoundError>;
+  export type Response = HttpResponse<
+    undefined | PageNotFoundError | PageLockedError
+  >;
 }
 
 export class UpdatePageIconByPageIdController extends BaseController {
@@ -35,11 +38,15 @@ export class UpdatePageIconByPageIdController extends BaseController {
       return notFound(pageOrError);
     }
 
-    await this.updatePageIconByPageId.execute({
+    const updatedOrError = await this.updatePageIconByPageId.execute({
       pageId,
       icon,
     });
 
+    if (updatedOrError instanceof PageLockedError) {
+      return locked(updatedOrError);
+    }
+
     await this.updateWorkspacePagesMetaDataByPageIdInterface.execute({
       workspaceId: pageOrError.workspaceId,
       pageId,
@@ -1,3 +1,4 @@
+import { PageLockedError } from '@application/errors/PageLockedError';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { PageSettingsType } from '@domain/entities/Page';
 import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
@@ -6,14 +7,16 @@ import { BaseController } from '@infrastructure/http/controllers/BaseController'
 import { Validation } from '@infrastructure/http/interfaces/Validation';
 import { GetPageByIdInterface } from '@application/interfaces/use-cases/pages/getPageByIdInterface';
 import { UpdatePageSettingsByPageIdInterface } from '@application/interfaces/use-cases/pages/updatePageSettingsByPageIdInterface';
-import { noContent, notFound } from '@infrastructure/http/helpers/http';
+import { locked, noContent, notFound } from '@infrastructure/http/helpers/http';
 
 export namespace UpdatePageSettingsByPageIdController {
   export type Request = HttpRequest<
     { settings: PageSettingsType },
     { pageId: string }
   >;
-  export type Response = HttpResponse<undefined | PageNotFoundError>;
+  export type Response = HttpResponse<
+    undefined | PageNotFoundError | PageLockedError
+  >;
 }
 
 export class UpdatePageSettingsByPageIdController extends BaseController {
@@ -37,11 +40,17 @@ export class UpdatePageSettingsByPageIdController extends BaseController {
       return notFound(pageOrError);
     }
 
-    await this.updatePageSettingsByPageId.execute({
+    const updatedOrError = await this.updatePageSettingsByPageId.execute({
       pageId,
       settings,
+      actorId: httpRequest.userId!,
+      ip: httpRequest.ip,
     });
 
+    if (updatedOrError instanceof PageLockedError) {
+      return locked(updatedOrError);
+    }
+
     return noContent();
   }
 }
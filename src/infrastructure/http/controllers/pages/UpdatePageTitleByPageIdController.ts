@@ -1,3 +1,4 @@
+import { PageLockedError } from '@application/errors/PageLockedError';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
 import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
@@ -5,23 +6,21 @@ import { BaseController } from '@infrastructure/http/controllers/BaseController'
 import { Validation } from '@infrastructure/http/interfaces/Validation';
 import { GetPageByIdInterface } from '@application/interfaces/use-cases/pages/getPageByIdInterface';
 import { UpdatePageTitleByPageIdInterface } from '@application/interfaces/use-cases/pages/updatePageTitleByPageIdInterface';
-import { noContent, notFound } from '@infrastructure/http/helpers/http';
+import { locked, noContent, notFound } from '@infrastructure/http/helpers/http';
 import { UpdateWorkspacePagesMetaDataByPageIdInterface } from '@application/interfaces/use-cases/workspaces/UpdateWorkspacePagesMetaDataByPageIdInterface';
-import { UpdatePagePathByPageIdInterface } from '@application/interfaces/use-cases/pages/updatePagePathByPageIdInterface';
-import { GetPageIdsByPathInterface } from '@application/interfaces/use-cases/pages/getPageIdsByPathInterface';
 
 export namespace UpdatePageTitleByPageIdController {
   export type Request = HttpRequest<{ title: string }, { pageId: string }>;
-  export type Response = HttpResponse<undefined | PageNotFoundError>;
+  export type Response = HttpResponse<
+    undefined | PageNotFoundError | PageLockedError
+  >;
 }
 
 export class UpdatePageTitleByPageIdController extends BaseController {
   constructor(
     private readonly updatePageTitleByPageIdValidation: Validation,
     private readonly getPageById: GetPageByIdInterface,
-    private readonly getPageIdsByPath: GetPageIdsByPathInterface,
     private readonly updatePageTitleByPageId: UpdatePageTitleByPageIdInterface,
-    private readonly updatePagePathByPageId: UpdatePagePathByPageIdInterface,
     private readonly updateWorkspacePagesMetaDataByPageIdInterface: UpdateWorkspacePagesMetaDataByPageIdInterface
   ) {
     super(updatePageTitleByPageIdValidation);
@@ -39,11 +38,16 @@ export class UpdatePageTitleByPageIdController extends BaseController {
       return notFound(pageOrError);
     }
 
-    await this.updatePageTitleByPageId.execute({
+    const updatedOrError = await this.updatePageTitleByPageId.execute({
       pageId,
       title,
     });
 
+    if (updatedOrError instanceof PageLockedError) {
+      return locked(updatedOrError);
+    }
+
+    // children point at the page id, a rename never reaches them
     const previousReference = pageOrError.reference;
 
     const previousReferenceArray = previousReference.split('-');
@@ -63,27 +67,6 @@ export class UpdatePageTitleByPageIdController extends BaseController {
       },
     });
 
-    const childPageIds = await this.getPageIdsByPath.execute(
-      `,${previousReference}.`
-    );
-
-    if (childPageIds.length > 0) {
-      childPageIds.map(async childPageId => {
-        await this.updatePagePathByPageId.execute({
-          pageId: childPageId,
-          path: `,${reference}.`,
-        });
-
-        await this.updateWorkspacePagesMetaDataByPageIdInterface.execute({
-          workspaceId: pageOrError.workspaceId,
-          pageId: childPageId,
-          pageData: {
-            path: `,${reference}.`,
-          },
-        });
-      });
-    }
-
     return noContent();
   }
 }
@@ -1,10 +1,16 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
 import { UserNotFoundError } from '@application/errors/UserNotFoundError';
 import { AddWorkspaceByUserIdInterface } from '@application/interfaces/use-cases/users/AddWorkspaceByUserIdInterface';
 import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
 import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
 import { BaseController } from '@infrastructure/http/controllers/BaseController';
 import { GetUserByIdInterface } from '@application/interfaces/use-cases/users/GetUserByIdInterface';
-import { noContent, notFound } from '@infrastructure/http/helpers/http';
+import {
+  forbidden,
+  noContent,
+  notFound,
+} from '@infrastructure/http/helpers/http';
+import { PermissionError } from '@infrastructure/http/errors/PermissionError';
 
 export namespace AddWorkspaceByUserIdController {
   export type Request = HttpRequest<
@@ -12,7 +18,7 @@ export namespace AddWorkspaceByUserIdController {
     { userId: string; workspaceId: string }
   >;
   export type Response = HttpResponse<
-    AddWorkspaceByUserIdInterface.Response | UserNotFoundError
+    AddWorkspaceByUserIdInterface.Response | UserNotFoundError | PermissionError
   >;
 }
 
@@ -36,13 +42,17 @@ export class AddWorkspaceByUserIdController extends BaseController {
       return notFound(userOrError);
     }
 
-    await this.addWorkspaceByUserId.execute({
+    const addedOrError = await this.addWorkspaceByUserId.execute({
       userId,
       workspaceId,
       workspaceName,
       workspaceIcon,
     });
 
+    if (addedOrError instanceof ForbiddenError) {
+      return forbidden(new PermissionError());
+    }
+
     return noContent();
   }
 }
@@ -0,0 +1,95 @@
+import { InvalidPasswordError } from '@application/errors/InvalidPasswordError';
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
+import { ChangePasswordInterface } from '@application/interfaces/use-cases/users/ChangePasswordInterface';
+import { SignInInterface } from '@application/interfaces/use-cases/users/SignInInterface';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { Validation } from '@infrastructure/http/interfaces/Validation';
+import { PermissionError } from '@infrastructure/http/errors/PermissionError';
+import {
+  forbidden,
+  notFound,
+  ok,
+  unauthorized,
+} from '@infrastructure/http/helpers/http';
+
+export namespace ChangePasswordController {
+  export type Request = HttpRequest<
+    { currentPassword: string; newPassword: string },
+    { userId: string }
+  >;
+  export type Response = HttpResponse<
+    | { accessToken: string }
+    | { mfaToken: string }
+    | UserNotFoundError
+    | InvalidPasswordError
+    | PermissionError
+  >;
+}
+
+export class ChangePasswordController extends BaseController {
+  constructor(
+    private readonly changePasswordValidation: Validation,
+    private readonly changePassword: ChangePasswordInterface,
+    private readonly signIn: SignInInterface
+  ) {
+    super(changePasswordValidation);
+  }
+
+  async execute(
+    httpRequest: ChangePasswordController.Request
+  ): Promise<ChangePasswordController.Response> {
+    const { userId } = httpRequest.params!;
+    const { currentPassword, newPassword } = httpRequest.body!;
+
+    // the new session is issued to the caller, so admins cannot act for others
+    if (httpRequest.userId !== userId) {
+      return forbidden(new PermissionError());
+    }
+
+    const userOrError = await this.changePassword.execute({
+      userId,
+      currentPassword,
+      newPassword,
+      ip: httpRequest.ip,
+    });
+
+    if (userOrError instanceof UserNotFoundError) {
+      return notFound(userOrError);
+    }
+
+    if (userOrError instanceof InvalidPasswordError) {
+      return forbidden(userOrError);
+    }
+
+    const authenticationTokensOrError = await this.signIn.execute({
+      email: userOrError.email,
+      password: newPassword,
+      userAgent: httpRequest.headers?.['user-agent'],
+      ip: httpRequest.ip,
+    });
+
+    if (authenticationTokensOrError instanceof Error) {
+      return unauthorized(authenticationTokensOrError);
+    }
+
+    // with two-factor enabled the new session still needs the second factor
+    if ('mfaToken' in authenticationTokensOrError) {
+      return ok({ mfaToken: authenticationTokensOrError.mfaToken });
+    }
+
+    const { accessToken, refreshToken } = authenticationTokensOrError;
+
+    const refreshCookie = {
+      token: refreshToken,
+    };
+
+    return ok(
+      {
+        accessToken,
+      },
+      refreshCookie
+    );
+  }
+}
@@ -0,0 +1,142 @@
+import { EmailInUseError } from '@application/errors/EmailInUseError';
+import { IdentityProviderNotFoundError } from '@application/errors/IdentityProviderNotFoundError';
+import { InvalidTokenError } from '@application/errors/InvalidTokenError';
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { UnverifiedEmailError } from '@application/errors/UnverifiedEmailError';
+import { CreatePageInterface } from '@application/interfaces/use-cases/pages/createPageInterface';
+import { GetPageByIdInterface } from '@application/interfaces/use-cases/pages/getPageByIdInterface';
+import { CompleteOidcSignInInterface } from '@application/interfaces/use-cases/users/CompleteOidcSignInInterface';
+import { CreateSessionInterface } from '@application/interfaces/use-cases/users/CreateSessionInterface';
+import { SignUpWithIdentityInterface } from '@application/interfaces/use-cases/users/SignUpWithIdentityInterface';
+import { AddMemberByWorkspaceIdInterface } from '@application/interfaces/use-cases/workspaces/AddMemberByWorkspaceIdInterface';
+import { AddPageInterface } from '@application/interfaces/use-cases/workspaces/AddPageInterface';
+import { CreateWorkspaceInterface } from '@application/interfaces/use-cases/workspaces/CreateWorkspaceInterface';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { Validation } from '@infrastructure/http/interfaces/Validation';
+import {
+  conflict,
+  forbidden,
+  notFound,
+  ok,
+  unauthorized,
+} from '@infrastructure/http/helpers/http';
+import { createHomeWorkspace } from '@infrastructure/util/createHomeWorkspace';
+
+export namespace CompleteOidcSignInController {
+  export type Request = HttpRequest<{ code: string; state: string }>;
+  export type Response = HttpResponse<
+    | { accessToken: string }
+    | { mfaToken: string }
+    | IdentityProviderNotFoundError
+    | InvalidTokenError
+    | UnverifiedEmailError
+    | EmailInUseError
+    | PageNotFoundError
+  >;
+}
+
+export class CompleteOidcSignInController extends BaseController {
+  constructor(
+    private readonly completeOidcSignInValidation: Validation,
+    private readonly completeOidcSignIn: CompleteOidcSignInInterface,
+    private readonly signUpWithIdentity: SignUpWithIdentityInterface,
+    private readonly createSession: CreateSessionInterface,
+    private readonly createWorkspace: CreateWorkspaceInterface,
+    private readonly createPage: CreatePageInterface,
+    private readonly addMemberByWorkspaceId: AddMemberByWorkspaceIdInterface,
+    private readonly addPage: AddPageInterface,
+    private readonly getPageById: GetPageByIdInterface
+  ) {
+    super(completeOidcSignInValidation);
+  }
+
+  async execute(
+    httpRequest: CompleteOidcSignInController.Request
+  ): Promise<CompleteOidcSignInController.Response> {
+    const { provider } = httpRequest.params!;
+    const { code, state } = httpRequest.body!;
+
+    const userOrError = await this.completeOidcSignIn.execute({
+      provider,
+      code,
+      state,
+    });
+
+    if (userOrError instanceof IdentityProviderNotFoundError) {
+      return notFound(userOrError);
+    }
+
+    if (userOrError instanceof InvalidTokenError) {
+      return unauthorized(userOrError);
+    }
+
+    if (userOrError instanceof UnverifiedEmailError) {
+      return forbidden(userOrError);
+    }
+
+    let userId: string;
+
+    if ('userId' in userOrError) {
+      userId = userOrError.userId;
+    } else {
+      // a first sign-in gets the same onboarding as a registration
+      const homeWorkspaceOrError = await createHomeWorkspace({
+        createWorkspace: this.createWorkspace,
+        createPage: this.createPage,
+        getPageById: this.getPageById,
+        addPage: this.addPage,
+      });
+
+      if (homeWorkspaceOrError instanceof PageNotFoundError) {
+        return forbidden(homeWorkspaceOrError);
+      }
+
+      const { workspaceId, workspaces } = homeWorkspaceOrError;
+
+      const idOrError = await this.signUpWithIdentity.execute({
+        provider,
+        identity: userOrError.identity,
+        workspaces,
+      });
+
+      if (idOrError instanceof EmailInUseError) {
+        return conflict(idOrError);
+      }
+
+      await this.addMemberByWorkspaceId.execute({
+        workspaceId,
+        memberId: idOrError,
+        role: 'owner',
+        actorId: idOrError,
+        ip: httpRequest.ip,
+      });
+
+      userId = idOrError;
+    }
+
+    const authenticationTokens = await this.createSession.execute({
+      userId,
+      userAgent: httpRequest.headers?.['user-agent'],
+      ip: httpRequest.ip,
+    });
+
+    if ('mfaToken' in authenticationTokens) {
+      return ok({ mfaToken: authenticationTokens.mfaToken });
+    }
+
+    const { accessToken, refreshToken } = authenticationTokens;
+
+    const refreshCookie = {
+      token: refreshToken,
+    };
+
+    return ok(
+      {
+        accessToken,
+      },
+      refreshCookie
+    );
+  }
+}
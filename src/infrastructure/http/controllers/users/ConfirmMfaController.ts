@@ -0,0 +1,55 @@
+import { InvalidMfaCodeError } from '@application/errors/InvalidMfaCodeError';
+import { MfaAlreadyEnabledError } from '@application/errors/MfaAlreadyEnabledError';
+import { MfaNotEnrolledError } from '@application/errors/MfaNotEnrolledError';
+import { ConfirmMfaInterface } from '@application/interfaces/use-cases/users/ConfirmMfaInterface';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { Validation } from '@infrastructure/http/interfaces/Validation';
+import { PermissionError } from '@infrastructure/http/errors/PermissionError';
+import { conflict, forbidden, ok } from '@infrastructure/http/helpers/http';
+
+export namespace ConfirmMfaController {
+  export type Request = HttpRequest<{ code: string }, { userId: string }>;
+  export type Response = HttpResponse<
+    ConfirmMfaInterface.Response | PermissionError
+  >;
+}
+
+export class ConfirmMfaController extends BaseController {
+  constructor(
+    private readonly confirmMfaValidation: Validation,
+    private readonly confirmMfa: ConfirmMfaInterface
+  ) {
+    super(confirmMfaValidation);
+  }
+
+  async execute(
+    httpRequest: ConfirmMfaController.Request
+  ): Promise<ConfirmMfaController.Response> {
+    const { userId } = httpRequest.params!;
+    const { code } = httpRequest.body!;
+
+    if (httpRequest.userId !== userId) {
+      return forbidden(new PermissionError());
+    }
+
+    const recoveryCodesOrError = await this.confirmMfa.execute({
+      userId,
+      code,
+    });
+
+    if (
+      recoveryCodesOrError instanceof MfaNotEnrolledError ||
+      recoveryCodesOrError instanceof MfaAlreadyEnabledError
+    ) {
+      return conflict(recoveryCodesOrError);
+    }
+
+    if (recoveryCodesOrError instanceof InvalidMfaCodeError) {
+      return forbidden(recoveryCodesOrError);
+    }
+
+    return ok(recoveryCodesOrError);
+  }
+}
@@ -0,0 +1,54 @@
+import { CreateApiTokenInterface } from '@application/interfaces/use-cases/users/CreateApiTokenInterface';
+import { ApiTokenScope } from '@domain/entities/ApiToken';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { Validation } from '@infrastructure/http/interfaces/Validation';
+import { PermissionError } from '@infrastructure/http/errors/PermissionError';
+import { created, forbidden } from '@infrastructure/http/helpers/http';
+
+export namespace CreateApiTokenController {
+  export type Request = HttpRequest<
+    {
+      name: string;
+      scopes: ApiTokenScope[];
+      workspaceId?: string;
+      expiresInDays?: number;
+    },
+    { userId: string }
+  >;
+  export type Response = HttpResponse<
+    CreateApiTokenInterface.Response | PermissionError
+  >;
+}
+
+export class CreateApiTokenController extends BaseController {
+  constructor(
+    private readonly createApiTokenValidation: Validation,
+    private readonly createApiToken: CreateApiTokenInterface
+  ) {
+    super(createApiTokenValidation);
+  }
+
+  async execute(
+    httpRequest: CreateApiTokenController.Request
+  ): Promise<CreateApiTokenController.Response> {
+    const { userId } = httpRequest.params!;
+    const { name, scopes, workspaceId, expiresInDays } = httpRequest.body!;
+
+    // the token acts as its owner, so admins cannot mint one for others
+    if (httpRequest.userId !== userId) {
+      return forbidden(new PermissionError());
+    }
+
+    const response = await this.createApiToken.execute({
+      userId,
+      name,
+      scopes,
+      workspaceId,
+      expiresInDays,
+    });
+
+    return created(response);
+  }
+}
@@ -0,0 +1,38 @@
+import { ApiTokenNotFoundError } from '@application/errors/ApiTokenNotFoundError';
+import { DeleteApiTokenInterface } from '@application/interfaces/use-cases/users/DeleteApiTokenInterface';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { noContent, notFound } from '@infrastructure/http/helpers/http';
+
+export namespace DeleteApiTokenController {
+  export type Request = HttpRequest<
+    undefined,
+    { userId: string; apiTokenId: string }
+  >;
+  export type Response = HttpResponse<undefined | ApiTokenNotFoundError>;
+}
+
+export class DeleteApiTokenController extends BaseController {
+  constructor(private readonly deleteApiToken: DeleteApiTokenInterface) {
+    super();
+  }
+
+  async execute(
+    httpRequest: DeleteApiTokenController.Request
+  ): Promise<DeleteApiTokenController.Response> {
+    const { userId, apiTokenId } = httpRequest.params!;
+
+    const deletedOrError = await this.deleteApiToken.execute({
+      userId,
+      apiTokenId,
+      ip: httpRequest.ip,
+    });
+
+    if (deletedOrError instanceof ApiTokenNotFoundError) {
+      return notFound(deletedOrError);
+    }
+
+    return noContent();
+  }
+}
@@ -1,34 +1,37 @@
+import { InvalidPasswordError } from '@application/errors/InvalidPasswordError';
 import { UserNotFoundError } from '@application/errors/UserNotFoundError';
 import { PermissionError } from '@infrastructure/http/errors/PermissionError';
 import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
 import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
 import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { Validation } from '@infrastructure/http/interfaces/Validation';
 import { DeleteUserInterface } from '@application/interfaces/use-cases/users/DeleteUserInterface';
-import { noContent } from '@infrastructure/http/helpers/http';
-import { GetWorkspacesByUserIdInterface } from '@application/interfaces/use-cases/users/GetWorkspacesByUserIdInterface';
-import { GetAllMembersByWorkspaceIdInterface } from '@application/interfaces/use-cases/workspaces/GetAllMembersByWorkspaceIdInterface';
-import { RemoveMemberByWorkspaceIdInterface } from '@application/interfaces/use-cases/workspaces/RemoveMemberByWorkspaceIdInterface';
-import { DeleteWorkspaceInterface } from '@application/interfaces/use-cases/workspaces/DeleteWorkspaceInterface';
-import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
-import { DeletePagesByWorkspaceIdInterface } from '@application/interfaces/use-cases/pages/deletePagesByWorkspaceIdInterface';
+import { PurgeUserInterface } from '@application/interfaces/use-cases/users/PurgeUserInterface';
+import {
+  forbidden,
+  noContent,
+  notFound,
+  ok,
+} from '@infrastructure/http/helpers/http';
 
 export namespace DeleteUserController {
-  export type Request = HttpRequest<undefined, { userId: string }>;
+  export type Request = HttpRequest<{ password?: string }, { userId: string }>;
   export type Response = HttpResponse<
-    undefined | UserNotFoundError | PermissionError | WorkspaceNotFoundError
+    | { scheduledDeletionAt: Date }
+    | undefined
+    | UserNotFoundError
+    | InvalidPasswordError
+    | PermissionError
   >;
 }
 
 export class DeleteUserController extends BaseController {
   constructor(
+    private readonly deleteUserValidation: Validation,
     private readonly deleteUser: DeleteUserInterface,
-    private readonly getWorkspacesByUserId: GetWorkspacesByUserIdInterface,
-    private readonly getAllMembersByWorkspaceId: GetAllMembersByWorkspaceIdInterface,
-    private readonly removeMemberByWorkspaceId: RemoveMemberByWorkspaceIdInterface,
-    private readonly deletePagesByWorkspaceId: DeletePagesByWorkspaceIdInterface,
-    private readonly deleteWorkspace: DeleteWorkspaceInterface
+    private readonly purgeUser: PurgeUserInterface
   ) {
-    super();
+    super(deleteUserValidation);
   }
 
   async execute(
@@ -36,27 +39,27 @@ export class DeleteUserController extends BaseController {
   ): Promise<DeleteUserController.Response> {
     const { userId } = httpRequest.params!;
 
-    const workspaces = await this.getWorkspacesByUserId.execute(userId);
+    const scheduleOrError = await this.deleteUser.execute({
+      userId,
+      actorId: httpRequest.userId!,
+      password: httpRequest.body?.password,
+      ip: httpRequest.ip,
+    });
 
-    const workspaceIds = workspaces.map(workspace => workspace.workspaceId);
+    if (scheduleOrError instanceof UserNotFoundError) {
+      return notFound(scheduleOrError);
+    }
 
-    workspaceIds.forEach(async workspaceId => {
-      const workspaceMembers = await this.getAllMembersByWorkspaceId.execute(
-        workspaceId
-      );
+    if (scheduleOrError instanceof InvalidPasswordError) {
+      return forbidden(scheduleOrError);
+    }
 
-      if ((workspaceMembers as string[]).length > 1) {
-        await this.removeMemberByWorkspaceId.execute({
-          workspaceId,
-          memberId: userId,
-        });
-      } else {
-        await this.deletePagesByWorkspaceId.execute(workspaceId);
-        await this.deleteWorkspace.execute(workspaceId);
-      }
-    });
+    // without a grace period there is nothing to wait for
+    if (scheduleOrError.scheduledDeletionAt > new Date()) {
+      return ok(scheduleOrError);
+    }
 
-    await this.deleteUser.execute(userId);
+    await this.purgeUser.execute(userId);
     return noContent();
   }
 }
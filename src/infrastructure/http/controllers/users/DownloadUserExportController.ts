@@ -0,0 +1,48 @@
+import { UserExportNotFoundError } from '@application/errors/UserExportNotFoundError';
+import { UserExportNotReadyError } from '@application/errors/UserExportNotReadyError';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { DownloadUserExportInterface } from '@application/interfaces/use-cases/users/DownloadUserExportInterface';
+import { conflict, notFound, ok } from '@infrastructure/http/helpers/http';
+
+export namespace DownloadUserExportController {
+  export type Request = HttpRequest<
+    undefined,
+    { userId: string; exportId: string }
+  >;
+  export type Response = HttpResponse<
+    | { fileName: string; content: string }
+    | UserExportNotFoundError
+    | UserExportNotReadyError
+  >;
+}
+
+export class DownloadUserExportController extends BaseController {
+  constructor(
+    private readonly downloadUserExport: DownloadUserExportInterface
+  ) {
+    super();
+  }
+
+  async execute(
+    httpRequest: DownloadUserExportController.Request
+  ): Promise<DownloadUserExportController.Response> {
+    const { userId, exportId } = httpRequest.params!;
+
+    const fileOrError = await this.downloadUserExport.execute({
+      userId,
+      exportId,
+    });
+
+    if (fileOrError instanceof UserExportNotFoundError) {
+      return notFound(fileOrError);
+    }
+
+    if (fileOrError instanceof UserExportNotReadyError) {
+      return conflict(fileOrError);
+    }
+
+    return ok(fileOrError);
+  }
+}
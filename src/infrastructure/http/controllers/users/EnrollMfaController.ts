@@ -0,0 +1,49 @@
+import { MfaAlreadyEnabledError } from '@application/errors/MfaAlreadyEnabledError';
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
+import { EnrollMfaInterface } from '@application/interfaces/use-cases/users/EnrollMfaInterface';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { PermissionError } from '@infrastructure/http/errors/PermissionError';
+import {
+  conflict,
+  forbidden,
+  notFound,
+  ok,
+} from '@infrastructure/http/helpers/http';
+
+export namespace EnrollMfaController {
+  export type Request = HttpRequest<undefined, { userId: string }>;
+  export type Response = HttpResponse<
+    EnrollMfaInterface.Response | PermissionError
+  >;
+}
+
+export class EnrollMfaController extends BaseController {
+  constructor(private readonly enrollMfa: EnrollMfaInterface) {
+    super();
+  }
+
+  async execute(
+    httpRequest: EnrollMfaController.Request
+  ): Promise<EnrollMfaController.Response> {
+    const { userId } = httpRequest.params!;
+
+    // the secret is handed out here, so admins cannot enroll for others
+    if (httpRequest.userId !== userId) {
+      return forbidden(new PermissionError());
+    }
+
+    const secretOrError = await this.enrollMfa.execute(userId);
+
+    if (secretOrError instanceof UserNotFoundError) {
+      return notFound(secretOrError);
+    }
+
+    if (secretOrError instanceof MfaAlreadyEnabledError) {
+      return conflict(secretOrError);
+    }
+
+    return ok(secretOrError);
+  }
+}
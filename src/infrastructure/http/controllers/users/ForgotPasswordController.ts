@@ -0,0 +1,30 @@
+import { ForgotPasswordInterface } from '@application/interfaces/use-cases/users/ForgotPasswordInterface';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { Validation } from '@infrastructure/http/interfaces/Validation';
+import { noContent } from '@infrastructure/http/helpers/http';
+
+export namespace ForgotPasswordController {
+  export type Request = HttpRequest<{ email: string }>;
+  export type Response = HttpResponse<undefined>;
+}
+
+export class ForgotPasswordController extends BaseController {
+  constructor(
+    private readonly forgotPasswordValidation: Validation,
+    private readonly forgotPassword: ForgotPasswordInterface
+  ) {
+    super(forgotPasswordValidation);
+  }
+
+  async execute(
+    httpRequest: ForgotPasswordController.Request
+  ): Promise<ForgotPasswordController.Response> {
+    const { email } = httpRequest.body!;
+
+    await this.forgotPassword.execute(email);
+
+    return noContent();
+  }
+}
@@ -1,15 +1,19 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
 import { InvalidTokenError } from '@application/errors/InvalidTokenError';
 import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
 import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
 import { GetAccessTokenInterface } from '@application/interfaces/use-cases/users/GetAccessTokenInterface';
 import { BaseController } from '@infrastructure/http/controllers/BaseController';
 import { AuthTokenNotProvidedError } from '@infrastructure/http/errors/AuthTokenNotProvidedError';
-import { ok, unauthorized } from '@infrastructure/http/helpers/http';
+import { forbidden, ok, unauthorized } from '@infrastructure/http/helpers/http';
 
 export namespace GetAccessTokenController {
   export type Request = HttpRequest;
   export type Response = HttpResponse<
-    { accessToken: string } | InvalidTokenError | AuthTokenNotProvidedError
+    | { accessToken: string }
+    | InvalidTokenError
+    | ForbiddenError
+    | AuthTokenNotProvidedError
   >;
 }
 
@@ -30,12 +34,29 @@ export class GetAccessTokenController extends BaseController {
     const tokenParts = cookie.split('=');
     const token = tokenParts[1];
 
-    const accessToken = await this.getAccessToken.execute(token);
+    const authenticationTokensOrError = await this.getAccessToken.execute(
+      token
+    );
 
-    if (accessToken instanceof InvalidTokenError) {
+    if (authenticationTokensOrError instanceof InvalidTokenError) {
       return unauthorized(new InvalidTokenError());
     }
 
-    return ok(accessToken);
+    if (authenticationTokensOrError instanceof ForbiddenError) {
+      return forbidden(authenticationTokensOrError);
+    }
+
+    const { accessToken, refreshToken } = authenticationTokensOrError;
+
+    const refreshCookie = {
+      token: refreshToken,
+    };
+
+    return ok(
+      {
+        accessToken,
+      },
+      refreshCookie
+    );
   }
 }
@@ -0,0 +1,26 @@
+import { GetApiTokensByUserIdInterface } from '@application/interfaces/use-cases/users/GetApiTokensByUserIdInterface';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { ok } from '@infrastructure/http/helpers/http';
+
+export namespace GetApiTokensByUserIdController {
+  export type Request = HttpRequest<undefined, { userId: string }>;
+  export type Response = HttpResponse<GetApiTokensByUserIdInterface.Response>;
+}
+
+export class GetApiTokensByUserIdController extends BaseController {
+  constructor(
+    private readonly getApiTokensByUserId: GetApiTokensByUserIdInterface
+  ) {
+    super();
+  }
+
+  async execute(
+    httpRequest: GetApiTokensByUserIdController.Request
+  ): Promise<GetApiTokensByUserIdController.Response> {
+    const { userId } = httpRequest.params!;
+    const response = await this.getApiTokensByUserId.execute(userId);
+    return ok(response);
+  }
+}
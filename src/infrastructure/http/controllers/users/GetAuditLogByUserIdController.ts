@@ -0,0 +1,50 @@
+import { GetAuditLogByUserIdInterface } from '@application/interfaces/use-cases/users/GetAuditLogByUserIdInterface';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { Validation } from '@infrastructure/http/interfaces/Validation';
+import { ok } from '@infrastructure/http/helpers/http';
+import { AuditLogAction } from '@domain/entities/AuditLogEntry';
+
+export namespace GetAuditLogByUserIdController {
+  export type Request = HttpRequest<
+    undefined,
+    { userId: string },
+    undefined,
+    {
+      action?: AuditLogAction;
+      from?: string;
+      to?: string;
+      cursor?: string;
+      limit?: string;
+    }
+  >;
+  export type Response = HttpResponse<GetAuditLogByUserIdInterface.Response>;
+}
+
+export class GetAuditLogByUserIdController extends BaseController {
+  constructor(
+    private readonly getAuditLogByUserIdValidation: Validation,
+    private readonly getAuditLogByUserId: GetAuditLogByUserIdInterface
+  ) {
+    super(getAuditLogByUserIdValidation);
+  }
+
+  async execute(
+    httpRequest: GetAuditLogByUserIdController.Request
+  ): Promise<GetAuditLogByUserIdController.Response> {
+    const { userId } = httpRequest.params!;
+    const { action, from, to, cursor, limit } = httpRequest.query || {};
+
+    const auditLog = await this.getAuditLogByUserId.execute({
+      userId,
+      action,
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(to) : undefined,
+      cursor,
+      limit: limit ? Number(limit) : undefined,
+    });
+
+    return ok(auditLog);
+  }
+}
@@ -0,0 +1,21 @@
+import { GetJsonWebKeySetInterface } from '@application/interfaces/use-cases/users/GetJsonWebKeySetInterface';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { ok } from '@infrastructure/http/helpers/http';
+
+export namespace GetJsonWebKeySetController {
+  export type Request = HttpRequest;
+  export type Response = HttpResponse<GetJsonWebKeySetInterface.Response>;
+}
+
+export class GetJsonWebKeySetController extends BaseController {
+  constructor(private readonly getJsonWebKeySet: GetJsonWebKeySetInterface) {
+    super();
+  }
+
+  async execute(): Promise<GetJsonWebKeySetController.Response> {
+    const response = await this.getJsonWebKeySet.execute();
+    return ok(response);
+  }
+}
@@ -0,0 +1,26 @@
+import { GetSessionsByUserIdInterface } from '@application/interfaces/use-cases/users/GetSessionsByUserIdInterface';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { ok } from '@infrastructure/http/helpers/http';
+
+export namespace GetSessionsByUserIdController {
+  export type Request = HttpRequest<undefined, { userId: string }>;
+  export type Response = HttpResponse<GetSessionsByUserIdInterface.Response>;
+}
+
+export class GetSessionsByUserIdController extends BaseController {
+  constructor(
+    private readonly getSessionsByUserId: GetSessionsByUserIdInterface
+  ) {
+    super();
+  }
+
+  async execute(
+    httpRequest: GetSessionsByUserIdController.Request
+  ): Promise<GetSessionsByUserIdController.Response> {
+    const { userId } = httpRequest.params!;
+    const response = await this.getSessionsByUserId.execute(userId);
+    return ok(response);
+  }
+}
@@ -0,0 +1,26 @@
+import { GetSharedPagesByUserIdInterface } from '@application/interfaces/use-cases/users/GetSharedPagesByUserIdInterface';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { ok } from '@infrastructure/http/helpers/http';
+
+export namespace GetSharedPagesByUserIdController {
+  export type Request = HttpRequest<undefined, { userId: string }>;
+  export type Response = HttpResponse<GetSharedPagesByUserIdInterface.Response>;
+}
+
+export class GetSharedPagesByUserIdController extends BaseController {
+  constructor(
+    private readonly getSharedPagesByUserId: GetSharedPagesByUserIdInterface
+  ) {
+    super();
+  }
+
+  async execute(
+    httpRequest: GetSharedPagesByUserIdController.Request
+  ): Promise<GetSharedPagesByUserIdController.Response> {
+    const { userId } = httpRequest.params!;
+    const response = await this.getSharedPagesByUserId.execute(userId);
+    return ok(response);
+  }
+}
@@ -0,0 +1,38 @@
+import { UserExportNotFoundError } from '@application/errors/UserExportNotFoundError';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { GetUserExportByIdInterface } from '@application/interfaces/use-cases/users/GetUserExportByIdInterface';
+import { notFound, ok } from '@infrastructure/http/helpers/http';
+import { UserExport } from '@domain/entities/UserExport';
+
+export namespace GetUserExportByIdController {
+  export type Request = HttpRequest<
+    undefined,
+    { userId: string; exportId: string }
+  >;
+  export type Response = HttpResponse<UserExport | UserExportNotFoundError>;
+}
+
+export class GetUserExportByIdController extends BaseController {
+  constructor(private readonly getUserExportById: GetUserExportByIdInterface) {
+    super();
+  }
+
+  async execute(
+    httpRequest: GetUserExportByIdController.Request
+  ): Promise<GetUserExportByIdController.Response> {
+    const { userId, exportId } = httpRequest.params!;
+
+    const userExportOrError = await this.getUserExportById.execute({
+      userId,
+      exportId,
+    });
+
+    if (userExportOrError instanceof UserExportNotFoundError) {
+      return notFound(userExportOrError);
+    }
+
+    return ok(userExportOrError);
+  }
+}
@@ -0,0 +1,27 @@
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { RequestUserExportInterface } from '@application/interfaces/use-cases/users/RequestUserExportInterface';
+import { created } from '@infrastructure/http/helpers/http';
+import { UserExport } from '@domain/entities/UserExport';
+
+export namespace RequestUserExportController {
+  export type Request = HttpRequest<undefined, { userId: string }>;
+  export type Response = HttpResponse<UserExport>;
+}
+
+export class RequestUserExportController extends BaseController {
+  constructor(private readonly requestUserExport: RequestUserExportInterface) {
+    super();
+  }
+
+  async execute(
+    httpRequest: RequestUserExportController.Request
+  ): Promise<RequestUserExportController.Response> {
+    const { userId } = httpRequest.params!;
+
+    const userExport = await this.requestUserExport.execute(userId);
+
+    return created(userExport);
+  }
+}
@@ -0,0 +1,39 @@
+import { InvalidTokenError } from '@application/errors/InvalidTokenError';
+import { ResetPasswordInterface } from '@application/interfaces/use-cases/users/ResetPasswordInterface';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { Validation } from '@infrastructure/http/interfaces/Validation';
+import { noContent, unauthorized } from '@infrastructure/http/helpers/http';
+
+export namespace ResetPasswordController {
+  export type Request = HttpRequest<ResetPasswordInterface.Request>;
+  export type Response = HttpResponse<undefined | InvalidTokenError>;
+}
+
+export class ResetPasswordController extends BaseController {
+  constructor(
+    private readonly resetPasswordValidation: Validation,
+    private readonly resetPassword: ResetPasswordInterface
+  ) {
+    super(resetPasswordValidation);
+  }
+
+  async execute(
+    httpRequest: ResetPasswordController.Request
+  ): Promise<ResetPasswordController.Response> {
+    const { token, password } = httpRequest.body!;
+
+    const resetOrError = await this.resetPassword.execute({
+      token,
+      password,
+      ip: httpRequest.ip,
+    });
+
+    if (resetOrError instanceof InvalidTokenError) {
+      return unauthorized(resetOrError);
+    }
+
+    return noContent();
+  }
+}
@@ -0,0 +1,30 @@
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { RestoreUserInterface } from '@application/interfaces/use-cases/users/RestoreUserInterface';
+import { noContent } from '@infrastructure/http/helpers/http';
+
+export namespace RestoreUserController {
+  export type Request = HttpRequest<undefined, { userId: string }>;
+  export type Response = HttpResponse<undefined>;
+}
+
+export class RestoreUserController extends BaseController {
+  constructor(private readonly restoreUser: RestoreUserInterface) {
+    super();
+  }
+
+  async execute(
+    httpRequest: RestoreUserController.Request
+  ): Promise<RestoreUserController.Response> {
+    const { userId } = httpRequest.params!;
+
+    await this.restoreUser.execute({
+      userId,
+      actorId: httpRequest.userId!,
+      ip: httpRequest.ip,
+    });
+
+    return noContent();
+  }
+}
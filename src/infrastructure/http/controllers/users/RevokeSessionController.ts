@@ -0,0 +1,38 @@
+import { SessionNotFoundError } from '@application/errors/SessionNotFoundError';
+import { RevokeSessionInterface } from '@application/interfaces/use-cases/users/RevokeSessionInterface';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { noContent, notFound } from '@infrastructure/http/helpers/http';
+
+export namespace RevokeSessionController {
+  export type Request = HttpRequest<
+    undefined,
+    { userId: string; sessionId: string }
+  >;
+  export type Response = HttpResponse<undefined | SessionNotFoundError>;
+}
+
+export class RevokeSessionController extends BaseController {
+  constructor(private readonly revokeSession: RevokeSessionInterface) {
+    super();
+  }
+
+  async execute(
+    httpRequest: RevokeSessionController.Request
+  ): Promise<RevokeSessionController.Response> {
+    const { userId, sessionId } = httpRequest.params!;
+
+    const revokedOrError = await this.revokeSession.execute({
+      userId,
+      sessionId,
+      ip: httpRequest.ip,
+    });
+
+    if (revokedOrError instanceof SessionNotFoundError) {
+      return notFound(revokedOrError);
+    }
+
+    return noContent();
+  }
+}
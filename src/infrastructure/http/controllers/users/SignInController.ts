@@ -3,14 +3,23 @@ import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
 import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
 import { BaseController } from '@infrastructure/http/controllers/BaseController';
 import { Validation } from '@infrastructure/http/interfaces/Validation';
-import { ok, unauthorized } from '@infrastructure/http/helpers/http';
+import {
+  ok,
+  tooManyRequests,
+  unauthorized,
+} from '@infrastructure/http/helpers/http';
 import { InvalidUserError } from '@application/errors/InvalidUserError';
 import { InvalidPasswordError } from '@application/errors/InvalidPasswordError';
+import { AccountLockedError } from '@application/errors/AccountLockedError';
+import { InvalidCredentialsError } from '@infrastructure/http/errors/InvalidCredentialsError';
 
 export namespace SignInController {
   export type Request = HttpRequest<SignInInterface.Request>;
   export type Response = HttpResponse<
-    { accessToken: string } | InvalidUserError | InvalidPasswordError
+    | { accessToken: string }
+    | { mfaToken: string }
+    | InvalidCredentialsError
+    | AccountLockedError
   >;
 }
 
@@ -29,14 +38,25 @@ export class SignInController extends BaseController {
     const authenticationTokensOrError = await this.signIn.execute({
       email,
       password,
+      userAgent: httpRequest.headers?.['user-agent'],
+      ip: httpRequest.ip,
     });
 
-    if (authenticationTokensOrError instanceof InvalidUserError) {
-      return unauthorized(authenticationTokensOrError);
+    // one answer for both cases, so the response does not tell which emails exist
+    if (
+      authenticationTokensOrError instanceof InvalidUserError ||
+      authenticationTokensOrError instanceof InvalidPasswordError
+    ) {
+      return unauthorized(new InvalidCredentialsError());
     }
 
-    if (authenticationTokensOrError instanceof InvalidPasswordError) {
-      return unauthorized(authenticationTokensOrError);
+    if (authenticationTokensOrError instanceof AccountLockedError) {
+      return tooManyRequests(authenticationTokensOrError);
+    }
+
+    // the refresh cookie is only set once the second factor is verified
+    if ('mfaToken' in authenticationTokensOrError) {
+      return ok({ mfaToken: authenticationTokensOrError.mfaToken });
     }
 
     const { accessToken, refreshToken } = authenticationTokensOrError;
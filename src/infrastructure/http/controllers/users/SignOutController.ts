@@ -21,7 +21,7 @@ export class SignOutController extends BaseController {
     const tokenParts = cookie.split('=');
     const token = tokenParts[1];
 
-    await this.signOut.execute(token);
+    await this.signOut.execute({ token, ip: httpRequest.ip });
 
     const refreshCookie = {
       token: '',
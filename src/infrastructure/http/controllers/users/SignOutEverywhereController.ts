@@ -0,0 +1,35 @@
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { SignOutEverywhereInterface } from '@application/interfaces/use-cases/users/SignOutEverywhereInterface';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { ok } from '@infrastructure/http/helpers/http';
+
+export namespace SignOutEverywhereController {
+  export type Request = HttpRequest<undefined, { userId: string }>;
+  export type Response = HttpResponse<{ message: string }>;
+}
+
+export class SignOutEverywhereController extends BaseController {
+  constructor(private readonly signOutEverywhere: SignOutEverywhereInterface) {
+    super();
+  }
+
+  async execute(
+    httpRequest: SignOutEverywhereController.Request
+  ): Promise<SignOutEverywhereController.Response> {
+    const { userId } = httpRequest.params!;
+
+    await this.signOutEverywhere.execute({ userId, ip: httpRequest.ip });
+
+    // an admin signing out someone else keeps their own cookie
+    const refreshCookie =
+      httpRequest.userId === userId ? { token: '' } : undefined;
+
+    return ok(
+      {
+        message: 'signed out of all sessions successfully',
+      },
+      refreshCookie
+    );
+  }
+}
@@ -17,12 +17,16 @@ import { CreatePageInterface } from '@application/interfaces/use-cases/pages/cre
 import { GetPageByIdInterface } from '@application/interfaces/use-cases/pages/getPageByIdInterface';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { AddPageInterface } from '@application/interfaces/use-cases/workspaces/AddPageInterface';
-import { getPageOneContent } from '@infrastructure/util/getPageContent';
+import { SendEmailVerificationInterface } from '@application/interfaces/use-cases/users/SendEmailVerificationInterface';
+import { createHomeWorkspace } from '@infrastructure/util/createHomeWorkspace';
 
 export namespace SignUpController {
   export type Request = HttpRequest<SignUpInterface.Request>;
   export type Response = HttpResponse<
-    { accessToken: string } | EmailInUseError | PageNotFoundError
+    | { accessToken: string }
+    | { mfaToken: string }
+    | EmailInUseError
+    | PageNotFoundError
   >;
 }
 
@@ -35,7 +39,8 @@ export class SignUpController extends BaseController {
     private readonly createPage: CreatePageInterface,
     private readonly addMemberByWorkspaceId: AddMemberByWorkspaceIdInterface,
     private readonly addPage: AddPageInterface,
-    private readonly getPageById: GetPageByIdInterface
+    private readonly getPageById: GetPageByIdInterface,
+    private readonly sendEmailVerification: SendEmailVerificationInterface
   ) {
     super(signUpValidation);
   }
@@ -46,64 +51,18 @@ export class SignUpController extends BaseController {
     const { name, email, password, isDarkMode, profilePicture } =
       httpRequest.body!;
 
-    const content = getPageOneContent();
-
-    const workspace = {
-      name: 'home-workspace',
-      icon: '1f30e',
-      members: [],
-      pages: [],
-    };
-
-    const workspaceId = await this.createWorkspace.execute(workspace);
-
-    const pageId = await this.createPage.execute({
-      title: 'Chandrayaan-3 | चंद्रयान-३',
-      icon: '1f680',
-      coverPicture: {
-        url: '/static/media/nasa_space_shuttle_columbia_and_sunrise.b623df337db2db60dcc0.jpg',
-        verticalPosition: 0,
-      },
-      content,
-      favorite: [],
-      pageSettings: {
-        font: 'san-serif',
-        smallText: true,
-        fullWidth: true,
-        lock: true,
-      },
-      path: null,
-      workspaceId,
+    const homeWorkspaceOrError = await createHomeWorkspace({
+      createWorkspace: this.createWorkspace,
+      createPage: this.createPage,
+      getPageById: this.getPageById,
+      addPage: this.addPage,
     });
 
-    const pageOrError = await this.getPageById.execute(pageId);
-
-    if (pageOrError instanceof PageNotFoundError) {
-      return forbidden(pageOrError);
+    if (homeWorkspaceOrError instanceof PageNotFoundError) {
+      return forbidden(homeWorkspaceOrError);
     }
 
-    const { reference, path, icon, title, createdAt } = pageOrError;
-
-    await this.addPage.execute({
-      workspaceId,
-      pageData: {
-        id: pageId,
-        reference,
-        path,
-        icon,
-        title,
-        createdAt,
-      },
-    });
-
-    const workspaces = [
-      {
-        workspaceId,
-        workspaceName: workspace.name,
-        workspaceIcon: workspace.icon,
-        favorites: [],
-      },
-    ];
+    const { workspaceId, workspaces } = homeWorkspaceOrError;
 
     const idOrError = await this.signUp.execute({
       name,
@@ -121,17 +80,28 @@ export class SignUpController extends BaseController {
     await this.addMemberByWorkspaceId.execute({
       workspaceId,
       memberId: idOrError,
+      role: 'owner',
+      actorId: idOrError,
+      ip: httpRequest.ip,
     });
 
+    await this.sendEmailVerification.execute({ userId: idOrError, email });
+
     const authenticationTokensOrError = await this.signIn.execute({
       email,
       password,
+      userAgent: httpRequest.headers?.['user-agent'],
+      ip: httpRequest.ip,
     });
 
     if (authenticationTokensOrError instanceof Error) {
       return unauthorized(authenticationTokensOrError);
     }
 
+    if ('mfaToken' in authenticationTokensOrError) {
+      return ok({ mfaToken: authenticationTokensOrError.mfaToken });
+    }
+
     const { accessToken, refreshToken } = authenticationTokensOrError;
 
     const refreshCookie = {
@@ -0,0 +1,33 @@
+import { IdentityProviderNotFoundError } from '@application/errors/IdentityProviderNotFoundError';
+import { StartOidcSignInInterface } from '@application/interfaces/use-cases/users/StartOidcSignInInterface';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { notFound, ok } from '@infrastructure/http/helpers/http';
+
+export namespace StartOidcSignInController {
+  export type Request = HttpRequest;
+  export type Response = HttpResponse<
+    { authorizationUrl: string } | IdentityProviderNotFoundError
+  >;
+}
+
+export class StartOidcSignInController extends BaseController {
+  constructor(private readonly startOidcSignIn: StartOidcSignInInterface) {
+    super();
+  }
+
+  async execute(
+    httpRequest: StartOidcSignInController.Request
+  ): Promise<StartOidcSignInController.Response> {
+    const { provider } = httpRequest.params!;
+
+    const authorizationOrError = await this.startOidcSignIn.execute(provider);
+
+    if (authorizationOrError instanceof IdentityProviderNotFoundError) {
+      return notFound(authorizationOrError);
+    }
+
+    return ok(authorizationOrError);
+  }
+}
@@ -5,6 +5,7 @@ import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
 import { BaseController } from '@infrastructure/http/controllers/BaseController';
 import { Validation } from '@infrastructure/http/interfaces/Validation';
 import { GetUserByIdInterface } from '@application/interfaces/use-cases/users/GetUserByIdInterface';
+import { SendEmailVerificationInterface } from '@application/interfaces/use-cases/users/SendEmailVerificationInterface';
 import { notFound, ok } from '@infrastructure/http/helpers/http';
 
 export namespace UpdateUserController {
@@ -21,7 +22,8 @@ export class UpdateUserController extends BaseController {
   constructor(
     private readonly updateUserValidation: Validation,
     private readonly getUserById: GetUserByIdInterface,
-    private readonly updateUser: UpdateUserInterface
+    private readonly updateUser: UpdateUserInterface,
+    private readonly sendEmailVerification: SendEmailVerificationInterface
   ) {
     super(updateUserValidation);
   }
@@ -47,6 +49,13 @@ export class UpdateUserController extends BaseController {
       return notFound(updateUserOrError);
     }
 
+    if (updateUserOrError.email !== userOrError.email) {
+      await this.sendEmailVerification.execute({
+        userId,
+        email: updateUserOrError.email,
+      });
+    }
+
     return ok(updateUserOrError);
   }
 }
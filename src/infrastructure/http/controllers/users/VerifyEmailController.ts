@@ -0,0 +1,35 @@
+import { InvalidTokenError } from '@application/errors/InvalidTokenError';
+import { VerifyEmailInterface } from '@application/interfaces/use-cases/users/VerifyEmailInterface';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { Validation } from '@infrastructure/http/interfaces/Validation';
+import { noContent, unauthorized } from '@infrastructure/http/helpers/http';
+
+export namespace VerifyEmailController {
+  export type Request = HttpRequest<{ token: string }>;
+  export type Response = HttpResponse<undefined | InvalidTokenError>;
+}
+
+export class VerifyEmailController extends BaseController {
+  constructor(
+    private readonly verifyEmailValidation: Validation,
+    private readonly verifyEmail: VerifyEmailInterface
+  ) {
+    super(verifyEmailValidation);
+  }
+
+  async execute(
+    httpRequest: VerifyEmailController.Request
+  ): Promise<VerifyEmailController.Response> {
+    const { token } = httpRequest.body!;
+
+    const verifyOrError = await this.verifyEmail.execute(token);
+
+    if (verifyOrError instanceof InvalidTokenError) {
+      return unauthorized(verifyOrError);
+    }
+
+    return noContent();
+  }
+}
@@ -0,0 +1,57 @@
+import { InvalidMfaCodeError } from '@application/errors/InvalidMfaCodeError';
+import { InvalidTokenError } from '@application/errors/InvalidTokenError';
+import { VerifyMfaInterface } from '@application/interfaces/use-cases/users/VerifyMfaInterface';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { Validation } from '@infrastructure/http/interfaces/Validation';
+import { ok, unauthorized } from '@infrastructure/http/helpers/http';
+
+export namespace VerifyMfaController {
+  export type Request = HttpRequest<{ mfaToken: string; code: string }>;
+  export type Response = HttpResponse<
+    { accessToken: string } | InvalidTokenError | InvalidMfaCodeError
+  >;
+}
+
+export class VerifyMfaController extends BaseController {
+  constructor(
+    private readonly verifyMfaValidation: Validation,
+    private readonly verifyMfa: VerifyMfaInterface
+  ) {
+    super(verifyMfaValidation);
+  }
+
+  async execute(
+    httpRequest: VerifyMfaController.Request
+  ): Promise<VerifyMfaController.Response> {
+    const { mfaToken, code } = httpRequest.body!;
+
+    const authenticationTokensOrError = await this.verifyMfa.execute({
+      mfaToken,
+      code,
+      userAgent: httpRequest.headers?.['user-agent'],
+      ip: httpRequest.ip,
+    });
+
+    if (
+      authenticationTokensOrError instanceof InvalidTokenError ||
+      authenticationTokensOrError instanceof InvalidMfaCodeError
+    ) {
+      return unauthorized(authenticationTokensOrError);
+    }
+
+    const { accessToken, refreshToken } = authenticationTokensOrError;
+
+    const refreshCookie = {
+      token: refreshToken,
+    };
+
+    return ok(
+      {
+        accessToken,
+      },
+      refreshCookie
+    );
+  }
+}
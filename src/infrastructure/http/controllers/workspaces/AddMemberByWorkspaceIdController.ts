@@ -1,10 +1,17 @@
+import { UnverifiedEmailError } from '@application/errors/UnverifiedEmailError';
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
 import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
 import { AddMemberByWorkspaceIdInterface } from '@application/interfaces/use-cases/workspaces/AddMemberByWorkspaceIdInterface';
 import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
 import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
 import { BaseController } from '@infrastructure/http/controllers/BaseController';
 import { GetWorkspaceByIdInterface } from '@application/interfaces/use-cases/workspaces/GetWorkspaceByIdInterface';
-import { noContent, notFound } from '@infrastructure/http/helpers/http';
+import { GetUserByIdInterface } from '@application/interfaces/use-cases/users/GetUserByIdInterface';
+import {
+  forbidden,
+  noContent,
+  notFound,
+} from '@infrastructure/http/helpers/http';
 
 export namespace AddMemberByWorkspaceIdController {
   export type Request = HttpRequest<
@@ -12,13 +19,17 @@ export namespace AddMemberByWorkspaceIdController {
     { workspaceId: string; memberId: string }
   >;
   export type Response = HttpResponse<
-    AddMemberByWorkspaceIdInterface.Response | WorkspaceNotFoundError
+    | AddMemberByWorkspaceIdInterface.Response
+    | WorkspaceNotFoundError
+    | UserNotFoundError
+    | UnverifiedEmailError
   >;
 }
 
 export class AddMemberByWorkspaceIdController extends BaseController {
   constructor(
     private readonly getWorkspaceById: GetWorkspaceByIdInterface,
+    private readonly getUserById: GetUserByIdInterface,
     private readonly addMemberByWorkspaceId: AddMemberByWorkspaceIdInterface
   ) {
     super();
@@ -35,9 +46,22 @@ export class AddMemberByWorkspaceIdController extends BaseController {
       return notFound(workspaceOrError);
     }
 
+    const memberOrError = await this.getUserById.execute(memberId);
+
+    if (memberOrError instanceof UserNotFoundError) {
+      return notFound(memberOrError);
+    }
+
+    if (!memberOrError.emailVerified) {
+      return forbidden(new UnverifiedEmailError());
+    }
+
     await this.addMemberByWorkspaceId.execute({
       workspaceId,
       memberId,
+      role: 'editor',
+      actorId: httpRequest.userId!,
+      ip: httpRequest.ip,
     });
 
     return noContent();
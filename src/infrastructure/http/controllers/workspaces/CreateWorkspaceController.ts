@@ -40,7 +40,7 @@ export class CreateWorkspaceController extends BaseController {
     const workspaceId = await this.createWorkspace.execute({
       name,
       icon,
-      members: [userId],
+      members: [{ userId, role: 'owner' }],
       pages: [],
     });
 
@@ -66,7 +66,8 @@ export class CreateWorkspaceController extends BaseController {
         fullWidth: true,
         lock: true,
       },
-      path: null,
+      parentId: null,
+      ancestors: [],
       workspaceId,
     });
 
@@ -76,14 +77,20 @@ export class CreateWorkspaceController extends BaseController {
       return forbidden(pageOrError);
     }
 
-    const { reference, path, icon: pageIcon, title, createdAt } = pageOrError;
+    const {
+      reference,
+      parentId,
+      icon: pageIcon,
+      title,
+      createdAt,
+    } = pageOrError;
 
     await this.addPage.execute({
       workspaceId,
       pageData: {
         id: pageId,
         reference,
-        path,
+        parentId,
         icon: pageIcon,
         title,
         createdAt,
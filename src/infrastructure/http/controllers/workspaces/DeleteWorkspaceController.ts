@@ -46,14 +46,22 @@ export class DeleteWorkspaceController extends BaseController {
 
     membersOrError?.forEach(member => {
       this.removeWorkspaceByUserId.execute({
-        userId: member,
+        userId: member.userId,
         workspaceId,
       });
     });
 
-    await this.deletePagesByWorkspaceId.execute(workspaceId);
+    await this.deletePagesByWorkspaceId.execute({
+      workspaceId,
+      actorId: httpRequest.userId!,
+      ip: httpRequest.ip,
+    });
 
-    await this.deleteWorkspace.execute(workspaceId);
+    await this.deleteWorkspace.execute({
+      workspaceId,
+      actorId: httpRequest.userId!,
+      ip: httpRequest.ip,
+    });
 
     return noContent();
   }
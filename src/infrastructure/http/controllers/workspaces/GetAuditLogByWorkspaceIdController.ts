@@ -0,0 +1,60 @@
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { GetAuditLogByWorkspaceIdInterface } from '@application/interfaces/use-cases/workspaces/GetAuditLogByWorkspaceIdInterface';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { Validation } from '@infrastructure/http/interfaces/Validation';
+import { notFound, ok } from '@infrastructure/http/helpers/http';
+import { AuditLogAction } from '@domain/entities/AuditLogEntry';
+
+export namespace GetAuditLogByWorkspaceIdController {
+  export type Request = HttpRequest<
+    undefined,
+    { workspaceId: string },
+    undefined,
+    {
+      action?: AuditLogAction;
+      actorId?: string;
+      from?: string;
+      to?: string;
+      cursor?: string;
+      limit?: string;
+    }
+  >;
+  export type Response = HttpResponse<
+    GetAuditLogByWorkspaceIdInterface.Response | WorkspaceNotFoundError
+  >;
+}
+
+export class GetAuditLogByWorkspaceIdController extends BaseController {
+  constructor(
+    private readonly getAuditLogByWorkspaceIdValidation: Validation,
+    private readonly getAuditLogByWorkspaceId: GetAuditLogByWorkspaceIdInterface
+  ) {
+    super(getAuditLogByWorkspaceIdValidation);
+  }
+
+  async execute(
+    httpRequest: GetAuditLogByWorkspaceIdController.Request
+  ): Promise<GetAuditLogByWorkspaceIdController.Response> {
+    const { workspaceId } = httpRequest.params!;
+    const { action, actorId, from, to, cursor, limit } =
+      httpRequest.query || {};
+
+    const auditLogOrError = await this.getAuditLogByWorkspaceId.execute({
+      workspaceId,
+      action,
+      actorId,
+      from: from ? new Date(from) : undefined,
+      to: to ? new Date(to) : undefined,
+      cursor,
+      limit: limit ? Number(limit) : undefined,
+    });
+
+    if (auditLogOrError instanceof WorkspaceNotFoundError) {
+      return notFound(auditLogOrError);
+    }
+
+    return ok(auditLogOrError);
+  }
+}
@@ -0,0 +1,50 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { GetPageTreeByWorkspaceIdInterface } from '@application/interfaces/use-cases/workspaces/GetPageTreeByWorkspaceIdInterface';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { Validation } from '@infrastructure/http/interfaces/Validation';
+import { notFound, ok } from '@infrastructure/http/helpers/http';
+
+export namespace GetPageTreeByWorkspaceIdController {
+  export type Request = HttpRequest<
+    undefined,
+    { workspaceId: string },
+    undefined,
+    { depth?: string; root?: string }
+  >;
+  export type Response =
+    HttpResponse<GetPageTreeByWorkspaceIdInterface.Response>;
+}
+
+export class GetPageTreeByWorkspaceIdController extends BaseController {
+  constructor(
+    private readonly getPageTreeByWorkspaceIdValidation: Validation,
+    private readonly getPageTreeByWorkspaceId: GetPageTreeByWorkspaceIdInterface
+  ) {
+    super(getPageTreeByWorkspaceIdValidation);
+  }
+
+  async execute(
+    httpRequest: GetPageTreeByWorkspaceIdController.Request
+  ): Promise<GetPageTreeByWorkspaceIdController.Response> {
+    const { workspaceId } = httpRequest.params!;
+    const { depth, root } = httpRequest.query || {};
+
+    const treeOrError = await this.getPageTreeByWorkspaceId.execute({
+      workspaceId,
+      rootPageId: root,
+      depth: depth ? Number(depth) : undefined,
+    });
+
+    if (
+      treeOrError instanceof WorkspaceNotFoundError ||
+      treeOrError instanceof PageNotFoundError
+    ) {
+      return notFound(treeOrError);
+    }
+
+    return ok(treeOrError);
+  }
+}
@@ -0,0 +1,48 @@
+import { GetTrashByWorkspaceIdInterface } from '@application/interfaces/use-cases/pages/getTrashByWorkspaceIdInterface';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { ok } from '@infrastructure/http/helpers/http';
+
+export namespace GetTrashByWorkspaceIdController {
+  export type Request = HttpRequest<undefined, { workspaceId: string }>;
+  export type Response = HttpResponse<
+    {
+      id: string;
+      reference: string;
+      title: string;
+      icon: string;
+      parentId: string | null;
+      trashedAt: Date;
+    }[]
+  >;
+}
+
+export class GetTrashByWorkspaceIdController extends BaseController {
+  constructor(
+    private readonly getTrashByWorkspaceId: GetTrashByWorkspaceIdInterface
+  ) {
+    super();
+  }
+
+  async execute(
+    httpRequest: GetTrashByWorkspaceIdController.Request
+  ): Promise<GetTrashByWorkspaceIdController.Response> {
+    const { workspaceId } = httpRequest.params!;
+
+    const trashedPages = await this.getTrashByWorkspaceId.execute(workspaceId);
+
+    return ok(
+      trashedPages.map(
+        ({ id, reference, title, icon, parentId, trashedAt }) => ({
+          id,
+          reference,
+          title,
+          icon,
+          parentId,
+          trashedAt: trashedAt!,
+        })
+      )
+    );
+  }
+}
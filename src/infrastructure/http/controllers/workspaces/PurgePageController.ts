@@ -0,0 +1,39 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { PurgePageInterface } from '@application/interfaces/use-cases/pages/purgePageInterface';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { noContent, notFound } from '@infrastructure/http/helpers/http';
+
+export namespace PurgePageController {
+  export type Request = HttpRequest<
+    undefined,
+    { workspaceId: string; pageId: string }
+  >;
+  export type Response = HttpResponse<undefined | PageNotFoundError>;
+}
+
+export class PurgePageController extends BaseController {
+  constructor(private readonly purgePage: PurgePageInterface) {
+    super();
+  }
+
+  async execute(
+    httpRequest: PurgePageController.Request
+  ): Promise<PurgePageController.Response> {
+    const { workspaceId, pageId } = httpRequest.params!;
+
+    const purgedOrError = await this.purgePage.execute({
+      workspaceId,
+      pageId,
+      actorId: httpRequest.userId!,
+      ip: httpRequest.ip,
+    });
+
+    if (purgedOrError instanceof PageNotFoundError) {
+      return notFound(purgedOrError);
+    }
+
+    return noContent();
+  }
+}
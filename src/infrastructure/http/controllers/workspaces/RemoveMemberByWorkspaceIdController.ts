@@ -1,17 +1,27 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { LastOwnerError } from '@application/errors/LastOwnerError';
 import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
 import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
 import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
 import { BaseController } from '@infrastructure/http/controllers/BaseController';
 import { GetWorkspaceByIdInterface } from '@application/interfaces/use-cases/workspaces/GetWorkspaceByIdInterface';
 import { RemoveMemberByWorkspaceIdInterface } from '@application/interfaces/use-cases/workspaces/RemoveMemberByWorkspaceIdInterface';
-import { noContent, notFound } from '@infrastructure/http/helpers/http';
+import { PermissionError } from '@infrastructure/http/errors/PermissionError';
+import {
+  conflict,
+  forbidden,
+  noContent,
+  notFound,
+} from '@infrastructure/http/helpers/http';
 
 export namespace RemoveMemberByWorkspaceIdController {
   export type Request = HttpRequest<
     undefined,
     { workspaceId: string; memberId: string }
   >;
-  export type Response = HttpResponse<undefined | WorkspaceNotFoundError>;
+  export type Response = HttpResponse<
+    undefined | WorkspaceNotFoundError | PermissionError | LastOwnerError
+  >;
 }
 
 export class RemoveMemberByWorkspaceIdController extends BaseController {
@@ -26,6 +36,7 @@ export class RemoveMemberByWorkspaceIdController extends BaseController {
     httpRequest: RemoveMemberByWorkspaceIdController.Request
   ): Promise<RemoveMemberByWorkspaceIdController.Response> {
     const { workspaceId, memberId } = httpRequest.params!;
+    const userId = httpRequest.userId!;
 
     const workspaceOrError = await this.getWorkspaceById.execute(workspaceId);
 
@@ -33,11 +44,21 @@ export class RemoveMemberByWorkspaceIdController extends BaseController {
       return notFound(workspaceOrError);
     }
 
-    await this.removeMemberByWorkspaceId.execute({
+    const removedOrError = await this.removeMemberByWorkspaceId.execute({
       workspaceId,
       memberId,
+      userId,
+      ip: httpRequest.ip,
     });
 
+    if (removedOrError instanceof ForbiddenError) {
+      return forbidden(new PermissionError());
+    }
+
+    if (removedOrError instanceof LastOwnerError) {
+      return conflict(removedOrError);
+    }
+
     return noContent();
   }
 }
@@ -0,0 +1,77 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { RestorePageInterface } from '@application/interfaces/use-cases/pages/restorePageInterface';
+import { AddPageIdToFavoritesByWorkspaceIdInterface } from '@application/interfaces/use-cases/users/AddPageIdToFavoritesByWorkspaceIdInterface';
+import { AddPageInterface } from '@application/interfaces/use-cases/workspaces/AddPageInterface';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { notFound, ok } from '@infrastructure/http/helpers/http';
+
+export namespace RestorePageController {
+  export type Request = HttpRequest<
+    undefined,
+    { workspaceId: string; pageId: string }
+  >;
+  export type Response = HttpResponse<
+    { id: string; parentId: string | null } | PageNotFoundError
+  >;
+}
+
+export class RestorePageController extends BaseController {
+  constructor(
+    private readonly restorePage: RestorePageInterface,
+    private readonly addPage: AddPageInterface,
+    private readonly addPageIdToFavoritesByWorkspaceId: AddPageIdToFavoritesByWorkspaceIdInterface
+  ) {
+    super();
+  }
+
+  async execute(
+    httpRequest: RestorePageController.Request
+  ): Promise<RestorePageController.Response> {
+    const { workspaceId, pageId } = httpRequest.params!;
+
+    const pagesOrError = await this.restorePage.execute({
+      workspaceId,
+      pageId,
+      actorId: httpRequest.userId!,
+      ip: httpRequest.ip,
+    });
+
+    if (pagesOrError instanceof PageNotFoundError) {
+      return notFound(pagesOrError);
+    }
+
+    // one after the other, each page goes below the siblings added before it
+    await pagesOrError.reduce(async (previous, page) => {
+      await previous;
+
+      await this.addPage.execute({
+        workspaceId,
+        pageData: {
+          id: page.id,
+          reference: page.reference,
+          parentId: page.parentId,
+          icon: page.icon,
+          title: page.title,
+          createdAt: page.createdAt,
+        },
+      });
+
+      // users who left the workspace meanwhile are skipped by the use case
+      await Promise.all(
+        (page.favorite || []).map(async userId => {
+          await this.addPageIdToFavoritesByWorkspaceId.execute({
+            userId,
+            workspaceId,
+            pageId: page.id,
+          });
+        })
+      );
+    }, Promise.resolve());
+
+    const [restoredPage] = pagesOrError;
+
+    return ok({ id: restoredPage.id, parentId: restoredPage.parentId });
+  }
+}
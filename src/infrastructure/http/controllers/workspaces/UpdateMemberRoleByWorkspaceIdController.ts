@@ -0,0 +1,61 @@
+import { LastOwnerError } from '@application/errors/LastOwnerError';
+import { MemberNotFoundError } from '@application/errors/MemberNotFoundError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { UpdateMemberRoleByWorkspaceIdInterface } from '@application/interfaces/use-cases/workspaces/UpdateMemberRoleByWorkspaceIdInterface';
+import { WorkspaceRole } from '@domain/entities/Workspace';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { Validation } from '@infrastructure/http/interfaces/Validation';
+import {
+  conflict,
+  noContent,
+  notFound,
+} from '@infrastructure/http/helpers/http';
+
+export namespace UpdateMemberRoleByWorkspaceIdController {
+  export type Request = HttpRequest<
+    { role: WorkspaceRole },
+    { workspaceId: string; memberId: string }
+  >;
+  export type Response = HttpResponse<
+    undefined | WorkspaceNotFoundError | MemberNotFoundError | LastOwnerError
+  >;
+}
+
+export class UpdateMemberRoleByWorkspaceIdController extends BaseController {
+  constructor(
+    private readonly updateMemberRoleByWorkspaceIdValidation: Validation,
+    private readonly updateMemberRoleByWorkspaceId: UpdateMemberRoleByWorkspaceIdInterface
+  ) {
+    super(updateMemberRoleByWorkspaceIdValidation);
+  }
+
+  async execute(
+    httpRequest: UpdateMemberRoleByWorkspaceIdController.Request
+  ): Promise<UpdateMemberRoleByWorkspaceIdController.Response> {
+    const { workspaceId, memberId } = httpRequest.params!;
+    const { role } = httpRequest.body!;
+
+    const updatedOrError = await this.updateMemberRoleByWorkspaceId.execute({
+      workspaceId,
+      memberId,
+      role,
+      actorId: httpRequest.userId!,
+      ip: httpRequest.ip,
+    });
+
+    if (
+      updatedOrError instanceof WorkspaceNotFoundError ||
+      updatedOrError instanceof MemberNotFoundError
+    ) {
+      return notFound(updatedOrError);
+    }
+
+    if (updatedOrError instanceof LastOwnerError) {
+      return conflict(updatedOrError);
+    }
+
+    return noContent();
+  }
+}
@@ -0,0 +1,58 @@
+import { InvalidPagePositionError } from '@application/errors/InvalidPagePositionError';
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { UpdatePagePositionByPageIdInterface } from '@application/interfaces/use-cases/workspaces/UpdatePagePositionByPageIdInterface';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { Validation } from '@infrastructure/http/interfaces/Validation';
+import { conflict, notFound, ok } from '@infrastructure/http/helpers/http';
+
+export namespace UpdatePagePositionByPageIdController {
+  export type Request = HttpRequest<
+    { afterPageId?: string | null; beforePageId?: string | null },
+    { workspaceId: string; pageId: string }
+  >;
+  export type Response = HttpResponse<
+    | { position: string }
+    | WorkspaceNotFoundError
+    | PageNotFoundError
+    | InvalidPagePositionError
+  >;
+}
+
+export class UpdatePagePositionByPageIdController extends BaseController {
+  constructor(
+    private readonly updatePagePositionByPageIdValidation: Validation,
+    private readonly updatePagePositionByPageId: UpdatePagePositionByPageIdInterface
+  ) {
+    super(updatePagePositionByPageIdValidation);
+  }
+
+  async execute(
+    httpRequest: UpdatePagePositionByPageIdController.Request
+  ): Promise<UpdatePagePositionByPageIdController.Response> {
+    const { workspaceId, pageId } = httpRequest.params!;
+    const { afterPageId, beforePageId } = httpRequest.body!;
+
+    const positionOrError = await this.updatePagePositionByPageId.execute({
+      workspaceId,
+      pageId,
+      afterPageId,
+      beforePageId,
+    });
+
+    if (
+      positionOrError instanceof WorkspaceNotFoundError ||
+      positionOrError instanceof PageNotFoundError
+    ) {
+      return notFound(positionOrError);
+    }
+
+    if (positionOrError instanceof InvalidPagePositionError) {
+      return conflict(positionOrError);
+    }
+
+    return ok({ position: positionOrError });
+  }
+}
@@ -45,6 +45,8 @@ export class UpdateWorkspaceController extends BaseController {
     const updateWorkspaceOrError = await this.updateWorkspace.execute({
       workspaceId,
       workspaceData,
+      actorId: httpRequest.userId!,
+      ip: httpRequest.ip,
     });
 
     if (updateWorkspaceOrError instanceof WorkspaceNotFoundError) {
@@ -75,7 +77,7 @@ export class UpdateWorkspaceController extends BaseController {
 
       membersOrError?.forEach(member => {
         this.updateUserWorkspaceMetaDataByWorkspaceId.execute({
-          userId: member,
+          userId: member.userId,
           workspaceId,
           workspaceData: newWorkspaceData,
         });
@@ -0,0 +1,6 @@
+export class InsufficientScopeError extends Error {
+  constructor() {
+    super('The API token does not grant access to this resource');
+    this.name = 'InsufficientScopeError';
+  }
+}
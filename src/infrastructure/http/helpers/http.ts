@@ -4,7 +4,7 @@ import { ServerError } from '@infrastructure/http/errors/ServerError';
 
 export const ok = <T = any>(
   body: T,
-  headers?: { token: string }
+  headers?: HttpResponse['headers']
 ): HttpResponse<T> => {
   return {
     statusCode: 200,
@@ -49,6 +49,16 @@ export const notFound = (error: Error): HttpResponse<Error> => ({
   body: error,
 });
 
+export const locked = (error: Error): HttpResponse<Error> => ({
+  statusCode: 423,
+  body: error,
+});
+
+export const tooManyRequests = (error: Error): HttpResponse<Error> => ({
+  statusCode: 429,
+  body: error,
+});
+
 export const serverError = (error?: Error | unknown): HttpResponse<Error> => {
   const stack = error instanceof Error ? error.stack : undefined;
   return {
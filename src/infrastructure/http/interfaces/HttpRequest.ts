@@ -1,8 +1,16 @@
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-export type HttpRequest<TBody = any, TParams = any, THeaders = any> = {
+/* eslint-disable @typescript-eslint/no-explicit-any */
+export type HttpRequest<
+  TBody = any,
+  TParams = any,
+  THeaders = any,
+  TQuery = any
+> = {
   body?: TBody;
   params?: TParams;
   headers?: THeaders;
+  query?: TQuery;
   userId?: string;
+  ip?: string;
   workspaceId?: string;
+  apiTokenWorkspaceId?: string;
 };
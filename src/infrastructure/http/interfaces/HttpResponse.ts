@@ -2,5 +2,5 @@
 export type HttpResponse<T = any> = {
   statusCode: number;
   body?: T;
-  headers?: { token: string };
+  headers?: { token?: string; 'X-Robots-Tag'?: string };
 };
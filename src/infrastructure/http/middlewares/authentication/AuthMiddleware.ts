@@ -1,11 +1,13 @@
 import { AuthTokenNotProvidedError } from '@infrastructure/http/errors/AuthTokenNotProvidedError';
 import { InvalidAuthTokenError } from '@infrastructure/http/errors/InvalidAuthTokenError';
+import { InsufficientScopeError } from '@infrastructure/http/errors/InsufficientScopeError';
 import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
 import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
 import { BaseMiddleware } from '@infrastructure/http/middlewares/BaseMiddleware';
 import { AuthenticateInterface } from '@application/interfaces/use-cases/users/AuthenticateInterface';
 import { forbidden, ok } from '@infrastructure/http/helpers/http';
 import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { ApiTokenScope } from '@domain/entities/ApiToken';
 
 export namespace AuthMiddleware {
   export type Request = HttpRequest<
@@ -14,12 +16,18 @@ export namespace AuthMiddleware {
     { authorization: string }
   >;
   export type Response = HttpResponse<
-    { userId: string } | AuthTokenNotProvidedError | InvalidAuthTokenError
+    | { userId: string; apiTokenWorkspaceId?: string }
+    | AuthTokenNotProvidedError
+    | InvalidAuthTokenError
+    | InsufficientScopeError
   >;
 }
 
 export class AuthMiddleware extends BaseMiddleware {
-  constructor(private readonly authenticate: AuthenticateInterface) {
+  constructor(
+    private readonly authenticate: AuthenticateInterface,
+    private readonly scope?: ApiTokenScope
+  ) {
     super();
   }
 
@@ -31,12 +39,29 @@ export class AuthMiddleware extends BaseMiddleware {
       return forbidden(new AuthTokenNotProvidedError());
     }
     const [, authToken] = authHeader.split(' ');
-    const userIdOrError = await this.authenticate.execute(authToken);
+    const authenticationOrError = await this.authenticate.execute(
+      authToken || ''
+    );
 
-    if (userIdOrError instanceof ForbiddenError) {
+    if (authenticationOrError instanceof ForbiddenError) {
       return forbidden(new InvalidAuthTokenError());
     }
 
-    return ok({ userId: userIdOrError });
+    const { userId, apiToken } = authenticationOrError;
+
+    if (!apiToken) {
+      return ok({ userId });
+    }
+
+    // API tokens only reach the routes that ask for one of their scopes
+    if (!this.scope || !apiToken.scopes.includes(this.scope)) {
+      return forbidden(new InsufficientScopeError());
+    }
+
+    if (apiToken.workspaceId) {
+      return ok({ userId, apiTokenWorkspaceId: apiToken.workspaceId });
+    }
+
+    return ok({ userId });
   }
 }
@@ -1,6 +1,7 @@
 import { ForbiddenError } from '@application/errors/ForbiddenError';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { AuthorizationInterface } from '@application/interfaces/use-cases/pages/authorizationInterface';
+import { WorkspaceRole } from '@domain/entities/Workspace';
 import { PermissionError } from '@infrastructure/http/errors/PermissionError';
 import { forbidden, ok } from '@infrastructure/http/helpers/http';
 import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
@@ -17,7 +18,11 @@ export namespace AuthorizationMiddleware {
 }
 
 export class AuthorizationMiddleware extends BaseMiddleware {
-  constructor(private readonly authorization: AuthorizationInterface) {
+  constructor(
+    private readonly authorization: AuthorizationInterface,
+    private readonly roles?: WorkspaceRole[],
+    private readonly membersOnly?: boolean
+  ) {
     super();
   }
 
@@ -30,6 +35,8 @@ export class AuthorizationMiddleware extends BaseMiddleware {
     const workspaceIdOrError = await this.authorization.execute({
       userId,
       pageId,
+      roles: this.roles,
+      membersOnly: this.membersOnly,
     });
 
     if (workspaceIdOrError instanceof ForbiddenError) {
@@ -40,6 +47,12 @@ export class AuthorizationMiddleware extends BaseMiddleware {
       return forbidden(new PageNotFoundError());
     }
 
+    // a workspace-restricted API token can't reach any other workspace
+    const { apiTokenWorkspaceId } = httpRequest;
+    if (apiTokenWorkspaceId && apiTokenWorkspaceId !== workspaceIdOrError) {
+      return forbidden(new PermissionError());
+    }
+
     return ok({ workspaceId: workspaceIdOrError });
   }
 }
@@ -0,0 +1,39 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { UserAuthorizationInterface } from '@application/interfaces/use-cases/users/UserAuthorizationInterface';
+import { PermissionError } from '@infrastructure/http/errors/PermissionError';
+import { forbidden, ok } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseMiddleware } from '@infrastructure/http/middlewares/BaseMiddleware';
+
+export namespace UserAuthorizationMiddleware {
+  export type Request = HttpRequest<undefined, { userId: string }> & {
+    userId: string;
+  };
+  export type Response = HttpResponse<{ userId: string } | PermissionError>;
+}
+
+export class UserAuthorizationMiddleware extends BaseMiddleware {
+  constructor(private readonly userAuthorization: UserAuthorizationInterface) {
+    super();
+  }
+
+  async execute(
+    httpRequest: UserAuthorizationMiddleware.Request
+  ): Promise<UserAuthorizationMiddleware.Response> {
+    const targetUserId = httpRequest.params!.userId;
+    const userId = httpRequest.userId!;
+
+    const targetUserIdOrError = await this.userAuthorization.execute({
+      userId,
+      targetUserId,
+    });
+
+    if (targetUserIdOrError instanceof ForbiddenError) {
+      return forbidden(new PermissionError());
+    }
+
+    // req.userId stays the authenticated user, the target is read from params
+    return ok({ userId });
+  }
+}
@@ -0,0 +1,61 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { WorkspaceAuthorizationInterface } from '@application/interfaces/use-cases/workspaces/WorkspaceAuthorizationInterface';
+import { WorkspaceRole } from '@domain/entities/Workspace';
+import { PermissionError } from '@infrastructure/http/errors/PermissionError';
+import { forbidden, notFound, ok } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { HttpResponse } from '@infrastructure/http/interfaces/HttpResponse';
+import { BaseMiddleware } from '@infrastructure/http/middlewares/BaseMiddleware';
+
+export namespace WorkspaceAuthorizationMiddleware {
+  export type Request = HttpRequest<
+    { workspaceId?: string } | undefined,
+    { workspaceId?: string }
+  > & {
+    userId: string;
+  };
+  export type Response = HttpResponse<
+    { workspaceId: string } | WorkspaceNotFoundError | PermissionError
+  >;
+}
+
+export class WorkspaceAuthorizationMiddleware extends BaseMiddleware {
+  constructor(
+    private readonly workspaceAuthorization: WorkspaceAuthorizationInterface,
+    private readonly roles?: WorkspaceRole[]
+  ) {
+    super();
+  }
+
+  async execute(
+    httpRequest: WorkspaceAuthorizationMiddleware.Request
+  ): Promise<WorkspaceAuthorizationMiddleware.Response> {
+    // pages are created with the workspace in the body instead of the path
+    const workspaceId =
+      httpRequest.params?.workspaceId || httpRequest.body?.workspaceId || '';
+    const userId = httpRequest.userId!;
+
+    const workspaceIdOrError = await this.workspaceAuthorization.execute({
+      userId,
+      workspaceId,
+      roles: this.roles,
+    });
+
+    if (workspaceIdOrError instanceof WorkspaceNotFoundError) {
+      return notFound(workspaceIdOrError);
+    }
+
+    if (workspaceIdOrError instanceof ForbiddenError) {
+      return forbidden(new PermissionError());
+    }
+
+    // a workspace-restricted API token can't reach any other workspace
+    const { apiTokenWorkspaceId } = httpRequest;
+    if (apiTokenWorkspaceId && apiTokenWorkspaceId !== workspaceIdOrError) {
+      return forbidden(new PermissionError());
+    }
+
+    return ok({ workspaceId: workspaceIdOrError });
+  }
+}
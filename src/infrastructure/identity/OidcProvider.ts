@@ -0,0 +1,171 @@
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import { createHash, createPublicKey, JsonWebKey, KeyObject } from 'crypto';
+import {
+  AuthorizationCodeType,
+  AuthorizationRequestType,
+  ExternalIdentityType,
+  IdentityProvider,
+} from '@application/interfaces/identity/IdentityProvider';
+
+export type OidcProviderConfig = {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  redirectUri: string;
+  scope?: string;
+};
+
+type DiscoveryDocument = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+};
+
+export class OidcProvider implements IdentityProvider {
+  private discovery?: Promise<DiscoveryDocument>;
+
+  constructor(private readonly config: OidcProviderConfig) {}
+
+  async getAuthorizationUrl(
+    request: AuthorizationRequestType
+  ): Promise<string> {
+    const { state, nonce, codeVerifier } = request;
+    const { authorization_endpoint: authorizationEndpoint } =
+      await this.discover();
+
+    const url = new URL(authorizationEndpoint);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', this.config.clientId);
+    url.searchParams.set('redirect_uri', this.config.redirectUri);
+    url.searchParams.set('scope', this.config.scope || 'openid email profile');
+    url.searchParams.set('state', state);
+    url.searchParams.set('nonce', nonce);
+    url.searchParams.set(
+      'code_challenge',
+      OidcProvider.toCodeChallenge(codeVerifier)
+    );
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return url.toString();
+  }
+
+  async getIdentity(
+    authorization: AuthorizationCodeType
+  ): Promise<ExternalIdentityType | null> {
+    const { code, nonce, codeVerifier } = authorization;
+    const { token_endpoint: tokenEndpoint } = await this.discover();
+
+    const response = await fetch(tokenEndpoint, {
+      method: 'POST',
+      headers: { 'content-type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: this.config.redirectUri,
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+        code_verifier: codeVerifier,
+      }).toString(),
+    });
+
+    if (!response.ok) {
+      return null;
+    }
+
+    const { id_token: idToken } = await response.json();
+
+    if (typeof idToken !== 'string') {
+      return null;
+    }
+
+    const claims = await this.verifyIdToken(idToken);
+
+    // the nonce ties the id token to the sign-in that was started here
+    if (!claims || claims.nonce !== nonce || !claims.sub || !claims.email) {
+      return null;
+    }
+
+    return {
+      subject: claims.sub,
+      email: claims.email,
+      emailVerified: claims.email_verified === true,
+      name: claims.name || claims.email,
+      picture: claims.picture,
+    };
+  }
+
+  private async discover(): Promise<DiscoveryDocument> {
+    if (!this.discovery) {
+      this.discovery = this.fetchDiscoveryDocument().catch(error => {
+        this.discovery = undefined;
+        throw error;
+      });
+    }
+
+    return this.discovery;
+  }
+
+  private async fetchDiscoveryDocument(): Promise<DiscoveryDocument> {
+    const issuer = this.config.issuer.replace(/\/$/, '');
+    const response = await fetch(`${issuer}/.well-known/openid-configuration`);
+
+    if (!response.ok) {
+      throw new Error(`OIDC discovery failed for ${issuer}`);
+    }
+
+    const document: DiscoveryDocument = await response.json();
+
+    if (document.issuer.replace(/\/$/, '') !== issuer) {
+      throw new Error(`OIDC discovery returned another issuer for ${issuer}`);
+    }
+
+    return document;
+  }
+
+  private async verifyIdToken(idToken: string): Promise<JwtPayload | null> {
+    const decoded = jwt.decode(idToken, { complete: true });
+
+    if (!decoded) {
+      return null;
+    }
+
+    const { issuer, jwks_uri: jwksUri } = await this.discover();
+    const key = await OidcProvider.getSigningKey(jwksUri, decoded.header.kid);
+
+    if (!key) {
+      return null;
+    }
+
+    try {
+      return jwt.verify(idToken, key, {
+        algorithms: ['RS256'],
+        issuer,
+        audience: this.config.clientId,
+      }) as JwtPayload;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private static async getSigningKey(
+    jwksUri: string,
+    kid?: string
+  ): Promise<KeyObject | null> {
+    const response = await fetch(jwksUri);
+
+    if (!response.ok) {
+      return null;
+    }
+
+    const { keys }: { keys: (JsonWebKey & { kid?: string })[] } =
+      await response.json();
+    const jwk = kid ? keys.find(key => key.kid === kid) : keys[0];
+
+    return jwk ? createPublicKey({ key: jwk, format: 'jwk' }) : null;
+  }
+
+  private static toCodeChallenge(codeVerifier: string): string {
+    return createHash('sha256').update(codeVerifier).digest('base64url');
+  }
+}
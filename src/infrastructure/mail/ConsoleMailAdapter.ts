@@ -0,0 +1,13 @@
+import { MailSender, MailType } from '@application/interfaces/mail/MailSender';
+
+export class ConsoleMailAdapter implements MailSender {
+  constructor(private readonly from: string) {}
+
+  async send(mail: MailType): Promise<void> {
+    const { to, subject, text } = mail;
+    // eslint-disable-next-line no-console
+    console.log(
+      `from: ${this.from}\nto: ${to}\nsubject: ${subject}\n\n${text}`
+    );
+  }
+}
@@ -0,0 +1,21 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { MailSender, MailType } from '@application/interfaces/mail/MailSender';
+
+export class FileMailAdapter implements MailSender {
+  constructor(
+    private readonly from: string,
+    private readonly directory: string
+  ) {}
+
+  async send(mail: MailType): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    // one json file per mail, named so that a listing reads in sending order
+    const fileName = `${Date.now()}-${mail.to}.json`;
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ from: this.from, ...mail, sentAt: new Date() }, null, 2)
+    );
+  }
+}
@@ -0,0 +1,53 @@
+import { PositionGenerator } from '@application/interfaces/ordering/PositionGenerator';
+
+// ascending in plain string comparison, which is also how mongodb sorts them
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+// positions are base 62 fractions between 0 and 1 that never end with a zero,
+// so there is always room for another one between two neighbours
+export class FractionalIndexAdapter implements PositionGenerator {
+  generatePosition(lower: string | null, upper: string | null): string {
+    if (lower !== null && upper !== null && lower >= upper) {
+      throw new Error(`Position ${lower} does not sort before ${upper}`);
+    }
+
+    return FractionalIndexAdapter.midpoint(lower || '', upper);
+  }
+
+  private static midpoint(lower: string, upper: string | null): string {
+    if (upper !== null) {
+      let sharedLength = 0;
+
+      while ((lower[sharedLength] || DIGITS[0]) === upper[sharedLength]) {
+        sharedLength += 1;
+      }
+
+      if (sharedLength > 0) {
+        return (
+          upper.slice(0, sharedLength) +
+          FractionalIndexAdapter.midpoint(
+            lower.slice(sharedLength),
+            upper.slice(sharedLength)
+          )
+        );
+      }
+    }
+
+    const lowerDigit = lower ? DIGITS.indexOf(lower[0]) : 0;
+    const upperDigit =
+      upper !== null ? DIGITS.indexOf(upper[0]) : DIGITS.length;
+
+    if (upperDigit - lowerDigit > 1) {
+      return DIGITS[Math.round((lowerDigit + upperDigit) / 2)];
+    }
+
+    // adjacent digits, the first digit of a longer upper bound still fits
+    if (upper !== null && upper.length > 1) {
+      return upper[0];
+    }
+
+    return (
+      DIGITS[lowerDigit] + FractionalIndexAdapter.midpoint(lower.slice(1), null)
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ExportStorage } from '@application/interfaces/storage/ExportStorage';
+
+export class FileExportStorageAdapter implements ExportStorage {
+  constructor(private readonly directory: string) {}
+
+  async save(exportId: string, content: string): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.getFilePath(exportId), content);
+  }
+
+  async load(exportId: string): Promise<string | null> {
+    try {
+      return await fs.readFile(this.getFilePath(exportId), 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+
+      throw error;
+    }
+  }
+
+  async remove(exportId: string): Promise<void> {
+    try {
+      await fs.unlink(this.getFilePath(exportId));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  private getFilePath(exportId: string): string {
+    // export ids are object ids, path.basename keeps anything else inside
+    return path.join(this.directory, `${path.basename(exportId)}.json`);
+  }
+}
@@ -0,0 +1,86 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { CreatePageInterface } from '@application/interfaces/use-cases/pages/createPageInterface';
+import { GetPageByIdInterface } from '@application/interfaces/use-cases/pages/getPageByIdInterface';
+import { AddPageInterface } from '@application/interfaces/use-cases/workspaces/AddPageInterface';
+import { CreateWorkspaceInterface } from '@application/interfaces/use-cases/workspaces/CreateWorkspaceInterface';
+import { WorkspaceType } from '@domain/entities/User';
+import { getPageOneContent } from '@infrastructure/util/getPageContent';
+
+type HomeWorkspaceUseCases = {
+  createWorkspace: CreateWorkspaceInterface;
+  createPage: CreatePageInterface;
+  getPageById: GetPageByIdInterface;
+  addPage: AddPageInterface;
+};
+
+// every new account starts with a home workspace holding the starter page
+export const createHomeWorkspace = async ({
+  createWorkspace,
+  createPage,
+  getPageById,
+  addPage,
+}: HomeWorkspaceUseCases): Promise<
+  { workspaceId: string; workspaces: WorkspaceType[] } | PageNotFoundError
+> => {
+  const content = getPageOneContent();
+
+  const workspace = {
+    name: 'home-workspace',
+    icon: '1f30e',
+    members: [],
+    pages: [],
+  };
+
+  const workspaceId = await createWorkspace.execute(workspace);
+
+  const pageId = await createPage.execute({
+    title: 'Chandrayaan-3 | चंद्रयान-३',
+    icon: '1f680',
+    coverPicture: {
+      url: '/static/media/nasa_space_shuttle_columbia_and_sunrise.b623df337db2db60dcc0.jpg',
+      verticalPosition: 0,
+    },
+    content,
+    favorite: [],
+    pageSettings: {
+      font: 'san-serif',
+      smallText: true,
+      fullWidth: true,
+      lock: true,
+    },
+    parentId: null,
+    ancestors: [],
+    workspaceId,
+  });
+
+  const pageOrError = await getPageById.execute(pageId);
+
+  if (pageOrError instanceof PageNotFoundError) {
+    return pageOrError;
+  }
+
+  const { reference, parentId, icon, title, createdAt } = pageOrError;
+
+  await addPage.execute({
+    workspaceId,
+    pageData: {
+      id: pageId,
+      reference,
+      parentId,
+      icon,
+      title,
+      createdAt,
+    },
+  });
+
+  const workspaces = [
+    {
+      workspaceId,
+      workspaceName: workspace.name,
+      workspaceIcon: workspace.icon,
+      favorites: [],
+    },
+  ];
+
+  return { workspaceId, workspaces };
+};
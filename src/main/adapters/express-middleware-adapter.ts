@@ -10,6 +10,7 @@ export const expressMiddlewareAdapter =
       params: req.params,
       headers: req.headers,
       userId: req.userId,
+      apiTokenWorkspaceId: req.apiTokenWorkspaceId,
     };
 
     const httpResponse = await middleware.handle(httpRequest);
@@ -8,13 +8,19 @@ export const expressRouteAdapter =
       body: req.body,
       params: req.params,
       headers: req.headers,
+      query: req.query,
       userId: req.userId,
+      ip: req.ip,
       workspaceId: req.workspaceId,
     };
 
     const httpResponse = await controller.handle(httpRequest);
 
     if (httpResponse.statusCode >= 200 && httpResponse.statusCode <= 299) {
+      if (httpResponse.headers?.['X-Robots-Tag']) {
+        res.set('X-Robots-Tag', httpResponse.headers['X-Robots-Tag']);
+      }
+
       res.status(httpResponse.statusCode).json(httpResponse.body);
     } else {
       res.status(httpResponse.statusCode).json({
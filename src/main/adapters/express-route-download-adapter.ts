@@ -0,0 +1,31 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { Request, Response } from 'express';
+
+export const expressRouteDownloadAdapter =
+  (controller: BaseController) => async (req: Request, res: Response) => {
+    const httpRequest: HttpRequest = {
+      body: req.body,
+      params: req.params,
+      headers: req.headers,
+      query: req.query,
+      userId: req.userId,
+      ip: req.ip,
+    };
+
+    const httpResponse = await controller.handle(httpRequest);
+
+    if (httpResponse.statusCode >= 200 && httpResponse.statusCode <= 299) {
+      // the body carries the file, sent as is instead of wrapped in json
+      const { fileName, content } = httpResponse.body;
+      res
+        .status(httpResponse.statusCode)
+        .attachment(fileName)
+        .type('application/json')
+        .send(content);
+    } else {
+      res.status(httpResponse.statusCode).json({
+        error: httpResponse.body?.message,
+      });
+    }
+  };
@@ -9,21 +9,23 @@ export const expressRouteRemoveCookieAdapter =
       params: req.params,
       headers: req.headers,
       userId: req.userId,
+      ip: req.ip,
     };
 
     const httpResponse = await controller.handle(httpRequest);
-    const refreshToken = httpResponse.headers?.token;
 
     if (httpResponse.statusCode >= 200 && httpResponse.statusCode <= 299) {
-      res
-        .status(httpResponse.statusCode)
-        .cookie('token_v1', refreshToken, {
+      // the cookie is only cleared when the controller hands back a token
+      if (httpResponse.headers?.token !== undefined) {
+        res.cookie('token_v1', httpResponse.headers.token, {
           sameSite: 'strict',
           path: '/',
           httpOnly: true,
           expires: new Date(0),
-        })
-        .json(httpResponse.body);
+        });
+      }
+
+      res.status(httpResponse.statusCode).json(httpResponse.body);
     } else {
       res.status(httpResponse.statusCode).json({
         error: httpResponse.body?.message,
@@ -9,21 +9,24 @@ export const expressRouteSetCookieAdapter =
       params: req.params,
       headers: req.headers,
       userId: req.userId,
+      ip: req.ip,
     };
 
     const httpResponse = await controller.handle(httpRequest);
     const refreshToken = httpResponse.headers?.token;
 
     if (httpResponse.statusCode >= 200 && httpResponse.statusCode <= 299) {
-      res
-        .status(httpResponse.statusCode)
-        .cookie('token_v1', refreshToken, {
+      // a pending second factor answers without a refresh token to set
+      if (refreshToken) {
+        res.cookie('token_v1', refreshToken, {
           sameSite: 'strict',
           path: '/',
           httpOnly: true,
-          expires: new Date(new Date().getTime() + 31536000000),
-        })
-        .json(httpResponse.body);
+          expires: new Date(new Date().getTime() + 2592000000),
+        });
+      }
+
+      res.status(httpResponse.statusCode).json(httpResponse.body);
     } else {
       res.status(httpResponse.statusCode).json({
         error: httpResponse.body?.message,
@@ -1,9 +1,12 @@
 import express, { Express } from 'express';
 import setupMiddlewares from '@main/config/middlewares';
 import setupRoutes from '@main/config/routes';
+import env from '@main/config/env';
 
 export default (): Express => {
   const app = express();
+  // sign-in limits and session ips key on req.ip
+  app.set('trust proxy', env.trustProxy);
   setupMiddlewares(app);
   setupRoutes(app);
   return app;
@@ -0,0 +1,49 @@
+import env from '@main/config/env';
+
+const OIDC_PROVIDER_KEYS = [
+  'issuer',
+  'clientId',
+  'clientSecret',
+  'redirectUri',
+];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOidcProviderConfig = (config: unknown): boolean =>
+  isObject(config) &&
+  OIDC_PROVIDER_KEYS.every(key => typeof config[key] === 'string');
+
+const isJWTKey = (key: unknown): boolean =>
+  isObject(key) &&
+  typeof key.kid === 'string' &&
+  (typeof key.privateKey === 'string' || typeof key.publicKey === 'string');
+
+// refuses to boot with settings that cannot work, and production with
+// settings only meant for local development
+export default (): void => {
+  const { jwtKeys, oidcProviders } = env;
+
+  if (!Array.isArray(jwtKeys) || !jwtKeys.every(isJWTKey)) {
+    throw new Error(
+      'JWT_KEYS must be a JSON array of {"kid","privateKey"} or {"kid","publicKey"} keys'
+    );
+  }
+
+  if (
+    !isObject(oidcProviders) ||
+    !Object.values(oidcProviders).every(isOidcProviderConfig)
+  ) {
+    throw new Error(
+      'OIDC_PROVIDERS must be a JSON object of {"issuer","clientId","clientSecret","redirectUri"} per provider'
+    );
+  }
+
+  if (env.nodeEnv !== 'production') {
+    return;
+  }
+
+  if (!jwtKeys.length) {
+    throw new Error('JWT_KEYS must be configured in production');
+  }
+};
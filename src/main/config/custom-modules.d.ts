@@ -4,5 +4,6 @@ declare module Express {
   interface Request {
     userId?: string;
     workspaceId?: string;
+    apiTokenWorkspaceId?: string;
   }
 }
@@ -1,10 +1,38 @@
 import { Express } from 'express';
+import env from '@main/config/env';
 import { bodyParser } from '@main/middlewares/body-parser';
 import { cors } from '@main/middlewares/cors';
 import { contentType } from '@main/middlewares/content-type';
+import { securityHeaders } from '@main/middlewares/security-headers';
 
 export default (app: Express): void => {
+  const securityHeadersOptions = {
+    hstsMaxAgeSeconds: env.hstsMaxAgeSeconds,
+    frameOptions: env.frameOptions,
+    referrerPolicy: env.referrerPolicy,
+  };
+
+  app.use(
+    securityHeaders({
+      ...securityHeadersOptions,
+      contentSecurityPolicy: env.clientContentSecurityPolicy,
+    })
+  );
+  // the stricter api policy replaces the client one below the api paths
+  app.use(
+    ['/v1', '/.well-known'],
+    securityHeaders({
+      ...securityHeadersOptions,
+      contentSecurityPolicy: env.contentSecurityPolicy,
+    })
+  );
+  app.use(
+    cors({
+      origins: env.corsOrigins,
+      credentials: true,
+      maxAgeSeconds: env.corsMaxAgeSeconds,
+    })
+  );
   app.use(bodyParser);
-  app.use(cors({ origin: 'http://localhost:3000', credentials: true }));
   app.use(contentType);
 };
@@ -3,6 +3,10 @@ import express, { Express, Router } from 'express';
 import userRoutes from '@main/routes/user-routes';
 import workspaceRoutes from '@main/routes/workspace-routes';
 import pageRoutes from '@main/routes/page-routes';
+import invitationRoutes from '@main/routes/invitation-routes';
+import authRoutes from '@main/routes/auth-routes';
+import publicRoutes from '@main/routes/public-routes';
+import wellKnownRoutes from '@main/routes/well-known-routes';
 import env from '@main/config/env';
 
 export default (app: Express): void => {
@@ -12,6 +16,14 @@ export default (app: Express): void => {
   userRoutes(router);
   workspaceRoutes(router);
   pageRoutes(router);
+  invitationRoutes(router);
+  authRoutes(router);
+  publicRoutes(router);
+
+  // other services fetch the token verification keys from an unversioned path
+  const wellKnownRouter = Router();
+  app.use('/.well-known', wellKnownRouter);
+  wellKnownRoutes(wellKnownRouter);
 
   if (env.nodeEnv === 'production') {
     // eslint-disable-next-line no-underscore-dangle
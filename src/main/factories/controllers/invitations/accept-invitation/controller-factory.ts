@@ -0,0 +1,9 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { AcceptInvitationController } from '@infrastructure/http/controllers/invitations/AcceptInvitationController';
+import { makeAcceptInvitation } from '@main/factories/use-cases/invitations/accept-invitation-factory';
+
+export const makeAcceptInvitationController = (): BaseController => {
+  const acceptInvitationUseCase = makeAcceptInvitation();
+
+  return new AcceptInvitationController(acceptInvitationUseCase);
+};
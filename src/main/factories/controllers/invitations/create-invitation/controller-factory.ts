@@ -0,0 +1,11 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { CreateInvitationController } from '@infrastructure/http/controllers/invitations/CreateInvitationController';
+import { makeCreateInvitationValidation } from '@main/factories/controllers/invitations/create-invitation/validation-factory';
+import { makeCreateInvitation } from '@main/factories/use-cases/invitations/create-invitation-factory';
+
+export const makeCreateInvitationController = (): BaseController => {
+  const validation = makeCreateInvitationValidation();
+  const createInvitationUseCase = makeCreateInvitation();
+
+  return new CreateInvitationController(validation, createInvitationUseCase);
+};
@@ -0,0 +1,8 @@
+import { PayloadValidator } from '@infrastructure/http/validations/PayloadValidator';
+import { createInvitationSchema } from '@main/schemas/create-invitation-schema';
+
+export const makeCreateInvitationValidation = (): PayloadValidator => {
+  const schema = createInvitationSchema;
+
+  return new PayloadValidator(schema, 'body');
+};
@@ -0,0 +1,9 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { DeclineInvitationController } from '@infrastructure/http/controllers/invitations/DeclineInvitationController';
+import { makeDeclineInvitation } from '@main/factories/use-cases/invitations/decline-invitation-factory';
+
+export const makeDeclineInvitationController = (): BaseController => {
+  const declineInvitationUseCase = makeDeclineInvitation();
+
+  return new DeclineInvitationController(declineInvitationUseCase);
+};
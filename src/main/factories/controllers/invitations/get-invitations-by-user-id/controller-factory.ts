@@ -0,0 +1,9 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { GetInvitationsByUserIdController } from '@infrastructure/http/controllers/invitations/GetInvitationsByUserIdController';
+import { makeGetInvitationsByUserId } from '@main/factories/use-cases/invitations/get-invitations-by-user-id-factory';
+
+export const makeGetInvitationsByUserIdController = (): BaseController => {
+  const getInvitationsByUserIdUseCase = makeGetInvitationsByUserId();
+
+  return new GetInvitationsByUserIdController(getInvitationsByUserIdUseCase);
+};
@@ -0,0 +1,11 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { AddPageGuestController } from '@infrastructure/http/controllers/pages/AddPageGuestController';
+import { makeAddPageGuestValidation } from '@main/factories/controllers/pages/add-page-guest/validation-factory';
+import { makeAddPageGuest } from '@main/factories/use-cases/pages/add-page-guest-factory';
+
+export const makeAddPageGuestController = (): BaseController => {
+  const validation = makeAddPageGuestValidation();
+  const addPageGuestUseCase = makeAddPageGuest();
+
+  return new AddPageGuestController(validation, addPageGuestUseCase);
+};
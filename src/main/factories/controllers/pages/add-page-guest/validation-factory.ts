@@ -0,0 +1,8 @@
+import { PayloadValidator } from '@infrastructure/http/validations/PayloadValidator';
+import { addPageGuestSchema } from '@main/schemas/add-page-guest-schema';
+
+export const makeAddPageGuestValidation = (): PayloadValidator => {
+  const schema = addPageGuestSchema;
+
+  return new PayloadValidator(schema, 'body');
+};
@@ -0,0 +1,9 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { GetPageGuestsByPageIdController } from '@infrastructure/http/controllers/pages/GetPageGuestsByPageIdController';
+import { makeGetPageGuestsByPageId } from '@main/factories/use-cases/pages/get-page-guests-by-page-id-factory';
+
+export const makeGetPageGuestsByPageIdController = (): BaseController => {
+  const getPageGuestsByPageIdUseCase = makeGetPageGuestsByPageId();
+
+  return new GetPageGuestsByPageIdController(getPageGuestsByPageIdUseCase);
+};
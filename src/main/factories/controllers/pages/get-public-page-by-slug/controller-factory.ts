@@ -0,0 +1,9 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { GetPublicPageBySlugController } from '@infrastructure/http/controllers/pages/GetPublicPageBySlugController';
+import { makeGetPublicPageBySlug } from '@main/factories/use-cases/pages/get-public-page-by-slug-factory';
+
+export const makeGetPublicPageBySlugController = (): BaseController => {
+  const getPublicPageBySlugUseCase = makeGetPublicPageBySlug();
+
+  return new GetPublicPageBySlugController(getPublicPageBySlugUseCase);
+};
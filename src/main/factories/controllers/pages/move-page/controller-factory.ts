@@ -0,0 +1,24 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { MovePageController } from '@infrastructure/http/controllers/pages/MovePageController';
+import { makeMovePageValidation } from '@main/factories/controllers/pages/move-page/validation-factory';
+import { makeMovePage } from '@main/factories/use-cases/pages/move-page-factory';
+import { makeAddPage } from '@main/factories/use-cases/workspaces/add-page-factory';
+import { makeRemovePageByPageId } from '@main/factories/use-cases/workspaces/remove-page-by-page-id-factory';
+import { makeUpdateWorkspacePagesMetaDataByWorkspaceId } from '@main/factories/use-cases/workspaces/update-workspace-pages-meta-data-by-page-id-factory';
+
+export const makeMovePageController = (): BaseController => {
+  const validation = makeMovePageValidation();
+  const movePageUseCase = makeMovePage();
+  const updateWorkspacePagesMetaDataByWorkspaceIdUseCase =
+    makeUpdateWorkspacePagesMetaDataByWorkspaceId();
+  const removePageByPageIdUseCase = makeRemovePageByPageId();
+  const addPageUseCase = makeAddPage();
+
+  return new MovePageController(
+    validation,
+    movePageUseCase,
+    updateWorkspacePagesMetaDataByWorkspaceIdUseCase,
+    removePageByPageIdUseCase,
+    addPageUseCase
+  );
+};
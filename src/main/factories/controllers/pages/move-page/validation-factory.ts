@@ -0,0 +1,8 @@
+import { PayloadValidator } from '@infrastructure/http/validations/PayloadValidator';
+import { movePageSchema } from '@main/schemas/move-page-schema';
+
+export const makeMovePageValidation = (): PayloadValidator => {
+  const schema = movePageSchema;
+
+  return new PayloadValidator(schema, 'body');
+};
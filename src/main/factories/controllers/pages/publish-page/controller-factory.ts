@@ -0,0 +1,11 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { PublishPageController } from '@infrastructure/http/controllers/pages/PublishPageController';
+import { makePublishPageValidation } from '@main/factories/controllers/pages/publish-page/validation-factory';
+import { makePublishPage } from '@main/factories/use-cases/pages/publish-page-factory';
+
+export const makePublishPageController = (): BaseController => {
+  const validation = makePublishPageValidation();
+  const publishPageUseCase = makePublishPage();
+
+  return new PublishPageController(validation, publishPageUseCase);
+};
@@ -0,0 +1,8 @@
+import { PayloadValidator } from '@infrastructure/http/validations/PayloadValidator';
+import { publishPageSchema } from '@main/schemas/publish-page-schema';
+
+export const makePublishPageValidation = (): PayloadValidator => {
+  const schema = publishPageSchema;
+
+  return new PayloadValidator(schema, 'body');
+};
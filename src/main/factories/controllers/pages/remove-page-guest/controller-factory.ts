@@ -0,0 +1,9 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { RemovePageGuestController } from '@infrastructure/http/controllers/pages/RemovePageGuestController';
+import { makeRemovePageGuest } from '@main/factories/use-cases/pages/remove-page-guest-factory';
+
+export const makeRemovePageGuestController = (): BaseController => {
+  const removePageGuestUseCase = makeRemovePageGuest();
+
+  return new RemovePageGuestController(removePageGuestUseCase);
+};
@@ -0,0 +1,9 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { UnpublishPageController } from '@infrastructure/http/controllers/pages/UnpublishPageController';
+import { makeUnpublishPage } from '@main/factories/use-cases/pages/unpublish-page-factory';
+
+export const makeUnpublishPageController = (): BaseController => {
+  const unpublishPageUseCase = makeUnpublishPage();
+
+  return new UnpublishPageController(unpublishPageUseCase);
+};
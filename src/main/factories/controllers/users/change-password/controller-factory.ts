@@ -0,0 +1,17 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { ChangePasswordController } from '@infrastructure/http/controllers/users/ChangePasswordController';
+import { makeChangePasswordValidation } from '@main/factories/controllers/users/change-password/validation-factory';
+import { makeChangePassword } from '@main/factories/use-cases/users/change-password-factory';
+import { makeSignIn } from '@main/factories/use-cases/users/sign-in-factory';
+
+export const makeChangePasswordController = (): BaseController => {
+  const validation = makeChangePasswordValidation();
+  const changePasswordUseCase = makeChangePassword();
+  const signInUseCase = makeSignIn();
+
+  return new ChangePasswordController(
+    validation,
+    changePasswordUseCase,
+    signInUseCase
+  );
+};
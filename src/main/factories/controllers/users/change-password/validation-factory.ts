@@ -0,0 +1,8 @@
+import { PayloadValidator } from '@infrastructure/http/validations/PayloadValidator';
+import { changePasswordSchema } from '@main/schemas/change-password-schema';
+
+export const makeChangePasswordValidation = (): PayloadValidator => {
+  const schema = changePasswordSchema;
+
+  return new PayloadValidator(schema, 'body');
+};
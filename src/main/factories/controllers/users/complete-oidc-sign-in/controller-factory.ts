@@ -0,0 +1,35 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { CompleteOidcSignInController } from '@infrastructure/http/controllers/users/CompleteOidcSignInController';
+import { makeCompleteOidcSignInValidation } from '@main/factories/controllers/users/complete-oidc-sign-in/validation-factory';
+import { makeCreatePage } from '@main/factories/use-cases/pages/create-page-factory';
+import { makeGetPageById } from '@main/factories/use-cases/pages/get-page-by-id-factory';
+import { makeCompleteOidcSignIn } from '@main/factories/use-cases/users/complete-oidc-sign-in-factory';
+import { makeCreateSession } from '@main/factories/use-cases/users/create-session-factory';
+import { makeSignUpWithIdentity } from '@main/factories/use-cases/users/sign-up-with-identity-factory';
+import { makeAddMemberByWorkspaceId } from '@main/factories/use-cases/workspaces/add-member-by-workspace-id-factory';
+import { makeAddPage } from '@main/factories/use-cases/workspaces/add-page-factory';
+import { makeCreateWorkspace } from '@main/factories/use-cases/workspaces/create-workspace-factory';
+
+export const makeCompleteOidcSignInController = (): BaseController => {
+  const validation = makeCompleteOidcSignInValidation();
+  const completeOidcSignInUseCase = makeCompleteOidcSignIn();
+  const signUpWithIdentityUseCase = makeSignUpWithIdentity();
+  const createSessionUseCase = makeCreateSession();
+  const createWorkspaceUseCase = makeCreateWorkspace();
+  const createPageUseCase = makeCreatePage();
+  const addMemberByWorkspaceIdUseCase = makeAddMemberByWorkspaceId();
+  const addPageUseCase = makeAddPage();
+  const getPageByIdUseCase = makeGetPageById();
+
+  return new CompleteOidcSignInController(
+    validation,
+    completeOidcSignInUseCase,
+    signUpWithIdentityUseCase,
+    createSessionUseCase,
+    createWorkspaceUseCase,
+    createPageUseCase,
+    addMemberByWorkspaceIdUseCase,
+    addPageUseCase,
+    getPageByIdUseCase
+  );
+};
@@ -0,0 +1,8 @@
+import { PayloadValidator } from '@infrastructure/http/validations/PayloadValidator';
+import { completeOidcSignInSchema } from '@main/schemas/complete-oidc-sign-in-schema';
+
+export const makeCompleteOidcSignInValidation = (): PayloadValidator => {
+  const schema = completeOidcSignInSchema;
+
+  return new PayloadValidator(schema, 'body');
+};
@@ -0,0 +1,11 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { ConfirmMfaController } from '@infrastructure/http/controllers/users/ConfirmMfaController';
+import { makeConfirmMfaValidation } from '@main/factories/controllers/users/confirm-mfa/validation-factory';
+import { makeConfirmMfa } from '@main/factories/use-cases/users/confirm-mfa-factory';
+
+export const makeConfirmMfaController = (): BaseController => {
+  const validation = makeConfirmMfaValidation();
+  const confirmMfaUseCase = makeConfirmMfa();
+
+  return new ConfirmMfaController(validation, confirmMfaUseCase);
+};
@@ -0,0 +1,8 @@
+import { PayloadValidator } from '@infrastructure/http/validations/PayloadValidator';
+import { confirmMfaSchema } from '@main/schemas/confirm-mfa-schema';
+
+export const makeConfirmMfaValidation = (): PayloadValidator => {
+  const schema = confirmMfaSchema;
+
+  return new PayloadValidator(schema, 'body');
+};
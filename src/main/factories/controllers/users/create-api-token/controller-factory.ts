@@ -0,0 +1,11 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { CreateApiTokenController } from '@infrastructure/http/controllers/users/CreateApiTokenController';
+import { makeCreateApiTokenValidation } from '@main/factories/controllers/users/create-api-token/validation-factory';
+import { makeCreateApiToken } from '@main/factories/use-cases/users/create-api-token-factory';
+
+export const makeCreateApiTokenController = (): BaseController => {
+  const validation = makeCreateApiTokenValidation();
+  const createApiTokenUseCase = makeCreateApiToken();
+
+  return new CreateApiTokenController(validation, createApiTokenUseCase);
+};
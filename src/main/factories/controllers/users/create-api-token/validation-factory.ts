@@ -0,0 +1,8 @@
+import { PayloadValidator } from '@infrastructure/http/validations/PayloadValidator';
+import { createApiTokenSchema } from '@main/schemas/create-api-token-schema';
+
+export const makeCreateApiTokenValidation = (): PayloadValidator => {
+  const schema = createApiTokenSchema;
+
+  return new PayloadValidator(schema, 'body');
+};
@@ -0,0 +1,9 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { DeleteApiTokenController } from '@infrastructure/http/controllers/users/DeleteApiTokenController';
+import { makeDeleteApiToken } from '@main/factories/use-cases/users/delete-api-token-factory';
+
+export const makeDeleteApiTokenController = (): BaseController => {
+  const useCase = makeDeleteApiToken();
+
+  return new DeleteApiTokenController(useCase);
+};
@@ -0,0 +1,8 @@
+import { PayloadValidator } from '@infrastructure/http/validations/PayloadValidator';
+import { deleteUserSchema } from '@main/schemas/delete-user-schema';
+
+export const makeDeleteUserValidation = (): PayloadValidator => {
+  const schema = deleteUserSchema;
+
+  return new PayloadValidator(schema, 'body');
+};
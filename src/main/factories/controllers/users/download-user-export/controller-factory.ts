@@ -0,0 +1,9 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { DownloadUserExportController } from '@infrastructure/http/controllers/users/DownloadUserExportController';
+import { makeDownloadUserExport } from '@main/factories/use-cases/users/download-user-export-factory';
+
+export const makeDownloadUserExportController = (): BaseController => {
+  const useCase = makeDownloadUserExport();
+
+  return new DownloadUserExportController(useCase);
+};
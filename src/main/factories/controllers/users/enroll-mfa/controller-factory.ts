@@ -0,0 +1,9 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { EnrollMfaController } from '@infrastructure/http/controllers/users/EnrollMfaController';
+import { makeEnrollMfa } from '@main/factories/use-cases/users/enroll-mfa-factory';
+
+export const makeEnrollMfaController = (): BaseController => {
+  const enrollMfaUseCase = makeEnrollMfa();
+
+  return new EnrollMfaController(enrollMfaUseCase);
+};
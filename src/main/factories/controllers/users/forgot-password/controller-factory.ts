@@ -0,0 +1,11 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { ForgotPasswordController } from '@infrastructure/http/controllers/users/ForgotPasswordController';
+import { makeForgotPasswordValidation } from '@main/factories/controllers/users/forgot-password/validation-factory';
+import { makeForgotPassword } from '@main/factories/use-cases/users/forgot-password-factory';
+
+export const makeForgotPasswordController = (): BaseController => {
+  const validation = makeForgotPasswordValidation();
+  const forgotPasswordUseCase = makeForgotPassword();
+
+  return new ForgotPasswordController(validation, forgotPasswordUseCase);
+};
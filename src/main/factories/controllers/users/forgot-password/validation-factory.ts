@@ -0,0 +1,8 @@
+import { PayloadValidator } from '@infrastructure/http/validations/PayloadValidator';
+import { forgotPasswordSchema } from '@main/schemas/forgot-password-schema';
+
+export const makeForgotPasswordValidation = (): PayloadValidator => {
+  const schema = forgotPasswordSchema;
+
+  return new PayloadValidator(schema, 'body');
+};
@@ -0,0 +1,9 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { GetApiTokensByUserIdController } from '@infrastructure/http/controllers/users/GetApiTokensByUserIdController';
+import { makeGetApiTokensByUserId } from '@main/factories/use-cases/users/get-api-tokens-by-user-id-factory';
+
+export const makeGetApiTokensByUserIdController = (): BaseController => {
+  const useCase = makeGetApiTokensByUserId();
+
+  return new GetApiTokensByUserIdController(useCase);
+};
@@ -0,0 +1,14 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { GetAuditLogByUserIdController } from '@infrastructure/http/controllers/users/GetAuditLogByUserIdController';
+import { makeGetAuditLogByUserIdValidation } from '@main/factories/controllers/users/get-audit-log-by-user-id/validation-factory';
+import { makeGetAuditLogByUserId } from '@main/factories/use-cases/users/get-audit-log-by-user-id-factory';
+
+export const makeGetAuditLogByUserIdController = (): BaseController => {
+  const validation = makeGetAuditLogByUserIdValidation();
+  const getAuditLogByUserIdUseCase = makeGetAuditLogByUserId();
+
+  return new GetAuditLogByUserIdController(
+    validation,
+    getAuditLogByUserIdUseCase
+  );
+};
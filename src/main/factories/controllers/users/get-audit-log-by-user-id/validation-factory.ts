@@ -0,0 +1,8 @@
+import { PayloadValidator } from '@infrastructure/http/validations/PayloadValidator';
+import { getUserAuditLogSchema } from '@main/schemas/get-user-audit-log-schema';
+
+export const makeGetAuditLogByUserIdValidation = (): PayloadValidator => {
+  const schema = getUserAuditLogSchema;
+
+  return new PayloadValidator(schema, 'query');
+};
@@ -0,0 +1,9 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { GetJsonWebKeySetController } from '@infrastructure/http/controllers/users/GetJsonWebKeySetController';
+import { makeGetJsonWebKeySet } from '@main/factories/use-cases/users/get-json-web-key-set-factory';
+
+export const makeGetJsonWebKeySetController = (): BaseController => {
+  const useCase = makeGetJsonWebKeySet();
+
+  return new GetJsonWebKeySetController(useCase);
+};
@@ -0,0 +1,9 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { GetSessionsByUserIdController } from '@infrastructure/http/controllers/users/GetSessionsByUserIdController';
+import { makeGetSessionsByUserId } from '@main/factories/use-cases/users/get-sessions-by-user-id-factory';
+
+export const makeGetSessionsByUserIdController = (): BaseController => {
+  const useCase = makeGetSessionsByUserId();
+
+  return new GetSessionsByUserIdController(useCase);
+};
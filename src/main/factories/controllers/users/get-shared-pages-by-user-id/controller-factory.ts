@@ -0,0 +1,9 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { GetSharedPagesByUserIdController } from '@infrastructure/http/controllers/users/GetSharedPagesByUserIdController';
+import { makeGetSharedPagesByUserId } from '@main/factories/use-cases/users/get-shared-pages-by-user-id-factory';
+
+export const makeGetSharedPagesByUserIdController = (): BaseController => {
+  const getSharedPagesByUserIdUseCase = makeGetSharedPagesByUserId();
+
+  return new GetSharedPagesByUserIdController(getSharedPagesByUserIdUseCase);
+};
@@ -0,0 +1,9 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { GetUserExportByIdController } from '@infrastructure/http/controllers/users/GetUserExportByIdController';
+import { makeGetUserExportById } from '@main/factories/use-cases/users/get-user-export-by-id-factory';
+
+export const makeGetUserExportByIdController = (): BaseController => {
+  const useCase = makeGetUserExportById();
+
+  return new GetUserExportByIdController(useCase);
+};
@@ -0,0 +1,9 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { RequestUserExportController } from '@infrastructure/http/controllers/users/RequestUserExportController';
+import { makeRequestUserExport } from '@main/factories/use-cases/users/request-user-export-factory';
+
+export const makeRequestUserExportController = (): BaseController => {
+  const useCase = makeRequestUserExport();
+
+  return new RequestUserExportController(useCase);
+};
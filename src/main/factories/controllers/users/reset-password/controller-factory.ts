@@ -0,0 +1,11 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { ResetPasswordController } from '@infrastructure/http/controllers/users/ResetPasswordController';
+import { makeResetPasswordValidation } from '@main/factories/controllers/users/reset-password/validation-factory';
+import { makeResetPassword } from '@main/factories/use-cases/users/reset-password-factory';
+
+export const makeResetPasswordController = (): BaseController => {
+  const validation = makeResetPasswordValidation();
+  const resetPasswordUseCase = makeResetPassword();
+
+  return new ResetPasswordController(validation, resetPasswordUseCase);
+};
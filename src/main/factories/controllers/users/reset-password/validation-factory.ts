@@ -0,0 +1,8 @@
+import { PayloadValidator } from '@infrastructure/http/validations/PayloadValidator';
+import { resetPasswordSchema } from '@main/schemas/reset-password-schema';
+
+export const makeResetPasswordValidation = (): PayloadValidator => {
+  const schema = resetPasswordSchema;
+
+  return new PayloadValidator(schema, 'body');
+};
@@ -0,0 +1,9 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { RestoreUserController } from '@infrastructure/http/controllers/users/RestoreUserController';
+import { makeRestoreUser } from '@main/factories/use-cases/users/restore-user-factory';
+
+export const makeRestoreUserController = (): BaseController => {
+  const useCase = makeRestoreUser();
+
+  return new RestoreUserController(useCase);
+};
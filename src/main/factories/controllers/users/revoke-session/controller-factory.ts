@@ -0,0 +1,9 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { RevokeSessionController } from '@infrastructure/http/controllers/users/RevokeSessionController';
+import { makeRevokeSession } from '@main/factories/use-cases/users/revoke-session-factory';
+
+export const makeRevokeSessionController = (): BaseController => {
+  const useCase = makeRevokeSession();
+
+  return new RevokeSessionController(useCase);
+};
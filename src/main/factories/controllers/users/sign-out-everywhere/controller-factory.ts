@@ -0,0 +1,9 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { SignOutEverywhereController } from '@infrastructure/http/controllers/users/SignOutEverywhereController';
+import { makeSignOutEverywhere } from '@main/factories/use-cases/users/sign-out-everywhere-factory';
+
+export const makeSignOutEverywhereController = (): BaseController => {
+  const useCase = makeSignOutEverywhere();
+
+  return new SignOutEverywhereController(useCase);
+};
@@ -4,6 +4,7 @@ import { makeSignUpValidation } from '@main/factories/controllers/users/sign-up/
 import { makeCreatePage } from '@main/factories/use-cases/pages/create-page-factory';
 import { makeGetPageById } from '@main/factories/use-cases/pages/get-page-by-id-factory';
 import { makeSignIn } from '@main/factories/use-cases/users/sign-in-factory';
+import { makeSendEmailVerification } from '@main/factories/use-cases/users/send-email-verification-factory';
 import { makeSignUp } from '@main/factories/use-cases/users/sign-up-factory';
 import { makeAddMemberByWorkspaceId } from '@main/factories/use-cases/workspaces/add-member-by-workspace-id-factory';
 import { makeAddPage } from '@main/factories/use-cases/workspaces/add-page-factory';
@@ -18,6 +19,7 @@ export const makeSignUpController = (): BaseController => {
   const addMemberByWorkspaceIdUseCase = makeAddMemberByWorkspaceId();
   const addPageUseCase = makeAddPage();
   const getPageByIdUseCase = makeGetPageById();
+  const sendEmailVerificationUseCase = makeSendEmailVerification();
 
   return new SignUpController(
     validation,
@@ -27,6 +29,7 @@ export const makeSignUpController = (): BaseController => {
     createPageUseCase,
     addMemberByWorkspaceIdUseCase,
     addPageUseCase,
-    getPageByIdUseCase
+    getPageByIdUseCase,
+    sendEmailVerificationUseCase
   );
 };
@@ -0,0 +1,9 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { StartOidcSignInController } from '@infrastructure/http/controllers/users/StartOidcSignInController';
+import { makeStartOidcSignIn } from '@main/factories/use-cases/users/start-oidc-sign-in-factory';
+
+export const makeStartOidcSignInController = (): BaseController => {
+  const startOidcSignInUseCase = makeStartOidcSignIn();
+
+  return new StartOidcSignInController(startOidcSignInUseCase);
+};
@@ -0,0 +1,11 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { VerifyEmailController } from '@infrastructure/http/controllers/users/VerifyEmailController';
+import { makeVerifyEmailValidation } from '@main/factories/controllers/users/verify-email/validation-factory';
+import { makeVerifyEmail } from '@main/factories/use-cases/users/verify-email-factory';
+
+export const makeVerifyEmailController = (): BaseController => {
+  const validation = makeVerifyEmailValidation();
+  const verifyEmailUseCase = makeVerifyEmail();
+
+  return new VerifyEmailController(validation, verifyEmailUseCase);
+};
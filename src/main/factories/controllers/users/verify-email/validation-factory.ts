@@ -0,0 +1,8 @@
+import { PayloadValidator } from '@infrastructure/http/validations/PayloadValidator';
+import { verifyEmailSchema } from '@main/schemas/verify-email-schema';
+
+export const makeVerifyEmailValidation = (): PayloadValidator => {
+  const schema = verifyEmailSchema;
+
+  return new PayloadValidator(schema, 'body');
+};
@@ -0,0 +1,11 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { VerifyMfaController } from '@infrastructure/http/controllers/users/VerifyMfaController';
+import { makeVerifyMfaValidation } from '@main/factories/controllers/users/verify-mfa/validation-factory';
+import { makeVerifyMfa } from '@main/factories/use-cases/users/verify-mfa-factory';
+
+export const makeVerifyMfaController = (): BaseController => {
+  const validation = makeVerifyMfaValidation();
+  const verifyMfaUseCase = makeVerifyMfa();
+
+  return new VerifyMfaController(validation, verifyMfaUseCase);
+};
@@ -0,0 +1,8 @@
+import { PayloadValidator } from '@infrastructure/http/validations/PayloadValidator';
+import { verifyMfaSchema } from '@main/schemas/verify-mfa-schema';
+
+export const makeVerifyMfaValidation = (): PayloadValidator => {
+  const schema = verifyMfaSchema;
+
+  return new PayloadValidator(schema, 'body');
+};
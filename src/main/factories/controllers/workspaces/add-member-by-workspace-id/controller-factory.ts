@@ -1,14 +1,17 @@
 import { BaseController } from '@infrastructure/http/controllers/BaseController';
 import { AddMemberByWorkspaceIdController } from '@infrastructure/http/controllers/workspaces/AddMemberByWorkspaceIdController';
+import { makeGetUserById } from '@main/factories/use-cases/users/get-user-by-id-factory';
 import { makeAddMemberByWorkspaceId } from '@main/factories/use-cases/workspaces/add-member-by-workspace-id-factory';
 import { makeGetWorkspaceById } from '@main/factories/use-cases/workspaces/get-workspace-by-id-factory';
 
 export const makeAddMemberByWorkspaceIdController = (): BaseController => {
   const getWorkspaceByIdUseCase = makeGetWorkspaceById();
+  const getUserByIdUseCase = makeGetUserById();
   const addMemberByWorkspaceIdUseCase = makeAddMemberByWorkspaceId();
 
   return new AddMemberByWorkspaceIdController(
     getWorkspaceByIdUseCase,
+    getUserByIdUseCase,
     addMemberByWorkspaceIdUseCase
   );
 };
@@ -0,0 +1,14 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { GetAuditLogByWorkspaceIdController } from '@infrastructure/http/controllers/workspaces/GetAuditLogByWorkspaceIdController';
+import { makeGetAuditLogByWorkspaceIdValidation } from '@main/factories/controllers/workspaces/get-audit-log-by-workspace-id/validation-factory';
+import { makeGetAuditLogByWorkspaceId } from '@main/factories/use-cases/workspaces/get-audit-log-by-workspace-id-factory';
+
+export const makeGetAuditLogByWorkspaceIdController = (): BaseController => {
+  const validation = makeGetAuditLogByWorkspaceIdValidation();
+  const getAuditLogByWorkspaceIdUseCase = makeGetAuditLogByWorkspaceId();
+
+  return new GetAuditLogByWorkspaceIdController(
+    validation,
+    getAuditLogByWorkspaceIdUseCase
+  );
+};
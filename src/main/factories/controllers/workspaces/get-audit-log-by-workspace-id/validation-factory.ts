@@ -0,0 +1,8 @@
+import { PayloadValidator } from '@infrastructure/http/validations/PayloadValidator';
+import { getAuditLogSchema } from '@main/schemas/get-audit-log-schema';
+
+export const makeGetAuditLogByWorkspaceIdValidation = (): PayloadValidator => {
+  const schema = getAuditLogSchema;
+
+  return new PayloadValidator(schema, 'query');
+};
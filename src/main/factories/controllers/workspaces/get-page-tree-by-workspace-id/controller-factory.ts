@@ -0,0 +1,14 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { GetPageTreeByWorkspaceIdController } from '@infrastructure/http/controllers/workspaces/GetPageTreeByWorkspaceIdController';
+import { makeGetPageTreeByWorkspaceIdValidation } from '@main/factories/controllers/workspaces/get-page-tree-by-workspace-id/validation-factory';
+import { makeGetPageTreeByWorkspaceId } from '@main/factories/use-cases/workspaces/get-page-tree-by-workspace-id-factory';
+
+export const makeGetPageTreeByWorkspaceIdController = (): BaseController => {
+  const validation = makeGetPageTreeByWorkspaceIdValidation();
+  const getPageTreeByWorkspaceIdUseCase = makeGetPageTreeByWorkspaceId();
+
+  return new GetPageTreeByWorkspaceIdController(
+    validation,
+    getPageTreeByWorkspaceIdUseCase
+  );
+};
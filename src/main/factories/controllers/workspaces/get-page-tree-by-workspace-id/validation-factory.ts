@@ -0,0 +1,8 @@
+import { PayloadValidator } from '@infrastructure/http/validations/PayloadValidator';
+import { getPageTreeSchema } from '@main/schemas/get-page-tree-schema';
+
+export const makeGetPageTreeByWorkspaceIdValidation = (): PayloadValidator => {
+  const schema = getPageTreeSchema;
+
+  return new PayloadValidator(schema, 'query');
+};
@@ -0,0 +1,9 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { GetTrashByWorkspaceIdController } from '@infrastructure/http/controllers/workspaces/GetTrashByWorkspaceIdController';
+import { makeGetTrashByWorkspaceId } from '@main/factories/use-cases/pages/get-trash-by-workspace-id-factory';
+
+export const makeGetTrashByWorkspaceIdController = (): BaseController => {
+  const getTrashByWorkspaceIdUseCase = makeGetTrashByWorkspaceId();
+
+  return new GetTrashByWorkspaceIdController(getTrashByWorkspaceIdUseCase);
+};
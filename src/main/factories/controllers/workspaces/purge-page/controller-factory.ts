@@ -0,0 +1,9 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { PurgePageController } from '@infrastructure/http/controllers/workspaces/PurgePageController';
+import { makePurgePage } from '@main/factories/use-cases/pages/purge-page-factory';
+
+export const makePurgePageController = (): BaseController => {
+  const purgePageUseCase = makePurgePage();
+
+  return new PurgePageController(purgePageUseCase);
+};
@@ -0,0 +1,18 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { RestorePageController } from '@infrastructure/http/controllers/workspaces/RestorePageController';
+import { makeRestorePage } from '@main/factories/use-cases/pages/restore-page-factory';
+import { makeAddPageIdToFavoritesByWorkspaceId } from '@main/factories/use-cases/users/add-page-id-to-favorites-by-workspace-id-factory';
+import { makeAddPage } from '@main/factories/use-cases/workspaces/add-page-factory';
+
+export const makeRestorePageController = (): BaseController => {
+  const restorePageUseCase = makeRestorePage();
+  const addPageUseCase = makeAddPage();
+  const addPageIdToFavoritesByWorkspaceIdUseCase =
+    makeAddPageIdToFavoritesByWorkspaceId();
+
+  return new RestorePageController(
+    restorePageUseCase,
+    addPageUseCase,
+    addPageIdToFavoritesByWorkspaceIdUseCase
+  );
+};
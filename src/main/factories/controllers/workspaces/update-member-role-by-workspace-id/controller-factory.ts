@@ -0,0 +1,16 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { UpdateMemberRoleByWorkspaceIdController } from '@infrastructure/http/controllers/workspaces/UpdateMemberRoleByWorkspaceIdController';
+import { makeUpdateMemberRoleByWorkspaceIdValidation } from '@main/factories/controllers/workspaces/update-member-role-by-workspace-id/validation-factory';
+import { makeUpdateMemberRoleByWorkspaceId } from '@main/factories/use-cases/workspaces/update-member-role-by-workspace-id-factory';
+
+export const makeUpdateMemberRoleByWorkspaceIdController =
+  (): BaseController => {
+    const validation = makeUpdateMemberRoleByWorkspaceIdValidation();
+    const updateMemberRoleByWorkspaceIdUseCase =
+      makeUpdateMemberRoleByWorkspaceId();
+
+    return new UpdateMemberRoleByWorkspaceIdController(
+      validation,
+      updateMemberRoleByWorkspaceIdUseCase
+    );
+  };
@@ -0,0 +1,9 @@
+import { PayloadValidator } from '@infrastructure/http/validations/PayloadValidator';
+import { updateMemberRoleSchema } from '@main/schemas/update-member-role-schema';
+
+export const makeUpdateMemberRoleByWorkspaceIdValidation =
+  (): PayloadValidator => {
+    const schema = updateMemberRoleSchema;
+
+    return new PayloadValidator(schema, 'body');
+  };
@@ -0,0 +1,14 @@
+import { BaseController } from '@infrastructure/http/controllers/BaseController';
+import { UpdatePagePositionByPageIdController } from '@infrastructure/http/controllers/workspaces/UpdatePagePositionByPageIdController';
+import { makeUpdatePagePositionByPageIdValidation } from '@main/factories/controllers/workspaces/update-page-position-by-page-id/validation-factory';
+import { makeUpdatePagePositionByPageId } from '@main/factories/use-cases/workspaces/update-page-position-by-page-id-factory';
+
+export const makeUpdatePagePositionByPageIdController = (): BaseController => {
+  const validation = makeUpdatePagePositionByPageIdValidation();
+  const updatePagePositionByPageIdUseCase = makeUpdatePagePositionByPageId();
+
+  return new UpdatePagePositionByPageIdController(
+    validation,
+    updatePagePositionByPageIdUseCase
+  );
+};
@@ -0,0 +1,9 @@
+import { PayloadValidator } from '@infrastructure/http/validations/PayloadValidator';
+import { updatePagePositionSchema } from '@main/schemas/update-page-position-schema';
+
+export const makeUpdatePagePositionByPageIdValidation =
+  (): PayloadValidator => {
+    const schema = updatePagePositionSchema;
+
+    return new PayloadValidator(schema, 'body');
+  };
@@ -0,0 +1,27 @@
+import { generateKeyPairSync } from 'crypto';
+import { JWTAdapter, JWTKey } from '@infrastructure/cryptography/JWTAdapter';
+import env from '@main/config/env';
+
+let jwtAdapter: JWTAdapter | undefined;
+
+// outside production a throwaway key keeps local setups working without config
+const makeDevelopmentKey = (): JWTKey => {
+  const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+
+  return {
+    kid: 'development',
+    privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }) as string,
+  };
+};
+
+// every factory shares one adapter so tokens verify against the keys that signed them
+export const makeJWTAdapter = (): JWTAdapter => {
+  if (!jwtAdapter) {
+    const keys: JWTKey[] = env.jwtKeys.length
+      ? env.jwtKeys
+      : [makeDevelopmentKey()];
+    jwtAdapter = new JWTAdapter(keys);
+  }
+
+  return jwtAdapter;
+};
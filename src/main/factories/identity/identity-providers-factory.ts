@@ -0,0 +1,17 @@
+import { IdentityProviders } from '@application/interfaces/identity/IdentityProvider';
+import {
+  OidcProvider,
+  OidcProviderConfig,
+} from '@infrastructure/identity/OidcProvider';
+import env from '@main/config/env';
+
+export const makeIdentityProviders = (): IdentityProviders => {
+  const configs: Record<string, OidcProviderConfig> = env.oidcProviders;
+
+  return new Map(
+    Object.keys(configs).map(provider => [
+      provider,
+      new OidcProvider(configs[provider]),
+    ])
+  );
+};
@@ -0,0 +1,12 @@
+import { MailSender } from '@application/interfaces/mail/MailSender';
+import { ConsoleMailAdapter } from '@infrastructure/mail/ConsoleMailAdapter';
+import { FileMailAdapter } from '@infrastructure/mail/FileMailAdapter';
+import env from '@main/config/env';
+
+export const makeMailSender = (): MailSender => {
+  if (env.mailTransport === 'file') {
+    return new FileMailAdapter(env.mailFrom, env.mailDirectory);
+  }
+
+  return new ConsoleMailAdapter(env.mailFrom);
+};
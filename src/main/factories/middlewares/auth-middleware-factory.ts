@@ -1,9 +1,10 @@
 import { BaseMiddleware } from '@infrastructure/http/middlewares/BaseMiddleware';
 import { AuthMiddleware } from '@infrastructure/http/middlewares/authentication/AuthMiddleware';
 import { makeAuthenticate } from '@main/factories/use-cases/users/authenticate-factory';
+import { ApiTokenScope } from '@domain/entities/ApiToken';
 
-export const makeAuthMiddleware = (): BaseMiddleware => {
+export const makeAuthMiddleware = (scope?: ApiTokenScope): BaseMiddleware => {
   const authenticationUseCase = makeAuthenticate();
 
-  return new AuthMiddleware(authenticationUseCase);
+  return new AuthMiddleware(authenticationUseCase, scope);
 };
@@ -1,9 +1,13 @@
 import { BaseMiddleware } from '@infrastructure/http/middlewares/BaseMiddleware';
 import { AuthorizationMiddleware } from '@infrastructure/http/middlewares/authorization/AuthorizationMiddleware';
 import { makeAuthorization } from '@main/factories/use-cases/pages/authorization-factory';
+import { WorkspaceRole } from '@domain/entities/Workspace';
 
-export const makeAuthorizationMiddleware = (): BaseMiddleware => {
+export const makeAuthorizationMiddleware = (
+  roles?: WorkspaceRole[],
+  membersOnly?: boolean
+): BaseMiddleware => {
   const authorizationUseCase = makeAuthorization();
 
-  return new AuthorizationMiddleware(authorizationUseCase);
+  return new AuthorizationMiddleware(authorizationUseCase, roles, membersOnly);
 };
@@ -0,0 +1,9 @@
+import { BaseMiddleware } from '@infrastructure/http/middlewares/BaseMiddleware';
+import { UserAuthorizationMiddleware } from '@infrastructure/http/middlewares/authorization/UserAuthorizationMiddleware';
+import { makeUserAuthorization } from '@main/factories/use-cases/users/user-authorization-factory';
+
+export const makeUserAuthorizationMiddleware = (): BaseMiddleware => {
+  const userAuthorizationUseCase = makeUserAuthorization();
+
+  return new UserAuthorizationMiddleware(userAuthorizationUseCase);
+};
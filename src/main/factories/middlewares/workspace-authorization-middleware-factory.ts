@@ -0,0 +1,15 @@
+import { BaseMiddleware } from '@infrastructure/http/middlewares/BaseMiddleware';
+import { WorkspaceAuthorizationMiddleware } from '@infrastructure/http/middlewares/authorization/WorkspaceAuthorizationMiddleware';
+import { makeWorkspaceAuthorization } from '@main/factories/use-cases/workspaces/workspace-authorization-factory';
+import { WorkspaceRole } from '@domain/entities/Workspace';
+
+export const makeWorkspaceAuthorizationMiddleware = (
+  roles?: WorkspaceRole[]
+): BaseMiddleware => {
+  const workspaceAuthorizationUseCase = makeWorkspaceAuthorization();
+
+  return new WorkspaceAuthorizationMiddleware(
+    workspaceAuthorizationUseCase,
+    roles
+  );
+};
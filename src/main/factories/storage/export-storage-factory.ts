@@ -0,0 +1,7 @@
+import { ExportStorage } from '@application/interfaces/storage/ExportStorage';
+import { FileExportStorageAdapter } from '@infrastructure/storage/FileExportStorageAdapter';
+import env from '@main/config/env';
+
+export const makeExportStorage = (): ExportStorage => {
+  return new FileExportStorageAdapter(env.exportDirectory);
+};
@@ -0,0 +1,23 @@
+import { AcceptInvitationInterface } from '@application/interfaces/use-cases/invitations/AcceptInvitationInterface';
+import { AcceptInvitation } from '@application/use-cases/invitations/AcceptInvitation';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
+import { InvitationRepository } from '@infrastructure/db/mongodb/repositories/InvitationRepository';
+import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
+
+export const makeAcceptInvitation = (): AcceptInvitationInterface => {
+  const invitationRepository = new InvitationRepository();
+  const userRepository = new UserRepository();
+  const workspaceRepository = new WorkspaceRepository();
+  const auditLogRepository = new AuditLogRepository();
+
+  return new AcceptInvitation(
+    invitationRepository,
+    userRepository,
+    workspaceRepository,
+    workspaceRepository,
+    userRepository,
+    invitationRepository,
+    auditLogRepository
+  );
+};
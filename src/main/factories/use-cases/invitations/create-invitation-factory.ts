@@ -0,0 +1,26 @@
+import { CreateInvitationInterface } from '@application/interfaces/use-cases/invitations/CreateInvitationInterface';
+import { CreateInvitation } from '@application/use-cases/invitations/CreateInvitation';
+import { RandomTokenAdapter } from '@infrastructure/cryptography/RandomTokenAdapter';
+import { InvitationRepository } from '@infrastructure/db/mongodb/repositories/InvitationRepository';
+import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
+import env from '@main/config/env';
+import { makeMailSender } from '@main/factories/mail/mail-sender-factory';
+
+export const makeCreateInvitation = (): CreateInvitationInterface => {
+  const workspaceRepository = new WorkspaceRepository();
+  const userRepository = new UserRepository();
+  const invitationRepository = new InvitationRepository();
+  const randomTokenAdapter = new RandomTokenAdapter(32);
+  const mailSender = makeMailSender();
+
+  return new CreateInvitation(
+    workspaceRepository,
+    userRepository,
+    invitationRepository,
+    randomTokenAdapter,
+    mailSender,
+    env.appUrl,
+    env.invitationTtlHours
+  );
+};
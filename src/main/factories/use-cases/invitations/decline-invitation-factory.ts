@@ -0,0 +1,15 @@
+import { DeclineInvitationInterface } from '@application/interfaces/use-cases/invitations/DeclineInvitationInterface';
+import { DeclineInvitation } from '@application/use-cases/invitations/DeclineInvitation';
+import { InvitationRepository } from '@infrastructure/db/mongodb/repositories/InvitationRepository';
+import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+
+export const makeDeclineInvitation = (): DeclineInvitationInterface => {
+  const invitationRepository = new InvitationRepository();
+  const userRepository = new UserRepository();
+
+  return new DeclineInvitation(
+    invitationRepository,
+    userRepository,
+    invitationRepository
+  );
+};
@@ -0,0 +1,12 @@
+import { GetInvitationsByUserIdInterface } from '@application/interfaces/use-cases/invitations/GetInvitationsByUserIdInterface';
+import { GetInvitationsByUserId } from '@application/use-cases/invitations/GetInvitationsByUserId';
+import { InvitationRepository } from '@infrastructure/db/mongodb/repositories/InvitationRepository';
+import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+
+export const makeGetInvitationsByUserId =
+  (): GetInvitationsByUserIdInterface => {
+    const userRepository = new UserRepository();
+    const invitationRepository = new InvitationRepository();
+
+    return new GetInvitationsByUserId(userRepository, invitationRepository);
+  };
@@ -0,0 +1,25 @@
+import { AddPageGuestInterface } from '@application/interfaces/use-cases/pages/addPageGuestInterface';
+import { AddPageGuest } from '@application/use-cases/pages/AddPageGuest';
+import { PageGuestRepository } from '@infrastructure/db/mongodb/repositories/PageGuestRepository';
+import { PageRepository } from '@infrastructure/db/mongodb/repositories/PageRepository';
+import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
+import env from '@main/config/env';
+import { makeMailSender } from '@main/factories/mail/mail-sender-factory';
+
+export const makeAddPageGuest = (): AddPageGuestInterface => {
+  const pageRepository = new PageRepository();
+  const userRepository = new UserRepository();
+  const workspaceRepository = new WorkspaceRepository();
+  const pageGuestRepository = new PageGuestRepository();
+  const mailSender = makeMailSender();
+
+  return new AddPageGuest(
+    pageRepository,
+    userRepository,
+    workspaceRepository,
+    pageGuestRepository,
+    mailSender,
+    env.appUrl
+  );
+};
@@ -1,11 +1,17 @@
 import { AuthorizationInterface } from '@application/interfaces/use-cases/pages/authorizationInterface';
 import { Authorization } from '@application/use-cases/pages/Authorization';
+import { PageGuestRepository } from '@infrastructure/db/mongodb/repositories/PageGuestRepository';
 import { PageRepository } from '@infrastructure/db/mongodb/repositories/PageRepository';
-import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
 
 export const makeAuthorization = (): AuthorizationInterface => {
-  const userRepository = new UserRepository();
   const pageRepository = new PageRepository();
+  const workspaceRepository = new WorkspaceRepository();
+  const pageGuestRepository = new PageGuestRepository();
 
-  return new Authorization(pageRepository, userRepository);
+  return new Authorization(
+    pageRepository,
+    workspaceRepository,
+    pageGuestRepository
+  );
 };
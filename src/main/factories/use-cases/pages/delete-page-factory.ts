@@ -1,9 +1,16 @@
 import { DeletePageInterface } from '@application/interfaces/use-cases/pages/deletePageInterface';
 import { DeletePage } from '@application/use-cases/pages/DeletePage';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
 import { PageRepository } from '@infrastructure/db/mongodb/repositories/PageRepository';
 
 export const makeDeletePage = (): DeletePageInterface => {
   const pageRepository = new PageRepository();
+  const auditLogRepository = new AuditLogRepository();
 
-  return new DeletePage(pageRepository);
+  return new DeletePage(
+    pageRepository,
+    pageRepository,
+    pageRepository,
+    auditLogRepository
+  );
 };
@@ -1,10 +1,12 @@
 import { DeletePagesByWorkspaceIdInterface } from '@application/interfaces/use-cases/pages/deletePagesByWorkspaceIdInterface';
 import { DeletePagesByWorkspaceId } from '@application/use-cases/pages/DeletePagesByWorkspaceId';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
 import { PageRepository } from '@infrastructure/db/mongodb/repositories/PageRepository';
 
 export const makeDeletePagesByWorkspaceId =
   (): DeletePagesByWorkspaceIdInterface => {
     const pageRepository = new PageRepository();
+    const auditLogRepository = new AuditLogRepository();
 
-    return new DeletePagesByWorkspaceId(pageRepository);
+    return new DeletePagesByWorkspaceId(pageRepository, auditLogRepository);
   };
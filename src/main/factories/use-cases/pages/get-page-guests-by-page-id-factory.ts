@@ -0,0 +1,9 @@
+import { GetPageGuestsByPageIdInterface } from '@application/interfaces/use-cases/pages/getPageGuestsByPageIdInterface';
+import { GetPageGuestsByPageId } from '@application/use-cases/pages/GetPageGuestsByPageId';
+import { PageGuestRepository } from '@infrastructure/db/mongodb/repositories/PageGuestRepository';
+
+export const makeGetPageGuestsByPageId = (): GetPageGuestsByPageIdInterface => {
+  const pageGuestRepository = new PageGuestRepository();
+
+  return new GetPageGuestsByPageId(pageGuestRepository);
+};
@@ -0,0 +1,9 @@
+import { GetPublicPageBySlugInterface } from '@application/interfaces/use-cases/pages/getPublicPageBySlugInterface';
+import { GetPublicPageBySlug } from '@application/use-cases/pages/GetPublicPageBySlug';
+import { PageRepository } from '@infrastructure/db/mongodb/repositories/PageRepository';
+
+export const makeGetPublicPageBySlug = (): GetPublicPageBySlugInterface => {
+  const pageRepository = new PageRepository();
+
+  return new GetPublicPageBySlug(pageRepository, pageRepository);
+};
@@ -0,0 +1,9 @@
+import { GetTrashByWorkspaceIdInterface } from '@application/interfaces/use-cases/pages/getTrashByWorkspaceIdInterface';
+import { GetTrashByWorkspaceId } from '@application/use-cases/pages/GetTrashByWorkspaceId';
+import { PageRepository } from '@infrastructure/db/mongodb/repositories/PageRepository';
+
+export const makeGetTrashByWorkspaceId = (): GetTrashByWorkspaceIdInterface => {
+  const pageRepository = new PageRepository();
+
+  return new GetTrashByWorkspaceId(pageRepository);
+};
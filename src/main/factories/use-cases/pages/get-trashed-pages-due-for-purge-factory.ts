@@ -0,0 +1,14 @@
+import { GetTrashedPagesDueForPurgeInterface } from '@application/interfaces/use-cases/pages/getTrashedPagesDueForPurgeInterface';
+import { GetTrashedPagesDueForPurge } from '@application/use-cases/pages/GetTrashedPagesDueForPurge';
+import { PageRepository } from '@infrastructure/db/mongodb/repositories/PageRepository';
+import env from '@main/config/env';
+
+export const makeGetTrashedPagesDueForPurge =
+  (): GetTrashedPagesDueForPurgeInterface => {
+    const pageRepository = new PageRepository();
+
+    return new GetTrashedPagesDueForPurge(
+      pageRepository,
+      env.trashRetentionDays
+    );
+  };
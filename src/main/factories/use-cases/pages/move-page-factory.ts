@@ -0,0 +1,25 @@
+import { MovePageInterface } from '@application/interfaces/use-cases/pages/movePageInterface';
+import { MovePage } from '@application/use-cases/pages/MovePage';
+import { PageGuestRepository } from '@infrastructure/db/mongodb/repositories/PageGuestRepository';
+import { PageRepository } from '@infrastructure/db/mongodb/repositories/PageRepository';
+import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
+
+export const makeMovePage = (): MovePageInterface => {
+  const pageRepository = new PageRepository();
+  const workspaceRepository = new WorkspaceRepository();
+  const userRepository = new UserRepository();
+  const pageGuestRepository = new PageGuestRepository();
+
+  return new MovePage(
+    pageRepository,
+    workspaceRepository,
+    pageRepository,
+    pageRepository,
+    pageRepository,
+    pageGuestRepository,
+    pageRepository,
+    userRepository,
+    userRepository
+  );
+};
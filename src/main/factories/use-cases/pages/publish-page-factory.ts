@@ -0,0 +1,11 @@
+import { PublishPageInterface } from '@application/interfaces/use-cases/pages/publishPageInterface';
+import { PublishPage } from '@application/use-cases/pages/PublishPage';
+import { RandomTokenAdapter } from '@infrastructure/cryptography/RandomTokenAdapter';
+import { PageRepository } from '@infrastructure/db/mongodb/repositories/PageRepository';
+
+export const makePublishPage = (): PublishPageInterface => {
+  const pageRepository = new PageRepository();
+  const randomTokenAdapter = new RandomTokenAdapter(16);
+
+  return new PublishPage(pageRepository, randomTokenAdapter, pageRepository);
+};
@@ -0,0 +1,11 @@
+import { PurgePageInterface } from '@application/interfaces/use-cases/pages/purgePageInterface';
+import { PurgePage } from '@application/use-cases/pages/PurgePage';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
+import { PageRepository } from '@infrastructure/db/mongodb/repositories/PageRepository';
+
+export const makePurgePage = (): PurgePageInterface => {
+  const pageRepository = new PageRepository();
+  const auditLogRepository = new AuditLogRepository();
+
+  return new PurgePage(pageRepository, pageRepository, auditLogRepository);
+};
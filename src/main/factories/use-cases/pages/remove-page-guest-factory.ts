@@ -0,0 +1,9 @@
+import { RemovePageGuestInterface } from '@application/interfaces/use-cases/pages/removePageGuestInterface';
+import { RemovePageGuest } from '@application/use-cases/pages/RemovePageGuest';
+import { PageGuestRepository } from '@infrastructure/db/mongodb/repositories/PageGuestRepository';
+
+export const makeRemovePageGuest = (): RemovePageGuestInterface => {
+  const pageGuestRepository = new PageGuestRepository();
+
+  return new RemovePageGuest(pageGuestRepository);
+};
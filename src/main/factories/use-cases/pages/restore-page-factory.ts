@@ -0,0 +1,16 @@
+import { RestorePageInterface } from '@application/interfaces/use-cases/pages/restorePageInterface';
+import { RestorePage } from '@application/use-cases/pages/RestorePage';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
+import { PageRepository } from '@infrastructure/db/mongodb/repositories/PageRepository';
+
+export const makeRestorePage = (): RestorePageInterface => {
+  const pageRepository = new PageRepository();
+  const auditLogRepository = new AuditLogRepository();
+
+  return new RestorePage(
+    pageRepository,
+    pageRepository,
+    pageRepository,
+    auditLogRepository
+  );
+};
@@ -0,0 +1,9 @@
+import { UnpublishPageInterface } from '@application/interfaces/use-cases/pages/unpublishPageInterface';
+import { UnpublishPage } from '@application/use-cases/pages/UnpublishPage';
+import { PageRepository } from '@infrastructure/db/mongodb/repositories/PageRepository';
+
+export const makeUnpublishPage = (): UnpublishPageInterface => {
+  const pageRepository = new PageRepository();
+
+  return new UnpublishPage(pageRepository, pageRepository);
+};
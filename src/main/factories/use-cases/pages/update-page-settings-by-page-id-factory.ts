@@ -1,10 +1,16 @@
 import { UpdatePageSettingsByPageIdInterface } from '@application/interfaces/use-cases/pages/updatePageSettingsByPageIdInterface';
 import { UpdatePageSettingsByPageId } from '@application/use-cases/pages/UpdatePageSettingsByPageId';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
 import { PageRepository } from '@infrastructure/db/mongodb/repositories/PageRepository';
 
 export const makeUpdatePageSettingsByPageId =
   (): UpdatePageSettingsByPageIdInterface => {
     const pageRepository = new PageRepository();
+    const auditLogRepository = new AuditLogRepository();
 
-    return new UpdatePageSettingsByPageId(pageRepository, pageRepository);
+    return new UpdatePageSettingsByPageId(
+      pageRepository,
+      pageRepository,
+      auditLogRepository
+    );
   };
@@ -1,9 +1,15 @@
 import { AddWorkspaceByUserIdInterface } from '@application/interfaces/use-cases/users/AddWorkspaceByUserIdInterface';
 import { AddWorkspaceByUserId } from '@application/use-cases/users/AddWorkspaceByUserId';
 import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
 
 export const makeAddWorkspaceByUserId = (): AddWorkspaceByUserIdInterface => {
   const userRepository = new UserRepository();
+  const workspaceRepository = new WorkspaceRepository();
 
-  return new AddWorkspaceByUserId(userRepository, userRepository);
+  return new AddWorkspaceByUserId(
+    userRepository,
+    userRepository,
+    workspaceRepository
+  );
 };
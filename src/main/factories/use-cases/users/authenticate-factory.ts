@@ -1,12 +1,17 @@
 import { AuthenticateInterface } from '@application/interfaces/use-cases/users/AuthenticateInterface';
 import { Authenticate } from '@application/use-cases/users/Authenticate';
-import { JWTAdapter } from '@infrastructure/cryptography/JWTAdapter';
-import env from '@main/config/env';
+import { makeJWTAdapter } from '@main/factories/cryptography/jwt-adapter-factory';
+import { Sha256Adapter } from '@infrastructure/cryptography/Sha256Adapter';
+import { ApiTokenRepository } from '@infrastructure/db/mongodb/repositories/ApiTokenRepository';
 
 export const makeAuthenticate = (): AuthenticateInterface => {
-  const jwtAdapter = new JWTAdapter(
-    env.accessTokenSecret,
-    env.refreshTokenSecret
+  const jwtAdapter = makeJWTAdapter();
+  const sha256Adapter = new Sha256Adapter();
+  const apiTokenRepository = new ApiTokenRepository();
+  return new Authenticate(
+    jwtAdapter,
+    sha256Adapter,
+    apiTokenRepository,
+    apiTokenRepository
   );
-  return new Authenticate(jwtAdapter);
 };
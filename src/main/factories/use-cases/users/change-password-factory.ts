@@ -0,0 +1,24 @@
+import { ChangePasswordInterface } from '@application/interfaces/use-cases/users/ChangePasswordInterface';
+import { ChangePassword } from '@application/use-cases/users/ChangePassword';
+import { BcryptAdapter } from '@infrastructure/cryptography/BcryptAdapter';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
+import { TokenRepository } from '@infrastructure/db/mongodb/repositories/TokenRepository';
+import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+import env from '@main/config/env';
+
+export const makeChangePassword = (): ChangePasswordInterface => {
+  const userRepository = new UserRepository();
+  const bcryptAdapter = new BcryptAdapter(+env.bcryptSalt);
+  const tokenRepository = new TokenRepository();
+  const auditLogRepository = new AuditLogRepository();
+
+  return new ChangePassword(
+    userRepository,
+    userRepository,
+    bcryptAdapter,
+    bcryptAdapter,
+    userRepository,
+    tokenRepository,
+    auditLogRepository
+  );
+};
@@ -0,0 +1,21 @@
+import { CompleteOidcSignInInterface } from '@application/interfaces/use-cases/users/CompleteOidcSignInInterface';
+import { CompleteOidcSignIn } from '@application/use-cases/users/CompleteOidcSignIn';
+import { IdentityRepository } from '@infrastructure/db/mongodb/repositories/IdentityRepository';
+import { OidcStateRepository } from '@infrastructure/db/mongodb/repositories/OidcStateRepository';
+import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+import { makeIdentityProviders } from '@main/factories/identity/identity-providers-factory';
+
+export const makeCompleteOidcSignIn = (): CompleteOidcSignInInterface => {
+  const identityProviders = makeIdentityProviders();
+  const oidcStateRepository = new OidcStateRepository();
+  const identityRepository = new IdentityRepository();
+  const userRepository = new UserRepository();
+
+  return new CompleteOidcSignIn(
+    identityProviders,
+    oidcStateRepository,
+    identityRepository,
+    userRepository,
+    identityRepository
+  );
+};
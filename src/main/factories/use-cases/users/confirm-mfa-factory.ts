@@ -0,0 +1,23 @@
+import { ConfirmMfaInterface } from '@application/interfaces/use-cases/users/ConfirmMfaInterface';
+import { ConfirmMfa } from '@application/use-cases/users/ConfirmMfa';
+import { BcryptAdapter } from '@infrastructure/cryptography/BcryptAdapter';
+import { RandomTokenAdapter } from '@infrastructure/cryptography/RandomTokenAdapter';
+import { TotpAdapter } from '@infrastructure/cryptography/TotpAdapter';
+import { MfaRepository } from '@infrastructure/db/mongodb/repositories/MfaRepository';
+import env from '@main/config/env';
+
+export const makeConfirmMfa = (): ConfirmMfaInterface => {
+  const mfaRepository = new MfaRepository();
+  const totpAdapter = new TotpAdapter(env.mfaIssuer);
+  const randomTokenAdapter = new RandomTokenAdapter(5);
+  const bcryptAdapter = new BcryptAdapter(+env.bcryptSalt);
+
+  return new ConfirmMfa(
+    mfaRepository,
+    totpAdapter,
+    mfaRepository,
+    randomTokenAdapter,
+    bcryptAdapter,
+    mfaRepository
+  );
+};
@@ -0,0 +1,17 @@
+import { CreateApiTokenInterface } from '@application/interfaces/use-cases/users/CreateApiTokenInterface';
+import { CreateApiToken } from '@application/use-cases/users/CreateApiToken';
+import { RandomTokenAdapter } from '@infrastructure/cryptography/RandomTokenAdapter';
+import { Sha256Adapter } from '@infrastructure/cryptography/Sha256Adapter';
+import { ApiTokenRepository } from '@infrastructure/db/mongodb/repositories/ApiTokenRepository';
+
+export const makeCreateApiToken = (): CreateApiTokenInterface => {
+  const randomTokenAdapter = new RandomTokenAdapter(32);
+  const sha256Adapter = new Sha256Adapter();
+  const apiTokenRepository = new ApiTokenRepository();
+
+  return new CreateApiToken(
+    randomTokenAdapter,
+    sha256Adapter,
+    apiTokenRepository
+  );
+};
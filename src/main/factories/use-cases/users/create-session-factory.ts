@@ -0,0 +1,28 @@
+import { CreateSessionInterface } from '@application/interfaces/use-cases/users/CreateSessionInterface';
+import { CreateSession } from '@application/use-cases/users/CreateSession';
+import { makeJWTAdapter } from '@main/factories/cryptography/jwt-adapter-factory';
+import { RandomTokenAdapter } from '@infrastructure/cryptography/RandomTokenAdapter';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
+import { MfaChallengeRepository } from '@infrastructure/db/mongodb/repositories/MfaChallengeRepository';
+import { MfaRepository } from '@infrastructure/db/mongodb/repositories/MfaRepository';
+import { TokenRepository } from '@infrastructure/db/mongodb/repositories/TokenRepository';
+import env from '@main/config/env';
+
+export const makeCreateSession = (): CreateSessionInterface => {
+  const mfaRepository = new MfaRepository();
+  const mfaChallengeRepository = new MfaChallengeRepository();
+  const randomTokenAdapter = new RandomTokenAdapter(32);
+  const jwtAdapter = makeJWTAdapter();
+  const tokenRepository = new TokenRepository();
+  const auditLogRepository = new AuditLogRepository();
+
+  return new CreateSession(
+    mfaRepository,
+    mfaChallengeRepository,
+    randomTokenAdapter,
+    env.mfaChallengeTtlMinutes,
+    jwtAdapter,
+    tokenRepository,
+    auditLogRepository
+  );
+};
@@ -0,0 +1,11 @@
+import { DeleteApiTokenInterface } from '@application/interfaces/use-cases/users/DeleteApiTokenInterface';
+import { DeleteApiToken } from '@application/use-cases/users/DeleteApiToken';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
+import { ApiTokenRepository } from '@infrastructure/db/mongodb/repositories/ApiTokenRepository';
+
+export const makeDeleteApiToken = (): DeleteApiTokenInterface => {
+  const apiTokenRepository = new ApiTokenRepository();
+  const auditLogRepository = new AuditLogRepository();
+
+  return new DeleteApiToken(apiTokenRepository, auditLogRepository);
+};
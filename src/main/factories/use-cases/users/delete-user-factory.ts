@@ -1,9 +1,28 @@
 import { DeleteUserInterface } from '@application/interfaces/use-cases/users/DeleteUserInterface';
 import { DeleteUser } from '@application/use-cases/users/DeleteUser';
+import { BcryptAdapter } from '@infrastructure/cryptography/BcryptAdapter';
+import { ApiTokenRepository } from '@infrastructure/db/mongodb/repositories/ApiTokenRepository';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
+import { TokenRepository } from '@infrastructure/db/mongodb/repositories/TokenRepository';
 import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+import env from '@main/config/env';
 
 export const makeDeleteUser = (): DeleteUserInterface => {
   const userRepository = new UserRepository();
+  const bcryptAdapter = new BcryptAdapter(+env.bcryptSalt);
+  const tokenRepository = new TokenRepository();
+  const apiTokenRepository = new ApiTokenRepository();
+  const auditLogRepository = new AuditLogRepository();
 
-  return new DeleteUser(userRepository);
+  return new DeleteUser(
+    userRepository,
+    userRepository,
+    bcryptAdapter,
+    userRepository,
+    tokenRepository,
+    apiTokenRepository,
+    auditLogRepository,
+    env.accountDeletionGraceDays,
+    env.accountDeletionRequiresPassword
+  );
 };
@@ -0,0 +1,11 @@
+import { DownloadUserExportInterface } from '@application/interfaces/use-cases/users/DownloadUserExportInterface';
+import { DownloadUserExport } from '@application/use-cases/users/DownloadUserExport';
+import { UserExportRepository } from '@infrastructure/db/mongodb/repositories/UserExportRepository';
+import { makeExportStorage } from '@main/factories/storage/export-storage-factory';
+
+export const makeDownloadUserExport = (): DownloadUserExportInterface => {
+  const userExportRepository = new UserExportRepository();
+  const exportStorage = makeExportStorage();
+
+  return new DownloadUserExport(userExportRepository, exportStorage);
+};
@@ -0,0 +1,19 @@
+import { EnrollMfaInterface } from '@application/interfaces/use-cases/users/EnrollMfaInterface';
+import { EnrollMfa } from '@application/use-cases/users/EnrollMfa';
+import { TotpAdapter } from '@infrastructure/cryptography/TotpAdapter';
+import { MfaRepository } from '@infrastructure/db/mongodb/repositories/MfaRepository';
+import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+import env from '@main/config/env';
+
+export const makeEnrollMfa = (): EnrollMfaInterface => {
+  const userRepository = new UserRepository();
+  const mfaRepository = new MfaRepository();
+  const totpAdapter = new TotpAdapter(env.mfaIssuer);
+
+  return new EnrollMfa(
+    userRepository,
+    mfaRepository,
+    mfaRepository,
+    totpAdapter
+  );
+};
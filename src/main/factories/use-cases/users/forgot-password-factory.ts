@@ -0,0 +1,23 @@
+import { ForgotPasswordInterface } from '@application/interfaces/use-cases/users/ForgotPasswordInterface';
+import { ForgotPassword } from '@application/use-cases/users/ForgotPassword';
+import { RandomTokenAdapter } from '@infrastructure/cryptography/RandomTokenAdapter';
+import { PasswordResetTokenRepository } from '@infrastructure/db/mongodb/repositories/PasswordResetTokenRepository';
+import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+import env from '@main/config/env';
+import { makeMailSender } from '@main/factories/mail/mail-sender-factory';
+
+export const makeForgotPassword = (): ForgotPasswordInterface => {
+  const userRepository = new UserRepository();
+  const passwordResetTokenRepository = new PasswordResetTokenRepository();
+  const randomTokenAdapter = new RandomTokenAdapter(32);
+  const mailSender = makeMailSender();
+
+  return new ForgotPassword(
+    userRepository,
+    passwordResetTokenRepository,
+    randomTokenAdapter,
+    mailSender,
+    env.appUrl,
+    env.passwordResetTtlMinutes
+  );
+};
@@ -0,0 +1,34 @@
+import { GenerateUserExportInterface } from '@application/interfaces/use-cases/users/GenerateUserExportInterface';
+import { GenerateUserExport } from '@application/use-cases/users/GenerateUserExport';
+import { PageGuestRepository } from '@infrastructure/db/mongodb/repositories/PageGuestRepository';
+import { PageRepository } from '@infrastructure/db/mongodb/repositories/PageRepository';
+import { TokenRepository } from '@infrastructure/db/mongodb/repositories/TokenRepository';
+import { UserExportRepository } from '@infrastructure/db/mongodb/repositories/UserExportRepository';
+import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
+import env from '@main/config/env';
+import { makeExportStorage } from '@main/factories/storage/export-storage-factory';
+
+export const makeGenerateUserExport = (): GenerateUserExportInterface => {
+  const userExportRepository = new UserExportRepository();
+  const userRepository = new UserRepository();
+  const workspaceRepository = new WorkspaceRepository();
+  const tokenRepository = new TokenRepository();
+  const pageRepository = new PageRepository();
+  const pageGuestRepository = new PageGuestRepository();
+  const exportStorage = makeExportStorage();
+
+  return new GenerateUserExport(
+    userExportRepository,
+    userRepository,
+    workspaceRepository,
+    tokenRepository,
+    pageRepository,
+    pageGuestRepository,
+    pageRepository,
+    pageRepository,
+    exportStorage,
+    userExportRepository,
+    env.exportTtlHours
+  );
+};
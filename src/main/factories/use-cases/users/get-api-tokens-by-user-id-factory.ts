@@ -0,0 +1,9 @@
+import { GetApiTokensByUserIdInterface } from '@application/interfaces/use-cases/users/GetApiTokensByUserIdInterface';
+import { GetApiTokensByUserId } from '@application/use-cases/users/GetApiTokensByUserId';
+import { ApiTokenRepository } from '@infrastructure/db/mongodb/repositories/ApiTokenRepository';
+
+export const makeGetApiTokensByUserId = (): GetApiTokensByUserIdInterface => {
+  const apiTokenRepository = new ApiTokenRepository();
+
+  return new GetApiTokensByUserId(apiTokenRepository);
+};
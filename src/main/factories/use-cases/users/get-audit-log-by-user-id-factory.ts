@@ -0,0 +1,9 @@
+import { GetAuditLogByUserIdInterface } from '@application/interfaces/use-cases/users/GetAuditLogByUserIdInterface';
+import { GetAuditLogByUserId } from '@application/use-cases/users/GetAuditLogByUserId';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
+
+export const makeGetAuditLogByUserId = (): GetAuditLogByUserIdInterface => {
+  const auditLogRepository = new AuditLogRepository();
+
+  return new GetAuditLogByUserId(auditLogRepository);
+};
@@ -0,0 +1,9 @@
+import { GetJsonWebKeySetInterface } from '@application/interfaces/use-cases/users/GetJsonWebKeySetInterface';
+import { GetJsonWebKeySet } from '@application/use-cases/users/GetJsonWebKeySet';
+import { makeJWTAdapter } from '@main/factories/cryptography/jwt-adapter-factory';
+
+export const makeGetJsonWebKeySet = (): GetJsonWebKeySetInterface => {
+  const jwtAdapter = makeJWTAdapter();
+
+  return new GetJsonWebKeySet(jwtAdapter);
+};
@@ -0,0 +1,9 @@
+import { GetSessionsByUserIdInterface } from '@application/interfaces/use-cases/users/GetSessionsByUserIdInterface';
+import { GetSessionsByUserId } from '@application/use-cases/users/GetSessionsByUserId';
+import { TokenRepository } from '@infrastructure/db/mongodb/repositories/TokenRepository';
+
+export const makeGetSessionsByUserId = (): GetSessionsByUserIdInterface => {
+  const tokenRepository = new TokenRepository();
+
+  return new GetSessionsByUserId(tokenRepository);
+};
@@ -0,0 +1,12 @@
+import { GetSharedPagesByUserIdInterface } from '@application/interfaces/use-cases/users/GetSharedPagesByUserIdInterface';
+import { GetSharedPagesByUserId } from '@application/use-cases/users/GetSharedPagesByUserId';
+import { PageGuestRepository } from '@infrastructure/db/mongodb/repositories/PageGuestRepository';
+import { PageRepository } from '@infrastructure/db/mongodb/repositories/PageRepository';
+
+export const makeGetSharedPagesByUserId =
+  (): GetSharedPagesByUserIdInterface => {
+    const pageGuestRepository = new PageGuestRepository();
+    const pageRepository = new PageRepository();
+
+    return new GetSharedPagesByUserId(pageGuestRepository, pageRepository);
+  };
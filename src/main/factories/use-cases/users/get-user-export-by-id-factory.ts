@@ -0,0 +1,9 @@
+import { GetUserExportByIdInterface } from '@application/interfaces/use-cases/users/GetUserExportByIdInterface';
+import { GetUserExportById } from '@application/use-cases/users/GetUserExportById';
+import { UserExportRepository } from '@infrastructure/db/mongodb/repositories/UserExportRepository';
+
+export const makeGetUserExportById = (): GetUserExportByIdInterface => {
+  const userExportRepository = new UserExportRepository();
+
+  return new GetUserExportById(userExportRepository);
+};
@@ -0,0 +1,10 @@
+import { GetUserIdsDueForDeletionInterface } from '@application/interfaces/use-cases/users/GetUserIdsDueForDeletionInterface';
+import { GetUserIdsDueForDeletion } from '@application/use-cases/users/GetUserIdsDueForDeletion';
+import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+
+export const makeGetUserIdsDueForDeletion =
+  (): GetUserIdsDueForDeletionInterface => {
+    const userRepository = new UserRepository();
+
+    return new GetUserIdsDueForDeletion(userRepository);
+  };
@@ -0,0 +1,16 @@
+import { PurgeExpiredUserExportsInterface } from '@application/interfaces/use-cases/users/PurgeExpiredUserExportsInterface';
+import { PurgeExpiredUserExports } from '@application/use-cases/users/PurgeExpiredUserExports';
+import { UserExportRepository } from '@infrastructure/db/mongodb/repositories/UserExportRepository';
+import { makeExportStorage } from '@main/factories/storage/export-storage-factory';
+
+export const makePurgeExpiredUserExports =
+  (): PurgeExpiredUserExportsInterface => {
+    const userExportRepository = new UserExportRepository();
+    const exportStorage = makeExportStorage();
+
+    return new PurgeExpiredUserExports(
+      userExportRepository,
+      exportStorage,
+      userExportRepository
+    );
+  };
@@ -0,0 +1,60 @@
+import { PurgeUserInterface } from '@application/interfaces/use-cases/users/PurgeUserInterface';
+import { PurgeUser } from '@application/use-cases/users/PurgeUser';
+import { ApiTokenRepository } from '@infrastructure/db/mongodb/repositories/ApiTokenRepository';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
+import { EmailVerificationTokenRepository } from '@infrastructure/db/mongodb/repositories/EmailVerificationTokenRepository';
+import { IdentityRepository } from '@infrastructure/db/mongodb/repositories/IdentityRepository';
+import { InvitationRepository } from '@infrastructure/db/mongodb/repositories/InvitationRepository';
+import { LoginAttemptRepository } from '@infrastructure/db/mongodb/repositories/LoginAttemptRepository';
+import { MfaRepository } from '@infrastructure/db/mongodb/repositories/MfaRepository';
+import { PageGuestRepository } from '@infrastructure/db/mongodb/repositories/PageGuestRepository';
+import { PageRepository } from '@infrastructure/db/mongodb/repositories/PageRepository';
+import { PasswordResetTokenRepository } from '@infrastructure/db/mongodb/repositories/PasswordResetTokenRepository';
+import { TokenRepository } from '@infrastructure/db/mongodb/repositories/TokenRepository';
+import { UserExportRepository } from '@infrastructure/db/mongodb/repositories/UserExportRepository';
+import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
+import { makeExportStorage } from '@main/factories/storage/export-storage-factory';
+
+export const makePurgeUser = (): PurgeUserInterface => {
+  const userRepository = new UserRepository();
+  const workspaceRepository = new WorkspaceRepository();
+  const pageRepository = new PageRepository();
+  const pageGuestRepository = new PageGuestRepository();
+  const identityRepository = new IdentityRepository();
+  const mfaRepository = new MfaRepository();
+  const tokenRepository = new TokenRepository();
+  const apiTokenRepository = new ApiTokenRepository();
+  const passwordResetTokenRepository = new PasswordResetTokenRepository();
+  const emailVerificationTokenRepository =
+    new EmailVerificationTokenRepository();
+  const invitationRepository = new InvitationRepository();
+  const loginAttemptRepository = new LoginAttemptRepository();
+  const auditLogRepository = new AuditLogRepository();
+  const userExportRepository = new UserExportRepository();
+  const exportStorage = makeExportStorage();
+
+  return new PurgeUser(
+    userRepository,
+    workspaceRepository,
+    workspaceRepository,
+    workspaceRepository,
+    pageRepository,
+    workspaceRepository,
+    pageRepository,
+    pageGuestRepository,
+    identityRepository,
+    mfaRepository,
+    tokenRepository,
+    apiTokenRepository,
+    passwordResetTokenRepository,
+    emailVerificationTokenRepository,
+    invitationRepository,
+    loginAttemptRepository,
+    userRepository,
+    auditLogRepository,
+    userExportRepository,
+    exportStorage,
+    userExportRepository
+  );
+};
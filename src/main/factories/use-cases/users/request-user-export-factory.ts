@@ -0,0 +1,9 @@
+import { RequestUserExportInterface } from '@application/interfaces/use-cases/users/RequestUserExportInterface';
+import { RequestUserExport } from '@application/use-cases/users/RequestUserExport';
+import { UserExportRepository } from '@infrastructure/db/mongodb/repositories/UserExportRepository';
+
+export const makeRequestUserExport = (): RequestUserExportInterface => {
+  const userExportRepository = new UserExportRepository();
+
+  return new RequestUserExport(userExportRepository);
+};
@@ -0,0 +1,24 @@
+import { ResetPasswordInterface } from '@application/interfaces/use-cases/users/ResetPasswordInterface';
+import { ResetPassword } from '@application/use-cases/users/ResetPassword';
+import { BcryptAdapter } from '@infrastructure/cryptography/BcryptAdapter';
+import { PasswordResetTokenRepository } from '@infrastructure/db/mongodb/repositories/PasswordResetTokenRepository';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
+import { TokenRepository } from '@infrastructure/db/mongodb/repositories/TokenRepository';
+import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+import env from '@main/config/env';
+
+export const makeResetPassword = (): ResetPasswordInterface => {
+  const passwordResetTokenRepository = new PasswordResetTokenRepository();
+  const bcryptAdapter = new BcryptAdapter(+env.bcryptSalt);
+  const userRepository = new UserRepository();
+  const tokenRepository = new TokenRepository();
+  const auditLogRepository = new AuditLogRepository();
+
+  return new ResetPassword(
+    passwordResetTokenRepository,
+    bcryptAdapter,
+    userRepository,
+    tokenRepository,
+    auditLogRepository
+  );
+};
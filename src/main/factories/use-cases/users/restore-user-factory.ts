@@ -0,0 +1,11 @@
+import { RestoreUserInterface } from '@application/interfaces/use-cases/users/RestoreUserInterface';
+import { RestoreUser } from '@application/use-cases/users/RestoreUser';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
+import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+
+export const makeRestoreUser = (): RestoreUserInterface => {
+  const userRepository = new UserRepository();
+  const auditLogRepository = new AuditLogRepository();
+
+  return new RestoreUser(userRepository, auditLogRepository);
+};
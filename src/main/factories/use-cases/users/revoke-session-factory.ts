@@ -0,0 +1,15 @@
+import { RevokeSessionInterface } from '@application/interfaces/use-cases/users/RevokeSessionInterface';
+import { RevokeSession } from '@application/use-cases/users/RevokeSession';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
+import { TokenRepository } from '@infrastructure/db/mongodb/repositories/TokenRepository';
+
+export const makeRevokeSession = (): RevokeSessionInterface => {
+  const tokenRepository = new TokenRepository();
+  const auditLogRepository = new AuditLogRepository();
+
+  return new RevokeSession(
+    tokenRepository,
+    tokenRepository,
+    auditLogRepository
+  );
+};
@@ -0,0 +1,21 @@
+import { SendEmailVerificationInterface } from '@application/interfaces/use-cases/users/SendEmailVerificationInterface';
+import { SendEmailVerification } from '@application/use-cases/users/SendEmailVerification';
+import { RandomTokenAdapter } from '@infrastructure/cryptography/RandomTokenAdapter';
+import { EmailVerificationTokenRepository } from '@infrastructure/db/mongodb/repositories/EmailVerificationTokenRepository';
+import env from '@main/config/env';
+import { makeMailSender } from '@main/factories/mail/mail-sender-factory';
+
+export const makeSendEmailVerification = (): SendEmailVerificationInterface => {
+  const emailVerificationTokenRepository =
+    new EmailVerificationTokenRepository();
+  const randomTokenAdapter = new RandomTokenAdapter(32);
+  const mailSender = makeMailSender();
+
+  return new SendEmailVerification(
+    emailVerificationTokenRepository,
+    randomTokenAdapter,
+    mailSender,
+    env.appUrl,
+    env.emailVerificationTtlHours
+  );
+};
@@ -1,19 +1,45 @@
 import { SignInInterface } from '@application/interfaces/use-cases/users/SignInInterface';
 import { SignIn } from '@application/use-cases/users/SignIn';
 import { BcryptAdapter } from '@infrastructure/cryptography/BcryptAdapter';
-import { JWTAdapter } from '@infrastructure/cryptography/JWTAdapter';
+import { makeJWTAdapter } from '@main/factories/cryptography/jwt-adapter-factory';
+import { RandomTokenAdapter } from '@infrastructure/cryptography/RandomTokenAdapter';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
+import { LoginAttemptRepository } from '@infrastructure/db/mongodb/repositories/LoginAttemptRepository';
+import { MfaChallengeRepository } from '@infrastructure/db/mongodb/repositories/MfaChallengeRepository';
+import { MfaRepository } from '@infrastructure/db/mongodb/repositories/MfaRepository';
 import { TokenRepository } from '@infrastructure/db/mongodb/repositories/TokenRepository';
 import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
 import env from '@main/config/env';
 
+// bcrypt hash of a random password, compared when the email is unknown
+const DUMMY_PASSWORD_HASH =
+  '$2b$10$JaQn.7tQnyAjrGFt5RCfZubar.fxY/60zZT3WaS5IQMj5ZPCNhpNS';
+
 export const makeSignIn = (): SignInInterface => {
   const userRepository = new UserRepository();
   const tokenRepository = new TokenRepository();
   const bcryptAdapter = new BcryptAdapter(+env.bcryptSalt);
-  const jwtAdapter = new JWTAdapter(
-    env.accessTokenSecret,
-    env.refreshTokenSecret
-  );
+  const jwtAdapter = makeJWTAdapter();
+  const mfaRepository = new MfaRepository();
+  const mfaChallengeRepository = new MfaChallengeRepository();
+  const randomTokenAdapter = new RandomTokenAdapter(32);
+  const loginAttemptRepository = new LoginAttemptRepository();
+  const auditLogRepository = new AuditLogRepository();
 
-  return new SignIn(userRepository, tokenRepository, bcryptAdapter, jwtAdapter);
+  return new SignIn(
+    userRepository,
+    tokenRepository,
+    bcryptAdapter,
+    jwtAdapter,
+    mfaRepository,
+    mfaChallengeRepository,
+    randomTokenAdapter,
+    env.mfaChallengeTtlMinutes,
+    loginAttemptRepository,
+    loginAttemptRepository,
+    loginAttemptRepository,
+    env.loginLockoutMinutes,
+    auditLogRepository,
+    DUMMY_PASSWORD_HASH
+  );
 };
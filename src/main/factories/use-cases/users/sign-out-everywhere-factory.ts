@@ -0,0 +1,11 @@
+import { SignOutEverywhereInterface } from '@application/interfaces/use-cases/users/SignOutEverywhereInterface';
+import { SignOutEverywhere } from '@application/use-cases/users/SignOutEverywhere';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
+import { TokenRepository } from '@infrastructure/db/mongodb/repositories/TokenRepository';
+
+export const makeSignOutEverywhere = (): SignOutEverywhereInterface => {
+  const tokenRepository = new TokenRepository();
+  const auditLogRepository = new AuditLogRepository();
+
+  return new SignOutEverywhere(tokenRepository, auditLogRepository);
+};
@@ -1,9 +1,11 @@
 import { SignOutInterface } from '@application/interfaces/use-cases/users/SignOutInterface';
 import { SignOut } from '@application/use-cases/users/SignOut';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
 import { TokenRepository } from '@infrastructure/db/mongodb/repositories/TokenRepository';
 
 export const makeSignOut = (): SignOutInterface => {
   const tokenRepository = new TokenRepository();
+  const auditLogRepository = new AuditLogRepository();
 
-  return new SignOut(tokenRepository);
+  return new SignOut(tokenRepository, tokenRepository, auditLogRepository);
 };
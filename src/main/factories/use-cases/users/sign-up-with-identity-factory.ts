@@ -0,0 +1,22 @@
+import { SignUpWithIdentityInterface } from '@application/interfaces/use-cases/users/SignUpWithIdentityInterface';
+import { SignUpWithIdentity } from '@application/use-cases/users/SignUpWithIdentity';
+import { BcryptAdapter } from '@infrastructure/cryptography/BcryptAdapter';
+import { RandomTokenAdapter } from '@infrastructure/cryptography/RandomTokenAdapter';
+import { IdentityRepository } from '@infrastructure/db/mongodb/repositories/IdentityRepository';
+import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+import env from '@main/config/env';
+
+export const makeSignUpWithIdentity = (): SignUpWithIdentityInterface => {
+  const userRepository = new UserRepository();
+  const identityRepository = new IdentityRepository();
+  const randomTokenAdapter = new RandomTokenAdapter(32);
+  const bcryptAdapter = new BcryptAdapter(+env.bcryptSalt);
+
+  return new SignUpWithIdentity(
+    userRepository,
+    userRepository,
+    identityRepository,
+    randomTokenAdapter,
+    bcryptAdapter
+  );
+};
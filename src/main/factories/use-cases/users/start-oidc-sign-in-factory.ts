@@ -0,0 +1,19 @@
+import { StartOidcSignInInterface } from '@application/interfaces/use-cases/users/StartOidcSignInInterface';
+import { StartOidcSignIn } from '@application/use-cases/users/StartOidcSignIn';
+import { RandomTokenAdapter } from '@infrastructure/cryptography/RandomTokenAdapter';
+import { OidcStateRepository } from '@infrastructure/db/mongodb/repositories/OidcStateRepository';
+import env from '@main/config/env';
+import { makeIdentityProviders } from '@main/factories/identity/identity-providers-factory';
+
+export const makeStartOidcSignIn = (): StartOidcSignInInterface => {
+  const identityProviders = makeIdentityProviders();
+  const randomTokenAdapter = new RandomTokenAdapter(32);
+  const oidcStateRepository = new OidcStateRepository();
+
+  return new StartOidcSignIn(
+    identityProviders,
+    randomTokenAdapter,
+    oidcStateRepository,
+    env.oidcStateTtlMinutes
+  );
+};
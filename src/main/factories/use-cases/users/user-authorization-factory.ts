@@ -0,0 +1,7 @@
+import { UserAuthorizationInterface } from '@application/interfaces/use-cases/users/UserAuthorizationInterface';
+import { UserAuthorization } from '@application/use-cases/users/UserAuthorization';
+import env from '@main/config/env';
+
+export const makeUserAuthorization = (): UserAuthorizationInterface => {
+  return new UserAuthorization(env.adminUserIds);
+};
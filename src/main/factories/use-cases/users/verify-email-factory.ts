@@ -0,0 +1,12 @@
+import { VerifyEmailInterface } from '@application/interfaces/use-cases/users/VerifyEmailInterface';
+import { VerifyEmail } from '@application/use-cases/users/VerifyEmail';
+import { EmailVerificationTokenRepository } from '@infrastructure/db/mongodb/repositories/EmailVerificationTokenRepository';
+import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+
+export const makeVerifyEmail = (): VerifyEmailInterface => {
+  const emailVerificationTokenRepository =
+    new EmailVerificationTokenRepository();
+  const userRepository = new UserRepository();
+
+  return new VerifyEmail(emailVerificationTokenRepository, userRepository);
+};
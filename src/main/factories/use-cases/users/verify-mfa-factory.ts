@@ -0,0 +1,41 @@
+import { VerifyMfaInterface } from '@application/interfaces/use-cases/users/VerifyMfaInterface';
+import { VerifyMfa } from '@application/use-cases/users/VerifyMfa';
+import { BcryptAdapter } from '@infrastructure/cryptography/BcryptAdapter';
+import { makeJWTAdapter } from '@main/factories/cryptography/jwt-adapter-factory';
+import { TotpAdapter } from '@infrastructure/cryptography/TotpAdapter';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
+import { MfaChallengeRepository } from '@infrastructure/db/mongodb/repositories/MfaChallengeRepository';
+import { MfaRepository } from '@infrastructure/db/mongodb/repositories/MfaRepository';
+import { LoginAttemptRepository } from '@infrastructure/db/mongodb/repositories/LoginAttemptRepository';
+import { TokenRepository } from '@infrastructure/db/mongodb/repositories/TokenRepository';
+import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+import env from '@main/config/env';
+
+export const makeVerifyMfa = (): VerifyMfaInterface => {
+  const mfaChallengeRepository = new MfaChallengeRepository();
+  const mfaRepository = new MfaRepository();
+  const totpAdapter = new TotpAdapter(env.mfaIssuer);
+  const bcryptAdapter = new BcryptAdapter(+env.bcryptSalt);
+  const jwtAdapter = makeJWTAdapter();
+  const auditLogRepository = new AuditLogRepository();
+  const tokenRepository = new TokenRepository();
+  const userRepository = new UserRepository();
+  const loginAttemptRepository = new LoginAttemptRepository();
+
+  return new VerifyMfa(
+    mfaChallengeRepository,
+    mfaChallengeRepository,
+    mfaRepository,
+    totpAdapter,
+    mfaRepository,
+    bcryptAdapter,
+    mfaRepository,
+    jwtAdapter,
+    tokenRepository,
+    auditLogRepository,
+    userRepository,
+    loginAttemptRepository,
+    loginAttemptRepository,
+    env.loginLockoutMinutes
+  );
+};
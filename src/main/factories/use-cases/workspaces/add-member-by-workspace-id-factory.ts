@@ -1,10 +1,16 @@
 import { AddMemberByWorkspaceIdInterface } from '@application/interfaces/use-cases/workspaces/AddMemberByWorkspaceIdInterface';
 import { AddMemberByWorkspaceId } from '@application/use-cases/workspaces/AddMemberByWorkspaceId';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
 import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
 
 export const makeAddMemberByWorkspaceId =
   (): AddMemberByWorkspaceIdInterface => {
     const workspaceRepository = new WorkspaceRepository();
+    const auditLogRepository = new AuditLogRepository();
 
-    return new AddMemberByWorkspaceId(workspaceRepository, workspaceRepository);
+    return new AddMemberByWorkspaceId(
+      workspaceRepository,
+      workspaceRepository,
+      auditLogRepository
+    );
   };
@@ -1,9 +1,15 @@
 import { AddPageInterface } from '@application/interfaces/use-cases/workspaces/AddPageInterface';
 import { AddPage } from '@application/use-cases/workspaces/AddPage';
+import { FractionalIndexAdapter } from '@infrastructure/ordering/FractionalIndexAdapter';
 import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
 
 export const makeAddPage = (): AddPageInterface => {
   const workspaceRepository = new WorkspaceRepository();
+  const fractionalIndexAdapter = new FractionalIndexAdapter();
 
-  return new AddPage(workspaceRepository, workspaceRepository);
+  return new AddPage(
+    workspaceRepository,
+    workspaceRepository,
+    fractionalIndexAdapter
+  );
 };
@@ -1,9 +1,15 @@
 import { DeleteWorkspaceInterface } from '@application/interfaces/use-cases/workspaces/DeleteWorkspaceInterface';
 import { DeleteWorkspace } from '@application/use-cases/workspaces/DeleteWorkspace';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
 import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
 
 export const makeDeleteWorkspace = (): DeleteWorkspaceInterface => {
   const workspaceRepository = new WorkspaceRepository();
+  const auditLogRepository = new AuditLogRepository();
 
-  return new DeleteWorkspace(workspaceRepository);
+  return new DeleteWorkspace(
+    workspaceRepository,
+    workspaceRepository,
+    auditLogRepository
+  );
 };
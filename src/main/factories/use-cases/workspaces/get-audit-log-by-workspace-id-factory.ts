@@ -0,0 +1,15 @@
+import { GetAuditLogByWorkspaceIdInterface } from '@application/interfaces/use-cases/workspaces/GetAuditLogByWorkspaceIdInterface';
+import { GetAuditLogByWorkspaceId } from '@application/use-cases/workspaces/GetAuditLogByWorkspaceId';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
+import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
+
+export const makeGetAuditLogByWorkspaceId =
+  (): GetAuditLogByWorkspaceIdInterface => {
+    const workspaceRepository = new WorkspaceRepository();
+    const auditLogRepository = new AuditLogRepository();
+
+    return new GetAuditLogByWorkspaceId(
+      workspaceRepository,
+      auditLogRepository
+    );
+  };
@@ -0,0 +1,10 @@
+import { GetPageTreeByWorkspaceIdInterface } from '@application/interfaces/use-cases/workspaces/GetPageTreeByWorkspaceIdInterface';
+import { GetPageTreeByWorkspaceId } from '@application/use-cases/workspaces/GetPageTreeByWorkspaceId';
+import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
+
+export const makeGetPageTreeByWorkspaceId =
+  (): GetPageTreeByWorkspaceIdInterface => {
+    const workspaceRepository = new WorkspaceRepository();
+
+    return new GetPageTreeByWorkspaceId(workspaceRepository);
+  };
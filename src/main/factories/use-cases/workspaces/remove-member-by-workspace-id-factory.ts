@@ -1,13 +1,16 @@
 import { RemoveMemberByWorkspaceIdInterface } from '@application/interfaces/use-cases/workspaces/RemoveMemberByWorkspaceIdInterface';
 import { RemoveMemberByWorkspaceId } from '@application/use-cases/workspaces/RemoveMemberByWorkspaceId';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
 import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
 
 export const makeRemoveMemberByWorkspaceId =
   (): RemoveMemberByWorkspaceIdInterface => {
     const workspaceRepository = new WorkspaceRepository();
+    const auditLogRepository = new AuditLogRepository();
 
     return new RemoveMemberByWorkspaceId(
       workspaceRepository,
-      workspaceRepository
+      workspaceRepository,
+      auditLogRepository
     );
   };
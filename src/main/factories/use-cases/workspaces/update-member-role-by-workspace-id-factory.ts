@@ -0,0 +1,16 @@
+import { UpdateMemberRoleByWorkspaceIdInterface } from '@application/interfaces/use-cases/workspaces/UpdateMemberRoleByWorkspaceIdInterface';
+import { UpdateMemberRoleByWorkspaceId } from '@application/use-cases/workspaces/UpdateMemberRoleByWorkspaceId';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
+import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
+
+export const makeUpdateMemberRoleByWorkspaceId =
+  (): UpdateMemberRoleByWorkspaceIdInterface => {
+    const workspaceRepository = new WorkspaceRepository();
+    const auditLogRepository = new AuditLogRepository();
+
+    return new UpdateMemberRoleByWorkspaceId(
+      workspaceRepository,
+      workspaceRepository,
+      auditLogRepository
+    );
+  };
@@ -0,0 +1,16 @@
+import { UpdatePagePositionByPageIdInterface } from '@application/interfaces/use-cases/workspaces/UpdatePagePositionByPageIdInterface';
+import { UpdatePagePositionByPageId } from '@application/use-cases/workspaces/UpdatePagePositionByPageId';
+import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
+import { FractionalIndexAdapter } from '@infrastructure/ordering/FractionalIndexAdapter';
+
+export const makeUpdatePagePositionByPageId =
+  (): UpdatePagePositionByPageIdInterface => {
+    const workspaceRepository = new WorkspaceRepository();
+    const fractionalIndexAdapter = new FractionalIndexAdapter();
+
+    return new UpdatePagePositionByPageId(
+      workspaceRepository,
+      workspaceRepository,
+      fractionalIndexAdapter
+    );
+  };
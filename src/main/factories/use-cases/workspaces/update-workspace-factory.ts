@@ -1,9 +1,15 @@
 import { UpdateWorkspaceInterface } from '@application/interfaces/use-cases/workspaces/UpdateWorkspaceInterface';
 import { UpdateWorkspace } from '@application/use-cases/workspaces/UpdateWorkspace';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
 import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
 
 export const makeUpdateWorkspace = (): UpdateWorkspaceInterface => {
   const workspaceRepository = new WorkspaceRepository();
+  const auditLogRepository = new AuditLogRepository();
 
-  return new UpdateWorkspace(workspaceRepository, workspaceRepository);
+  return new UpdateWorkspace(
+    workspaceRepository,
+    workspaceRepository,
+    auditLogRepository
+  );
 };
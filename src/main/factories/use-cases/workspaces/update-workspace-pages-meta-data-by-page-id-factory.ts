@@ -1,13 +1,16 @@
 import { UpdateWorkspacePagesMetaDataByPageIdInterface } from '@application/interfaces/use-cases/workspaces/UpdateWorkspacePagesMetaDataByPageIdInterface';
 import { UpdateWorkspacePagesMetaDataByPageId } from '@application/use-cases/workspaces/UpdateWorkspacePagesMetaDataByPageId';
+import { FractionalIndexAdapter } from '@infrastructure/ordering/FractionalIndexAdapter';
 import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
 
 export const makeUpdateWorkspacePagesMetaDataByWorkspaceId =
   (): UpdateWorkspacePagesMetaDataByPageIdInterface => {
     const workspaceRepository = new WorkspaceRepository();
+    const fractionalIndexAdapter = new FractionalIndexAdapter();
 
     return new UpdateWorkspacePagesMetaDataByPageId(
       workspaceRepository,
-      workspaceRepository
+      workspaceRepository,
+      fractionalIndexAdapter
     );
   };
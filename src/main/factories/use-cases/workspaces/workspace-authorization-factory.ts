@@ -0,0 +1,10 @@
+import { WorkspaceAuthorizationInterface } from '@application/interfaces/use-cases/workspaces/WorkspaceAuthorizationInterface';
+import { WorkspaceAuthorization } from '@application/use-cases/workspaces/WorkspaceAuthorization';
+import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
+
+export const makeWorkspaceAuthorization =
+  (): WorkspaceAuthorizationInterface => {
+    const workspaceRepository = new WorkspaceRepository();
+
+    return new WorkspaceAuthorization(workspaceRepository);
+  };
@@ -0,0 +1,22 @@
+import { makeGenerateUserExport } from '@main/factories/use-cases/users/generate-user-export-factory';
+
+const GENERATE_INTERVAL_MS = 30 * 1000;
+
+const generateUserExports = async (): Promise<void> => {
+  const generateUserExport = makeGenerateUserExport();
+
+  // drain the queue one export at a time, until nothing is left to claim
+  const generateNext = async (): Promise<void> => {
+    if (await generateUserExport.execute()) {
+      await generateNext();
+    }
+  };
+
+  await generateNext();
+};
+
+export default (): NodeJS.Timer =>
+  setInterval(() => {
+    // eslint-disable-next-line no-console
+    generateUserExports().catch(console.error);
+  }, GENERATE_INTERVAL_MS);
@@ -0,0 +1,26 @@
+import { makeGetUserIdsDueForDeletion } from '@main/factories/use-cases/users/get-user-ids-due-for-deletion-factory';
+import { makePurgeUser } from '@main/factories/use-cases/users/purge-user-factory';
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const purgeDeletedUsers = async (): Promise<void> => {
+  const getUserIdsDueForDeletion = makeGetUserIdsDueForDeletion();
+  const purgeUser = makePurgeUser();
+
+  const userIds = await getUserIdsDueForDeletion.execute();
+
+  // one account at a time, purging touches most collections
+  await userIds.reduce(
+    (previousPurge, userId) =>
+      previousPurge.then(async () => {
+        await purgeUser.execute(userId);
+      }),
+    Promise.resolve()
+  );
+};
+
+export default (): NodeJS.Timer =>
+  setInterval(() => {
+    // eslint-disable-next-line no-console
+    purgeDeletedUsers().catch(console.error);
+  }, PURGE_INTERVAL_MS);
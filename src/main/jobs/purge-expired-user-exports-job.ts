@@ -0,0 +1,9 @@
+import { makePurgeExpiredUserExports } from '@main/factories/use-cases/users/purge-expired-user-exports-factory';
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export default (): NodeJS.Timer =>
+  setInterval(() => {
+    // eslint-disable-next-line no-console
+    makePurgeExpiredUserExports().execute().catch(console.error);
+  }, PURGE_INTERVAL_MS);
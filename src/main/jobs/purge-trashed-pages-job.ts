@@ -0,0 +1,28 @@
+import { makeGetTrashedPagesDueForPurge } from '@main/factories/use-cases/pages/get-trashed-pages-due-for-purge-factory';
+import { makePurgePage } from '@main/factories/use-cases/pages/purge-page-factory';
+
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+const purgeTrashedPages = async (): Promise<void> => {
+  const getTrashedPagesDueForPurge = makeGetTrashedPagesDueForPurge();
+  const purgePage = makePurgePage();
+
+  const trashedPages = await getTrashedPagesDueForPurge.execute();
+
+  await trashedPages.reduce(
+    (previousPurge, trashedPage) =>
+      previousPurge.then(async () => {
+        await purgePage.execute({
+          workspaceId: trashedPage.workspaceId,
+          pageId: trashedPage.id,
+        });
+      }),
+    Promise.resolve()
+  );
+};
+
+export default (): NodeJS.Timer =>
+  setInterval(() => {
+    // eslint-disable-next-line no-console
+    purgeTrashedPages().catch(console.error);
+  }, PURGE_INTERVAL_MS);
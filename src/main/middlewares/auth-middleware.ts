@@ -2,3 +2,11 @@ import { expressMiddlewareAdapter } from '@main/adapters/express-middleware-adap
 import { makeAuthMiddleware } from '@main/factories/middlewares/auth-middleware-factory';
 
 export const authMiddleware = expressMiddlewareAdapter(makeAuthMiddleware());
+
+export const pagesReadAuthMiddleware = expressMiddlewareAdapter(
+  makeAuthMiddleware('pages:read')
+);
+
+export const pagesWriteAuthMiddleware = expressMiddlewareAdapter(
+  makeAuthMiddleware('pages:write')
+);
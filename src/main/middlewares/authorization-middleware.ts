@@ -4,3 +4,12 @@ import { makeAuthorizationMiddleware } from '@main/factories/middlewares/authori
 export const authorizationMiddleware = expressMiddlewareAdapter(
   makeAuthorizationMiddleware()
 );
+
+export const editorAuthorizationMiddleware = expressMiddlewareAdapter(
+  makeAuthorizationMiddleware(['owner', 'editor'])
+);
+
+// guests never manage who else a page is shared with
+export const pageSharingAuthorizationMiddleware = expressMiddlewareAdapter(
+  makeAuthorizationMiddleware(['owner', 'editor'], true)
+);
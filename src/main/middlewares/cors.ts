@@ -1,15 +1,53 @@
 import { NextFunction, Request, Response } from 'express';
 
-export const cors =
-  (options: { origin: string; credentials: boolean }) =>
-  (req: Request, res: Response, next: NextFunction): void => {
-    // res.set('Access-Control-Allow-Headers', '*');
+type CorsOptions = {
+  origins: string[];
+  credentials: boolean;
+  maxAgeSeconds: number;
+};
+
+const toOriginPattern = (origin: string): RegExp => {
+  if (origin.length > 1 && origin.startsWith('/') && origin.endsWith('/')) {
+    // the whole origin has to match, not just a part of it
+    return new RegExp(`^(?:${origin.slice(1, -1)})$`);
+  }
+
+  const escaped = origin.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(
+    `^${escaped.replace(/\*/g, '[a-z0-9-]+(?:\\.[a-z0-9-]+)*')}$`,
+    'i'
+  );
+};
+
+export const cors = (options: CorsOptions) => {
+  const originPatterns = options.origins.map(toOriginPattern);
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const { origin } = req.headers;
+
+    // the answer depends on the origin, caches must not share it
+    res.vary('Origin');
+
+    if (origin && originPatterns.some(pattern => pattern.test(origin))) {
+      res.set('Access-Control-Allow-Origin', origin);
+      res.set(
+        'Access-Control-Allow-Credentials',
+        options.credentials.toString()
+      );
+      res.set('Access-Control-Expose-Headers', 'Content-Disposition');
+    }
+
+    if (req.method !== 'OPTIONS') {
+      next();
+      return;
+    }
+
     res.set('Access-Control-Allow-Headers', 'Authorization, Content-Type');
     res.set(
       'Access-Control-Allow-Methods',
       'PUT, POST, GET, DELETE, PATCH, OPTIONS'
     );
-    res.set('Access-Control-Allow-Origin', options.origin);
-    res.set('Access-Control-Allow-Credentials', options.credentials.toString());
-    next();
+    res.set('Access-Control-Max-Age', options.maxAgeSeconds.toString());
+    res.status(204).end();
   };
+};
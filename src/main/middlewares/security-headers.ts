@@ -0,0 +1,37 @@
+import { NextFunction, Request, Response } from 'express';
+
+type SecurityHeadersOptions = {
+  contentSecurityPolicy: string;
+  hstsMaxAgeSeconds: number;
+  frameOptions: string;
+  referrerPolicy: string;
+};
+
+// an empty value (or a zero max age) leaves the header out
+export const securityHeaders =
+  (options: SecurityHeadersOptions) =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    res.removeHeader('X-Powered-By');
+    res.set('X-Content-Type-Options', 'nosniff');
+
+    if (options.contentSecurityPolicy) {
+      res.set('Content-Security-Policy', options.contentSecurityPolicy);
+    }
+
+    if (options.hstsMaxAgeSeconds > 0) {
+      res.set(
+        'Strict-Transport-Security',
+        `max-age=${options.hstsMaxAgeSeconds}; includeSubDomains`
+      );
+    }
+
+    if (options.frameOptions) {
+      res.set('X-Frame-Options', options.frameOptions);
+    }
+
+    if (options.referrerPolicy) {
+      res.set('Referrer-Policy', options.referrerPolicy);
+    }
+
+    next();
+  };
@@ -0,0 +1,6 @@
+import { expressMiddlewareAdapter } from '@main/adapters/express-middleware-adapter';
+import { makeUserAuthorizationMiddleware } from '@main/factories/middlewares/user-authorization-middleware-factory';
+
+export const userAuthorizationMiddleware = expressMiddlewareAdapter(
+  makeUserAuthorizationMiddleware()
+);
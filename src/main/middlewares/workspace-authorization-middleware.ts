@@ -0,0 +1,14 @@
+import { expressMiddlewareAdapter } from '@main/adapters/express-middleware-adapter';
+import { makeWorkspaceAuthorizationMiddleware } from '@main/factories/middlewares/workspace-authorization-middleware-factory';
+
+export const workspaceAuthorizationMiddleware = expressMiddlewareAdapter(
+  makeWorkspaceAuthorizationMiddleware()
+);
+
+export const workspaceEditorAuthorizationMiddleware = expressMiddlewareAdapter(
+  makeWorkspaceAuthorizationMiddleware(['owner', 'editor'])
+);
+
+export const workspaceOwnerAuthorizationMiddleware = expressMiddlewareAdapter(
+  makeWorkspaceAuthorizationMiddleware(['owner'])
+);
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { expressRouteAdapter } from '@main/adapters/express-route-adapter';
+import { expressRouteSetCookieAdapter } from '@main/adapters/express-route-set-cookie-adapter';
+import { makeStartOidcSignInController } from '@main/factories/controllers/users/start-oidc-sign-in/controller-factory';
+import { makeCompleteOidcSignInController } from '@main/factories/controllers/users/complete-oidc-sign-in/controller-factory';
+
+export default (router: Router): void => {
+  router.get(
+    '/auth/:provider',
+    expressRouteAdapter(makeStartOidcSignInController())
+  );
+  router.post(
+    '/auth/:provider/callback',
+    expressRouteSetCookieAdapter(makeCompleteOidcSignInController())
+  );
+};
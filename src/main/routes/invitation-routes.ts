@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import { authMiddleware } from '@main/middlewares/auth-middleware';
+import { expressRouteAdapter } from '@main/adapters/express-route-adapter';
+import { makeGetInvitationsByUserIdController } from '@main/factories/controllers/invitations/get-invitations-by-user-id/controller-factory';
+import { makeAcceptInvitationController } from '@main/factories/controllers/invitations/accept-invitation/controller-factory';
+import { makeDeclineInvitationController } from '@main/factories/controllers/invitations/decline-invitation/controller-factory';
+
+export default (router: Router): void => {
+  router.get(
+    '/invitations',
+    authMiddleware,
+    expressRouteAdapter(makeGetInvitationsByUserIdController())
+  );
+  router.post(
+    '/invitations/:token/accept',
+    authMiddleware,
+    expressRouteAdapter(makeAcceptInvitationController())
+  );
+  router.post(
+    '/invitations/:token/decline',
+    authMiddleware,
+    expressRouteAdapter(makeDeclineInvitationController())
+  );
+};
@@ -1,43 +1,68 @@
 import { Router } from 'express';
 import { expressRouteAdapter } from '@main/adapters/express-route-adapter';
+import { makeAddPageGuestController } from '@main/factories/controllers/pages/add-page-guest/controller-factory';
 import { makeAddToFavoriteController } from '@main/factories/controllers/pages/add-to-favorite/controller-factory';
 import { makeCreatePageController } from '@main/factories/controllers/pages/create-page/controller-factory';
 import { makeDeletePageController } from '@main/factories/controllers/pages/delete-page/controller-factory';
 import { makeDeletePagesByWorkspaceIdController } from '@main/factories/controllers/pages/delete-pages-by-workspace-id/controller-factory';
 import { makeGetPageByIdController } from '@main/factories/controllers/pages/get-page-by-id/controller-factory';
+import { makeGetPageGuestsByPageIdController } from '@main/factories/controllers/pages/get-page-guests-by-page-id/controller-factory';
 import { makeGetPageContentByPageIdController } from '@main/factories/controllers/pages/get-page-content-by-page-id/controller-factory';
 import { makeGetPageSettingsByPageIdController } from '@main/factories/controllers/pages/get-page-settings-by-page-id/controller-factory';
+import { makeMovePageController } from '@main/factories/controllers/pages/move-page/controller-factory';
+import { makePublishPageController } from '@main/factories/controllers/pages/publish-page/controller-factory';
+import { makeRemovePageGuestController } from '@main/factories/controllers/pages/remove-page-guest/controller-factory';
 import { makeRemoveFromFavoriteController } from '@main/factories/controllers/pages/remove-from-favorite/controller-factory';
+import { makeUnpublishPageController } from '@main/factories/controllers/pages/unpublish-page/controller-factory';
 import { makeUpdatePageContentByPageIdController } from '@main/factories/controllers/pages/update-page-content-by-page-id/controller-factory';
 import { makeUpdatePageCoverByPageIdController } from '@main/factories/controllers/pages/update-page-cover-by-page-id/controller-factory';
 import { makeUpdatePageIconByPageIdController } from '@main/factories/controllers/pages/update-page-icon-by-page-id/controller-factory';
 import { makeUpdatePageSettingsByPageIdController } from '@main/factories/controllers/pages/update-page-settings-by-page-id/controller-factory';
 import { makeUpdatePageTitleByPageIdController } from '@main/factories/controllers/pages/update-page-title-by-page-id/controller-factory';
-import { authMiddleware } from '@main/middlewares/auth-middleware';
-import { authorizationMiddleware } from '@main/middlewares/authorization-middleware';
+import {
+  authMiddleware,
+  pagesReadAuthMiddleware,
+  pagesWriteAuthMiddleware,
+} from '@main/middlewares/auth-middleware';
+import {
+  authorizationMiddleware,
+  editorAuthorizationMiddleware,
+  pageSharingAuthorizationMiddleware,
+} from '@main/middlewares/authorization-middleware';
+import {
+  workspaceEditorAuthorizationMiddleware,
+  workspaceOwnerAuthorizationMiddleware,
+} from '@main/middlewares/workspace-authorization-middleware';
 
 export default (router: Router): void => {
   router.get(
     '/pages/:pageId',
-    authMiddleware,
+    pagesReadAuthMiddleware,
     authorizationMiddleware,
     expressRouteAdapter(makeGetPageByIdController())
   );
   router.get(
     '/pages/:pageId/content',
-    authMiddleware,
+    pagesReadAuthMiddleware,
     authorizationMiddleware,
     expressRouteAdapter(makeGetPageContentByPageIdController())
   );
   router.get(
     '/pages/:pageId/settings',
-    authMiddleware,
+    pagesReadAuthMiddleware,
     authorizationMiddleware,
     expressRouteAdapter(makeGetPageSettingsByPageIdController())
   );
+  router.get(
+    '/pages/:pageId/guests',
+    authMiddleware,
+    pageSharingAuthorizationMiddleware,
+    expressRouteAdapter(makeGetPageGuestsByPageIdController())
+  );
   router.post(
     '/pages',
     authMiddleware,
+    workspaceEditorAuthorizationMiddleware,
     expressRouteAdapter(makeCreatePageController())
   );
   router.post(
@@ -46,36 +71,54 @@ export default (router: Router): void => {
     authorizationMiddleware,
     expressRouteAdapter(makeAddToFavoriteController())
   );
+  router.post(
+    '/pages/:pageId/guests',
+    authMiddleware,
+    pageSharingAuthorizationMiddleware,
+    expressRouteAdapter(makeAddPageGuestController())
+  );
+  router.post(
+    '/pages/:pageId/move',
+    pagesWriteAuthMiddleware,
+    editorAuthorizationMiddleware,
+    expressRouteAdapter(makeMovePageController())
+  );
   router.patch(
     '/pages/:pageId/content',
-    authMiddleware,
-    authorizationMiddleware,
+    pagesWriteAuthMiddleware,
+    editorAuthorizationMiddleware,
     expressRouteAdapter(makeUpdatePageContentByPageIdController())
   );
   router.patch(
     '/pages/:pageId/cover',
-    authMiddleware,
-    authorizationMiddleware,
+    pagesWriteAuthMiddleware,
+    editorAuthorizationMiddleware,
     expressRouteAdapter(makeUpdatePageCoverByPageIdController())
   );
   router.patch(
     '/pages/:pageId/icon',
-    authMiddleware,
-    authorizationMiddleware,
+    pagesWriteAuthMiddleware,
+    editorAuthorizationMiddleware,
     expressRouteAdapter(makeUpdatePageIconByPageIdController())
   );
   router.patch(
     '/pages/:pageId/settings',
-    authMiddleware,
-    authorizationMiddleware,
+    pagesWriteAuthMiddleware,
+    editorAuthorizationMiddleware,
     expressRouteAdapter(makeUpdatePageSettingsByPageIdController())
   );
   router.patch(
     '/pages/:pageId/title',
-    authMiddleware,
-    authorizationMiddleware,
+    pagesWriteAuthMiddleware,
+    editorAuthorizationMiddleware,
     expressRouteAdapter(makeUpdatePageTitleByPageIdController())
   );
+  router.put(
+    '/pages/:pageId/publication',
+    pagesWriteAuthMiddleware,
+    pageSharingAuthorizationMiddleware,
+    expressRouteAdapter(makePublishPageController())
+  );
   router.delete(
     '/pages/:pageId/favorites',
     authMiddleware,
@@ -83,14 +126,27 @@ export default (router: Router): void => {
     expressRouteAdapter(makeRemoveFromFavoriteController())
   );
   router.delete(
-    '/pages/:pageId',
+    '/pages/:pageId/guests/:guestId',
     authMiddleware,
-    authorizationMiddleware,
+    pageSharingAuthorizationMiddleware,
+    expressRouteAdapter(makeRemovePageGuestController())
+  );
+  router.delete(
+    '/pages/:pageId/publication',
+    pagesWriteAuthMiddleware,
+    pageSharingAuthorizationMiddleware,
+    expressRouteAdapter(makeUnpublishPageController())
+  );
+  router.delete(
+    '/pages/:pageId',
+    pagesWriteAuthMiddleware,
+    editorAuthorizationMiddleware,
     expressRouteAdapter(makeDeletePageController())
   );
   router.delete(
     '/pages/all/:workspaceId',
     authMiddleware,
+    workspaceOwnerAuthorizationMiddleware,
     expressRouteAdapter(makeDeletePagesByWorkspaceIdController())
   );
 };
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { expressRouteAdapter } from '@main/adapters/express-route-adapter';
+import { makeGetPublicPageBySlugController } from '@main/factories/controllers/pages/get-public-page-by-slug/controller-factory';
+
+export default (router: Router): void => {
+  router.get(
+    '/public/pages/:slug',
+    expressRouteAdapter(makeGetPublicPageBySlugController())
+  );
+  router.get(
+    '/public/pages/:slug/pages/:pageId',
+    expressRouteAdapter(makeGetPublicPageBySlugController())
+  );
+};
@@ -13,29 +13,96 @@ import { makeUpdateUserProfilePictureController } from '@main/factories/controll
 import { makeGetUserByIdController } from '@main/factories/controllers/users/get-user-by-id/controller-factory';
 import { makeDeleteUserController } from '@main/factories/controllers/users/delete-user/controller-factory';
 import { authMiddleware } from '@main/middlewares/auth-middleware';
+import { userAuthorizationMiddleware } from '@main/middlewares/user-authorization-middleware';
 import { makeSignOutController } from '@main/factories/controllers/users/sign-out/controller-factory';
 import { makeGetAccessTokenController } from '@main/factories/controllers/users/get-access-token/controller-factory';
 import { expressRouteSetCookieAdapter } from '@main/adapters/express-route-set-cookie-adapter';
 import { expressRouteRemoveCookieAdapter } from '@main/adapters/express-route-remove-cookie-adapter';
+import { makeGetSessionsByUserIdController } from '@main/factories/controllers/users/get-sessions-by-user-id/controller-factory';
+import { makeGetAuditLogByUserIdController } from '@main/factories/controllers/users/get-audit-log-by-user-id/controller-factory';
+import { makeRevokeSessionController } from '@main/factories/controllers/users/revoke-session/controller-factory';
+import { makeSignOutEverywhereController } from '@main/factories/controllers/users/sign-out-everywhere/controller-factory';
+import { makeForgotPasswordController } from '@main/factories/controllers/users/forgot-password/controller-factory';
+import { makeResetPasswordController } from '@main/factories/controllers/users/reset-password/controller-factory';
+import { makeVerifyEmailController } from '@main/factories/controllers/users/verify-email/controller-factory';
+import { makeEnrollMfaController } from '@main/factories/controllers/users/enroll-mfa/controller-factory';
+import { makeConfirmMfaController } from '@main/factories/controllers/users/confirm-mfa/controller-factory';
+import { makeVerifyMfaController } from '@main/factories/controllers/users/verify-mfa/controller-factory';
+import { makeChangePasswordController } from '@main/factories/controllers/users/change-password/controller-factory';
+import { makeCreateApiTokenController } from '@main/factories/controllers/users/create-api-token/controller-factory';
+import { makeGetApiTokensByUserIdController } from '@main/factories/controllers/users/get-api-tokens-by-user-id/controller-factory';
+import { makeDeleteApiTokenController } from '@main/factories/controllers/users/delete-api-token/controller-factory';
+import { makeGetSharedPagesByUserIdController } from '@main/factories/controllers/users/get-shared-pages-by-user-id/controller-factory';
+import { makeRequestUserExportController } from '@main/factories/controllers/users/request-user-export/controller-factory';
+import { makeGetUserExportByIdController } from '@main/factories/controllers/users/get-user-export-by-id/controller-factory';
+import { makeDownloadUserExportController } from '@main/factories/controllers/users/download-user-export/controller-factory';
+import { expressRouteDownloadAdapter } from '@main/adapters/express-route-download-adapter';
+import { makeRestoreUserController } from '@main/factories/controllers/users/restore-user/controller-factory';
 
 export default (router: Router): void => {
   router.get(
     '/users/:userId/workspaces-access',
     authMiddleware,
+    userAuthorizationMiddleware,
     expressRouteAdapter(makeGetWorkspacesByUserIdController())
   );
   router.get(
     '/users/:userId/workspaces-access/:workspaceId/favorites',
     authMiddleware,
+    userAuthorizationMiddleware,
     expressRouteAdapter(makeGetFavoritesByWorkspaceIdController())
   );
+  router.get(
+    '/users/:userId/sessions',
+    authMiddleware,
+    userAuthorizationMiddleware,
+    expressRouteAdapter(makeGetSessionsByUserIdController())
+  );
+  router.get(
+    '/users/:userId/audit-log',
+    authMiddleware,
+    userAuthorizationMiddleware,
+    expressRouteAdapter(makeGetAuditLogByUserIdController())
+  );
+  router.get(
+    '/users/:userId/api-tokens',
+    authMiddleware,
+    userAuthorizationMiddleware,
+    expressRouteAdapter(makeGetApiTokensByUserIdController())
+  );
+  router.get(
+    '/users/:userId/shared-pages',
+    authMiddleware,
+    userAuthorizationMiddleware,
+    expressRouteAdapter(makeGetSharedPagesByUserIdController())
+  );
+  router.get(
+    '/users/:userId/export/:exportId',
+    authMiddleware,
+    userAuthorizationMiddleware,
+    expressRouteAdapter(makeGetUserExportByIdController())
+  );
+  router.get(
+    '/users/:userId/export/:exportId/download',
+    authMiddleware,
+    userAuthorizationMiddleware,
+    expressRouteDownloadAdapter(makeDownloadUserExportController())
+  );
   router.get(
     '/users/:userId',
     authMiddleware,
+    userAuthorizationMiddleware,
     expressRouteAdapter(makeGetUserByIdController())
   );
-  router.get('/token', expressRouteAdapter(makeGetAccessTokenController()));
+  router.get(
+    '/token',
+    expressRouteSetCookieAdapter(makeGetAccessTokenController())
+  );
   router.post('/login', expressRouteSetCookieAdapter(makeSignInController()));
+  router.post(
+    '/login/mfa',
+    expressRouteSetCookieAdapter(makeVerifyMfaController())
+  );
   router.post(
     '/logout',
     authMiddleware,
@@ -45,39 +112,112 @@ export default (router: Router): void => {
     '/register',
     expressRouteSetCookieAdapter(makeSignUpController())
   );
+  router.post(
+    '/verify-email',
+    expressRouteAdapter(makeVerifyEmailController())
+  );
+  router.post(
+    '/password/forgot',
+    expressRouteAdapter(makeForgotPasswordController())
+  );
+  router.post(
+    '/password/reset',
+    expressRouteAdapter(makeResetPasswordController())
+  );
+  router.post(
+    '/users/:userId/password',
+    authMiddleware,
+    userAuthorizationMiddleware,
+    expressRouteSetCookieAdapter(makeChangePasswordController())
+  );
+  router.post(
+    '/users/:userId/export',
+    authMiddleware,
+    userAuthorizationMiddleware,
+    expressRouteAdapter(makeRequestUserExportController())
+  );
+  router.post(
+    '/users/:userId/restore',
+    authMiddleware,
+    userAuthorizationMiddleware,
+    expressRouteAdapter(makeRestoreUserController())
+  );
+  router.post(
+    '/users/:userId/mfa',
+    authMiddleware,
+    userAuthorizationMiddleware,
+    expressRouteAdapter(makeEnrollMfaController())
+  );
+  router.post(
+    '/users/:userId/mfa/confirm',
+    authMiddleware,
+    userAuthorizationMiddleware,
+    expressRouteAdapter(makeConfirmMfaController())
+  );
+  router.post(
+    '/users/:userId/api-tokens',
+    authMiddleware,
+    userAuthorizationMiddleware,
+    expressRouteAdapter(makeCreateApiTokenController())
+  );
   router.post(
     '/users/:userId/workspaces-access/:workspaceId',
     authMiddleware,
+    userAuthorizationMiddleware,
     expressRouteAdapter(makeAddWorkspaceByUserIdController())
   );
   router.post(
     '/users/:userId/workspaces-access/:workspaceId/favorites/:pageId',
     authMiddleware,
+    userAuthorizationMiddleware,
     expressRouteAdapter(makeAddPageIdToFavoritesByWorkspaceIdController())
   );
   router.patch(
     '/users/:userId',
     authMiddleware,
+    userAuthorizationMiddleware,
     expressRouteAdapter(makeUpdateUserController())
   );
   router.patch(
     '/users/:userId/profile-picture',
     authMiddleware,
+    userAuthorizationMiddleware,
     expressRouteAdapter(makeUpdateUserProfilePictureController())
   );
   router.delete(
     '/users/:userId/workspaces-access/:workspaceId',
     authMiddleware,
+    userAuthorizationMiddleware,
     expressRouteAdapter(makeRemoveWorkspaceByUserIdController())
   );
   router.delete(
     '/users/:userId/workspaces-access/:workspaceId/favorites/:pageId',
     authMiddleware,
+    userAuthorizationMiddleware,
     expressRouteAdapter(makeRemovePageIdFromFavoritesByWorkspaceIdController())
   );
+  router.delete(
+    '/users/:userId/sessions/:sessionId',
+    authMiddleware,
+    userAuthorizationMiddleware,
+    expressRouteAdapter(makeRevokeSessionController())
+  );
+  router.delete(
+    '/users/:userId/sessions',
+    authMiddleware,
+    userAuthorizationMiddleware,
+    expressRouteRemoveCookieAdapter(makeSignOutEverywhereController())
+  );
+  router.delete(
+    '/users/:userId/api-tokens/:apiTokenId',
+    authMiddleware,
+    userAuthorizationMiddleware,
+    expressRouteAdapter(makeDeleteApiTokenController())
+  );
   router.delete(
     '/users/:userId',
     authMiddleware,
+    userAuthorizationMiddleware,
     expressRouteAdapter(makeDeleteUserController())
   );
 };
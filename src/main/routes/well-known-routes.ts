@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import { expressRouteAdapter } from '@main/adapters/express-route-adapter';
+import { makeGetJsonWebKeySetController } from '@main/factories/controllers/users/get-json-web-key-set/controller-factory';
+
+export default (router: Router): void => {
+  router.get(
+    '/jwks.json',
+    expressRouteAdapter(makeGetJsonWebKeySetController())
+  );
+};
@@ -1,5 +1,13 @@
 import { Router } from 'express';
-import { authMiddleware } from '@main/middlewares/auth-middleware';
+import {
+  authMiddleware,
+  pagesReadAuthMiddleware,
+} from '@main/middlewares/auth-middleware';
+import {
+  workspaceAuthorizationMiddleware,
+  workspaceEditorAuthorizationMiddleware,
+  workspaceOwnerAuthorizationMiddleware,
+} from '@main/middlewares/workspace-authorization-middleware';
 import { expressRouteAdapter } from '@main/adapters/express-route-adapter';
 import { makeAddPageController } from '@main/factories/controllers/workspaces/add-page/controller-factory';
 import { makeGetAllRootPagesController } from '@main/factories/controllers/workspaces/get-all-root-pages/controller-factory';
@@ -8,32 +16,62 @@ import { makeGetWorkspaceByIdController } from '@main/factories/controllers/work
 import { makeAddMemberByWorkspaceIdController } from '@main/factories/controllers/workspaces/add-member-by-workspace-id/controller-factory';
 import { makeGetAllMembersByWorkspaceIdController } from '@main/factories/controllers/workspaces/get-all-members-by-workspace-id/controller-factory';
 import { makeGetChildrensByPageReferenceController } from '@main/factories/controllers/workspaces/get-childrens-by-page-reference/controller-factory';
+import { makeGetPageTreeByWorkspaceIdController } from '@main/factories/controllers/workspaces/get-page-tree-by-workspace-id/controller-factory';
 import { makeDeleteWorkspaceController } from '@main/factories/controllers/workspaces/delete-workspace/controller-factory';
 import { makeRemovePageByPageIdController } from '@main/factories/controllers/workspaces/remove-page-by-page-id/controller-factory';
 import { makeRemoveMemberByWorkspaceIdController } from '@main/factories/controllers/workspaces/remove-member-by-workspace-id/controller-factory';
 import { makeUpdateWorkspaceController } from '@main/factories/controllers/workspaces/update-workspace/controller-factory';
+import { makeUpdateMemberRoleByWorkspaceIdController } from '@main/factories/controllers/workspaces/update-member-role-by-workspace-id/controller-factory';
+import { makeCreateInvitationController } from '@main/factories/controllers/invitations/create-invitation/controller-factory';
+import { makeGetAuditLogByWorkspaceIdController } from '@main/factories/controllers/workspaces/get-audit-log-by-workspace-id/controller-factory';
+import { makeGetTrashByWorkspaceIdController } from '@main/factories/controllers/workspaces/get-trash-by-workspace-id/controller-factory';
+import { makeRestorePageController } from '@main/factories/controllers/workspaces/restore-page/controller-factory';
+import { makePurgePageController } from '@main/factories/controllers/workspaces/purge-page/controller-factory';
+import { makeUpdatePagePositionByPageIdController } from '@main/factories/controllers/workspaces/update-page-position-by-page-id/controller-factory';
 
 export default (router: Router): void => {
   router.get(
     '/workspaces/:workspaceId',
     authMiddleware,
+    workspaceAuthorizationMiddleware,
     expressRouteAdapter(makeGetWorkspaceByIdController())
   );
   router.get(
     '/workspaces/:workspaceId/members',
     authMiddleware,
+    workspaceAuthorizationMiddleware,
     expressRouteAdapter(makeGetAllMembersByWorkspaceIdController())
   );
   router.get(
-    '/workspaces/:workspaceId/pages/root',
+    '/workspaces/:workspaceId/audit-log',
+    authMiddleware,
+    workspaceOwnerAuthorizationMiddleware,
+    expressRouteAdapter(makeGetAuditLogByWorkspaceIdController())
+  );
+  router.get(
+    '/workspaces/:workspaceId/trash',
     authMiddleware,
+    workspaceAuthorizationMiddleware,
+    expressRouteAdapter(makeGetTrashByWorkspaceIdController())
+  );
+  router.get(
+    '/workspaces/:workspaceId/pages/root',
+    pagesReadAuthMiddleware,
+    workspaceAuthorizationMiddleware,
     expressRouteAdapter(makeGetAllRootPagesController())
   );
   router.get(
     '/workspaces/:workspaceId/pages/:pageReference/childrens',
-    authMiddleware,
+    pagesReadAuthMiddleware,
+    workspaceAuthorizationMiddleware,
     expressRouteAdapter(makeGetChildrensByPageReferenceController())
   );
+  router.get(
+    '/workspaces/:workspaceId/tree',
+    pagesReadAuthMiddleware,
+    workspaceAuthorizationMiddleware,
+    expressRouteAdapter(makeGetPageTreeByWorkspaceIdController())
+  );
   router.post(
     '/workspaces',
     authMiddleware,
@@ -42,31 +80,67 @@ export default (router: Router): void => {
   router.post(
     '/workspaces/:workspaceId/pages',
     authMiddleware,
+    workspaceEditorAuthorizationMiddleware,
     expressRouteAdapter(makeAddPageController())
   );
   router.post(
     '/workspaces/:workspaceId/members/:memberId',
     authMiddleware,
+    workspaceOwnerAuthorizationMiddleware,
     expressRouteAdapter(makeAddMemberByWorkspaceIdController())
   );
+  router.post(
+    '/workspaces/:workspaceId/invitations',
+    authMiddleware,
+    workspaceOwnerAuthorizationMiddleware,
+    expressRouteAdapter(makeCreateInvitationController())
+  );
+  router.post(
+    '/workspaces/:workspaceId/trash/:pageId/restore',
+    authMiddleware,
+    workspaceEditorAuthorizationMiddleware,
+    expressRouteAdapter(makeRestorePageController())
+  );
+  router.patch(
+    '/workspaces/:workspaceId/members/:memberId',
+    authMiddleware,
+    workspaceOwnerAuthorizationMiddleware,
+    expressRouteAdapter(makeUpdateMemberRoleByWorkspaceIdController())
+  );
+  router.patch(
+    '/workspaces/:workspaceId/pages/:pageId/position',
+    authMiddleware,
+    workspaceEditorAuthorizationMiddleware,
+    expressRouteAdapter(makeUpdatePagePositionByPageIdController())
+  );
   router.patch(
     '/workspaces/:workspaceId',
     authMiddleware,
+    workspaceEditorAuthorizationMiddleware,
     expressRouteAdapter(makeUpdateWorkspaceController())
   );
   router.delete(
     '/workspaces/:workspaceId/pages/:pageId',
     authMiddleware,
+    workspaceEditorAuthorizationMiddleware,
     expressRouteAdapter(makeRemovePageByPageIdController())
   );
+  router.delete(
+    '/workspaces/:workspaceId/trash/:pageId',
+    authMiddleware,
+    workspaceEditorAuthorizationMiddleware,
+    expressRouteAdapter(makePurgePageController())
+  );
   router.delete(
     '/workspaces/:workspaceId/members/:memberId',
     authMiddleware,
+    workspaceAuthorizationMiddleware,
     expressRouteAdapter(makeRemoveMemberByWorkspaceIdController())
   );
   router.delete(
     '/workspaces/:workspaceId',
     authMiddleware,
+    workspaceOwnerAuthorizationMiddleware,
     expressRouteAdapter(makeDeleteWorkspaceController())
   );
 };
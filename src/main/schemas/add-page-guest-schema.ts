@@ -0,0 +1,14 @@
+export const addPageGuestSchema = {
+  type: 'object',
+  properties: {
+    email: {
+      type: 'string',
+      format: 'email',
+    },
+    role: {
+      type: 'string',
+      enum: ['editor', 'commenter', 'viewer'],
+    },
+  },
+  required: ['email', 'role'],
+};
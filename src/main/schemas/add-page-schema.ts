@@ -10,9 +10,9 @@ export const addPageSchema = {
     icon: {
       type: 'string',
     },
-    path: {
+    parentId: {
       type: ['string', 'null'],
     },
   },
-  required: ['id', 'reference', 'icon', 'path'],
+  required: ['id', 'reference', 'icon', 'parentId'],
 };
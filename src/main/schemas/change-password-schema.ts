@@ -0,0 +1,14 @@
+export const changePasswordSchema = {
+  type: 'object',
+  properties: {
+    currentPassword: {
+      type: 'string',
+    },
+    newPassword: {
+      type: 'string',
+      minLength: 6,
+      maxLength: 20,
+    },
+  },
+  required: ['currentPassword', 'newPassword'],
+};
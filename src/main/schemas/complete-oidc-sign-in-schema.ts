@@ -0,0 +1,14 @@
+export const completeOidcSignInSchema = {
+  type: 'object',
+  properties: {
+    code: {
+      type: 'string',
+      minLength: 1,
+    },
+    state: {
+      type: 'string',
+      minLength: 1,
+    },
+  },
+  required: ['code', 'state'],
+};
@@ -0,0 +1,10 @@
+export const confirmMfaSchema = {
+  type: 'object',
+  properties: {
+    code: {
+      type: 'string',
+      pattern: '^[0-9]{6}$',
+    },
+  },
+  required: ['code'],
+};
@@ -0,0 +1,28 @@
+export const createApiTokenSchema = {
+  type: 'object',
+  properties: {
+    name: {
+      type: 'string',
+      minLength: 1,
+      maxLength: 100,
+    },
+    scopes: {
+      type: 'array',
+      items: {
+        type: 'string',
+        enum: ['pages:read', 'pages:write'],
+      },
+      minItems: 1,
+      uniqueItems: true,
+    },
+    workspaceId: {
+      type: 'string',
+    },
+    expiresInDays: {
+      type: 'integer',
+      minimum: 1,
+      maximum: 365,
+    },
+  },
+  required: ['name', 'scopes'],
+};
@@ -0,0 +1,14 @@
+export const createInvitationSchema = {
+  type: 'object',
+  properties: {
+    email: {
+      type: 'string',
+      format: 'email',
+    },
+    role: {
+      type: 'string',
+      enum: ['owner', 'editor', 'commenter', 'viewer'],
+    },
+  },
+  required: ['email', 'role'],
+};
@@ -52,7 +52,7 @@ export const createPageSchema = {
       },
       required: ['font', 'smallText', 'fullWidth', 'lock'],
     },
-    path: {
+    parentId: {
       type: ['string', 'null'],
     },
     workspaceId: {
@@ -66,7 +66,7 @@ export const createPageSchema = {
     'content',
     'favorite',
     'pageSettings',
-    'path',
+    'parentId',
     'workspaceId',
   ],
 };
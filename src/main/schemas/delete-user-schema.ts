@@ -0,0 +1,9 @@
+export const deleteUserSchema = {
+  type: 'object',
+  properties: {
+    password: {
+      type: 'string',
+    },
+  },
+  additionalProperties: false,
+};
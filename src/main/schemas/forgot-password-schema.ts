@@ -0,0 +1,10 @@
+export const forgotPasswordSchema = {
+  type: 'object',
+  properties: {
+    email: {
+      type: 'string',
+      format: 'email',
+    },
+  },
+  required: ['email'],
+};
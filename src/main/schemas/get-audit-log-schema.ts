@@ -0,0 +1,41 @@
+export const getAuditLogSchema = {
+  type: 'object',
+  properties: {
+    action: {
+      type: 'string',
+      enum: [
+        'workspace.update',
+        'workspace.delete',
+        'workspace.pages_delete',
+        'workspace.member_add',
+        'workspace.member_remove',
+        'workspace.member_role_update',
+        'page.delete',
+        'page.restore',
+        'page.purge',
+        'page.settings_update',
+      ],
+    },
+    actorId: {
+      type: 'string',
+    },
+    from: {
+      type: 'string',
+      format: 'date-time',
+    },
+    to: {
+      type: 'string',
+      format: 'date-time',
+    },
+    cursor: {
+      type: 'string',
+      pattern: '^[0-9a-fA-F]{24}$',
+    },
+    // query values arrive as strings, so the range is spelled out: 1 to 100
+    limit: {
+      type: 'string',
+      pattern: '^([1-9][0-9]?|100)$',
+    },
+  },
+  additionalProperties: false,
+};
@@ -0,0 +1,15 @@
+export const getPageTreeSchema = {
+  type: 'object',
+  properties: {
+    // query values arrive as strings, so the range is spelled out: 1 to 10
+    depth: {
+      type: 'string',
+      pattern: '^([1-9]|10)$',
+    },
+    root: {
+      type: 'string',
+      minLength: 1,
+    },
+  },
+  additionalProperties: false,
+};
@@ -0,0 +1,36 @@
+export const getUserAuditLogSchema = {
+  type: 'object',
+  properties: {
+    action: {
+      type: 'string',
+      enum: [
+        'user.sign_in',
+        'user.sign_out',
+        'user.sign_out_everywhere',
+        'user.delete',
+        'user.restore',
+        'session.revoke',
+        'api_token.revoke',
+        'workspace.delete',
+      ],
+    },
+    from: {
+      type: 'string',
+      format: 'date-time',
+    },
+    to: {
+      type: 'string',
+      format: 'date-time',
+    },
+    cursor: {
+      type: 'string',
+      pattern: '^[0-9a-fA-F]{24}$',
+    },
+    // query values arrive as strings, so the range is spelled out: 1 to 100
+    limit: {
+      type: 'string',
+      pattern: '^([1-9][0-9]?|100)$',
+    },
+  },
+  additionalProperties: false,
+};
@@ -0,0 +1,13 @@
+export const movePageSchema = {
+  type: 'object',
+  properties: {
+    parentId: {
+      type: ['string', 'null'],
+    },
+    workspaceId: {
+      type: 'string',
+    },
+  },
+  required: ['parentId'],
+  additionalProperties: false,
+};
@@ -0,0 +1,17 @@
+export const publishPageSchema = {
+  type: 'object',
+  properties: {
+    includeChildren: {
+      type: 'boolean',
+    },
+    allowIndexing: {
+      type: 'boolean',
+    },
+    expiresInDays: {
+      type: 'integer',
+      minimum: 1,
+      maximum: 365,
+    },
+  },
+  additionalProperties: false,
+};
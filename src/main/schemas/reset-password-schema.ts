@@ -0,0 +1,14 @@
+export const resetPasswordSchema = {
+  type: 'object',
+  properties: {
+    token: {
+      type: 'string',
+    },
+    password: {
+      type: 'string',
+      minLength: 6,
+      maxLength: 20,
+    },
+  },
+  required: ['token', 'password'],
+};
@@ -0,0 +1,10 @@
+export const updateMemberRoleSchema = {
+  type: 'object',
+  properties: {
+    role: {
+      type: 'string',
+      enum: ['owner', 'editor', 'commenter', 'viewer'],
+    },
+  },
+  required: ['role'],
+};
@@ -0,0 +1,13 @@
+export const updatePagePositionSchema = {
+  type: 'object',
+  properties: {
+    afterPageId: {
+      type: ['string', 'null'],
+    },
+    beforePageId: {
+      type: ['string', 'null'],
+    },
+  },
+  minProperties: 1,
+  additionalProperties: false,
+};
@@ -8,14 +8,11 @@ export const updateUserSchema = {
       type: 'string',
       format: 'email',
     },
-    password: {
-      type: 'string',
-      minLength: 6,
-      maxLength: 20,
-    },
     isDarkMode: {
       type: 'boolean',
     },
   },
   required: [],
+  // the password has its own route, which checks the current one first
+  additionalProperties: false,
 };
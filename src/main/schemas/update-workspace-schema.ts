@@ -9,4 +9,5 @@ export const updateWorkspaceSchema = {
     },
   },
   required: [],
+  additionalProperties: false,
 };
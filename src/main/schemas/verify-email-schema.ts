@@ -0,0 +1,9 @@
+export const verifyEmailSchema = {
+  type: 'object',
+  properties: {
+    token: {
+      type: 'string',
+    },
+  },
+  required: ['token'],
+};
@@ -0,0 +1,14 @@
+export const verifyMfaSchema = {
+  type: 'object',
+  properties: {
+    mfaToken: {
+      type: 'string',
+    },
+    code: {
+      type: 'string',
+      minLength: 6,
+      maxLength: 20,
+    },
+  },
+  required: ['mfaToken', 'code'],
+};
@@ -1,11 +1,24 @@
 import 'module-alias/register';
 import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import { runMigrations } from '@infrastructure/db/mongodb/migrations';
 import env from '@main/config/env';
+import checkEnv from '@main/config/check-env';
 import setupApp from '@main/config/app';
+import schedulePurgeDeletedUsers from '@main/jobs/purge-deleted-users-job';
+import scheduleGenerateUserExports from '@main/jobs/generate-user-exports-job';
+import schedulePurgeTrashedPages from '@main/jobs/purge-trashed-pages-job';
+import schedulePurgeExpiredUserExports from '@main/jobs/purge-expired-user-exports-job';
+
+checkEnv();
 
 dbConnection
   .connect(env.mongoUrl)
   .then(async () => {
+    await runMigrations();
+    schedulePurgeDeletedUsers();
+    scheduleGenerateUserExports();
+    schedulePurgeTrashedPages();
+    schedulePurgeExpiredUserExports();
     const app = setupApp();
     app.listen(env.port, () => {
       // eslint-disable-next-line no-console
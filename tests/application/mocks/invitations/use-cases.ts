@@ -0,0 +1,39 @@
+/* eslint-disable @typescript-eslint/no-empty-function */
+/* eslint-disable max-classes-per-file */
+/* eslint-disable @typescript-eslint/no-unused-vars */
+import { AcceptInvitationInterface } from '@application/interfaces/use-cases/invitations/AcceptInvitationInterface';
+import { CreateInvitationInterface } from '@application/interfaces/use-cases/invitations/CreateInvitationInterface';
+import { DeclineInvitationInterface } from '@application/interfaces/use-cases/invitations/DeclineInvitationInterface';
+import { GetInvitationsByUserIdInterface } from '@application/interfaces/use-cases/invitations/GetInvitationsByUserIdInterface';
+import mockInvitation from '@tests/domain/mock-invitation';
+
+export class CreateInvitationStub implements CreateInvitationInterface {
+  async execute(
+    _params: CreateInvitationInterface.Request
+  ): Promise<CreateInvitationInterface.Response> {
+    const { id } = mockInvitation();
+    return id;
+  }
+}
+
+export class GetInvitationsByUserIdStub
+  implements GetInvitationsByUserIdInterface
+{
+  async execute(
+    _userId: GetInvitationsByUserIdInterface.Request
+  ): Promise<GetInvitationsByUserIdInterface.Response> {
+    return [mockInvitation()];
+  }
+}
+
+export class AcceptInvitationStub implements AcceptInvitationInterface {
+  async execute(
+    _params: AcceptInvitationInterface.Request
+  ): Promise<AcceptInvitationInterface.Response> {}
+}
+
+export class DeclineInvitationStub implements DeclineInvitationInterface {
+  async execute(
+    _params: DeclineInvitationInterface.Request
+  ): Promise<DeclineInvitationInterface.Response> {}
+}
@@ -1,6 +1,7 @@
 /* eslint-disable max-classes-per-file */
 /* eslint-disable @typescript-eslint/no-unused-vars */
 /* eslint-disable @typescript-eslint/no-empty-function */
+import { AddPageGuestInterface } from '@application/interfaces/use-cases/pages/addPageGuestInterface';
 import { AddToFavoriteInterface } from '@application/interfaces/use-cases/pages/addToFavoriteInterface';
 import { AuthorizationInterface } from '@application/interfaces/use-cases/pages/authorizationInterface';
 import { CreatePageInterface } from '@application/interfaces/use-cases/pages/createPageInterface';
@@ -8,16 +9,27 @@ import { DeletePageInterface } from '@application/interfaces/use-cases/pages/del
 import { DeletePagesByWorkspaceIdInterface } from '@application/interfaces/use-cases/pages/deletePagesByWorkspaceIdInterface';
 import { GetPageByIdInterface } from '@application/interfaces/use-cases/pages/getPageByIdInterface';
 import { GetPageContentByPageIdInterface } from '@application/interfaces/use-cases/pages/getPageContentByPageIdInterface';
-import { GetPageIdsByPathInterface } from '@application/interfaces/use-cases/pages/getPageIdsByPathInterface';
+import { GetPageGuestsByPageIdInterface } from '@application/interfaces/use-cases/pages/getPageGuestsByPageIdInterface';
+import { GetPublicPageBySlugInterface } from '@application/interfaces/use-cases/pages/getPublicPageBySlugInterface';
 import { GetPageSettingsByPageIdInterface } from '@application/interfaces/use-cases/pages/getPageSettingsByPageIdInterface';
+import { MovePageInterface } from '@application/interfaces/use-cases/pages/movePageInterface';
 import { RemoveFromFavoriteInterface } from '@application/interfaces/use-cases/pages/removeFromFavoriteInterface';
 import { UpdatePageContentByPageIdInterface } from '@application/interfaces/use-cases/pages/updatePageContentByPageIdInterface';
 import { UpdatePageCoverByPageIdInterface } from '@application/interfaces/use-cases/pages/updatePageCoverByPageIdInterface';
 import { UpdatePageIconByPageIdInterface } from '@application/interfaces/use-cases/pages/updatePageIconByPageIdInterface';
-import { UpdatePagePathByPageIdInterface } from '@application/interfaces/use-cases/pages/updatePagePathByPageIdInterface';
 import { UpdatePageSettingsByPageIdInterface } from '@application/interfaces/use-cases/pages/updatePageSettingsByPageIdInterface';
 import { UpdatePageTitleByPageIdInterface } from '@application/interfaces/use-cases/pages/updatePageTitleByPageIdInterface';
-import mockPage from '@tests/domain/mock-page';
+import { PublishPageInterface } from '@application/interfaces/use-cases/pages/publishPageInterface';
+import { UnpublishPageInterface } from '@application/interfaces/use-cases/pages/unpublishPageInterface';
+import { RemovePageGuestInterface } from '@application/interfaces/use-cases/pages/removePageGuestInterface';
+import { GetTrashByWorkspaceIdInterface } from '@application/interfaces/use-cases/pages/getTrashByWorkspaceIdInterface';
+import { RestorePageInterface } from '@application/interfaces/use-cases/pages/restorePageInterface';
+import { PurgePageInterface } from '@application/interfaces/use-cases/pages/purgePageInterface';
+import mockPage, {
+  mockPublishedPage,
+  mockTrashedPage,
+} from '@tests/domain/mock-page';
+import mockPageGuest from '@tests/domain/mock-page-guest';
 
 export class AuthorizationStub implements AuthorizationInterface {
   async execute(
@@ -45,14 +57,17 @@ export class CreatePageStub implements CreatePageInterface {
 export class DeletePageStub implements DeletePageInterface {
   async execute(
     _pageId: DeletePageInterface.Request
-  ): Promise<DeletePageInterface.Response> {}
+  ): Promise<DeletePageInterface.Response> {
+    const { id } = mockPage();
+    return [id];
+  }
 }
 
 export class DeletePagesByWorkspaceIdStub
   implements DeletePagesByWorkspaceIdInterface
 {
   async execute(
-    _workspaceId: DeletePagesByWorkspaceIdInterface.Request
+    _params: DeletePagesByWorkspaceIdInterface.Request
   ): Promise<DeletePagesByWorkspaceIdInterface.Response> {}
 }
 
@@ -87,14 +102,6 @@ export class GetPageSettingsByPageIdStub
   }
 }
 
-export class GetPageIdsByPathStub implements GetPageIdsByPathInterface {
-  async execute(
-    _path: GetPageIdsByPathInterface.Request
-  ): Promise<GetPageIdsByPathInterface.Response> {
-    return ['112233445566778899bbccaa'];
-  }
-}
-
 export class RemoveFromFavoriteStub implements RemoveFromFavoriteInterface {
   async execute(
     _params: RemoveFromFavoriteInterface.Request
@@ -156,13 +163,88 @@ export class UpdatePageTitleByPageIdStub
   }
 }
 
-export class UpdatePagePathByPageIdStub
-  implements UpdatePagePathByPageIdInterface
+export class AddPageGuestStub implements AddPageGuestInterface {
+  async execute(
+    _params: AddPageGuestInterface.Request
+  ): Promise<AddPageGuestInterface.Response> {}
+}
+
+export class GetPageGuestsByPageIdStub
+  implements GetPageGuestsByPageIdInterface
 {
   async execute(
-    _params: UpdatePagePathByPageIdInterface.Request
-  ): Promise<UpdatePagePathByPageIdInterface.Response> {
+    _pageId: GetPageGuestsByPageIdInterface.Request
+  ): Promise<GetPageGuestsByPageIdInterface.Response> {
+    return [mockPageGuest()];
+  }
+}
+
+export class RemovePageGuestStub implements RemovePageGuestInterface {
+  async execute(
+    _params: RemovePageGuestInterface.Request
+  ): Promise<RemovePageGuestInterface.Response> {}
+}
+
+export class PublishPageStub implements PublishPageInterface {
+  async execute(
+    _params: PublishPageInterface.Request
+  ): Promise<PublishPageInterface.Response> {
+    return mockPublishedPage().publication!;
+  }
+}
+
+export class UnpublishPageStub implements UnpublishPageInterface {
+  async execute(
+    _pageId: UnpublishPageInterface.Request
+  ): Promise<UnpublishPageInterface.Response> {}
+}
+
+export class GetPublicPageBySlugStub implements GetPublicPageBySlugInterface {
+  async execute(
+    _params: GetPublicPageBySlugInterface.Request
+  ): Promise<GetPublicPageBySlugInterface.Response> {
+    const { id, title, icon, coverPicture, content } = mockPublishedPage();
+    return {
+      id,
+      title,
+      icon,
+      coverPicture,
+      content,
+      allowIndexing: false,
+      children: [],
+    };
+  }
+}
+
+export class MovePageStub implements MovePageInterface {
+  async execute(
+    _params: MovePageInterface.Request
+  ): Promise<MovePageInterface.Response> {
     const page = mockPage();
-    return page;
+    return { previousWorkspaceId: page.workspaceId, pages: [page] };
+  }
+}
+
+export class GetTrashByWorkspaceIdStub
+  implements GetTrashByWorkspaceIdInterface
+{
+  async execute(
+    _workspaceId: GetTrashByWorkspaceIdInterface.Request
+  ): Promise<GetTrashByWorkspaceIdInterface.Response> {
+    return [mockTrashedPage()];
+  }
+}
+
+export class RestorePageStub implements RestorePageInterface {
+  async execute(
+    _params: RestorePageInterface.Request
+  ): Promise<RestorePageInterface.Response> {
+    return [mockPage()];
   }
 }
+
+export class PurgePageStub implements PurgePageInterface {
+  async execute(
+    _params: PurgePageInterface.Request
+  ): Promise<PurgePageInterface.Response> {}
+}
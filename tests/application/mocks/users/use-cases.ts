@@ -6,25 +6,66 @@ import { AddPageIdToFavoritesByWorkspaceIdInterface } from '@application/interfa
 import { AddWorkspaceByUserIdInterface } from '@application/interfaces/use-cases/users/AddWorkspaceByUserIdInterface';
 import { AuthenticateInterface } from '@application/interfaces/use-cases/users/AuthenticateInterface';
 import { DeleteUserInterface } from '@application/interfaces/use-cases/users/DeleteUserInterface';
+import { PurgeUserInterface } from '@application/interfaces/use-cases/users/PurgeUserInterface';
+import { RestoreUserInterface } from '@application/interfaces/use-cases/users/RestoreUserInterface';
 import { GetAccessTokenInterface } from '@application/interfaces/use-cases/users/GetAccessTokenInterface';
+import { GetSessionsByUserIdInterface } from '@application/interfaces/use-cases/users/GetSessionsByUserIdInterface';
+import { GetAuditLogByUserIdInterface } from '@application/interfaces/use-cases/users/GetAuditLogByUserIdInterface';
 import { GetFavoritesByWorkspaceIdInterface } from '@application/interfaces/use-cases/users/GetFavoritesByWorkspaceIdInterface';
 import { GetUserByIdInterface } from '@application/interfaces/use-cases/users/GetUserByIdInterface';
 import { GetWorkspacesByUserIdInterface } from '@application/interfaces/use-cases/users/GetWorkspacesByUserIdInterface';
 import { RemovePageIdFromFavoritesByWorkspaceIdInterface } from '@application/interfaces/use-cases/users/RemovePageIdFromFavoritesByWorkspaceIdInterface';
 import { RemoveWorkspaceByUserIdInterface } from '@application/interfaces/use-cases/users/RemoveWorkspaceByUserIdInterface';
+import { RevokeSessionInterface } from '@application/interfaces/use-cases/users/RevokeSessionInterface';
 import { SignInInterface } from '@application/interfaces/use-cases/users/SignInInterface';
 import { SignOutInterface } from '@application/interfaces/use-cases/users/SignOutInterface';
+import { SignOutEverywhereInterface } from '@application/interfaces/use-cases/users/SignOutEverywhereInterface';
 import { SignUpInterface } from '@application/interfaces/use-cases/users/SignUpInterface';
 import { UpdateUserInterface } from '@application/interfaces/use-cases/users/UpdateUserInterface';
 import { UpdateUserProfilePictureInterface } from '@application/interfaces/use-cases/users/UpdateUserProfilePictureInterface';
+import { UserAuthorizationInterface } from '@application/interfaces/use-cases/users/UserAuthorizationInterface';
 import { UpdateUserWorkspaceMetaDataByWorkspaceIdInterface } from '@application/interfaces/use-cases/users/UpdateUserWorkspaceMetaDataByWorkspaceIdInterface';
+import { ChangePasswordInterface } from '@application/interfaces/use-cases/users/ChangePasswordInterface';
+import { ForgotPasswordInterface } from '@application/interfaces/use-cases/users/ForgotPasswordInterface';
+import { ResetPasswordInterface } from '@application/interfaces/use-cases/users/ResetPasswordInterface';
+import { SendEmailVerificationInterface } from '@application/interfaces/use-cases/users/SendEmailVerificationInterface';
+import { VerifyEmailInterface } from '@application/interfaces/use-cases/users/VerifyEmailInterface';
+import { EnrollMfaInterface } from '@application/interfaces/use-cases/users/EnrollMfaInterface';
+import { ConfirmMfaInterface } from '@application/interfaces/use-cases/users/ConfirmMfaInterface';
+import { VerifyMfaInterface } from '@application/interfaces/use-cases/users/VerifyMfaInterface';
+import { StartOidcSignInInterface } from '@application/interfaces/use-cases/users/StartOidcSignInInterface';
+import { CompleteOidcSignInInterface } from '@application/interfaces/use-cases/users/CompleteOidcSignInInterface';
+import { SignUpWithIdentityInterface } from '@application/interfaces/use-cases/users/SignUpWithIdentityInterface';
+import { CreateSessionInterface } from '@application/interfaces/use-cases/users/CreateSessionInterface';
+import { CreateApiTokenInterface } from '@application/interfaces/use-cases/users/CreateApiTokenInterface';
+import { GetApiTokensByUserIdInterface } from '@application/interfaces/use-cases/users/GetApiTokensByUserIdInterface';
+import { DeleteApiTokenInterface } from '@application/interfaces/use-cases/users/DeleteApiTokenInterface';
+import { GetJsonWebKeySetInterface } from '@application/interfaces/use-cases/users/GetJsonWebKeySetInterface';
+import { GetSharedPagesByUserIdInterface } from '@application/interfaces/use-cases/users/GetSharedPagesByUserIdInterface';
+import { RequestUserExportInterface } from '@application/interfaces/use-cases/users/RequestUserExportInterface';
+import { GetUserExportByIdInterface } from '@application/interfaces/use-cases/users/GetUserExportByIdInterface';
+import { DownloadUserExportInterface } from '@application/interfaces/use-cases/users/DownloadUserExportInterface';
 import mockUser from '@tests/domain/mock-user';
+import mockUserExport, {
+  mockPendingUserExport,
+} from '@tests/domain/mock-user-export';
+import mockApiToken from '@tests/domain/mock-api-token';
+import mockPage from '@tests/domain/mock-page';
+import mockAuditLogEntry from '@tests/domain/mock-audit-log-entry';
 
 export class AuthenticateStub implements AuthenticateInterface {
   async execute(
     _authenticationToken: string
   ): Promise<AuthenticateInterface.Response> {
-    return 'sample_token';
+    return { userId: 'sample-user-id' };
+  }
+}
+
+export class UserAuthorizationStub implements UserAuthorizationInterface {
+  async execute(
+    _params: UserAuthorizationInterface.Request
+  ): Promise<UserAuthorizationInterface.Response> {
+    return 'sample-user-id';
   }
 }
 
@@ -54,12 +95,48 @@ export class SignOutStub implements SignOutInterface {
   ): Promise<SignOutInterface.Response> {}
 }
 
+export class SignOutEverywhereStub implements SignOutEverywhereInterface {
+  async execute(
+    _userId: SignOutEverywhereInterface.Request
+  ): Promise<SignOutEverywhereInterface.Response> {}
+}
+
+export class GetSessionsByUserIdStub implements GetSessionsByUserIdInterface {
+  async execute(
+    _userId: GetSessionsByUserIdInterface.Request
+  ): Promise<GetSessionsByUserIdInterface.Response> {
+    return [
+      {
+        id: 'sample-family',
+        userAgent: 'sample-user-agent',
+        ip: '127.0.0.1',
+        lastUsedAt: new Date(),
+      },
+    ];
+  }
+}
+
+export class GetAuditLogByUserIdStub implements GetAuditLogByUserIdInterface {
+  async execute(
+    _params: GetAuditLogByUserIdInterface.Request
+  ): Promise<GetAuditLogByUserIdInterface.Response> {
+    return { entries: [mockAuditLogEntry()], nextCursor: null };
+  }
+}
+
+export class RevokeSessionStub implements RevokeSessionInterface {
+  async execute(
+    _params: RevokeSessionInterface.Request
+  ): Promise<RevokeSessionInterface.Response> {}
+}
+
 export class GetAccessTokenStub implements GetAccessTokenInterface {
   async execute(
     _token: GetAccessTokenInterface.Request
   ): Promise<GetAccessTokenInterface.Response> {
     return {
       accessToken: 'sample-access-token',
+      refreshToken: 'sample-refresh-token',
     };
   }
 }
@@ -157,6 +234,198 @@ export class RemoveWorkspaceByUserIdStub
 
 export class DeleteUserStub implements DeleteUserInterface {
   async execute(
-    _userId: DeleteUserInterface.Request
-  ): Promise<DeleteUserInterface.Response> {}
+    _params: DeleteUserInterface.Request
+  ): Promise<DeleteUserInterface.Response> {
+    return { scheduledDeletionAt: new Date(Date.now() + 60 * 60 * 1000) };
+  }
+}
+
+export class PurgeUserStub implements PurgeUserInterface {
+  async execute(
+    _userId: PurgeUserInterface.Request
+  ): Promise<PurgeUserInterface.Response> {}
+}
+
+export class RestoreUserStub implements RestoreUserInterface {
+  async execute(
+    _params: RestoreUserInterface.Request
+  ): Promise<RestoreUserInterface.Response> {}
+}
+
+export class ForgotPasswordStub implements ForgotPasswordInterface {
+  async execute(
+    _email: ForgotPasswordInterface.Request
+  ): Promise<ForgotPasswordInterface.Response> {}
+}
+
+export class ResetPasswordStub implements ResetPasswordInterface {
+  async execute(
+    _params: ResetPasswordInterface.Request
+  ): Promise<ResetPasswordInterface.Response> {}
+}
+
+export class ChangePasswordStub implements ChangePasswordInterface {
+  async execute(
+    _params: ChangePasswordInterface.Request
+  ): Promise<ChangePasswordInterface.Response> {
+    return mockUser();
+  }
+}
+
+export class SendEmailVerificationStub
+  implements SendEmailVerificationInterface
+{
+  async execute(
+    _params: SendEmailVerificationInterface.Request
+  ): Promise<SendEmailVerificationInterface.Response> {}
+}
+
+export class VerifyEmailStub implements VerifyEmailInterface {
+  async execute(
+    _token: VerifyEmailInterface.Request
+  ): Promise<VerifyEmailInterface.Response> {}
+}
+
+export class EnrollMfaStub implements EnrollMfaInterface {
+  async execute(
+    _userId: EnrollMfaInterface.Request
+  ): Promise<EnrollMfaInterface.Response> {
+    return { secret: 'SAMPLESECRET', uri: 'otpauth://totp/sample-uri' };
+  }
+}
+
+export class ConfirmMfaStub implements ConfirmMfaInterface {
+  async execute(
+    _params: ConfirmMfaInterface.Request
+  ): Promise<ConfirmMfaInterface.Response> {
+    return { recoveryCodes: ['sample-recovery-code'] };
+  }
+}
+
+export class VerifyMfaStub implements VerifyMfaInterface {
+  async execute(
+    _params: VerifyMfaInterface.Request
+  ): Promise<VerifyMfaInterface.Response> {
+    return {
+      accessToken: 'sample-access-token',
+      refreshToken: 'sample-refresh-token',
+    };
+  }
+}
+
+export class StartOidcSignInStub implements StartOidcSignInInterface {
+  async execute(
+    _provider: StartOidcSignInInterface.Request
+  ): Promise<StartOidcSignInInterface.Response> {
+    return {
+      authorizationUrl: 'https://issuer.local/authorize?state=sample-state',
+    };
+  }
+}
+
+export class CompleteOidcSignInStub implements CompleteOidcSignInInterface {
+  async execute(
+    _params: CompleteOidcSignInInterface.Request
+  ): Promise<CompleteOidcSignInInterface.Response> {
+    return { userId: mockUser().id };
+  }
+}
+
+export class SignUpWithIdentityStub implements SignUpWithIdentityInterface {
+  async execute(
+    _params: SignUpWithIdentityInterface.Request
+  ): Promise<SignUpWithIdentityInterface.Response> {
+    return mockUser().id;
+  }
+}
+
+export class CreateSessionStub implements CreateSessionInterface {
+  async execute(
+    _params: CreateSessionInterface.Request
+  ): Promise<CreateSessionInterface.Response> {
+    return {
+      accessToken: 'sample-access-token',
+      refreshToken: 'sample-refresh-token',
+    };
+  }
+}
+
+export class CreateApiTokenStub implements CreateApiTokenInterface {
+  async execute(
+    _params: CreateApiTokenInterface.Request
+  ): Promise<CreateApiTokenInterface.Response> {
+    const { tokenHash, ...apiToken } = mockApiToken();
+    return { ...apiToken, token: 'ntn_sample-api-token' };
+  }
+}
+
+export class GetApiTokensByUserIdStub implements GetApiTokensByUserIdInterface {
+  async execute(
+    _userId: GetApiTokensByUserIdInterface.Request
+  ): Promise<GetApiTokensByUserIdInterface.Response> {
+    const { tokenHash, ...apiToken } = mockApiToken();
+    return [apiToken];
+  }
+}
+
+export class DeleteApiTokenStub implements DeleteApiTokenInterface {
+  async execute(
+    _params: DeleteApiTokenInterface.Request
+  ): Promise<DeleteApiTokenInterface.Response> {}
+}
+
+export class GetJsonWebKeySetStub implements GetJsonWebKeySetInterface {
+  async execute(): Promise<GetJsonWebKeySetInterface.Response> {
+    return {
+      keys: [{ kid: 'sample-kid', alg: 'ES256', use: 'sig', kty: 'EC' }],
+    };
+  }
+}
+
+export class GetSharedPagesByUserIdStub
+  implements GetSharedPagesByUserIdInterface
+{
+  async execute(
+    _userId: GetSharedPagesByUserIdInterface.Request
+  ): Promise<GetSharedPagesByUserIdInterface.Response> {
+    const { id, reference, title, icon, workspaceId } = mockPage();
+    return [
+      {
+        id,
+        reference,
+        title,
+        icon,
+        workspaceId,
+        role: 'viewer',
+        sharedAt: new Date(),
+      },
+    ];
+  }
+}
+
+export class RequestUserExportStub implements RequestUserExportInterface {
+  async execute(
+    _userId: RequestUserExportInterface.Request
+  ): Promise<RequestUserExportInterface.Response> {
+    return mockPendingUserExport();
+  }
+}
+
+export class GetUserExportByIdStub implements GetUserExportByIdInterface {
+  async execute(
+    _params: GetUserExportByIdInterface.Request
+  ): Promise<GetUserExportByIdInterface.Response> {
+    return mockUserExport();
+  }
+}
+
+export class DownloadUserExportStub implements DownloadUserExportInterface {
+  async execute(
+    _params: DownloadUserExportInterface.Request
+  ): Promise<DownloadUserExportInterface.Response> {
+    return {
+      fileName: `export-${mockUserExport().id}.json`,
+      content: '{"user":{}}',
+    };
+  }
 }
@@ -6,13 +6,19 @@ import { AddPageInterface } from '@application/interfaces/use-cases/workspaces/A
 import { CreateWorkspaceInterface } from '@application/interfaces/use-cases/workspaces/CreateWorkspaceInterface';
 import { DeleteWorkspaceInterface } from '@application/interfaces/use-cases/workspaces/DeleteWorkspaceInterface';
 import { GetAllMembersByWorkspaceIdInterface } from '@application/interfaces/use-cases/workspaces/GetAllMembersByWorkspaceIdInterface';
+import { GetAuditLogByWorkspaceIdInterface } from '@application/interfaces/use-cases/workspaces/GetAuditLogByWorkspaceIdInterface';
 import { GetAllRootPagesInterface } from '@application/interfaces/use-cases/workspaces/GetAllRootPagesInterface';
 import { GetChildrensByPageReferenceInterface } from '@application/interfaces/use-cases/workspaces/GetChildrensByPageReferenceInterface';
+import { GetPageTreeByWorkspaceIdInterface } from '@application/interfaces/use-cases/workspaces/GetPageTreeByWorkspaceIdInterface';
 import { GetWorkspaceByIdInterface } from '@application/interfaces/use-cases/workspaces/GetWorkspaceByIdInterface';
 import { RemoveMemberByWorkspaceIdInterface } from '@application/interfaces/use-cases/workspaces/RemoveMemberByWorkspaceIdInterface';
 import { RemovePageByPageIdInterface } from '@application/interfaces/use-cases/workspaces/RemovePageByPageIdInterface';
 import { UpdateWorkspaceInterface } from '@application/interfaces/use-cases/workspaces/UpdateWorkspaceInterface';
+import { UpdateMemberRoleByWorkspaceIdInterface } from '@application/interfaces/use-cases/workspaces/UpdateMemberRoleByWorkspaceIdInterface';
+import { UpdatePagePositionByPageIdInterface } from '@application/interfaces/use-cases/workspaces/UpdatePagePositionByPageIdInterface';
 import { UpdateWorkspacePagesMetaDataByPageIdInterface } from '@application/interfaces/use-cases/workspaces/UpdateWorkspacePagesMetaDataByPageIdInterface';
+import { WorkspaceAuthorizationInterface } from '@application/interfaces/use-cases/workspaces/WorkspaceAuthorizationInterface';
+import mockAuditLogEntry from '@tests/domain/mock-audit-log-entry';
 import mockWorkspace from '@tests/domain/mock-workspace';
 
 export class AddMemberByWorkspaceIdStub
@@ -67,7 +73,8 @@ export class GetAllRootPagesStub implements GetAllRootPagesInterface {
         id: 'page-id-1',
         reference: 'sample-111',
         icon: 'icon-hex-code',
-        path: null,
+        parentId: null,
+        position: 'V',
         title: 'sample',
         createdAt: new Date(),
       },
@@ -75,7 +82,8 @@ export class GetAllRootPagesStub implements GetAllRootPagesInterface {
         id: 'page-id-2',
         reference: 'sample-222',
         icon: 'icon-hex-code',
-        path: null,
+        parentId: null,
+        position: 'l',
         title: 'sample',
         createdAt: new Date(),
       },
@@ -83,7 +91,8 @@ export class GetAllRootPagesStub implements GetAllRootPagesInterface {
         id: 'page-id-3',
         reference: 'sample-333',
         icon: 'icon-hex-code',
-        path: null,
+        parentId: null,
+        position: 't',
         title: 'sample',
         createdAt: new Date(),
       },
@@ -102,7 +111,8 @@ export class GetChildrensByPageReferenceStub
         id: 'page-id-2',
         reference: 'sample-222',
         icon: 'icon-hex-code',
-        path: ',sample-111,',
+        parentId: 'page-id-1',
+        position: 'V',
         title: 'sample',
         createdAt: new Date(),
       },
@@ -110,7 +120,8 @@ export class GetChildrensByPageReferenceStub
         id: 'page-id-3',
         reference: 'sample-333',
         icon: 'icon-hex-code',
-        path: ',sample-111,',
+        parentId: 'page-id-1',
+        position: 'l',
         title: 'sample',
         createdAt: new Date(),
       },
@@ -118,6 +129,38 @@ export class GetChildrensByPageReferenceStub
   }
 }
 
+export class GetPageTreeByWorkspaceIdStub
+  implements GetPageTreeByWorkspaceIdInterface
+{
+  async execute(
+    _params: GetPageTreeByWorkspaceIdInterface.Request
+  ): Promise<GetPageTreeByWorkspaceIdInterface.Response> {
+    return [
+      {
+        id: 'page-id-1',
+        reference: 'sample-111',
+        icon: 'icon-hex-code',
+        parentId: null,
+        position: 'V',
+        title: 'sample',
+        createdAt: new Date(),
+        hasChildren: true,
+        children: [],
+      },
+    ];
+  }
+}
+
+export class GetAuditLogByWorkspaceIdStub
+  implements GetAuditLogByWorkspaceIdInterface
+{
+  async execute(
+    _params: GetAuditLogByWorkspaceIdInterface.Request
+  ): Promise<GetAuditLogByWorkspaceIdInterface.Response> {
+    return { entries: [mockAuditLogEntry()], nextCursor: null };
+  }
+}
+
 export class GetWorkspaceByIdStub implements GetWorkspaceByIdInterface {
   async execute(
     params: GetWorkspaceByIdInterface.Request
@@ -158,3 +201,32 @@ export class UpdateWorkspacePagesMetaDataByPageIdStub
     params: UpdateWorkspacePagesMetaDataByPageIdInterface.Request
   ): Promise<UpdateWorkspacePagesMetaDataByPageIdInterface.Response> {}
 }
+
+export class WorkspaceAuthorizationStub
+  implements WorkspaceAuthorizationInterface
+{
+  async execute(
+    _params: WorkspaceAuthorizationInterface.Request
+  ): Promise<WorkspaceAuthorizationInterface.Response> {
+    const { id } = mockWorkspace();
+    return id;
+  }
+}
+
+export class UpdateMemberRoleByWorkspaceIdStub
+  implements UpdateMemberRoleByWorkspaceIdInterface
+{
+  async execute(
+    _params: UpdateMemberRoleByWorkspaceIdInterface.Request
+  ): Promise<UpdateMemberRoleByWorkspaceIdInterface.Response> {}
+}
+
+export class UpdatePagePositionByPageIdStub
+  implements UpdatePagePositionByPageIdInterface
+{
+  async execute(
+    _params: UpdatePagePositionByPageIdInterface.Request
+  ): Promise<UpdatePagePositionByPageIdInterface.Response> {
+    return 'sample-position';
+  }
+}
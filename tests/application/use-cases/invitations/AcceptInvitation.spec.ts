@@ -0,0 +1,224 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { InvitationExpiredError } from '@application/errors/InvitationExpiredError';
+import { InvitationNotFoundError } from '@application/errors/InvitationNotFoundError';
+import { UnverifiedEmailError } from '@application/errors/UnverifiedEmailError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { AcceptInvitation } from '@application/use-cases/invitations/AcceptInvitation';
+import mockInvitation from '@tests/domain/mock-invitation';
+import mockUser from '@tests/domain/mock-user';
+import mockWorkspace from '@tests/domain/mock-workspace';
+import { CreateAuditLogEntryRepositoryStub } from '@tests/infrastructure/mocks/auditLogs/repositories';
+import {
+  GetInvitationByTokenRepositoryStub,
+  UpdateInvitationStatusRepositoryStub,
+} from '@tests/infrastructure/mocks/invitations/repositories';
+import {
+  AddWorkspaceByUserIdRepositoryStub,
+  GetUserByIdRepositoryStub,
+} from '@tests/infrastructure/mocks/users/repositories';
+import {
+  AddMemberByWorkspaceIdRepositoryStub,
+  GetWorkspaceByIdRepositoryStub,
+} from '@tests/infrastructure/mocks/workspaces/repositories';
+
+type SutTypes = {
+  sut: AcceptInvitation;
+  getInvitationByTokenRepositoryStub: GetInvitationByTokenRepositoryStub;
+  getUserByIdRepositoryStub: GetUserByIdRepositoryStub;
+  getWorkspaceByIdRepositoryStub: GetWorkspaceByIdRepositoryStub;
+  addMemberByWorkspaceIdRepositoryStub: AddMemberByWorkspaceIdRepositoryStub;
+  addWorkspaceByUserIdRepositoryStub: AddWorkspaceByUserIdRepositoryStub;
+  updateInvitationStatusRepositoryStub: UpdateInvitationStatusRepositoryStub;
+  createAuditLogEntryRepositoryStub: CreateAuditLogEntryRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getInvitationByTokenRepositoryStub =
+    new GetInvitationByTokenRepositoryStub();
+  const getUserByIdRepositoryStub = new GetUserByIdRepositoryStub();
+  const getWorkspaceByIdRepositoryStub = new GetWorkspaceByIdRepositoryStub();
+  const addMemberByWorkspaceIdRepositoryStub =
+    new AddMemberByWorkspaceIdRepositoryStub();
+  const addWorkspaceByUserIdRepositoryStub =
+    new AddWorkspaceByUserIdRepositoryStub();
+  const updateInvitationStatusRepositoryStub =
+    new UpdateInvitationStatusRepositoryStub();
+  const createAuditLogEntryRepositoryStub =
+    new CreateAuditLogEntryRepositoryStub();
+  const sut = new AcceptInvitation(
+    getInvitationByTokenRepositoryStub,
+    getUserByIdRepositoryStub,
+    getWorkspaceByIdRepositoryStub,
+    addMemberByWorkspaceIdRepositoryStub,
+    addWorkspaceByUserIdRepositoryStub,
+    updateInvitationStatusRepositoryStub,
+    createAuditLogEntryRepositoryStub
+  );
+  return {
+    sut,
+    getInvitationByTokenRepositoryStub,
+    getUserByIdRepositoryStub,
+    getWorkspaceByIdRepositoryStub,
+    addMemberByWorkspaceIdRepositoryStub,
+    addWorkspaceByUserIdRepositoryStub,
+    updateInvitationStatusRepositoryStub,
+    createAuditLogEntryRepositoryStub,
+  };
+};
+
+const makeRequest = () => {
+  const { id } = mockUser();
+  const { token } = mockInvitation();
+  return { userId: id, token };
+};
+
+describe('AcceptInvitation', () => {
+  it('should return an InvitationNotFoundError if the token is unknown', async () => {
+    const { sut, getInvitationByTokenRepositoryStub } = makeSut();
+    jest
+      .spyOn(getInvitationByTokenRepositoryStub, 'getInvitationByToken')
+      .mockImplementation(async () => null);
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new InvitationNotFoundError());
+  });
+
+  it('should return an InvitationNotFoundError if the invitation was already answered', async () => {
+    const { sut, getInvitationByTokenRepositoryStub } = makeSut();
+    jest
+      .spyOn(getInvitationByTokenRepositoryStub, 'getInvitationByToken')
+      .mockImplementation(async () => ({
+        ...mockInvitation(),
+        status: 'declined',
+      }));
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new InvitationNotFoundError());
+  });
+
+  it('should return a ForbiddenError if the invitation was sent to another email', async () => {
+    const { sut, getInvitationByTokenRepositoryStub } = makeSut();
+    jest
+      .spyOn(getInvitationByTokenRepositoryStub, 'getInvitationByToken')
+      .mockImplementation(async () => ({
+        ...mockInvitation(),
+        email: 'another@email.com',
+      }));
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new ForbiddenError());
+  });
+
+  it('should return an UnverifiedEmailError if the user has not verified the email', async () => {
+    const { sut, getUserByIdRepositoryStub } = makeSut();
+    jest
+      .spyOn(getUserByIdRepositoryStub, 'getUserById')
+      .mockImplementation(async () => ({
+        ...mockUser(),
+        emailVerified: false,
+      }));
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new UnverifiedEmailError());
+  });
+
+  it('should return an InvitationExpiredError if the invitation has expired', async () => {
+    const { sut, getInvitationByTokenRepositoryStub } = makeSut();
+    jest
+      .spyOn(getInvitationByTokenRepositoryStub, 'getInvitationByToken')
+      .mockImplementation(async () => ({
+        ...mockInvitation(),
+        expiresAt: new Date(Date.now() - 1000),
+      }));
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new InvitationExpiredError());
+  });
+
+  it('should return a WorkspaceNotFoundError if the workspace was deleted', async () => {
+    const { sut, getWorkspaceByIdRepositoryStub } = makeSut();
+    jest
+      .spyOn(getWorkspaceByIdRepositoryStub, 'getWorkspaceById')
+      .mockImplementation(async () => null);
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new WorkspaceNotFoundError());
+  });
+
+  it('should add the member to the workspace with the invited role', async () => {
+    const { sut, addMemberByWorkspaceIdRepositoryStub } = makeSut();
+    const addMemberByWorkspaceIdSpy = jest.spyOn(
+      addMemberByWorkspaceIdRepositoryStub,
+      'addMemberByWorkspaceId'
+    );
+    const { userId, token } = makeRequest();
+
+    await sut.execute({ userId, token });
+
+    expect(addMemberByWorkspaceIdSpy).toHaveBeenCalledWith({
+      workspaceId: mockWorkspace().id,
+      memberId: userId,
+      role: 'editor',
+    });
+  });
+
+  it('should add the workspace to the user', async () => {
+    const { sut, addWorkspaceByUserIdRepositoryStub } = makeSut();
+    const addWorkspaceByUserIdSpy = jest.spyOn(
+      addWorkspaceByUserIdRepositoryStub,
+      'addWorkspaceByUserId'
+    );
+    const { userId, token } = makeRequest();
+    const { id, name, icon } = mockWorkspace();
+
+    await sut.execute({ userId, token });
+
+    expect(addWorkspaceByUserIdSpy).toHaveBeenCalledWith({
+      userId,
+      workspaceId: id,
+      workspaceName: name,
+      workspaceIcon: icon,
+    });
+  });
+
+  it('should mark the invitation as accepted', async () => {
+    const { sut, updateInvitationStatusRepositoryStub } = makeSut();
+    const updateInvitationStatusSpy = jest.spyOn(
+      updateInvitationStatusRepositoryStub,
+      'updateInvitationStatus'
+    );
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toBeUndefined();
+    expect(updateInvitationStatusSpy).toHaveBeenCalledWith({
+      invitationId: mockInvitation().id,
+      status: 'accepted',
+    });
+  });
+
+  it('should record the new member in the audit log', async () => {
+    const { sut, createAuditLogEntryRepositoryStub } = makeSut();
+    const createAuditLogEntryRepositorySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+    const { userId, token } = makeRequest();
+    await sut.execute({ userId, token, ip: '127.0.0.1' });
+
+    expect(createAuditLogEntryRepositorySpy).toHaveBeenCalledWith({
+      action: 'workspace.member_add',
+      actorId: userId,
+      targetType: 'user',
+      targetId: userId,
+      workspaceId: mockWorkspace().id,
+      ip: '127.0.0.1',
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { MemberAlreadyExistsError } from '@application/errors/MemberAlreadyExistsError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { CreateInvitation } from '@application/use-cases/invitations/CreateInvitation';
+import mockInvitation from '@tests/domain/mock-invitation';
+import mockWorkspace from '@tests/domain/mock-workspace';
+import { CreateInvitationRepositoryStub } from '@tests/infrastructure/mocks/invitations/repositories';
+import { MailSenderStub } from '@tests/infrastructure/mocks/mail';
+import { TokenGeneratorStub } from '@tests/infrastructure/mocks/users/cryptography';
+import { LoadUserByEmailRepositoryStub } from '@tests/infrastructure/mocks/users/repositories';
+import { GetWorkspaceByIdRepositoryStub } from '@tests/infrastructure/mocks/workspaces/repositories';
+
+type SutTypes = {
+  sut: CreateInvitation;
+  getWorkspaceByIdRepositoryStub: GetWorkspaceByIdRepositoryStub;
+  loadUserByEmailRepositoryStub: LoadUserByEmailRepositoryStub;
+  createInvitationRepositoryStub: CreateInvitationRepositoryStub;
+  tokenGeneratorStub: TokenGeneratorStub;
+  mailSenderStub: MailSenderStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getWorkspaceByIdRepositoryStub = new GetWorkspaceByIdRepositoryStub();
+  const loadUserByEmailRepositoryStub = new LoadUserByEmailRepositoryStub();
+  const createInvitationRepositoryStub = new CreateInvitationRepositoryStub();
+  const tokenGeneratorStub = new TokenGeneratorStub();
+  const mailSenderStub = new MailSenderStub();
+  const sut = new CreateInvitation(
+    getWorkspaceByIdRepositoryStub,
+    loadUserByEmailRepositoryStub,
+    createInvitationRepositoryStub,
+    tokenGeneratorStub,
+    mailSenderStub,
+    'http://localhost:3000',
+    72
+  );
+
+  jest
+    .spyOn(loadUserByEmailRepositoryStub, 'loadUserByEmail')
+    .mockImplementation(async () => null);
+
+  return {
+    sut,
+    getWorkspaceByIdRepositoryStub,
+    loadUserByEmailRepositoryStub,
+    createInvitationRepositoryStub,
+    tokenGeneratorStub,
+    mailSenderStub,
+  };
+};
+
+const makeRequest = () => {
+  const { id } = mockWorkspace();
+  return {
+    workspaceId: id,
+    email: 'Invitee@Email.com',
+    role: 'editor' as const,
+    invitedBy: '112233445566778899aabbcc',
+  };
+};
+
+describe('CreateInvitation', () => {
+  it('should return a WorkspaceNotFoundError if the workspace does not exist', async () => {
+    const { sut, getWorkspaceByIdRepositoryStub, mailSenderStub } = makeSut();
+    jest
+      .spyOn(getWorkspaceByIdRepositoryStub, 'getWorkspaceById')
+      .mockImplementation(async () => null);
+    const sendSpy = jest.spyOn(mailSenderStub, 'send');
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new WorkspaceNotFoundError());
+    expect(sendSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return a MemberAlreadyExistsError if the invitee is already a member', async () => {
+    const { sut, loadUserByEmailRepositoryStub } = makeSut();
+    jest.spyOn(loadUserByEmailRepositoryStub, 'loadUserByEmail').mockRestore();
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new MemberAlreadyExistsError());
+  });
+
+  it('should call CreateInvitationRepository with a lowercased email and an expiry', async () => {
+    const { sut, createInvitationRepositoryStub } = makeSut();
+    const createInvitationSpy = jest.spyOn(
+      createInvitationRepositoryStub,
+      'createInvitation'
+    );
+    const { workspaceId, invitedBy } = makeRequest();
+
+    await sut.execute(makeRequest());
+
+    expect(createInvitationSpy).toHaveBeenCalledWith({
+      workspaceId,
+      workspaceName: mockWorkspace().name,
+      email: 'invitee@email.com',
+      role: 'editor',
+      invitedBy,
+      token: 'sample-invitation-token',
+      expiresAt: expect.any(Date),
+    });
+    const [{ expiresAt }] = createInvitationSpy.mock.calls[0];
+    expect(expiresAt.getTime()).toBeGreaterThan(
+      Date.now() + 71 * 60 * 60 * 1000
+    );
+  });
+
+  it('should mail the invitation link to the invitee', async () => {
+    const { sut, mailSenderStub } = makeSut();
+    const sendSpy = jest.spyOn(mailSenderStub, 'send');
+
+    await sut.execute(makeRequest());
+
+    expect(sendSpy).toHaveBeenCalledWith({
+      to: 'invitee@email.com',
+      subject: expect.any(String),
+      text: expect.stringContaining(
+        'http://localhost:3000/invitations/sample-invitation-token'
+      ),
+    });
+  });
+
+  it('should return the invitation id on success', async () => {
+    const { sut } = makeSut();
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toBe(mockInvitation().id);
+  });
+});
@@ -0,0 +1,100 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { InvitationExpiredError } from '@application/errors/InvitationExpiredError';
+import { InvitationNotFoundError } from '@application/errors/InvitationNotFoundError';
+import { DeclineInvitation } from '@application/use-cases/invitations/DeclineInvitation';
+import mockInvitation from '@tests/domain/mock-invitation';
+import mockUser from '@tests/domain/mock-user';
+import {
+  GetInvitationByTokenRepositoryStub,
+  UpdateInvitationStatusRepositoryStub,
+} from '@tests/infrastructure/mocks/invitations/repositories';
+import { GetUserByIdRepositoryStub } from '@tests/infrastructure/mocks/users/repositories';
+
+type SutTypes = {
+  sut: DeclineInvitation;
+  getInvitationByTokenRepositoryStub: GetInvitationByTokenRepositoryStub;
+  getUserByIdRepositoryStub: GetUserByIdRepositoryStub;
+  updateInvitationStatusRepositoryStub: UpdateInvitationStatusRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getInvitationByTokenRepositoryStub =
+    new GetInvitationByTokenRepositoryStub();
+  const getUserByIdRepositoryStub = new GetUserByIdRepositoryStub();
+  const updateInvitationStatusRepositoryStub =
+    new UpdateInvitationStatusRepositoryStub();
+  const sut = new DeclineInvitation(
+    getInvitationByTokenRepositoryStub,
+    getUserByIdRepositoryStub,
+    updateInvitationStatusRepositoryStub
+  );
+  return {
+    sut,
+    getInvitationByTokenRepositoryStub,
+    getUserByIdRepositoryStub,
+    updateInvitationStatusRepositoryStub,
+  };
+};
+
+const makeRequest = () => {
+  const { id } = mockUser();
+  const { token } = mockInvitation();
+  return { userId: id, token };
+};
+
+describe('DeclineInvitation', () => {
+  it('should return an InvitationNotFoundError if the token is unknown', async () => {
+    const { sut, getInvitationByTokenRepositoryStub } = makeSut();
+    jest
+      .spyOn(getInvitationByTokenRepositoryStub, 'getInvitationByToken')
+      .mockImplementation(async () => null);
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new InvitationNotFoundError());
+  });
+
+  it('should return a ForbiddenError if the invitation was sent to another email', async () => {
+    const { sut, getInvitationByTokenRepositoryStub } = makeSut();
+    jest
+      .spyOn(getInvitationByTokenRepositoryStub, 'getInvitationByToken')
+      .mockImplementation(async () => ({
+        ...mockInvitation(),
+        email: 'another@email.com',
+      }));
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new ForbiddenError());
+  });
+
+  it('should return an InvitationExpiredError if the invitation has expired', async () => {
+    const { sut, getInvitationByTokenRepositoryStub } = makeSut();
+    jest
+      .spyOn(getInvitationByTokenRepositoryStub, 'getInvitationByToken')
+      .mockImplementation(async () => ({
+        ...mockInvitation(),
+        expiresAt: new Date(Date.now() - 1000),
+      }));
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new InvitationExpiredError());
+  });
+
+  it('should mark the invitation as declined', async () => {
+    const { sut, updateInvitationStatusRepositoryStub } = makeSut();
+    const updateInvitationStatusSpy = jest.spyOn(
+      updateInvitationStatusRepositoryStub,
+      'updateInvitationStatus'
+    );
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toBeUndefined();
+    expect(updateInvitationStatusSpy).toHaveBeenCalledWith({
+      invitationId: mockInvitation().id,
+      status: 'declined',
+    });
+  });
+});
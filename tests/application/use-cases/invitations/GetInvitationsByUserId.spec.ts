@@ -0,0 +1,54 @@
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
+import { GetInvitationsByUserId } from '@application/use-cases/invitations/GetInvitationsByUserId';
+import mockUser from '@tests/domain/mock-user';
+import { GetPendingInvitationsByEmailRepositoryStub } from '@tests/infrastructure/mocks/invitations/repositories';
+import { GetUserByIdRepositoryStub } from '@tests/infrastructure/mocks/users/repositories';
+
+type SutTypes = {
+  sut: GetInvitationsByUserId;
+  getUserByIdRepositoryStub: GetUserByIdRepositoryStub;
+  getPendingInvitationsByEmailRepositoryStub: GetPendingInvitationsByEmailRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getUserByIdRepositoryStub = new GetUserByIdRepositoryStub();
+  const getPendingInvitationsByEmailRepositoryStub =
+    new GetPendingInvitationsByEmailRepositoryStub();
+  const sut = new GetInvitationsByUserId(
+    getUserByIdRepositoryStub,
+    getPendingInvitationsByEmailRepositoryStub
+  );
+  return {
+    sut,
+    getUserByIdRepositoryStub,
+    getPendingInvitationsByEmailRepositoryStub,
+  };
+};
+
+describe('GetInvitationsByUserId', () => {
+  it('should return a UserNotFoundError if the user does not exist', async () => {
+    const { sut, getUserByIdRepositoryStub } = makeSut();
+    jest
+      .spyOn(getUserByIdRepositoryStub, 'getUserById')
+      .mockImplementation(async () => null);
+    const { id } = mockUser();
+
+    const response = await sut.execute(id);
+
+    expect(response).toEqual(new UserNotFoundError());
+  });
+
+  it('should look up the pending invitations by the user email', async () => {
+    const { sut, getPendingInvitationsByEmailRepositoryStub } = makeSut();
+    const getPendingInvitationsByEmailSpy = jest.spyOn(
+      getPendingInvitationsByEmailRepositoryStub,
+      'getPendingInvitationsByEmail'
+    );
+    const { id, email } = mockUser();
+
+    const response = await sut.execute(id);
+
+    expect(getPendingInvitationsByEmailSpy).toHaveBeenCalledWith(email);
+    expect(response).toHaveLength(1);
+  });
+});
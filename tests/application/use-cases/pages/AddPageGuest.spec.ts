@@ -0,0 +1,169 @@
+import { MemberAlreadyExistsError } from '@application/errors/MemberAlreadyExistsError';
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { AddPageGuest } from '@application/use-cases/pages/AddPageGuest';
+import mockPage from '@tests/domain/mock-page';
+import mockUser from '@tests/domain/mock-user';
+import { MailSenderStub } from '@tests/infrastructure/mocks/mail';
+import { AddPageGuestRepositoryStub } from '@tests/infrastructure/mocks/pageGuests/repositories';
+import { GetPageByIdRepositoryStub } from '@tests/infrastructure/mocks/pages/repositories';
+import { LoadUserByEmailRepositoryStub } from '@tests/infrastructure/mocks/users/repositories';
+import { GetAllMembersByWorkspaceIdRepositoryStub } from '@tests/infrastructure/mocks/workspaces/repositories';
+
+type SutTypes = {
+  sut: AddPageGuest;
+  getPageByIdRepositoryStub: GetPageByIdRepositoryStub;
+  loadUserByEmailRepositoryStub: LoadUserByEmailRepositoryStub;
+  getAllMembersByWorkspaceIdRepositoryStub: GetAllMembersByWorkspaceIdRepositoryStub;
+  addPageGuestRepositoryStub: AddPageGuestRepositoryStub;
+  mailSenderStub: MailSenderStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getPageByIdRepositoryStub = new GetPageByIdRepositoryStub();
+  const loadUserByEmailRepositoryStub = new LoadUserByEmailRepositoryStub();
+  const getAllMembersByWorkspaceIdRepositoryStub =
+    new GetAllMembersByWorkspaceIdRepositoryStub();
+  const addPageGuestRepositoryStub = new AddPageGuestRepositoryStub();
+  const mailSenderStub = new MailSenderStub();
+  const sut = new AddPageGuest(
+    getPageByIdRepositoryStub,
+    loadUserByEmailRepositoryStub,
+    getAllMembersByWorkspaceIdRepositoryStub,
+    addPageGuestRepositoryStub,
+    mailSenderStub,
+    'http://sample-app-url'
+  );
+  return {
+    sut,
+    getPageByIdRepositoryStub,
+    loadUserByEmailRepositoryStub,
+    getAllMembersByWorkspaceIdRepositoryStub,
+    addPageGuestRepositoryStub,
+    mailSenderStub,
+  };
+};
+
+const makeParams = () => ({
+  pageId: mockPage().id,
+  email: 'Sample@Email.com',
+  role: 'viewer' as const,
+  grantedBy: 'sample-member-1',
+});
+
+describe('AddPageGuest', () => {
+  it('should call AddPageGuestRepository with correct params', async () => {
+    const { sut, loadUserByEmailRepositoryStub, addPageGuestRepositoryStub } =
+      makeSut();
+    const loadUserByEmailRepositorySpy = jest.spyOn(
+      loadUserByEmailRepositoryStub,
+      'loadUserByEmail'
+    );
+    const addPageGuestRepositorySpy = jest.spyOn(
+      addPageGuestRepositoryStub,
+      'addPageGuest'
+    );
+    const response = await sut.execute(makeParams());
+    expect(loadUserByEmailRepositorySpy).toHaveBeenCalledWith(
+      'sample@email.com'
+    );
+    expect(addPageGuestRepositorySpy).toHaveBeenCalledWith({
+      pageId: mockPage().id,
+      workspaceId: mockPage().workspaceId,
+      userId: mockUser().id,
+      role: 'viewer',
+      grantedBy: 'sample-member-1',
+    });
+    expect(response).toBeUndefined();
+  });
+
+  it('should return a PageNotFoundError if the page does not exist', async () => {
+    const { sut, getPageByIdRepositoryStub } = makeSut();
+    jest
+      .spyOn(getPageByIdRepositoryStub, 'getPageById')
+      .mockImplementation(async () => null);
+    const response = await sut.execute(makeParams());
+    expect(response).toEqual(new PageNotFoundError());
+  });
+
+  it('should mail the email instead of sharing if no user has it', async () => {
+    const {
+      sut,
+      loadUserByEmailRepositoryStub,
+      addPageGuestRepositoryStub,
+      mailSenderStub,
+    } = makeSut();
+    jest
+      .spyOn(loadUserByEmailRepositoryStub, 'loadUserByEmail')
+      .mockImplementation(async () => null);
+    const addPageGuestRepositorySpy = jest.spyOn(
+      addPageGuestRepositoryStub,
+      'addPageGuest'
+    );
+    const sendSpy = jest.spyOn(mailSenderStub, 'send');
+    const response = await sut.execute(makeParams());
+    expect(addPageGuestRepositorySpy).not.toHaveBeenCalled();
+    expect(sendSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        to: 'sample@email.com',
+        text: expect.stringContaining('http://sample-app-url'),
+      })
+    );
+    expect(response).toBeUndefined();
+  });
+
+  it('should mail the email instead of sharing if the user has not verified it', async () => {
+    const {
+      sut,
+      loadUserByEmailRepositoryStub,
+      addPageGuestRepositoryStub,
+      mailSenderStub,
+    } = makeSut();
+    jest
+      .spyOn(loadUserByEmailRepositoryStub, 'loadUserByEmail')
+      .mockImplementation(async () => ({
+        ...mockUser(),
+        emailVerified: false,
+      }));
+    const addPageGuestRepositorySpy = jest.spyOn(
+      addPageGuestRepositoryStub,
+      'addPageGuest'
+    );
+    const sendSpy = jest.spyOn(mailSenderStub, 'send');
+    const response = await sut.execute(makeParams());
+    expect(addPageGuestRepositorySpy).not.toHaveBeenCalled();
+    expect(sendSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ to: 'sample@email.com' })
+    );
+    expect(response).toBeUndefined();
+  });
+
+  it('should not send a mail when the page is shared', async () => {
+    const { sut, mailSenderStub } = makeSut();
+    const sendSpy = jest.spyOn(mailSenderStub, 'send');
+    await sut.execute(makeParams());
+    expect(sendSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return a MemberAlreadyExistsError if the user is a workspace member', async () => {
+    const {
+      sut,
+      getAllMembersByWorkspaceIdRepositoryStub,
+      addPageGuestRepositoryStub,
+    } = makeSut();
+    jest
+      .spyOn(
+        getAllMembersByWorkspaceIdRepositoryStub,
+        'getAllMembersByWorkspaceId'
+      )
+      .mockImplementation(async () => [
+        { userId: mockUser().id, role: 'viewer' },
+      ]);
+    const addPageGuestRepositorySpy = jest.spyOn(
+      addPageGuestRepositoryStub,
+      'addPageGuest'
+    );
+    const response = await sut.execute(makeParams());
+    expect(addPageGuestRepositorySpy).not.toHaveBeenCalled();
+    expect(response).toEqual(new MemberAlreadyExistsError());
+  });
+});
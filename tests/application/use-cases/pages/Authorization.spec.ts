@@ -1,43 +1,53 @@
 import { ForbiddenError } from '@application/errors/ForbiddenError';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { Authorization } from '@application/use-cases/pages/Authorization';
+import { mockTrashedPage } from '@tests/domain/mock-page';
+import mockPageGuest from '@tests/domain/mock-page-guest';
+import { GetPageGuestsByUserIdRepositoryStub } from '@tests/infrastructure/mocks/pageGuests/repositories';
 import { GetPageByIdRepositoryStub } from '@tests/infrastructure/mocks/pages/repositories';
-import { GetWorkspacesByUserIdRepositoryStub } from '@tests/infrastructure/mocks/users/repositories';
+import { GetAllMembersByWorkspaceIdRepositoryStub } from '@tests/infrastructure/mocks/workspaces/repositories';
 
 type SutTypes = {
   sut: Authorization;
   getPageByIdRepositoryStub: GetPageByIdRepositoryStub;
-  getWorkspaceByUserIdRepositoryStub: GetWorkspacesByUserIdRepositoryStub;
+  getAllMembersByWorkspaceIdRepositoryStub: GetAllMembersByWorkspaceIdRepositoryStub;
+  getPageGuestsByUserIdRepositoryStub: GetPageGuestsByUserIdRepositoryStub;
 };
 
 const makesSut = (): SutTypes => {
   const getPageByIdRepositoryStub = new GetPageByIdRepositoryStub();
-  const getWorkspaceByUserIdRepositoryStub =
-    new GetWorkspacesByUserIdRepositoryStub();
+  const getAllMembersByWorkspaceIdRepositoryStub =
+    new GetAllMembersByWorkspaceIdRepositoryStub();
+  const getPageGuestsByUserIdRepositoryStub =
+    new GetPageGuestsByUserIdRepositoryStub();
   const sut = new Authorization(
     getPageByIdRepositoryStub,
-    getWorkspaceByUserIdRepositoryStub
+    getAllMembersByWorkspaceIdRepositoryStub,
+    getPageGuestsByUserIdRepositoryStub
   );
 
   return {
     sut,
     getPageByIdRepositoryStub,
-    getWorkspaceByUserIdRepositoryStub,
+    getAllMembersByWorkspaceIdRepositoryStub,
+    getPageGuestsByUserIdRepositoryStub,
   };
 };
 
 describe('Authorization', () => {
-  it('should call getWorkspacesByUserIdRepository with correct data', async () => {
-    const { sut, getWorkspaceByUserIdRepositoryStub } = makesSut();
-    const getWorkspaceByUserIdRepositorySpy = jest.spyOn(
-      getWorkspaceByUserIdRepositoryStub,
-      'getWorkspacesByUserId'
+  it('should call getAllMembersByWorkspaceIdRepository with the page workspace id', async () => {
+    const { sut, getAllMembersByWorkspaceIdRepositoryStub } = makesSut();
+    const getAllMembersByWorkspaceIdRepositorySpy = jest.spyOn(
+      getAllMembersByWorkspaceIdRepositoryStub,
+      'getAllMembersByWorkspaceId'
     );
-    const userId = 'sample-user-id';
+    const userId = 'sample-member-2';
     const pageId = 'sample-page-id';
     await sut.execute({ userId, pageId });
 
-    expect(getWorkspaceByUserIdRepositorySpy).toHaveBeenCalledWith(userId);
+    expect(getAllMembersByWorkspaceIdRepositorySpy).toHaveBeenCalledWith(
+      '112233445566778899bbccaa'
+    );
   });
 
   it('should call getPageByIdRepository with correct data', async () => {
@@ -69,14 +79,22 @@ describe('Authorization', () => {
     expect(response).toEqual(new PageNotFoundError());
   });
 
-  it('should return ForbiddenError if page is not found', async () => {
-    const { sut, getWorkspaceByUserIdRepositoryStub } = makesSut();
+  it('should return PageNotFoundError if page is in the trash', async () => {
+    const { sut, getPageByIdRepositoryStub } = makesSut();
 
     jest
-      .spyOn(getWorkspaceByUserIdRepositoryStub, 'getWorkspacesByUserId')
-      .mockImplementation(async () => {
-        return [];
-      });
+      .spyOn(getPageByIdRepositoryStub, 'getPageById')
+      .mockImplementation(async () => mockTrashedPage());
+
+    const userId = 'sample-user-id';
+    const pageId = 'sample-page-id';
+    const response = await sut.execute({ userId, pageId });
+
+    expect(response).toEqual(new PageNotFoundError());
+  });
+
+  it('should return ForbiddenError if the user is not a member of the workspace', async () => {
+    const { sut } = makesSut();
 
     const userId = 'sample-user-id';
     const pageId = 'sample-page-id';
@@ -84,4 +102,100 @@ describe('Authorization', () => {
 
     expect(response).toEqual(new ForbiddenError());
   });
+
+  it('should return the workspace id if the user is a member and no roles are required', async () => {
+    const { sut } = makesSut();
+
+    const userId = 'sample-member-2';
+    const pageId = 'sample-page-id';
+    const response = await sut.execute({ userId, pageId });
+
+    expect(response).toBe('112233445566778899bbccaa');
+  });
+
+  it('should return ForbiddenError if the member role is not allowed', async () => {
+    const { sut } = makesSut();
+
+    const userId = 'sample-member-2';
+    const pageId = 'sample-page-id';
+    const response = await sut.execute({
+      userId,
+      pageId,
+      roles: ['owner', 'editor'],
+    });
+
+    expect(response).toEqual(new ForbiddenError());
+  });
+
+  it('should return the workspace id if the member role is allowed', async () => {
+    const { sut } = makesSut();
+
+    const userId = 'sample-member-1';
+    const pageId = 'sample-page-id';
+    const response = await sut.execute({
+      userId,
+      pageId,
+      roles: ['owner', 'editor'],
+    });
+
+    expect(response).toBe('112233445566778899bbccaa');
+  });
+
+  it('should return the workspace id if the user is a guest of the page', async () => {
+    const { sut } = makesSut();
+
+    const response = await sut.execute({
+      userId: 'sample-guest-id',
+      pageId: 'sample-page-id',
+    });
+
+    expect(response).toBe('112233445566778899bbccaa');
+  });
+
+  it('should return the workspace id if the user is a guest of an ancestor page', async () => {
+    const { sut, getPageGuestsByUserIdRepositoryStub } = makesSut();
+
+    jest
+      .spyOn(getPageGuestsByUserIdRepositoryStub, 'getPageGuestsByUserId')
+      .mockImplementation(async () => {
+        return [{ ...mockPageGuest(), pageId: '112233445566778899bbccff' }];
+      });
+
+    const response = await sut.execute({
+      userId: 'sample-guest-id',
+      pageId: 'sample-page-id',
+    });
+
+    expect(response).toBe('112233445566778899bbccaa');
+  });
+
+  it('should return ForbiddenError if the guest role is not allowed', async () => {
+    const { sut } = makesSut();
+
+    const response = await sut.execute({
+      userId: 'sample-guest-id',
+      pageId: 'sample-page-id',
+      roles: ['owner', 'editor'],
+    });
+
+    expect(response).toEqual(new ForbiddenError());
+  });
+
+  it('should ignore guests if only members are allowed', async () => {
+    const { sut, getPageGuestsByUserIdRepositoryStub } = makesSut();
+
+    const getPageGuestsByUserIdRepositorySpy = jest.spyOn(
+      getPageGuestsByUserIdRepositoryStub,
+      'getPageGuestsByUserId'
+    );
+
+    const response = await sut.execute({
+      userId: 'sample-guest-id',
+      pageId: 'sample-page-id',
+      membersOnly: true,
+    });
+
+    expect(getPageGuestsByUserIdRepositorySpy).not.toHaveBeenCalled();
+    expect(response).toEqual(new ForbiddenError());
+  });
 });
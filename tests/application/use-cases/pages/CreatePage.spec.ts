@@ -33,7 +33,8 @@ describe('createPage', () => {
       content,
       favorite,
       pageSettings,
-      path,
+      parentId,
+      ancestors,
       workspaceId,
     } = mockPage();
 
@@ -44,7 +45,8 @@ describe('createPage', () => {
       content,
       favorite,
       pageSettings,
-      path,
+      parentId,
+      ancestors,
       workspaceId,
     };
 
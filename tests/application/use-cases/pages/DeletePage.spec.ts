@@ -1,30 +1,129 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { DeletePage } from '@application/use-cases/pages/DeletePage';
-import mockPage from '@tests/domain/mock-page';
-import { DeletePageRepositoryStub } from '@tests/infrastructure/mocks/pages/repositories';
+import mockPage, { mockTrashedPage } from '@tests/domain/mock-page';
+import mockUser from '@tests/domain/mock-user';
+import { CreateAuditLogEntryRepositoryStub } from '@tests/infrastructure/mocks/auditLogs/repositories';
+import {
+  GetDescendantsByPageIdRepositoryStub,
+  GetPageByIdRepositoryStub,
+  TrashPagesRepositoryStub,
+} from '@tests/infrastructure/mocks/pages/repositories';
 
 type SutTypes = {
   sut: DeletePage;
-  deletePageRepositoryStub: DeletePageRepositoryStub;
+  getPageByIdRepositoryStub: GetPageByIdRepositoryStub;
+  getDescendantsByPageIdRepositoryStub: GetDescendantsByPageIdRepositoryStub;
+  trashPagesRepositoryStub: TrashPagesRepositoryStub;
+  createAuditLogEntryRepositoryStub: CreateAuditLogEntryRepositoryStub;
 };
 
 const makeSut = (): SutTypes => {
-  const deletePageRepositoryStub = new DeletePageRepositoryStub();
-  const sut = new DeletePage(deletePageRepositoryStub);
+  const getPageByIdRepositoryStub = new GetPageByIdRepositoryStub();
+  const getDescendantsByPageIdRepositoryStub =
+    new GetDescendantsByPageIdRepositoryStub();
+  const trashPagesRepositoryStub = new TrashPagesRepositoryStub();
+  const createAuditLogEntryRepositoryStub =
+    new CreateAuditLogEntryRepositoryStub();
+  const sut = new DeletePage(
+    getPageByIdRepositoryStub,
+    getDescendantsByPageIdRepositoryStub,
+    trashPagesRepositoryStub,
+    createAuditLogEntryRepositoryStub
+  );
   return {
     sut,
-    deletePageRepositoryStub,
+    getPageByIdRepositoryStub,
+    getDescendantsByPageIdRepositoryStub,
+    trashPagesRepositoryStub,
+    createAuditLogEntryRepositoryStub,
   };
 };
 
 describe('DeletePage', () => {
-  it('should call DeletePageRepository with correct user id', async () => {
-    const { sut, deletePageRepositoryStub } = makeSut();
-    const deletePageRepositorySpy = jest.spyOn(
-      deletePageRepositoryStub,
-      'deletePage'
+  it('should move the page and its descendants to the trash', async () => {
+    const { sut, trashPagesRepositoryStub } = makeSut();
+    const trashPagesRepositorySpy = jest.spyOn(
+      trashPagesRepositoryStub,
+      'trashPages'
     );
-    const { id } = mockPage();
-    await sut.execute(id);
-    expect(deletePageRepositorySpy).toHaveBeenCalledWith(id);
+    const { id, workspaceId } = mockPage();
+
+    const pageIds = await sut.execute({
+      pageId: id,
+      workspaceId,
+      actorId: mockUser().id,
+    });
+
+    expect(trashPagesRepositorySpy).toHaveBeenCalledWith({
+      pageId: id,
+      pageIds: [id, '112233445566778899bbccbb', '112233445566778899bbccdd'],
+      trashedAt: expect.any(Date),
+    });
+    expect(pageIds).toEqual([
+      id,
+      '112233445566778899bbccbb',
+      '112233445566778899bbccdd',
+    ]);
+  });
+
+  it('should return a PageNotFoundError if the page does not exist', async () => {
+    const { sut, getPageByIdRepositoryStub, trashPagesRepositoryStub } =
+      makeSut();
+    jest
+      .spyOn(getPageByIdRepositoryStub, 'getPageById')
+      .mockImplementation(async () => null);
+    const trashPagesRepositorySpy = jest.spyOn(
+      trashPagesRepositoryStub,
+      'trashPages'
+    );
+    const { id, workspaceId } = mockPage();
+
+    const response = await sut.execute({
+      pageId: id,
+      workspaceId,
+      actorId: mockUser().id,
+    });
+
+    expect(response).toEqual(new PageNotFoundError());
+    expect(trashPagesRepositorySpy).not.toHaveBeenCalled();
+  });
+
+  it('should return a PageNotFoundError if the page is already in the trash', async () => {
+    const { sut, getPageByIdRepositoryStub } = makeSut();
+    jest
+      .spyOn(getPageByIdRepositoryStub, 'getPageById')
+      .mockImplementation(async () => mockTrashedPage());
+    const { id, workspaceId } = mockPage();
+
+    const response = await sut.execute({
+      pageId: id,
+      workspaceId,
+      actorId: mockUser().id,
+    });
+
+    expect(response).toEqual(new PageNotFoundError());
+  });
+
+  it('should record the deletion in the audit log', async () => {
+    const { sut, createAuditLogEntryRepositoryStub } = makeSut();
+    const createAuditLogEntryRepositorySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+    const { id, workspaceId } = mockPage();
+    await sut.execute({
+      pageId: id,
+      workspaceId,
+      actorId: mockUser().id,
+      ip: '127.0.0.1',
+    });
+    expect(createAuditLogEntryRepositorySpy).toHaveBeenCalledWith({
+      action: 'page.delete',
+      actorId: mockUser().id,
+      targetType: 'page',
+      targetId: id,
+      workspaceId,
+      ip: '127.0.0.1',
+    });
   });
 });
@@ -1,21 +1,28 @@
 import { DeletePagesByWorkspaceId } from '@application/use-cases/pages/DeletePagesByWorkspaceId';
 import mockPage from '@tests/domain/mock-page';
+import mockUser from '@tests/domain/mock-user';
+import { CreateAuditLogEntryRepositoryStub } from '@tests/infrastructure/mocks/auditLogs/repositories';
 import { DeletePagesByWorkspaceIdRepositoryStub } from '@tests/infrastructure/mocks/pages/repositories';
 
 type SutTypes = {
   sut: DeletePagesByWorkspaceId;
   deletePagesByWorkspaceIdRepositoryStub: DeletePagesByWorkspaceIdRepositoryStub;
+  createAuditLogEntryRepositoryStub: CreateAuditLogEntryRepositoryStub;
 };
 
 const makeSut = (): SutTypes => {
   const deletePagesByWorkspaceIdRepositoryStub =
     new DeletePagesByWorkspaceIdRepositoryStub();
+  const createAuditLogEntryRepositoryStub =
+    new CreateAuditLogEntryRepositoryStub();
   const sut = new DeletePagesByWorkspaceId(
-    deletePagesByWorkspaceIdRepositoryStub
+    deletePagesByWorkspaceIdRepositoryStub,
+    createAuditLogEntryRepositoryStub
   );
   return {
     sut,
     deletePagesByWorkspaceIdRepositoryStub,
+    createAuditLogEntryRepositoryStub,
   };
 };
 
@@ -27,9 +34,31 @@ describe('DeletePagesByWorkspaceId', () => {
       'deletePagesByWorkspaceId'
     );
     const { workspaceId } = mockPage();
-    await sut.execute(workspaceId);
+    await sut.execute({ workspaceId, actorId: mockUser().id });
     expect(deletePagesByWorkspaceIdRepositorySpy).toHaveBeenCalledWith(
       workspaceId
     );
   });
+
+  it('should record the deletion in the audit log', async () => {
+    const { sut, createAuditLogEntryRepositoryStub } = makeSut();
+    const createAuditLogEntryRepositorySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+    const { workspaceId } = mockPage();
+    await sut.execute({
+      workspaceId,
+      actorId: mockUser().id,
+      ip: '127.0.0.1',
+    });
+    expect(createAuditLogEntryRepositorySpy).toHaveBeenCalledWith({
+      action: 'workspace.pages_delete',
+      actorId: mockUser().id,
+      targetType: 'workspace',
+      targetId: workspaceId,
+      workspaceId,
+      ip: '127.0.0.1',
+    });
+  });
 });
@@ -0,0 +1,39 @@
+import { GetPageGuestsByPageId } from '@application/use-cases/pages/GetPageGuestsByPageId';
+import mockPage from '@tests/domain/mock-page';
+import mockPageGuest from '@tests/domain/mock-page-guest';
+import { GetPageGuestsByPageIdRepositoryStub } from '@tests/infrastructure/mocks/pageGuests/repositories';
+
+type SutTypes = {
+  sut: GetPageGuestsByPageId;
+  getPageGuestsByPageIdRepositoryStub: GetPageGuestsByPageIdRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getPageGuestsByPageIdRepositoryStub =
+    new GetPageGuestsByPageIdRepositoryStub();
+  const sut = new GetPageGuestsByPageId(getPageGuestsByPageIdRepositoryStub);
+  return {
+    sut,
+    getPageGuestsByPageIdRepositoryStub,
+  };
+};
+
+describe('GetPageGuestsByPageId', () => {
+  it('should call GetPageGuestsByPageIdRepository with correct params', async () => {
+    const { sut, getPageGuestsByPageIdRepositoryStub } = makeSut();
+    const getPageGuestsByPageIdRepositorySpy = jest.spyOn(
+      getPageGuestsByPageIdRepositoryStub,
+      'getPageGuestsByPageId'
+    );
+    await sut.execute(mockPage().id);
+    expect(getPageGuestsByPageIdRepositorySpy).toHaveBeenCalledWith(
+      mockPage().id
+    );
+  });
+
+  it('should return the page guests', async () => {
+    const { sut } = makeSut();
+    const response = await sut.execute(mockPage().id);
+    expect(response).toEqual([mockPageGuest()]);
+  });
+});
@@ -0,0 +1,159 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { GetPublicPageBySlug } from '@application/use-cases/pages/GetPublicPageBySlug';
+import { Page } from '@domain/entities/Page';
+import { mockPublishedPage } from '@tests/domain/mock-page';
+import {
+  GetDescendantsByPageIdRepositoryStub,
+  GetPageByPublicSlugRepositoryStub,
+} from '@tests/infrastructure/mocks/pages/repositories';
+
+type SutTypes = {
+  sut: GetPublicPageBySlug;
+  getPageByPublicSlugRepositoryStub: GetPageByPublicSlugRepositoryStub;
+  getDescendantsByPageIdRepositoryStub: GetDescendantsByPageIdRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getPageByPublicSlugRepositoryStub =
+    new GetPageByPublicSlugRepositoryStub();
+  const getDescendantsByPageIdRepositoryStub =
+    new GetDescendantsByPageIdRepositoryStub();
+  const sut = new GetPublicPageBySlug(
+    getPageByPublicSlugRepositoryStub,
+    getDescendantsByPageIdRepositoryStub
+  );
+  return {
+    sut,
+    getPageByPublicSlugRepositoryStub,
+    getDescendantsByPageIdRepositoryStub,
+  };
+};
+
+const makePublishedPage = (
+  publication: Partial<NonNullable<Page['publication']>>
+): Page => {
+  const page = mockPublishedPage();
+  return new Page({
+    ...page,
+    publication: { ...page.publication!, ...publication },
+  });
+};
+
+describe('GetPublicPageBySlug', () => {
+  it('should return the public fields of the page and its child tree', async () => {
+    const { sut } = makeSut();
+    const { id, title, icon, coverPicture, content } = mockPublishedPage();
+
+    const response = await sut.execute({ slug: 'sample-public-slug' });
+
+    expect(response).toEqual({
+      id,
+      title,
+      icon,
+      coverPicture,
+      content,
+      allowIndexing: false,
+      children: [
+        {
+          id: '112233445566778899bbccbb',
+          title: 'sample child',
+          icon,
+          children: [
+            {
+              id: '112233445566778899bbccdd',
+              title: 'sample grandchild',
+              icon,
+              children: [],
+            },
+          ],
+        },
+      ],
+    });
+    expect(response).not.toHaveProperty('favorite');
+  });
+
+  it('should not look up children unless they are published', async () => {
+    const {
+      sut,
+      getPageByPublicSlugRepositoryStub,
+      getDescendantsByPageIdRepositoryStub,
+    } = makeSut();
+    jest
+      .spyOn(getPageByPublicSlugRepositoryStub, 'getPageByPublicSlug')
+      .mockImplementation(async () =>
+        makePublishedPage({ includeChildren: false })
+      );
+    const getDescendantsByPageIdRepositorySpy = jest.spyOn(
+      getDescendantsByPageIdRepositoryStub,
+      'getDescendantsByPageId'
+    );
+
+    const response = await sut.execute({ slug: 'sample-public-slug' });
+
+    expect(getDescendantsByPageIdRepositorySpy).not.toHaveBeenCalled();
+    expect(response).toMatchObject({ children: [] });
+  });
+
+  it('should return a published child page', async () => {
+    const { sut } = makeSut();
+
+    const response = await sut.execute({
+      slug: 'sample-public-slug',
+      pageId: '112233445566778899bbccbb',
+    });
+
+    expect(response).toMatchObject({
+      id: '112233445566778899bbccbb',
+      title: 'sample child',
+      children: [{ id: '112233445566778899bbccdd' }],
+    });
+  });
+
+  it('should return a PageNotFoundError for a page outside the published tree', async () => {
+    const { sut } = makeSut();
+
+    const response = await sut.execute({
+      slug: 'sample-public-slug',
+      pageId: 'another-page-id',
+    });
+
+    expect(response).toEqual(new PageNotFoundError());
+  });
+
+  it('should return a PageNotFoundError if the slug is unknown', async () => {
+    const { sut, getPageByPublicSlugRepositoryStub } = makeSut();
+    jest
+      .spyOn(getPageByPublicSlugRepositoryStub, 'getPageByPublicSlug')
+      .mockImplementation(async () => null);
+
+    const response = await sut.execute({ slug: 'sample-public-slug' });
+
+    expect(response).toEqual(new PageNotFoundError());
+  });
+
+  it('should return a PageNotFoundError if the published page is in the trash', async () => {
+    const { sut, getPageByPublicSlugRepositoryStub } = makeSut();
+    jest
+      .spyOn(getPageByPublicSlugRepositoryStub, 'getPageByPublicSlug')
+      .mockImplementation(
+        async () => new Page({ ...mockPublishedPage(), trashedAt: new Date() })
+      );
+
+    const response = await sut.execute({ slug: 'sample-public-slug' });
+
+    expect(response).toEqual(new PageNotFoundError());
+  });
+
+  it('should return a PageNotFoundError if the link has expired', async () => {
+    const { sut, getPageByPublicSlugRepositoryStub } = makeSut();
+    jest
+      .spyOn(getPageByPublicSlugRepositoryStub, 'getPageByPublicSlug')
+      .mockImplementation(async () =>
+        makePublishedPage({ expiresAt: new Date(Date.now() - 1000) })
+      );
+
+    const response = await sut.execute({ slug: 'sample-public-slug' });
+
+    expect(response).toEqual(new PageNotFoundError());
+  });
+});
@@ -0,0 +1,43 @@
+import { GetTrashByWorkspaceId } from '@application/use-cases/pages/GetTrashByWorkspaceId';
+import mockPage, { mockTrashedPage } from '@tests/domain/mock-page';
+import { GetTrashedPagesByWorkspaceIdRepositoryStub } from '@tests/infrastructure/mocks/pages/repositories';
+
+type SutTypes = {
+  sut: GetTrashByWorkspaceId;
+  getTrashedPagesByWorkspaceIdRepositoryStub: GetTrashedPagesByWorkspaceIdRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getTrashedPagesByWorkspaceIdRepositoryStub =
+    new GetTrashedPagesByWorkspaceIdRepositoryStub();
+  const sut = new GetTrashByWorkspaceId(
+    getTrashedPagesByWorkspaceIdRepositoryStub
+  );
+  return {
+    sut,
+    getTrashedPagesByWorkspaceIdRepositoryStub,
+  };
+};
+
+describe('GetTrashByWorkspaceId', () => {
+  it('should call GetTrashedPagesByWorkspaceIdRepository with correct workspace id', async () => {
+    const { sut, getTrashedPagesByWorkspaceIdRepositoryStub } = makeSut();
+    const getTrashedPagesByWorkspaceIdRepositorySpy = jest.spyOn(
+      getTrashedPagesByWorkspaceIdRepositoryStub,
+      'getTrashedPagesByWorkspaceId'
+    );
+    const { workspaceId } = mockPage();
+    await sut.execute(workspaceId);
+    expect(getTrashedPagesByWorkspaceIdRepositorySpy).toHaveBeenCalledWith(
+      workspaceId
+    );
+  });
+
+  it('should return the trashed pages on success', async () => {
+    const { sut } = makeSut();
+    const response = await sut.execute(mockPage().workspaceId);
+    expect(response).toEqual([
+      { ...mockTrashedPage(), trashedAt: expect.any(Date) },
+    ]);
+  });
+});
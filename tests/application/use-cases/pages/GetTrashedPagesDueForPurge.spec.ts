@@ -0,0 +1,44 @@
+import { GetTrashedPagesDueForPurge } from '@application/use-cases/pages/GetTrashedPagesDueForPurge';
+import { GetTrashedPagesDueForPurgeRepositoryStub } from '@tests/infrastructure/mocks/pages/repositories';
+
+type SutTypes = {
+  sut: GetTrashedPagesDueForPurge;
+  getTrashedPagesDueForPurgeRepositoryStub: GetTrashedPagesDueForPurgeRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getTrashedPagesDueForPurgeRepositoryStub =
+    new GetTrashedPagesDueForPurgeRepositoryStub();
+  const sut = new GetTrashedPagesDueForPurge(
+    getTrashedPagesDueForPurgeRepositoryStub,
+    30
+  );
+  return {
+    sut,
+    getTrashedPagesDueForPurgeRepositoryStub,
+  };
+};
+
+describe('GetTrashedPagesDueForPurge', () => {
+  it('should look for pages trashed before the retention period', async () => {
+    const { sut, getTrashedPagesDueForPurgeRepositoryStub } = makeSut();
+    const getTrashedPagesDueForPurgeRepositorySpy = jest.spyOn(
+      getTrashedPagesDueForPurgeRepositoryStub,
+      'getTrashedPagesDueForPurge'
+    );
+    const now = Date.now();
+    jest.spyOn(Date, 'now').mockReturnValueOnce(now);
+
+    await sut.execute();
+
+    expect(getTrashedPagesDueForPurgeRepositorySpy).toHaveBeenCalledWith(
+      new Date(now - 30 * 24 * 60 * 60 * 1000)
+    );
+  });
+
+  it('should return the pages due for purge', async () => {
+    const { sut } = makeSut();
+    const response = await sut.execute();
+    expect(response).toHaveLength(1);
+  });
+});
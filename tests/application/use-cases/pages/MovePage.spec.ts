@@ -0,0 +1,503 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { InvalidPageMoveError } from '@application/errors/InvalidPageMoveError';
+import { PageLockedError } from '@application/errors/PageLockedError';
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { MovePage } from '@application/use-cases/pages/MovePage';
+import { Page } from '@domain/entities/Page';
+import mockPage, { mockLockedPage } from '@tests/domain/mock-page';
+import {
+  GetDescendantsByPageIdRepositoryStub,
+  GetPageByIdRepositoryStub,
+  GetTrashedDescendantsByPageIdRepositoryStub,
+  MovePagesRepositoryStub,
+  RemoveFromFavoriteRepositoryStub,
+} from '@tests/infrastructure/mocks/pages/repositories';
+import {
+  AddPageIdToFavoritesByWorkspaceIdRepositoryStub,
+  RemovePageIdFromFavoritesByWorkspaceIdRepositoryStub,
+} from '@tests/infrastructure/mocks/users/repositories';
+import { GetAllMembersByWorkspaceIdRepositoryStub } from '@tests/infrastructure/mocks/workspaces/repositories';
+import { MovePageGuestsRepositoryStub } from '@tests/infrastructure/mocks/pageGuests/repositories';
+
+type SutTypes = {
+  sut: MovePage;
+  getPageByIdRepositoryStub: GetPageByIdRepositoryStub;
+  getAllMembersByWorkspaceIdRepositoryStub: GetAllMembersByWorkspaceIdRepositoryStub;
+  getTrashedDescendantsByPageIdRepositoryStub: GetTrashedDescendantsByPageIdRepositoryStub;
+  movePagesRepositoryStub: MovePagesRepositoryStub;
+  movePageGuestsRepositoryStub: MovePageGuestsRepositoryStub;
+  removeFromFavoriteRepositoryStub: RemoveFromFavoriteRepositoryStub;
+  removePageIdFromFavoritesByWorkspaceIdRepositoryStub: RemovePageIdFromFavoritesByWorkspaceIdRepositoryStub;
+  addPageIdToFavoritesByWorkspaceIdRepositoryStub: AddPageIdToFavoritesByWorkspaceIdRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getPageByIdRepositoryStub = new GetPageByIdRepositoryStub();
+  const getAllMembersByWorkspaceIdRepositoryStub =
+    new GetAllMembersByWorkspaceIdRepositoryStub();
+  const getDescendantsByPageIdRepositoryStub =
+    new GetDescendantsByPageIdRepositoryStub();
+  const getTrashedDescendantsByPageIdRepositoryStub =
+    new GetTrashedDescendantsByPageIdRepositoryStub();
+  const movePagesRepositoryStub = new MovePagesRepositoryStub();
+  const movePageGuestsRepositoryStub = new MovePageGuestsRepositoryStub();
+  const removeFromFavoriteRepositoryStub =
+    new RemoveFromFavoriteRepositoryStub();
+  const removePageIdFromFavoritesByWorkspaceIdRepositoryStub =
+    new RemovePageIdFromFavoritesByWorkspaceIdRepositoryStub();
+  const addPageIdToFavoritesByWorkspaceIdRepositoryStub =
+    new AddPageIdToFavoritesByWorkspaceIdRepositoryStub();
+  const sut = new MovePage(
+    getPageByIdRepositoryStub,
+    getAllMembersByWorkspaceIdRepositoryStub,
+    getDescendantsByPageIdRepositoryStub,
+    getTrashedDescendantsByPageIdRepositoryStub,
+    movePagesRepositoryStub,
+    movePageGuestsRepositoryStub,
+    removeFromFavoriteRepositoryStub,
+    removePageIdFromFavoritesByWorkspaceIdRepositoryStub,
+    addPageIdToFavoritesByWorkspaceIdRepositoryStub
+  );
+  return {
+    sut,
+    getPageByIdRepositoryStub,
+    getAllMembersByWorkspaceIdRepositoryStub,
+    getTrashedDescendantsByPageIdRepositoryStub,
+    movePagesRepositoryStub,
+    movePageGuestsRepositoryStub,
+    removeFromFavoriteRepositoryStub,
+    removePageIdFromFavoritesByWorkspaceIdRepositoryStub,
+    addPageIdToFavoritesByWorkspaceIdRepositoryStub,
+  };
+};
+
+const makeRootPage = (): Page =>
+  new Page({
+    ...mockPage(),
+    parentId: null,
+    ancestors: [],
+    favorite: ['sample-member-1', 'sample-outsider'],
+  });
+
+const makeParentPage = (props?: Partial<Page>): Page =>
+  new Page({
+    ...mockPage(),
+    id: '112233445566778899bbccee',
+    reference: 'sample-parent',
+    parentId: 'sample-grandparent-id',
+    ancestors: ['sample-grandparent-id'],
+    ...props,
+  });
+
+const mockPages = (
+  getPageByIdRepositoryStub: GetPageByIdRepositoryStub,
+  page: Page | null,
+  parent?: Page | null
+): void => {
+  jest
+    .spyOn(getPageByIdRepositoryStub, 'getPageById')
+    .mockImplementation(async pageId =>
+      pageId === mockPage().id ? page : parent || null
+    );
+};
+
+describe('MovePage', () => {
+  it('should rewrite the ancestors of the page and its descendants below the new parent', async () => {
+    const { sut, getPageByIdRepositoryStub, movePagesRepositoryStub } =
+      makeSut();
+    mockPages(getPageByIdRepositoryStub, makeRootPage(), makeParentPage());
+    const movePagesSpy = jest.spyOn(movePagesRepositoryStub, 'movePages');
+    const { id, workspaceId } = mockPage();
+    const ancestors = ['sample-grandparent-id', '112233445566778899bbccee'];
+
+    const response = await sut.execute({
+      pageId: id,
+      userId: 'sample-member-1',
+      parentId: makeParentPage().id,
+    });
+
+    expect(movePagesSpy).toHaveBeenCalledWith({
+      workspaceId,
+      pages: [
+        { pageId: id, parentId: '112233445566778899bbccee', ancestors },
+        {
+          pageId: '112233445566778899bbccbb',
+          parentId: id,
+          ancestors: [...ancestors, id],
+        },
+        {
+          pageId: '112233445566778899bbccdd',
+          parentId: '112233445566778899bbccbb',
+          ancestors: [...ancestors, id, '112233445566778899bbccbb'],
+        },
+      ],
+    });
+    expect(response).toMatchObject({
+      previousWorkspaceId: workspaceId,
+      pages: [
+        {
+          id,
+          parentId: '112233445566778899bbccee',
+          ancestors,
+          workspaceId,
+        },
+        { id: '112233445566778899bbccbb' },
+        { id: '112233445566778899bbccdd' },
+      ],
+    });
+  });
+
+  it('should clear the ancestors of a page moved to the root', async () => {
+    const { sut, getPageByIdRepositoryStub, movePagesRepositoryStub } =
+      makeSut();
+    mockPages(getPageByIdRepositoryStub, mockPage());
+    const movePagesSpy = jest.spyOn(movePagesRepositoryStub, 'movePages');
+    const { id } = mockPage();
+
+    await sut.execute({
+      pageId: id,
+      userId: 'sample-member-1',
+      parentId: null,
+    });
+
+    expect(movePagesSpy.mock.calls[0][0].pages[0]).toEqual({
+      pageId: id,
+      parentId: null,
+      ancestors: [],
+    });
+  });
+
+  it('should keep favorites untouched when the workspace does not change', async () => {
+    const {
+      sut,
+      getPageByIdRepositoryStub,
+      removePageIdFromFavoritesByWorkspaceIdRepositoryStub,
+    } = makeSut();
+    mockPages(getPageByIdRepositoryStub, makeRootPage(), makeParentPage());
+    const removePageIdFromFavoritesSpy = jest.spyOn(
+      removePageIdFromFavoritesByWorkspaceIdRepositoryStub,
+      'removePageIdFromFavoritesByWorkspaceId'
+    );
+
+    await sut.execute({
+      pageId: mockPage().id,
+      userId: 'sample-member-1',
+      parentId: makeParentPage().id,
+    });
+
+    expect(removePageIdFromFavoritesSpy).not.toHaveBeenCalled();
+  });
+
+  it('should move favorites of members and drop those of outsiders when the workspace changes', async () => {
+    const {
+      sut,
+      getPageByIdRepositoryStub,
+      removeFromFavoriteRepositoryStub,
+      removePageIdFromFavoritesByWorkspaceIdRepositoryStub,
+      addPageIdToFavoritesByWorkspaceIdRepositoryStub,
+    } = makeSut();
+    mockPages(
+      getPageByIdRepositoryStub,
+      makeRootPage(),
+      makeParentPage({ workspaceId: 'sample-target-workspace-id' })
+    );
+    const removeFromFavoriteSpy = jest.spyOn(
+      removeFromFavoriteRepositoryStub,
+      'removeFromFavorite'
+    );
+    const removePageIdFromFavoritesSpy = jest.spyOn(
+      removePageIdFromFavoritesByWorkspaceIdRepositoryStub,
+      'removePageIdFromFavoritesByWorkspaceId'
+    );
+    const addPageIdToFavoritesSpy = jest.spyOn(
+      addPageIdToFavoritesByWorkspaceIdRepositoryStub,
+      'addPageIdToFavoritesByWorkspaceId'
+    );
+    const { id, workspaceId } = mockPage();
+
+    const response = await sut.execute({
+      pageId: id,
+      userId: 'sample-member-1',
+      parentId: makeParentPage().id,
+      workspaceId: 'sample-target-workspace-id',
+    });
+
+    expect(removePageIdFromFavoritesSpy).toHaveBeenCalledWith({
+      userId: 'sample-member-1',
+      workspaceId,
+      pageId: id,
+    });
+    expect(addPageIdToFavoritesSpy).toHaveBeenCalledWith({
+      userId: 'sample-member-1',
+      workspaceId: 'sample-target-workspace-id',
+      pageId: id,
+    });
+    expect(removeFromFavoriteSpy).toHaveBeenCalledWith({
+      pageId: id,
+      userId: 'sample-outsider',
+    });
+    expect(response).toMatchObject({
+      previousWorkspaceId: workspaceId,
+      pages: [
+        {
+          id,
+          workspaceId: 'sample-target-workspace-id',
+          favorite: ['sample-member-1'],
+        },
+        { workspaceId: 'sample-target-workspace-id' },
+        { workspaceId: 'sample-target-workspace-id' },
+      ],
+    });
+  });
+
+  it('should rewrite the ancestors of trashed descendants but leave them out of the response', async () => {
+    const {
+      sut,
+      getPageByIdRepositoryStub,
+      getTrashedDescendantsByPageIdRepositoryStub,
+      movePagesRepositoryStub,
+    } = makeSut();
+    mockPages(getPageByIdRepositoryStub, makeRootPage(), makeParentPage());
+    const { id, workspaceId } = mockPage();
+    jest
+      .spyOn(
+        getTrashedDescendantsByPageIdRepositoryStub,
+        'getTrashedDescendantsByPageId'
+      )
+      .mockImplementation(async () => [
+        new Page({
+          ...mockPage(),
+          id: 'sample-trashed-child-id',
+          parentId: id,
+          ancestors: [id],
+          trashedAt: new Date(),
+          trashedWithPageId: 'sample-trashed-child-id',
+        }),
+      ]);
+    const movePagesSpy = jest.spyOn(movePagesRepositoryStub, 'movePages');
+
+    const response = await sut.execute({
+      pageId: id,
+      userId: 'sample-member-1',
+      parentId: makeParentPage().id,
+    });
+
+    expect(movePagesSpy).toHaveBeenCalledWith({
+      workspaceId,
+      pages: expect.arrayContaining([
+        {
+          pageId: 'sample-trashed-child-id',
+          parentId: id,
+          ancestors: ['sample-grandparent-id', '112233445566778899bbccee', id],
+        },
+      ]),
+    });
+    expect(response).toMatchObject({ pages: { length: 3 } });
+  });
+
+  it('should move the guest grants of the subtree when the workspace changes', async () => {
+    const {
+      sut,
+      getPageByIdRepositoryStub,
+      getTrashedDescendantsByPageIdRepositoryStub,
+      movePageGuestsRepositoryStub,
+    } = makeSut();
+    mockPages(
+      getPageByIdRepositoryStub,
+      makeRootPage(),
+      makeParentPage({ workspaceId: 'sample-target-workspace-id' })
+    );
+    const { id } = mockPage();
+    jest
+      .spyOn(
+        getTrashedDescendantsByPageIdRepositoryStub,
+        'getTrashedDescendantsByPageId'
+      )
+      .mockImplementation(async () => [
+        new Page({
+          ...mockPage(),
+          id: 'sample-trashed-child-id',
+          parentId: id,
+          ancestors: [id],
+          trashedAt: new Date(),
+        }),
+      ]);
+    const movePageGuestsSpy = jest.spyOn(
+      movePageGuestsRepositoryStub,
+      'movePageGuests'
+    );
+
+    await sut.execute({
+      pageId: id,
+      userId: 'sample-member-1',
+      parentId: makeParentPage().id,
+      workspaceId: 'sample-target-workspace-id',
+    });
+
+    expect(movePageGuestsSpy).toHaveBeenCalledWith({
+      pageIds: [
+        id,
+        '112233445566778899bbccbb',
+        '112233445566778899bbccdd',
+        'sample-trashed-child-id',
+      ],
+      workspaceId: 'sample-target-workspace-id',
+    });
+  });
+
+  it('should leave the guest grants alone within the workspace', async () => {
+    const { sut, getPageByIdRepositoryStub, movePageGuestsRepositoryStub } =
+      makeSut();
+    mockPages(getPageByIdRepositoryStub, makeRootPage(), makeParentPage());
+    const movePageGuestsSpy = jest.spyOn(
+      movePageGuestsRepositoryStub,
+      'movePageGuests'
+    );
+
+    await sut.execute({
+      pageId: mockPage().id,
+      userId: 'sample-member-1',
+      parentId: makeParentPage().id,
+    });
+
+    expect(movePageGuestsSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return a PageNotFoundError if the page does not exist', async () => {
+    const { sut, getPageByIdRepositoryStub } = makeSut();
+    mockPages(getPageByIdRepositoryStub, null);
+
+    const response = await sut.execute({
+      pageId: mockPage().id,
+      userId: 'sample-member-1',
+      parentId: null,
+    });
+
+    expect(response).toEqual(new PageNotFoundError());
+  });
+
+  it('should return a PageNotFoundError if the parent is not in the target workspace', async () => {
+    const { sut, getPageByIdRepositoryStub } = makeSut();
+    mockPages(
+      getPageByIdRepositoryStub,
+      mockPage(),
+      makeParentPage({ workspaceId: 'another-workspace-id' })
+    );
+
+    const response = await sut.execute({
+      pageId: mockPage().id,
+      userId: 'sample-member-1',
+      parentId: makeParentPage().id,
+    });
+
+    expect(response).toEqual(new PageNotFoundError());
+  });
+
+  it('should return a PageNotFoundError if the parent is in the trash', async () => {
+    const { sut, getPageByIdRepositoryStub } = makeSut();
+    mockPages(
+      getPageByIdRepositoryStub,
+      mockPage(),
+      makeParentPage({ trashedAt: new Date() })
+    );
+
+    const response = await sut.execute({
+      pageId: mockPage().id,
+      userId: 'sample-member-1',
+      parentId: makeParentPage().id,
+    });
+
+    expect(response).toEqual(new PageNotFoundError());
+  });
+
+  it('should return a PageLockedError if the page is locked', async () => {
+    const { sut, getPageByIdRepositoryStub, movePagesRepositoryStub } =
+      makeSut();
+    mockPages(getPageByIdRepositoryStub, mockLockedPage());
+    const movePagesSpy = jest.spyOn(movePagesRepositoryStub, 'movePages');
+
+    const response = await sut.execute({
+      pageId: mockPage().id,
+      userId: 'sample-member-1',
+      parentId: null,
+    });
+
+    expect(response).toEqual(new PageLockedError());
+    expect(movePagesSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return a ForbiddenError if the user cannot edit the target workspace', async () => {
+    const { sut, getPageByIdRepositoryStub } = makeSut();
+    mockPages(getPageByIdRepositoryStub, mockPage());
+
+    const response = await sut.execute({
+      pageId: mockPage().id,
+      userId: 'sample-member-2',
+      parentId: null,
+    });
+
+    expect(response).toEqual(new ForbiddenError());
+  });
+
+  it('should return a ForbiddenError if the user is not a member of the source workspace', async () => {
+    const {
+      sut,
+      getPageByIdRepositoryStub,
+      getAllMembersByWorkspaceIdRepositoryStub,
+    } = makeSut();
+    mockPages(getPageByIdRepositoryStub, mockPage());
+    jest
+      .spyOn(
+        getAllMembersByWorkspaceIdRepositoryStub,
+        'getAllMembersByWorkspaceId'
+      )
+      .mockImplementation(async workspaceId =>
+        workspaceId === mockPage().workspaceId
+          ? []
+          : [{ userId: 'sample-member-1', role: 'owner' }]
+      );
+
+    const response = await sut.execute({
+      pageId: mockPage().id,
+      userId: 'sample-member-1',
+      parentId: null,
+      workspaceId: 'sample-target-workspace-id',
+    });
+
+    expect(response).toEqual(new ForbiddenError());
+  });
+
+  it('should return an InvalidPageMoveError if the page is moved below itself', async () => {
+    const { sut, getPageByIdRepositoryStub } = makeSut();
+    mockPages(getPageByIdRepositoryStub, mockPage());
+
+    const response = await sut.execute({
+      pageId: mockPage().id,
+      userId: 'sample-member-1',
+      parentId: mockPage().id,
+    });
+
+    expect(response).toEqual(new InvalidPageMoveError());
+  });
+
+  it('should return an InvalidPageMoveError if the page is moved below a descendant', async () => {
+    const { sut, getPageByIdRepositoryStub, movePagesRepositoryStub } =
+      makeSut();
+    const { id } = mockPage();
+    mockPages(
+      getPageByIdRepositoryStub,
+      mockPage(),
+      makeParentPage({ ancestors: ['sample-root-id', id, 'sample-child-id'] })
+    );
+    const movePagesSpy = jest.spyOn(movePagesRepositoryStub, 'movePages');
+
+    const response = await sut.execute({
+      pageId: mockPage().id,
+      userId: 'sample-member-1',
+      parentId: makeParentPage().id,
+    });
+
+    expect(response).toEqual(new InvalidPageMoveError());
+    expect(movePagesSpy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,91 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { PublishPage } from '@application/use-cases/pages/PublishPage';
+import mockPage, { mockPublishedPage } from '@tests/domain/mock-page';
+import {
+  GetPageByIdRepositoryStub,
+  UpdatePagePublicationByPageIdRepositoryStub,
+} from '@tests/infrastructure/mocks/pages/repositories';
+import { TokenGeneratorStub } from '@tests/infrastructure/mocks/users/cryptography';
+
+type SutTypes = {
+  sut: PublishPage;
+  getPageByIdRepositoryStub: GetPageByIdRepositoryStub;
+  tokenGeneratorStub: TokenGeneratorStub;
+  updatePagePublicationByPageIdRepositoryStub: UpdatePagePublicationByPageIdRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getPageByIdRepositoryStub = new GetPageByIdRepositoryStub();
+  const tokenGeneratorStub = new TokenGeneratorStub();
+  const updatePagePublicationByPageIdRepositoryStub =
+    new UpdatePagePublicationByPageIdRepositoryStub();
+  const sut = new PublishPage(
+    getPageByIdRepositoryStub,
+    tokenGeneratorStub,
+    updatePagePublicationByPageIdRepositoryStub
+  );
+  return {
+    sut,
+    getPageByIdRepositoryStub,
+    tokenGeneratorStub,
+    updatePagePublicationByPageIdRepositoryStub,
+  };
+};
+
+describe('PublishPage', () => {
+  it('should publish the page under a new slug', async () => {
+    const { sut, updatePagePublicationByPageIdRepositoryStub } = makeSut();
+    const updatePagePublicationByPageIdRepositorySpy = jest.spyOn(
+      updatePagePublicationByPageIdRepositoryStub,
+      'updatePagePublicationByPageId'
+    );
+
+    const response = await sut.execute({
+      pageId: mockPage().id,
+      allowIndexing: true,
+    });
+
+    const publication = {
+      slug: 'sample-invitation-token',
+      includeChildren: false,
+      allowIndexing: true,
+      expiresAt: null,
+      publishedAt: expect.any(Date),
+    };
+    expect(updatePagePublicationByPageIdRepositorySpy).toHaveBeenCalledWith({
+      pageId: mockPage().id,
+      publication,
+    });
+    expect(response).toEqual(publication);
+  });
+
+  it('should keep the slug of a page that is already published', async () => {
+    const { sut, getPageByIdRepositoryStub, tokenGeneratorStub } = makeSut();
+    jest
+      .spyOn(getPageByIdRepositoryStub, 'getPageById')
+      .mockImplementation(async () => mockPublishedPage());
+    const generateTokenSpy = jest.spyOn(tokenGeneratorStub, 'generateToken');
+
+    const response = await sut.execute({
+      pageId: mockPage().id,
+      expiresInDays: 7,
+    });
+
+    expect(generateTokenSpy).not.toHaveBeenCalled();
+    expect(response).toMatchObject({
+      slug: 'sample-public-slug',
+      expiresAt: expect.any(Date),
+    });
+  });
+
+  it('should return a PageNotFoundError if the page does not exist', async () => {
+    const { sut, getPageByIdRepositoryStub } = makeSut();
+    jest
+      .spyOn(getPageByIdRepositoryStub, 'getPageById')
+      .mockImplementation(async () => null);
+
+    const response = await sut.execute({ pageId: mockPage().id });
+
+    expect(response).toEqual(new PageNotFoundError());
+  });
+});
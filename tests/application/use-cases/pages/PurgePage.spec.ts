@@ -0,0 +1,121 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { PurgePage } from '@application/use-cases/pages/PurgePage';
+import mockPage from '@tests/domain/mock-page';
+import mockUser from '@tests/domain/mock-user';
+import { CreateAuditLogEntryRepositoryStub } from '@tests/infrastructure/mocks/auditLogs/repositories';
+import {
+  GetTrashedPagesByPageIdRepositoryStub,
+  PurgeTrashedPagesRepositoryStub,
+} from '@tests/infrastructure/mocks/pages/repositories';
+
+type SutTypes = {
+  sut: PurgePage;
+  getTrashedPagesByPageIdRepositoryStub: GetTrashedPagesByPageIdRepositoryStub;
+  purgeTrashedPagesRepositoryStub: PurgeTrashedPagesRepositoryStub;
+  createAuditLogEntryRepositoryStub: CreateAuditLogEntryRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getTrashedPagesByPageIdRepositoryStub =
+    new GetTrashedPagesByPageIdRepositoryStub();
+  const purgeTrashedPagesRepositoryStub = new PurgeTrashedPagesRepositoryStub();
+  const createAuditLogEntryRepositoryStub =
+    new CreateAuditLogEntryRepositoryStub();
+  const sut = new PurgePage(
+    getTrashedPagesByPageIdRepositoryStub,
+    purgeTrashedPagesRepositoryStub,
+    createAuditLogEntryRepositoryStub
+  );
+  return {
+    sut,
+    getTrashedPagesByPageIdRepositoryStub,
+    purgeTrashedPagesRepositoryStub,
+    createAuditLogEntryRepositoryStub,
+  };
+};
+
+describe('PurgePage', () => {
+  it('should permanently delete the trashed page and its subtree', async () => {
+    const { sut, purgeTrashedPagesRepositoryStub } = makeSut();
+    const purgeTrashedPagesRepositorySpy = jest.spyOn(
+      purgeTrashedPagesRepositoryStub,
+      'purgeTrashedPages'
+    );
+    const { id, workspaceId } = mockPage();
+
+    const response = await sut.execute({ workspaceId, pageId: id });
+
+    expect(purgeTrashedPagesRepositorySpy).toHaveBeenCalledWith(id);
+    expect(response).toBeUndefined();
+  });
+
+  it('should return a PageNotFoundError if the page is not in the trash', async () => {
+    const {
+      sut,
+      getTrashedPagesByPageIdRepositoryStub,
+      purgeTrashedPagesRepositoryStub,
+    } = makeSut();
+    jest
+      .spyOn(getTrashedPagesByPageIdRepositoryStub, 'getTrashedPagesByPageId')
+      .mockImplementation(async () => []);
+    const purgeTrashedPagesRepositorySpy = jest.spyOn(
+      purgeTrashedPagesRepositoryStub,
+      'purgeTrashedPages'
+    );
+    const { id, workspaceId } = mockPage();
+
+    const response = await sut.execute({ workspaceId, pageId: id });
+
+    expect(response).toEqual(new PageNotFoundError());
+    expect(purgeTrashedPagesRepositorySpy).not.toHaveBeenCalled();
+  });
+
+  it('should return a PageNotFoundError if the page belongs to another workspace', async () => {
+    const { sut } = makeSut();
+
+    const response = await sut.execute({
+      workspaceId: 'another-workspace-id',
+      pageId: mockPage().id,
+    });
+
+    expect(response).toEqual(new PageNotFoundError());
+  });
+
+  it('should record purges made by a user in the audit log', async () => {
+    const { sut, createAuditLogEntryRepositoryStub } = makeSut();
+    const createAuditLogEntryRepositorySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+    const { id, workspaceId } = mockPage();
+
+    await sut.execute({
+      workspaceId,
+      pageId: id,
+      actorId: mockUser().id,
+      ip: '127.0.0.1',
+    });
+
+    expect(createAuditLogEntryRepositorySpy).toHaveBeenCalledWith({
+      action: 'page.purge',
+      actorId: mockUser().id,
+      targetType: 'page',
+      targetId: id,
+      workspaceId,
+      ip: '127.0.0.1',
+    });
+  });
+
+  it('should not record purges made by the retention job', async () => {
+    const { sut, createAuditLogEntryRepositoryStub } = makeSut();
+    const createAuditLogEntryRepositorySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+    const { id, workspaceId } = mockPage();
+
+    await sut.execute({ workspaceId, pageId: id });
+
+    expect(createAuditLogEntryRepositorySpy).not.toHaveBeenCalled();
+  });
+});
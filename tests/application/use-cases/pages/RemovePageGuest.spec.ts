@@ -0,0 +1,45 @@
+import { PageGuestNotFoundError } from '@application/errors/PageGuestNotFoundError';
+import { RemovePageGuest } from '@application/use-cases/pages/RemovePageGuest';
+import mockPageGuest from '@tests/domain/mock-page-guest';
+import { RemovePageGuestRepositoryStub } from '@tests/infrastructure/mocks/pageGuests/repositories';
+
+type SutTypes = {
+  sut: RemovePageGuest;
+  removePageGuestRepositoryStub: RemovePageGuestRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const removePageGuestRepositoryStub = new RemovePageGuestRepositoryStub();
+  const sut = new RemovePageGuest(removePageGuestRepositoryStub);
+  return {
+    sut,
+    removePageGuestRepositoryStub,
+  };
+};
+
+describe('RemovePageGuest', () => {
+  it('should call RemovePageGuestRepository with correct params', async () => {
+    const { sut, removePageGuestRepositoryStub } = makeSut();
+    const removePageGuestRepositorySpy = jest.spyOn(
+      removePageGuestRepositoryStub,
+      'removePageGuest'
+    );
+    const { pageId, userId } = mockPageGuest();
+    const response = await sut.execute({ pageId, userId });
+    expect(removePageGuestRepositorySpy).toHaveBeenCalledWith({
+      pageId,
+      userId,
+    });
+    expect(response).toBeUndefined();
+  });
+
+  it('should return a PageGuestNotFoundError if the user is not a guest of the page', async () => {
+    const { sut, removePageGuestRepositoryStub } = makeSut();
+    jest
+      .spyOn(removePageGuestRepositoryStub, 'removePageGuest')
+      .mockImplementation(async () => false);
+    const { pageId, userId } = mockPageGuest();
+    const response = await sut.execute({ pageId, userId });
+    expect(response).toEqual(new PageGuestNotFoundError());
+  });
+});
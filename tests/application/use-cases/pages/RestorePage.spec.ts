@@ -0,0 +1,179 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { RestorePage } from '@application/use-cases/pages/RestorePage';
+import { Page } from '@domain/entities/Page';
+import mockPage, { mockTrashedPage } from '@tests/domain/mock-page';
+import mockUser from '@tests/domain/mock-user';
+import { CreateAuditLogEntryRepositoryStub } from '@tests/infrastructure/mocks/auditLogs/repositories';
+import {
+  GetPageByIdRepositoryStub,
+  GetTrashedPagesByPageIdRepositoryStub,
+  RestorePagesRepositoryStub,
+} from '@tests/infrastructure/mocks/pages/repositories';
+
+type SutTypes = {
+  sut: RestorePage;
+  getTrashedPagesByPageIdRepositoryStub: GetTrashedPagesByPageIdRepositoryStub;
+  getPageByIdRepositoryStub: GetPageByIdRepositoryStub;
+  restorePagesRepositoryStub: RestorePagesRepositoryStub;
+  createAuditLogEntryRepositoryStub: CreateAuditLogEntryRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getTrashedPagesByPageIdRepositoryStub =
+    new GetTrashedPagesByPageIdRepositoryStub();
+  const getPageByIdRepositoryStub = new GetPageByIdRepositoryStub();
+  const restorePagesRepositoryStub = new RestorePagesRepositoryStub();
+  const createAuditLogEntryRepositoryStub =
+    new CreateAuditLogEntryRepositoryStub();
+  const sut = new RestorePage(
+    getTrashedPagesByPageIdRepositoryStub,
+    getPageByIdRepositoryStub,
+    restorePagesRepositoryStub,
+    createAuditLogEntryRepositoryStub
+  );
+  return {
+    sut,
+    getTrashedPagesByPageIdRepositoryStub,
+    getPageByIdRepositoryStub,
+    restorePagesRepositoryStub,
+    createAuditLogEntryRepositoryStub,
+  };
+};
+
+const makeFakeParent = (): Page =>
+  new Page({
+    ...mockPage(),
+    id: '112233445566778899bbccff',
+    reference: 'sample-parent',
+    parentId: 'sample-root-id',
+    ancestors: ['sample-root-id'],
+  });
+
+const makeFakeRequest = () => {
+  const { id, workspaceId } = mockTrashedPage();
+  return {
+    workspaceId,
+    pageId: id,
+    actorId: mockUser().id,
+    ip: '127.0.0.1',
+  };
+};
+
+describe('RestorePage', () => {
+  it('should restore the subtree below its previous parent', async () => {
+    const { sut, getPageByIdRepositoryStub, restorePagesRepositoryStub } =
+      makeSut();
+    const getPageByIdRepositorySpy = jest
+      .spyOn(getPageByIdRepositoryStub, 'getPageById')
+      .mockImplementation(async () => makeFakeParent());
+    const restorePagesRepositorySpy = jest.spyOn(
+      restorePagesRepositoryStub,
+      'restorePages'
+    );
+    const { id } = mockTrashedPage();
+    const ancestors = ['sample-root-id', '112233445566778899bbccff'];
+
+    await sut.execute(makeFakeRequest());
+
+    expect(getPageByIdRepositorySpy).toHaveBeenCalledWith(
+      '112233445566778899bbccff'
+    );
+    expect(restorePagesRepositorySpy).toHaveBeenCalledWith({
+      pages: [
+        { pageId: id, parentId: '112233445566778899bbccff', ancestors },
+        {
+          pageId: '112233445566778899bbccbb',
+          parentId: id,
+          ancestors: [...ancestors, id],
+        },
+      ],
+    });
+  });
+
+  it('should restore the subtree to the root if its parent is gone', async () => {
+    const { sut, getPageByIdRepositoryStub } = makeSut();
+    jest
+      .spyOn(getPageByIdRepositoryStub, 'getPageById')
+      .mockImplementation(async () => null);
+    const { id } = mockTrashedPage();
+
+    const response = (await sut.execute(makeFakeRequest())) as Page[];
+
+    expect(response[0]).toMatchObject({ parentId: null, ancestors: [] });
+    expect(response[1]).toMatchObject({ parentId: id, ancestors: [id] });
+  });
+
+  it('should restore the subtree to the root if its parent is in the trash', async () => {
+    const { sut, getPageByIdRepositoryStub } = makeSut();
+    jest
+      .spyOn(getPageByIdRepositoryStub, 'getPageById')
+      .mockImplementation(
+        async () => new Page({ ...makeFakeParent(), trashedAt: new Date() })
+      );
+
+    const response = (await sut.execute(makeFakeRequest())) as Page[];
+
+    expect(response[0]).toMatchObject({ parentId: null, ancestors: [] });
+  });
+
+  it('should return the restored pages without their trash fields', async () => {
+    const { sut } = makeSut();
+
+    const response = (await sut.execute(makeFakeRequest())) as Page[];
+
+    expect(response[0].id).toBe(mockTrashedPage().id);
+    expect(response.every(page => page.trashedAt === null)).toBe(true);
+    expect(response.every(page => page.trashedWithPageId === null)).toBe(true);
+  });
+
+  it('should return a PageNotFoundError if the page is not in the trash', async () => {
+    const {
+      sut,
+      getTrashedPagesByPageIdRepositoryStub,
+      restorePagesRepositoryStub,
+    } = makeSut();
+    jest
+      .spyOn(getTrashedPagesByPageIdRepositoryStub, 'getTrashedPagesByPageId')
+      .mockImplementation(async () => []);
+    const restorePagesRepositorySpy = jest.spyOn(
+      restorePagesRepositoryStub,
+      'restorePages'
+    );
+
+    const response = await sut.execute(makeFakeRequest());
+
+    expect(response).toEqual(new PageNotFoundError());
+    expect(restorePagesRepositorySpy).not.toHaveBeenCalled();
+  });
+
+  it('should return a PageNotFoundError if the page belongs to another workspace', async () => {
+    const { sut } = makeSut();
+
+    const response = await sut.execute({
+      ...makeFakeRequest(),
+      workspaceId: 'another-workspace-id',
+    });
+
+    expect(response).toEqual(new PageNotFoundError());
+  });
+
+  it('should record the restore in the audit log', async () => {
+    const { sut, createAuditLogEntryRepositoryStub } = makeSut();
+    const createAuditLogEntryRepositorySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+    const { id, workspaceId } = mockTrashedPage();
+
+    await sut.execute(makeFakeRequest());
+
+    expect(createAuditLogEntryRepositorySpy).toHaveBeenCalledWith({
+      action: 'page.restore',
+      actorId: mockUser().id,
+      targetType: 'page',
+      targetId: id,
+      workspaceId,
+      ip: '127.0.0.1',
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { UnpublishPage } from '@application/use-cases/pages/UnpublishPage';
+import mockPage from '@tests/domain/mock-page';
+import {
+  GetPageByIdRepositoryStub,
+  UpdatePagePublicationByPageIdRepositoryStub,
+} from '@tests/infrastructure/mocks/pages/repositories';
+
+type SutTypes = {
+  sut: UnpublishPage;
+  getPageByIdRepositoryStub: GetPageByIdRepositoryStub;
+  updatePagePublicationByPageIdRepositoryStub: UpdatePagePublicationByPageIdRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getPageByIdRepositoryStub = new GetPageByIdRepositoryStub();
+  const updatePagePublicationByPageIdRepositoryStub =
+    new UpdatePagePublicationByPageIdRepositoryStub();
+  const sut = new UnpublishPage(
+    getPageByIdRepositoryStub,
+    updatePagePublicationByPageIdRepositoryStub
+  );
+  return {
+    sut,
+    getPageByIdRepositoryStub,
+    updatePagePublicationByPageIdRepositoryStub,
+  };
+};
+
+describe('UnpublishPage', () => {
+  it('should remove the publication of the page', async () => {
+    const { sut, updatePagePublicationByPageIdRepositoryStub } = makeSut();
+    const updatePagePublicationByPageIdRepositorySpy = jest.spyOn(
+      updatePagePublicationByPageIdRepositoryStub,
+      'updatePagePublicationByPageId'
+    );
+
+    const response = await sut.execute(mockPage().id);
+
+    expect(updatePagePublicationByPageIdRepositorySpy).toHaveBeenCalledWith({
+      pageId: mockPage().id,
+      publication: null,
+    });
+    expect(response).toBeUndefined();
+  });
+
+  it('should return a PageNotFoundError if the page does not exist', async () => {
+    const { sut, getPageByIdRepositoryStub } = makeSut();
+    jest
+      .spyOn(getPageByIdRepositoryStub, 'getPageById')
+      .mockImplementation(async () => null);
+
+    const response = await sut.execute(mockPage().id);
+
+    expect(response).toEqual(new PageNotFoundError());
+  });
+});
@@ -1,6 +1,7 @@
+import { PageLockedError } from '@application/errors/PageLockedError';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { UpdatePageContentByPageId } from '@application/use-cases/pages/UpdatePageContentByPageId';
-import mockPage from '@tests/domain/mock-page';
+import mockPage, { mockLockedPage } from '@tests/domain/mock-page';
 import {
   GetPageByIdRepositoryStub,
   UpdatePageContentByPageIdRepositoryStub,
@@ -70,4 +71,28 @@ describe('UpdatePageContentByPageId', () => {
 
     expect(response).toEqual(page);
   });
+
+  it('should return a PageLockedError if the page is locked', async () => {
+    const {
+      sut,
+      getPageByIdRepositoryStub,
+      updatePageContentByPageIdRepositoryStub,
+    } = makeSut();
+    jest
+      .spyOn(getPageByIdRepositoryStub, 'getPageById')
+      .mockImplementation(async () => mockLockedPage());
+    const updatePageContentByPageIdRepositorySpy = jest.spyOn(
+      updatePageContentByPageIdRepositoryStub,
+      'updatePageContentByPageId'
+    );
+
+    const page = mockLockedPage();
+    const response = await sut.execute({
+      pageId: page.id,
+      content: page.content,
+    });
+
+    expect(updatePageContentByPageIdRepositorySpy).not.toHaveBeenCalled();
+    expect(response).toEqual(new PageLockedError());
+  });
 });
@@ -1,6 +1,7 @@
+import { PageLockedError } from '@application/errors/PageLockedError';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { UpdatePageCoverByPageId } from '@application/use-cases/pages/UpdatePageCoverByPageId';
-import mockPage from '@tests/domain/mock-page';
+import mockPage, { mockLockedPage } from '@tests/domain/mock-page';
 import {
   GetPageByIdRepositoryStub,
   UpdatePageCoverByPageIdRepositoryStub,
@@ -74,4 +75,29 @@ describe('UpdatePageCoverByPageId', () => {
 
     expect(response).toEqual(page);
   });
+
+  it('should return a PageLockedError if the page is locked', async () => {
+    const {
+      sut,
+      getPageByIdRepositoryStub,
+      updatePageCoverByPageIdRepositoryStub,
+    } = makeSut();
+    jest
+      .spyOn(getPageByIdRepositoryStub, 'getPageById')
+      .mockImplementation(async () => mockLockedPage());
+    const updatePageCoverByPageIdRepositorySpy = jest.spyOn(
+      updatePageCoverByPageIdRepositoryStub,
+      'updatePageCoverByPageId'
+    );
+
+    const page = mockLockedPage();
+    const response = await sut.execute({
+      pageId: page.id,
+      url: page.coverPicture.url,
+      verticalPosition: page.coverPicture.verticalPosition,
+    });
+
+    expect(updatePageCoverByPageIdRepositorySpy).not.toHaveBeenCalled();
+    expect(response).toEqual(new PageLockedError());
+  });
 });
@@ -1,6 +1,7 @@
+import { PageLockedError } from '@application/errors/PageLockedError';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { UpdatePageIconByPageId } from '@application/use-cases/pages/UpdatePageIconByPageId';
-import mockPage from '@tests/domain/mock-page';
+import mockPage, { mockLockedPage } from '@tests/domain/mock-page';
 import {
   GetPageByIdRepositoryStub,
   UpdatePageIconByPageIdRepositoryStub,
@@ -70,4 +71,25 @@ describe('UpdatePageIconByPageId', () => {
 
     expect(response).toEqual(page);
   });
+
+  it('should return a PageLockedError if the page is locked', async () => {
+    const {
+      sut,
+      getPageByIdRepositoryStub,
+      updatePageIconByPageIdRepositoryStub,
+    } = makeSut();
+    jest
+      .spyOn(getPageByIdRepositoryStub, 'getPageById')
+      .mockImplementation(async () => mockLockedPage());
+    const updatePageIconByPageIdRepositorySpy = jest.spyOn(
+      updatePageIconByPageIdRepositoryStub,
+      'updatePageIconByPageId'
+    );
+
+    const page = mockLockedPage();
+    const response = await sut.execute({ pageId: page.id, icon: page.icon });
+
+    expect(updatePageIconByPageIdRepositorySpy).not.toHaveBeenCalled();
+    expect(response).toEqual(new PageLockedError());
+  });
 });
@@ -1,6 +1,9 @@
+import { PageLockedError } from '@application/errors/PageLockedError';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { UpdatePageSettingsByPageId } from '@application/use-cases/pages/UpdatePageSettingsByPageId';
-import mockPage from '@tests/domain/mock-page';
+import mockPage, { mockLockedPage } from '@tests/domain/mock-page';
+import mockUser from '@tests/domain/mock-user';
+import { CreateAuditLogEntryRepositoryStub } from '@tests/infrastructure/mocks/auditLogs/repositories';
 import {
   GetPageByIdRepositoryStub,
   UpdatePageSettingsByPageIdRepositoryStub,
@@ -10,20 +13,25 @@ type SutTypes = {
   sut: UpdatePageSettingsByPageId;
   getPageByIdRepositoryStub: GetPageByIdRepositoryStub;
   updatePageSettingsByPageIdRepositoryStub: UpdatePageSettingsByPageIdRepositoryStub;
+  createAuditLogEntryRepositoryStub: CreateAuditLogEntryRepositoryStub;
 };
 
 const makeSut = (): SutTypes => {
   const getPageByIdRepositoryStub = new GetPageByIdRepositoryStub();
   const updatePageSettingsByPageIdRepositoryStub =
     new UpdatePageSettingsByPageIdRepositoryStub();
+  const createAuditLogEntryRepositoryStub =
+    new CreateAuditLogEntryRepositoryStub();
   const sut = new UpdatePageSettingsByPageId(
     getPageByIdRepositoryStub,
-    updatePageSettingsByPageIdRepositoryStub
+    updatePageSettingsByPageIdRepositoryStub,
+    createAuditLogEntryRepositoryStub
   );
   return {
     sut,
     getPageByIdRepositoryStub,
     updatePageSettingsByPageIdRepositoryStub,
+    createAuditLogEntryRepositoryStub,
   };
 };
 
@@ -38,6 +46,7 @@ describe('updatePageSettingsByPageId', () => {
     await sut.execute({
       pageId: id,
       settings: pageSettings,
+      actorId: mockUser().id,
     });
     expect(updatePageSettingsByPageIdRepositorySpy).toHaveBeenCalledWith({
       pageId: id,
@@ -55,6 +64,7 @@ describe('updatePageSettingsByPageId', () => {
     const response = await sut.execute({
       pageId: id,
       settings: pageSettings,
+      actorId: mockUser().id,
     });
     expect(response).toEqual(new PageNotFoundError());
   });
@@ -66,8 +76,110 @@ describe('updatePageSettingsByPageId', () => {
     const response = await sut.execute({
       pageId: page.id,
       settings: page.pageSettings,
+      actorId: mockUser().id,
     });
 
     expect(response).toEqual(page);
   });
+
+  it('should return a PageLockedError if the page is locked', async () => {
+    const {
+      sut,
+      getPageByIdRepositoryStub,
+      updatePageSettingsByPageIdRepositoryStub,
+    } = makeSut();
+    jest
+      .spyOn(getPageByIdRepositoryStub, 'getPageById')
+      .mockImplementation(async () => mockLockedPage());
+    const updatePageSettingsByPageIdRepositorySpy = jest.spyOn(
+      updatePageSettingsByPageIdRepositoryStub,
+      'updatePageSettingsByPageId'
+    );
+
+    const page = mockLockedPage();
+    const response = await sut.execute({
+      pageId: page.id,
+      settings: page.pageSettings,
+      actorId: mockUser().id,
+    });
+
+    expect(updatePageSettingsByPageIdRepositorySpy).not.toHaveBeenCalled();
+    expect(response).toEqual(new PageLockedError());
+  });
+
+  it('should return a PageLockedError if the unlock changes other settings too', async () => {
+    const {
+      sut,
+      getPageByIdRepositoryStub,
+      updatePageSettingsByPageIdRepositoryStub,
+    } = makeSut();
+    jest
+      .spyOn(getPageByIdRepositoryStub, 'getPageById')
+      .mockImplementation(async () => mockLockedPage());
+    const updatePageSettingsByPageIdRepositorySpy = jest.spyOn(
+      updatePageSettingsByPageIdRepositoryStub,
+      'updatePageSettingsByPageId'
+    );
+
+    const page = mockPage();
+    const response = await sut.execute({
+      pageId: page.id,
+      settings: { ...page.pageSettings, font: 'mono', fullWidth: false },
+      actorId: mockUser().id,
+    });
+
+    expect(updatePageSettingsByPageIdRepositorySpy).not.toHaveBeenCalled();
+    expect(response).toEqual(new PageLockedError());
+  });
+
+  it('should unlock a locked page', async () => {
+    const {
+      sut,
+      getPageByIdRepositoryStub,
+      updatePageSettingsByPageIdRepositoryStub,
+    } = makeSut();
+    jest
+      .spyOn(getPageByIdRepositoryStub, 'getPageById')
+      .mockImplementation(async () => mockLockedPage());
+    const updatePageSettingsByPageIdRepositorySpy = jest.spyOn(
+      updatePageSettingsByPageIdRepositoryStub,
+      'updatePageSettingsByPageId'
+    );
+
+    const page = mockPage();
+    await sut.execute({
+      pageId: page.id,
+      settings: page.pageSettings,
+      actorId: mockUser().id,
+    });
+
+    expect(updatePageSettingsByPageIdRepositorySpy).toHaveBeenCalledWith({
+      pageId: page.id,
+      pageSettings: page.pageSettings,
+    });
+  });
+
+  it('should record the settings change in the audit log', async () => {
+    const { sut, createAuditLogEntryRepositoryStub } = makeSut();
+    const createAuditLogEntryRepositorySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+    const { id, workspaceId, pageSettings } = mockPage();
+    await sut.execute({
+      pageId: id,
+      settings: pageSettings,
+      actorId: mockUser().id,
+      ip: '127.0.0.1',
+    });
+
+    expect(createAuditLogEntryRepositorySpy).toHaveBeenCalledWith({
+      action: 'page.settings_update',
+      actorId: mockUser().id,
+      targetType: 'page',
+      targetId: id,
+      workspaceId,
+      ip: '127.0.0.1',
+    });
+  });
 });
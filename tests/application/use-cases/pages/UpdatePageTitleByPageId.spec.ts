@@ -1,6 +1,7 @@
+import { PageLockedError } from '@application/errors/PageLockedError';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { UpdatePageTitleByPageId } from '@application/use-cases/pages/UpdatePageTitleByPageId';
-import mockPage from '@tests/domain/mock-page';
+import mockPage, { mockLockedPage } from '@tests/domain/mock-page';
 import {
   GetPageByIdRepositoryStub,
   UpdatePageTitleByPageIdRepositoryStub,
@@ -70,4 +71,25 @@ describe('UpdatePageTitleByPageId', () => {
 
     expect(response).toEqual(page);
   });
+
+  it('should return a PageLockedError if the page is locked', async () => {
+    const {
+      sut,
+      getPageByIdRepositoryStub,
+      updatePageTitleByPageIdRepositoryStub,
+    } = makeSut();
+    jest
+      .spyOn(getPageByIdRepositoryStub, 'getPageById')
+      .mockImplementation(async () => mockLockedPage());
+    const updatePageTitleByPageIdRepositorySpy = jest.spyOn(
+      updatePageTitleByPageIdRepositoryStub,
+      'updatePageTitleByPageId'
+    );
+
+    const page = mockLockedPage();
+    const response = await sut.execute({ pageId: page.id, title: page.title });
+
+    expect(updatePageTitleByPageIdRepositorySpy).not.toHaveBeenCalled();
+    expect(response).toEqual(new PageLockedError());
+  });
 });
@@ -1,3 +1,4 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
 import { UserNotFoundError } from '@application/errors/UserNotFoundError';
 import { AddWorkspaceByUserId } from '@application/use-cases/users/AddWorkspaceByUserId';
 import mockUser from '@tests/domain/mock-user';
@@ -5,26 +6,39 @@ import {
   AddWorkspaceByUserIdRepositoryStub,
   GetUserByIdRepositoryStub,
 } from '@tests/infrastructure/mocks/users/repositories';
+import { GetAllMembersByWorkspaceIdRepositoryStub } from '@tests/infrastructure/mocks/workspaces/repositories';
+import mockWorkspace from '@tests/domain/mock-workspace';
 
 type SutTypes = {
   sut: AddWorkspaceByUserId;
   getUserByIdRepositoryStub: GetUserByIdRepositoryStub;
   addWorkspaceByUserIdRepositoryStub: AddWorkspaceByUserIdRepositoryStub;
+  getAllMembersByWorkspaceIdRepositoryStub: GetAllMembersByWorkspaceIdRepositoryStub;
 };
 
 const makesSut = (): SutTypes => {
   const getUserByIdRepositoryStub = new GetUserByIdRepositoryStub();
   const addWorkspaceByUserIdRepositoryStub =
     new AddWorkspaceByUserIdRepositoryStub();
+  const getAllMembersByWorkspaceIdRepositoryStub =
+    new GetAllMembersByWorkspaceIdRepositoryStub();
+  jest
+    .spyOn(
+      getAllMembersByWorkspaceIdRepositoryStub,
+      'getAllMembersByWorkspaceId'
+    )
+    .mockImplementation(async () => mockWorkspace().members);
   const sut = new AddWorkspaceByUserId(
     getUserByIdRepositoryStub,
-    addWorkspaceByUserIdRepositoryStub
+    addWorkspaceByUserIdRepositoryStub,
+    getAllMembersByWorkspaceIdRepositoryStub
   );
 
   return {
     sut,
     getUserByIdRepositoryStub,
     addWorkspaceByUserIdRepositoryStub,
+    getAllMembersByWorkspaceIdRepositoryStub,
   };
 };
 
@@ -70,4 +84,36 @@ describe('AddWorkspaceByUserId', () => {
 
     expect(response).toEqual(new UserNotFoundError());
   });
+
+  it('should return ForbiddenError if the user is not a member of the workspace', async () => {
+    const {
+      sut,
+      addWorkspaceByUserIdRepositoryStub,
+      getAllMembersByWorkspaceIdRepositoryStub,
+    } = makesSut();
+    const addWorkspaceByUserIdRepositorySpy = jest.spyOn(
+      addWorkspaceByUserIdRepositoryStub,
+      'addWorkspaceByUserId'
+    );
+    jest
+      .spyOn(
+        getAllMembersByWorkspaceIdRepositoryStub,
+        'getAllMembersByWorkspaceId'
+      )
+      .mockImplementation(async () => [
+        { userId: 'sample-member-1', role: 'owner' },
+      ]);
+    const { id, workspaces } = mockUser();
+    const { workspaceId, workspaceName, workspaceIcon } = workspaces[0];
+
+    const response = await sut.execute({
+      userId: id,
+      workspaceId,
+      workspaceName,
+      workspaceIcon,
+    });
+
+    expect(response).toEqual(new ForbiddenError());
+    expect(addWorkspaceByUserIdRepositorySpy).not.toHaveBeenCalled();
+  });
 });
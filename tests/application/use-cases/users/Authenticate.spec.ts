@@ -1,19 +1,42 @@
 import { ForbiddenError } from '@application/errors/ForbiddenError';
 import { Authenticate } from '@application/use-cases/users/Authenticate';
-import { JWTVerifierStub } from '@tests/infrastructure/mocks/users/cryptography';
+import mockApiToken from '@tests/domain/mock-api-token';
+import {
+  GetApiTokenByHashRepositoryStub,
+  UpdateApiTokenLastUsedAtRepositoryStub,
+} from '@tests/infrastructure/mocks/apiTokens/repositories';
+import {
+  JWTVerifierStub,
+  TokenHasherStub,
+} from '@tests/infrastructure/mocks/users/cryptography';
 
 type SutTypes = {
   sut: Authenticate;
   jwtVerifierStub: JWTVerifierStub;
+  tokenHasherStub: TokenHasherStub;
+  getApiTokenByHashRepositoryStub: GetApiTokenByHashRepositoryStub;
+  updateApiTokenLastUsedAtRepositoryStub: UpdateApiTokenLastUsedAtRepositoryStub;
 };
 
 const makesSut = (): SutTypes => {
   const jwtVerifierStub = new JWTVerifierStub();
-  const sut = new Authenticate(jwtVerifierStub);
+  const tokenHasherStub = new TokenHasherStub();
+  const getApiTokenByHashRepositoryStub = new GetApiTokenByHashRepositoryStub();
+  const updateApiTokenLastUsedAtRepositoryStub =
+    new UpdateApiTokenLastUsedAtRepositoryStub();
+  const sut = new Authenticate(
+    jwtVerifierStub,
+    tokenHasherStub,
+    getApiTokenByHashRepositoryStub,
+    updateApiTokenLastUsedAtRepositoryStub
+  );
 
   return {
     sut,
     jwtVerifierStub,
+    tokenHasherStub,
+    getApiTokenByHashRepositoryStub,
+    updateApiTokenLastUsedAtRepositoryStub,
   };
 };
 
@@ -41,4 +64,107 @@ describe('Authenticate', () => {
 
     expect(response).toEqual(new ForbiddenError());
   });
+
+  it('should return the user id of a verified access token', async () => {
+    const { sut, jwtVerifierStub, getApiTokenByHashRepositoryStub } =
+      makesSut();
+
+    jest
+      .spyOn(jwtVerifierStub, 'verifyAccessToken')
+      .mockImplementation(async () => {
+        return { userId: 'sample-user-id' } as unknown as string;
+      });
+    const getApiTokenByHashRepositorySpy = jest.spyOn(
+      getApiTokenByHashRepositoryStub,
+      'getApiTokenByHash'
+    );
+
+    const response = await sut.execute('sample-auth-token');
+
+    expect(response).toEqual({ userId: 'sample-user-id' });
+    expect(getApiTokenByHashRepositorySpy).not.toHaveBeenCalled();
+  });
+
+  it('should look up API tokens by their hash instead of verifying a JWT', async () => {
+    const {
+      sut,
+      jwtVerifierStub,
+      tokenHasherStub,
+      getApiTokenByHashRepositoryStub,
+    } = makesSut();
+    const jwtVerifierSpy = jest.spyOn(jwtVerifierStub, 'verifyAccessToken');
+    const tokenHasherSpy = jest.spyOn(tokenHasherStub, 'hashToken');
+    const getApiTokenByHashRepositorySpy = jest.spyOn(
+      getApiTokenByHashRepositoryStub,
+      'getApiTokenByHash'
+    );
+
+    await sut.execute('ntn_sample-api-token');
+
+    expect(jwtVerifierSpy).not.toHaveBeenCalled();
+    expect(tokenHasherSpy).toHaveBeenCalledWith('ntn_sample-api-token');
+    expect(getApiTokenByHashRepositorySpy).toHaveBeenCalledWith(
+      'sample-token-hash'
+    );
+  });
+
+  it('should return ForbiddenError if the API token does not exist', async () => {
+    const { sut, getApiTokenByHashRepositoryStub } = makesSut();
+
+    jest
+      .spyOn(getApiTokenByHashRepositoryStub, 'getApiTokenByHash')
+      .mockImplementation(async () => {
+        return null;
+      });
+
+    const response = await sut.execute('ntn_sample-api-token');
+
+    expect(response).toEqual(new ForbiddenError());
+  });
+
+  it('should return ForbiddenError if the API token has expired', async () => {
+    const {
+      sut,
+      getApiTokenByHashRepositoryStub,
+      updateApiTokenLastUsedAtRepositoryStub,
+    } = makesSut();
+
+    jest
+      .spyOn(getApiTokenByHashRepositoryStub, 'getApiTokenByHash')
+      .mockImplementation(async () => {
+        return { ...mockApiToken(), expiresAt: new Date(Date.now() - 1000) };
+      });
+    const updateApiTokenLastUsedAtRepositorySpy = jest.spyOn(
+      updateApiTokenLastUsedAtRepositoryStub,
+      'updateApiTokenLastUsedAt'
+    );
+
+    const response = await sut.execute('ntn_sample-api-token');
+
+    expect(response).toEqual(new ForbiddenError());
+    expect(updateApiTokenLastUsedAtRepositorySpy).not.toHaveBeenCalled();
+  });
+
+  it('should record when the API token was used', async () => {
+    const { sut, updateApiTokenLastUsedAtRepositoryStub } = makesSut();
+    const updateApiTokenLastUsedAtRepositorySpy = jest.spyOn(
+      updateApiTokenLastUsedAtRepositoryStub,
+      'updateApiTokenLastUsedAt'
+    );
+
+    await sut.execute('ntn_sample-api-token');
+
+    expect(updateApiTokenLastUsedAtRepositorySpy).toHaveBeenCalledWith(
+      mockApiToken().id
+    );
+  });
+
+  it('should return the owner and grants of a valid API token', async () => {
+    const { sut } = makesSut();
+    const { userId, scopes, workspaceId } = mockApiToken();
+
+    const response = await sut.execute('ntn_sample-api-token');
+
+    expect(response).toEqual({ userId, apiToken: { scopes, workspaceId } });
+  });
 });
@@ -0,0 +1,182 @@
+import { InvalidPasswordError } from '@application/errors/InvalidPasswordError';
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
+import { ChangePassword } from '@application/use-cases/users/ChangePassword';
+import { CreateAuditLogEntryRepositoryStub } from '@tests/infrastructure/mocks/auditLogs/repositories';
+import { User } from '@domain/entities/User';
+import mockUser from '@tests/domain/mock-user';
+import { DeleteTokensByUserIdRepositoryStub } from '@tests/infrastructure/mocks/tokens/repositories';
+import {
+  HashCompareStub,
+  HashGeneratorStub,
+} from '@tests/infrastructure/mocks/users/cryptography';
+import {
+  GetUserByIdRepositoryStub,
+  LoadUserByEmailRepositoryStub,
+  UpdatePasswordRepositoryStub,
+} from '@tests/infrastructure/mocks/users/repositories';
+
+type SutTypes = {
+  sut: ChangePassword;
+  getUserByIdRepositoryStub: GetUserByIdRepositoryStub;
+  loadUserByEmailRepositoryStub: LoadUserByEmailRepositoryStub;
+  hashCompareStub: HashCompareStub;
+  hashGeneratorStub: HashGeneratorStub;
+  updatePasswordRepositoryStub: UpdatePasswordRepositoryStub;
+  deleteTokensByUserIdRepositoryStub: DeleteTokensByUserIdRepositoryStub;
+  createAuditLogEntryRepositoryStub: CreateAuditLogEntryRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getUserByIdRepositoryStub = new GetUserByIdRepositoryStub();
+  const loadUserByEmailRepositoryStub = new LoadUserByEmailRepositoryStub();
+  const hashCompareStub = new HashCompareStub();
+  const hashGeneratorStub = new HashGeneratorStub();
+  const updatePasswordRepositoryStub = new UpdatePasswordRepositoryStub();
+  const deleteTokensByUserIdRepositoryStub =
+    new DeleteTokensByUserIdRepositoryStub();
+  const createAuditLogEntryRepositoryStub =
+    new CreateAuditLogEntryRepositoryStub();
+  // users are read by id without their password hash
+  jest
+    .spyOn(getUserByIdRepositoryStub, 'getUserById')
+    .mockImplementation(
+      async () =>
+        new User({ ...mockUser(), password: undefined as unknown as string })
+    );
+  const sut = new ChangePassword(
+    getUserByIdRepositoryStub,
+    loadUserByEmailRepositoryStub,
+    hashCompareStub,
+    hashGeneratorStub,
+    updatePasswordRepositoryStub,
+    deleteTokensByUserIdRepositoryStub,
+    createAuditLogEntryRepositoryStub
+  );
+  return {
+    sut,
+    getUserByIdRepositoryStub,
+    loadUserByEmailRepositoryStub,
+    hashCompareStub,
+    hashGeneratorStub,
+    updatePasswordRepositoryStub,
+    deleteTokensByUserIdRepositoryStub,
+    createAuditLogEntryRepositoryStub,
+  };
+};
+
+const makeRequest = () => {
+  const { id } = mockUser();
+  return {
+    userId: id,
+    currentPassword: 'sample-password',
+    newPassword: 'new-password',
+  };
+};
+
+describe('ChangePassword', () => {
+  it('should return a UserNotFoundError if the user does not exist', async () => {
+    const { sut, getUserByIdRepositoryStub } = makeSut();
+    jest
+      .spyOn(getUserByIdRepositoryStub, 'getUserById')
+      .mockImplementation(async () => null);
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new UserNotFoundError());
+  });
+
+  it('should return an InvalidPasswordError if the current password is wrong', async () => {
+    const { sut, hashCompareStub, updatePasswordRepositoryStub } = makeSut();
+    jest
+      .spyOn(hashCompareStub, 'compare')
+      .mockImplementation(async () => false);
+    const updatePasswordSpy = jest.spyOn(
+      updatePasswordRepositoryStub,
+      'updatePassword'
+    );
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new InvalidPasswordError());
+    expect(updatePasswordSpy).not.toHaveBeenCalled();
+  });
+
+  it('should compare the current password with the stored hash', async () => {
+    const { sut, loadUserByEmailRepositoryStub, hashCompareStub } = makeSut();
+    const loadUserByEmailSpy = jest.spyOn(
+      loadUserByEmailRepositoryStub,
+      'loadUserByEmail'
+    );
+    const compareSpy = jest.spyOn(hashCompareStub, 'compare');
+    const { email, password } = mockUser();
+
+    await sut.execute(makeRequest());
+
+    expect(loadUserByEmailSpy).toHaveBeenCalledWith(email);
+    expect(compareSpy).toHaveBeenCalledWith('sample-password', password);
+  });
+
+  it('should return an InvalidPasswordError if the stored hash cannot be loaded', async () => {
+    const { sut, loadUserByEmailRepositoryStub, hashCompareStub } = makeSut();
+    jest
+      .spyOn(loadUserByEmailRepositoryStub, 'loadUserByEmail')
+      .mockImplementation(async () => null);
+    const compareSpy = jest.spyOn(hashCompareStub, 'compare');
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new InvalidPasswordError());
+    expect(compareSpy).not.toHaveBeenCalled();
+  });
+
+  it('should store the hashed new password', async () => {
+    const { sut, hashGeneratorStub, updatePasswordRepositoryStub } = makeSut();
+    const hashSpy = jest.spyOn(hashGeneratorStub, 'hash');
+    const updatePasswordSpy = jest.spyOn(
+      updatePasswordRepositoryStub,
+      'updatePassword'
+    );
+    const { userId } = makeRequest();
+
+    await sut.execute(makeRequest());
+
+    expect(hashSpy).toHaveBeenCalledWith('new-password');
+    expect(updatePasswordSpy).toHaveBeenCalledWith({
+      userId,
+      password: 'sample-hash',
+    });
+  });
+
+  it('should revoke the sessions of the user and return the user', async () => {
+    const { sut, deleteTokensByUserIdRepositoryStub } = makeSut();
+    const deleteTokensByUserIdSpy = jest.spyOn(
+      deleteTokensByUserIdRepositoryStub,
+      'deleteTokensByUserId'
+    );
+    const { userId } = makeRequest();
+
+    const response = await sut.execute(makeRequest());
+
+    expect(deleteTokensByUserIdSpy).toHaveBeenCalledWith(userId);
+    expect(response).toMatchObject({ id: userId });
+  });
+
+  it('should record the revoked sessions in the audit log', async () => {
+    const { sut, createAuditLogEntryRepositoryStub } = makeSut();
+    const createAuditLogEntryRepositorySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+    const { userId } = makeRequest();
+
+    await sut.execute({ ...makeRequest(), ip: '127.0.0.1' });
+
+    expect(createAuditLogEntryRepositorySpy).toHaveBeenCalledWith({
+      action: 'user.sign_out_everywhere',
+      actorId: userId,
+      targetType: 'user',
+      targetId: userId,
+      ip: '127.0.0.1',
+    });
+  });
+});
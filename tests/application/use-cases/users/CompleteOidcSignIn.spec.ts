@@ -0,0 +1,257 @@
+import { IdentityProviderNotFoundError } from '@application/errors/IdentityProviderNotFoundError';
+import { InvalidTokenError } from '@application/errors/InvalidTokenError';
+import { UnverifiedEmailError } from '@application/errors/UnverifiedEmailError';
+import { CompleteOidcSignIn } from '@application/use-cases/users/CompleteOidcSignIn';
+import { IdentityProviderStub } from '@tests/infrastructure/mocks/identity';
+import {
+  ConsumeOidcStateRepositoryStub,
+  CreateIdentityRepositoryStub,
+  GetIdentityRepositoryStub,
+} from '@tests/infrastructure/mocks/identities/repositories';
+import { LoadUserByEmailRepositoryStub } from '@tests/infrastructure/mocks/users/repositories';
+import mockUser from '@tests/domain/mock-user';
+
+type SutTypes = {
+  sut: CompleteOidcSignIn;
+  identityProviderStub: IdentityProviderStub;
+  consumeOidcStateRepositoryStub: ConsumeOidcStateRepositoryStub;
+  getIdentityRepositoryStub: GetIdentityRepositoryStub;
+  loadUserByEmailRepositoryStub: LoadUserByEmailRepositoryStub;
+  createIdentityRepositoryStub: CreateIdentityRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const identityProviderStub = new IdentityProviderStub();
+  const consumeOidcStateRepositoryStub = new ConsumeOidcStateRepositoryStub();
+  const getIdentityRepositoryStub = new GetIdentityRepositoryStub();
+  const loadUserByEmailRepositoryStub = new LoadUserByEmailRepositoryStub();
+  const createIdentityRepositoryStub = new CreateIdentityRepositoryStub();
+  const sut = new CompleteOidcSignIn(
+    new Map([['sample-provider', identityProviderStub]]),
+    consumeOidcStateRepositoryStub,
+    getIdentityRepositoryStub,
+    loadUserByEmailRepositoryStub,
+    createIdentityRepositoryStub
+  );
+  return {
+    sut,
+    identityProviderStub,
+    consumeOidcStateRepositoryStub,
+    getIdentityRepositoryStub,
+    loadUserByEmailRepositoryStub,
+    createIdentityRepositoryStub,
+  };
+};
+
+const makeRequest = () => ({
+  provider: 'sample-provider',
+  code: 'sample-code',
+  state: 'sample-state',
+});
+
+const mockIdentity = () => ({
+  subject: 'sample-subject',
+  email: mockUser().email,
+  emailVerified: true,
+  name: 'sample-name',
+  picture: 'sample-picture-url',
+});
+
+describe('CompleteOidcSignIn', () => {
+  it('should return IdentityProviderNotFoundError for an unknown provider', async () => {
+    const { sut } = makeSut();
+
+    const response = await sut.execute({
+      ...makeRequest(),
+      provider: 'unknown-provider',
+    });
+
+    expect(response).toEqual(new IdentityProviderNotFoundError());
+  });
+
+  it('should return IdentityProviderNotFoundError for an object property name', async () => {
+    const { sut } = makeSut();
+
+    const response = await sut.execute({
+      ...makeRequest(),
+      provider: 'constructor',
+    });
+
+    expect(response).toEqual(new IdentityProviderNotFoundError());
+  });
+
+  it('should return InvalidTokenError if the state is unknown', async () => {
+    const { sut, consumeOidcStateRepositoryStub } = makeSut();
+    jest
+      .spyOn(consumeOidcStateRepositoryStub, 'consumeOidcState')
+      .mockImplementation(async () => null);
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new InvalidTokenError());
+  });
+
+  it('should return InvalidTokenError if the state was issued for another provider', async () => {
+    const { sut, consumeOidcStateRepositoryStub } = makeSut();
+    const oidcState = await consumeOidcStateRepositoryStub.consumeOidcState(
+      'sample-state'
+    );
+    jest
+      .spyOn(consumeOidcStateRepositoryStub, 'consumeOidcState')
+      .mockImplementation(async () => ({
+        ...oidcState!,
+        provider: 'another-provider',
+      }));
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new InvalidTokenError());
+  });
+
+  it('should return InvalidTokenError if the state has expired', async () => {
+    const { sut, consumeOidcStateRepositoryStub } = makeSut();
+    const oidcState = await consumeOidcStateRepositoryStub.consumeOidcState(
+      'sample-state'
+    );
+    jest
+      .spyOn(consumeOidcStateRepositoryStub, 'consumeOidcState')
+      .mockImplementation(async () => ({
+        ...oidcState!,
+        expiresAt: new Date(Date.now() - 1000),
+      }));
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new InvalidTokenError());
+  });
+
+  it('should exchange the code with the stored nonce and code verifier', async () => {
+    const { sut, identityProviderStub } = makeSut();
+    const getIdentitySpy = jest.spyOn(identityProviderStub, 'getIdentity');
+
+    await sut.execute(makeRequest());
+
+    expect(getIdentitySpy).toHaveBeenCalledWith({
+      code: 'sample-code',
+      nonce: 'sample-nonce',
+      codeVerifier: 'sample-code-verifier',
+    });
+  });
+
+  it('should return InvalidTokenError if the provider refuses the code', async () => {
+    const { sut, identityProviderStub } = makeSut();
+    jest
+      .spyOn(identityProviderStub, 'getIdentity')
+      .mockImplementation(async () => null);
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new InvalidTokenError());
+  });
+
+  it('should return the linked user of a known identity', async () => {
+    const { sut, getIdentityRepositoryStub, loadUserByEmailRepositoryStub } =
+      makeSut();
+    jest
+      .spyOn(getIdentityRepositoryStub, 'getIdentity')
+      .mockImplementation(async () => ({
+        id: 'sample-identity-id',
+        provider: 'sample-provider',
+        subject: 'sample-subject',
+        userId: 'linked-user-id',
+        createdAt: new Date(),
+      }));
+    const loadUserByEmailSpy = jest.spyOn(
+      loadUserByEmailRepositoryStub,
+      'loadUserByEmail'
+    );
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual({ userId: 'linked-user-id' });
+    expect(loadUserByEmailSpy).not.toHaveBeenCalled();
+  });
+
+  it('should link the identity to the user with the same verified email', async () => {
+    const { sut, identityProviderStub, createIdentityRepositoryStub } =
+      makeSut();
+    jest
+      .spyOn(identityProviderStub, 'getIdentity')
+      .mockImplementation(async () => mockIdentity());
+    const createIdentitySpy = jest.spyOn(
+      createIdentityRepositoryStub,
+      'createIdentity'
+    );
+
+    const response = await sut.execute(makeRequest());
+
+    expect(createIdentitySpy).toHaveBeenCalledWith({
+      provider: 'sample-provider',
+      subject: 'sample-subject',
+      userId: mockUser().id,
+    });
+    expect(response).toEqual({ userId: mockUser().id });
+  });
+
+  it('should return UnverifiedEmailError if the provider has not verified the email', async () => {
+    const { sut, identityProviderStub, createIdentityRepositoryStub } =
+      makeSut();
+    jest
+      .spyOn(identityProviderStub, 'getIdentity')
+      .mockImplementation(async () => ({
+        ...mockIdentity(),
+        emailVerified: false,
+      }));
+    const createIdentitySpy = jest.spyOn(
+      createIdentityRepositoryStub,
+      'createIdentity'
+    );
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new UnverifiedEmailError());
+    expect(createIdentitySpy).not.toHaveBeenCalled();
+  });
+
+  it('should return UnverifiedEmailError if the local account has not verified the email', async () => {
+    const {
+      sut,
+      identityProviderStub,
+      loadUserByEmailRepositoryStub,
+      createIdentityRepositoryStub,
+    } = makeSut();
+    jest
+      .spyOn(identityProviderStub, 'getIdentity')
+      .mockImplementation(async () => mockIdentity());
+    jest
+      .spyOn(loadUserByEmailRepositoryStub, 'loadUserByEmail')
+      .mockImplementation(async () => ({
+        ...mockUser(),
+        emailVerified: false,
+      }));
+    const createIdentitySpy = jest.spyOn(
+      createIdentityRepositoryStub,
+      'createIdentity'
+    );
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new UnverifiedEmailError());
+    expect(createIdentitySpy).not.toHaveBeenCalled();
+  });
+
+  it('should return the identity if no account uses its email', async () => {
+    const { sut, identityProviderStub, loadUserByEmailRepositoryStub } =
+      makeSut();
+    jest
+      .spyOn(identityProviderStub, 'getIdentity')
+      .mockImplementation(async () => mockIdentity());
+    jest
+      .spyOn(loadUserByEmailRepositoryStub, 'loadUserByEmail')
+      .mockImplementation(async () => null);
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual({ identity: mockIdentity() });
+  });
+});
@@ -0,0 +1,142 @@
+import { InvalidMfaCodeError } from '@application/errors/InvalidMfaCodeError';
+import { MfaAlreadyEnabledError } from '@application/errors/MfaAlreadyEnabledError';
+import { MfaNotEnrolledError } from '@application/errors/MfaNotEnrolledError';
+import { ConfirmMfa } from '@application/use-cases/users/ConfirmMfa';
+import {
+  EnableMfaRepositoryStub,
+  GetMfaByUserIdRepositoryStub,
+  UseMfaTimeStepRepositoryStub,
+} from '@tests/infrastructure/mocks/mfa/repositories';
+import {
+  HashGeneratorStub,
+  TokenGeneratorStub,
+  TotpVerifierStub,
+} from '@tests/infrastructure/mocks/users/cryptography';
+
+type SutTypes = {
+  sut: ConfirmMfa;
+  getMfaByUserIdRepositoryStub: GetMfaByUserIdRepositoryStub;
+  totpVerifierStub: TotpVerifierStub;
+  useMfaTimeStepRepositoryStub: UseMfaTimeStepRepositoryStub;
+  tokenGeneratorStub: TokenGeneratorStub;
+  hashGeneratorStub: HashGeneratorStub;
+  enableMfaRepositoryStub: EnableMfaRepositoryStub;
+};
+
+const mockPendingMfa = () => ({
+  id: 'sample-mfa-id',
+  userId: 'sample-user-id',
+  secret: 'SAMPLESECRET',
+  enabled: false,
+  recoveryCodes: [],
+  lastUsedStep: null,
+  createdAt: new Date(),
+});
+
+const makeSut = (): SutTypes => {
+  const getMfaByUserIdRepositoryStub = new GetMfaByUserIdRepositoryStub();
+  const totpVerifierStub = new TotpVerifierStub();
+  const useMfaTimeStepRepositoryStub = new UseMfaTimeStepRepositoryStub();
+  const tokenGeneratorStub = new TokenGeneratorStub();
+  const hashGeneratorStub = new HashGeneratorStub();
+  const enableMfaRepositoryStub = new EnableMfaRepositoryStub();
+  jest
+    .spyOn(getMfaByUserIdRepositoryStub, 'getMfaByUserId')
+    .mockImplementation(async () => mockPendingMfa());
+  const sut = new ConfirmMfa(
+    getMfaByUserIdRepositoryStub,
+    totpVerifierStub,
+    useMfaTimeStepRepositoryStub,
+    tokenGeneratorStub,
+    hashGeneratorStub,
+    enableMfaRepositoryStub
+  );
+  return {
+    sut,
+    getMfaByUserIdRepositoryStub,
+    totpVerifierStub,
+    useMfaTimeStepRepositoryStub,
+    tokenGeneratorStub,
+    hashGeneratorStub,
+    enableMfaRepositoryStub,
+  };
+};
+
+const makeRequest = () => ({ userId: 'sample-user-id', code: '123456' });
+
+describe('ConfirmMfa', () => {
+  it('should return an MfaNotEnrolledError if no secret was enrolled', async () => {
+    const { sut, getMfaByUserIdRepositoryStub } = makeSut();
+    jest
+      .spyOn(getMfaByUserIdRepositoryStub, 'getMfaByUserId')
+      .mockImplementation(async () => null);
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new MfaNotEnrolledError());
+  });
+
+  it('should return an MfaAlreadyEnabledError if two-factor is already enabled', async () => {
+    const { sut, getMfaByUserIdRepositoryStub } = makeSut();
+    jest
+      .spyOn(getMfaByUserIdRepositoryStub, 'getMfaByUserId')
+      .mockImplementation(async () => ({ ...mockPendingMfa(), enabled: true }));
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new MfaAlreadyEnabledError());
+  });
+
+  it('should verify the code against the enrolled secret', async () => {
+    const { sut, totpVerifierStub } = makeSut();
+    const verifySpy = jest.spyOn(totpVerifierStub, 'verify');
+
+    await sut.execute(makeRequest());
+
+    expect(verifySpy).toHaveBeenCalledWith('SAMPLESECRET', '123456');
+  });
+
+  it('should return an InvalidMfaCodeError if the code is wrong', async () => {
+    const { sut, totpVerifierStub, enableMfaRepositoryStub } = makeSut();
+    jest.spyOn(totpVerifierStub, 'verify').mockImplementation(async () => null);
+    const enableMfaSpy = jest.spyOn(enableMfaRepositoryStub, 'enableMfa');
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new InvalidMfaCodeError());
+    expect(enableMfaSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return an InvalidMfaCodeError if the code was already used', async () => {
+    const { sut, useMfaTimeStepRepositoryStub } = makeSut();
+    jest
+      .spyOn(useMfaTimeStepRepositoryStub, 'useMfaTimeStep')
+      .mockImplementation(async () => false);
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new InvalidMfaCodeError());
+  });
+
+  it('should enable two-factor with hashed recovery codes', async () => {
+    const { sut, enableMfaRepositoryStub } = makeSut();
+    const enableMfaSpy = jest.spyOn(enableMfaRepositoryStub, 'enableMfa');
+
+    await sut.execute(makeRequest());
+
+    expect(enableMfaSpy).toHaveBeenCalledWith({
+      userId: 'sample-user-id',
+      recoveryCodes: Array(10).fill('sample-hash'),
+    });
+  });
+
+  it('should return the plain recovery codes on success', async () => {
+    const { sut } = makeSut();
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual({
+      recoveryCodes: Array(10).fill('sample-invitation-token'),
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { CreateApiToken } from '@application/use-cases/users/CreateApiToken';
+import mockUser from '@tests/domain/mock-user';
+import mockApiToken from '@tests/domain/mock-api-token';
+import { CreateApiTokenRepositoryStub } from '@tests/infrastructure/mocks/apiTokens/repositories';
+import {
+  TokenGeneratorStub,
+  TokenHasherStub,
+} from '@tests/infrastructure/mocks/users/cryptography';
+
+type SutTypes = {
+  sut: CreateApiToken;
+  tokenGeneratorStub: TokenGeneratorStub;
+  tokenHasherStub: TokenHasherStub;
+  createApiTokenRepositoryStub: CreateApiTokenRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const tokenGeneratorStub = new TokenGeneratorStub();
+  const tokenHasherStub = new TokenHasherStub();
+  const createApiTokenRepositoryStub = new CreateApiTokenRepositoryStub();
+  const sut = new CreateApiToken(
+    tokenGeneratorStub,
+    tokenHasherStub,
+    createApiTokenRepositoryStub
+  );
+  return {
+    sut,
+    tokenGeneratorStub,
+    tokenHasherStub,
+    createApiTokenRepositoryStub,
+  };
+};
+
+const makeRequest = () => ({
+  userId: mockUser().id,
+  name: 'sample-api-token-name',
+  scopes: ['pages:read' as const],
+});
+
+describe('CreateApiToken', () => {
+  it('should hash the prefixed token', async () => {
+    const { sut, tokenHasherStub } = makeSut();
+    const tokenHasherSpy = jest.spyOn(tokenHasherStub, 'hashToken');
+    await sut.execute(makeRequest());
+    expect(tokenHasherSpy).toHaveBeenCalledWith('ntn_sample-invitation-token');
+  });
+
+  it('should store only the hash of the token', async () => {
+    const { sut, createApiTokenRepositoryStub } = makeSut();
+    const createApiTokenRepositorySpy = jest.spyOn(
+      createApiTokenRepositoryStub,
+      'createApiToken'
+    );
+    await sut.execute(makeRequest());
+    expect(createApiTokenRepositorySpy).toHaveBeenCalledWith({
+      ...makeRequest(),
+      tokenHash: 'sample-token-hash',
+      workspaceId: null,
+      expiresAt: null,
+    });
+  });
+
+  it('should store the workspace restriction and expiry date', async () => {
+    const { sut, createApiTokenRepositoryStub } = makeSut();
+    const createApiTokenRepositorySpy = jest.spyOn(
+      createApiTokenRepositoryStub,
+      'createApiToken'
+    );
+    await sut.execute({
+      ...makeRequest(),
+      workspaceId: 'sample-workspace-id',
+      expiresInDays: 30,
+    });
+    const [[apiTokenData]] = createApiTokenRepositorySpy.mock.calls;
+    expect(apiTokenData.workspaceId).toBe('sample-workspace-id');
+    expect(apiTokenData.expiresAt!.getTime()).toBeGreaterThan(
+      Date.now() + 29 * 24 * 60 * 60 * 1000
+    );
+  });
+
+  it('should return the plain token with the created API token', async () => {
+    const { sut } = makeSut();
+    const response = await sut.execute(makeRequest());
+    expect(response).toEqual(
+      expect.objectContaining({
+        id: mockApiToken().id,
+        token: 'ntn_sample-invitation-token',
+        scopes: ['pages:read'],
+      })
+    );
+    expect(response).not.toHaveProperty('tokenHash');
+  });
+});
@@ -0,0 +1,139 @@
+import { CreateSession } from '@application/use-cases/users/CreateSession';
+import { CreateAuditLogEntryRepositoryStub } from '@tests/infrastructure/mocks/auditLogs/repositories';
+import {
+  CreateMfaChallengeRepositoryStub,
+  GetMfaByUserIdRepositoryStub,
+} from '@tests/infrastructure/mocks/mfa/repositories';
+import { CreateTokenRepositoryStub } from '@tests/infrastructure/mocks/tokens/repositories';
+import {
+  JWTGeneratorStub,
+  TokenGeneratorStub,
+} from '@tests/infrastructure/mocks/users/cryptography';
+import mockUser from '@tests/domain/mock-user';
+
+type SutTypes = {
+  sut: CreateSession;
+  getMfaByUserIdRepositoryStub: GetMfaByUserIdRepositoryStub;
+  createMfaChallengeRepositoryStub: CreateMfaChallengeRepositoryStub;
+  tokenGeneratorStub: TokenGeneratorStub;
+  jwtGeneratorStub: JWTGeneratorStub;
+  createTokenRepositoryStub: CreateTokenRepositoryStub;
+  createAuditLogEntryRepositoryStub: CreateAuditLogEntryRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getMfaByUserIdRepositoryStub = new GetMfaByUserIdRepositoryStub();
+  const createMfaChallengeRepositoryStub =
+    new CreateMfaChallengeRepositoryStub();
+  const tokenGeneratorStub = new TokenGeneratorStub();
+  const jwtGeneratorStub = new JWTGeneratorStub();
+  const createTokenRepositoryStub = new CreateTokenRepositoryStub();
+  const createAuditLogEntryRepositoryStub =
+    new CreateAuditLogEntryRepositoryStub();
+  const sut = new CreateSession(
+    getMfaByUserIdRepositoryStub,
+    createMfaChallengeRepositoryStub,
+    tokenGeneratorStub,
+    5,
+    jwtGeneratorStub,
+    createTokenRepositoryStub,
+    createAuditLogEntryRepositoryStub
+  );
+  return {
+    sut,
+    getMfaByUserIdRepositoryStub,
+    createMfaChallengeRepositoryStub,
+    tokenGeneratorStub,
+    jwtGeneratorStub,
+    createTokenRepositoryStub,
+    createAuditLogEntryRepositoryStub,
+  };
+};
+
+describe('CreateSession', () => {
+  it('should store the refresh token with the client details', async () => {
+    const { sut, createTokenRepositoryStub } = makeSut();
+    const createTokenSpy = jest.spyOn(createTokenRepositoryStub, 'createToken');
+
+    await sut.execute({
+      userId: mockUser().id,
+      userAgent: 'sample-user-agent',
+      ip: '127.0.0.1',
+    });
+
+    expect(createTokenSpy).toHaveBeenCalledWith({
+      token: 'sample-refresh-token',
+      userId: mockUser().id,
+      userAgent: 'sample-user-agent',
+      ip: '127.0.0.1',
+    });
+  });
+
+  it('should return the tokens on success', async () => {
+    const { sut } = makeSut();
+
+    const response = await sut.execute({ userId: mockUser().id });
+
+    expect(response).toStrictEqual({
+      accessToken: 'sample-access-token',
+      refreshToken: 'sample-refresh-token',
+    });
+  });
+
+  it('should return an mfa challenge instead of tokens if two-factor is enabled', async () => {
+    const {
+      sut,
+      getMfaByUserIdRepositoryStub,
+      createMfaChallengeRepositoryStub,
+      createTokenRepositoryStub,
+      tokenGeneratorStub,
+    } = makeSut();
+    jest
+      .spyOn(getMfaByUserIdRepositoryStub, 'getMfaByUserId')
+      .mockImplementation(async () => ({
+        id: 'sample-mfa-id',
+        userId: mockUser().id,
+        secret: 'SAMPLESECRET',
+        enabled: true,
+        recoveryCodes: [],
+        lastUsedStep: null,
+        createdAt: new Date(),
+      }));
+    jest
+      .spyOn(tokenGeneratorStub, 'generateToken')
+      .mockImplementation(async () => 'sample-mfa-token');
+    const createMfaChallengeSpy = jest.spyOn(
+      createMfaChallengeRepositoryStub,
+      'createMfaChallenge'
+    );
+    const createTokenSpy = jest.spyOn(createTokenRepositoryStub, 'createToken');
+
+    const response = await sut.execute({ userId: mockUser().id });
+
+    expect(response).toStrictEqual({ mfaToken: 'sample-mfa-token' });
+    expect(createMfaChallengeSpy).toHaveBeenCalledWith({
+      token: 'sample-mfa-token',
+      userId: mockUser().id,
+      expiresAt: expect.any(Date),
+    });
+    expect(createTokenSpy).not.toHaveBeenCalled();
+  });
+
+  it('should record the sign in in the audit log', async () => {
+    const { sut, createAuditLogEntryRepositoryStub } = makeSut();
+    const createAuditLogEntryRepositorySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+
+    await sut.execute({ userId: mockUser().id, ip: '127.0.0.1' });
+
+    expect(createAuditLogEntryRepositorySpy).toHaveBeenCalledWith({
+      action: 'user.sign_in',
+      actorId: mockUser().id,
+      targetType: 'user',
+      targetId: mockUser().id,
+      ip: '127.0.0.1',
+    });
+  });
+});
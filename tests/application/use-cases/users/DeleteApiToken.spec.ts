@@ -0,0 +1,93 @@
+import { ApiTokenNotFoundError } from '@application/errors/ApiTokenNotFoundError';
+import { DeleteApiToken } from '@application/use-cases/users/DeleteApiToken';
+import mockUser from '@tests/domain/mock-user';
+import mockApiToken from '@tests/domain/mock-api-token';
+import { DeleteApiTokenRepositoryStub } from '@tests/infrastructure/mocks/apiTokens/repositories';
+import { CreateAuditLogEntryRepositoryStub } from '@tests/infrastructure/mocks/auditLogs/repositories';
+
+type SutTypes = {
+  sut: DeleteApiToken;
+  deleteApiTokenRepositoryStub: DeleteApiTokenRepositoryStub;
+  createAuditLogEntryRepositoryStub: CreateAuditLogEntryRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const deleteApiTokenRepositoryStub = new DeleteApiTokenRepositoryStub();
+  const createAuditLogEntryRepositoryStub =
+    new CreateAuditLogEntryRepositoryStub();
+  const sut = new DeleteApiToken(
+    deleteApiTokenRepositoryStub,
+    createAuditLogEntryRepositoryStub
+  );
+  return {
+    sut,
+    deleteApiTokenRepositoryStub,
+    createAuditLogEntryRepositoryStub,
+  };
+};
+
+describe('DeleteApiToken', () => {
+  it('should call DeleteApiTokenRepository with correct params', async () => {
+    const { sut, deleteApiTokenRepositoryStub } = makeSut();
+    const deleteApiTokenRepositorySpy = jest.spyOn(
+      deleteApiTokenRepositoryStub,
+      'deleteApiToken'
+    );
+    const params = { userId: mockUser().id, apiTokenId: mockApiToken().id };
+    const response = await sut.execute(params);
+    expect(deleteApiTokenRepositorySpy).toHaveBeenCalledWith(params);
+    expect(response).toBeUndefined();
+  });
+
+  it('should return an ApiTokenNotFoundError if the token does not belong to the user', async () => {
+    const { sut, deleteApiTokenRepositoryStub } = makeSut();
+    jest
+      .spyOn(deleteApiTokenRepositoryStub, 'deleteApiToken')
+      .mockImplementation(async () => false);
+    const response = await sut.execute({
+      userId: mockUser().id,
+      apiTokenId: mockApiToken().id,
+    });
+    expect(response).toEqual(new ApiTokenNotFoundError());
+  });
+
+  it('should record the revocation in the audit log', async () => {
+    const { sut, createAuditLogEntryRepositoryStub } = makeSut();
+    const createAuditLogEntryRepositorySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+    await sut.execute({
+      userId: mockUser().id,
+      apiTokenId: mockApiToken().id,
+      ip: '127.0.0.1',
+    });
+    expect(createAuditLogEntryRepositorySpy).toHaveBeenCalledWith({
+      action: 'api_token.revoke',
+      actorId: mockUser().id,
+      targetType: 'api_token',
+      targetId: mockApiToken().id,
+      ip: '127.0.0.1',
+    });
+  });
+
+  it('should not record anything if the token was not deleted', async () => {
+    const {
+      sut,
+      deleteApiTokenRepositoryStub,
+      createAuditLogEntryRepositoryStub,
+    } = makeSut();
+    jest
+      .spyOn(deleteApiTokenRepositoryStub, 'deleteApiToken')
+      .mockImplementation(async () => false);
+    const createAuditLogEntryRepositorySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+    await sut.execute({
+      userId: mockUser().id,
+      apiTokenId: mockApiToken().id,
+    });
+    expect(createAuditLogEntryRepositorySpy).not.toHaveBeenCalled();
+  });
+});
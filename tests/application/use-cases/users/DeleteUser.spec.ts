@@ -1,27 +1,207 @@
+import { InvalidPasswordError } from '@application/errors/InvalidPasswordError';
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
 import { DeleteUser } from '@application/use-cases/users/DeleteUser';
 import mockUser from '@tests/domain/mock-user';
-import { DeleteUserRepositoryStub } from '@tests/infrastructure/mocks/users/repositories';
+import { DeleteApiTokensByUserIdRepositoryStub } from '@tests/infrastructure/mocks/apiTokens/repositories';
+import { CreateAuditLogEntryRepositoryStub } from '@tests/infrastructure/mocks/auditLogs/repositories';
+import { DeleteTokensByUserIdRepositoryStub } from '@tests/infrastructure/mocks/tokens/repositories';
+import { HashCompareStub } from '@tests/infrastructure/mocks/users/cryptography';
+import {
+  GetUserByIdRepositoryStub,
+  LoadUserByEmailRepositoryStub,
+  ScheduleUserDeletionRepositoryStub,
+} from '@tests/infrastructure/mocks/users/repositories';
 
 type SutTypes = {
   sut: DeleteUser;
-  deleteUserRepositoryStub: DeleteUserRepositoryStub;
+  getUserByIdRepositoryStub: GetUserByIdRepositoryStub;
+  loadUserByEmailRepositoryStub: LoadUserByEmailRepositoryStub;
+  hashCompareStub: HashCompareStub;
+  scheduleUserDeletionRepositoryStub: ScheduleUserDeletionRepositoryStub;
+  deleteTokensByUserIdRepositoryStub: DeleteTokensByUserIdRepositoryStub;
+  deleteApiTokensByUserIdRepositoryStub: DeleteApiTokensByUserIdRepositoryStub;
+  createAuditLogEntryRepositoryStub: CreateAuditLogEntryRepositoryStub;
 };
 
-const makeSut = (): SutTypes => {
-  const deleteUserRepositoryStub = new DeleteUserRepositoryStub();
-  const sut = new DeleteUser(deleteUserRepositoryStub);
+const makeSut = (requirePassword = true): SutTypes => {
+  const getUserByIdRepositoryStub = new GetUserByIdRepositoryStub();
+  const loadUserByEmailRepositoryStub = new LoadUserByEmailRepositoryStub();
+  const hashCompareStub = new HashCompareStub();
+  const scheduleUserDeletionRepositoryStub =
+    new ScheduleUserDeletionRepositoryStub();
+  const deleteTokensByUserIdRepositoryStub =
+    new DeleteTokensByUserIdRepositoryStub();
+  const deleteApiTokensByUserIdRepositoryStub =
+    new DeleteApiTokensByUserIdRepositoryStub();
+  const createAuditLogEntryRepositoryStub =
+    new CreateAuditLogEntryRepositoryStub();
+  const sut = new DeleteUser(
+    getUserByIdRepositoryStub,
+    loadUserByEmailRepositoryStub,
+    hashCompareStub,
+    scheduleUserDeletionRepositoryStub,
+    deleteTokensByUserIdRepositoryStub,
+    deleteApiTokensByUserIdRepositoryStub,
+    createAuditLogEntryRepositoryStub,
+    14,
+    requirePassword
+  );
   return {
     sut,
-    deleteUserRepositoryStub,
+    getUserByIdRepositoryStub,
+    loadUserByEmailRepositoryStub,
+    hashCompareStub,
+    scheduleUserDeletionRepositoryStub,
+    deleteTokensByUserIdRepositoryStub,
+    deleteApiTokensByUserIdRepositoryStub,
+    createAuditLogEntryRepositoryStub,
+  };
+};
+
+const makeRequest = () => {
+  const { id } = mockUser();
+  return {
+    userId: id,
+    actorId: id,
+    password: 'sample-password',
+    ip: '127.0.0.1',
   };
 };
 
 describe('DeleteUser', () => {
-  it('should call DeleteUserRepository with correct user id', async () => {
-    const { sut, deleteUserRepositoryStub } = makeSut();
-    const deleteUserSpy = jest.spyOn(deleteUserRepositoryStub, 'deleteUser');
+  it('should return a UserNotFoundError if the user does not exist', async () => {
+    const { sut, getUserByIdRepositoryStub } = makeSut();
+    jest
+      .spyOn(getUserByIdRepositoryStub, 'getUserById')
+      .mockImplementation(async () => null);
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new UserNotFoundError());
+  });
+
+  it('should compare the given password with the stored hash', async () => {
+    const { sut, loadUserByEmailRepositoryStub, hashCompareStub } = makeSut();
+    const loadUserByEmailSpy = jest.spyOn(
+      loadUserByEmailRepositoryStub,
+      'loadUserByEmail'
+    );
+    const compareSpy = jest.spyOn(hashCompareStub, 'compare');
+
+    await sut.execute(makeRequest());
+
+    const { email, password } = mockUser();
+    expect(loadUserByEmailSpy).toHaveBeenCalledWith(email);
+    expect(compareSpy).toHaveBeenCalledWith('sample-password', password);
+  });
+
+  it('should return an InvalidPasswordError if the password is wrong', async () => {
+    const { sut, hashCompareStub, scheduleUserDeletionRepositoryStub } =
+      makeSut();
+    jest
+      .spyOn(hashCompareStub, 'compare')
+      .mockImplementation(async () => false);
+    const scheduleUserDeletionSpy = jest.spyOn(
+      scheduleUserDeletionRepositoryStub,
+      'scheduleUserDeletion'
+    );
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new InvalidPasswordError());
+    expect(scheduleUserDeletionSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return an InvalidPasswordError if no password is given', async () => {
+    const { sut } = makeSut();
+
+    const response = await sut.execute({
+      ...makeRequest(),
+      password: undefined,
+    });
+
+    expect(response).toEqual(new InvalidPasswordError());
+  });
+
+  it('should not ask an admin for the password of somebody else', async () => {
+    const { sut, hashCompareStub } = makeSut();
+    const compareSpy = jest.spyOn(hashCompareStub, 'compare');
+
+    const response = await sut.execute({
+      ...makeRequest(),
+      actorId: 'sample-admin-id',
+      password: undefined,
+    });
+
+    expect(compareSpy).not.toHaveBeenCalled();
+    expect(response).toEqual({ scheduledDeletionAt: expect.any(Date) });
+  });
+
+  it('should not ask for the password if confirmation is turned off', async () => {
+    const { sut, hashCompareStub } = makeSut(false);
+    const compareSpy = jest.spyOn(hashCompareStub, 'compare');
+
+    await sut.execute({ ...makeRequest(), password: undefined });
+
+    expect(compareSpy).not.toHaveBeenCalled();
+  });
+
+  it('should schedule the deletion after the grace period', async () => {
+    const { sut, scheduleUserDeletionRepositoryStub } = makeSut();
+    const scheduleUserDeletionSpy = jest.spyOn(
+      scheduleUserDeletionRepositoryStub,
+      'scheduleUserDeletion'
+    );
+
+    const response = await sut.execute(makeRequest());
+
+    const { scheduledDeletionAt } = response as { scheduledDeletionAt: Date };
+    expect(scheduleUserDeletionSpy).toHaveBeenCalledWith({
+      userId: mockUser().id,
+      scheduledDeletionAt,
+    });
+    expect(scheduledDeletionAt.getTime()).toBeGreaterThan(
+      Date.now() + 13 * 24 * 60 * 60 * 1000
+    );
+  });
+
+  it('should revoke every session and api token', async () => {
+    const {
+      sut,
+      deleteTokensByUserIdRepositoryStub,
+      deleteApiTokensByUserIdRepositoryStub,
+    } = makeSut();
+    const deleteTokensByUserIdSpy = jest.spyOn(
+      deleteTokensByUserIdRepositoryStub,
+      'deleteTokensByUserId'
+    );
+    const deleteApiTokensByUserIdSpy = jest.spyOn(
+      deleteApiTokensByUserIdRepositoryStub,
+      'deleteApiTokensByUserId'
+    );
+
+    await sut.execute(makeRequest());
+
+    expect(deleteTokensByUserIdSpy).toHaveBeenCalledWith(mockUser().id);
+    expect(deleteApiTokensByUserIdSpy).toHaveBeenCalledWith(mockUser().id);
+  });
+
+  it('should record the deletion in the audit log', async () => {
+    const { sut, createAuditLogEntryRepositoryStub } = makeSut();
+    const createAuditLogEntrySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+
+    await sut.execute(makeRequest());
+
     const { id } = mockUser();
-    await sut.execute(id);
-    expect(deleteUserSpy).toHaveBeenCalledWith(id);
+    expect(createAuditLogEntrySpy).toHaveBeenCalledWith({
+      action: 'user.delete',
+      actorId: id,
+      targetType: 'user',
+      targetId: id,
+      ip: '127.0.0.1',
+    });
   });
 });
@@ -0,0 +1,110 @@
+import { UserExportNotFoundError } from '@application/errors/UserExportNotFoundError';
+import { UserExportNotReadyError } from '@application/errors/UserExportNotReadyError';
+import { DownloadUserExport } from '@application/use-cases/users/DownloadUserExport';
+import mockUser from '@tests/domain/mock-user';
+import mockUserExport, {
+  mockPendingUserExport,
+} from '@tests/domain/mock-user-export';
+import { ExportStorageStub } from '@tests/infrastructure/mocks/storage';
+import { GetUserExportByIdRepositoryStub } from '@tests/infrastructure/mocks/userExports/repositories';
+
+type SutTypes = {
+  sut: DownloadUserExport;
+  getUserExportByIdRepositoryStub: GetUserExportByIdRepositoryStub;
+  exportStorageStub: ExportStorageStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getUserExportByIdRepositoryStub = new GetUserExportByIdRepositoryStub();
+  const exportStorageStub = new ExportStorageStub();
+  const sut = new DownloadUserExport(
+    getUserExportByIdRepositoryStub,
+    exportStorageStub
+  );
+  return {
+    sut,
+    getUserExportByIdRepositoryStub,
+    exportStorageStub,
+  };
+};
+
+const makeRequest = () => ({
+  userId: mockUser().id,
+  exportId: mockUserExport().id,
+});
+
+describe('DownloadUserExport', () => {
+  it('should return UserExportNotFoundError if the export does not exist', async () => {
+    const { sut, getUserExportByIdRepositoryStub } = makeSut();
+    jest
+      .spyOn(getUserExportByIdRepositoryStub, 'getUserExportById')
+      .mockImplementationOnce(async () => null);
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new UserExportNotFoundError());
+  });
+
+  it('should return UserExportNotFoundError if the export belongs to another user', async () => {
+    const { sut } = makeSut();
+
+    const response = await sut.execute({
+      ...makeRequest(),
+      userId: '112233445566778899aabbdd',
+    });
+
+    expect(response).toEqual(new UserExportNotFoundError());
+  });
+
+  it('should return UserExportNotReadyError while the export is being built', async () => {
+    const { sut, getUserExportByIdRepositoryStub } = makeSut();
+    jest
+      .spyOn(getUserExportByIdRepositoryStub, 'getUserExportById')
+      .mockImplementationOnce(async () => mockPendingUserExport());
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new UserExportNotReadyError());
+  });
+
+  it('should return UserExportNotFoundError once the export has expired', async () => {
+    const { sut, getUserExportByIdRepositoryStub, exportStorageStub } =
+      makeSut();
+    jest
+      .spyOn(getUserExportByIdRepositoryStub, 'getUserExportById')
+      .mockImplementationOnce(async () => ({
+        ...mockUserExport(),
+        expiresAt: new Date(Date.now() - 1000),
+      }));
+    const loadSpy = jest.spyOn(exportStorageStub, 'load');
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new UserExportNotFoundError());
+    expect(loadSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return UserExportNotFoundError if the file is missing from storage', async () => {
+    const { sut, exportStorageStub } = makeSut();
+    jest
+      .spyOn(exportStorageStub, 'load')
+      .mockImplementationOnce(async () => null);
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new UserExportNotFoundError());
+  });
+
+  it('should return the file on success', async () => {
+    const { sut, exportStorageStub } = makeSut();
+    const loadSpy = jest.spyOn(exportStorageStub, 'load');
+
+    const response = await sut.execute(makeRequest());
+
+    expect(loadSpy).toHaveBeenCalledWith(mockUserExport().id);
+    expect(response).toEqual({
+      fileName: `export-${mockUserExport().id}.json`,
+      content: '{"user":{}}',
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { MfaAlreadyEnabledError } from '@application/errors/MfaAlreadyEnabledError';
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
+import { EnrollMfa } from '@application/use-cases/users/EnrollMfa';
+import {
+  CreateMfaRepositoryStub,
+  GetMfaByUserIdRepositoryStub,
+} from '@tests/infrastructure/mocks/mfa/repositories';
+import { TotpGeneratorStub } from '@tests/infrastructure/mocks/users/cryptography';
+import { GetUserByIdRepositoryStub } from '@tests/infrastructure/mocks/users/repositories';
+import mockUser from '@tests/domain/mock-user';
+
+type SutTypes = {
+  sut: EnrollMfa;
+  getUserByIdRepositoryStub: GetUserByIdRepositoryStub;
+  getMfaByUserIdRepositoryStub: GetMfaByUserIdRepositoryStub;
+  createMfaRepositoryStub: CreateMfaRepositoryStub;
+  totpGeneratorStub: TotpGeneratorStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getUserByIdRepositoryStub = new GetUserByIdRepositoryStub();
+  const getMfaByUserIdRepositoryStub = new GetMfaByUserIdRepositoryStub();
+  const createMfaRepositoryStub = new CreateMfaRepositoryStub();
+  const totpGeneratorStub = new TotpGeneratorStub();
+  const sut = new EnrollMfa(
+    getUserByIdRepositoryStub,
+    getMfaByUserIdRepositoryStub,
+    createMfaRepositoryStub,
+    totpGeneratorStub
+  );
+  return {
+    sut,
+    getUserByIdRepositoryStub,
+    getMfaByUserIdRepositoryStub,
+    createMfaRepositoryStub,
+    totpGeneratorStub,
+  };
+};
+
+describe('EnrollMfa', () => {
+  it('should return a UserNotFoundError if the user does not exist', async () => {
+    const { sut, getUserByIdRepositoryStub } = makeSut();
+    jest
+      .spyOn(getUserByIdRepositoryStub, 'getUserById')
+      .mockImplementation(async () => null);
+
+    const response = await sut.execute(mockUser().id);
+
+    expect(response).toEqual(new UserNotFoundError());
+  });
+
+  it('should return an MfaAlreadyEnabledError if two-factor is already enabled', async () => {
+    const { sut, getMfaByUserIdRepositoryStub, createMfaRepositoryStub } =
+      makeSut();
+    jest
+      .spyOn(getMfaByUserIdRepositoryStub, 'getMfaByUserId')
+      .mockImplementation(async () => ({
+        id: 'sample-mfa-id',
+        userId: mockUser().id,
+        secret: 'SAMPLESECRET',
+        enabled: true,
+        recoveryCodes: [],
+        lastUsedStep: null,
+        createdAt: new Date(),
+      }));
+    const createMfaSpy = jest.spyOn(createMfaRepositoryStub, 'createMfa');
+
+    const response = await sut.execute(mockUser().id);
+
+    expect(response).toEqual(new MfaAlreadyEnabledError());
+    expect(createMfaSpy).not.toHaveBeenCalled();
+  });
+
+  it('should store a new secret for the user', async () => {
+    const { sut, createMfaRepositoryStub } = makeSut();
+    const createMfaSpy = jest.spyOn(createMfaRepositoryStub, 'createMfa');
+    const { id } = mockUser();
+
+    await sut.execute(id);
+
+    expect(createMfaSpy).toHaveBeenCalledWith({
+      userId: id,
+      secret: 'SAMPLESECRET',
+    });
+  });
+
+  it('should return the secret and an uri for the user email', async () => {
+    const { sut, totpGeneratorStub } = makeSut();
+    const generateUriSpy = jest.spyOn(totpGeneratorStub, 'generateUri');
+    const { id, email } = mockUser();
+
+    const response = await sut.execute(id);
+
+    expect(generateUriSpy).toHaveBeenCalledWith('SAMPLESECRET', email);
+    expect(response).toEqual({
+      secret: 'SAMPLESECRET',
+      uri: 'otpauth://totp/sample-uri',
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { ForgotPassword } from '@application/use-cases/users/ForgotPassword';
+import mockUser from '@tests/domain/mock-user';
+import { MailSenderStub } from '@tests/infrastructure/mocks/mail';
+import { CreatePasswordResetTokenRepositoryStub } from '@tests/infrastructure/mocks/tokens/repositories';
+import { TokenGeneratorStub } from '@tests/infrastructure/mocks/users/cryptography';
+import { LoadUserByEmailRepositoryStub } from '@tests/infrastructure/mocks/users/repositories';
+
+type SutTypes = {
+  sut: ForgotPassword;
+  loadUserByEmailRepositoryStub: LoadUserByEmailRepositoryStub;
+  createPasswordResetTokenRepositoryStub: CreatePasswordResetTokenRepositoryStub;
+  tokenGeneratorStub: TokenGeneratorStub;
+  mailSenderStub: MailSenderStub;
+};
+
+const makeSut = (): SutTypes => {
+  const loadUserByEmailRepositoryStub = new LoadUserByEmailRepositoryStub();
+  const createPasswordResetTokenRepositoryStub =
+    new CreatePasswordResetTokenRepositoryStub();
+  const tokenGeneratorStub = new TokenGeneratorStub();
+  const mailSenderStub = new MailSenderStub();
+  const sut = new ForgotPassword(
+    loadUserByEmailRepositoryStub,
+    createPasswordResetTokenRepositoryStub,
+    tokenGeneratorStub,
+    mailSenderStub,
+    'http://localhost:3000',
+    30
+  );
+  return {
+    sut,
+    loadUserByEmailRepositoryStub,
+    createPasswordResetTokenRepositoryStub,
+    tokenGeneratorStub,
+    mailSenderStub,
+  };
+};
+
+describe('ForgotPassword', () => {
+  it('should neither store a token nor send a mail for an unknown email', async () => {
+    const {
+      sut,
+      loadUserByEmailRepositoryStub,
+      createPasswordResetTokenRepositoryStub,
+      mailSenderStub,
+    } = makeSut();
+    jest
+      .spyOn(loadUserByEmailRepositoryStub, 'loadUserByEmail')
+      .mockImplementation(async () => null);
+    const createPasswordResetTokenSpy = jest.spyOn(
+      createPasswordResetTokenRepositoryStub,
+      'createPasswordResetToken'
+    );
+    const sendSpy = jest.spyOn(mailSenderStub, 'send');
+
+    const response = await sut.execute('unknown@email.com');
+
+    expect(response).toBeUndefined();
+    expect(createPasswordResetTokenSpy).not.toHaveBeenCalled();
+    expect(sendSpy).not.toHaveBeenCalled();
+  });
+
+  it('should store a time-limited reset token for the user', async () => {
+    const { sut, createPasswordResetTokenRepositoryStub, tokenGeneratorStub } =
+      makeSut();
+    jest
+      .spyOn(tokenGeneratorStub, 'generateToken')
+      .mockImplementation(async () => 'sample-reset-token');
+    const createPasswordResetTokenSpy = jest.spyOn(
+      createPasswordResetTokenRepositoryStub,
+      'createPasswordResetToken'
+    );
+    const { id, email } = mockUser();
+
+    await sut.execute(email);
+
+    expect(createPasswordResetTokenSpy).toHaveBeenCalledWith({
+      token: 'sample-reset-token',
+      userId: id,
+      expiresAt: expect.any(Date),
+    });
+    const [{ expiresAt }] = createPasswordResetTokenSpy.mock.calls[0];
+    expect(expiresAt.getTime()).toBeLessThanOrEqual(
+      Date.now() + 30 * 60 * 1000
+    );
+  });
+
+  it('should mail the reset link to the user', async () => {
+    const { sut, mailSenderStub, tokenGeneratorStub } = makeSut();
+    jest
+      .spyOn(tokenGeneratorStub, 'generateToken')
+      .mockImplementation(async () => 'sample-reset-token');
+    const sendSpy = jest.spyOn(mailSenderStub, 'send');
+    const { email } = mockUser();
+
+    await sut.execute(email);
+
+    expect(sendSpy).toHaveBeenCalledWith({
+      to: email,
+      subject: expect.any(String),
+      text: expect.stringContaining(
+        'http://localhost:3000/password/reset/sample-reset-token'
+      ),
+    });
+  });
+});
@@ -0,0 +1,260 @@
+import { GenerateUserExport } from '@application/use-cases/users/GenerateUserExport';
+import { Page } from '@domain/entities/Page';
+import mockPage from '@tests/domain/mock-page';
+import mockPageGuest from '@tests/domain/mock-page-guest';
+import mockUser from '@tests/domain/mock-user';
+import mockUserExport from '@tests/domain/mock-user-export';
+import { GetPageGuestsByUserIdRepositoryStub } from '@tests/infrastructure/mocks/pageGuests/repositories';
+import {
+  GetDescendantsByPageIdRepositoryStub,
+  GetPageByIdRepositoryStub,
+  GetPagesByWorkspaceIdRepositoryStub,
+} from '@tests/infrastructure/mocks/pages/repositories';
+import { ExportStorageStub } from '@tests/infrastructure/mocks/storage';
+import { GetSessionsByUserIdRepositoryStub } from '@tests/infrastructure/mocks/tokens/repositories';
+import {
+  ClaimPendingUserExportRepositoryStub,
+  CompleteUserExportRepositoryStub,
+} from '@tests/infrastructure/mocks/userExports/repositories';
+import { GetUserByIdRepositoryStub } from '@tests/infrastructure/mocks/users/repositories';
+import { GetWorkspaceByIdRepositoryStub } from '@tests/infrastructure/mocks/workspaces/repositories';
+
+type SutTypes = {
+  sut: GenerateUserExport;
+  claimPendingUserExportRepositoryStub: ClaimPendingUserExportRepositoryStub;
+  getUserByIdRepositoryStub: GetUserByIdRepositoryStub;
+  getPagesByWorkspaceIdRepositoryStub: GetPagesByWorkspaceIdRepositoryStub;
+  getPageGuestsByUserIdRepositoryStub: GetPageGuestsByUserIdRepositoryStub;
+  getPageByIdRepositoryStub: GetPageByIdRepositoryStub;
+  exportStorageStub: ExportStorageStub;
+  completeUserExportRepositoryStub: CompleteUserExportRepositoryStub;
+};
+
+const EXPORT_TTL_HOURS = 48;
+
+const makeSut = (): SutTypes => {
+  const claimPendingUserExportRepositoryStub =
+    new ClaimPendingUserExportRepositoryStub();
+  const getUserByIdRepositoryStub = new GetUserByIdRepositoryStub();
+  const getWorkspaceByIdRepositoryStub = new GetWorkspaceByIdRepositoryStub();
+  const getSessionsByUserIdRepositoryStub =
+    new GetSessionsByUserIdRepositoryStub();
+  const getPagesByWorkspaceIdRepositoryStub =
+    new GetPagesByWorkspaceIdRepositoryStub();
+  const getPageGuestsByUserIdRepositoryStub =
+    new GetPageGuestsByUserIdRepositoryStub();
+  const getPageByIdRepositoryStub = new GetPageByIdRepositoryStub();
+  const getDescendantsByPageIdRepositoryStub =
+    new GetDescendantsByPageIdRepositoryStub();
+  const exportStorageStub = new ExportStorageStub();
+  const completeUserExportRepositoryStub =
+    new CompleteUserExportRepositoryStub();
+  const sut = new GenerateUserExport(
+    claimPendingUserExportRepositoryStub,
+    getUserByIdRepositoryStub,
+    getWorkspaceByIdRepositoryStub,
+    getSessionsByUserIdRepositoryStub,
+    getPagesByWorkspaceIdRepositoryStub,
+    getPageGuestsByUserIdRepositoryStub,
+    getPageByIdRepositoryStub,
+    getDescendantsByPageIdRepositoryStub,
+    exportStorageStub,
+    completeUserExportRepositoryStub,
+    EXPORT_TTL_HOURS
+  );
+  return {
+    sut,
+    claimPendingUserExportRepositoryStub,
+    getUserByIdRepositoryStub,
+    getPagesByWorkspaceIdRepositoryStub,
+    getPageGuestsByUserIdRepositoryStub,
+    getPageByIdRepositoryStub,
+    exportStorageStub,
+    completeUserExportRepositoryStub,
+  };
+};
+
+const getSavedExport = (saveSpy: jest.SpyInstance) =>
+  JSON.parse(saveSpy.mock.calls[0][1]);
+
+describe('GenerateUserExport', () => {
+  it('should return false if there is no pending export', async () => {
+    const {
+      sut,
+      claimPendingUserExportRepositoryStub,
+      completeUserExportRepositoryStub,
+    } = makeSut();
+    jest
+      .spyOn(claimPendingUserExportRepositoryStub, 'claimPendingUserExport')
+      .mockImplementationOnce(async () => null);
+    const completeUserExportSpy = jest.spyOn(
+      completeUserExportRepositoryStub,
+      'completeUserExport'
+    );
+
+    const response = await sut.execute();
+
+    expect(response).toBe(false);
+    expect(completeUserExportSpy).not.toHaveBeenCalled();
+  });
+
+  it('should mark the export as failed if the user no longer exists', async () => {
+    const {
+      sut,
+      getUserByIdRepositoryStub,
+      exportStorageStub,
+      completeUserExportRepositoryStub,
+    } = makeSut();
+    jest
+      .spyOn(getUserByIdRepositoryStub, 'getUserById')
+      .mockImplementationOnce(async () => null);
+    const saveSpy = jest.spyOn(exportStorageStub, 'save');
+    const completeUserExportSpy = jest.spyOn(
+      completeUserExportRepositoryStub,
+      'completeUserExport'
+    );
+
+    const response = await sut.execute();
+
+    expect(response).toBe(true);
+    expect(saveSpy).not.toHaveBeenCalled();
+    expect(completeUserExportSpy).toHaveBeenCalledWith({
+      exportId: mockUserExport().id,
+      status: 'failed',
+      expiresAt: null,
+    });
+  });
+
+  it('should save the profile, memberships, favorites and sessions without the password', async () => {
+    const { sut, exportStorageStub } = makeSut();
+    const saveSpy = jest.spyOn(exportStorageStub, 'save');
+
+    await sut.execute();
+
+    expect(saveSpy).toHaveBeenCalledWith(
+      mockUserExport().id,
+      expect.any(String)
+    );
+    const savedExport = getSavedExport(saveSpy);
+    expect(savedExport.user.email).toBe(mockUser().email);
+    expect(savedExport.user.password).toBeUndefined();
+    expect(savedExport.memberships).toEqual([
+      {
+        workspaceId: '112233445566778899bbccaa',
+        name: 'sample-workspace-name',
+        role: 'owner',
+      },
+    ]);
+    expect(savedExport.favorites).toEqual([
+      { workspaceId: '112233445566778899bbccaa', pageIds: ['sample-page-1'] },
+    ]);
+    expect(savedExport.sessions).toHaveLength(1);
+  });
+
+  it('should include the pages of the member workspaces', async () => {
+    const { sut, exportStorageStub, getPagesByWorkspaceIdRepositoryStub } =
+      makeSut();
+    const saveSpy = jest.spyOn(exportStorageStub, 'save');
+    const getPagesByWorkspaceIdSpy = jest.spyOn(
+      getPagesByWorkspaceIdRepositoryStub,
+      'getPagesByWorkspaceId'
+    );
+
+    await sut.execute();
+
+    expect(getPagesByWorkspaceIdSpy).toHaveBeenCalledWith(
+      '112233445566778899bbccaa'
+    );
+    const savedExport = getSavedExport(saveSpy);
+    expect(savedExport.pages.map(({ id }: Page) => id)).toEqual([
+      mockPage().id,
+    ]);
+  });
+
+  it('should include the pages shared as a guest along with their sub-pages', async () => {
+    const {
+      sut,
+      exportStorageStub,
+      getPageGuestsByUserIdRepositoryStub,
+      getPageByIdRepositoryStub,
+    } = makeSut();
+    jest
+      .spyOn(getPageGuestsByUserIdRepositoryStub, 'getPageGuestsByUserId')
+      .mockImplementationOnce(async () => [
+        {
+          ...mockPageGuest(),
+          pageId: '112233445566778899bbcc00',
+          workspaceId: '112233445566778899bbcc11',
+        },
+      ]);
+    jest.spyOn(getPageByIdRepositoryStub, 'getPageById').mockImplementationOnce(
+      async () =>
+        new Page({
+          ...mockPage(),
+          id: '112233445566778899bbcc00',
+          workspaceId: '112233445566778899bbcc11',
+        })
+    );
+    const saveSpy = jest.spyOn(exportStorageStub, 'save');
+
+    await sut.execute();
+
+    const savedExport = getSavedExport(saveSpy);
+    expect(savedExport.pages.map(({ id }: Page) => id)).toEqual([
+      mockPage().id,
+      '112233445566778899bbcc00',
+      '112233445566778899bbccbb',
+      '112233445566778899bbccdd',
+    ]);
+  });
+
+  it('should not repeat pages shared within a member workspace', async () => {
+    const { sut, exportStorageStub, getPageByIdRepositoryStub } = makeSut();
+    const getPageByIdSpy = jest.spyOn(getPageByIdRepositoryStub, 'getPageById');
+    const saveSpy = jest.spyOn(exportStorageStub, 'save');
+
+    await sut.execute();
+
+    expect(getPageByIdSpy).not.toHaveBeenCalled();
+    expect(getSavedExport(saveSpy).pages).toHaveLength(1);
+  });
+
+  it('should leave other users out of the favorite list of the pages', async () => {
+    const { sut, exportStorageStub, getPagesByWorkspaceIdRepositoryStub } =
+      makeSut();
+    jest
+      .spyOn(getPagesByWorkspaceIdRepositoryStub, 'getPagesByWorkspaceId')
+      .mockImplementationOnce(async () => [
+        new Page({
+          ...mockPage(),
+          favorite: [mockUser().id, 'sample-other-user-id'],
+        }),
+      ]);
+    const saveSpy = jest.spyOn(exportStorageStub, 'save');
+
+    await sut.execute();
+
+    expect(getSavedExport(saveSpy).pages[0].favorite).toEqual([mockUser().id]);
+  });
+
+  it('should mark the export as ready until the ttl runs out', async () => {
+    const { sut, completeUserExportRepositoryStub } = makeSut();
+    const completeUserExportSpy = jest.spyOn(
+      completeUserExportRepositoryStub,
+      'completeUserExport'
+    );
+
+    const response = await sut.execute();
+
+    expect(response).toBe(true);
+    expect(completeUserExportSpy).toHaveBeenCalledWith({
+      exportId: mockUserExport().id,
+      status: 'ready',
+      expiresAt: expect.any(Date),
+    });
+    const { expiresAt } = completeUserExportSpy.mock.calls[0][0];
+    expect(expiresAt!.getTime()).toBeGreaterThan(
+      Date.now() + (EXPORT_TTL_HOURS - 1) * 60 * 60 * 1000
+    );
+  });
+});
@@ -1,7 +1,12 @@
 import { ForbiddenError } from '@application/errors/ForbiddenError';
 import { InvalidTokenError } from '@application/errors/InvalidTokenError';
 import { GetAccessToken } from '@application/use-cases/users/GetAccessToken';
-import { GetTokenRepositoryStub } from '@tests/infrastructure/mocks/tokens/repositories';
+import {
+  CreateTokenRepositoryStub,
+  DeleteTokensByFamilyRepositoryStub,
+  GetTokenRepositoryStub,
+  RetireTokenRepositoryStub,
+} from '@tests/infrastructure/mocks/tokens/repositories';
 import {
   JWTGeneratorStub,
   JWTVerifierStub,
@@ -10,16 +15,26 @@ import {
 type SutTypes = {
   sut: GetAccessToken;
   getTokenRepositoryStub: GetTokenRepositoryStub;
+  retireTokenRepositoryStub: RetireTokenRepositoryStub;
+  createTokenRepositoryStub: CreateTokenRepositoryStub;
+  deleteTokensByFamilyRepositoryStub: DeleteTokensByFamilyRepositoryStub;
   jwtVerifierStub: JWTVerifierStub;
   jwtGeneratorStub: JWTGeneratorStub;
 };
 
 const makeSut = (): SutTypes => {
   const getTokenRepositoryStub = new GetTokenRepositoryStub();
+  const retireTokenRepositoryStub = new RetireTokenRepositoryStub();
+  const createTokenRepositoryStub = new CreateTokenRepositoryStub();
+  const deleteTokensByFamilyRepositoryStub =
+    new DeleteTokensByFamilyRepositoryStub();
   const jwtVerifierStub = new JWTVerifierStub();
   const jwtGeneratorStub = new JWTGeneratorStub();
   const sut = new GetAccessToken(
     getTokenRepositoryStub,
+    retireTokenRepositoryStub,
+    createTokenRepositoryStub,
+    deleteTokensByFamilyRepositoryStub,
     jwtVerifierStub,
     jwtGeneratorStub
   );
@@ -27,6 +42,9 @@ const makeSut = (): SutTypes => {
   return {
     sut,
     getTokenRepositoryStub,
+    retireTokenRepositoryStub,
+    createTokenRepositoryStub,
+    deleteTokensByFamilyRepositoryStub,
     jwtVerifierStub,
     jwtGeneratorStub,
   };
@@ -73,7 +91,70 @@ describe('GetAccessToken', () => {
     expect(response).toEqual(new ForbiddenError());
   });
 
-  it('should return access token on success', async () => {
+  it('should call retireTokenRepository with correct data', async () => {
+    const { sut, retireTokenRepositoryStub } = makeSut();
+
+    const retireTokenRepositorySpy = jest.spyOn(
+      retireTokenRepositoryStub,
+      'retireToken'
+    );
+
+    const sampleToken = 'sample-refresh-token';
+    await sut.execute(sampleToken);
+
+    expect(retireTokenRepositorySpy).toHaveBeenCalledWith(sampleToken);
+  });
+
+  it('should revoke the token family if a retired token is reused', async () => {
+    const {
+      sut,
+      retireTokenRepositoryStub,
+      deleteTokensByFamilyRepositoryStub,
+      createTokenRepositoryStub,
+    } = makeSut();
+
+    jest
+      .spyOn(retireTokenRepositoryStub, 'retireToken')
+      .mockReturnValueOnce(Promise.resolve(false));
+    const deleteTokensByFamilyRepositorySpy = jest.spyOn(
+      deleteTokensByFamilyRepositoryStub,
+      'deleteTokensByFamily'
+    );
+    const createTokenRepositorySpy = jest.spyOn(
+      createTokenRepositoryStub,
+      'createToken'
+    );
+
+    const sampleToken = 'sample-refresh-token';
+    const response = await sut.execute(sampleToken);
+
+    expect(deleteTokensByFamilyRepositorySpy).toHaveBeenCalledWith(
+      'sample-family'
+    );
+    expect(createTokenRepositorySpy).not.toHaveBeenCalled();
+    expect(response).toEqual(new InvalidTokenError());
+  });
+
+  it('should store the new refresh token in the same family', async () => {
+    const { sut, createTokenRepositoryStub } = makeSut();
+
+    const createTokenRepositorySpy = jest.spyOn(
+      createTokenRepositoryStub,
+      'createToken'
+    );
+
+    const sampleToken = 'sample-refresh-token';
+    await sut.execute(sampleToken);
+
+    expect(createTokenRepositorySpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        token: 'sample-refresh-token',
+        family: 'sample-family',
+      })
+    );
+  });
+
+  it('should return access token and rotated refresh token on success', async () => {
     const { sut } = makeSut();
 
     const sampleToken = 'sample-refresh-token';
@@ -81,6 +162,7 @@ describe('GetAccessToken', () => {
 
     expect(response).toStrictEqual({
       accessToken: 'sample-access-token',
+      refreshToken: 'sample-refresh-token',
     });
   });
 });
@@ -0,0 +1,38 @@
+import { GetApiTokensByUserId } from '@application/use-cases/users/GetApiTokensByUserId';
+import mockUser from '@tests/domain/mock-user';
+import { GetApiTokensByUserIdRepositoryStub } from '@tests/infrastructure/mocks/apiTokens/repositories';
+
+type SutTypes = {
+  sut: GetApiTokensByUserId;
+  getApiTokensByUserIdRepositoryStub: GetApiTokensByUserIdRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getApiTokensByUserIdRepositoryStub =
+    new GetApiTokensByUserIdRepositoryStub();
+  const sut = new GetApiTokensByUserId(getApiTokensByUserIdRepositoryStub);
+  return {
+    sut,
+    getApiTokensByUserIdRepositoryStub,
+  };
+};
+
+describe('GetApiTokensByUserId', () => {
+  it('should call GetApiTokensByUserIdRepository with correct user id', async () => {
+    const { sut, getApiTokensByUserIdRepositoryStub } = makeSut();
+    const getApiTokensByUserIdRepositorySpy = jest.spyOn(
+      getApiTokensByUserIdRepositoryStub,
+      'getApiTokensByUserId'
+    );
+    const { id } = mockUser();
+    await sut.execute(id);
+    expect(getApiTokensByUserIdRepositorySpy).toHaveBeenCalledWith(id);
+  });
+
+  it('should not expose the token hashes', async () => {
+    const { sut } = makeSut();
+    const response = await sut.execute(mockUser().id);
+    expect(response).toHaveLength(1);
+    expect(response[0]).not.toHaveProperty('tokenHash');
+  });
+});
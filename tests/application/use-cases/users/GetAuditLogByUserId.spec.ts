@@ -0,0 +1,100 @@
+import { GetAuditLogByUserId } from '@application/use-cases/users/GetAuditLogByUserId';
+import mockAuditLogEntry from '@tests/domain/mock-audit-log-entry';
+import mockUser from '@tests/domain/mock-user';
+import { GetAuditLogEntriesByUserIdRepositoryStub } from '@tests/infrastructure/mocks/auditLogs/repositories';
+
+type SutTypes = {
+  sut: GetAuditLogByUserId;
+  getAuditLogEntriesByUserIdRepositoryStub: GetAuditLogEntriesByUserIdRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getAuditLogEntriesByUserIdRepositoryStub =
+    new GetAuditLogEntriesByUserIdRepositoryStub();
+  const sut = new GetAuditLogByUserId(getAuditLogEntriesByUserIdRepositoryStub);
+  return {
+    sut,
+    getAuditLogEntriesByUserIdRepositoryStub,
+  };
+};
+
+const mockEntries = (count: number) =>
+  Array.from({ length: count }, (_value, index) => ({
+    ...mockAuditLogEntry(),
+    id: `sample-entry-id-${index}`,
+  }));
+
+describe('GetAuditLogByUserId', () => {
+  it('should ask for the filtered entries of the user', async () => {
+    const { sut, getAuditLogEntriesByUserIdRepositoryStub } = makeSut();
+    const getAuditLogEntriesSpy = jest.spyOn(
+      getAuditLogEntriesByUserIdRepositoryStub,
+      'getAuditLogEntriesByUserId'
+    );
+    const { id } = mockUser();
+    const from = new Date('2024-01-01T00:00:00.000Z');
+
+    await sut.execute({
+      userId: id,
+      action: 'user.sign_in',
+      from,
+      cursor: '112233445566778899ddeeff',
+      limit: 10,
+    });
+
+    expect(getAuditLogEntriesSpy).toHaveBeenCalledWith({
+      userId: id,
+      action: 'user.sign_in',
+      from,
+      cursor: '112233445566778899ddeeff',
+      limit: 11,
+    });
+  });
+
+  it('should default to 50 entries per page', async () => {
+    const { sut, getAuditLogEntriesByUserIdRepositoryStub } = makeSut();
+    const getAuditLogEntriesSpy = jest.spyOn(
+      getAuditLogEntriesByUserIdRepositoryStub,
+      'getAuditLogEntriesByUserId'
+    );
+
+    await sut.execute({ userId: mockUser().id });
+
+    expect(getAuditLogEntriesSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ limit: 51 })
+    );
+  });
+
+  it('should return the last entry id as cursor if there are more entries', async () => {
+    const { sut, getAuditLogEntriesByUserIdRepositoryStub } = makeSut();
+    const entries = mockEntries(3);
+    jest
+      .spyOn(
+        getAuditLogEntriesByUserIdRepositoryStub,
+        'getAuditLogEntriesByUserId'
+      )
+      .mockImplementation(async () => entries);
+
+    const response = await sut.execute({ userId: mockUser().id, limit: 2 });
+
+    expect(response).toEqual({
+      entries: entries.slice(0, 2),
+      nextCursor: 'sample-entry-id-1',
+    });
+  });
+
+  it('should return no cursor on the last page', async () => {
+    const { sut, getAuditLogEntriesByUserIdRepositoryStub } = makeSut();
+    const entries = mockEntries(2);
+    jest
+      .spyOn(
+        getAuditLogEntriesByUserIdRepositoryStub,
+        'getAuditLogEntriesByUserId'
+      )
+      .mockImplementation(async () => entries);
+
+    const response = await sut.execute({ userId: mockUser().id, limit: 2 });
+
+    expect(response).toEqual({ entries, nextCursor: null });
+  });
+});
@@ -0,0 +1,24 @@
+import { GetJsonWebKeySet } from '@application/use-cases/users/GetJsonWebKeySet';
+import { JWKSProviderStub } from '@tests/infrastructure/mocks/users/cryptography';
+
+type SutTypes = {
+  sut: GetJsonWebKeySet;
+  jwksProviderStub: JWKSProviderStub;
+};
+
+const makeSut = (): SutTypes => {
+  const jwksProviderStub = new JWKSProviderStub();
+  const sut = new GetJsonWebKeySet(jwksProviderStub);
+  return {
+    sut,
+    jwksProviderStub,
+  };
+};
+
+describe('GetJsonWebKeySet', () => {
+  it('should return the key set of the JWKSProvider', async () => {
+    const { sut, jwksProviderStub } = makeSut();
+    const response = await sut.execute();
+    expect(response).toEqual(await jwksProviderStub.getJsonWebKeySet());
+  });
+});
@@ -0,0 +1,44 @@
+import { GetSessionsByUserId } from '@application/use-cases/users/GetSessionsByUserId';
+import mockUser from '@tests/domain/mock-user';
+import { GetSessionsByUserIdRepositoryStub } from '@tests/infrastructure/mocks/tokens/repositories';
+
+type SutTypes = {
+  sut: GetSessionsByUserId;
+  getSessionsByUserIdRepositoryStub: GetSessionsByUserIdRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getSessionsByUserIdRepositoryStub =
+    new GetSessionsByUserIdRepositoryStub();
+  const sut = new GetSessionsByUserId(getSessionsByUserIdRepositoryStub);
+  return {
+    sut,
+    getSessionsByUserIdRepositoryStub,
+  };
+};
+
+describe('GetSessionsByUserId', () => {
+  it('should call GetSessionsByUserIdRepository with correct user id', async () => {
+    const { sut, getSessionsByUserIdRepositoryStub } = makeSut();
+    const getSessionsByUserIdRepositorySpy = jest.spyOn(
+      getSessionsByUserIdRepositoryStub,
+      'getSessionsByUserId'
+    );
+    const { id } = mockUser();
+    await sut.execute(id);
+    expect(getSessionsByUserIdRepositorySpy).toHaveBeenCalledWith(id);
+  });
+
+  it('should return the sessions on success', async () => {
+    const { sut } = makeSut();
+    const { id } = mockUser();
+    const response = await sut.execute(id);
+    expect(response).toEqual([
+      expect.objectContaining({
+        id: 'sample-family',
+        userAgent: 'sample-user-agent',
+        ip: '127.0.0.1',
+      }),
+    ]);
+  });
+});
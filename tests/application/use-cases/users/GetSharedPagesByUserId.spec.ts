@@ -0,0 +1,90 @@
+import { GetSharedPagesByUserId } from '@application/use-cases/users/GetSharedPagesByUserId';
+import { Page } from '@domain/entities/Page';
+import mockPage from '@tests/domain/mock-page';
+import mockPageGuest from '@tests/domain/mock-page-guest';
+import { GetPageGuestsByUserIdRepositoryStub } from '@tests/infrastructure/mocks/pageGuests/repositories';
+import { GetPageByIdRepositoryStub } from '@tests/infrastructure/mocks/pages/repositories';
+
+type SutTypes = {
+  sut: GetSharedPagesByUserId;
+  getPageGuestsByUserIdRepositoryStub: GetPageGuestsByUserIdRepositoryStub;
+  getPageByIdRepositoryStub: GetPageByIdRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getPageGuestsByUserIdRepositoryStub =
+    new GetPageGuestsByUserIdRepositoryStub();
+  const getPageByIdRepositoryStub = new GetPageByIdRepositoryStub();
+  const sut = new GetSharedPagesByUserId(
+    getPageGuestsByUserIdRepositoryStub,
+    getPageByIdRepositoryStub
+  );
+  return {
+    sut,
+    getPageGuestsByUserIdRepositoryStub,
+    getPageByIdRepositoryStub,
+  };
+};
+
+describe('GetSharedPagesByUserId', () => {
+  it('should call GetPageGuestsByUserIdRepository with correct params', async () => {
+    const { sut, getPageGuestsByUserIdRepositoryStub } = makeSut();
+    const getPageGuestsByUserIdRepositorySpy = jest.spyOn(
+      getPageGuestsByUserIdRepositoryStub,
+      'getPageGuestsByUserId'
+    );
+    await sut.execute('sample-guest-id');
+    expect(getPageGuestsByUserIdRepositorySpy).toHaveBeenCalledWith(
+      'sample-guest-id'
+    );
+  });
+
+  it('should return the shared pages with the granted role', async () => {
+    const { sut } = makeSut();
+    const { id, reference, title, icon, workspaceId } = mockPage();
+    const response = await sut.execute('sample-guest-id');
+    expect(response).toEqual([
+      {
+        id,
+        reference,
+        title,
+        icon,
+        workspaceId,
+        role: mockPageGuest().role,
+        sharedAt: expect.any(Date),
+      },
+    ]);
+  });
+
+  it('should leave out pages that no longer exist', async () => {
+    const { sut, getPageByIdRepositoryStub } = makeSut();
+    jest
+      .spyOn(getPageByIdRepositoryStub, 'getPageById')
+      .mockImplementation(async () => null);
+    const response = await sut.execute('sample-guest-id');
+    expect(response).toEqual([]);
+  });
+
+  it('should leave out pages that are in the trash', async () => {
+    const { sut, getPageByIdRepositoryStub } = makeSut();
+    jest
+      .spyOn(getPageByIdRepositoryStub, 'getPageById')
+      .mockImplementation(
+        async () => new Page({ ...mockPage(), trashedAt: new Date() })
+      );
+    const response = await sut.execute('sample-guest-id');
+    expect(response).toEqual([]);
+  });
+
+  it('should leave out pages that were moved to another workspace', async () => {
+    const { sut, getPageByIdRepositoryStub } = makeSut();
+    jest
+      .spyOn(getPageByIdRepositoryStub, 'getPageById')
+      .mockImplementation(
+        async () =>
+          new Page({ ...mockPage(), workspaceId: 'another-workspace-id' })
+      );
+    const response = await sut.execute('sample-guest-id');
+    expect(response).toEqual([]);
+  });
+});
@@ -0,0 +1,72 @@
+import { UserExportNotFoundError } from '@application/errors/UserExportNotFoundError';
+import { GetUserExportById } from '@application/use-cases/users/GetUserExportById';
+import mockUser from '@tests/domain/mock-user';
+import mockUserExport from '@tests/domain/mock-user-export';
+import { GetUserExportByIdRepositoryStub } from '@tests/infrastructure/mocks/userExports/repositories';
+
+type SutTypes = {
+  sut: GetUserExportById;
+  getUserExportByIdRepositoryStub: GetUserExportByIdRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getUserExportByIdRepositoryStub = new GetUserExportByIdRepositoryStub();
+  const sut = new GetUserExportById(getUserExportByIdRepositoryStub);
+  return {
+    sut,
+    getUserExportByIdRepositoryStub,
+  };
+};
+
+const makeRequest = () => ({
+  userId: mockUser().id,
+  exportId: mockUserExport().id,
+});
+
+describe('GetUserExportById', () => {
+  it('should call GetUserExportByIdRepository with the export id', async () => {
+    const { sut, getUserExportByIdRepositoryStub } = makeSut();
+    const getUserExportByIdSpy = jest.spyOn(
+      getUserExportByIdRepositoryStub,
+      'getUserExportById'
+    );
+
+    await sut.execute(makeRequest());
+
+    expect(getUserExportByIdSpy).toHaveBeenCalledWith(mockUserExport().id);
+  });
+
+  it('should return UserExportNotFoundError if the export does not exist', async () => {
+    const { sut, getUserExportByIdRepositoryStub } = makeSut();
+    jest
+      .spyOn(getUserExportByIdRepositoryStub, 'getUserExportById')
+      .mockImplementationOnce(async () => null);
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new UserExportNotFoundError());
+  });
+
+  it('should return UserExportNotFoundError if the export belongs to another user', async () => {
+    const { sut } = makeSut();
+
+    const response = await sut.execute({
+      ...makeRequest(),
+      userId: '112233445566778899aabbdd',
+    });
+
+    expect(response).toEqual(new UserExportNotFoundError());
+  });
+
+  it('should return the export on success', async () => {
+    const { sut, getUserExportByIdRepositoryStub } = makeSut();
+    const userExport = mockUserExport();
+    jest
+      .spyOn(getUserExportByIdRepositoryStub, 'getUserExportById')
+      .mockImplementationOnce(async () => userExport);
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(userExport);
+  });
+});
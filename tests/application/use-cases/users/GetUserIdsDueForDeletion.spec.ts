@@ -0,0 +1,43 @@
+import { GetUserIdsDueForDeletion } from '@application/use-cases/users/GetUserIdsDueForDeletion';
+import mockUser from '@tests/domain/mock-user';
+import { GetUserIdsDueForDeletionRepositoryStub } from '@tests/infrastructure/mocks/users/repositories';
+
+type SutTypes = {
+  sut: GetUserIdsDueForDeletion;
+  getUserIdsDueForDeletionRepositoryStub: GetUserIdsDueForDeletionRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getUserIdsDueForDeletionRepositoryStub =
+    new GetUserIdsDueForDeletionRepositoryStub();
+  const sut = new GetUserIdsDueForDeletion(
+    getUserIdsDueForDeletionRepositoryStub
+  );
+  return {
+    sut,
+    getUserIdsDueForDeletionRepositoryStub,
+  };
+};
+
+describe('GetUserIdsDueForDeletion', () => {
+  it('should look up the users due by now', async () => {
+    const { sut, getUserIdsDueForDeletionRepositoryStub } = makeSut();
+    const getUserIdsDueForDeletionSpy = jest.spyOn(
+      getUserIdsDueForDeletionRepositoryStub,
+      'getUserIdsDueForDeletion'
+    );
+
+    await sut.execute();
+
+    const [date] = getUserIdsDueForDeletionSpy.mock.calls[0];
+    expect(Math.abs(date.getTime() - Date.now())).toBeLessThan(1000);
+  });
+
+  it('should return the user ids', async () => {
+    const { sut } = makeSut();
+
+    const userIds = await sut.execute();
+
+    expect(userIds).toEqual([mockUser().id]);
+  });
+});
@@ -0,0 +1,80 @@
+import { PurgeExpiredUserExports } from '@application/use-cases/users/PurgeExpiredUserExports';
+import mockUserExport from '@tests/domain/mock-user-export';
+import { ExportStorageStub } from '@tests/infrastructure/mocks/storage';
+import {
+  DeleteUserExportsRepositoryStub,
+  GetExpiredUserExportsRepositoryStub,
+} from '@tests/infrastructure/mocks/userExports/repositories';
+
+type SutTypes = {
+  sut: PurgeExpiredUserExports;
+  getExpiredUserExportsRepositoryStub: GetExpiredUserExportsRepositoryStub;
+  exportStorageStub: ExportStorageStub;
+  deleteUserExportsRepositoryStub: DeleteUserExportsRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getExpiredUserExportsRepositoryStub =
+    new GetExpiredUserExportsRepositoryStub();
+  const exportStorageStub = new ExportStorageStub();
+  const deleteUserExportsRepositoryStub = new DeleteUserExportsRepositoryStub();
+  const sut = new PurgeExpiredUserExports(
+    getExpiredUserExportsRepositoryStub,
+    exportStorageStub,
+    deleteUserExportsRepositoryStub
+  );
+  return {
+    sut,
+    getExpiredUserExportsRepositoryStub,
+    exportStorageStub,
+    deleteUserExportsRepositoryStub,
+  };
+};
+
+describe('PurgeExpiredUserExports', () => {
+  it('should look up the exports expired by now', async () => {
+    const { sut, getExpiredUserExportsRepositoryStub } = makeSut();
+    const getExpiredUserExportsSpy = jest.spyOn(
+      getExpiredUserExportsRepositoryStub,
+      'getExpiredUserExports'
+    );
+
+    await sut.execute();
+
+    expect(getExpiredUserExportsSpy).toHaveBeenCalledWith(expect.any(Date));
+  });
+
+  it('should remove the files and the records of expired exports', async () => {
+    const { sut, exportStorageStub, deleteUserExportsRepositoryStub } =
+      makeSut();
+    const removeSpy = jest.spyOn(exportStorageStub, 'remove');
+    const deleteUserExportsSpy = jest.spyOn(
+      deleteUserExportsRepositoryStub,
+      'deleteUserExports'
+    );
+
+    await sut.execute();
+
+    expect(removeSpy).toHaveBeenCalledWith(mockUserExport().id);
+    expect(deleteUserExportsSpy).toHaveBeenCalledWith([mockUserExport().id]);
+  });
+
+  it('should not delete anything if no export has expired', async () => {
+    const {
+      sut,
+      getExpiredUserExportsRepositoryStub,
+      deleteUserExportsRepositoryStub,
+    } = makeSut();
+    jest
+      .spyOn(getExpiredUserExportsRepositoryStub, 'getExpiredUserExports')
+      .mockImplementation(async () => []);
+    const deleteUserExportsSpy = jest.spyOn(
+      deleteUserExportsRepositoryStub,
+      'deleteUserExports'
+    );
+
+    await sut.execute();
+
+    expect(deleteUserExportsSpy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,420 @@
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
+import { PurgeUser } from '@application/use-cases/users/PurgeUser';
+import mockUser from '@tests/domain/mock-user';
+import mockUserExport from '@tests/domain/mock-user-export';
+import mockWorkspace from '@tests/domain/mock-workspace';
+import { DeleteApiTokensByUserIdRepositoryStub } from '@tests/infrastructure/mocks/apiTokens/repositories';
+import { CreateAuditLogEntryRepositoryStub } from '@tests/infrastructure/mocks/auditLogs/repositories';
+import { DeletePendingInvitationsByEmailRepositoryStub } from '@tests/infrastructure/mocks/invitations/repositories';
+import { ClearLoginAttemptsRepositoryStub } from '@tests/infrastructure/mocks/loginAttempts/repositories';
+import { DeleteIdentitiesByUserIdRepositoryStub } from '@tests/infrastructure/mocks/identities/repositories';
+import { DeleteMfaByUserIdRepositoryStub } from '@tests/infrastructure/mocks/mfa/repositories';
+import { DeletePageGuestsByUserIdRepositoryStub } from '@tests/infrastructure/mocks/pageGuests/repositories';
+import {
+  DeletePagesByWorkspaceIdRepositoryStub,
+  RemoveUserFromFavoritesRepositoryStub,
+} from '@tests/infrastructure/mocks/pages/repositories';
+import { ExportStorageStub } from '@tests/infrastructure/mocks/storage';
+import {
+  DeleteEmailVerificationTokensByUserIdRepositoryStub,
+  DeletePasswordResetTokensByUserIdRepositoryStub,
+  DeleteTokensByUserIdRepositoryStub,
+} from '@tests/infrastructure/mocks/tokens/repositories';
+import {
+  DeleteUserExportsRepositoryStub,
+  GetUserExportsByUserIdRepositoryStub,
+} from '@tests/infrastructure/mocks/userExports/repositories';
+import {
+  DeleteUserRepositoryStub,
+  GetUserByIdRepositoryStub,
+} from '@tests/infrastructure/mocks/users/repositories';
+import {
+  DeleteWorkspaceRepositoryStub,
+  GetWorkspaceByIdRepositoryStub,
+  RemoveMemberByWorkspaceIdRepositoryStub,
+  UpdateMemberRoleByWorkspaceIdRepositoryStub,
+} from '@tests/infrastructure/mocks/workspaces/repositories';
+import { Workspace } from '@domain/entities/Workspace';
+
+type SutTypes = {
+  sut: PurgeUser;
+  getUserByIdRepositoryStub: GetUserByIdRepositoryStub;
+  getWorkspaceByIdRepositoryStub: GetWorkspaceByIdRepositoryStub;
+  updateMemberRoleByWorkspaceIdRepositoryStub: UpdateMemberRoleByWorkspaceIdRepositoryStub;
+  removeMemberByWorkspaceIdRepositoryStub: RemoveMemberByWorkspaceIdRepositoryStub;
+  deletePagesByWorkspaceIdRepositoryStub: DeletePagesByWorkspaceIdRepositoryStub;
+  deleteWorkspaceRepositoryStub: DeleteWorkspaceRepositoryStub;
+  removeUserFromFavoritesRepositoryStub: RemoveUserFromFavoritesRepositoryStub;
+  deletePageGuestsByUserIdRepositoryStub: DeletePageGuestsByUserIdRepositoryStub;
+  deleteIdentitiesByUserIdRepositoryStub: DeleteIdentitiesByUserIdRepositoryStub;
+  deleteMfaByUserIdRepositoryStub: DeleteMfaByUserIdRepositoryStub;
+  deleteTokensByUserIdRepositoryStub: DeleteTokensByUserIdRepositoryStub;
+  deleteApiTokensByUserIdRepositoryStub: DeleteApiTokensByUserIdRepositoryStub;
+  deletePasswordResetTokensByUserIdRepositoryStub: DeletePasswordResetTokensByUserIdRepositoryStub;
+  deleteEmailVerificationTokensByUserIdRepositoryStub: DeleteEmailVerificationTokensByUserIdRepositoryStub;
+  deletePendingInvitationsByEmailRepositoryStub: DeletePendingInvitationsByEmailRepositoryStub;
+  clearLoginAttemptsRepositoryStub: ClearLoginAttemptsRepositoryStub;
+  deleteUserRepositoryStub: DeleteUserRepositoryStub;
+  createAuditLogEntryRepositoryStub: CreateAuditLogEntryRepositoryStub;
+  getUserExportsByUserIdRepositoryStub: GetUserExportsByUserIdRepositoryStub;
+  exportStorageStub: ExportStorageStub;
+  deleteUserExportsRepositoryStub: DeleteUserExportsRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getUserByIdRepositoryStub = new GetUserByIdRepositoryStub();
+  const getWorkspaceByIdRepositoryStub = new GetWorkspaceByIdRepositoryStub();
+  const updateMemberRoleByWorkspaceIdRepositoryStub =
+    new UpdateMemberRoleByWorkspaceIdRepositoryStub();
+  const removeMemberByWorkspaceIdRepositoryStub =
+    new RemoveMemberByWorkspaceIdRepositoryStub();
+  const deletePagesByWorkspaceIdRepositoryStub =
+    new DeletePagesByWorkspaceIdRepositoryStub();
+  const deleteWorkspaceRepositoryStub = new DeleteWorkspaceRepositoryStub();
+  const removeUserFromFavoritesRepositoryStub =
+    new RemoveUserFromFavoritesRepositoryStub();
+  const deletePageGuestsByUserIdRepositoryStub =
+    new DeletePageGuestsByUserIdRepositoryStub();
+  const deleteIdentitiesByUserIdRepositoryStub =
+    new DeleteIdentitiesByUserIdRepositoryStub();
+  const deleteMfaByUserIdRepositoryStub = new DeleteMfaByUserIdRepositoryStub();
+  const deleteTokensByUserIdRepositoryStub =
+    new DeleteTokensByUserIdRepositoryStub();
+  const deleteApiTokensByUserIdRepositoryStub =
+    new DeleteApiTokensByUserIdRepositoryStub();
+  const deletePasswordResetTokensByUserIdRepositoryStub =
+    new DeletePasswordResetTokensByUserIdRepositoryStub();
+  const deleteEmailVerificationTokensByUserIdRepositoryStub =
+    new DeleteEmailVerificationTokensByUserIdRepositoryStub();
+  const deletePendingInvitationsByEmailRepositoryStub =
+    new DeletePendingInvitationsByEmailRepositoryStub();
+  const clearLoginAttemptsRepositoryStub =
+    new ClearLoginAttemptsRepositoryStub();
+  const deleteUserRepositoryStub = new DeleteUserRepositoryStub();
+  const createAuditLogEntryRepositoryStub =
+    new CreateAuditLogEntryRepositoryStub();
+  const getUserExportsByUserIdRepositoryStub =
+    new GetUserExportsByUserIdRepositoryStub();
+  const exportStorageStub = new ExportStorageStub();
+  const deleteUserExportsRepositoryStub = new DeleteUserExportsRepositoryStub();
+  const sut = new PurgeUser(
+    getUserByIdRepositoryStub,
+    getWorkspaceByIdRepositoryStub,
+    updateMemberRoleByWorkspaceIdRepositoryStub,
+    removeMemberByWorkspaceIdRepositoryStub,
+    deletePagesByWorkspaceIdRepositoryStub,
+    deleteWorkspaceRepositoryStub,
+    removeUserFromFavoritesRepositoryStub,
+    deletePageGuestsByUserIdRepositoryStub,
+    deleteIdentitiesByUserIdRepositoryStub,
+    deleteMfaByUserIdRepositoryStub,
+    deleteTokensByUserIdRepositoryStub,
+    deleteApiTokensByUserIdRepositoryStub,
+    deletePasswordResetTokensByUserIdRepositoryStub,
+    deleteEmailVerificationTokensByUserIdRepositoryStub,
+    deletePendingInvitationsByEmailRepositoryStub,
+    clearLoginAttemptsRepositoryStub,
+    deleteUserRepositoryStub,
+    createAuditLogEntryRepositoryStub,
+    getUserExportsByUserIdRepositoryStub,
+    exportStorageStub,
+    deleteUserExportsRepositoryStub
+  );
+  return {
+    sut,
+    getUserByIdRepositoryStub,
+    getWorkspaceByIdRepositoryStub,
+    updateMemberRoleByWorkspaceIdRepositoryStub,
+    removeMemberByWorkspaceIdRepositoryStub,
+    deletePagesByWorkspaceIdRepositoryStub,
+    deleteWorkspaceRepositoryStub,
+    removeUserFromFavoritesRepositoryStub,
+    deletePageGuestsByUserIdRepositoryStub,
+    deleteIdentitiesByUserIdRepositoryStub,
+    deleteMfaByUserIdRepositoryStub,
+    deleteTokensByUserIdRepositoryStub,
+    deleteApiTokensByUserIdRepositoryStub,
+    deletePasswordResetTokensByUserIdRepositoryStub,
+    deleteEmailVerificationTokensByUserIdRepositoryStub,
+    deletePendingInvitationsByEmailRepositoryStub,
+    clearLoginAttemptsRepositoryStub,
+    deleteUserRepositoryStub,
+    createAuditLogEntryRepositoryStub,
+    getUserExportsByUserIdRepositoryStub,
+    exportStorageStub,
+    deleteUserExportsRepositoryStub,
+  };
+};
+
+const mockWorkspaceWithMembers = (members: Workspace['members']): Workspace =>
+  new Workspace({ ...mockWorkspace(), members });
+
+describe('PurgeUser', () => {
+  it('should return a UserNotFoundError if the user does not exist', async () => {
+    const { sut, getUserByIdRepositoryStub } = makeSut();
+    jest
+      .spyOn(getUserByIdRepositoryStub, 'getUserById')
+      .mockImplementation(async () => null);
+
+    const response = await sut.execute(mockUser().id);
+
+    expect(response).toEqual(new UserNotFoundError());
+  });
+
+  it('should delete a workspace the user is the only member of', async () => {
+    const {
+      sut,
+      getWorkspaceByIdRepositoryStub,
+      deletePagesByWorkspaceIdRepositoryStub,
+      deleteWorkspaceRepositoryStub,
+      removeMemberByWorkspaceIdRepositoryStub,
+    } = makeSut();
+    jest
+      .spyOn(getWorkspaceByIdRepositoryStub, 'getWorkspaceById')
+      .mockImplementation(async () =>
+        mockWorkspaceWithMembers([{ userId: mockUser().id, role: 'owner' }])
+      );
+    const deletePagesByWorkspaceIdSpy = jest.spyOn(
+      deletePagesByWorkspaceIdRepositoryStub,
+      'deletePagesByWorkspaceId'
+    );
+    const deleteWorkspaceSpy = jest.spyOn(
+      deleteWorkspaceRepositoryStub,
+      'deleteWorkspace'
+    );
+    const removeMemberByWorkspaceIdSpy = jest.spyOn(
+      removeMemberByWorkspaceIdRepositoryStub,
+      'removeMemberByWorkspaceId'
+    );
+
+    await sut.execute(mockUser().id);
+
+    const { id: workspaceId } = mockWorkspace();
+    expect(deletePagesByWorkspaceIdSpy).toHaveBeenCalledWith(workspaceId);
+    expect(deleteWorkspaceSpy).toHaveBeenCalledWith(workspaceId);
+    expect(removeMemberByWorkspaceIdSpy).not.toHaveBeenCalled();
+  });
+
+  it('should hand a shared workspace over to the most privileged member left', async () => {
+    const {
+      sut,
+      getWorkspaceByIdRepositoryStub,
+      updateMemberRoleByWorkspaceIdRepositoryStub,
+      removeMemberByWorkspaceIdRepositoryStub,
+      deleteWorkspaceRepositoryStub,
+    } = makeSut();
+    jest
+      .spyOn(getWorkspaceByIdRepositoryStub, 'getWorkspaceById')
+      .mockImplementation(async () =>
+        mockWorkspaceWithMembers([
+          { userId: mockUser().id, role: 'owner' },
+          { userId: 'sample-viewer-id', role: 'viewer' },
+          { userId: 'sample-editor-id', role: 'editor' },
+        ])
+      );
+    const updateMemberRoleByWorkspaceIdSpy = jest.spyOn(
+      updateMemberRoleByWorkspaceIdRepositoryStub,
+      'updateMemberRoleByWorkspaceId'
+    );
+    const removeMemberByWorkspaceIdSpy = jest.spyOn(
+      removeMemberByWorkspaceIdRepositoryStub,
+      'removeMemberByWorkspaceId'
+    );
+    const deleteWorkspaceSpy = jest.spyOn(
+      deleteWorkspaceRepositoryStub,
+      'deleteWorkspace'
+    );
+
+    await sut.execute(mockUser().id);
+
+    const { id: workspaceId } = mockWorkspace();
+    expect(updateMemberRoleByWorkspaceIdSpy).toHaveBeenCalledWith({
+      workspaceId,
+      memberId: 'sample-editor-id',
+      role: 'owner',
+    });
+    expect(removeMemberByWorkspaceIdSpy).toHaveBeenCalledWith({
+      workspaceId,
+      memberId: mockUser().id,
+    });
+    expect(deleteWorkspaceSpy).not.toHaveBeenCalled();
+  });
+
+  it('should not hand over a workspace that keeps another owner', async () => {
+    const {
+      sut,
+      getWorkspaceByIdRepositoryStub,
+      updateMemberRoleByWorkspaceIdRepositoryStub,
+      removeMemberByWorkspaceIdRepositoryStub,
+    } = makeSut();
+    jest
+      .spyOn(getWorkspaceByIdRepositoryStub, 'getWorkspaceById')
+      .mockImplementation(async () =>
+        mockWorkspaceWithMembers([
+          { userId: mockUser().id, role: 'owner' },
+          { userId: 'sample-owner-id', role: 'owner' },
+        ])
+      );
+    const updateMemberRoleByWorkspaceIdSpy = jest.spyOn(
+      updateMemberRoleByWorkspaceIdRepositoryStub,
+      'updateMemberRoleByWorkspaceId'
+    );
+    const removeMemberByWorkspaceIdSpy = jest.spyOn(
+      removeMemberByWorkspaceIdRepositoryStub,
+      'removeMemberByWorkspaceId'
+    );
+
+    await sut.execute(mockUser().id);
+
+    expect(updateMemberRoleByWorkspaceIdSpy).not.toHaveBeenCalled();
+    expect(removeMemberByWorkspaceIdSpy).toHaveBeenCalled();
+  });
+
+  it('should record the workspace changes in the audit log', async () => {
+    const { sut, createAuditLogEntryRepositoryStub } = makeSut();
+    const createAuditLogEntrySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+
+    await sut.execute(mockUser().id);
+
+    const { id: workspaceId } = mockWorkspace();
+    expect(createAuditLogEntrySpy).toHaveBeenCalledWith({
+      action: 'workspace.member_role_update',
+      actorId: mockUser().id,
+      targetType: 'user',
+      targetId: '112233445566778899aabbdd',
+      workspaceId,
+    });
+    expect(createAuditLogEntrySpy).toHaveBeenCalledWith({
+      action: 'workspace.member_remove',
+      actorId: mockUser().id,
+      targetType: 'user',
+      targetId: mockUser().id,
+      workspaceId,
+    });
+  });
+
+  it('should scrub favorites, guest access, identities and two-factor', async () => {
+    const {
+      sut,
+      removeUserFromFavoritesRepositoryStub,
+      deletePageGuestsByUserIdRepositoryStub,
+      deleteIdentitiesByUserIdRepositoryStub,
+      deleteMfaByUserIdRepositoryStub,
+    } = makeSut();
+    const removeUserFromFavoritesSpy = jest.spyOn(
+      removeUserFromFavoritesRepositoryStub,
+      'removeUserFromFavorites'
+    );
+    const deletePageGuestsByUserIdSpy = jest.spyOn(
+      deletePageGuestsByUserIdRepositoryStub,
+      'deletePageGuestsByUserId'
+    );
+    const deleteIdentitiesByUserIdSpy = jest.spyOn(
+      deleteIdentitiesByUserIdRepositoryStub,
+      'deleteIdentitiesByUserId'
+    );
+    const deleteMfaByUserIdSpy = jest.spyOn(
+      deleteMfaByUserIdRepositoryStub,
+      'deleteMfaByUserId'
+    );
+
+    await sut.execute(mockUser().id);
+
+    const { id } = mockUser();
+    expect(removeUserFromFavoritesSpy).toHaveBeenCalledWith(id);
+    expect(deletePageGuestsByUserIdSpy).toHaveBeenCalledWith(id);
+    expect(deleteIdentitiesByUserIdSpy).toHaveBeenCalledWith(id);
+    expect(deleteMfaByUserIdSpy).toHaveBeenCalledWith(id);
+  });
+
+  it('should revoke every session and api token', async () => {
+    const {
+      sut,
+      deleteTokensByUserIdRepositoryStub,
+      deleteApiTokensByUserIdRepositoryStub,
+    } = makeSut();
+    const deleteTokensByUserIdSpy = jest.spyOn(
+      deleteTokensByUserIdRepositoryStub,
+      'deleteTokensByUserId'
+    );
+    const deleteApiTokensByUserIdSpy = jest.spyOn(
+      deleteApiTokensByUserIdRepositoryStub,
+      'deleteApiTokensByUserId'
+    );
+
+    await sut.execute(mockUser().id);
+
+    expect(deleteTokensByUserIdSpy).toHaveBeenCalledWith(mockUser().id);
+    expect(deleteApiTokensByUserIdSpy).toHaveBeenCalledWith(mockUser().id);
+  });
+
+  it('should delete the reset and verification tokens, pending invitations and sign-in failures', async () => {
+    const {
+      sut,
+      deletePasswordResetTokensByUserIdRepositoryStub,
+      deleteEmailVerificationTokensByUserIdRepositoryStub,
+      deletePendingInvitationsByEmailRepositoryStub,
+      clearLoginAttemptsRepositoryStub,
+    } = makeSut();
+    const deletePasswordResetTokensByUserIdSpy = jest.spyOn(
+      deletePasswordResetTokensByUserIdRepositoryStub,
+      'deletePasswordResetTokensByUserId'
+    );
+    const deleteEmailVerificationTokensByUserIdSpy = jest.spyOn(
+      deleteEmailVerificationTokensByUserIdRepositoryStub,
+      'deleteEmailVerificationTokensByUserId'
+    );
+    const deletePendingInvitationsByEmailSpy = jest.spyOn(
+      deletePendingInvitationsByEmailRepositoryStub,
+      'deletePendingInvitationsByEmail'
+    );
+    const clearLoginAttemptsSpy = jest.spyOn(
+      clearLoginAttemptsRepositoryStub,
+      'clearLoginAttempts'
+    );
+
+    await sut.execute(mockUser().id);
+
+    const { id, email } = mockUser();
+    expect(deletePasswordResetTokensByUserIdSpy).toHaveBeenCalledWith(id);
+    expect(deleteEmailVerificationTokensByUserIdSpy).toHaveBeenCalledWith(id);
+    expect(deletePendingInvitationsByEmailSpy).toHaveBeenCalledWith(email);
+    expect(clearLoginAttemptsSpy).toHaveBeenCalledWith(`email:${email}`);
+  });
+
+  it('should delete the files and the records of every export', async () => {
+    const {
+      sut,
+      getUserExportsByUserIdRepositoryStub,
+      exportStorageStub,
+      deleteUserExportsRepositoryStub,
+    } = makeSut();
+    const getUserExportsByUserIdSpy = jest.spyOn(
+      getUserExportsByUserIdRepositoryStub,
+      'getUserExportsByUserId'
+    );
+    const removeSpy = jest.spyOn(exportStorageStub, 'remove');
+    const deleteUserExportsSpy = jest.spyOn(
+      deleteUserExportsRepositoryStub,
+      'deleteUserExports'
+    );
+
+    await sut.execute(mockUser().id);
+
+    expect(getUserExportsByUserIdSpy).toHaveBeenCalledWith(mockUser().id);
+    expect(removeSpy).toHaveBeenCalledWith(mockUserExport().id);
+    expect(deleteUserExportsSpy).toHaveBeenCalledWith([mockUserExport().id]);
+  });
+
+  it('should delete the user', async () => {
+    const { sut, deleteUserRepositoryStub } = makeSut();
+    const deleteUserSpy = jest.spyOn(deleteUserRepositoryStub, 'deleteUser');
+
+    await sut.execute(mockUser().id);
+
+    expect(deleteUserSpy).toHaveBeenCalledWith(mockUser().id);
+  });
+});
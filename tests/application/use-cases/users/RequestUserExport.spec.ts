@@ -0,0 +1,53 @@
+import { RequestUserExport } from '@application/use-cases/users/RequestUserExport';
+import mockUser from '@tests/domain/mock-user';
+import { mockPendingUserExport } from '@tests/domain/mock-user-export';
+import { CreateUserExportRepositoryStub } from '@tests/infrastructure/mocks/userExports/repositories';
+
+type SutTypes = {
+  sut: RequestUserExport;
+  createUserExportRepositoryStub: CreateUserExportRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const createUserExportRepositoryStub = new CreateUserExportRepositoryStub();
+  const sut = new RequestUserExport(createUserExportRepositoryStub);
+  return {
+    sut,
+    createUserExportRepositoryStub,
+  };
+};
+
+describe('RequestUserExport', () => {
+  it('should call CreateUserExportRepository with the user id', async () => {
+    const { sut, createUserExportRepositoryStub } = makeSut();
+    const createUserExportSpy = jest.spyOn(
+      createUserExportRepositoryStub,
+      'createUserExport'
+    );
+
+    await sut.execute(mockUser().id);
+
+    expect(createUserExportSpy).toHaveBeenCalledWith(mockUser().id);
+  });
+
+  it('should return the pending export', async () => {
+    const { sut } = makeSut();
+
+    const response = await sut.execute(mockUser().id);
+
+    expect(response).toEqual(mockPendingUserExport());
+  });
+
+  it('should throw if CreateUserExportRepository throws', async () => {
+    const { sut, createUserExportRepositoryStub } = makeSut();
+    jest
+      .spyOn(createUserExportRepositoryStub, 'createUserExport')
+      .mockImplementationOnce(() => {
+        throw new Error('any_error');
+      });
+
+    const promise = sut.execute(mockUser().id);
+
+    await expect(promise).rejects.toThrow();
+  });
+});
@@ -0,0 +1,154 @@
+import { InvalidTokenError } from '@application/errors/InvalidTokenError';
+import { ResetPassword } from '@application/use-cases/users/ResetPassword';
+import { CreateAuditLogEntryRepositoryStub } from '@tests/infrastructure/mocks/auditLogs/repositories';
+import {
+  ConsumePasswordResetTokenRepositoryStub,
+  DeleteTokensByUserIdRepositoryStub,
+} from '@tests/infrastructure/mocks/tokens/repositories';
+import { HashGeneratorStub } from '@tests/infrastructure/mocks/users/cryptography';
+import { UpdatePasswordRepositoryStub } from '@tests/infrastructure/mocks/users/repositories';
+
+type SutTypes = {
+  sut: ResetPassword;
+  consumePasswordResetTokenRepositoryStub: ConsumePasswordResetTokenRepositoryStub;
+  hashGeneratorStub: HashGeneratorStub;
+  updatePasswordRepositoryStub: UpdatePasswordRepositoryStub;
+  deleteTokensByUserIdRepositoryStub: DeleteTokensByUserIdRepositoryStub;
+  createAuditLogEntryRepositoryStub: CreateAuditLogEntryRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const consumePasswordResetTokenRepositoryStub =
+    new ConsumePasswordResetTokenRepositoryStub();
+  const hashGeneratorStub = new HashGeneratorStub();
+  const updatePasswordRepositoryStub = new UpdatePasswordRepositoryStub();
+  const deleteTokensByUserIdRepositoryStub =
+    new DeleteTokensByUserIdRepositoryStub();
+  const createAuditLogEntryRepositoryStub =
+    new CreateAuditLogEntryRepositoryStub();
+  const sut = new ResetPassword(
+    consumePasswordResetTokenRepositoryStub,
+    hashGeneratorStub,
+    updatePasswordRepositoryStub,
+    deleteTokensByUserIdRepositoryStub,
+    createAuditLogEntryRepositoryStub
+  );
+  return {
+    sut,
+    consumePasswordResetTokenRepositoryStub,
+    hashGeneratorStub,
+    updatePasswordRepositoryStub,
+    deleteTokensByUserIdRepositoryStub,
+    createAuditLogEntryRepositoryStub,
+  };
+};
+
+describe('ResetPassword', () => {
+  it('should return an InvalidTokenError if the token is unknown or used', async () => {
+    const { sut, consumePasswordResetTokenRepositoryStub } = makeSut();
+    jest
+      .spyOn(
+        consumePasswordResetTokenRepositoryStub,
+        'consumePasswordResetToken'
+      )
+      .mockImplementation(async () => null);
+
+    const response = await sut.execute({
+      token: 'sample-reset-token',
+      password: 'new-password',
+    });
+
+    expect(response).toEqual(new InvalidTokenError());
+  });
+
+  it('should return an InvalidTokenError if the token has expired', async () => {
+    const {
+      sut,
+      consumePasswordResetTokenRepositoryStub,
+      updatePasswordRepositoryStub,
+    } = makeSut();
+    jest
+      .spyOn(
+        consumePasswordResetTokenRepositoryStub,
+        'consumePasswordResetToken'
+      )
+      .mockImplementation(async () => ({
+        id: 'sample-id',
+        token: 'sample-reset-token',
+        userId: 'sample-user-id',
+        expiresAt: new Date(Date.now() - 1000),
+        usedAt: new Date(),
+        createdAt: new Date(),
+      }));
+    const updatePasswordSpy = jest.spyOn(
+      updatePasswordRepositoryStub,
+      'updatePassword'
+    );
+
+    const response = await sut.execute({
+      token: 'sample-reset-token',
+      password: 'new-password',
+    });
+
+    expect(response).toEqual(new InvalidTokenError());
+    expect(updatePasswordSpy).not.toHaveBeenCalled();
+  });
+
+  it('should store the hashed password', async () => {
+    const { sut, hashGeneratorStub, updatePasswordRepositoryStub } = makeSut();
+    const hashSpy = jest.spyOn(hashGeneratorStub, 'hash');
+    const updatePasswordSpy = jest.spyOn(
+      updatePasswordRepositoryStub,
+      'updatePassword'
+    );
+
+    await sut.execute({
+      token: 'sample-reset-token',
+      password: 'new-password',
+    });
+
+    expect(hashSpy).toHaveBeenCalledWith('new-password');
+    expect(updatePasswordSpy).toHaveBeenCalledWith({
+      userId: 'sample-user-id',
+      password: 'sample-hash',
+    });
+  });
+
+  it('should revoke every session of the user', async () => {
+    const { sut, deleteTokensByUserIdRepositoryStub } = makeSut();
+    const deleteTokensByUserIdSpy = jest.spyOn(
+      deleteTokensByUserIdRepositoryStub,
+      'deleteTokensByUserId'
+    );
+
+    const response = await sut.execute({
+      token: 'sample-reset-token',
+      password: 'new-password',
+    });
+
+    expect(response).toBeUndefined();
+    expect(deleteTokensByUserIdSpy).toHaveBeenCalledWith('sample-user-id');
+  });
+
+  it('should record the revoked sessions in the audit log', async () => {
+    const { sut, createAuditLogEntryRepositoryStub } = makeSut();
+    const createAuditLogEntryRepositorySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+
+    await sut.execute({
+      token: 'sample-reset-token',
+      password: 'new-password',
+      ip: '127.0.0.1',
+    });
+
+    expect(createAuditLogEntryRepositorySpy).toHaveBeenCalledWith({
+      action: 'user.sign_out_everywhere',
+      actorId: 'sample-user-id',
+      targetType: 'user',
+      targetId: 'sample-user-id',
+      ip: '127.0.0.1',
+    });
+  });
+});
@@ -0,0 +1,83 @@
+import { RestoreUser } from '@application/use-cases/users/RestoreUser';
+import mockUser from '@tests/domain/mock-user';
+import { CreateAuditLogEntryRepositoryStub } from '@tests/infrastructure/mocks/auditLogs/repositories';
+import { CancelUserDeletionRepositoryStub } from '@tests/infrastructure/mocks/users/repositories';
+
+type SutTypes = {
+  sut: RestoreUser;
+  cancelUserDeletionRepositoryStub: CancelUserDeletionRepositoryStub;
+  createAuditLogEntryRepositoryStub: CreateAuditLogEntryRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const cancelUserDeletionRepositoryStub =
+    new CancelUserDeletionRepositoryStub();
+  const createAuditLogEntryRepositoryStub =
+    new CreateAuditLogEntryRepositoryStub();
+  const sut = new RestoreUser(
+    cancelUserDeletionRepositoryStub,
+    createAuditLogEntryRepositoryStub
+  );
+  return {
+    sut,
+    cancelUserDeletionRepositoryStub,
+    createAuditLogEntryRepositoryStub,
+  };
+};
+
+const makeRequest = () => {
+  const { id } = mockUser();
+  return { userId: id, actorId: id, ip: '127.0.0.1' };
+};
+
+describe('RestoreUser', () => {
+  it('should cancel the scheduled deletion', async () => {
+    const { sut, cancelUserDeletionRepositoryStub } = makeSut();
+    const cancelUserDeletionSpy = jest.spyOn(
+      cancelUserDeletionRepositoryStub,
+      'cancelUserDeletion'
+    );
+
+    await sut.execute(makeRequest());
+
+    expect(cancelUserDeletionSpy).toHaveBeenCalledWith(mockUser().id);
+  });
+
+  it('should record the restore in the audit log', async () => {
+    const { sut, createAuditLogEntryRepositoryStub } = makeSut();
+    const createAuditLogEntrySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+
+    await sut.execute(makeRequest());
+
+    const { id } = mockUser();
+    expect(createAuditLogEntrySpy).toHaveBeenCalledWith({
+      action: 'user.restore',
+      actorId: id,
+      targetType: 'user',
+      targetId: id,
+      ip: '127.0.0.1',
+    });
+  });
+
+  it('should not record anything if no deletion was scheduled', async () => {
+    const {
+      sut,
+      cancelUserDeletionRepositoryStub,
+      createAuditLogEntryRepositoryStub,
+    } = makeSut();
+    jest
+      .spyOn(cancelUserDeletionRepositoryStub, 'cancelUserDeletion')
+      .mockImplementation(async () => false);
+    const createAuditLogEntrySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+
+    await sut.execute(makeRequest());
+
+    expect(createAuditLogEntrySpy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,101 @@
+import { SessionNotFoundError } from '@application/errors/SessionNotFoundError';
+import { RevokeSession } from '@application/use-cases/users/RevokeSession';
+import mockUser from '@tests/domain/mock-user';
+import { CreateAuditLogEntryRepositoryStub } from '@tests/infrastructure/mocks/auditLogs/repositories';
+import {
+  DeleteTokensByFamilyRepositoryStub,
+  GetSessionsByUserIdRepositoryStub,
+} from '@tests/infrastructure/mocks/tokens/repositories';
+
+type SutTypes = {
+  sut: RevokeSession;
+  getSessionsByUserIdRepositoryStub: GetSessionsByUserIdRepositoryStub;
+  deleteTokensByFamilyRepositoryStub: DeleteTokensByFamilyRepositoryStub;
+  createAuditLogEntryRepositoryStub: CreateAuditLogEntryRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getSessionsByUserIdRepositoryStub =
+    new GetSessionsByUserIdRepositoryStub();
+  const deleteTokensByFamilyRepositoryStub =
+    new DeleteTokensByFamilyRepositoryStub();
+  const createAuditLogEntryRepositoryStub =
+    new CreateAuditLogEntryRepositoryStub();
+  const sut = new RevokeSession(
+    getSessionsByUserIdRepositoryStub,
+    deleteTokensByFamilyRepositoryStub,
+    createAuditLogEntryRepositoryStub
+  );
+  return {
+    sut,
+    getSessionsByUserIdRepositoryStub,
+    deleteTokensByFamilyRepositoryStub,
+    createAuditLogEntryRepositoryStub,
+  };
+};
+
+describe('RevokeSession', () => {
+  it('should call GetSessionsByUserIdRepository with correct user id', async () => {
+    const { sut, getSessionsByUserIdRepositoryStub } = makeSut();
+    const getSessionsByUserIdRepositorySpy = jest.spyOn(
+      getSessionsByUserIdRepositoryStub,
+      'getSessionsByUserId'
+    );
+    const { id } = mockUser();
+    await sut.execute({ userId: id, sessionId: 'sample-family' });
+    expect(getSessionsByUserIdRepositorySpy).toHaveBeenCalledWith(id);
+  });
+
+  it('should return a SessionNotFoundError if the session does not belong to the user', async () => {
+    const { sut, deleteTokensByFamilyRepositoryStub } = makeSut();
+    const deleteTokensByFamilyRepositorySpy = jest.spyOn(
+      deleteTokensByFamilyRepositoryStub,
+      'deleteTokensByFamily'
+    );
+    const { id } = mockUser();
+    const response = await sut.execute({
+      userId: id,
+      sessionId: 'other-family',
+    });
+    expect(response).toEqual(new SessionNotFoundError());
+    expect(deleteTokensByFamilyRepositorySpy).not.toHaveBeenCalled();
+  });
+
+  it('should call DeleteTokensByFamilyRepository with the session id', async () => {
+    const { sut, deleteTokensByFamilyRepositoryStub } = makeSut();
+    const deleteTokensByFamilyRepositorySpy = jest.spyOn(
+      deleteTokensByFamilyRepositoryStub,
+      'deleteTokensByFamily'
+    );
+    const { id } = mockUser();
+    const response = await sut.execute({
+      userId: id,
+      sessionId: 'sample-family',
+    });
+    expect(response).toBeUndefined();
+    expect(deleteTokensByFamilyRepositorySpy).toHaveBeenCalledWith(
+      'sample-family'
+    );
+  });
+
+  it('should record the revocation in the audit log', async () => {
+    const { sut, createAuditLogEntryRepositoryStub } = makeSut();
+    const createAuditLogEntryRepositorySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+    const { id } = mockUser();
+    await sut.execute({
+      userId: id,
+      sessionId: 'sample-family',
+      ip: '127.0.0.1',
+    });
+    expect(createAuditLogEntryRepositorySpy).toHaveBeenCalledWith({
+      action: 'session.revoke',
+      actorId: id,
+      targetType: 'session',
+      targetId: 'sample-family',
+      ip: '127.0.0.1',
+    });
+  });
+});
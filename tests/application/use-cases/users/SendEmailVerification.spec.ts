@@ -0,0 +1,82 @@
+import { SendEmailVerification } from '@application/use-cases/users/SendEmailVerification';
+import mockUser from '@tests/domain/mock-user';
+import { MailSenderStub } from '@tests/infrastructure/mocks/mail';
+import { CreateEmailVerificationTokenRepositoryStub } from '@tests/infrastructure/mocks/tokens/repositories';
+import { TokenGeneratorStub } from '@tests/infrastructure/mocks/users/cryptography';
+
+type SutTypes = {
+  sut: SendEmailVerification;
+  createEmailVerificationTokenRepositoryStub: CreateEmailVerificationTokenRepositoryStub;
+  tokenGeneratorStub: TokenGeneratorStub;
+  mailSenderStub: MailSenderStub;
+};
+
+const makeSut = (): SutTypes => {
+  const createEmailVerificationTokenRepositoryStub =
+    new CreateEmailVerificationTokenRepositoryStub();
+  const tokenGeneratorStub = new TokenGeneratorStub();
+  const mailSenderStub = new MailSenderStub();
+  const sut = new SendEmailVerification(
+    createEmailVerificationTokenRepositoryStub,
+    tokenGeneratorStub,
+    mailSenderStub,
+    'http://localhost:3000',
+    24
+  );
+  return {
+    sut,
+    createEmailVerificationTokenRepositoryStub,
+    tokenGeneratorStub,
+    mailSenderStub,
+  };
+};
+
+describe('SendEmailVerification', () => {
+  it('should store a time-limited verification token for the address', async () => {
+    const {
+      sut,
+      createEmailVerificationTokenRepositoryStub,
+      tokenGeneratorStub,
+    } = makeSut();
+    jest
+      .spyOn(tokenGeneratorStub, 'generateToken')
+      .mockImplementation(async () => 'sample-verification-token');
+    const createEmailVerificationTokenSpy = jest.spyOn(
+      createEmailVerificationTokenRepositoryStub,
+      'createEmailVerificationToken'
+    );
+    const { id, email } = mockUser();
+
+    await sut.execute({ userId: id, email });
+
+    expect(createEmailVerificationTokenSpy).toHaveBeenCalledWith({
+      token: 'sample-verification-token',
+      userId: id,
+      email,
+      expiresAt: expect.any(Date),
+    });
+    const [{ expiresAt }] = createEmailVerificationTokenSpy.mock.calls[0];
+    expect(expiresAt.getTime()).toBeLessThanOrEqual(
+      Date.now() + 24 * 60 * 60 * 1000
+    );
+  });
+
+  it('should mail the verification link to the address', async () => {
+    const { sut, mailSenderStub, tokenGeneratorStub } = makeSut();
+    jest
+      .spyOn(tokenGeneratorStub, 'generateToken')
+      .mockImplementation(async () => 'sample-verification-token');
+    const sendSpy = jest.spyOn(mailSenderStub, 'send');
+    const { id, email } = mockUser();
+
+    await sut.execute({ userId: id, email });
+
+    expect(sendSpy).toHaveBeenCalledWith({
+      to: email,
+      subject: expect.any(String),
+      text: expect.stringContaining(
+        'http://localhost:3000/verify-email/sample-verification-token'
+      ),
+    });
+  });
+});
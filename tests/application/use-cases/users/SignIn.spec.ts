@@ -1,11 +1,23 @@
+import { AccountLockedError } from '@application/errors/AccountLockedError';
 import { InvalidPasswordError } from '@application/errors/InvalidPasswordError';
 import { InvalidUserError } from '@application/errors/InvalidUserError';
 import { SignIn } from '@application/use-cases/users/SignIn';
 import mockUser from '@tests/domain/mock-user';
+import { CreateAuditLogEntryRepositoryStub } from '@tests/infrastructure/mocks/auditLogs/repositories';
+import {
+  ClearLoginAttemptsRepositoryStub,
+  GetLoginAttemptsRepositoryStub,
+  RecordFailedLoginRepositoryStub,
+} from '@tests/infrastructure/mocks/loginAttempts/repositories';
+import {
+  CreateMfaChallengeRepositoryStub,
+  GetMfaByUserIdRepositoryStub,
+} from '@tests/infrastructure/mocks/mfa/repositories';
 import { CreateTokenRepositoryStub } from '@tests/infrastructure/mocks/tokens/repositories';
 import {
   HashCompareStub,
   JWTGeneratorStub,
+  TokenGeneratorStub,
 } from '@tests/infrastructure/mocks/users/cryptography';
 import { LoadUserByEmailRepositoryStub } from '@tests/infrastructure/mocks/users/repositories';
 
@@ -15,6 +27,13 @@ type SutTypes = {
   createTokenRepositoryStub: CreateTokenRepositoryStub;
   hashComparerStub: HashCompareStub;
   jwtGeneratorStub: JWTGeneratorStub;
+  getMfaByUserIdRepositoryStub: GetMfaByUserIdRepositoryStub;
+  createMfaChallengeRepositoryStub: CreateMfaChallengeRepositoryStub;
+  tokenGeneratorStub: TokenGeneratorStub;
+  getLoginAttemptsRepositoryStub: GetLoginAttemptsRepositoryStub;
+  recordFailedLoginRepositoryStub: RecordFailedLoginRepositoryStub;
+  clearLoginAttemptsRepositoryStub: ClearLoginAttemptsRepositoryStub;
+  createAuditLogEntryRepositoryStub: CreateAuditLogEntryRepositoryStub;
 };
 
 const makesSut = (): SutTypes => {
@@ -22,11 +41,31 @@ const makesSut = (): SutTypes => {
   const createTokenRepositoryStub = new CreateTokenRepositoryStub();
   const hashComparerStub = new HashCompareStub();
   const jwtGeneratorStub = new JWTGeneratorStub();
+  const getMfaByUserIdRepositoryStub = new GetMfaByUserIdRepositoryStub();
+  const createMfaChallengeRepositoryStub =
+    new CreateMfaChallengeRepositoryStub();
+  const tokenGeneratorStub = new TokenGeneratorStub();
+  const getLoginAttemptsRepositoryStub = new GetLoginAttemptsRepositoryStub();
+  const recordFailedLoginRepositoryStub = new RecordFailedLoginRepositoryStub();
+  const clearLoginAttemptsRepositoryStub =
+    new ClearLoginAttemptsRepositoryStub();
+  const createAuditLogEntryRepositoryStub =
+    new CreateAuditLogEntryRepositoryStub();
   const sut = new SignIn(
     loadUserByEmailRepositoryStub,
     createTokenRepositoryStub,
     hashComparerStub,
-    jwtGeneratorStub
+    jwtGeneratorStub,
+    getMfaByUserIdRepositoryStub,
+    createMfaChallengeRepositoryStub,
+    tokenGeneratorStub,
+    5,
+    getLoginAttemptsRepositoryStub,
+    recordFailedLoginRepositoryStub,
+    clearLoginAttemptsRepositoryStub,
+    15,
+    createAuditLogEntryRepositoryStub,
+    'sample-dummy-hash'
   );
 
   return {
@@ -35,9 +74,39 @@ const makesSut = (): SutTypes => {
     createTokenRepositoryStub,
     hashComparerStub,
     jwtGeneratorStub,
+    getMfaByUserIdRepositoryStub,
+    createMfaChallengeRepositoryStub,
+    tokenGeneratorStub,
+    getLoginAttemptsRepositoryStub,
+    recordFailedLoginRepositoryStub,
+    clearLoginAttemptsRepositoryStub,
+    createAuditLogEntryRepositoryStub,
   };
 };
 
+const mockEnabledMfa = () => ({
+  id: 'sample-mfa-id',
+  userId: mockUser().id,
+  secret: 'SAMPLESECRET',
+  enabled: true,
+  recoveryCodes: [],
+  lastUsedStep: null,
+  createdAt: new Date(),
+});
+
+const mockLoginAttempt = (
+  key: string,
+  failures: number,
+  lastFailureAt: Date
+) => ({
+  id: 'sample-login-attempt-id',
+  key,
+  failures,
+  lastFailureAt,
+  expiresAt: new Date(Date.now() + 15 * 60 * 1000),
+  createdAt: new Date(),
+});
+
 describe('SignIn', () => {
   it('should call loadUserByEmailRepository with correct data', async () => {
     const { sut, loadUserByEmailRepositoryStub } = makesSut();
@@ -85,11 +154,19 @@ describe('SignIn', () => {
       'createToken'
     );
     const { email, password } = mockUser();
-    await sut.execute({ email, password });
+    await sut.execute({
+      email,
+      password,
+      userAgent: 'sample-user-agent',
+      ip: '127.0.0.1',
+    });
 
-    expect(createTokenRepositorySpy).toHaveBeenCalledWith(
-      'sample-refresh-token'
-    );
+    expect(createTokenRepositorySpy).toHaveBeenCalledWith({
+      token: 'sample-refresh-token',
+      userId: mockUser().id,
+      userAgent: 'sample-user-agent',
+      ip: '127.0.0.1',
+    });
   });
 
   it('should return jwt token on success', async () => {
@@ -103,4 +180,267 @@ describe('SignIn', () => {
       refreshToken: 'sample-refresh-token',
     });
   });
+
+  it('should return an mfa challenge instead of tokens if two-factor is enabled', async () => {
+    const {
+      sut,
+      getMfaByUserIdRepositoryStub,
+      createMfaChallengeRepositoryStub,
+      createTokenRepositoryStub,
+      tokenGeneratorStub,
+    } = makesSut();
+    jest
+      .spyOn(getMfaByUserIdRepositoryStub, 'getMfaByUserId')
+      .mockImplementation(async () => mockEnabledMfa());
+    jest
+      .spyOn(tokenGeneratorStub, 'generateToken')
+      .mockImplementation(async () => 'sample-mfa-token');
+    const createMfaChallengeSpy = jest.spyOn(
+      createMfaChallengeRepositoryStub,
+      'createMfaChallenge'
+    );
+    const createTokenSpy = jest.spyOn(createTokenRepositoryStub, 'createToken');
+
+    const { email, password } = mockUser();
+    const response = await sut.execute({ email, password });
+
+    expect(response).toStrictEqual({ mfaToken: 'sample-mfa-token' });
+    expect(createMfaChallengeSpy).toHaveBeenCalledWith({
+      token: 'sample-mfa-token',
+      userId: mockUser().id,
+      expiresAt: expect.any(Date),
+    });
+    expect(createTokenSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return tokens if two-factor was enrolled but never confirmed', async () => {
+    const { sut, getMfaByUserIdRepositoryStub } = makesSut();
+    jest
+      .spyOn(getMfaByUserIdRepositoryStub, 'getMfaByUserId')
+      .mockImplementation(async () => ({
+        ...mockEnabledMfa(),
+        enabled: false,
+      }));
+
+    const { email, password } = mockUser();
+    const response = await sut.execute({ email, password });
+
+    expect(response).toStrictEqual({
+      accessToken: 'sample-access-token',
+      refreshToken: 'sample-refresh-token',
+    });
+  });
+
+  it('should record a failed attempt for the account and the address', async () => {
+    const { sut, hashComparerStub, recordFailedLoginRepositoryStub } =
+      makesSut();
+    jest
+      .spyOn(hashComparerStub, 'compare')
+      .mockReturnValueOnce(Promise.resolve(false));
+    const recordFailedLoginSpy = jest.spyOn(
+      recordFailedLoginRepositoryStub,
+      'recordFailedLogin'
+    );
+
+    const { email, password } = mockUser();
+    await sut.execute({ email, password, ip: '127.0.0.1' });
+
+    expect(recordFailedLoginSpy).toHaveBeenCalledWith({
+      key: `email:${email.toLowerCase()}`,
+      expiresAt: expect.any(Date),
+    });
+    expect(recordFailedLoginSpy).toHaveBeenCalledWith({
+      key: 'ip:127.0.0.1',
+      expiresAt: expect.any(Date),
+    });
+  });
+
+  it('should record a failed attempt for an unknown email', async () => {
+    const {
+      sut,
+      loadUserByEmailRepositoryStub,
+      recordFailedLoginRepositoryStub,
+    } = makesSut();
+    jest
+      .spyOn(loadUserByEmailRepositoryStub, 'loadUserByEmail')
+      .mockReturnValueOnce(Promise.resolve(null));
+    const recordFailedLoginSpy = jest.spyOn(
+      recordFailedLoginRepositoryStub,
+      'recordFailedLogin'
+    );
+
+    await sut.execute({ email: 'unknown@email.com', password: 'any' });
+
+    expect(recordFailedLoginSpy).toHaveBeenCalledWith({
+      key: 'email:unknown@email.com',
+      expiresAt: expect.any(Date),
+    });
+  });
+
+  it('should clear the failed attempts of the account on success', async () => {
+    const { sut, clearLoginAttemptsRepositoryStub } = makesSut();
+    const clearLoginAttemptsSpy = jest.spyOn(
+      clearLoginAttemptsRepositoryStub,
+      'clearLoginAttempts'
+    );
+
+    const { email, password } = mockUser();
+    await sut.execute({ email, password, ip: '127.0.0.1' });
+
+    expect(clearLoginAttemptsSpy).toHaveBeenCalledTimes(1);
+    expect(clearLoginAttemptsSpy).toHaveBeenCalledWith(
+      `email:${email.toLowerCase()}`
+    );
+  });
+
+  it('should not clear the failed attempts while the second factor is pending', async () => {
+    const {
+      sut,
+      getMfaByUserIdRepositoryStub,
+      clearLoginAttemptsRepositoryStub,
+    } = makesSut();
+    jest
+      .spyOn(getMfaByUserIdRepositoryStub, 'getMfaByUserId')
+      .mockImplementation(async () => mockEnabledMfa());
+    const clearLoginAttemptsSpy = jest.spyOn(
+      clearLoginAttemptsRepositoryStub,
+      'clearLoginAttempts'
+    );
+
+    const { email, password } = mockUser();
+    await sut.execute({ email, password });
+
+    expect(clearLoginAttemptsSpy).not.toHaveBeenCalled();
+  });
+
+  it('should compare the password against a dummy hash for an unknown email', async () => {
+    const { sut, loadUserByEmailRepositoryStub, hashComparerStub } = makesSut();
+    jest
+      .spyOn(loadUserByEmailRepositoryStub, 'loadUserByEmail')
+      .mockReturnValueOnce(Promise.resolve(null));
+    const compareSpy = jest.spyOn(hashComparerStub, 'compare');
+
+    await sut.execute({ email: 'unknown@email.com', password: 'any' });
+
+    expect(compareSpy).toHaveBeenCalledWith('any', 'sample-dummy-hash');
+  });
+
+  it('should return AccountLockedError without comparing the password if the account is locked', async () => {
+    const { sut, getLoginAttemptsRepositoryStub, hashComparerStub } =
+      makesSut();
+    const { email, password } = mockUser();
+    jest
+      .spyOn(getLoginAttemptsRepositoryStub, 'getLoginAttempts')
+      .mockImplementation(async () => [
+        mockLoginAttempt(`email:${email.toLowerCase()}`, 10, new Date()),
+      ]);
+    const compareSpy = jest.spyOn(hashComparerStub, 'compare');
+
+    const response = await sut.execute({ email, password });
+
+    expect(response).toEqual(new AccountLockedError());
+    expect(compareSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return AccountLockedError if the address is locked', async () => {
+    const { sut, getLoginAttemptsRepositoryStub } = makesSut();
+    jest
+      .spyOn(getLoginAttemptsRepositoryStub, 'getLoginAttempts')
+      .mockImplementation(async () => [
+        mockLoginAttempt('ip:127.0.0.1', 50, new Date()),
+      ]);
+
+    const { email, password } = mockUser();
+    const response = await sut.execute({ email, password, ip: '127.0.0.1' });
+
+    expect(response).toEqual(new AccountLockedError());
+  });
+
+  it('should return AccountLockedError while the backoff delay has not elapsed', async () => {
+    const { sut, getLoginAttemptsRepositoryStub } = makesSut();
+    const { email, password } = mockUser();
+    jest
+      .spyOn(getLoginAttemptsRepositoryStub, 'getLoginAttempts')
+      .mockImplementation(async () => [
+        mockLoginAttempt(`email:${email.toLowerCase()}`, 5, new Date()),
+      ]);
+
+    const response = await sut.execute({ email, password });
+
+    expect(response).toEqual(new AccountLockedError());
+  });
+
+  it('should allow a new attempt once the backoff delay has elapsed', async () => {
+    const { sut, getLoginAttemptsRepositoryStub } = makesSut();
+    const { email, password } = mockUser();
+    jest
+      .spyOn(getLoginAttemptsRepositoryStub, 'getLoginAttempts')
+      .mockImplementation(async () => [
+        mockLoginAttempt(
+          `email:${email.toLowerCase()}`,
+          5,
+          new Date(Date.now() - 5 * 1000)
+        ),
+      ]);
+
+    const response = await sut.execute({ email, password });
+
+    expect(response).toStrictEqual({
+      accessToken: 'sample-access-token',
+      refreshToken: 'sample-refresh-token',
+    });
+  });
+
+  it('should not delay the first failed attempts', async () => {
+    const { sut, getLoginAttemptsRepositoryStub } = makesSut();
+    const { email, password } = mockUser();
+    jest
+      .spyOn(getLoginAttemptsRepositoryStub, 'getLoginAttempts')
+      .mockImplementation(async () => [
+        mockLoginAttempt(`email:${email.toLowerCase()}`, 3, new Date()),
+      ]);
+
+    const response = await sut.execute({ email, password });
+
+    expect(response).not.toBeInstanceOf(AccountLockedError);
+  });
+
+  it('should record the sign in in the audit log', async () => {
+    const { sut, createAuditLogEntryRepositoryStub } = makesSut();
+    const createAuditLogEntryRepositorySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+
+    const { email, password } = mockUser();
+    await sut.execute({ email, password, ip: '127.0.0.1' });
+
+    expect(createAuditLogEntryRepositorySpy).toHaveBeenCalledWith({
+      action: 'user.sign_in',
+      actorId: mockUser().id,
+      targetType: 'user',
+      targetId: mockUser().id,
+      ip: '127.0.0.1',
+    });
+  });
+
+  it('should not record a sign in while the second factor is pending', async () => {
+    const {
+      sut,
+      getMfaByUserIdRepositoryStub,
+      createAuditLogEntryRepositoryStub,
+    } = makesSut();
+    jest
+      .spyOn(getMfaByUserIdRepositoryStub, 'getMfaByUserId')
+      .mockImplementation(async () => mockEnabledMfa());
+    const createAuditLogEntryRepositorySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+
+    const { email, password } = mockUser();
+    await sut.execute({ email, password });
+
+    expect(createAuditLogEntryRepositorySpy).not.toHaveBeenCalled();
+  });
 });
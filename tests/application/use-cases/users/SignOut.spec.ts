@@ -1,18 +1,33 @@
 import { SignOut } from '@application/use-cases/users/SignOut';
-import { DeleteTokenRepositoryStub } from '@tests/infrastructure/mocks/tokens/repositories';
+import { CreateAuditLogEntryRepositoryStub } from '@tests/infrastructure/mocks/auditLogs/repositories';
+import {
+  DeleteTokenRepositoryStub,
+  GetTokenRepositoryStub,
+} from '@tests/infrastructure/mocks/tokens/repositories';
 
 type SutTypes = {
   sut: SignOut;
+  getTokenRepositoryStub: GetTokenRepositoryStub;
   deleteTokenRepositoryStub: DeleteTokenRepositoryStub;
+  createAuditLogEntryRepositoryStub: CreateAuditLogEntryRepositoryStub;
 };
 
 const makeSut = (): SutTypes => {
+  const getTokenRepositoryStub = new GetTokenRepositoryStub();
   const deleteTokenRepositoryStub = new DeleteTokenRepositoryStub();
-  const sut = new SignOut(deleteTokenRepositoryStub);
+  const createAuditLogEntryRepositoryStub =
+    new CreateAuditLogEntryRepositoryStub();
+  const sut = new SignOut(
+    getTokenRepositoryStub,
+    deleteTokenRepositoryStub,
+    createAuditLogEntryRepositoryStub
+  );
 
   return {
     sut,
+    getTokenRepositoryStub,
     deleteTokenRepositoryStub,
+    createAuditLogEntryRepositoryStub,
   };
 };
 
@@ -25,8 +40,42 @@ describe('SignOut', () => {
     );
 
     const sampleToken = 'sample-refresh-token';
-    await sut.execute(sampleToken);
+    await sut.execute({ token: sampleToken });
 
     expect(deleteTokenRepositorySpy).toHaveBeenCalledWith(sampleToken);
   });
+
+  it('should record the sign out of the token owner in the audit log', async () => {
+    const { sut, createAuditLogEntryRepositoryStub } = makeSut();
+    const createAuditLogEntryRepositorySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+
+    await sut.execute({ token: 'sample-token', ip: '127.0.0.1' });
+
+    expect(createAuditLogEntryRepositorySpy).toHaveBeenCalledWith({
+      action: 'user.sign_out',
+      actorId: 'sample-user-id',
+      targetType: 'user',
+      targetId: 'sample-user-id',
+      ip: '127.0.0.1',
+    });
+  });
+
+  it('should not record anything for an unknown token', async () => {
+    const { sut, getTokenRepositoryStub, createAuditLogEntryRepositoryStub } =
+      makeSut();
+    jest
+      .spyOn(getTokenRepositoryStub, 'getToken')
+      .mockImplementation(async () => null);
+    const createAuditLogEntryRepositorySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+
+    await sut.execute({ token: 'unknown-token' });
+
+    expect(createAuditLogEntryRepositorySpy).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,61 @@
+import { SignOutEverywhere } from '@application/use-cases/users/SignOutEverywhere';
+import mockUser from '@tests/domain/mock-user';
+import { CreateAuditLogEntryRepositoryStub } from '@tests/infrastructure/mocks/auditLogs/repositories';
+import { DeleteTokensByUserIdRepositoryStub } from '@tests/infrastructure/mocks/tokens/repositories';
+
+type SutTypes = {
+  sut: SignOutEverywhere;
+  deleteTokensByUserIdRepositoryStub: DeleteTokensByUserIdRepositoryStub;
+  createAuditLogEntryRepositoryStub: CreateAuditLogEntryRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const deleteTokensByUserIdRepositoryStub =
+    new DeleteTokensByUserIdRepositoryStub();
+  const createAuditLogEntryRepositoryStub =
+    new CreateAuditLogEntryRepositoryStub();
+  const sut = new SignOutEverywhere(
+    deleteTokensByUserIdRepositoryStub,
+    createAuditLogEntryRepositoryStub
+  );
+
+  return {
+    sut,
+    deleteTokensByUserIdRepositoryStub,
+    createAuditLogEntryRepositoryStub,
+  };
+};
+
+describe('SignOutEverywhere', () => {
+  it('should call deleteTokensByUserIdRepository with correct data', async () => {
+    const { sut, deleteTokensByUserIdRepositoryStub } = makeSut();
+    const deleteTokensByUserIdRepositorySpy = jest.spyOn(
+      deleteTokensByUserIdRepositoryStub,
+      'deleteTokensByUserId'
+    );
+
+    const { id } = mockUser();
+    await sut.execute({ userId: id });
+
+    expect(deleteTokensByUserIdRepositorySpy).toHaveBeenCalledWith(id);
+  });
+
+  it('should record the sign out in the audit log', async () => {
+    const { sut, createAuditLogEntryRepositoryStub } = makeSut();
+    const createAuditLogEntryRepositorySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+
+    const { id } = mockUser();
+    await sut.execute({ userId: id, ip: '127.0.0.1' });
+
+    expect(createAuditLogEntryRepositorySpy).toHaveBeenCalledWith({
+      action: 'user.sign_out_everywhere',
+      actorId: id,
+      targetType: 'user',
+      targetId: id,
+      ip: '127.0.0.1',
+    });
+  });
+});
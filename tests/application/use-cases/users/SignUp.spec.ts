@@ -80,6 +80,31 @@ describe('SignUp', () => {
     expect(response).toEqual(new EmailInUseError());
   });
 
+  it('should create the user with an unverified email', async () => {
+    const { sut, loadUserByEmailRepositoryStub, createUserRepositoryStub } =
+      makesSut();
+    jest
+      .spyOn(loadUserByEmailRepositoryStub, 'loadUserByEmail')
+      .mockReturnValueOnce(Promise.resolve(null));
+    const createUserSpy = jest.spyOn(createUserRepositoryStub, 'createUser');
+
+    const { name, password, isDarkMode, profilePicture, workspaces } =
+      mockUser();
+
+    await sut.execute({
+      name,
+      email: 'new-sample@email.com',
+      password,
+      isDarkMode,
+      profilePicture,
+      workspaces,
+    });
+
+    expect(createUserSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ emailVerified: false })
+    );
+  });
+
   it('should return  on success', async () => {
     const { sut, loadUserByEmailRepositoryStub } = makesSut();
 
@@ -0,0 +1,112 @@
+import { EmailInUseError } from '@application/errors/EmailInUseError';
+import { SignUpWithIdentity } from '@application/use-cases/users/SignUpWithIdentity';
+import { CreateIdentityRepositoryStub } from '@tests/infrastructure/mocks/identities/repositories';
+import {
+  HashGeneratorStub,
+  TokenGeneratorStub,
+} from '@tests/infrastructure/mocks/users/cryptography';
+import {
+  CreateUserRepositoryStub,
+  LoadUserByEmailRepositoryStub,
+} from '@tests/infrastructure/mocks/users/repositories';
+import mockUser from '@tests/domain/mock-user';
+
+type SutTypes = {
+  sut: SignUpWithIdentity;
+  loadUserByEmailRepositoryStub: LoadUserByEmailRepositoryStub;
+  createUserRepositoryStub: CreateUserRepositoryStub;
+  createIdentityRepositoryStub: CreateIdentityRepositoryStub;
+  tokenGeneratorStub: TokenGeneratorStub;
+  hashGeneratorStub: HashGeneratorStub;
+};
+
+const makeSut = (): SutTypes => {
+  const loadUserByEmailRepositoryStub = new LoadUserByEmailRepositoryStub();
+  const createUserRepositoryStub = new CreateUserRepositoryStub();
+  const createIdentityRepositoryStub = new CreateIdentityRepositoryStub();
+  const tokenGeneratorStub = new TokenGeneratorStub();
+  const hashGeneratorStub = new HashGeneratorStub();
+  jest
+    .spyOn(loadUserByEmailRepositoryStub, 'loadUserByEmail')
+    .mockImplementation(async () => null);
+  const sut = new SignUpWithIdentity(
+    loadUserByEmailRepositoryStub,
+    createUserRepositoryStub,
+    createIdentityRepositoryStub,
+    tokenGeneratorStub,
+    hashGeneratorStub
+  );
+  return {
+    sut,
+    loadUserByEmailRepositoryStub,
+    createUserRepositoryStub,
+    createIdentityRepositoryStub,
+    tokenGeneratorStub,
+    hashGeneratorStub,
+  };
+};
+
+const makeRequest = () => ({
+  provider: 'sample-provider',
+  identity: {
+    subject: 'sample-subject',
+    email: 'sample@email.com',
+    emailVerified: true,
+    name: 'sample-name',
+    picture: 'sample-picture-url',
+  },
+  workspaces: mockUser().workspaces,
+});
+
+describe('SignUpWithIdentity', () => {
+  it('should return EmailInUseError if the email is already registered', async () => {
+    const { sut, loadUserByEmailRepositoryStub } = makeSut();
+    jest
+      .spyOn(loadUserByEmailRepositoryStub, 'loadUserByEmail')
+      .mockImplementation(async () => mockUser());
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new EmailInUseError());
+  });
+
+  it('should create a verified user with an unguessable password', async () => {
+    const { sut, createUserRepositoryStub, hashGeneratorStub } = makeSut();
+    const hashSpy = jest.spyOn(hashGeneratorStub, 'hash');
+    const createUserSpy = jest.spyOn(createUserRepositoryStub, 'createUser');
+
+    await sut.execute(makeRequest());
+
+    expect(hashSpy).toHaveBeenCalledWith('sample-invitation-token');
+    expect(createUserSpy).toHaveBeenCalledWith({
+      name: 'sample-name',
+      email: 'sample@email.com',
+      emailVerified: true,
+      password: 'sample-hash',
+      isDarkMode: false,
+      profilePicture: { url: 'sample-picture-url' },
+      workspaces: mockUser().workspaces,
+    });
+  });
+
+  it('should link the identity to the new user and return its id', async () => {
+    const { sut, createUserRepositoryStub, createIdentityRepositoryStub } =
+      makeSut();
+    jest
+      .spyOn(createUserRepositoryStub, 'createUser')
+      .mockImplementation(async () => 'new-user-id');
+    const createIdentitySpy = jest.spyOn(
+      createIdentityRepositoryStub,
+      'createIdentity'
+    );
+
+    const response = await sut.execute(makeRequest());
+
+    expect(createIdentitySpy).toHaveBeenCalledWith({
+      provider: 'sample-provider',
+      subject: 'sample-subject',
+      userId: 'new-user-id',
+    });
+    expect(response).toBe('new-user-id');
+  });
+});
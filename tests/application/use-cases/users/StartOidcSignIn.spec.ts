@@ -0,0 +1,96 @@
+import { IdentityProviderNotFoundError } from '@application/errors/IdentityProviderNotFoundError';
+import { StartOidcSignIn } from '@application/use-cases/users/StartOidcSignIn';
+import { IdentityProviderStub } from '@tests/infrastructure/mocks/identity';
+import { CreateOidcStateRepositoryStub } from '@tests/infrastructure/mocks/identities/repositories';
+import { TokenGeneratorStub } from '@tests/infrastructure/mocks/users/cryptography';
+
+type SutTypes = {
+  sut: StartOidcSignIn;
+  identityProviderStub: IdentityProviderStub;
+  tokenGeneratorStub: TokenGeneratorStub;
+  createOidcStateRepositoryStub: CreateOidcStateRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const identityProviderStub = new IdentityProviderStub();
+  const tokenGeneratorStub = new TokenGeneratorStub();
+  const createOidcStateRepositoryStub = new CreateOidcStateRepositoryStub();
+  const sut = new StartOidcSignIn(
+    new Map([['sample-provider', identityProviderStub]]),
+    tokenGeneratorStub,
+    createOidcStateRepositoryStub,
+    10
+  );
+  return {
+    sut,
+    identityProviderStub,
+    tokenGeneratorStub,
+    createOidcStateRepositoryStub,
+  };
+};
+
+describe('StartOidcSignIn', () => {
+  it('should return IdentityProviderNotFoundError for an unknown provider', async () => {
+    const { sut } = makeSut();
+
+    const response = await sut.execute('unknown-provider');
+
+    expect(response).toEqual(new IdentityProviderNotFoundError());
+  });
+
+  it('should return IdentityProviderNotFoundError for an object property name', async () => {
+    const { sut } = makeSut();
+
+    const response = await sut.execute('constructor');
+
+    expect(response).toEqual(new IdentityProviderNotFoundError());
+  });
+
+  it('should store the state, nonce and code verifier of the sign-in', async () => {
+    const { sut, tokenGeneratorStub, createOidcStateRepositoryStub } =
+      makeSut();
+    jest
+      .spyOn(tokenGeneratorStub, 'generateToken')
+      .mockImplementationOnce(async () => 'sample-state')
+      .mockImplementationOnce(async () => 'sample-nonce')
+      .mockImplementationOnce(async () => 'sample-code-verifier');
+    const createOidcStateSpy = jest.spyOn(
+      createOidcStateRepositoryStub,
+      'createOidcState'
+    );
+
+    await sut.execute('sample-provider');
+
+    expect(createOidcStateSpy).toHaveBeenCalledWith({
+      state: 'sample-state',
+      provider: 'sample-provider',
+      nonce: 'sample-nonce',
+      codeVerifier: 'sample-code-verifier',
+      expiresAt: expect.any(Date),
+    });
+  });
+
+  it('should ask the provider for an authorization url with the same parameters', async () => {
+    const { sut, tokenGeneratorStub, identityProviderStub } = makeSut();
+    jest
+      .spyOn(tokenGeneratorStub, 'generateToken')
+      .mockImplementationOnce(async () => 'sample-state')
+      .mockImplementationOnce(async () => 'sample-nonce')
+      .mockImplementationOnce(async () => 'sample-code-verifier');
+    const getAuthorizationUrlSpy = jest.spyOn(
+      identityProviderStub,
+      'getAuthorizationUrl'
+    );
+
+    const response = await sut.execute('sample-provider');
+
+    expect(getAuthorizationUrlSpy).toHaveBeenCalledWith({
+      state: 'sample-state',
+      nonce: 'sample-nonce',
+      codeVerifier: 'sample-code-verifier',
+    });
+    expect(response).toEqual({
+      authorizationUrl: 'https://issuer.local/authorize?state=sample-state',
+    });
+  });
+});
@@ -33,14 +33,31 @@ describe('UpdateUser', () => {
       updateUserRepositoryStub,
       'updateUser'
     );
-    const { id, name, email, password, isDarkMode } = mockUser();
+    const { id, name, email, isDarkMode } = mockUser();
     await sut.execute({
       userId: id,
-      userData: { name, email, password, isDarkMode },
+      userData: { name, email, isDarkMode },
     });
     expect(updateUserRepositorySpy).toHaveBeenCalledWith({
       userId: id,
-      userData: { name, email, password, isDarkMode },
+      userData: { name, email, isDarkMode },
+    });
+  });
+
+  it('should mark the email as unverified when it changes', async () => {
+    const { sut, updateUserRepositoryStub } = makeSut();
+    const updateUserRepositorySpy = jest.spyOn(
+      updateUserRepositoryStub,
+      'updateUser'
+    );
+    const { id } = mockUser();
+    await sut.execute({
+      userId: id,
+      userData: { email: 'other@email.com' },
+    });
+    expect(updateUserRepositorySpy).toHaveBeenCalledWith({
+      userId: id,
+      userData: { email: 'other@email.com', emailVerified: false },
     });
   });
 
@@ -49,10 +66,10 @@ describe('UpdateUser', () => {
     jest
       .spyOn(getUserByIdRepositoryStub, 'getUserById')
       .mockReturnValueOnce(Promise.resolve(null));
-    const { id, name, email, password, isDarkMode } = mockUser();
+    const { id, name, email, isDarkMode } = mockUser();
     const response = await sut.execute({
       userId: id,
-      userData: { name, email, password, isDarkMode },
+      userData: { name, email, isDarkMode },
     });
     expect(response).toEqual(new UserNotFoundError());
   });
@@ -60,10 +77,10 @@ describe('UpdateUser', () => {
   it('should return an updated user on success', async () => {
     const { sut } = makeSut();
     const user = mockUser();
-    const { id, name, email, password, isDarkMode } = user;
+    const { id, name, email, isDarkMode } = user;
     const response = await sut.execute({
       userId: id,
-      userData: { name, email, password, isDarkMode },
+      userData: { name, email, isDarkMode },
     });
     expect(response).toEqual(user);
   });
@@ -0,0 +1,43 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { UserAuthorization } from '@application/use-cases/users/UserAuthorization';
+
+type SutTypes = {
+  sut: UserAuthorization;
+};
+
+const makeSut = (): SutTypes => {
+  const sut = new UserAuthorization(['sample-admin-id']);
+
+  return {
+    sut,
+  };
+};
+
+describe('UserAuthorization', () => {
+  it('should return the target user id if the user accesses itself', async () => {
+    const { sut } = makeSut();
+    const response = await sut.execute({
+      userId: 'sample-user-id',
+      targetUserId: 'sample-user-id',
+    });
+    expect(response).toBe('sample-user-id');
+  });
+
+  it('should return the target user id if the user is an admin', async () => {
+    const { sut } = makeSut();
+    const response = await sut.execute({
+      userId: 'sample-admin-id',
+      targetUserId: 'sample-user-id',
+    });
+    expect(response).toBe('sample-user-id');
+  });
+
+  it('should return a ForbiddenError if the user accesses another user', async () => {
+    const { sut } = makeSut();
+    const response = await sut.execute({
+      userId: 'other-user-id',
+      targetUserId: 'sample-user-id',
+    });
+    expect(response).toEqual(new ForbiddenError());
+  });
+});
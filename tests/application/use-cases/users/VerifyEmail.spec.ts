@@ -0,0 +1,111 @@
+import { InvalidTokenError } from '@application/errors/InvalidTokenError';
+import { VerifyEmail } from '@application/use-cases/users/VerifyEmail';
+import { ConsumeEmailVerificationTokenRepositoryStub } from '@tests/infrastructure/mocks/tokens/repositories';
+import { VerifyEmailRepositoryStub } from '@tests/infrastructure/mocks/users/repositories';
+
+type SutTypes = {
+  sut: VerifyEmail;
+  consumeEmailVerificationTokenRepositoryStub: ConsumeEmailVerificationTokenRepositoryStub;
+  verifyEmailRepositoryStub: VerifyEmailRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const consumeEmailVerificationTokenRepositoryStub =
+    new ConsumeEmailVerificationTokenRepositoryStub();
+  const verifyEmailRepositoryStub = new VerifyEmailRepositoryStub();
+  const sut = new VerifyEmail(
+    consumeEmailVerificationTokenRepositoryStub,
+    verifyEmailRepositoryStub
+  );
+  return {
+    sut,
+    consumeEmailVerificationTokenRepositoryStub,
+    verifyEmailRepositoryStub,
+  };
+};
+
+describe('VerifyEmail', () => {
+  it('should consume the given token', async () => {
+    const { sut, consumeEmailVerificationTokenRepositoryStub } = makeSut();
+    const consumeSpy = jest.spyOn(
+      consumeEmailVerificationTokenRepositoryStub,
+      'consumeEmailVerificationToken'
+    );
+
+    await sut.execute('sample-verification-token');
+
+    expect(consumeSpy).toHaveBeenCalledWith('sample-verification-token');
+  });
+
+  it('should return an InvalidTokenError if the token is unknown or already used', async () => {
+    const {
+      sut,
+      consumeEmailVerificationTokenRepositoryStub,
+      verifyEmailRepositoryStub,
+    } = makeSut();
+    jest
+      .spyOn(
+        consumeEmailVerificationTokenRepositoryStub,
+        'consumeEmailVerificationToken'
+      )
+      .mockImplementation(async () => null);
+    const verifyEmailSpy = jest.spyOn(verifyEmailRepositoryStub, 'verifyEmail');
+
+    const response = await sut.execute('sample-verification-token');
+
+    expect(response).toEqual(new InvalidTokenError());
+    expect(verifyEmailSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return an InvalidTokenError if the token has expired', async () => {
+    const {
+      sut,
+      consumeEmailVerificationTokenRepositoryStub,
+      verifyEmailRepositoryStub,
+    } = makeSut();
+    jest
+      .spyOn(
+        consumeEmailVerificationTokenRepositoryStub,
+        'consumeEmailVerificationToken'
+      )
+      .mockImplementation(async () => ({
+        id: 'sample-id',
+        token: 'sample-verification-token',
+        userId: 'sample-user-id',
+        email: 'sample@email.com',
+        expiresAt: new Date(Date.now() - 1000),
+        usedAt: new Date(),
+        createdAt: new Date(),
+      }));
+    const verifyEmailSpy = jest.spyOn(verifyEmailRepositoryStub, 'verifyEmail');
+
+    const response = await sut.execute('sample-verification-token');
+
+    expect(response).toEqual(new InvalidTokenError());
+    expect(verifyEmailSpy).not.toHaveBeenCalled();
+  });
+
+  it('should verify the address the token was issued for', async () => {
+    const { sut, verifyEmailRepositoryStub } = makeSut();
+    const verifyEmailSpy = jest.spyOn(verifyEmailRepositoryStub, 'verifyEmail');
+
+    const response = await sut.execute('sample-verification-token');
+
+    expect(verifyEmailSpy).toHaveBeenCalledWith({
+      userId: 'sample-user-id',
+      email: 'sample@email.com',
+    });
+    expect(response).toBeUndefined();
+  });
+
+  it('should return an InvalidTokenError if the address has changed since', async () => {
+    const { sut, verifyEmailRepositoryStub } = makeSut();
+    jest
+      .spyOn(verifyEmailRepositoryStub, 'verifyEmail')
+      .mockImplementation(async () => false);
+
+    const response = await sut.execute('sample-verification-token');
+
+    expect(response).toEqual(new InvalidTokenError());
+  });
+});
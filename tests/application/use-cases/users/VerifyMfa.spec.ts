@@ -0,0 +1,301 @@
+import { InvalidMfaCodeError } from '@application/errors/InvalidMfaCodeError';
+import { InvalidTokenError } from '@application/errors/InvalidTokenError';
+import { VerifyMfa } from '@application/use-cases/users/VerifyMfa';
+import mockUser from '@tests/domain/mock-user';
+import { CreateAuditLogEntryRepositoryStub } from '@tests/infrastructure/mocks/auditLogs/repositories';
+import {
+  ClearLoginAttemptsRepositoryStub,
+  RecordFailedLoginRepositoryStub,
+} from '@tests/infrastructure/mocks/loginAttempts/repositories';
+import {
+  AttemptMfaChallengeRepositoryStub,
+  DeleteMfaChallengeRepositoryStub,
+  GetMfaByUserIdRepositoryStub,
+  RemoveRecoveryCodeRepositoryStub,
+  UseMfaTimeStepRepositoryStub,
+} from '@tests/infrastructure/mocks/mfa/repositories';
+import { CreateTokenRepositoryStub } from '@tests/infrastructure/mocks/tokens/repositories';
+import {
+  HashCompareStub,
+  JWTGeneratorStub,
+  TotpVerifierStub,
+} from '@tests/infrastructure/mocks/users/cryptography';
+import { GetUserByIdRepositoryStub } from '@tests/infrastructure/mocks/users/repositories';
+
+type SutTypes = {
+  sut: VerifyMfa;
+  attemptMfaChallengeRepositoryStub: AttemptMfaChallengeRepositoryStub;
+  deleteMfaChallengeRepositoryStub: DeleteMfaChallengeRepositoryStub;
+  getMfaByUserIdRepositoryStub: GetMfaByUserIdRepositoryStub;
+  totpVerifierStub: TotpVerifierStub;
+  useMfaTimeStepRepositoryStub: UseMfaTimeStepRepositoryStub;
+  hashComparerStub: HashCompareStub;
+  removeRecoveryCodeRepositoryStub: RemoveRecoveryCodeRepositoryStub;
+  jwtGeneratorStub: JWTGeneratorStub;
+  createTokenRepositoryStub: CreateTokenRepositoryStub;
+  createAuditLogEntryRepositoryStub: CreateAuditLogEntryRepositoryStub;
+  getUserByIdRepositoryStub: GetUserByIdRepositoryStub;
+  recordFailedLoginRepositoryStub: RecordFailedLoginRepositoryStub;
+  clearLoginAttemptsRepositoryStub: ClearLoginAttemptsRepositoryStub;
+};
+
+const mockEnabledMfa = () => ({
+  id: 'sample-mfa-id',
+  userId: 'sample-user-id',
+  secret: 'SAMPLESECRET',
+  enabled: true,
+  recoveryCodes: ['hashed-recovery-code-1', 'hashed-recovery-code-2'],
+  lastUsedStep: null,
+  createdAt: new Date(),
+});
+
+const makeSut = (): SutTypes => {
+  const attemptMfaChallengeRepositoryStub =
+    new AttemptMfaChallengeRepositoryStub();
+  const deleteMfaChallengeRepositoryStub =
+    new DeleteMfaChallengeRepositoryStub();
+  const getMfaByUserIdRepositoryStub = new GetMfaByUserIdRepositoryStub();
+  const totpVerifierStub = new TotpVerifierStub();
+  const useMfaTimeStepRepositoryStub = new UseMfaTimeStepRepositoryStub();
+  const hashComparerStub = new HashCompareStub();
+  const removeRecoveryCodeRepositoryStub =
+    new RemoveRecoveryCodeRepositoryStub();
+  const jwtGeneratorStub = new JWTGeneratorStub();
+  const createTokenRepositoryStub = new CreateTokenRepositoryStub();
+  jest
+    .spyOn(getMfaByUserIdRepositoryStub, 'getMfaByUserId')
+    .mockImplementation(async () => mockEnabledMfa());
+  const createAuditLogEntryRepositoryStub =
+    new CreateAuditLogEntryRepositoryStub();
+  const getUserByIdRepositoryStub = new GetUserByIdRepositoryStub();
+  const recordFailedLoginRepositoryStub = new RecordFailedLoginRepositoryStub();
+  const clearLoginAttemptsRepositoryStub =
+    new ClearLoginAttemptsRepositoryStub();
+  const sut = new VerifyMfa(
+    attemptMfaChallengeRepositoryStub,
+    deleteMfaChallengeRepositoryStub,
+    getMfaByUserIdRepositoryStub,
+    totpVerifierStub,
+    useMfaTimeStepRepositoryStub,
+    hashComparerStub,
+    removeRecoveryCodeRepositoryStub,
+    jwtGeneratorStub,
+    createTokenRepositoryStub,
+    createAuditLogEntryRepositoryStub,
+    getUserByIdRepositoryStub,
+    recordFailedLoginRepositoryStub,
+    clearLoginAttemptsRepositoryStub,
+    15
+  );
+  return {
+    sut,
+    attemptMfaChallengeRepositoryStub,
+    deleteMfaChallengeRepositoryStub,
+    getMfaByUserIdRepositoryStub,
+    totpVerifierStub,
+    useMfaTimeStepRepositoryStub,
+    hashComparerStub,
+    removeRecoveryCodeRepositoryStub,
+    jwtGeneratorStub,
+    createTokenRepositoryStub,
+    createAuditLogEntryRepositoryStub,
+    getUserByIdRepositoryStub,
+    recordFailedLoginRepositoryStub,
+    clearLoginAttemptsRepositoryStub,
+  };
+};
+
+const makeRequest = (code = '123456') => ({
+  mfaToken: 'sample-mfa-token',
+  code,
+  userAgent: 'sample-user-agent',
+  ip: '127.0.0.1',
+});
+
+describe('VerifyMfa', () => {
+  it('should return an InvalidTokenError if the challenge is unknown', async () => {
+    const { sut, attemptMfaChallengeRepositoryStub } = makeSut();
+    jest
+      .spyOn(attemptMfaChallengeRepositoryStub, 'attemptMfaChallenge')
+      .mockImplementation(async () => null);
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new InvalidTokenError());
+  });
+
+  it('should return an InvalidTokenError if the challenge has expired', async () => {
+    const { sut, attemptMfaChallengeRepositoryStub } = makeSut();
+    jest
+      .spyOn(attemptMfaChallengeRepositoryStub, 'attemptMfaChallenge')
+      .mockImplementation(async () => ({
+        id: 'sample-id',
+        token: 'sample-mfa-token',
+        userId: 'sample-user-id',
+        attempts: 1,
+        expiresAt: new Date(Date.now() - 1000),
+        createdAt: new Date(),
+      }));
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new InvalidTokenError());
+  });
+
+  it('should return an InvalidTokenError once too many codes were tried', async () => {
+    const { sut, attemptMfaChallengeRepositoryStub, totpVerifierStub } =
+      makeSut();
+    jest
+      .spyOn(attemptMfaChallengeRepositoryStub, 'attemptMfaChallenge')
+      .mockImplementation(async () => ({
+        id: 'sample-id',
+        token: 'sample-mfa-token',
+        userId: 'sample-user-id',
+        attempts: 6,
+        expiresAt: new Date(Date.now() + 60 * 1000),
+        createdAt: new Date(),
+      }));
+    const verifySpy = jest.spyOn(totpVerifierStub, 'verify');
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new InvalidTokenError());
+    expect(verifySpy).not.toHaveBeenCalled();
+  });
+
+  it('should return an InvalidMfaCodeError if the code is wrong', async () => {
+    const { sut, totpVerifierStub, createTokenRepositoryStub } = makeSut();
+    jest.spyOn(totpVerifierStub, 'verify').mockImplementation(async () => null);
+    const createTokenSpy = jest.spyOn(createTokenRepositoryStub, 'createToken');
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new InvalidMfaCodeError());
+    expect(createTokenSpy).not.toHaveBeenCalled();
+  });
+
+  it('should record a failed attempt for the account and the address if the code is wrong', async () => {
+    const { sut, totpVerifierStub, recordFailedLoginRepositoryStub } =
+      makeSut();
+    jest.spyOn(totpVerifierStub, 'verify').mockImplementation(async () => null);
+    const recordFailedLoginSpy = jest.spyOn(
+      recordFailedLoginRepositoryStub,
+      'recordFailedLogin'
+    );
+
+    await sut.execute(makeRequest());
+
+    expect(recordFailedLoginSpy).toHaveBeenCalledWith({
+      key: `email:${mockUser().email}`,
+      expiresAt: expect.any(Date),
+    });
+    expect(recordFailedLoginSpy).toHaveBeenCalledWith({
+      key: 'ip:127.0.0.1',
+      expiresAt: expect.any(Date),
+    });
+  });
+
+  it('should return an InvalidMfaCodeError if the code was already used', async () => {
+    const { sut, useMfaTimeStepRepositoryStub } = makeSut();
+    jest
+      .spyOn(useMfaTimeStepRepositoryStub, 'useMfaTimeStep')
+      .mockImplementation(async () => false);
+
+    const response = await sut.execute(makeRequest());
+
+    expect(response).toEqual(new InvalidMfaCodeError());
+  });
+
+  it('should accept a recovery code once and remove it', async () => {
+    const { sut, hashComparerStub, removeRecoveryCodeRepositoryStub } =
+      makeSut();
+    jest
+      .spyOn(hashComparerStub, 'compare')
+      .mockImplementation(
+        async (_plaintext: string, hash: string) =>
+          hash === 'hashed-recovery-code-2'
+      );
+    const removeRecoveryCodeSpy = jest.spyOn(
+      removeRecoveryCodeRepositoryStub,
+      'removeRecoveryCode'
+    );
+
+    const response = await sut.execute(makeRequest('abcdef0123'));
+
+    expect(removeRecoveryCodeSpy).toHaveBeenCalledWith({
+      userId: 'sample-user-id',
+      recoveryCode: 'hashed-recovery-code-2',
+    });
+    expect(response).toStrictEqual({
+      accessToken: 'sample-access-token',
+      refreshToken: 'sample-refresh-token',
+    });
+  });
+
+  it('should return an InvalidMfaCodeError for an unknown recovery code', async () => {
+    const { sut, hashComparerStub } = makeSut();
+    jest
+      .spyOn(hashComparerStub, 'compare')
+      .mockImplementation(async () => false);
+
+    const response = await sut.execute(makeRequest('abcdef0123'));
+
+    expect(response).toEqual(new InvalidMfaCodeError());
+  });
+
+  it('should drop the challenge and create a session on success', async () => {
+    const { sut, deleteMfaChallengeRepositoryStub, createTokenRepositoryStub } =
+      makeSut();
+    const deleteMfaChallengeSpy = jest.spyOn(
+      deleteMfaChallengeRepositoryStub,
+      'deleteMfaChallenge'
+    );
+    const createTokenSpy = jest.spyOn(createTokenRepositoryStub, 'createToken');
+
+    const response = await sut.execute(makeRequest());
+
+    expect(deleteMfaChallengeSpy).toHaveBeenCalledWith('sample-mfa-token');
+    expect(createTokenSpy).toHaveBeenCalledWith({
+      token: 'sample-refresh-token',
+      userId: 'sample-user-id',
+      userAgent: 'sample-user-agent',
+      ip: '127.0.0.1',
+    });
+    expect(response).toStrictEqual({
+      accessToken: 'sample-access-token',
+      refreshToken: 'sample-refresh-token',
+    });
+  });
+
+  it('should clear the failed attempts of the account on success', async () => {
+    const { sut, clearLoginAttemptsRepositoryStub } = makeSut();
+    const clearLoginAttemptsSpy = jest.spyOn(
+      clearLoginAttemptsRepositoryStub,
+      'clearLoginAttempts'
+    );
+
+    await sut.execute(makeRequest());
+
+    expect(clearLoginAttemptsSpy).toHaveBeenCalledWith(
+      `email:${mockUser().email}`
+    );
+  });
+
+  it('should record the sign in in the audit log', async () => {
+    const { sut, createAuditLogEntryRepositoryStub } = makeSut();
+    const createAuditLogEntryRepositorySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+
+    await sut.execute(makeRequest());
+
+    expect(createAuditLogEntryRepositorySpy).toHaveBeenCalledWith({
+      action: 'user.sign_in',
+      actorId: 'sample-user-id',
+      targetType: 'user',
+      targetId: 'sample-user-id',
+      ip: '127.0.0.1',
+    });
+  });
+});
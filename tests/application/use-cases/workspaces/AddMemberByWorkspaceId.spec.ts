@@ -1,6 +1,7 @@
 import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
 import { AddMemberByWorkspaceId } from '@application/use-cases/workspaces/AddMemberByWorkspaceId';
 import mockWorkspace from '@tests/domain/mock-workspace';
+import { CreateAuditLogEntryRepositoryStub } from '@tests/infrastructure/mocks/auditLogs/repositories';
 import {
   AddMemberByWorkspaceIdRepositoryStub,
   GetWorkspaceByIdRepositoryStub,
@@ -10,24 +11,31 @@ type SutTypes = {
   sut: AddMemberByWorkspaceId;
   getWorkspaceByIdRepositoryStub: GetWorkspaceByIdRepositoryStub;
   addMemberByWorkspaceIdRepositoryStub: AddMemberByWorkspaceIdRepositoryStub;
+  createAuditLogEntryRepositoryStub: CreateAuditLogEntryRepositoryStub;
 };
 
 const makesSut = (): SutTypes => {
   const getWorkspaceByIdRepositoryStub = new GetWorkspaceByIdRepositoryStub();
   const addMemberByWorkspaceIdRepositoryStub =
     new AddMemberByWorkspaceIdRepositoryStub();
+  const createAuditLogEntryRepositoryStub =
+    new CreateAuditLogEntryRepositoryStub();
   const sut = new AddMemberByWorkspaceId(
     getWorkspaceByIdRepositoryStub,
-    addMemberByWorkspaceIdRepositoryStub
+    addMemberByWorkspaceIdRepositoryStub,
+    createAuditLogEntryRepositoryStub
   );
 
   return {
     sut,
     getWorkspaceByIdRepositoryStub,
     addMemberByWorkspaceIdRepositoryStub,
+    createAuditLogEntryRepositoryStub,
   };
 };
 
+const ownerId = '112233445566778899aabbcc';
+
 describe('AddMemberByWorkspaceIdRepository', () => {
   it('should call AddMemberByWorkspaceIdRepository with correct data', async () => {
     const { sut, addMemberByWorkspaceIdRepositoryStub } = makesSut();
@@ -40,11 +48,14 @@ describe('AddMemberByWorkspaceIdRepository', () => {
     await sut.execute({
       workspaceId: id,
       memberId,
+      role: 'editor',
+      actorId: ownerId,
     });
 
     expect(addMemberByWorkspaceIdRepositorySpy).toHaveBeenCalledWith({
       workspaceId: id,
       memberId,
+      role: 'editor',
     });
   });
 
@@ -58,8 +69,35 @@ describe('AddMemberByWorkspaceIdRepository', () => {
     const response = await sut.execute({
       workspaceId: 'sample-null-workspace-id',
       memberId: 'sample-member-2',
+      role: 'editor',
+      actorId: ownerId,
     });
 
     expect(response).toEqual(new WorkspaceNotFoundError());
   });
+
+  it('should record the new member in the audit log', async () => {
+    const { sut, createAuditLogEntryRepositoryStub } = makesSut();
+    const createAuditLogEntryRepositorySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+    const { id } = mockWorkspace();
+    await sut.execute({
+      workspaceId: id,
+      memberId: 'sample-member-2',
+      role: 'editor',
+      actorId: ownerId,
+      ip: '127.0.0.1',
+    });
+
+    expect(createAuditLogEntryRepositorySpy).toHaveBeenCalledWith({
+      action: 'workspace.member_add',
+      actorId: ownerId,
+      targetType: 'user',
+      targetId: 'sample-member-2',
+      workspaceId: id,
+      ip: '127.0.0.1',
+    });
+  });
 });
@@ -1,6 +1,7 @@
 import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
 import { AddPage } from '@application/use-cases/workspaces/AddPage';
 import mockWorkspace from '@tests/domain/mock-workspace';
+import { PositionGeneratorStub } from '@tests/infrastructure/mocks/ordering';
 import {
   AddPageRepositoryStub,
   GetWorkspaceByIdRepositoryStub,
@@ -10,20 +11,24 @@ type SutTypes = {
   sut: AddPage;
   getWorkspaceByIdRepositoryStub: GetWorkspaceByIdRepositoryStub;
   addPageRepositoryStub: AddPageRepositoryStub;
+  positionGeneratorStub: PositionGeneratorStub;
 };
 
 const makesSut = (): SutTypes => {
   const getWorkspaceByIdRepositoryStub = new GetWorkspaceByIdRepositoryStub();
   const addPageRepositoryStub = new AddPageRepositoryStub();
+  const positionGeneratorStub = new PositionGeneratorStub();
   const sut = new AddPage(
     getWorkspaceByIdRepositoryStub,
-    addPageRepositoryStub
+    addPageRepositoryStub,
+    positionGeneratorStub
   );
 
   return {
     sut,
     getWorkspaceByIdRepositoryStub,
     addPageRepositoryStub,
+    positionGeneratorStub,
   };
 };
 
@@ -36,7 +41,7 @@ describe('AddPage', () => {
       id: 'sample-new-page-1',
       reference: 'sample-page-reference',
       icon: 'sample-hex',
-      path: null,
+      parentId: null,
       title: 'smaple-new-page',
       createdAt: new Date(),
     };
@@ -48,8 +53,31 @@ describe('AddPage', () => {
 
     expect(addPageRepositorySpy).toHaveBeenCalledWith({
       workspaceId: id,
-      pageData,
+      pageData: { ...pageData, position: 'sample-position' },
+    });
+  });
+
+  it('should place the page below its last sibling', async () => {
+    const { sut, positionGeneratorStub } = makesSut();
+    const generatePositionSpy = jest.spyOn(
+      positionGeneratorStub,
+      'generatePosition'
+    );
+    const { id } = mockWorkspace();
+
+    await sut.execute({
+      workspaceId: id,
+      pageData: {
+        id: 'sample-new-page-1',
+        reference: 'sample-page-reference',
+        icon: 'sample-hex',
+        parentId: 'sample-page-id-1',
+        title: 'sample-new-page',
+        createdAt: new Date(),
+      },
     });
+
+    expect(generatePositionSpy).toHaveBeenCalledWith('l', null);
   });
 
   it('should return workspace not found error if workspace is not present', async () => {
@@ -65,7 +93,7 @@ describe('AddPage', () => {
         id: 'sample-new-page-1',
         reference: 'sample-page-reference',
         icon: 'sample-hex',
-        path: null,
+        parentId: null,
         title: 'sample-page-reference',
         createdAt: new Date(),
       },
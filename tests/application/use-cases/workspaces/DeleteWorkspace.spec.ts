@@ -1,18 +1,34 @@
 import { DeleteWorkspace } from '@application/use-cases/workspaces/DeleteWorkspace';
+import mockUser from '@tests/domain/mock-user';
 import mockWorkspace from '@tests/domain/mock-workspace';
-import { DeleteWorkspaceRepositoryStub } from '@tests/infrastructure/mocks/workspaces/repositories';
+import { CreateAuditLogEntryRepositoryStub } from '@tests/infrastructure/mocks/auditLogs/repositories';
+import {
+  DeleteWorkspaceRepositoryStub,
+  GetWorkspaceByIdRepositoryStub,
+} from '@tests/infrastructure/mocks/workspaces/repositories';
 
 type SutTypes = {
   sut: DeleteWorkspace;
+  getWorkspaceByIdRepositoryStub: GetWorkspaceByIdRepositoryStub;
   deleteWorkspaceRepositoryStub: DeleteWorkspaceRepositoryStub;
+  createAuditLogEntryRepositoryStub: CreateAuditLogEntryRepositoryStub;
 };
 
 const makeSut = (): SutTypes => {
+  const getWorkspaceByIdRepositoryStub = new GetWorkspaceByIdRepositoryStub();
   const deleteWorkspaceRepositoryStub = new DeleteWorkspaceRepositoryStub();
-  const sut = new DeleteWorkspace(deleteWorkspaceRepositoryStub);
+  const createAuditLogEntryRepositoryStub =
+    new CreateAuditLogEntryRepositoryStub();
+  const sut = new DeleteWorkspace(
+    getWorkspaceByIdRepositoryStub,
+    deleteWorkspaceRepositoryStub,
+    createAuditLogEntryRepositoryStub
+  );
   return {
     sut,
+    getWorkspaceByIdRepositoryStub,
     deleteWorkspaceRepositoryStub,
+    createAuditLogEntryRepositoryStub,
   };
 };
 
@@ -24,7 +40,54 @@ describe('DeleteWorkspace', () => {
       'deleteWorkspace'
     );
     const { id } = mockWorkspace();
-    await sut.execute(id);
+    await sut.execute({ workspaceId: id, actorId: mockUser().id });
     expect(deleteWorkspaceRepositorySpy).toHaveBeenCalledWith(id);
   });
+
+  it('should record the deletion and the owners in the audit log', async () => {
+    const { sut, createAuditLogEntryRepositoryStub } = makeSut();
+    const createAuditLogEntryRepositorySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+    const { id } = mockWorkspace();
+    await sut.execute({
+      workspaceId: id,
+      actorId: mockUser().id,
+      ip: '127.0.0.1',
+    });
+    expect(createAuditLogEntryRepositorySpy).toHaveBeenCalledWith({
+      action: 'workspace.delete',
+      actorId: mockUser().id,
+      targetType: 'workspace',
+      targetId: id,
+      workspaceId: id,
+      ip: '127.0.0.1',
+      ownerIds: ['112233445566778899aabbcc'],
+    });
+  });
+
+  it('should record no owners if the workspace is already gone', async () => {
+    const {
+      sut,
+      getWorkspaceByIdRepositoryStub,
+      createAuditLogEntryRepositoryStub,
+    } = makeSut();
+    jest
+      .spyOn(getWorkspaceByIdRepositoryStub, 'getWorkspaceById')
+      .mockImplementation(async () => null);
+    const createAuditLogEntryRepositorySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+
+    await sut.execute({
+      workspaceId: mockWorkspace().id,
+      actorId: mockUser().id,
+    });
+
+    expect(createAuditLogEntryRepositorySpy).toHaveBeenCalledWith(
+      expect.objectContaining({ ownerIds: [] })
+    );
+  });
 });
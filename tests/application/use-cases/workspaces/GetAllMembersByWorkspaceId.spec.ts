@@ -55,6 +55,9 @@ describe('GetAllMembersByWorkspaceId', () => {
 
     const response = await sut.execute(workspace.id);
 
-    expect(response).toEqual(['sample-member-1', 'sample-member-2']);
+    expect(response).toEqual([
+      { userId: 'sample-member-1', role: 'owner' },
+      { userId: 'sample-member-2', role: 'viewer' },
+    ]);
   });
 });
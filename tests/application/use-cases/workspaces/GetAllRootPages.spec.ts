@@ -59,7 +59,8 @@ describe('GetAllRootPages', () => {
         id: 'sample-page-1',
         reference: 'sample-page-reference',
         icon: 'icon-hex',
-        path: null,
+        parentId: null,
+        position: 'V',
         title: 'sample-page-reference',
         createdAt: new Date(),
       },
@@ -67,7 +68,8 @@ describe('GetAllRootPages', () => {
         id: 'sample-page-2',
         reference: 'sample-page-reference-2',
         icon: 'icon-hex',
-        path: null,
+        parentId: null,
+        position: 'l',
         title: 'sample-page-reference',
         createdAt: new Date(),
       },
@@ -75,7 +77,8 @@ describe('GetAllRootPages', () => {
         id: 'sample-page-3',
         reference: 'sample-page-reference-3',
         icon: 'icon-hex',
-        path: null,
+        parentId: null,
+        position: 't',
         title: 'sample-page-reference',
         createdAt: new Date(),
       },
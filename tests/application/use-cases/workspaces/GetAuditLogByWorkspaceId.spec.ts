@@ -0,0 +1,125 @@
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { GetAuditLogByWorkspaceId } from '@application/use-cases/workspaces/GetAuditLogByWorkspaceId';
+import mockAuditLogEntry from '@tests/domain/mock-audit-log-entry';
+import mockWorkspace from '@tests/domain/mock-workspace';
+import { GetAuditLogEntriesByWorkspaceIdRepositoryStub } from '@tests/infrastructure/mocks/auditLogs/repositories';
+import { GetWorkspaceByIdRepositoryStub } from '@tests/infrastructure/mocks/workspaces/repositories';
+
+type SutTypes = {
+  sut: GetAuditLogByWorkspaceId;
+  getWorkspaceByIdRepositoryStub: GetWorkspaceByIdRepositoryStub;
+  getAuditLogEntriesByWorkspaceIdRepositoryStub: GetAuditLogEntriesByWorkspaceIdRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getWorkspaceByIdRepositoryStub = new GetWorkspaceByIdRepositoryStub();
+  const getAuditLogEntriesByWorkspaceIdRepositoryStub =
+    new GetAuditLogEntriesByWorkspaceIdRepositoryStub();
+  const sut = new GetAuditLogByWorkspaceId(
+    getWorkspaceByIdRepositoryStub,
+    getAuditLogEntriesByWorkspaceIdRepositoryStub
+  );
+  return {
+    sut,
+    getWorkspaceByIdRepositoryStub,
+    getAuditLogEntriesByWorkspaceIdRepositoryStub,
+  };
+};
+
+const mockEntries = (count: number) =>
+  Array.from({ length: count }, (_value, index) => ({
+    ...mockAuditLogEntry(),
+    id: `sample-entry-id-${index}`,
+  }));
+
+describe('GetAuditLogByWorkspaceId', () => {
+  it('should return a WorkspaceNotFoundError if the workspace is not present', async () => {
+    const { sut, getWorkspaceByIdRepositoryStub } = makeSut();
+    jest
+      .spyOn(getWorkspaceByIdRepositoryStub, 'getWorkspaceById')
+      .mockImplementation(async () => null);
+
+    const response = await sut.execute({ workspaceId: mockWorkspace().id });
+
+    expect(response).toEqual(new WorkspaceNotFoundError());
+  });
+
+  it('should ask for the filtered entries of the workspace and its members', async () => {
+    const { sut, getAuditLogEntriesByWorkspaceIdRepositoryStub } = makeSut();
+    const getAuditLogEntriesSpy = jest.spyOn(
+      getAuditLogEntriesByWorkspaceIdRepositoryStub,
+      'getAuditLogEntriesByWorkspaceId'
+    );
+    const { id } = mockWorkspace();
+    const from = new Date('2024-01-01T00:00:00.000Z');
+
+    await sut.execute({
+      workspaceId: id,
+      action: 'page.delete',
+      from,
+      cursor: '112233445566778899ddeeff',
+      limit: 10,
+    });
+
+    expect(getAuditLogEntriesSpy).toHaveBeenCalledWith({
+      workspaceId: id,
+      action: 'page.delete',
+      from,
+      cursor: '112233445566778899ddeeff',
+      limit: 11,
+    });
+  });
+
+  it('should default to 50 entries per page', async () => {
+    const { sut, getAuditLogEntriesByWorkspaceIdRepositoryStub } = makeSut();
+    const getAuditLogEntriesSpy = jest.spyOn(
+      getAuditLogEntriesByWorkspaceIdRepositoryStub,
+      'getAuditLogEntriesByWorkspaceId'
+    );
+
+    await sut.execute({ workspaceId: mockWorkspace().id });
+
+    expect(getAuditLogEntriesSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ limit: 51 })
+    );
+  });
+
+  it('should return the last entry id as cursor if there are more entries', async () => {
+    const { sut, getAuditLogEntriesByWorkspaceIdRepositoryStub } = makeSut();
+    const entries = mockEntries(3);
+    jest
+      .spyOn(
+        getAuditLogEntriesByWorkspaceIdRepositoryStub,
+        'getAuditLogEntriesByWorkspaceId'
+      )
+      .mockImplementation(async () => entries);
+
+    const response = await sut.execute({
+      workspaceId: mockWorkspace().id,
+      limit: 2,
+    });
+
+    expect(response).toEqual({
+      entries: entries.slice(0, 2),
+      nextCursor: 'sample-entry-id-1',
+    });
+  });
+
+  it('should return no cursor on the last page', async () => {
+    const { sut, getAuditLogEntriesByWorkspaceIdRepositoryStub } = makeSut();
+    const entries = mockEntries(2);
+    jest
+      .spyOn(
+        getAuditLogEntriesByWorkspaceIdRepositoryStub,
+        'getAuditLogEntriesByWorkspaceId'
+      )
+      .mockImplementation(async () => entries);
+
+    const response = await sut.execute({
+      workspaceId: mockWorkspace().id,
+      limit: 2,
+    });
+
+    expect(response).toEqual({ entries, nextCursor: null });
+  });
+});
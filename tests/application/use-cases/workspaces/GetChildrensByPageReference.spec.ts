@@ -80,7 +80,8 @@ describe('GetChildrensByPageId', () => {
         id: 'sample-page-1',
         reference: 'sample-page-reference-1',
         icon: 'icon-hex',
-        path: ',sample-page-reference-0,',
+        parentId: 'sample-page-0',
+        position: 'V',
         title: 'sample-page-reference',
         createdAt: new Date(),
       },
@@ -88,7 +89,8 @@ describe('GetChildrensByPageId', () => {
         id: 'sample-page-2',
         reference: 'sample-page-reference-2',
         icon: 'icon-hex',
-        path: ',sample-page-reference-0,',
+        parentId: 'sample-page-0',
+        position: 'l',
         title: 'sample-page-reference',
         createdAt: new Date(),
       },
@@ -0,0 +1,137 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { PageTreeNodeType } from '@application/interfaces/use-cases/workspaces/GetPageTreeByWorkspaceIdInterface';
+import { GetPageTreeByWorkspaceId } from '@application/use-cases/workspaces/GetPageTreeByWorkspaceId';
+import mockWorkspace from '@tests/domain/mock-workspace';
+import { GetPagesByWorkspaceIdRepositoryStub } from '@tests/infrastructure/mocks/workspaces/repositories';
+
+type SutTypes = {
+  sut: GetPageTreeByWorkspaceId;
+  getPagesByWorkspaceIdRepositoryStub: GetPagesByWorkspaceIdRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getPagesByWorkspaceIdRepositoryStub =
+    new GetPagesByWorkspaceIdRepositoryStub();
+  const sut = new GetPageTreeByWorkspaceId(getPagesByWorkspaceIdRepositoryStub);
+
+  return {
+    sut,
+    getPagesByWorkspaceIdRepositoryStub,
+  };
+};
+
+type TreeShape = { id: string; hasChildren: boolean; children: TreeShape[] };
+
+const toShape = (nodes: PageTreeNodeType[]): TreeShape[] =>
+  nodes.map(({ id, hasChildren, children }) => ({
+    id,
+    hasChildren,
+    children: toShape(children),
+  }));
+
+describe('GetPageTreeByWorkspaceId', () => {
+  it('should call GetPagesByWorkspaceIdRepository with correct workspaceId', async () => {
+    const { sut, getPagesByWorkspaceIdRepositoryStub } = makeSut();
+    const getPagesByWorkspaceIdRepositorySpy = jest.spyOn(
+      getPagesByWorkspaceIdRepositoryStub,
+      'getPagesByWorkspaceId'
+    );
+    const { id } = mockWorkspace();
+
+    await sut.execute({ workspaceId: id });
+
+    expect(getPagesByWorkspaceIdRepositorySpy).toHaveBeenCalledWith(id);
+  });
+
+  it('should return only the root pages by default', async () => {
+    const { sut } = makeSut();
+    const { id } = mockWorkspace();
+
+    const response = await sut.execute({ workspaceId: id });
+
+    expect(toShape(response as PageTreeNodeType[])).toEqual([
+      { id: 'sample-page-id-0', hasChildren: false, children: [] },
+      { id: 'sample-page-id-1', hasChildren: true, children: [] },
+    ]);
+  });
+
+  it('should nest the pages down to the requested depth', async () => {
+    const { sut } = makeSut();
+    const { id } = mockWorkspace();
+
+    const response = await sut.execute({ workspaceId: id, depth: 2 });
+
+    expect(toShape(response as PageTreeNodeType[])).toEqual([
+      { id: 'sample-page-id-0', hasChildren: false, children: [] },
+      {
+        id: 'sample-page-id-1',
+        hasChildren: true,
+        children: [
+          { id: 'sample-page-id-2', hasChildren: false, children: [] },
+          { id: 'sample-page-id-3', hasChildren: true, children: [] },
+        ],
+      },
+    ]);
+  });
+
+  it('should return the subtree under the given root page', async () => {
+    const { sut } = makeSut();
+    const { id } = mockWorkspace();
+
+    const response = await sut.execute({
+      workspaceId: id,
+      rootPageId: 'sample-page-id-1',
+      depth: 2,
+    });
+
+    expect(toShape(response as PageTreeNodeType[])).toEqual([
+      { id: 'sample-page-id-2', hasChildren: false, children: [] },
+      {
+        id: 'sample-page-id-3',
+        hasChildren: true,
+        children: [
+          { id: 'sample-page-id-4', hasChildren: false, children: [] },
+        ],
+      },
+    ]);
+  });
+
+  it('should sort the siblings by position', async () => {
+    const { sut, getPagesByWorkspaceIdRepositoryStub } = makeSut();
+    const { id, pages } = mockWorkspace();
+    jest
+      .spyOn(getPagesByWorkspaceIdRepositoryStub, 'getPagesByWorkspaceId')
+      .mockImplementationOnce(async () => [...pages].reverse());
+
+    const response = await sut.execute({ workspaceId: id });
+
+    expect(toShape(response as PageTreeNodeType[])).toEqual([
+      { id: 'sample-page-id-0', hasChildren: false, children: [] },
+      { id: 'sample-page-id-1', hasChildren: true, children: [] },
+    ]);
+  });
+
+  it('should return a PageNotFoundError if the root page does not exist', async () => {
+    const { sut } = makeSut();
+    const { id } = mockWorkspace();
+
+    const response = await sut.execute({
+      workspaceId: id,
+      rootPageId: 'invalid-page-id',
+    });
+
+    expect(response).toEqual(new PageNotFoundError());
+  });
+
+  it('should return a WorkspaceNotFoundError if the workspace does not exist', async () => {
+    const { sut, getPagesByWorkspaceIdRepositoryStub } = makeSut();
+    jest
+      .spyOn(getPagesByWorkspaceIdRepositoryStub, 'getPagesByWorkspaceId')
+      .mockImplementationOnce(async () => null);
+
+    const response = await sut.execute({ workspaceId: 'invalid-workspace-id' });
+
+    expect(response).toEqual(new WorkspaceNotFoundError());
+  });
+});
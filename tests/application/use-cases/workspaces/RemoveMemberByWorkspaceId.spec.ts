@@ -1,6 +1,9 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { LastOwnerError } from '@application/errors/LastOwnerError';
 import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
 import { RemoveMemberByWorkspaceId } from '@application/use-cases/workspaces/RemoveMemberByWorkspaceId';
 import mockWorkspace from '@tests/domain/mock-workspace';
+import { CreateAuditLogEntryRepositoryStub } from '@tests/infrastructure/mocks/auditLogs/repositories';
 import {
   GetWorkspaceByIdRepositoryStub,
   RemoveMemberByWorkspaceIdRepositoryStub,
@@ -10,43 +13,105 @@ type SutTypes = {
   sut: RemoveMemberByWorkspaceId;
   getWorkspaceByIdRepositoryStub: GetWorkspaceByIdRepositoryStub;
   removeMemberByWorkspaceIdRepositoryStub: RemoveMemberByWorkspaceIdRepositoryStub;
+  createAuditLogEntryRepositoryStub: CreateAuditLogEntryRepositoryStub;
 };
 
 const makesSut = (): SutTypes => {
   const getWorkspaceByIdRepositoryStub = new GetWorkspaceByIdRepositoryStub();
   const removeMemberByWorkspaceIdRepositoryStub =
     new RemoveMemberByWorkspaceIdRepositoryStub();
+  const createAuditLogEntryRepositoryStub =
+    new CreateAuditLogEntryRepositoryStub();
   const sut = new RemoveMemberByWorkspaceId(
     getWorkspaceByIdRepositoryStub,
-    removeMemberByWorkspaceIdRepositoryStub
+    removeMemberByWorkspaceIdRepositoryStub,
+    createAuditLogEntryRepositoryStub
   );
 
   return {
     sut,
     getWorkspaceByIdRepositoryStub,
     removeMemberByWorkspaceIdRepositoryStub,
+    createAuditLogEntryRepositoryStub,
   };
 };
 
+const ownerId = '112233445566778899aabbcc';
+const viewerId = '112233445566778899aabbdd';
+
 describe('RemoveMemberByWorkspaceId', () => {
-  it('should call removePageIdFromFavoritesByWorkspaceIdRepository with correct data', async () => {
+  it('should call removeMemberByWorkspaceIdRepository with correct data', async () => {
     const { sut, removeMemberByWorkspaceIdRepositoryStub } = makesSut();
     const removeMemberByWorkspaceIdRepositorySpy = jest.spyOn(
       removeMemberByWorkspaceIdRepositoryStub,
       'removeMemberByWorkspaceId'
     );
     const { id } = mockWorkspace();
-    const memberId = 'sample-member-id';
 
     await sut.execute({
       workspaceId: id,
-      memberId,
+      memberId: viewerId,
+      userId: ownerId,
     });
 
     expect(removeMemberByWorkspaceIdRepositorySpy).toHaveBeenCalledWith({
       workspaceId: id,
-      memberId,
+      memberId: viewerId,
+    });
+  });
+
+  it('should let a member leave the workspace', async () => {
+    const { sut, removeMemberByWorkspaceIdRepositoryStub } = makesSut();
+    const removeMemberByWorkspaceIdRepositorySpy = jest.spyOn(
+      removeMemberByWorkspaceIdRepositoryStub,
+      'removeMemberByWorkspaceId'
+    );
+    const { id } = mockWorkspace();
+
+    const response = await sut.execute({
+      workspaceId: id,
+      memberId: viewerId,
+      userId: viewerId,
+    });
+
+    expect(response).toBeUndefined();
+    expect(removeMemberByWorkspaceIdRepositorySpy).toHaveBeenCalled();
+  });
+
+  it('should return a ForbiddenError if a non owner removes somebody else', async () => {
+    const { sut, removeMemberByWorkspaceIdRepositoryStub } = makesSut();
+    const removeMemberByWorkspaceIdRepositorySpy = jest.spyOn(
+      removeMemberByWorkspaceIdRepositoryStub,
+      'removeMemberByWorkspaceId'
+    );
+    const { id } = mockWorkspace();
+
+    const response = await sut.execute({
+      workspaceId: id,
+      memberId: ownerId,
+      userId: viewerId,
     });
+
+    expect(response).toEqual(new ForbiddenError());
+    expect(removeMemberByWorkspaceIdRepositorySpy).not.toHaveBeenCalled();
+  });
+
+  it('should return a LastOwnerError if the last owner leaves', async () => {
+    const { sut, removeMemberByWorkspaceIdRepositoryStub } = makesSut();
+    const removeMemberByWorkspaceIdRepositorySpy = jest.spyOn(
+      removeMemberByWorkspaceIdRepositoryStub,
+      'removeMemberByWorkspaceId'
+    );
+    const { id } = mockWorkspace();
+
+    const response = await sut.execute({
+      workspaceId: id,
+      memberId: ownerId,
+      userId: ownerId,
+    });
+
+    expect(response).toEqual(new LastOwnerError());
+    expect(removeMemberByWorkspaceIdRepositorySpy).not.toHaveBeenCalled();
   });
 
   it('should return a WorkspaceNotFoundError if workspace is not present', async () => {
@@ -56,9 +121,36 @@ describe('RemoveMemberByWorkspaceId', () => {
       .mockReturnValueOnce(Promise.resolve(null));
 
     const { id } = mockWorkspace();
-    const memberId = 'sample-member-id';
 
-    const response = await sut.execute({ workspaceId: id, memberId });
+    const response = await sut.execute({
+      workspaceId: id,
+      memberId: viewerId,
+      userId: ownerId,
+    });
     expect(response).toEqual(new WorkspaceNotFoundError());
   });
+
+  it('should record the removal in the audit log', async () => {
+    const { sut, createAuditLogEntryRepositoryStub } = makesSut();
+    const createAuditLogEntryRepositorySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+    const { id } = mockWorkspace();
+    await sut.execute({
+      workspaceId: id,
+      memberId: viewerId,
+      userId: ownerId,
+      ip: '127.0.0.1',
+    });
+
+    expect(createAuditLogEntryRepositorySpy).toHaveBeenCalledWith({
+      action: 'workspace.member_remove',
+      actorId: ownerId,
+      targetType: 'user',
+      targetId: viewerId,
+      workspaceId: id,
+      ip: '127.0.0.1',
+    });
+  });
 });
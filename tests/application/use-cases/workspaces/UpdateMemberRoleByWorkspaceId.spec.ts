@@ -0,0 +1,140 @@
+import { LastOwnerError } from '@application/errors/LastOwnerError';
+import { MemberNotFoundError } from '@application/errors/MemberNotFoundError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { UpdateMemberRoleByWorkspaceId } from '@application/use-cases/workspaces/UpdateMemberRoleByWorkspaceId';
+import mockWorkspace from '@tests/domain/mock-workspace';
+import { CreateAuditLogEntryRepositoryStub } from '@tests/infrastructure/mocks/auditLogs/repositories';
+import {
+  GetWorkspaceByIdRepositoryStub,
+  UpdateMemberRoleByWorkspaceIdRepositoryStub,
+} from '@tests/infrastructure/mocks/workspaces/repositories';
+
+type SutTypes = {
+  sut: UpdateMemberRoleByWorkspaceId;
+  getWorkspaceByIdRepositoryStub: GetWorkspaceByIdRepositoryStub;
+  updateMemberRoleByWorkspaceIdRepositoryStub: UpdateMemberRoleByWorkspaceIdRepositoryStub;
+  createAuditLogEntryRepositoryStub: CreateAuditLogEntryRepositoryStub;
+};
+
+const makesSut = (): SutTypes => {
+  const getWorkspaceByIdRepositoryStub = new GetWorkspaceByIdRepositoryStub();
+  const updateMemberRoleByWorkspaceIdRepositoryStub =
+    new UpdateMemberRoleByWorkspaceIdRepositoryStub();
+  const createAuditLogEntryRepositoryStub =
+    new CreateAuditLogEntryRepositoryStub();
+  const sut = new UpdateMemberRoleByWorkspaceId(
+    getWorkspaceByIdRepositoryStub,
+    updateMemberRoleByWorkspaceIdRepositoryStub,
+    createAuditLogEntryRepositoryStub
+  );
+
+  return {
+    sut,
+    getWorkspaceByIdRepositoryStub,
+    updateMemberRoleByWorkspaceIdRepositoryStub,
+    createAuditLogEntryRepositoryStub,
+  };
+};
+
+const ownerId = '112233445566778899aabbcc';
+const viewerId = '112233445566778899aabbdd';
+
+describe('UpdateMemberRoleByWorkspaceId', () => {
+  it('should call updateMemberRoleByWorkspaceIdRepository with correct data', async () => {
+    const { sut, updateMemberRoleByWorkspaceIdRepositoryStub } = makesSut();
+    const updateMemberRoleByWorkspaceIdRepositorySpy = jest.spyOn(
+      updateMemberRoleByWorkspaceIdRepositoryStub,
+      'updateMemberRoleByWorkspaceId'
+    );
+    const { id } = mockWorkspace();
+
+    const response = await sut.execute({
+      workspaceId: id,
+      memberId: viewerId,
+      role: 'editor',
+      actorId: ownerId,
+    });
+
+    expect(response).toBeUndefined();
+    expect(updateMemberRoleByWorkspaceIdRepositorySpy).toHaveBeenCalledWith({
+      workspaceId: id,
+      memberId: viewerId,
+      role: 'editor',
+    });
+  });
+
+  it('should return a MemberNotFoundError if the user is not a member', async () => {
+    const { sut } = makesSut();
+    const { id } = mockWorkspace();
+
+    const response = await sut.execute({
+      workspaceId: id,
+      memberId: 'sample-stranger',
+      role: 'editor',
+      actorId: ownerId,
+    });
+
+    expect(response).toEqual(new MemberNotFoundError());
+  });
+
+  it('should return a LastOwnerError if the last owner is demoted', async () => {
+    const { sut, updateMemberRoleByWorkspaceIdRepositoryStub } = makesSut();
+    const updateMemberRoleByWorkspaceIdRepositorySpy = jest.spyOn(
+      updateMemberRoleByWorkspaceIdRepositoryStub,
+      'updateMemberRoleByWorkspaceId'
+    );
+    const { id } = mockWorkspace();
+
+    const response = await sut.execute({
+      workspaceId: id,
+      memberId: ownerId,
+      role: 'viewer',
+      actorId: ownerId,
+    });
+
+    expect(response).toEqual(new LastOwnerError());
+    expect(updateMemberRoleByWorkspaceIdRepositorySpy).not.toHaveBeenCalled();
+  });
+
+  it('should return a WorkspaceNotFoundError if workspace is not present', async () => {
+    const { sut, getWorkspaceByIdRepositoryStub } = makesSut();
+    jest
+      .spyOn(getWorkspaceByIdRepositoryStub, 'getWorkspaceById')
+      .mockReturnValueOnce(Promise.resolve(null));
+
+    const { id } = mockWorkspace();
+
+    const response = await sut.execute({
+      workspaceId: id,
+      memberId: viewerId,
+      role: 'editor',
+      actorId: ownerId,
+    });
+    expect(response).toEqual(new WorkspaceNotFoundError());
+  });
+
+  it('should record the role change in the audit log', async () => {
+    const { sut, createAuditLogEntryRepositoryStub } = makesSut();
+    const createAuditLogEntryRepositorySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+    const { id } = mockWorkspace();
+    await sut.execute({
+      workspaceId: id,
+      memberId: viewerId,
+      role: 'editor',
+      actorId: ownerId,
+      ip: '127.0.0.1',
+    });
+
+    expect(createAuditLogEntryRepositorySpy).toHaveBeenCalledWith({
+      action: 'workspace.member_role_update',
+      actorId: ownerId,
+      targetType: 'user',
+      targetId: viewerId,
+      workspaceId: id,
+      ip: '127.0.0.1',
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { InvalidPagePositionError } from '@application/errors/InvalidPagePositionError';
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { UpdatePagePositionByPageId } from '@application/use-cases/workspaces/UpdatePagePositionByPageId';
+import mockWorkspace from '@tests/domain/mock-workspace';
+import { PositionGeneratorStub } from '@tests/infrastructure/mocks/ordering';
+import {
+  GetWorkspaceByIdRepositoryStub,
+  UpdateWorkspacePagesMetaDataByPageIdRepositoryStub,
+} from '@tests/infrastructure/mocks/workspaces/repositories';
+
+type SutTypes = {
+  sut: UpdatePagePositionByPageId;
+  getWorkspaceByIdRepositoryStub: GetWorkspaceByIdRepositoryStub;
+  updateWorkspacePagesMetaDataByPageIdRepositoryStub: UpdateWorkspacePagesMetaDataByPageIdRepositoryStub;
+  positionGeneratorStub: PositionGeneratorStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getWorkspaceByIdRepositoryStub = new GetWorkspaceByIdRepositoryStub();
+  const updateWorkspacePagesMetaDataByPageIdRepositoryStub =
+    new UpdateWorkspacePagesMetaDataByPageIdRepositoryStub();
+  const positionGeneratorStub = new PositionGeneratorStub();
+  const sut = new UpdatePagePositionByPageId(
+    getWorkspaceByIdRepositoryStub,
+    updateWorkspacePagesMetaDataByPageIdRepositoryStub,
+    positionGeneratorStub
+  );
+
+  return {
+    sut,
+    getWorkspaceByIdRepositoryStub,
+    updateWorkspacePagesMetaDataByPageIdRepositoryStub,
+    positionGeneratorStub,
+  };
+};
+
+describe('UpdatePagePositionByPageId', () => {
+  it('should generate a position after the given sibling', async () => {
+    const { sut, positionGeneratorStub } = makeSut();
+    const generatePositionSpy = jest.spyOn(
+      positionGeneratorStub,
+      'generatePosition'
+    );
+    const { id } = mockWorkspace();
+
+    await sut.execute({
+      workspaceId: id,
+      pageId: 'sample-page-id-2',
+      afterPageId: 'sample-page-id-3',
+    });
+
+    expect(generatePositionSpy).toHaveBeenCalledWith('l', null);
+  });
+
+  it('should generate a position before the given sibling', async () => {
+    const { sut, positionGeneratorStub } = makeSut();
+    const generatePositionSpy = jest.spyOn(
+      positionGeneratorStub,
+      'generatePosition'
+    );
+    const { id } = mockWorkspace();
+
+    await sut.execute({
+      workspaceId: id,
+      pageId: 'sample-page-id-3',
+      beforePageId: 'sample-page-id-2',
+    });
+
+    expect(generatePositionSpy).toHaveBeenCalledWith(null, 'V');
+  });
+
+  it('should generate the first position if the page goes after null', async () => {
+    const { sut, positionGeneratorStub } = makeSut();
+    const generatePositionSpy = jest.spyOn(
+      positionGeneratorStub,
+      'generatePosition'
+    );
+    const { id } = mockWorkspace();
+
+    await sut.execute({
+      workspaceId: id,
+      pageId: 'sample-page-id-1',
+      afterPageId: null,
+    });
+
+    expect(generatePositionSpy).toHaveBeenCalledWith(null, 'V');
+  });
+
+  it('should accept both neighbours if they are next to each other', async () => {
+    const { sut, positionGeneratorStub } = makeSut();
+    const generatePositionSpy = jest.spyOn(
+      positionGeneratorStub,
+      'generatePosition'
+    );
+    const { id } = mockWorkspace();
+
+    await sut.execute({
+      workspaceId: id,
+      pageId: 'sample-page-id-0',
+      afterPageId: 'sample-page-id-1',
+      beforePageId: null,
+    });
+
+    expect(generatePositionSpy).toHaveBeenCalledWith('l', null);
+  });
+
+  it('should call UpdateWorkspacePagesMetaDataByPageIdRepository with the new position', async () => {
+    const { sut, updateWorkspacePagesMetaDataByPageIdRepositoryStub } =
+      makeSut();
+    const updateWorkspacePagesMetaDataByPageIdRepositorySpy = jest.spyOn(
+      updateWorkspacePagesMetaDataByPageIdRepositoryStub,
+      'updateWorkspacePagesMetaDataByPageId'
+    );
+    const { id } = mockWorkspace();
+
+    await sut.execute({
+      workspaceId: id,
+      pageId: 'sample-page-id-2',
+      afterPageId: 'sample-page-id-3',
+    });
+
+    expect(
+      updateWorkspacePagesMetaDataByPageIdRepositorySpy
+    ).toHaveBeenCalledWith({
+      workspaceId: id,
+      pageId: 'sample-page-id-2',
+      pageData: { position: 'sample-position' },
+    });
+  });
+
+  it('should return the new position on success', async () => {
+    const { sut } = makeSut();
+    const { id } = mockWorkspace();
+
+    const response = await sut.execute({
+      workspaceId: id,
+      pageId: 'sample-page-id-2',
+      afterPageId: 'sample-page-id-3',
+    });
+
+    expect(response).toBe('sample-position');
+  });
+
+  it('should return an InvalidPagePositionError if no neighbour is given', async () => {
+    const { sut } = makeSut();
+    const { id } = mockWorkspace();
+
+    const response = await sut.execute({
+      workspaceId: id,
+      pageId: 'sample-page-id-2',
+    });
+
+    expect(response).toEqual(new InvalidPagePositionError());
+  });
+
+  it('should return an InvalidPagePositionError if the neighbour is not a sibling', async () => {
+    const { sut, updateWorkspacePagesMetaDataByPageIdRepositoryStub } =
+      makeSut();
+    const updateWorkspacePagesMetaDataByPageIdRepositorySpy = jest.spyOn(
+      updateWorkspacePagesMetaDataByPageIdRepositoryStub,
+      'updateWorkspacePagesMetaDataByPageId'
+    );
+    const { id } = mockWorkspace();
+
+    const response = await sut.execute({
+      workspaceId: id,
+      pageId: 'sample-page-id-2',
+      afterPageId: 'sample-page-id-0',
+    });
+
+    expect(response).toEqual(new InvalidPagePositionError());
+    expect(
+      updateWorkspacePagesMetaDataByPageIdRepositorySpy
+    ).not.toHaveBeenCalled();
+  });
+
+  it('should return an InvalidPagePositionError if the neighbours are not next to each other', async () => {
+    const { sut } = makeSut();
+    const { id } = mockWorkspace();
+
+    const response = await sut.execute({
+      workspaceId: id,
+      pageId: 'sample-page-id-2',
+      afterPageId: null,
+      beforePageId: null,
+    });
+
+    expect(response).toEqual(new InvalidPagePositionError());
+  });
+
+  it('should return a PageNotFoundError if the page does not exist', async () => {
+    const { sut } = makeSut();
+    const { id } = mockWorkspace();
+
+    const response = await sut.execute({
+      workspaceId: id,
+      pageId: 'invalid-page-id',
+      afterPageId: null,
+    });
+
+    expect(response).toEqual(new PageNotFoundError());
+  });
+
+  it('should return a WorkspaceNotFoundError if the workspace does not exist', async () => {
+    const { sut, getWorkspaceByIdRepositoryStub } = makeSut();
+    jest
+      .spyOn(getWorkspaceByIdRepositoryStub, 'getWorkspaceById')
+      .mockImplementationOnce(async () => null);
+
+    const response = await sut.execute({
+      workspaceId: 'invalid-workspace-id',
+      pageId: 'sample-page-id-2',
+      afterPageId: null,
+    });
+
+    expect(response).toEqual(new WorkspaceNotFoundError());
+  });
+});
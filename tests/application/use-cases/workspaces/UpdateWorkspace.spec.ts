@@ -1,6 +1,7 @@
 import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
 import { UpdateWorkspace } from '@application/use-cases/workspaces/UpdateWorkspace';
 import mockWorkspace from '@tests/domain/mock-workspace';
+import { CreateAuditLogEntryRepositoryStub } from '@tests/infrastructure/mocks/auditLogs/repositories';
 import {
   GetWorkspaceByIdRepositoryStub,
   UpdateWorkspaceRepositoryStub,
@@ -10,22 +11,29 @@ type SutTypes = {
   sut: UpdateWorkspace;
   getWorkspaceByIdRepositoryStub: GetWorkspaceByIdRepositoryStub;
   updateWorkspaceRepositoryStub: UpdateWorkspaceRepositoryStub;
+  createAuditLogEntryRepositoryStub: CreateAuditLogEntryRepositoryStub;
 };
 
 const makeSut = (): SutTypes => {
   const getWorkspaceByIdRepositoryStub = new GetWorkspaceByIdRepositoryStub();
   const updateWorkspaceRepositoryStub = new UpdateWorkspaceRepositoryStub();
+  const createAuditLogEntryRepositoryStub =
+    new CreateAuditLogEntryRepositoryStub();
   const sut = new UpdateWorkspace(
     getWorkspaceByIdRepositoryStub,
-    updateWorkspaceRepositoryStub
+    updateWorkspaceRepositoryStub,
+    createAuditLogEntryRepositoryStub
   );
   return {
     sut,
     getWorkspaceByIdRepositoryStub,
     updateWorkspaceRepositoryStub,
+    createAuditLogEntryRepositoryStub,
   };
 };
 
+const ownerId = '112233445566778899aabbcc';
+
 describe('UpdateWorkspace', () => {
   it('should call getWorkspaceByIdRepositoryStub with correct post id', async () => {
     const { sut, updateWorkspaceRepositoryStub } = makeSut();
@@ -37,6 +45,7 @@ describe('UpdateWorkspace', () => {
     await sut.execute({
       workspaceId: id,
       workspaceData: { name, icon },
+      actorId: ownerId,
     });
     expect(updateWorkspaceRepositorySpy).toHaveBeenCalledWith({
       workspaceId: id,
@@ -54,6 +63,7 @@ describe('UpdateWorkspace', () => {
     const response = await sut.execute({
       workspaceId: id,
       workspaceData: { name, icon },
+      actorId: ownerId,
     });
     expect(response).toEqual(new WorkspaceNotFoundError());
   });
@@ -66,8 +76,33 @@ describe('UpdateWorkspace', () => {
     const response = await sut.execute({
       workspaceId: id,
       workspaceData: { name, icon },
+      actorId: ownerId,
     });
 
     expect(response).toEqual(workspace);
   });
+
+  it('should record the update in the audit log', async () => {
+    const { sut, createAuditLogEntryRepositoryStub } = makeSut();
+    const createAuditLogEntryRepositorySpy = jest.spyOn(
+      createAuditLogEntryRepositoryStub,
+      'createAuditLogEntry'
+    );
+    const { id, name, icon } = mockWorkspace();
+    await sut.execute({
+      workspaceId: id,
+      workspaceData: { name, icon },
+      actorId: ownerId,
+      ip: '127.0.0.1',
+    });
+
+    expect(createAuditLogEntryRepositorySpy).toHaveBeenCalledWith({
+      action: 'workspace.update',
+      actorId: ownerId,
+      targetType: 'workspace',
+      targetId: id,
+      workspaceId: id,
+      ip: '127.0.0.1',
+    });
+  });
 });
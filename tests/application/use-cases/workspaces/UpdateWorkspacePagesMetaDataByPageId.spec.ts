@@ -0,0 +1,115 @@
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { UpdateWorkspacePagesMetaDataByPageId } from '@application/use-cases/workspaces/UpdateWorkspacePagesMetaDataByPageId';
+import mockWorkspace from '@tests/domain/mock-workspace';
+import { PositionGeneratorStub } from '@tests/infrastructure/mocks/ordering';
+import {
+  GetWorkspaceByIdRepositoryStub,
+  UpdateWorkspacePagesMetaDataByPageIdRepositoryStub,
+} from '@tests/infrastructure/mocks/workspaces/repositories';
+
+type SutTypes = {
+  sut: UpdateWorkspacePagesMetaDataByPageId;
+  getWorkspaceByIdRepositoryStub: GetWorkspaceByIdRepositoryStub;
+  updateWorkspacePagesMetaDataByPageIdRepositoryStub: UpdateWorkspacePagesMetaDataByPageIdRepositoryStub;
+  positionGeneratorStub: PositionGeneratorStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getWorkspaceByIdRepositoryStub = new GetWorkspaceByIdRepositoryStub();
+  const updateWorkspacePagesMetaDataByPageIdRepositoryStub =
+    new UpdateWorkspacePagesMetaDataByPageIdRepositoryStub();
+  const positionGeneratorStub = new PositionGeneratorStub();
+  const sut = new UpdateWorkspacePagesMetaDataByPageId(
+    getWorkspaceByIdRepositoryStub,
+    updateWorkspacePagesMetaDataByPageIdRepositoryStub,
+    positionGeneratorStub
+  );
+
+  return {
+    sut,
+    getWorkspaceByIdRepositoryStub,
+    updateWorkspacePagesMetaDataByPageIdRepositoryStub,
+    positionGeneratorStub,
+  };
+};
+
+describe('UpdateWorkspacePagesMetaDataByPageId', () => {
+  it('should call UpdateWorkspacePagesMetaDataByPageIdRepository with the page data', async () => {
+    const {
+      sut,
+      updateWorkspacePagesMetaDataByPageIdRepositoryStub,
+      positionGeneratorStub,
+    } = makeSut();
+    const updateWorkspacePagesMetaDataByPageIdRepositorySpy = jest.spyOn(
+      updateWorkspacePagesMetaDataByPageIdRepositoryStub,
+      'updateWorkspacePagesMetaDataByPageId'
+    );
+    const generatePositionSpy = jest.spyOn(
+      positionGeneratorStub,
+      'generatePosition'
+    );
+    const { id } = mockWorkspace();
+
+    await sut.execute({
+      workspaceId: id,
+      pageId: 'sample-page-id-2',
+      pageData: { title: 'sample-new-title' },
+    });
+
+    expect(
+      updateWorkspacePagesMetaDataByPageIdRepositorySpy
+    ).toHaveBeenCalledWith({
+      workspaceId: id,
+      pageId: 'sample-page-id-2',
+      pageData: { title: 'sample-new-title' },
+    });
+    expect(generatePositionSpy).not.toHaveBeenCalled();
+  });
+
+  it('should place a reparented page after the last sibling of its new parent', async () => {
+    const {
+      sut,
+      updateWorkspacePagesMetaDataByPageIdRepositoryStub,
+      positionGeneratorStub,
+    } = makeSut();
+    const updateWorkspacePagesMetaDataByPageIdRepositorySpy = jest.spyOn(
+      updateWorkspacePagesMetaDataByPageIdRepositoryStub,
+      'updateWorkspacePagesMetaDataByPageId'
+    );
+    const generatePositionSpy = jest.spyOn(
+      positionGeneratorStub,
+      'generatePosition'
+    );
+    const { id } = mockWorkspace();
+
+    await sut.execute({
+      workspaceId: id,
+      pageId: 'sample-page-id-4',
+      pageData: { parentId: 'sample-page-id-1' },
+    });
+
+    expect(generatePositionSpy).toHaveBeenCalledWith('l', null);
+    expect(
+      updateWorkspacePagesMetaDataByPageIdRepositorySpy
+    ).toHaveBeenCalledWith({
+      workspaceId: id,
+      pageId: 'sample-page-id-4',
+      pageData: { parentId: 'sample-page-id-1', position: 'sample-position' },
+    });
+  });
+
+  it('should return a WorkspaceNotFoundError if the workspace does not exist', async () => {
+    const { sut, getWorkspaceByIdRepositoryStub } = makeSut();
+    jest
+      .spyOn(getWorkspaceByIdRepositoryStub, 'getWorkspaceById')
+      .mockImplementationOnce(async () => null);
+
+    const response = await sut.execute({
+      workspaceId: 'invalid-workspace-id',
+      pageId: 'sample-page-id-2',
+      pageData: { title: 'sample-new-title' },
+    });
+
+    expect(response).toEqual(new WorkspaceNotFoundError());
+  });
+});
@@ -0,0 +1,100 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { WorkspaceAuthorization } from '@application/use-cases/workspaces/WorkspaceAuthorization';
+import mockWorkspace from '@tests/domain/mock-workspace';
+import { GetAllMembersByWorkspaceIdRepositoryStub } from '@tests/infrastructure/mocks/workspaces/repositories';
+
+type SutTypes = {
+  sut: WorkspaceAuthorization;
+  getAllMembersByWorkspaceIdRepositoryStub: GetAllMembersByWorkspaceIdRepositoryStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getAllMembersByWorkspaceIdRepositoryStub =
+    new GetAllMembersByWorkspaceIdRepositoryStub();
+  const sut = new WorkspaceAuthorization(
+    getAllMembersByWorkspaceIdRepositoryStub
+  );
+
+  return {
+    sut,
+    getAllMembersByWorkspaceIdRepositoryStub,
+  };
+};
+
+describe('WorkspaceAuthorization', () => {
+  it('should call GetAllMembersByWorkspaceIdRepository with correct data', async () => {
+    const { sut, getAllMembersByWorkspaceIdRepositoryStub } = makeSut();
+    const getAllMembersByWorkspaceIdRepositorySpy = jest.spyOn(
+      getAllMembersByWorkspaceIdRepositoryStub,
+      'getAllMembersByWorkspaceId'
+    );
+    const { id } = mockWorkspace();
+    await sut.execute({ userId: 'sample-member-1', workspaceId: id });
+
+    expect(getAllMembersByWorkspaceIdRepositorySpy).toHaveBeenCalledWith(id);
+  });
+
+  it('should return a WorkspaceNotFoundError if workspace is not present', async () => {
+    const { sut, getAllMembersByWorkspaceIdRepositoryStub } = makeSut();
+    jest
+      .spyOn(
+        getAllMembersByWorkspaceIdRepositoryStub,
+        'getAllMembersByWorkspaceId'
+      )
+      .mockImplementation(async () => null);
+    const { id } = mockWorkspace();
+    const response = await sut.execute({
+      userId: 'sample-member-1',
+      workspaceId: id,
+    });
+
+    expect(response).toEqual(new WorkspaceNotFoundError());
+  });
+
+  it('should return a ForbiddenError if the user is not a member', async () => {
+    const { sut } = makeSut();
+    const { id } = mockWorkspace();
+    const response = await sut.execute({
+      userId: 'sample-stranger',
+      workspaceId: id,
+    });
+
+    expect(response).toEqual(new ForbiddenError());
+  });
+
+  it('should return the workspace id on success', async () => {
+    const { sut } = makeSut();
+    const { id } = mockWorkspace();
+    const response = await sut.execute({
+      userId: 'sample-member-1',
+      workspaceId: id,
+    });
+
+    expect(response).toBe(id);
+  });
+
+  it('should return a ForbiddenError if the member role is not allowed', async () => {
+    const { sut } = makeSut();
+    const { id } = mockWorkspace();
+    const response = await sut.execute({
+      userId: 'sample-member-2',
+      workspaceId: id,
+      roles: ['owner'],
+    });
+
+    expect(response).toEqual(new ForbiddenError());
+  });
+
+  it('should return the workspace id if the member role is allowed', async () => {
+    const { sut } = makeSut();
+    const { id } = mockWorkspace();
+    const response = await sut.execute({
+      userId: 'sample-member-1',
+      workspaceId: id,
+      roles: ['owner'],
+    });
+
+    expect(response).toBe(id);
+  });
+});
@@ -0,0 +1,17 @@
+import { ApiToken } from '@domain/entities/ApiToken';
+
+const mockApiToken = (): ApiToken => {
+  return new ApiToken({
+    id: '112233445566778899ddeeff',
+    userId: '112233445566778899aabbcc',
+    name: 'sample-api-token-name',
+    tokenHash: 'sample-token-hash',
+    scopes: ['pages:read'],
+    workspaceId: null,
+    expiresAt: null,
+    lastUsedAt: null,
+    createdAt: new Date(),
+  });
+};
+
+export default mockApiToken;
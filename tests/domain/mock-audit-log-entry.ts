@@ -0,0 +1,16 @@
+import { AuditLogEntry } from '@domain/entities/AuditLogEntry';
+
+const mockAuditLogEntry = (): AuditLogEntry => {
+  return new AuditLogEntry({
+    id: '112233445566778899ddeeff',
+    action: 'workspace.member_remove',
+    actorId: 'sample-member-1',
+    targetType: 'user',
+    targetId: 'sample-member-2',
+    workspaceId: '112233445566778899bbccaa',
+    ip: '127.0.0.1',
+    createdAt: new Date(),
+  });
+};
+
+export default mockAuditLogEntry;
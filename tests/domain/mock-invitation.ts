@@ -0,0 +1,18 @@
+import { Invitation } from '@domain/entities/Invitation';
+
+const mockInvitation = (): Invitation => {
+  return new Invitation({
+    id: '112233445566778899ccddee',
+    workspaceId: '112233445566778899bbccaa',
+    workspaceName: 'sample-workspace-name',
+    email: 'sample@email.com',
+    role: 'editor',
+    invitedBy: '112233445566778899aabbcc',
+    token: 'sample-invitation-token',
+    status: 'pending',
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    createdAt: new Date(),
+  });
+};
+
+export default mockInvitation;
@@ -0,0 +1,15 @@
+import { PageGuest } from '@domain/entities/PageGuest';
+
+const mockPageGuest = (): PageGuest => {
+  return new PageGuest({
+    id: '112233445566778899ccddee',
+    pageId: '112233445566778899bbccaa',
+    workspaceId: '112233445566778899bbccaa',
+    userId: 'sample-guest-id',
+    role: 'viewer',
+    grantedBy: 'sample-member-1',
+    createdAt: new Date(),
+  });
+};
+
+export default mockPageGuest;
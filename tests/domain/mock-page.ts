@@ -40,12 +40,44 @@ const mockPage = (): Page => {
       fullWidth: true,
       lock: false,
     },
-    // path: null,
-    path: ',sample-title-2-81d355314e218095cafcf3ac54b1efee3fe8fe767070b4796a52482ae8d0b211.',
+    parentId: '112233445566778899bbccff',
+    ancestors: ['112233445566778899bbccff'],
     workspaceId: '112233445566778899bbccaa',
     createdAt: new Date(),
     updatedAt: new Date(),
   });
 };
 
+export const mockPublishedPage = (): Page => {
+  return new Page({
+    ...mockPage(),
+    parentId: null,
+    ancestors: [],
+    publication: {
+      slug: 'sample-public-slug',
+      includeChildren: true,
+      allowIndexing: false,
+      expiresAt: null,
+      publishedAt: new Date(),
+    },
+  });
+};
+
+export const mockLockedPage = (): Page => {
+  const page = mockPage();
+  return new Page({
+    ...page,
+    pageSettings: { ...page.pageSettings, lock: true },
+  });
+};
+
+export const mockTrashedPage = (): Page => {
+  const page = mockPage();
+  return new Page({
+    ...page,
+    trashedAt: new Date(),
+    trashedWithPageId: page.id,
+  });
+};
+
 export default mockPage;
@@ -0,0 +1,23 @@
+import { UserExport } from '@domain/entities/UserExport';
+
+const mockUserExport = (): UserExport => {
+  return new UserExport({
+    id: '112233445566778899ddeeff',
+    userId: '112233445566778899aabbcc',
+    status: 'ready',
+    completedAt: new Date(),
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    createdAt: new Date(),
+  });
+};
+
+export const mockPendingUserExport = (): UserExport => {
+  return new UserExport({
+    ...mockUserExport(),
+    status: 'pending',
+    completedAt: null,
+    expiresAt: null,
+  });
+};
+
+export default mockUserExport;
@@ -5,6 +5,7 @@ const mockUser = (): User => {
     id: '112233445566778899aabbcc',
     name: 'sample-name',
     email: 'sample@email.com',
+    emailVerified: true,
     password: 'sample-password',
     isDarkMode: true,
     profilePicture: {
@@ -5,12 +5,16 @@ const mockWorkspace = (): Workspace => {
     id: '112233445566778899bbccaa',
     name: 'sample-workspace-name',
     icon: 'sample-icon-url',
-    members: ['112233445566778899aabbcc'],
+    members: [
+      { userId: '112233445566778899aabbcc', role: 'owner' },
+      { userId: '112233445566778899aabbdd', role: 'viewer' },
+    ],
     pages: [
       {
         id: 'sample-page-id-0',
         reference: 'sample-page-007',
-        path: null,
+        parentId: null,
+        position: 'V',
         icon: '1F3F9',
         title: 'sample page',
         createdAt: new Date(),
@@ -18,7 +22,8 @@ const mockWorkspace = (): Workspace => {
       {
         id: 'sample-page-id-1',
         reference: 'sample-page-123',
-        path: null,
+        parentId: null,
+        position: 'l',
         icon: '1F3F9',
         title: 'sample page',
         createdAt: new Date(),
@@ -26,7 +31,8 @@ const mockWorkspace = (): Workspace => {
       {
         id: 'sample-page-id-2',
         reference: 'sample-page-456',
-        path: ',sample-page-123.',
+        parentId: 'sample-page-id-1',
+        position: 'V',
         icon: '1F3F9',
         title: 'sample page',
         createdAt: new Date(),
@@ -34,7 +40,8 @@ const mockWorkspace = (): Workspace => {
       {
         id: 'sample-page-id-3',
         reference: 'sample-page-789',
-        path: ',sample-page-123.',
+        parentId: 'sample-page-id-1',
+        position: 'l',
         icon: '1F3F9',
         title: 'sample page',
         createdAt: new Date(),
@@ -42,7 +49,8 @@ const mockWorkspace = (): Workspace => {
       {
         id: 'sample-page-id-4',
         reference: 'sample-page-101',
-        path: ',sample-page-123,sample-page-789.',
+        parentId: 'sample-page-id-3',
+        position: 'V',
         icon: '1F3F9',
         title: 'sample page',
         createdAt: new Date(),
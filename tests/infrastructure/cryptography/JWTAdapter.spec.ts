@@ -0,0 +1,179 @@
+import { createPublicKey, generateKeyPairSync } from 'crypto';
+import jwt from 'jsonwebtoken';
+import { JWTAdapter, JWTKey } from '@infrastructure/cryptography/JWTAdapter';
+
+const makeKey = (
+  kid: string,
+  type: 'rsa' | 'ec' | 'ed25519' = 'ec'
+): JWTKey => {
+  const generateKeyPair = {
+    rsa: () => generateKeyPairSync('rsa', { modulusLength: 2048 }),
+    ec: () => generateKeyPairSync('ec', { namedCurve: 'P-256' }),
+    ed25519: () => generateKeyPairSync('ed25519'),
+  }[type];
+  const { privateKey } = generateKeyPair();
+
+  return {
+    kid,
+    privateKey: privateKey.export({ format: 'pem', type: 'pkcs8' }) as string,
+  };
+};
+
+// a retired key keeps only its public part
+const retireKey = ({ kid, privateKey }: JWTKey): JWTKey => ({
+  kid,
+  publicKey: createPublicKey(privateKey!).export({
+    format: 'pem',
+    type: 'spki',
+  }) as string,
+});
+
+describe('JWTAdapter', () => {
+  const currentKey = makeKey('current');
+  const previousKey = makeKey('previous', 'rsa');
+
+  it('should sign access tokens with the first private key', async () => {
+    const sut = new JWTAdapter([currentKey, retireKey(previousKey)]);
+
+    const accessToken = await sut.generateAccessToken('sample-user-id');
+    const { header } = jwt.decode(accessToken, { complete: true })!;
+
+    expect(header).toEqual(
+      expect.objectContaining({ kid: 'current', alg: 'ES256', typ: 'at+jwt' })
+    );
+  });
+
+  it('should verify access tokens it signed', async () => {
+    const sut = new JWTAdapter([currentKey]);
+
+    const accessToken = await sut.generateAccessToken('sample-user-id');
+    const payload = await sut.verifyAccessToken(accessToken);
+
+    expect(payload).toEqual(
+      expect.objectContaining({ userId: 'sample-user-id' })
+    );
+  });
+
+  it('should keep verifying tokens signed with a rotated out key', async () => {
+    const previousSut = new JWTAdapter([previousKey]);
+    const sut = new JWTAdapter([currentKey, retireKey(previousKey)]);
+
+    const refreshToken = await previousSut.generateRefreshToken(
+      'sample-user-id'
+    );
+
+    expect(await sut.verifyRefreshToken(refreshToken)).toEqual(
+      expect.objectContaining({ userId: 'sample-user-id' })
+    );
+  });
+
+  it('should return null for tokens signed with an unknown key', async () => {
+    const otherSut = new JWTAdapter([makeKey('current')]);
+    const sut = new JWTAdapter([currentKey]);
+
+    const accessToken = await otherSut.generateAccessToken('sample-user-id');
+
+    expect(await sut.verifyAccessToken(accessToken)).toBeNull();
+  });
+
+  it('should not accept a refresh token as an access token or the other way around', async () => {
+    const sut = new JWTAdapter([currentKey]);
+
+    const accessToken = await sut.generateAccessToken('sample-user-id');
+    const refreshToken = await sut.generateRefreshToken('sample-user-id');
+
+    expect(await sut.verifyAccessToken(refreshToken)).toBeNull();
+    expect(await sut.verifyRefreshToken(accessToken)).toBeNull();
+  });
+
+  it('should not accept a token signed with a symmetric algorithm', async () => {
+    const sut = new JWTAdapter([currentKey]);
+    const publicKeyPem = retireKey(currentKey).publicKey!;
+
+    const forgedToken = jwt.sign({ userId: 'sample-user-id' }, publicKeyPem, {
+      algorithm: 'HS256',
+      keyid: 'current',
+      header: { alg: 'HS256', typ: 'at+jwt' },
+    });
+
+    expect(await sut.verifyAccessToken(forgedToken)).toBeNull();
+  });
+
+  it('should publish only the public part of every key', async () => {
+    const sut = new JWTAdapter([currentKey, retireKey(previousKey)]);
+
+    const { keys } = await sut.getJsonWebKeySet();
+
+    expect(keys.map(({ kid, alg, use }) => ({ kid, alg, use }))).toEqual([
+      { kid: 'current', alg: 'ES256', use: 'sig' },
+      { kid: 'previous', alg: 'RS256', use: 'sig' },
+    ]);
+    keys.forEach(key => expect(key.d).toBeUndefined());
+  });
+
+  it('should sign and verify tokens with an Ed25519 key', async () => {
+    const sut = new JWTAdapter([makeKey('edwards', 'ed25519')]);
+
+    const accessToken = await sut.generateAccessToken('sample-user-id');
+    const refreshToken = await sut.generateRefreshToken('sample-user-id');
+    const { header } = jwt.decode(accessToken, { complete: true })!;
+
+    expect(header).toEqual(
+      expect.objectContaining({ kid: 'edwards', alg: 'EdDSA', typ: 'at+jwt' })
+    );
+    expect(await sut.verifyAccessToken(accessToken)).toEqual(
+      expect.objectContaining({ userId: 'sample-user-id' })
+    );
+    expect(await sut.verifyRefreshToken(refreshToken)).toEqual(
+      expect.objectContaining({ userId: 'sample-user-id' })
+    );
+    expect(await sut.verifyAccessToken(refreshToken)).toBeNull();
+  });
+
+  it('should not accept an Ed25519 token that was tampered with', async () => {
+    const sut = new JWTAdapter([makeKey('edwards', 'ed25519')]);
+
+    const accessToken = await sut.generateAccessToken('sample-user-id');
+    const [header, , signature] = accessToken.split('.');
+    const forgedPayload = Buffer.from(
+      JSON.stringify({
+        userId: 'another-user-id',
+        exp: Math.floor(Date.now() / 1000) + 60,
+      })
+    ).toString('base64url');
+
+    expect(
+      await sut.verifyAccessToken(`${header}.${forgedPayload}.${signature}`)
+    ).toBeNull();
+  });
+
+  it('should not accept an expired Ed25519 token', async () => {
+    const sut = new JWTAdapter([makeKey('edwards', 'ed25519')]);
+
+    const accessToken = await sut.generateAccessToken('sample-user-id');
+    jest.spyOn(Date, 'now').mockReturnValue(Date.now() + 16 * 60 * 1000);
+    const payload = await sut.verifyAccessToken(accessToken);
+    jest.restoreAllMocks();
+
+    expect(payload).toBeNull();
+  });
+
+  it('should publish Ed25519 keys for EdDSA', async () => {
+    const sut = new JWTAdapter([makeKey('edwards', 'ed25519')]);
+
+    const { keys } = await sut.getJsonWebKeySet();
+
+    expect(keys).toEqual([
+      expect.objectContaining({
+        kid: 'edwards',
+        kty: 'OKP',
+        crv: 'Ed25519',
+        alg: 'EdDSA',
+      }),
+    ]);
+  });
+
+  it('should throw if no key can sign', () => {
+    expect(() => new JWTAdapter([retireKey(currentKey)])).toThrow();
+  });
+});
@@ -0,0 +1,15 @@
+import { RandomTokenAdapter } from '@infrastructure/cryptography/RandomTokenAdapter';
+
+describe('RandomTokenAdapter', () => {
+  it('should return a hex token of the configured size in bytes', async () => {
+    const sut = new RandomTokenAdapter(32);
+
+    expect(await sut.generateToken()).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it('should return a different token on every call', async () => {
+    const sut = new RandomTokenAdapter(32);
+
+    expect(await sut.generateToken()).not.toBe(await sut.generateToken());
+  });
+});
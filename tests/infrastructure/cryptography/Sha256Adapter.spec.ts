@@ -0,0 +1,19 @@
+import { Sha256Adapter } from '@infrastructure/cryptography/Sha256Adapter';
+
+describe('Sha256Adapter', () => {
+  it('should return the hex sha-256 digest of the token', async () => {
+    const sut = new Sha256Adapter();
+
+    expect(await sut.hashToken('abc')).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad'
+    );
+  });
+
+  it('should return the same digest for the same token', async () => {
+    const sut = new Sha256Adapter();
+
+    expect(await sut.hashToken('sample-token')).toBe(
+      await sut.hashToken('sample-token')
+    );
+  });
+});
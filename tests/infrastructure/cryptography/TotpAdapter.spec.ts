@@ -0,0 +1,86 @@
+import { TotpAdapter } from '@infrastructure/cryptography/TotpAdapter';
+
+// the RFC 6238 SHA-1 seed, "12345678901234567890" in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+// RFC 6238 appendix B, trimmed to the 6 digits authenticator apps show
+const RFC_VECTORS: [number, string][] = [
+  [59, '287082'],
+  [1111111109, '081804'],
+  [1111111111, '050471'],
+  [1234567890, '005924'],
+  [2000000000, '279037'],
+  [20000000000, '353130'],
+];
+
+describe('TotpAdapter', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it.each(RFC_VECTORS)(
+    'should generate the RFC 6238 code at %i seconds',
+    async (seconds, code) => {
+      const sut = new TotpAdapter('sample-issuer');
+
+      expect(await sut.generateCode(RFC_SECRET, seconds * 1000)).toBe(code);
+    }
+  );
+
+  it('should verify a current code and return its time step', async () => {
+    const sut = new TotpAdapter('sample-issuer');
+    jest.spyOn(Date, 'now').mockReturnValue(1111111109 * 1000);
+
+    expect(await sut.verify(RFC_SECRET, '081804')).toBe(
+      Math.floor(1111111109 / 30)
+    );
+  });
+
+  it('should accept a code from the previous step within the window', async () => {
+    const sut = new TotpAdapter('sample-issuer');
+    jest.spyOn(Date, 'now').mockReturnValue((1111111109 + 30) * 1000);
+
+    expect(await sut.verify(RFC_SECRET, '081804')).toBe(
+      Math.floor(1111111109 / 30)
+    );
+  });
+
+  it('should refuse a code that drifted outside the window', async () => {
+    const sut = new TotpAdapter('sample-issuer');
+    jest.spyOn(Date, 'now').mockReturnValue((1111111109 + 60) * 1000);
+
+    expect(await sut.verify(RFC_SECRET, '081804')).toBeNull();
+  });
+
+  it('should refuse a code without a window', async () => {
+    const sut = new TotpAdapter('sample-issuer', 0);
+    jest.spyOn(Date, 'now').mockReturnValue((1111111109 + 30) * 1000);
+
+    expect(await sut.verify(RFC_SECRET, '081804')).toBeNull();
+  });
+
+  it('should refuse a code of the wrong length', async () => {
+    const sut = new TotpAdapter('sample-issuer');
+    jest.spyOn(Date, 'now').mockReturnValue(1111111109 * 1000);
+
+    expect(await sut.verify(RFC_SECRET, '81804')).toBeNull();
+  });
+
+  it('should generate secrets that produce verifiable codes', async () => {
+    const sut = new TotpAdapter('sample-issuer');
+
+    const secret = await sut.generateSecret();
+    const code = await sut.generateCode(secret);
+
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(await sut.verify(secret, code)).not.toBeNull();
+  });
+
+  it('should describe the secret in an otpauth uri', () => {
+    const sut = new TotpAdapter('Notion Clone');
+
+    expect(sut.generateUri(RFC_SECRET, 'sample@email.com')).toBe(
+      `otpauth://totp/Notion%20Clone%3Asample%40email.com?secret=${RFC_SECRET}&issuer=Notion%20Clone&algorithm=SHA1&digits=6&period=30`
+    );
+  });
+});
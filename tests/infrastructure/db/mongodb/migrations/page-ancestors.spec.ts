@@ -0,0 +1,123 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import env from '@main/config/env';
+import { objectIdToString } from '@infrastructure/db/mongodb/helpers/mapper';
+import { PageRepository } from '@infrastructure/db/mongodb/repositories/PageRepository';
+import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
+import { migratePageAncestors } from '@infrastructure/db/mongodb/migrations/page-ancestors';
+
+describe('PageAncestors migration', () => {
+  let pageCollection: Collection;
+  let workspaceCollection: Collection;
+
+  beforeAll(async () => {
+    await dbConnection.connect(env.mongoUrl);
+  });
+
+  afterAll(async () => {
+    await dbConnection.disconnect();
+  });
+
+  beforeEach(async () => {
+    pageCollection = await PageRepository.getCollection();
+    await pageCollection.deleteMany({});
+
+    workspaceCollection = await WorkspaceRepository.getCollection();
+    await workspaceCollection.deleteMany({});
+  });
+
+  it('should turn legacy paths into parent ids and ancestors', async () => {
+    const workspaceId = 'sample-workspace-id';
+    const { insertedIds } = await pageCollection.insertMany([
+      { workspaceId, reference: 'root-aaa', path: null },
+      { workspaceId, reference: 'child-bbb', path: ',root-aaa.' },
+      // the title part of the reference may be outdated after a rename
+      {
+        workspaceId,
+        reference: 'grandchild-ccc',
+        path: ',old-root-title-aaa,child-bbb.',
+      },
+    ]);
+    const [rootId, childId] = [0, 1].map(index =>
+      objectIdToString(insertedIds[index])
+    );
+
+    const migrated = await migratePageAncestors();
+    const rawPages = await pageCollection
+      .find()
+      .sort({ reference: -1 })
+      .toArray();
+
+    expect(migrated).toBe(3);
+    expect(rawPages.map(({ parentId }) => parentId)).toEqual([
+      null,
+      childId,
+      rootId,
+    ]);
+    expect(rawPages.map(({ ancestors }) => ancestors)).toEqual([
+      [],
+      [rootId, childId],
+      [rootId],
+    ]);
+    expect(rawPages.every(rawPage => rawPage.path === undefined)).toBe(true);
+  });
+
+  it('should point the workspace page metadata at the parent ids', async () => {
+    const workspaceId = 'sample-workspace-id';
+    const { insertedIds } = await pageCollection.insertMany([
+      { workspaceId, reference: 'root-aaa', path: null },
+      { workspaceId, reference: 'child-bbb', path: ',root-aaa.' },
+    ]);
+    const [rootId, childId] = [0, 1].map(index =>
+      objectIdToString(insertedIds[index])
+    );
+    const { insertedId } = await workspaceCollection.insertOne({
+      name: 'sample-workspace-name',
+      pages: [
+        { id: rootId, reference: 'root-aaa', path: null },
+        { id: childId, reference: 'child-bbb', path: ',root-aaa.' },
+      ],
+    });
+
+    await migratePageAncestors();
+    const rawWorkspace = await workspaceCollection.findOne({
+      _id: insertedId,
+    });
+
+    expect(rawWorkspace?.pages).toEqual([
+      { id: rootId, reference: 'root-aaa', parentId: null },
+      { id: childId, reference: 'child-bbb', parentId: rootId },
+    ]);
+  });
+
+  it('should leave migrated pages untouched', async () => {
+    const { insertedId } = await pageCollection.insertOne({
+      workspaceId: 'sample-workspace-id',
+      reference: 'child-bbb',
+      parentId: 'sample-parent-id',
+      ancestors: ['sample-parent-id'],
+    });
+
+    const migrated = await migratePageAncestors();
+    const rawPage = await pageCollection.findOne({ _id: insertedId });
+
+    expect(migrated).toBe(0);
+    expect(rawPage?.ancestors).toEqual(['sample-parent-id']);
+  });
+
+  it('should not read the pages once nothing is left to migrate', async () => {
+    await pageCollection.insertOne({
+      workspaceId: 'sample-workspace-id',
+      reference: 'root-aaa',
+      parentId: null,
+      ancestors: [],
+    });
+    const findSpy = jest.spyOn(Collection.prototype, 'find');
+
+    const migrated = await migratePageAncestors();
+
+    expect(migrated).toBe(0);
+    expect(findSpy).not.toHaveBeenCalled();
+    findSpy.mockRestore();
+  });
+});
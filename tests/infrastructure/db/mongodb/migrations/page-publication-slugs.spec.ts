@@ -0,0 +1,55 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import env from '@main/config/env';
+import { PageRepository } from '@infrastructure/db/mongodb/repositories/PageRepository';
+import { migratePagePublicationSlugs } from '@infrastructure/db/mongodb/migrations/page-publication-slugs';
+
+describe('PagePublicationSlugs migration', () => {
+  let pageCollection: Collection;
+
+  beforeAll(async () => {
+    await dbConnection.connect(env.mongoUrl);
+  });
+
+  afterAll(async () => {
+    await dbConnection.disconnect();
+  });
+
+  beforeEach(async () => {
+    pageCollection = await PageRepository.getCollection();
+    await pageCollection.deleteMany({});
+  });
+
+  it('should refuse a second page with the same public slug', async () => {
+    await migratePagePublicationSlugs();
+    await pageCollection.insertOne({
+      reference: 'first-aaa',
+      publication: { slug: 'sample-public-slug' },
+    });
+
+    await expect(
+      pageCollection.insertOne({
+        reference: 'second-bbb',
+        publication: { slug: 'sample-public-slug' },
+      })
+    ).rejects.toThrow(/duplicate key/);
+  });
+
+  it('should let any number of pages stay unpublished', async () => {
+    await migratePagePublicationSlugs();
+
+    await pageCollection.insertMany([
+      { reference: 'first-aaa' },
+      { reference: 'second-bbb', publication: null },
+      { reference: 'third-ccc' },
+    ]);
+
+    expect(await pageCollection.countDocuments()).toBe(3);
+  });
+
+  it('should be safe to run again', async () => {
+    await migratePagePublicationSlugs();
+
+    await expect(migratePagePublicationSlugs()).resolves.toBeUndefined();
+  });
+});
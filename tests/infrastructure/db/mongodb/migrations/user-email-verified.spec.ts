@@ -0,0 +1,47 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import env from '@main/config/env';
+import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+import { migrateUserEmailVerified } from '@infrastructure/db/mongodb/migrations/user-email-verified';
+
+describe('UserEmailVerified migration', () => {
+  let userCollection: Collection;
+
+  beforeAll(async () => {
+    await dbConnection.connect(env.mongoUrl);
+  });
+
+  afterAll(async () => {
+    await dbConnection.disconnect();
+  });
+
+  beforeEach(async () => {
+    userCollection = await UserRepository.getCollection();
+    await userCollection.deleteMany({});
+  });
+
+  it('should mark legacy users as verified', async () => {
+    const { insertedId } = await userCollection.insertOne({
+      email: 'legacy@email.com',
+    });
+
+    const migrated = await migrateUserEmailVerified();
+    const rawUser = await userCollection.findOne({ _id: insertedId });
+
+    expect(migrated).toBe(1);
+    expect(rawUser?.emailVerified).toBe(true);
+  });
+
+  it('should leave unverified users untouched', async () => {
+    const { insertedId } = await userCollection.insertOne({
+      email: 'new@email.com',
+      emailVerified: false,
+    });
+
+    const migrated = await migrateUserEmailVerified();
+    const rawUser = await userCollection.findOne({ _id: insertedId });
+
+    expect(migrated).toBe(0);
+    expect(rawUser?.emailVerified).toBe(false);
+  });
+});
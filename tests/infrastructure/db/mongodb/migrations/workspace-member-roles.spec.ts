@@ -0,0 +1,56 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import env from '@main/config/env';
+import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
+import { migrateWorkspaceMemberRoles } from '@infrastructure/db/mongodb/migrations/workspace-member-roles';
+
+describe('WorkspaceMemberRoles migration', () => {
+  let workspaceCollection: Collection;
+
+  beforeAll(async () => {
+    await dbConnection.connect(env.mongoUrl);
+  });
+
+  afterAll(async () => {
+    await dbConnection.disconnect();
+  });
+
+  beforeEach(async () => {
+    workspaceCollection = await WorkspaceRepository.getCollection();
+    await workspaceCollection.deleteMany({});
+  });
+
+  it('should turn legacy members into owner and editors', async () => {
+    const { insertedId } = await workspaceCollection.insertOne({
+      name: 'sample-workspace-name',
+      members: ['sample-creator-id', 'sample-member-id'],
+    });
+
+    const migrated = await migrateWorkspaceMemberRoles();
+    const rawWorkspace = await workspaceCollection.findOne({
+      _id: insertedId,
+    });
+
+    expect(migrated).toBe(1);
+    expect(rawWorkspace?.members).toEqual([
+      { userId: 'sample-creator-id', role: 'owner' },
+      { userId: 'sample-member-id', role: 'editor' },
+    ]);
+  });
+
+  it('should leave migrated workspaces untouched', async () => {
+    const members = [{ userId: 'sample-member-id', role: 'viewer' }];
+    const { insertedId } = await workspaceCollection.insertOne({
+      name: 'sample-workspace-name',
+      members,
+    });
+
+    const migrated = await migrateWorkspaceMemberRoles();
+    const rawWorkspace = await workspaceCollection.findOne({
+      _id: insertedId,
+    });
+
+    expect(migrated).toBe(0);
+    expect(rawWorkspace?.members).toEqual(members);
+  });
+});
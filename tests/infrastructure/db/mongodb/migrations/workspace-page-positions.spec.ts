@@ -0,0 +1,65 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import env from '@main/config/env';
+import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
+import { migrateWorkspacePagePositions } from '@infrastructure/db/mongodb/migrations/workspace-page-positions';
+
+describe('WorkspacePagePositions migration', () => {
+  let workspaceCollection: Collection;
+
+  beforeAll(async () => {
+    await dbConnection.connect(env.mongoUrl);
+  });
+
+  afterAll(async () => {
+    await dbConnection.disconnect();
+  });
+
+  beforeEach(async () => {
+    workspaceCollection = await WorkspaceRepository.getCollection();
+    await workspaceCollection.deleteMany({});
+  });
+
+  it('should position the pages in the order they were added', async () => {
+    const { insertedId } = await workspaceCollection.insertOne({
+      name: 'sample-workspace-name',
+      pages: [
+        { id: 'root-aaa', parentId: null },
+        { id: 'child-bbb', parentId: 'root-aaa' },
+        { id: 'root-ccc', parentId: null, position: 'V' },
+        { id: 'root-ddd', parentId: null },
+        { id: 'child-eee', parentId: 'root-aaa' },
+      ],
+    });
+
+    const migrated = await migrateWorkspacePagePositions();
+    const rawWorkspace = await workspaceCollection.findOne({
+      _id: insertedId,
+    });
+    const positions = Object.fromEntries(
+      rawWorkspace?.pages.map(
+        ({ id, position }: { id: string; position: string }) => [id, position]
+      )
+    );
+
+    expect(migrated).toBe(1);
+    // pages that already had a position keep it and the rest go below them
+    expect(positions['root-ccc']).toBe('V');
+    expect(
+      positions['root-ccc'] < positions['root-aaa'] &&
+        positions['root-aaa'] < positions['root-ddd']
+    ).toBe(true);
+    expect(positions['child-bbb'] < positions['child-eee']).toBe(true);
+  });
+
+  it('should leave positioned workspaces untouched', async () => {
+    await workspaceCollection.insertOne({
+      name: 'sample-workspace-name',
+      pages: [{ id: 'root-aaa', parentId: null, position: 'V' }],
+    });
+
+    const migrated = await migrateWorkspacePagePositions();
+
+    expect(migrated).toBe(0);
+  });
+});
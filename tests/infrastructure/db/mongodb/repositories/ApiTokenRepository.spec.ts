@@ -0,0 +1,153 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import env from '@main/config/env';
+import { ApiTokenRepository } from '@infrastructure/db/mongodb/repositories/ApiTokenRepository';
+
+const makeApiTokenData = () => ({
+  userId: 'sample-user-id',
+  name: 'sample-api-token-name',
+  tokenHash: 'sample-token-hash',
+  scopes: ['pages:read' as const],
+  workspaceId: null,
+  expiresAt: null,
+});
+
+describe('ApiToken Repository', () => {
+  let apiTokenCollection: Collection;
+
+  beforeAll(async () => {
+    await dbConnection.connect(env.mongoUrl);
+  });
+
+  afterAll(async () => {
+    await dbConnection.disconnect();
+  });
+
+  beforeEach(async () => {
+    apiTokenCollection = await ApiTokenRepository.getCollection();
+    await apiTokenCollection.deleteMany({});
+  });
+
+  describe('CreateApiToken', () => {
+    it('should store an unused API token', async () => {
+      const apiTokenRepository = new ApiTokenRepository();
+
+      const id = await apiTokenRepository.createApiToken(makeApiTokenData());
+      const apiToken = await apiTokenRepository.getApiTokenByHash(
+        'sample-token-hash'
+      );
+
+      expect(apiToken?.id).toBe(id);
+      expect(apiToken?.lastUsedAt).toBeNull();
+    });
+  });
+
+  describe('GetApiTokensByUserId', () => {
+    it('should return only the API tokens of the user', async () => {
+      const apiTokenRepository = new ApiTokenRepository();
+
+      await apiTokenRepository.createApiToken(makeApiTokenData());
+      await apiTokenRepository.createApiToken({
+        ...makeApiTokenData(),
+        userId: 'other-user-id',
+        tokenHash: 'other-token-hash',
+      });
+
+      const apiTokens = await apiTokenRepository.getApiTokensByUserId(
+        'sample-user-id'
+      );
+
+      expect(apiTokens).toHaveLength(1);
+      expect(apiTokens[0].name).toBe('sample-api-token-name');
+    });
+  });
+
+  describe('GetApiTokenByHash', () => {
+    it('should return null if no API token has the hash', async () => {
+      const apiTokenRepository = new ApiTokenRepository();
+
+      const apiToken = await apiTokenRepository.getApiTokenByHash(
+        'unknown-token-hash'
+      );
+
+      expect(apiToken).toBeNull();
+    });
+  });
+
+  describe('UpdateApiTokenLastUsedAt', () => {
+    it('should record when the API token was used', async () => {
+      const apiTokenRepository = new ApiTokenRepository();
+
+      const id = await apiTokenRepository.createApiToken(makeApiTokenData());
+      await apiTokenRepository.updateApiTokenLastUsedAt(id);
+      const apiToken = await apiTokenRepository.getApiTokenByHash(
+        'sample-token-hash'
+      );
+
+      expect(apiToken?.lastUsedAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('DeleteApiToken', () => {
+    it('should delete an API token of the user', async () => {
+      const apiTokenRepository = new ApiTokenRepository();
+
+      const apiTokenId = await apiTokenRepository.createApiToken(
+        makeApiTokenData()
+      );
+      const isDeleted = await apiTokenRepository.deleteApiToken({
+        userId: 'sample-user-id',
+        apiTokenId,
+      });
+
+      expect(isDeleted).toBe(true);
+      expect(await apiTokenCollection.countDocuments()).toBe(0);
+    });
+
+    it('should not delete an API token of another user', async () => {
+      const apiTokenRepository = new ApiTokenRepository();
+
+      const apiTokenId = await apiTokenRepository.createApiToken(
+        makeApiTokenData()
+      );
+      const isDeleted = await apiTokenRepository.deleteApiToken({
+        userId: 'other-user-id',
+        apiTokenId,
+      });
+
+      expect(isDeleted).toBe(false);
+      expect(await apiTokenCollection.countDocuments()).toBe(1);
+    });
+
+    it('should return false for a malformed id', async () => {
+      const apiTokenRepository = new ApiTokenRepository();
+
+      const isDeleted = await apiTokenRepository.deleteApiToken({
+        userId: 'sample-user-id',
+        apiTokenId: 'invalid-id',
+      });
+
+      expect(isDeleted).toBe(false);
+    });
+  });
+
+  describe('DeleteApiTokensByUserId', () => {
+    it('should delete only the API tokens of the user', async () => {
+      const apiTokenRepository = new ApiTokenRepository();
+
+      await apiTokenRepository.createApiToken(makeApiTokenData());
+      await apiTokenRepository.createApiToken({
+        ...makeApiTokenData(),
+        userId: 'other-user-id',
+        tokenHash: 'other-token-hash',
+      });
+
+      await apiTokenRepository.deleteApiTokensByUserId('sample-user-id');
+
+      expect(await apiTokenCollection.countDocuments()).toBe(1);
+      expect(
+        await apiTokenCollection.countDocuments({ userId: 'other-user-id' })
+      ).toBe(1);
+    });
+  });
+});
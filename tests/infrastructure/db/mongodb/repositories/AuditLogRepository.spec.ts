@@ -0,0 +1,214 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import env from '@main/config/env';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
+
+const makeEntryData = () => ({
+  action: 'workspace.update' as const,
+  actorId: 'sample-member-id',
+  targetType: 'workspace' as const,
+  targetId: 'sample-workspace-id',
+  workspaceId: 'sample-workspace-id',
+  ip: '127.0.0.1',
+});
+
+describe('AuditLog Repository', () => {
+  let auditLogCollection: Collection;
+
+  beforeAll(async () => {
+    await dbConnection.connect(env.mongoUrl);
+  });
+
+  afterAll(async () => {
+    await dbConnection.disconnect();
+  });
+
+  beforeEach(async () => {
+    auditLogCollection = await AuditLogRepository.getCollection();
+    await auditLogCollection.deleteMany({});
+  });
+
+  describe('CreateAuditLogEntry', () => {
+    it('should store the entry with its creation date', async () => {
+      const auditLogRepository = new AuditLogRepository();
+
+      await auditLogRepository.createAuditLogEntry(makeEntryData());
+      const entry = await auditLogCollection.findOne({});
+
+      expect(entry).toMatchObject(makeEntryData());
+      expect(entry?.createdAt).toBeInstanceOf(Date);
+    });
+
+    it('should store account level entries without a workspace', async () => {
+      const auditLogRepository = new AuditLogRepository();
+
+      await auditLogRepository.createAuditLogEntry({
+        action: 'user.sign_in',
+        actorId: 'sample-member-id',
+        targetType: 'user',
+        targetId: 'sample-member-id',
+      });
+      const entry = await auditLogCollection.findOne({});
+
+      expect(entry?.workspaceId).toBeNull();
+      expect(entry?.ip).toBeNull();
+    });
+  });
+
+  describe('GetAuditLogEntriesByWorkspaceId', () => {
+    const makeRequest = () => ({
+      workspaceId: 'sample-workspace-id',
+      limit: 10,
+    });
+
+    beforeEach(async () => {
+      const auditLogRepository = new AuditLogRepository();
+
+      await auditLogRepository.createAuditLogEntry({
+        action: 'user.sign_in',
+        actorId: 'sample-member-id',
+        targetType: 'user',
+        targetId: 'sample-member-id',
+      });
+      await auditLogRepository.createAuditLogEntry({
+        action: 'user.sign_in',
+        actorId: 'sample-stranger-id',
+        targetType: 'user',
+        targetId: 'sample-stranger-id',
+      });
+      await auditLogRepository.createAuditLogEntry({
+        ...makeEntryData(),
+        workspaceId: 'another-workspace-id',
+      });
+      await auditLogRepository.createAuditLogEntry(makeEntryData());
+    });
+
+    it('should return only the entries of the workspace, newest first', async () => {
+      const auditLogRepository = new AuditLogRepository();
+      await auditLogRepository.createAuditLogEntry({
+        ...makeEntryData(),
+        action: 'workspace.member_add',
+      });
+
+      const entries = await auditLogRepository.getAuditLogEntriesByWorkspaceId(
+        makeRequest()
+      );
+
+      expect(entries.map(entry => entry.action)).toEqual([
+        'workspace.member_add',
+        'workspace.update',
+      ]);
+      expect(entries[0].id).toEqual(expect.any(String));
+    });
+
+    it('should filter the entries by action and actor', async () => {
+      const auditLogRepository = new AuditLogRepository();
+
+      const entries = await auditLogRepository.getAuditLogEntriesByWorkspaceId({
+        ...makeRequest(),
+        action: 'workspace.update',
+        actorId: makeEntryData().actorId,
+      });
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0].action).toBe('workspace.update');
+    });
+
+    it('should filter the entries by date', async () => {
+      const auditLogRepository = new AuditLogRepository();
+
+      const entries = await auditLogRepository.getAuditLogEntriesByWorkspaceId({
+        ...makeRequest(),
+        from: new Date(Date.now() + 60 * 1000),
+      });
+
+      expect(entries).toEqual([]);
+    });
+
+    it('should continue after the cursor', async () => {
+      const auditLogRepository = new AuditLogRepository();
+      await auditLogRepository.createAuditLogEntry({
+        ...makeEntryData(),
+        action: 'workspace.member_add',
+      });
+
+      const [newest] = await auditLogRepository.getAuditLogEntriesByWorkspaceId(
+        {
+          ...makeRequest(),
+          limit: 1,
+        }
+      );
+      const entries = await auditLogRepository.getAuditLogEntriesByWorkspaceId({
+        ...makeRequest(),
+        cursor: newest.id,
+      });
+
+      expect(entries.map(entry => entry.action)).toEqual(['workspace.update']);
+    });
+  });
+
+  describe('GetAuditLogEntriesByUserId', () => {
+    const makeRequest = () => ({
+      userId: 'sample-member-id',
+      limit: 10,
+    });
+
+    beforeEach(async () => {
+      const auditLogRepository = new AuditLogRepository();
+
+      await auditLogRepository.createAuditLogEntry({
+        action: 'user.sign_in',
+        actorId: 'sample-member-id',
+        targetType: 'user',
+        targetId: 'sample-member-id',
+      });
+      await auditLogRepository.createAuditLogEntry({
+        action: 'user.sign_in',
+        actorId: 'sample-stranger-id',
+        targetType: 'user',
+        targetId: 'sample-stranger-id',
+      });
+      await auditLogRepository.createAuditLogEntry({
+        action: 'user.delete',
+        actorId: 'sample-admin-id',
+        targetType: 'user',
+        targetId: 'sample-member-id',
+      });
+      await auditLogRepository.createAuditLogEntry(makeEntryData());
+    });
+
+    it('should return the account level entries by or about the user', async () => {
+      const auditLogRepository = new AuditLogRepository();
+
+      const entries = await auditLogRepository.getAuditLogEntriesByUserId(
+        makeRequest()
+      );
+
+      expect(entries.map(entry => entry.action)).toEqual([
+        'user.delete',
+        'user.sign_in',
+      ]);
+    });
+
+    it('should return the deletion of a workspace the user owned', async () => {
+      const auditLogRepository = new AuditLogRepository();
+      await auditLogRepository.createAuditLogEntry({
+        ...makeEntryData(),
+        action: 'workspace.delete',
+        actorId: 'sample-owner-id',
+        ownerIds: ['sample-owner-id', 'sample-member-id'],
+      });
+
+      const entries = await auditLogRepository.getAuditLogEntriesByUserId({
+        ...makeRequest(),
+        action: 'workspace.delete',
+      });
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({
+        actorId: 'sample-owner-id',
+        workspaceId: 'sample-workspace-id',
+      });
+    });
+  });
+});
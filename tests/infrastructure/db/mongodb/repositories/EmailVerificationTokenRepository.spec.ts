@@ -0,0 +1,115 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import env from '@main/config/env';
+import { EmailVerificationTokenRepository } from '@infrastructure/db/mongodb/repositories/EmailVerificationTokenRepository';
+
+describe('Email Verification Token Repository', () => {
+  let emailVerificationTokenCollection: Collection;
+
+  beforeAll(async () => {
+    await dbConnection.connect(env.mongoUrl);
+  });
+
+  afterAll(async () => {
+    await dbConnection.disconnect();
+  });
+
+  beforeEach(async () => {
+    emailVerificationTokenCollection =
+      await EmailVerificationTokenRepository.getCollection();
+    await emailVerificationTokenCollection.deleteMany({});
+  });
+
+  describe('CreateEmailVerificationToken', () => {
+    it('should create an unused token and return an id on success', async () => {
+      const emailVerificationTokenRepository =
+        new EmailVerificationTokenRepository();
+
+      const response =
+        await emailVerificationTokenRepository.createEmailVerificationToken({
+          token: 'sample-verification-token',
+          userId: 'sample-user-id',
+          email: 'sample@email.com',
+          expiresAt: new Date(Date.now() + 60 * 1000),
+        });
+
+      const verificationToken = await emailVerificationTokenCollection.findOne(
+        {}
+      );
+
+      expect(response).toBeTruthy();
+      expect(verificationToken?.usedAt).toBeNull();
+    });
+  });
+
+  describe('ConsumeEmailVerificationToken', () => {
+    it('should return the token once and mark it as used', async () => {
+      const emailVerificationTokenRepository =
+        new EmailVerificationTokenRepository();
+
+      await emailVerificationTokenRepository.createEmailVerificationToken({
+        token: 'sample-verification-token',
+        userId: 'sample-user-id',
+        email: 'sample@email.com',
+        expiresAt: new Date(Date.now() + 60 * 1000),
+      });
+
+      const firstUse =
+        await emailVerificationTokenRepository.consumeEmailVerificationToken(
+          'sample-verification-token'
+        );
+      const secondUse =
+        await emailVerificationTokenRepository.consumeEmailVerificationToken(
+          'sample-verification-token'
+        );
+
+      expect(firstUse?.email).toBe('sample@email.com');
+      expect(firstUse?.usedAt).toBeTruthy();
+      expect(secondUse).toBeNull();
+    });
+
+    it('should return null if the token is unknown', async () => {
+      const emailVerificationTokenRepository =
+        new EmailVerificationTokenRepository();
+
+      const response =
+        await emailVerificationTokenRepository.consumeEmailVerificationToken(
+          'unknown-token'
+        );
+
+      expect(response).toBeNull();
+    });
+  });
+
+  describe('DeleteEmailVerificationTokensByUserId', () => {
+    it('should delete every token of the user', async () => {
+      const emailVerificationTokenRepository =
+        new EmailVerificationTokenRepository();
+      const expiresAt = new Date(Date.now() + 60 * 1000);
+
+      await emailVerificationTokenRepository.createEmailVerificationToken({
+        token: 'sample-verification-token',
+        userId: 'sample-user-id',
+        email: 'sample@email.com',
+        expiresAt,
+      });
+      await emailVerificationTokenRepository.createEmailVerificationToken({
+        token: 'other-verification-token',
+        userId: 'other-user-id',
+        email: 'other@email.com',
+        expiresAt,
+      });
+
+      await emailVerificationTokenRepository.deleteEmailVerificationTokensByUserId(
+        'sample-user-id'
+      );
+
+      const verificationTokens = await emailVerificationTokenCollection
+        .find({})
+        .toArray();
+
+      expect(verificationTokens).toHaveLength(1);
+      expect(verificationTokens[0].userId).toBe('other-user-id');
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import env from '@main/config/env';
+import { IdentityRepository } from '@infrastructure/db/mongodb/repositories/IdentityRepository';
+
+describe('Identity Repository', () => {
+  let identityCollection: Collection;
+
+  beforeAll(async () => {
+    await dbConnection.connect(env.mongoUrl);
+  });
+
+  afterAll(async () => {
+    await dbConnection.disconnect();
+  });
+
+  beforeEach(async () => {
+    identityCollection = await IdentityRepository.getCollection();
+    await identityCollection.deleteMany({});
+  });
+
+  describe('CreateIdentity', () => {
+    it('should create an identity and return an id', async () => {
+      const identityRepository = new IdentityRepository();
+
+      const response = await identityRepository.createIdentity({
+        provider: 'sample-provider',
+        subject: 'sample-subject',
+        userId: 'sample-user-id',
+      });
+
+      expect(response).toBeTruthy();
+    });
+  });
+
+  describe('GetIdentity', () => {
+    it('should return the identity of a provider and subject', async () => {
+      const identityRepository = new IdentityRepository();
+      await identityRepository.createIdentity({
+        provider: 'sample-provider',
+        subject: 'sample-subject',
+        userId: 'sample-user-id',
+      });
+
+      const identity = await identityRepository.getIdentity({
+        provider: 'sample-provider',
+        subject: 'sample-subject',
+      });
+
+      expect(identity?.userId).toBe('sample-user-id');
+    });
+
+    it('should not match the same subject at another provider', async () => {
+      const identityRepository = new IdentityRepository();
+      await identityRepository.createIdentity({
+        provider: 'sample-provider',
+        subject: 'sample-subject',
+        userId: 'sample-user-id',
+      });
+
+      const identity = await identityRepository.getIdentity({
+        provider: 'another-provider',
+        subject: 'sample-subject',
+      });
+
+      expect(identity).toBeNull();
+    });
+  });
+
+  describe('DeleteIdentitiesByUserId', () => {
+    it('should delete every identity of the user', async () => {
+      const identityRepository = new IdentityRepository();
+      await identityRepository.createIdentity({
+        provider: 'sample-provider',
+        subject: 'sample-subject',
+        userId: 'sample-user-id',
+      });
+      await identityRepository.createIdentity({
+        provider: 'another-provider',
+        subject: 'sample-subject',
+        userId: 'sample-user-id',
+      });
+
+      await identityRepository.deleteIdentitiesByUserId('sample-user-id');
+
+      expect(await identityCollection.countDocuments()).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,160 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import env from '@main/config/env';
+import { InvitationRepository } from '@infrastructure/db/mongodb/repositories/InvitationRepository';
+import mockInvitation from '@tests/domain/mock-invitation';
+
+describe('Invitation Repository', () => {
+  let invitationCollection: Collection;
+
+  beforeAll(async () => {
+    await dbConnection.connect(env.mongoUrl);
+  });
+
+  afterAll(async () => {
+    await dbConnection.disconnect();
+  });
+
+  beforeEach(async () => {
+    invitationCollection = await InvitationRepository.getCollection();
+    await invitationCollection.deleteMany({});
+  });
+
+  const makeInvitationData = () => {
+    const { workspaceId, workspaceName, email, role, invitedBy, expiresAt } =
+      mockInvitation();
+    return {
+      workspaceId,
+      workspaceName,
+      email,
+      role,
+      invitedBy,
+      token: 'sample-invitation-token',
+      expiresAt,
+    };
+  };
+
+  describe('CreateInvitation', () => {
+    it('should create a pending invitation and return an id on success', async () => {
+      const invitationRepository = new InvitationRepository();
+
+      const response = await invitationRepository.createInvitation(
+        makeInvitationData()
+      );
+
+      const invitation = await invitationCollection.findOne({});
+
+      expect(response).toBeTruthy();
+      expect(invitation?.status).toBe('pending');
+    });
+  });
+
+  describe('GetInvitationByToken', () => {
+    it('should return the invitation with the given token', async () => {
+      const invitationRepository = new InvitationRepository();
+
+      const id = await invitationRepository.createInvitation(
+        makeInvitationData()
+      );
+
+      const invitation = await invitationRepository.getInvitationByToken(
+        'sample-invitation-token'
+      );
+
+      expect(invitation?.id).toBe(id);
+    });
+
+    it('should return null if the token is unknown', async () => {
+      const invitationRepository = new InvitationRepository();
+
+      const invitation = await invitationRepository.getInvitationByToken(
+        'unknown-token'
+      );
+
+      expect(invitation).toBeNull();
+    });
+  });
+
+  describe('GetPendingInvitationsByEmail', () => {
+    it('should only return pending invitations that have not expired', async () => {
+      const invitationRepository = new InvitationRepository();
+
+      await invitationRepository.createInvitation(makeInvitationData());
+      await invitationRepository.createInvitation({
+        ...makeInvitationData(),
+        token: 'expired-token',
+        expiresAt: new Date(Date.now() - 1000),
+      });
+      const declinedId = await invitationRepository.createInvitation({
+        ...makeInvitationData(),
+        token: 'declined-token',
+      });
+      await invitationRepository.updateInvitationStatus({
+        invitationId: declinedId,
+        status: 'declined',
+      });
+
+      const invitations =
+        await invitationRepository.getPendingInvitationsByEmail(
+          mockInvitation().email
+        );
+
+      expect(invitations).toHaveLength(1);
+      expect(invitations[0].token).toBe('sample-invitation-token');
+    });
+  });
+
+  describe('UpdateInvitationStatus', () => {
+    it('should update the invitation status', async () => {
+      const invitationRepository = new InvitationRepository();
+
+      const id = await invitationRepository.createInvitation(
+        makeInvitationData()
+      );
+
+      await invitationRepository.updateInvitationStatus({
+        invitationId: id,
+        status: 'accepted',
+      });
+
+      const invitation = await invitationRepository.getInvitationByToken(
+        'sample-invitation-token'
+      );
+
+      expect(invitation?.status).toBe('accepted');
+      expect(invitation?.updatedAt).toBeTruthy();
+    });
+  });
+
+  describe('DeletePendingInvitationsByEmail', () => {
+    it('should delete the pending invitations of the email only', async () => {
+      const invitationRepository = new InvitationRepository();
+
+      await invitationRepository.createInvitation(makeInvitationData());
+      const acceptedId = await invitationRepository.createInvitation({
+        ...makeInvitationData(),
+        token: 'accepted-invitation-token',
+      });
+      await invitationRepository.updateInvitationStatus({
+        invitationId: acceptedId,
+        status: 'accepted',
+      });
+      await invitationRepository.createInvitation({
+        ...makeInvitationData(),
+        email: 'other@email.com',
+        token: 'other-invitation-token',
+      });
+
+      await invitationRepository.deletePendingInvitationsByEmail(
+        mockInvitation().email
+      );
+
+      const invitations = await invitationCollection.find({}).toArray();
+
+      expect(invitations.map(({ token }) => token).sort()).toEqual([
+        'accepted-invitation-token',
+        'other-invitation-token',
+      ]);
+    });
+  });
+});
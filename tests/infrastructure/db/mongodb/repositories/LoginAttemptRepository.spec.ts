@@ -0,0 +1,107 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import env from '@main/config/env';
+import { LoginAttemptRepository } from '@infrastructure/db/mongodb/repositories/LoginAttemptRepository';
+
+describe('Login Attempt Repository', () => {
+  let loginAttemptCollection: Collection;
+
+  beforeAll(async () => {
+    await dbConnection.connect(env.mongoUrl);
+  });
+
+  afterAll(async () => {
+    await dbConnection.disconnect();
+  });
+
+  beforeEach(async () => {
+    loginAttemptCollection = await LoginAttemptRepository.getCollection();
+    await loginAttemptCollection.deleteMany({});
+  });
+
+  const inFifteenMinutes = () => new Date(Date.now() + 15 * 60 * 1000);
+
+  describe('RecordFailedLogin', () => {
+    it('should count the failures of a key', async () => {
+      const loginAttemptRepository = new LoginAttemptRepository();
+
+      await loginAttemptRepository.recordFailedLogin({
+        key: 'email:any@email.com',
+        expiresAt: inFifteenMinutes(),
+      });
+      await loginAttemptRepository.recordFailedLogin({
+        key: 'email:any@email.com',
+        expiresAt: inFifteenMinutes(),
+      });
+
+      const [attempt] = await loginAttemptRepository.getLoginAttempts([
+        'email:any@email.com',
+      ]);
+
+      expect(attempt.failures).toBe(2);
+      expect(attempt.lastFailureAt).toBeInstanceOf(Date);
+    });
+
+    it('should start counting again after the window expired', async () => {
+      const loginAttemptRepository = new LoginAttemptRepository();
+
+      await loginAttemptRepository.recordFailedLogin({
+        key: 'email:any@email.com',
+        expiresAt: new Date(Date.now() - 1000),
+      });
+      await loginAttemptRepository.recordFailedLogin({
+        key: 'email:any@email.com',
+        expiresAt: inFifteenMinutes(),
+      });
+
+      const [attempt] = await loginAttemptRepository.getLoginAttempts([
+        'email:any@email.com',
+      ]);
+
+      expect(attempt.failures).toBe(1);
+    });
+  });
+
+  describe('GetLoginAttempts', () => {
+    it('should only return the given keys that have not expired', async () => {
+      const loginAttemptRepository = new LoginAttemptRepository();
+
+      await loginAttemptRepository.recordFailedLogin({
+        key: 'email:any@email.com',
+        expiresAt: inFifteenMinutes(),
+      });
+      await loginAttemptRepository.recordFailedLogin({
+        key: 'ip:127.0.0.1',
+        expiresAt: new Date(Date.now() - 1000),
+      });
+      await loginAttemptRepository.recordFailedLogin({
+        key: 'email:another@email.com',
+        expiresAt: inFifteenMinutes(),
+      });
+
+      const attempts = await loginAttemptRepository.getLoginAttempts([
+        'email:any@email.com',
+        'ip:127.0.0.1',
+      ]);
+
+      expect(attempts.length).toBe(1);
+      expect(attempts[0].key).toBe('email:any@email.com');
+    });
+  });
+
+  describe('ClearLoginAttempts', () => {
+    it('should remove the failures of a key', async () => {
+      const loginAttemptRepository = new LoginAttemptRepository();
+
+      await loginAttemptRepository.recordFailedLogin({
+        key: 'email:any@email.com',
+        expiresAt: inFifteenMinutes(),
+      });
+      await loginAttemptRepository.clearLoginAttempts('email:any@email.com');
+
+      const count = await loginAttemptCollection.countDocuments();
+
+      expect(count).toBe(0);
+    });
+  });
+});
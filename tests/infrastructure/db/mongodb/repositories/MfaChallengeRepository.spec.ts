@@ -0,0 +1,86 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import env from '@main/config/env';
+import { MfaChallengeRepository } from '@infrastructure/db/mongodb/repositories/MfaChallengeRepository';
+
+describe('Mfa Challenge Repository', () => {
+  let mfaChallengeCollection: Collection;
+
+  beforeAll(async () => {
+    await dbConnection.connect(env.mongoUrl);
+  });
+
+  afterAll(async () => {
+    await dbConnection.disconnect();
+  });
+
+  beforeEach(async () => {
+    mfaChallengeCollection = await MfaChallengeRepository.getCollection();
+    await mfaChallengeCollection.deleteMany({});
+  });
+
+  describe('CreateMfaChallenge', () => {
+    it('should create a challenge without attempts and return an id', async () => {
+      const mfaChallengeRepository = new MfaChallengeRepository();
+
+      const response = await mfaChallengeRepository.createMfaChallenge({
+        token: 'sample-mfa-token',
+        userId: 'sample-user-id',
+        expiresAt: new Date(Date.now() + 60 * 1000),
+      });
+
+      const challenge = await mfaChallengeCollection.findOne({});
+
+      expect(response).toBeTruthy();
+      expect(challenge?.attempts).toBe(0);
+    });
+  });
+
+  describe('AttemptMfaChallenge', () => {
+    it('should count every attempt', async () => {
+      const mfaChallengeRepository = new MfaChallengeRepository();
+
+      await mfaChallengeRepository.createMfaChallenge({
+        token: 'sample-mfa-token',
+        userId: 'sample-user-id',
+        expiresAt: new Date(Date.now() + 60 * 1000),
+      });
+
+      await mfaChallengeRepository.attemptMfaChallenge('sample-mfa-token');
+      const challenge = await mfaChallengeRepository.attemptMfaChallenge(
+        'sample-mfa-token'
+      );
+
+      expect(challenge?.userId).toBe('sample-user-id');
+      expect(challenge?.attempts).toBe(2);
+    });
+
+    it('should return null if the token is unknown', async () => {
+      const mfaChallengeRepository = new MfaChallengeRepository();
+
+      const challenge = await mfaChallengeRepository.attemptMfaChallenge(
+        'unknown-token'
+      );
+
+      expect(challenge).toBeNull();
+    });
+  });
+
+  describe('DeleteMfaChallenge', () => {
+    it('should delete the challenge', async () => {
+      const mfaChallengeRepository = new MfaChallengeRepository();
+
+      await mfaChallengeRepository.createMfaChallenge({
+        token: 'sample-mfa-token',
+        userId: 'sample-user-id',
+        expiresAt: new Date(Date.now() + 60 * 1000),
+      });
+
+      await mfaChallengeRepository.deleteMfaChallenge('sample-mfa-token');
+
+      const count = await mfaChallengeCollection.countDocuments();
+
+      expect(count).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import env from '@main/config/env';
+import { MfaRepository } from '@infrastructure/db/mongodb/repositories/MfaRepository';
+
+describe('Mfa Repository', () => {
+  let mfaCollection: Collection;
+
+  beforeAll(async () => {
+    await dbConnection.connect(env.mongoUrl);
+  });
+
+  afterAll(async () => {
+    await dbConnection.disconnect();
+  });
+
+  beforeEach(async () => {
+    mfaCollection = await MfaRepository.getCollection();
+    await mfaCollection.deleteMany({});
+  });
+
+  describe('CreateMfa', () => {
+    it('should store a disabled secret for the user', async () => {
+      const mfaRepository = new MfaRepository();
+
+      await mfaRepository.createMfa({
+        userId: 'sample-user-id',
+        secret: 'SAMPLESECRET',
+      });
+
+      const mfa = await mfaRepository.getMfaByUserId('sample-user-id');
+
+      expect(mfa?.secret).toBe('SAMPLESECRET');
+      expect(mfa?.enabled).toBe(false);
+    });
+
+    it('should replace a previous enrollment of the user', async () => {
+      const mfaRepository = new MfaRepository();
+
+      await mfaRepository.createMfa({
+        userId: 'sample-user-id',
+        secret: 'SAMPLESECRET',
+      });
+      await mfaRepository.createMfa({
+        userId: 'sample-user-id',
+        secret: 'ANOTHERSECRET',
+      });
+
+      const count = await mfaCollection.countDocuments();
+      const mfa = await mfaRepository.getMfaByUserId('sample-user-id');
+
+      expect(count).toBe(1);
+      expect(mfa?.secret).toBe('ANOTHERSECRET');
+    });
+  });
+
+  describe('GetMfaByUserId', () => {
+    it('should return null if the user never enrolled', async () => {
+      const mfaRepository = new MfaRepository();
+
+      const mfa = await mfaRepository.getMfaByUserId('sample-user-id');
+
+      expect(mfa).toBeNull();
+    });
+  });
+
+  describe('EnableMfa', () => {
+    it('should enable two-factor with the given recovery codes', async () => {
+      const mfaRepository = new MfaRepository();
+
+      await mfaRepository.createMfa({
+        userId: 'sample-user-id',
+        secret: 'SAMPLESECRET',
+      });
+      await mfaRepository.enableMfa({
+        userId: 'sample-user-id',
+        recoveryCodes: ['hashed-recovery-code'],
+      });
+
+      const mfa = await mfaRepository.getMfaByUserId('sample-user-id');
+
+      expect(mfa?.enabled).toBe(true);
+      expect(mfa?.recoveryCodes).toEqual(['hashed-recovery-code']);
+    });
+  });
+
+  describe('UseMfaTimeStep', () => {
+    it('should only accept time steps after the last used one', async () => {
+      const mfaRepository = new MfaRepository();
+
+      await mfaRepository.createMfa({
+        userId: 'sample-user-id',
+        secret: 'SAMPLESECRET',
+      });
+
+      const first = await mfaRepository.useMfaTimeStep({
+        userId: 'sample-user-id',
+        timeStep: 10,
+      });
+      const replayed = await mfaRepository.useMfaTimeStep({
+        userId: 'sample-user-id',
+        timeStep: 10,
+      });
+      const earlier = await mfaRepository.useMfaTimeStep({
+        userId: 'sample-user-id',
+        timeStep: 9,
+      });
+      const later = await mfaRepository.useMfaTimeStep({
+        userId: 'sample-user-id',
+        timeStep: 11,
+      });
+
+      expect(first).toBe(true);
+      expect(replayed).toBe(false);
+      expect(earlier).toBe(false);
+      expect(later).toBe(true);
+    });
+  });
+
+  describe('RemoveRecoveryCode', () => {
+    it('should remove a recovery code only once', async () => {
+      const mfaRepository = new MfaRepository();
+
+      await mfaRepository.createMfa({
+        userId: 'sample-user-id',
+        secret: 'SAMPLESECRET',
+      });
+      await mfaRepository.enableMfa({
+        userId: 'sample-user-id',
+        recoveryCodes: ['hashed-recovery-code-1', 'hashed-recovery-code-2'],
+      });
+
+      const first = await mfaRepository.removeRecoveryCode({
+        userId: 'sample-user-id',
+        recoveryCode: 'hashed-recovery-code-1',
+      });
+      const second = await mfaRepository.removeRecoveryCode({
+        userId: 'sample-user-id',
+        recoveryCode: 'hashed-recovery-code-1',
+      });
+
+      const mfa = await mfaRepository.getMfaByUserId('sample-user-id');
+
+      expect(first).toBe(true);
+      expect(second).toBe(false);
+      expect(mfa?.recoveryCodes).toEqual(['hashed-recovery-code-2']);
+    });
+  });
+
+  describe('DeleteMfaByUserId', () => {
+    it('should delete the two-factor setup of the user', async () => {
+      const mfaRepository = new MfaRepository();
+
+      await mfaRepository.createMfa({
+        userId: 'sample-user-id',
+        secret: 'SAMPLESECRET',
+      });
+
+      await mfaRepository.deleteMfaByUserId('sample-user-id');
+
+      expect(await mfaRepository.getMfaByUserId('sample-user-id')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import env from '@main/config/env';
+import { OidcStateRepository } from '@infrastructure/db/mongodb/repositories/OidcStateRepository';
+
+describe('Oidc State Repository', () => {
+  let oidcStateCollection: Collection;
+
+  beforeAll(async () => {
+    await dbConnection.connect(env.mongoUrl);
+  });
+
+  afterAll(async () => {
+    await dbConnection.disconnect();
+  });
+
+  beforeEach(async () => {
+    oidcStateCollection = await OidcStateRepository.getCollection();
+    await oidcStateCollection.deleteMany({});
+  });
+
+  const makeStateData = () => ({
+    state: 'sample-state',
+    provider: 'sample-provider',
+    nonce: 'sample-nonce',
+    codeVerifier: 'sample-code-verifier',
+    expiresAt: new Date(Date.now() + 10 * 60 * 1000),
+  });
+
+  describe('CreateOidcState', () => {
+    it('should create a state and return an id', async () => {
+      const oidcStateRepository = new OidcStateRepository();
+
+      const response = await oidcStateRepository.createOidcState(
+        makeStateData()
+      );
+
+      const count = await oidcStateCollection.countDocuments();
+
+      expect(response).toBeTruthy();
+      expect(count).toBe(1);
+    });
+  });
+
+  describe('ConsumeOidcState', () => {
+    it('should return the state only once', async () => {
+      const oidcStateRepository = new OidcStateRepository();
+      await oidcStateRepository.createOidcState(makeStateData());
+
+      const first = await oidcStateRepository.consumeOidcState('sample-state');
+      const second = await oidcStateRepository.consumeOidcState('sample-state');
+
+      expect(first?.codeVerifier).toBe('sample-code-verifier');
+      expect(second).toBeNull();
+    });
+  });
+});
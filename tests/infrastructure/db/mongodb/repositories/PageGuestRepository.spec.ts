@@ -0,0 +1,161 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import env from '@main/config/env';
+import { PageGuestRepository } from '@infrastructure/db/mongodb/repositories/PageGuestRepository';
+
+const makePageGuestData = () => ({
+  pageId: 'sample-page-id',
+  workspaceId: 'sample-workspace-id',
+  userId: 'sample-guest-id',
+  role: 'viewer' as const,
+  grantedBy: 'sample-user-id',
+});
+
+describe('PageGuest Repository', () => {
+  let pageGuestCollection: Collection;
+
+  beforeAll(async () => {
+    await dbConnection.connect(env.mongoUrl);
+  });
+
+  afterAll(async () => {
+    await dbConnection.disconnect();
+  });
+
+  beforeEach(async () => {
+    pageGuestCollection = await PageGuestRepository.getCollection();
+    await pageGuestCollection.deleteMany({});
+  });
+
+  describe('AddPageGuest', () => {
+    it('should add a guest to the page', async () => {
+      const pageGuestRepository = new PageGuestRepository();
+
+      await pageGuestRepository.addPageGuest(makePageGuestData());
+      const pageGuests = await pageGuestRepository.getPageGuestsByPageId(
+        'sample-page-id'
+      );
+
+      expect(pageGuests).toHaveLength(1);
+      expect(pageGuests[0]).toMatchObject(makePageGuestData());
+    });
+
+    it('should only update the role if the guest already exists', async () => {
+      const pageGuestRepository = new PageGuestRepository();
+
+      await pageGuestRepository.addPageGuest(makePageGuestData());
+      await pageGuestRepository.addPageGuest({
+        ...makePageGuestData(),
+        role: 'editor',
+      });
+      const pageGuests = await pageGuestRepository.getPageGuestsByPageId(
+        'sample-page-id'
+      );
+
+      expect(pageGuests).toHaveLength(1);
+      expect(pageGuests[0].role).toBe('editor');
+    });
+  });
+
+  describe('GetPageGuestsByUserId', () => {
+    it('should return only the grants of the user', async () => {
+      const pageGuestRepository = new PageGuestRepository();
+
+      await pageGuestRepository.addPageGuest(makePageGuestData());
+      await pageGuestRepository.addPageGuest({
+        ...makePageGuestData(),
+        userId: 'other-guest-id',
+      });
+
+      const pageGuests = await pageGuestRepository.getPageGuestsByUserId(
+        'sample-guest-id'
+      );
+
+      expect(pageGuests).toHaveLength(1);
+      expect(pageGuests[0].userId).toBe('sample-guest-id');
+    });
+  });
+
+  describe('RemovePageGuest', () => {
+    it('should return true if the guest was removed', async () => {
+      const pageGuestRepository = new PageGuestRepository();
+
+      await pageGuestRepository.addPageGuest(makePageGuestData());
+      const response = await pageGuestRepository.removePageGuest({
+        pageId: 'sample-page-id',
+        userId: 'sample-guest-id',
+      });
+
+      expect(response).toBe(true);
+    });
+
+    it('should return false if the user is not a guest of the page', async () => {
+      const pageGuestRepository = new PageGuestRepository();
+
+      const response = await pageGuestRepository.removePageGuest({
+        pageId: 'sample-page-id',
+        userId: 'sample-guest-id',
+      });
+
+      expect(response).toBe(false);
+    });
+  });
+
+  describe('DeletePageGuestsByUserId', () => {
+    it('should delete every grant of the user', async () => {
+      const pageGuestRepository = new PageGuestRepository();
+
+      await pageGuestRepository.addPageGuest(makePageGuestData());
+      await pageGuestRepository.addPageGuest({
+        ...makePageGuestData(),
+        pageId: 'another-page-id',
+      });
+      await pageGuestRepository.addPageGuest({
+        ...makePageGuestData(),
+        userId: 'other-guest-id',
+      });
+
+      await pageGuestRepository.deletePageGuestsByUserId('sample-guest-id');
+
+      const pageGuests = await pageGuestRepository.getPageGuestsByUserId(
+        'sample-guest-id'
+      );
+
+      expect(pageGuests).toHaveLength(0);
+      expect(await pageGuestCollection.countDocuments()).toBe(1);
+    });
+  });
+
+  describe('MovePageGuests', () => {
+    it('should move the grants of the given pages to the workspace', async () => {
+      const pageGuestRepository = new PageGuestRepository();
+
+      await pageGuestRepository.addPageGuest(makePageGuestData());
+      await pageGuestRepository.addPageGuest({
+        ...makePageGuestData(),
+        pageId: 'another-page-id',
+      });
+
+      await pageGuestRepository.movePageGuests({
+        pageIds: ['sample-page-id'],
+        workspaceId: 'sample-target-workspace-id',
+      });
+
+      const pageGuests = await pageGuestRepository.getPageGuestsByUserId(
+        'sample-guest-id'
+      );
+
+      expect(
+        pageGuests.map(({ pageId, workspaceId }) => ({ pageId, workspaceId }))
+      ).toEqual(
+        expect.arrayContaining([
+          {
+            pageId: 'sample-page-id',
+            workspaceId: 'sample-target-workspace-id',
+          },
+          { pageId: 'another-page-id', workspaceId: 'sample-workspace-id' },
+        ])
+      );
+    });
+  });
+});
@@ -32,7 +32,8 @@ describe('Page Repository', () => {
         content,
         favorite,
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
       } = mockPage();
 
@@ -43,7 +44,8 @@ describe('Page Repository', () => {
         content,
         favorite,
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
       });
 
@@ -65,7 +67,8 @@ describe('Page Repository', () => {
         content,
         favorite,
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
         reference,
       } = mockPage();
@@ -77,7 +80,8 @@ describe('Page Repository', () => {
         content,
         favorite,
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
         reference,
       });
@@ -104,7 +108,8 @@ describe('Page Repository', () => {
         content,
         favorite,
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
         reference,
       } = mockPage();
@@ -116,7 +121,8 @@ describe('Page Repository', () => {
         content,
         favorite,
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
         reference,
       });
@@ -158,7 +164,8 @@ describe('Page Repository', () => {
         content,
         favorite,
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
         reference,
       } = mockPage();
@@ -170,7 +177,8 @@ describe('Page Repository', () => {
         content,
         favorite,
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
         reference,
       });
@@ -214,7 +222,8 @@ describe('Page Repository', () => {
         content,
         favorite,
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
         reference,
       } = mockPage();
@@ -226,7 +235,8 @@ describe('Page Repository', () => {
         content,
         favorite,
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
         reference,
       });
@@ -259,56 +269,146 @@ describe('Page Repository', () => {
     });
   });
 
-  describe('GetPageIdsByPath', () => {
-    it('should return all pageIds by path', async () => {
+  describe('Publication', () => {
+    it('should find a published page by its slug until it is unpublished', async () => {
       const pageRepository = new PageRepository();
+      const { insertedId } = await pageCollection.insertOne({
+        ...mockPage(),
+        id: undefined,
+      });
+      const pageId = objectIdToString(insertedId);
+
+      await pageRepository.updatePagePublicationByPageId({
+        pageId,
+        publication: {
+          slug: 'sample-public-slug',
+          includeChildren: false,
+          allowIndexing: false,
+          expiresAt: null,
+          publishedAt: new Date(),
+        },
+      });
+      const publishedPage = await pageRepository.getPageByPublicSlug(
+        'sample-public-slug'
+      );
 
-      const {
-        title,
-        icon,
-        coverPicture,
-        content,
-        favorite,
-        pageSettings,
-        path,
-        workspaceId,
-        reference,
-      } = mockPage();
+      expect(publishedPage?.id).toBe(pageId);
 
-      await pageCollection.insertOne({
-        title,
-        icon,
-        coverPicture,
-        content,
-        favorite,
-        pageSettings,
-        path,
-        workspaceId,
-        reference,
+      await pageRepository.updatePagePublicationByPageId({
+        pageId,
+        publication: null,
       });
+      const unpublishedPage = await pageRepository.getPageByPublicSlug(
+        'sample-public-slug'
+      );
 
-      await pageCollection.insertOne({
-        title: 'new title',
-        icon,
-        coverPicture,
-        content,
-        favorite,
-        pageSettings,
-        path,
-        workspaceId,
-        reference: 'new-title-1234',
-      });
+      expect(unpublishedPage).toBeNull();
+    });
+  });
 
-      const pageIds = await pageRepository.getPageIdsByPath(path!);
+  describe('GetDescendantsByPageId', () => {
+    it('should return the children and deeper descendants of the page', async () => {
+      const pageRepository = new PageRepository();
+      const { workspaceId } = mockPage();
+
+      await pageCollection.insertMany([
+        {
+          workspaceId,
+          reference: 'sample-child',
+          parentId: 'sample-root-id',
+          ancestors: ['sample-root-id'],
+        },
+        {
+          workspaceId,
+          reference: 'sample-grandchild',
+          parentId: 'sample-child-id',
+          ancestors: ['sample-root-id', 'sample-child-id'],
+        },
+        {
+          workspaceId,
+          reference: 'sample-other',
+          parentId: 'sample-root-2-id',
+          ancestors: ['sample-root-2-id'],
+        },
+      ]);
+
+      const descendants = await pageRepository.getDescendantsByPageId(
+        'sample-root-id'
+      );
 
-      expect(pageIds).toHaveLength(2);
+      expect(descendants.map(page => page.reference).sort()).toEqual([
+        'sample-child',
+        'sample-grandchild',
+      ]);
     });
 
-    it(`should return empty array if page ids doesn't exist`, async () => {
+    it('should not return descendants that are in the trash', async () => {
       const pageRepository = new PageRepository();
-      const response = await pageRepository.getPageIdsByPath('invalid-path');
+      const { workspaceId } = mockPage();
+
+      await pageCollection.insertMany([
+        {
+          workspaceId,
+          reference: 'sample-child',
+          parentId: 'sample-root-id',
+          ancestors: ['sample-root-id'],
+        },
+        {
+          workspaceId,
+          reference: 'sample-trashed',
+          parentId: 'sample-root-id',
+          ancestors: ['sample-root-id'],
+          trashedAt: new Date(),
+          trashedWithPageId: 'sample-trashed-id',
+        },
+      ]);
+
+      const descendants = await pageRepository.getDescendantsByPageId(
+        'sample-root-id'
+      );
+
+      expect(descendants.map(page => page.reference)).toEqual(['sample-child']);
+    });
+  });
+
+  describe('GetTrashedDescendantsByPageId', () => {
+    it('should only return the descendants that are in the trash', async () => {
+      const pageRepository = new PageRepository();
+      const { workspaceId } = mockPage();
+
+      await pageCollection.insertMany([
+        {
+          workspaceId,
+          reference: 'sample-child',
+          parentId: 'sample-root-id',
+          ancestors: ['sample-root-id'],
+          trashedAt: null,
+        },
+        {
+          workspaceId,
+          reference: 'sample-trashed',
+          parentId: 'sample-root-id',
+          ancestors: ['sample-root-id'],
+          trashedAt: new Date(),
+          trashedWithPageId: 'sample-trashed-id',
+        },
+        {
+          workspaceId,
+          reference: 'sample-other-trashed',
+          parentId: 'sample-root-2-id',
+          ancestors: ['sample-root-2-id'],
+          trashedAt: new Date(),
+          trashedWithPageId: 'sample-other-trashed-id',
+        },
+      ]);
+
+      const descendants = await pageRepository.getTrashedDescendantsByPageId(
+        'sample-root-id'
+      );
 
-      expect(response).toHaveLength(0);
+      expect(descendants.map(page => page.reference)).toEqual([
+        'sample-trashed',
+      ]);
     });
   });
 
@@ -323,7 +423,8 @@ describe('Page Repository', () => {
         content,
         favorite,
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
         reference,
       } = mockPage();
@@ -335,7 +436,8 @@ describe('Page Repository', () => {
         content,
         favorite,
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
         reference,
       });
@@ -383,7 +485,8 @@ describe('Page Repository', () => {
         content,
         favorite,
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
         reference,
       } = mockPage();
@@ -395,7 +498,8 @@ describe('Page Repository', () => {
         content,
         favorite,
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
         reference,
       });
@@ -424,7 +528,8 @@ describe('Page Repository', () => {
         content,
         favorite,
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
         reference,
       } = mockPage();
@@ -436,7 +541,8 @@ describe('Page Repository', () => {
         content,
         favorite,
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
         reference,
       });
@@ -463,7 +569,8 @@ describe('Page Repository', () => {
         content,
         favorite,
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
         reference,
       } = mockPage();
@@ -475,7 +582,8 @@ describe('Page Repository', () => {
         content,
         favorite,
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
         reference,
       });
@@ -507,7 +615,8 @@ describe('Page Repository', () => {
         content,
         favorite,
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
         reference,
       } = mockPage();
@@ -519,7 +628,8 @@ describe('Page Repository', () => {
         content,
         favorite,
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
         reference,
       });
@@ -535,42 +645,51 @@ describe('Page Repository', () => {
     });
   });
 
-  describe('updatePagePathByPageId', () => {
-    it('should updated page path and return updated page', async () => {
+  describe('MovePages', () => {
+    it('should update the hierarchy and workspace of every moved page', async () => {
       const pageRepository = new PageRepository();
-
-      const {
-        title,
-        icon,
-        coverPicture,
-        content,
-        favorite,
-        pageSettings,
-        path,
-        workspaceId,
-        reference,
-      } = mockPage();
-
-      const { insertedId } = await pageCollection.insertOne({
-        title,
-        icon,
-        coverPicture,
-        content,
-        favorite,
-        pageSettings,
-        path,
-        workspaceId,
-        reference,
-      });
-
-      const updatedPath = 'Parent-Page-path';
-
-      const updatedPage = await pageRepository.updatePagePathByPageId({
-        pageId: objectIdToString(insertedId),
-        path: updatedPath,
+      const { workspaceId } = mockPage();
+
+      const { insertedIds } = await pageCollection.insertMany([
+        {
+          workspaceId,
+          reference: 'sample-root',
+          parentId: null,
+          ancestors: [],
+        },
+        { workspaceId, reference: 'sample-child', ancestors: [] },
+      ]);
+      const rootId = objectIdToString(insertedIds[0]);
+
+      await pageRepository.movePages({
+        workspaceId: 'other-workspace-id',
+        pages: [
+          {
+            pageId: rootId,
+            parentId: 'sample-parent-id',
+            ancestors: ['sample-parent-id'],
+          },
+          {
+            pageId: objectIdToString(insertedIds[1]),
+            parentId: rootId,
+            ancestors: ['sample-parent-id', rootId],
+          },
+        ],
       });
 
-      expect(updatedPage.path).toBe(updatedPath);
+      const pages = await pageCollection
+        .find({ workspaceId: 'other-workspace-id' })
+        .sort({ reference: -1 })
+        .toArray();
+
+      expect(pages.map(({ parentId }) => parentId)).toEqual([
+        'sample-parent-id',
+        rootId,
+      ]);
+      expect(pages.map(({ ancestors }) => ancestors)).toEqual([
+        ['sample-parent-id'],
+        ['sample-parent-id', rootId],
+      ]);
     });
   });
 
@@ -585,7 +704,8 @@ describe('Page Repository', () => {
         content,
         favorite,
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
         reference,
       } = mockPage();
@@ -597,7 +717,8 @@ describe('Page Repository', () => {
         content,
         favorite: [...favorite, 'new-user-id'],
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
         reference,
       });
@@ -611,6 +732,143 @@ describe('Page Repository', () => {
     });
   });
 
+  describe('RemoveUserFromFavorites', () => {
+    it('should remove userId from the favorites of every page', async () => {
+      const pageRepository = new PageRepository();
+
+      const { title, favorite, workspaceId, reference } = mockPage();
+
+      await pageCollection.insertMany([
+        {
+          title,
+          favorite: [...favorite, 'new-user-id'],
+          workspaceId,
+          reference,
+        },
+        { title, favorite: ['new-user-id'], workspaceId, reference },
+      ]);
+
+      await pageRepository.removeUserFromFavorites('new-user-id');
+      const count = await pageCollection.countDocuments({
+        favorite: 'new-user-id',
+      });
+
+      expect(count).toBe(0);
+    });
+  });
+
+  describe('Trash', () => {
+    it('should list only the top pages of each trashed subtree', async () => {
+      const pageRepository = new PageRepository();
+      const { workspaceId } = mockPage();
+
+      const { insertedIds } = await pageCollection.insertMany([
+        { workspaceId, reference: 'sample-root', ancestors: [] },
+        { workspaceId, reference: 'sample-child', ancestors: [] },
+        { workspaceId, reference: 'sample-other', ancestors: [] },
+      ]);
+      const rootId = objectIdToString(insertedIds[0]);
+
+      await pageRepository.trashPages({
+        pageId: rootId,
+        pageIds: [rootId, objectIdToString(insertedIds[1])],
+        trashedAt: new Date(),
+      });
+
+      const trashedPages = await pageRepository.getTrashedPagesByWorkspaceId(
+        workspaceId
+      );
+      const subtree = await pageRepository.getTrashedPagesByPageId(rootId);
+
+      expect(trashedPages.map(page => page.id)).toEqual([rootId]);
+      expect(subtree.map(page => page.reference).sort()).toEqual([
+        'sample-child',
+        'sample-root',
+      ]);
+    });
+
+    it('should return the trashed subtrees past the given date', async () => {
+      const pageRepository = new PageRepository();
+      const { workspaceId } = mockPage();
+
+      const { insertedIds } = await pageCollection.insertMany([
+        { workspaceId, reference: 'sample-old', ancestors: [] },
+        { workspaceId, reference: 'sample-recent', ancestors: [] },
+      ]);
+      const oldId = objectIdToString(insertedIds[0]);
+      const recentId = objectIdToString(insertedIds[1]);
+
+      await pageRepository.trashPages({
+        pageId: oldId,
+        pageIds: [oldId],
+        trashedAt: new Date('2020-01-01'),
+      });
+      await pageRepository.trashPages({
+        pageId: recentId,
+        pageIds: [recentId],
+        trashedAt: new Date(),
+      });
+
+      const trashedPages = await pageRepository.getTrashedPagesDueForPurge(
+        new Date('2021-01-01')
+      );
+
+      expect(trashedPages.map(page => page.id)).toEqual([oldId]);
+    });
+
+    it('should restore the pages to their new place in the hierarchy', async () => {
+      const pageRepository = new PageRepository();
+      const { workspaceId } = mockPage();
+
+      const { insertedId } = await pageCollection.insertOne({
+        workspaceId,
+        reference: 'sample-root',
+        parentId: 'sample-parent-id',
+        ancestors: ['sample-parent-id'],
+      });
+      const pageId = objectIdToString(insertedId);
+
+      await pageRepository.trashPages({
+        pageId,
+        pageIds: [pageId],
+        trashedAt: new Date(),
+      });
+      await pageRepository.restorePages({
+        pages: [{ pageId, parentId: null, ancestors: [] }],
+      });
+
+      const page = await pageRepository.getPageById(pageId);
+
+      expect(page?.parentId).toBeNull();
+      expect(page?.ancestors).toEqual([]);
+      expect(page?.trashedAt).toBeNull();
+      expect(page?.trashedWithPageId).toBeNull();
+    });
+
+    it('should permanently delete a trashed subtree', async () => {
+      const pageRepository = new PageRepository();
+      const { workspaceId } = mockPage();
+
+      const { insertedIds } = await pageCollection.insertMany([
+        { workspaceId, reference: 'sample-root', ancestors: [] },
+        { workspaceId, reference: 'sample-child', ancestors: [] },
+        { workspaceId, reference: 'sample-other', ancestors: [] },
+      ]);
+      const rootId = objectIdToString(insertedIds[0]);
+
+      await pageRepository.trashPages({
+        pageId: rootId,
+        pageIds: [rootId, objectIdToString(insertedIds[1])],
+        trashedAt: new Date(),
+      });
+      await pageRepository.purgeTrashedPages(rootId);
+
+      const pages = await pageCollection.find().toArray();
+
+      expect(pages.map(page => page.reference)).toEqual(['sample-other']);
+    });
+  });
+
   describe('DeletePage', () => {
     it('should delete a page on success', async () => {
       const pageRepository = new PageRepository();
@@ -622,7 +880,8 @@ describe('Page Repository', () => {
         content,
         favorite,
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
         reference,
       } = mockPage();
@@ -634,7 +893,8 @@ describe('Page Repository', () => {
         content,
         favorite: [...favorite, 'new-user-id'],
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
         reference,
       });
@@ -646,6 +906,34 @@ describe('Page Repository', () => {
     });
   });
 
+  describe('GetPagesByWorkspaceId', () => {
+    it('should return only the pages of the workspace', async () => {
+      const pageRepository = new PageRepository();
+
+      const { title, parentId, ancestors, workspaceId, reference } = mockPage();
+
+      await pageCollection.insertOne({
+        title,
+        parentId,
+        ancestors,
+        workspaceId,
+        reference,
+      });
+      await pageCollection.insertOne({
+        title,
+        parentId,
+        ancestors,
+        workspaceId: 'new-workspace-id',
+        reference,
+      });
+
+      const pages = await pageRepository.getPagesByWorkspaceId(workspaceId);
+
+      expect(pages).toHaveLength(1);
+      expect(pages[0].workspaceId).toBe(workspaceId);
+    });
+  });
+
   describe('DeletePagesByWorkspaceId', () => {
     it('should delete all pages by workspaceId on success', async () => {
       const pageRepository = new PageRepository();
@@ -657,7 +945,8 @@ describe('Page Repository', () => {
         content,
         favorite,
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
         reference,
       } = mockPage();
@@ -669,7 +958,8 @@ describe('Page Repository', () => {
         content,
         favorite,
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
         reference,
       });
@@ -681,7 +971,8 @@ describe('Page Repository', () => {
         content,
         favorite,
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId,
         reference,
       });
@@ -693,7 +984,8 @@ describe('Page Repository', () => {
         content,
         favorite,
         pageSettings,
-        path,
+        parentId,
+        ancestors,
         workspaceId: 'new-workspace-id',
         reference,
       });
@@ -0,0 +1,103 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import env from '@main/config/env';
+import { PasswordResetTokenRepository } from '@infrastructure/db/mongodb/repositories/PasswordResetTokenRepository';
+
+describe('Password Reset Token Repository', () => {
+  let passwordResetTokenCollection: Collection;
+
+  beforeAll(async () => {
+    await dbConnection.connect(env.mongoUrl);
+  });
+
+  afterAll(async () => {
+    await dbConnection.disconnect();
+  });
+
+  beforeEach(async () => {
+    passwordResetTokenCollection =
+      await PasswordResetTokenRepository.getCollection();
+    await passwordResetTokenCollection.deleteMany({});
+  });
+
+  describe('CreatePasswordResetToken', () => {
+    it('should create an unused token and return an id on success', async () => {
+      const passwordResetTokenRepository = new PasswordResetTokenRepository();
+
+      const response =
+        await passwordResetTokenRepository.createPasswordResetToken({
+          token: 'sample-reset-token',
+          userId: 'sample-user-id',
+          expiresAt: new Date(Date.now() + 60 * 1000),
+        });
+
+      const resetToken = await passwordResetTokenCollection.findOne({});
+
+      expect(response).toBeTruthy();
+      expect(resetToken?.usedAt).toBeNull();
+    });
+  });
+
+  describe('ConsumePasswordResetToken', () => {
+    it('should return the token once and mark it as used', async () => {
+      const passwordResetTokenRepository = new PasswordResetTokenRepository();
+
+      await passwordResetTokenRepository.createPasswordResetToken({
+        token: 'sample-reset-token',
+        userId: 'sample-user-id',
+        expiresAt: new Date(Date.now() + 60 * 1000),
+      });
+
+      const firstUse =
+        await passwordResetTokenRepository.consumePasswordResetToken(
+          'sample-reset-token'
+        );
+      const secondUse =
+        await passwordResetTokenRepository.consumePasswordResetToken(
+          'sample-reset-token'
+        );
+
+      expect(firstUse?.userId).toBe('sample-user-id');
+      expect(firstUse?.usedAt).toBeTruthy();
+      expect(secondUse).toBeNull();
+    });
+
+    it('should return null if the token is unknown', async () => {
+      const passwordResetTokenRepository = new PasswordResetTokenRepository();
+
+      const response =
+        await passwordResetTokenRepository.consumePasswordResetToken(
+          'unknown-token'
+        );
+
+      expect(response).toBeNull();
+    });
+  });
+
+  describe('DeletePasswordResetTokensByUserId', () => {
+    it('should delete every token of the user', async () => {
+      const passwordResetTokenRepository = new PasswordResetTokenRepository();
+      const expiresAt = new Date(Date.now() + 60 * 1000);
+
+      await passwordResetTokenRepository.createPasswordResetToken({
+        token: 'sample-reset-token',
+        userId: 'sample-user-id',
+        expiresAt,
+      });
+      await passwordResetTokenRepository.createPasswordResetToken({
+        token: 'other-reset-token',
+        userId: 'other-user-id',
+        expiresAt,
+      });
+
+      await passwordResetTokenRepository.deletePasswordResetTokensByUserId(
+        'sample-user-id'
+      );
+
+      const resetTokens = await passwordResetTokenCollection.find({}).toArray();
+
+      expect(resetTokens).toHaveLength(1);
+      expect(resetTokens[0].userId).toBe('other-user-id');
+    });
+  });
+});
@@ -1,6 +1,7 @@
 import { Collection } from 'mongodb';
 import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
 import env from '@main/config/env';
+import { objectIdToString } from '@infrastructure/db/mongodb/helpers/mapper';
 import { TokenRepository } from '@infrastructure/db/mongodb/repositories/TokenRepository';
 
 describe('Token Repository', () => {
@@ -25,13 +26,43 @@ describe('Token Repository', () => {
 
       const sampleToken = 'sample-refresh-token';
 
-      const response = await tokenRepository.createToken(sampleToken);
+      const response = await tokenRepository.createToken({
+        token: sampleToken,
+        userId: 'sample-user-id',
+      });
 
       const count = await tokenCollection.countDocuments();
 
       expect(response).toBeTruthy();
       expect(count).toBe(1);
     });
+
+    it('should start a new family if none is given', async () => {
+      const tokenRepository = new TokenRepository();
+
+      const response = await tokenRepository.createToken({
+        token: 'sample-refresh-token',
+        userId: 'sample-user-id',
+      });
+
+      const token = await tokenRepository.getToken('sample-refresh-token');
+
+      expect(token?.family).toBe(response);
+    });
+
+    it('should keep the given family', async () => {
+      const tokenRepository = new TokenRepository();
+
+      await tokenRepository.createToken({
+        token: 'sample-refresh-token',
+        userId: 'sample-user-id',
+        family: 'sample-family',
+      });
+
+      const token = await tokenRepository.getToken('sample-refresh-token');
+
+      expect(token?.family).toBe('sample-family');
+    });
   });
 
   describe('GetToken', () => {
@@ -57,6 +88,98 @@ describe('Token Repository', () => {
     });
   });
 
+  describe('GetSessionsByUserId', () => {
+    it('should return the active sessions of the user', async () => {
+      const tokenRepository = new TokenRepository();
+
+      await tokenCollection.insertMany([
+        {
+          token: 'sample-token-1',
+          userId: 'sample-user-id',
+          family: 'sample-family',
+          userAgent: 'sample-user-agent',
+          ip: '127.0.0.1',
+          retiredAt: null,
+          lastUsedAt: new Date(),
+        },
+        {
+          token: 'sample-token-2',
+          userId: 'sample-user-id',
+          family: 'sample-family',
+          retiredAt: new Date(),
+        },
+        {
+          token: 'sample-token-3',
+          userId: 'other-user-id',
+          family: 'other-family',
+          retiredAt: null,
+        },
+      ]);
+
+      const response = await tokenRepository.getSessionsByUserId(
+        'sample-user-id'
+      );
+
+      expect(response).toHaveLength(1);
+      expect(response[0]).toEqual(
+        expect.objectContaining({
+          id: 'sample-family',
+          userAgent: 'sample-user-agent',
+          ip: '127.0.0.1',
+        })
+      );
+    });
+
+    it('should use the token id for sessions issued before rotation', async () => {
+      const tokenRepository = new TokenRepository();
+
+      const { insertedId } = await tokenCollection.insertOne({
+        token: 'sample-legacy-token',
+        userId: 'sample-user-id',
+        createdAt: new Date(),
+      });
+
+      const response = await tokenRepository.getSessionsByUserId(
+        'sample-user-id'
+      );
+
+      expect(response).toEqual([
+        expect.objectContaining({ id: objectIdToString(insertedId) }),
+      ]);
+    });
+  });
+
+  describe('RetireToken', () => {
+    it('should retire an active token and return true', async () => {
+      const tokenRepository = new TokenRepository();
+
+      const sampleToken = 'sample-refresh-token';
+
+      await tokenCollection.insertOne({ token: sampleToken, retiredAt: null });
+
+      const response = await tokenRepository.retireToken(sampleToken);
+      const token = await tokenCollection.findOne({ token: sampleToken });
+
+      expect(response).toBe(true);
+      expect(token?.retiredAt).toBeInstanceOf(Date);
+    });
+
+    it('should return false if token is already retired', async () => {
+      const tokenRepository = new TokenRepository();
+
+      const sampleToken = 'sample-refresh-token';
+
+      await tokenCollection.insertOne({
+        token: sampleToken,
+        retiredAt: new Date(),
+      });
+
+      const response = await tokenRepository.retireToken(sampleToken);
+
+      expect(response).toBe(false);
+    });
+  });
+
   describe('DeleteToken', () => {
     it('should delete a token on success', async () => {
       const tokenRepository = new TokenRepository();
@@ -71,4 +194,56 @@ describe('Token Repository', () => {
       expect(count).toBe(0);
     });
   });
+
+  describe('DeleteTokensByFamily', () => {
+    it('should delete every token of the family', async () => {
+      const tokenRepository = new TokenRepository();
+
+      await tokenCollection.insertMany([
+        { token: 'sample-token-1', family: 'sample-family' },
+        { token: 'sample-token-2', family: 'sample-family' },
+        { token: 'sample-token-3', family: 'other-family' },
+      ]);
+
+      await tokenRepository.deleteTokensByFamily('sample-family');
+      const count = await tokenCollection.countDocuments();
+
+      expect(count).toBe(1);
+    });
+
+    it('should delete a token issued before rotation along with its family', async () => {
+      const tokenRepository = new TokenRepository();
+
+      const { insertedId } = await tokenCollection.insertOne({
+        token: 'sample-legacy-token',
+      });
+      const legacyFamily = objectIdToString(insertedId);
+      await tokenCollection.insertMany([
+        { token: 'sample-token-1', family: legacyFamily },
+        { token: 'sample-token-2', family: 'other-family' },
+      ]);
+
+      await tokenRepository.deleteTokensByFamily(legacyFamily);
+      const count = await tokenCollection.countDocuments();
+
+      expect(count).toBe(1);
+    });
+  });
+
+  describe('DeleteTokensByUserId', () => {
+    it('should delete every token of the user', async () => {
+      const tokenRepository = new TokenRepository();
+
+      await tokenCollection.insertMany([
+        { token: 'sample-token-1', userId: 'sample-user-id' },
+        { token: 'sample-token-2', userId: 'sample-user-id' },
+        { token: 'sample-token-3', userId: 'other-user-id' },
+      ]);
+
+      await tokenRepository.deleteTokensByUserId('sample-user-id');
+      const count = await tokenCollection.countDocuments();
+
+      expect(count).toBe(1);
+    });
+  });
 });
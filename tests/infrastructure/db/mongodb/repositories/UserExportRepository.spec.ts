@@ -0,0 +1,179 @@
+import { Collection } from 'mongodb';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import env from '@main/config/env';
+import { UserExportRepository } from '@infrastructure/db/mongodb/repositories/UserExportRepository';
+
+describe('UserExport Repository', () => {
+  let userExportCollection: Collection;
+
+  beforeAll(async () => {
+    await dbConnection.connect(env.mongoUrl);
+  });
+
+  afterAll(async () => {
+    await dbConnection.disconnect();
+  });
+
+  beforeEach(async () => {
+    userExportCollection = await UserExportRepository.getCollection();
+    await userExportCollection.deleteMany({});
+  });
+
+  describe('CreateUserExport', () => {
+    it('should create a pending export', async () => {
+      const userExportRepository = new UserExportRepository();
+
+      const userExport = await userExportRepository.createUserExport(
+        'sample-user-id'
+      );
+
+      expect(userExport.id).toBeTruthy();
+      expect(userExport.userId).toBe('sample-user-id');
+      expect(userExport.status).toBe('pending');
+    });
+  });
+
+  describe('GetUserExportById', () => {
+    it('should return the export', async () => {
+      const userExportRepository = new UserExportRepository();
+
+      const { id } = await userExportRepository.createUserExport(
+        'sample-user-id'
+      );
+      const userExport = await userExportRepository.getUserExportById(id);
+
+      expect(userExport?.id).toBe(id);
+    });
+
+    it('should return null if the id is not valid', async () => {
+      const userExportRepository = new UserExportRepository();
+
+      const userExport = await userExportRepository.getUserExportById(
+        'invalid-id'
+      );
+
+      expect(userExport).toBeNull();
+    });
+  });
+
+  describe('ClaimPendingUserExport', () => {
+    it('should claim the oldest pending export only once', async () => {
+      const userExportRepository = new UserExportRepository();
+
+      const { id } = await userExportRepository.createUserExport(
+        'sample-user-id'
+      );
+      const claimed = await userExportRepository.claimPendingUserExport();
+      const claimedAgain = await userExportRepository.claimPendingUserExport();
+
+      expect(claimed?.id).toBe(id);
+      expect(claimed?.status).toBe('processing');
+      expect(claimedAgain).toBeNull();
+    });
+
+    it('should reclaim an export whose generation stalled', async () => {
+      const userExportRepository = new UserExportRepository();
+
+      await userExportCollection.insertOne({
+        userId: 'sample-user-id',
+        status: 'processing',
+        claimedAt: new Date(Date.now() - 60 * 60 * 1000),
+        completedAt: null,
+        expiresAt: null,
+        createdAt: new Date(),
+      });
+      const claimed = await userExportRepository.claimPendingUserExport();
+
+      expect(claimed).not.toBeNull();
+    });
+  });
+
+  describe('CompleteUserExport', () => {
+    it('should mark the export as ready', async () => {
+      const userExportRepository = new UserExportRepository();
+      const expiresAt = new Date(Date.now() + 60 * 60 * 1000);
+
+      const { id } = await userExportRepository.createUserExport(
+        'sample-user-id'
+      );
+      await userExportRepository.completeUserExport({
+        exportId: id,
+        status: 'ready',
+        expiresAt,
+      });
+      const userExport = await userExportRepository.getUserExportById(id);
+
+      expect(userExport?.status).toBe('ready');
+      expect(userExport?.expiresAt).toEqual(expiresAt);
+      expect(userExport?.completedAt).toBeInstanceOf(Date);
+    });
+  });
+
+  describe('GetExpiredUserExports', () => {
+    it('should return the exports expired by the given date', async () => {
+      const userExportRepository = new UserExportRepository();
+      const expired = await userExportRepository.createUserExport(
+        'sample-user-id'
+      );
+      const current = await userExportRepository.createUserExport(
+        'sample-user-id'
+      );
+      await userExportRepository.createUserExport('sample-user-id');
+      await userExportRepository.completeUserExport({
+        exportId: expired.id,
+        status: 'ready',
+        expiresAt: new Date(Date.now() - 60 * 60 * 1000),
+      });
+      await userExportRepository.completeUserExport({
+        exportId: current.id,
+        status: 'ready',
+        expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      });
+
+      const userExports = await userExportRepository.getExpiredUserExports(
+        new Date()
+      );
+
+      expect(userExports.map(userExport => userExport.id)).toEqual([
+        expired.id,
+      ]);
+    });
+  });
+
+  describe('GetUserExportsByUserId', () => {
+    it('should return the exports of the user only', async () => {
+      const userExportRepository = new UserExportRepository();
+      const { id } = await userExportRepository.createUserExport(
+        'sample-user-id'
+      );
+      await userExportRepository.createUserExport('another-user-id');
+
+      const userExports = await userExportRepository.getUserExportsByUserId(
+        'sample-user-id'
+      );
+
+      expect(userExports.map(userExport => userExport.id)).toEqual([id]);
+    });
+  });
+
+  describe('DeleteUserExports', () => {
+    it('should delete the given exports', async () => {
+      const userExportRepository = new UserExportRepository();
+      const deleted = await userExportRepository.createUserExport(
+        'sample-user-id'
+      );
+      const kept = await userExportRepository.createUserExport(
+        'sample-user-id'
+      );
+
+      await userExportRepository.deleteUserExports([deleted.id]);
+
+      expect(
+        await userExportRepository.getUserExportById(deleted.id)
+      ).toBeNull();
+      expect(await userExportRepository.getUserExportById(kept.id)).toEqual(
+        kept
+      );
+    });
+  });
+});
@@ -25,12 +25,20 @@ describe('User Repository', () => {
     it('should create a new user and return an id on success', async () => {
       const userRepository = new UserRepository();
 
-      const { name, email, password, isDarkMode, profilePicture, workspaces } =
-        mockUser();
+      const {
+        name,
+        email,
+        emailVerified,
+        password,
+        isDarkMode,
+        profilePicture,
+        workspaces,
+      } = mockUser();
 
       const response = await userRepository.createUser({
         name,
         email,
+        emailVerified,
         password,
         isDarkMode,
         profilePicture,
@@ -292,6 +300,87 @@ describe('User Repository', () => {
     });
   });
 
+  describe('UpdatePassword', () => {
+    it('should replace the stored password', async () => {
+      const userRepository = new UserRepository();
+      const { name, email, password, isDarkMode, profilePicture, workspaces } =
+        mockUser();
+
+      const { insertedId } = await userCollection.insertOne({
+        name,
+        email,
+        password,
+        isDarkMode,
+        profilePicture,
+        workspaces,
+      });
+
+      await userRepository.updatePassword({
+        userId: objectIdToString(insertedId),
+        password: 'new-hashed-password',
+      });
+
+      const user = await userCollection.findOne({ _id: insertedId });
+
+      expect(user?.password).toBe('new-hashed-password');
+      expect(user?.updatedAt).toBeTruthy();
+    });
+  });
+
+  describe('VerifyEmail', () => {
+    it('should mark the email as verified if it still matches', async () => {
+      const userRepository = new UserRepository();
+      const { name, email, password, isDarkMode, profilePicture, workspaces } =
+        mockUser();
+
+      const { insertedId } = await userCollection.insertOne({
+        name,
+        email,
+        emailVerified: false,
+        password,
+        isDarkMode,
+        profilePicture,
+        workspaces,
+      });
+
+      const verified = await userRepository.verifyEmail({
+        userId: objectIdToString(insertedId),
+        email,
+      });
+
+      const user = await userCollection.findOne({ _id: insertedId });
+
+      expect(verified).toBe(true);
+      expect(user?.emailVerified).toBe(true);
+    });
+
+    it('should leave the user unverified if the email has changed', async () => {
+      const userRepository = new UserRepository();
+      const { name, email, password, isDarkMode, profilePicture, workspaces } =
+        mockUser();
+
+      const { insertedId } = await userCollection.insertOne({
+        name,
+        email,
+        emailVerified: false,
+        password,
+        isDarkMode,
+        profilePicture,
+        workspaces,
+      });
+
+      const verified = await userRepository.verifyEmail({
+        userId: objectIdToString(insertedId),
+        email: 'previous@email.com',
+      });
+
+      const user = await userCollection.findOne({ _id: insertedId });
+
+      expect(verified).toBe(false);
+      expect(user?.emailVerified).toBe(false);
+    });
+  });
+
   describe('UpdateUserProfilePicture', () => {
     it('should updated user profile picture and return updated user', async () => {
       const userRepository = new UserRepository();
@@ -411,6 +500,78 @@ describe('User Repository', () => {
     });
   });
 
+  describe('ScheduleUserDeletion', () => {
+    it('should store the deletion date', async () => {
+      const userRepository = new UserRepository();
+
+      const { insertedId } = await userCollection.insertOne({
+        email: mockUser().email,
+      });
+      const scheduledDeletionAt = new Date();
+
+      await userRepository.scheduleUserDeletion({
+        userId: objectIdToString(insertedId),
+        scheduledDeletionAt,
+      });
+      const user = await userCollection.findOne({ _id: insertedId });
+
+      expect(user?.scheduledDeletionAt).toEqual(scheduledDeletionAt);
+    });
+  });
+
+  describe('CancelUserDeletion', () => {
+    it('should remove the deletion date and return true', async () => {
+      const userRepository = new UserRepository();
+
+      const { insertedId } = await userCollection.insertOne({
+        email: mockUser().email,
+        scheduledDeletionAt: new Date(),
+      });
+
+      const isCancelled = await userRepository.cancelUserDeletion(
+        objectIdToString(insertedId)
+      );
+      const user = await userCollection.findOne({ _id: insertedId });
+
+      expect(isCancelled).toBe(true);
+      expect(user?.scheduledDeletionAt).toBeUndefined();
+    });
+
+    it('should return false if no deletion was scheduled', async () => {
+      const userRepository = new UserRepository();
+
+      const { insertedId } = await userCollection.insertOne({
+        email: mockUser().email,
+      });
+
+      const isCancelled = await userRepository.cancelUserDeletion(
+        objectIdToString(insertedId)
+      );
+
+      expect(isCancelled).toBe(false);
+    });
+  });
+
+  describe('GetUserIdsDueForDeletion', () => {
+    it('should return the users whose grace period is over', async () => {
+      const userRepository = new UserRepository();
+
+      const { insertedId } = await userCollection.insertOne({
+        email: 'due@email.com',
+        scheduledDeletionAt: new Date(Date.now() - 1000),
+      });
+      await userCollection.insertOne({
+        email: 'waiting@email.com',
+        scheduledDeletionAt: new Date(Date.now() + 60 * 1000),
+      });
+      await userCollection.insertOne({ email: 'active@email.com' });
+
+      const userIds = await userRepository.getUserIdsDueForDeletion(new Date());
+
+      expect(userIds).toEqual([objectIdToString(insertedId)]);
+    });
+  });
+
   describe('DeleteUser', () => {
     it('should delete a user on success', async () => {
       const userRepository = new UserRepository();
@@ -60,10 +60,38 @@ describe('Workspace Repository', () => {
         {
           workspaceId: objectIdToString(insertedId),
           memberId,
+          role: 'editor',
         }
       );
 
-      expect(updatedWorkspace.members).toHaveLength(2);
+      expect(updatedWorkspace.members).toHaveLength(3);
+      expect(updatedWorkspace.members[2]).toEqual({
+        userId: memberId,
+        role: 'editor',
+      });
+    });
+
+    it('should not add a member twice', async () => {
+      const workspaceRepository = new WorkspaceRepository();
+
+      const { name, icon, members, pages } = mockWorkspace();
+
+      const { insertedId } = await workspaceCollection.insertOne({
+        name,
+        icon,
+        members,
+        pages,
+      });
+
+      const updatedWorkspace = await workspaceRepository.addMemberByWorkspaceId(
+        {
+          workspaceId: objectIdToString(insertedId),
+          memberId: members[1].userId,
+          role: 'owner',
+        }
+      );
+
+      expect(updatedWorkspace.members).toEqual(members);
     });
   });
 
@@ -83,7 +111,8 @@ describe('Workspace Repository', () => {
       const pageData = {
         id: 'sample-page-id-4',
         reference: 'sample-page-101',
-        path: null,
+        parentId: null,
+        position: 'z',
         icon: '1F2F9',
         title: 'sample-page',
         createdAt: new Date(),
@@ -115,7 +144,7 @@ describe('Workspace Repository', () => {
         objectIdToString(insertedId)
       );
 
-      expect(response).toHaveLength(1);
+      expect(response).toHaveLength(2);
     });
 
     it(`should return null if workspace dosen't exists`, async () => {
@@ -157,6 +186,28 @@ describe('Workspace Repository', () => {
       expect(response).toHaveLength(2);
     });
 
+    it('should return the root pages sorted by position', async () => {
+      const workspaceRepository = new WorkspaceRepository();
+
+      const { name, icon, members, pages } = mockWorkspace();
+
+      const { insertedId } = await workspaceCollection.insertOne({
+        name,
+        icon,
+        members,
+        pages: [...pages].reverse(),
+      });
+
+      const response = await workspaceRepository.getAllRootPages(
+        objectIdToString(insertedId)
+      );
+
+      expect(response?.map(({ id }) => id)).toEqual([
+        'sample-page-id-0',
+        'sample-page-id-1',
+      ]);
+    });
+
     it(`should return null if workspace dosen't exists`, async () => {
       const workspaceRepository = new WorkspaceRepository();
       const response = await workspaceRepository.getAllRootPages(
@@ -195,6 +246,29 @@ describe('Workspace Repository', () => {
       expect(response).toHaveLength(2);
     });
 
+    it('should return the children sorted by position', async () => {
+      const workspaceRepository = new WorkspaceRepository();
+
+      const { name, icon, members, pages } = mockWorkspace();
+
+      const { insertedId } = await workspaceCollection.insertOne({
+        name,
+        icon,
+        members,
+        pages: [...pages].reverse(),
+      });
+
+      const response = await workspaceRepository.getChildrensByPageId({
+        workspaceId: objectIdToString(insertedId),
+        pageReference: 'sample-page-123',
+      });
+
+      expect(response?.map(({ id }) => id)).toEqual([
+        'sample-page-id-2',
+        'sample-page-id-3',
+      ]);
+    });
+
     it(`should return null if children dosen't exists`, async () => {
       const workspaceRepository = new WorkspaceRepository();
 
@@ -216,6 +290,45 @@ describe('Workspace Repository', () => {
     });
   });
 
+  describe('GetPagesByWorkspaceId', () => {
+    it('should return the page metadata of the workspace', async () => {
+      const workspaceRepository = new WorkspaceRepository();
+
+      const { name, icon, members, pages } = mockWorkspace();
+
+      const { insertedId } = await workspaceCollection.insertOne({
+        name,
+        icon,
+        members,
+        pages,
+      });
+
+      const response = await workspaceRepository.getPagesByWorkspaceId(
+        objectIdToString(insertedId)
+      );
+
+      expect(response).toEqual(pages);
+    });
+
+    it(`should return null if workspace dosen't exists`, async () => {
+      const workspaceRepository = new WorkspaceRepository();
+      const response = await workspaceRepository.getPagesByWorkspaceId(
+        '551137c2f9e1fac808a5f572'
+      );
+
+      expect(response).toBeNull();
+    });
+
+    it(`should return null if an invalid object-id is provided`, async () => {
+      const workspaceRepository = new WorkspaceRepository();
+      const response = await workspaceRepository.getPagesByWorkspaceId(
+        'invalid_id'
+      );
+
+      expect(response).toBeNull();
+    });
+  });
+
   describe('GetUserById', () => {
     it('should return user if user exists', async () => {
       const workspaceRepository = new WorkspaceRepository();
@@ -293,7 +406,7 @@ describe('Workspace Repository', () => {
       const { insertedId } = await workspaceCollection.insertOne({
         name,
         icon,
-        members: [...members, 'remove-this-member'],
+        members: [...members, { userId: 'remove-this-member', role: 'viewer' }],
         pages,
       });
 
@@ -303,7 +416,37 @@ describe('Workspace Repository', () => {
           memberId: 'remove-this-member',
         });
 
-      expect(updatedWorkspace.members).toHaveLength(1);
+      expect(updatedWorkspace.members).toHaveLength(2);
+    });
+  });
+
+  describe('UpdateMemberRoleByWorkspaceId', () => {
+    it('should update the role of the member', async () => {
+      const workspaceRepository = new WorkspaceRepository();
+
+      const { name, icon, members, pages } = mockWorkspace();
+
+      const { insertedId } = await workspaceCollection.insertOne({
+        name,
+        icon,
+        members,
+        pages,
+      });
+
+      await workspaceRepository.updateMemberRoleByWorkspaceId({
+        workspaceId: objectIdToString(insertedId),
+        memberId: members[1].userId,
+        role: 'editor',
+      });
+
+      const rawWorkspace = await workspaceCollection.findOne({
+        _id: insertedId,
+      });
+
+      expect(rawWorkspace?.members[1]).toEqual({
+        userId: members[1].userId,
+        role: 'editor',
+      });
     });
   });
 
@@ -0,0 +1,114 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { InvitationExpiredError } from '@application/errors/InvitationExpiredError';
+import { InvitationNotFoundError } from '@application/errors/InvitationNotFoundError';
+import { UnverifiedEmailError } from '@application/errors/UnverifiedEmailError';
+import { AcceptInvitationController } from '@infrastructure/http/controllers/invitations/AcceptInvitationController';
+import { PermissionError } from '@infrastructure/http/errors/PermissionError';
+import {
+  conflict,
+  forbidden,
+  noContent,
+  notFound,
+} from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { AcceptInvitationStub } from '@tests/application/mocks/invitations/use-cases';
+import mockInvitation from '@tests/domain/mock-invitation';
+import mockUser from '@tests/domain/mock-user';
+
+type SutTypes = {
+  sut: AcceptInvitationController;
+  acceptInvitationStub: AcceptInvitationStub;
+};
+
+const makeSut = (): SutTypes => {
+  const acceptInvitationStub = new AcceptInvitationStub();
+  const sut = new AcceptInvitationController(acceptInvitationStub);
+  return {
+    acceptInvitationStub,
+    sut,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  const { token } = mockInvitation();
+  return {
+    params: {
+      token,
+    },
+    userId: mockUser().id,
+    ip: '127.0.0.1',
+  };
+};
+
+describe('AcceptInvitationController', () => {
+  it('should call AcceptInvitation with correct params', async () => {
+    const { sut, acceptInvitationStub } = makeSut();
+
+    const acceptInvitationSpy = jest.spyOn(acceptInvitationStub, 'execute');
+
+    const httpRequest = makeFakeHttpRequest();
+    await sut.handle(httpRequest);
+
+    expect(acceptInvitationSpy).toHaveBeenCalledWith({
+      userId: httpRequest.userId,
+      token: httpRequest.params.token,
+      ip: httpRequest.ip,
+    });
+  });
+
+  it('should return 404 if invitation is not found', async () => {
+    const { sut, acceptInvitationStub } = makeSut();
+
+    jest.spyOn(acceptInvitationStub, 'execute').mockImplementation(async () => {
+      return new InvitationNotFoundError();
+    });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new InvitationNotFoundError()));
+  });
+
+  it('should return 403 if the invitation belongs to another email', async () => {
+    const { sut, acceptInvitationStub } = makeSut();
+
+    jest.spyOn(acceptInvitationStub, 'execute').mockImplementation(async () => {
+      return new ForbiddenError();
+    });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(forbidden(new PermissionError()));
+  });
+
+  it('should return 403 if the email has not been verified', async () => {
+    const { sut, acceptInvitationStub } = makeSut();
+
+    jest.spyOn(acceptInvitationStub, 'execute').mockImplementation(async () => {
+      return new UnverifiedEmailError();
+    });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(forbidden(new UnverifiedEmailError()));
+  });
+
+  it('should return 409 if the invitation has expired', async () => {
+    const { sut, acceptInvitationStub } = makeSut();
+
+    jest.spyOn(acceptInvitationStub, 'execute').mockImplementation(async () => {
+      return new InvitationExpiredError();
+    });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(conflict(new InvitationExpiredError()));
+  });
+
+  it('should return 204 on success', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(noContent());
+  });
+});
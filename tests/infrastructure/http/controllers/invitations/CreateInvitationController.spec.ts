@@ -0,0 +1,94 @@
+import { MemberAlreadyExistsError } from '@application/errors/MemberAlreadyExistsError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { CreateInvitationController } from '@infrastructure/http/controllers/invitations/CreateInvitationController';
+import { conflict, created, notFound } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { CreateInvitationStub } from '@tests/application/mocks/invitations/use-cases';
+import mockInvitation from '@tests/domain/mock-invitation';
+import mockUser from '@tests/domain/mock-user';
+import mockWorkspace from '@tests/domain/mock-workspace';
+import { ValidationStub } from '@tests/infrastructure/mocks/validators';
+
+type SutTypes = {
+  sut: CreateInvitationController;
+  validationStub: ValidationStub;
+  createInvitationStub: CreateInvitationStub;
+};
+
+const makeSut = (): SutTypes => {
+  const validationStub = new ValidationStub();
+  const createInvitationStub = new CreateInvitationStub();
+  const sut = new CreateInvitationController(
+    validationStub,
+    createInvitationStub
+  );
+  return {
+    validationStub,
+    createInvitationStub,
+    sut,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  const { id } = mockWorkspace();
+  return {
+    params: {
+      workspaceId: id,
+    },
+    body: {
+      email: 'invitee@email.com',
+      role: 'editor',
+    },
+    userId: mockUser().id,
+  };
+};
+
+describe('CreateInvitationController', () => {
+  it('should call CreateInvitation with correct params', async () => {
+    const { sut, createInvitationStub } = makeSut();
+
+    const createInvitationSpy = jest.spyOn(createInvitationStub, 'execute');
+
+    const httpRequest = makeFakeHttpRequest();
+    await sut.handle(httpRequest);
+
+    expect(createInvitationSpy).toHaveBeenCalledWith({
+      workspaceId: httpRequest.params.workspaceId,
+      email: 'invitee@email.com',
+      role: 'editor',
+      invitedBy: httpRequest.userId,
+    });
+  });
+
+  it('should return 404 if workspace is not found', async () => {
+    const { sut, createInvitationStub } = makeSut();
+
+    jest.spyOn(createInvitationStub, 'execute').mockImplementation(async () => {
+      return new WorkspaceNotFoundError();
+    });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new WorkspaceNotFoundError()));
+  });
+
+  it('should return 409 if the invitee is already a member', async () => {
+    const { sut, createInvitationStub } = makeSut();
+
+    jest.spyOn(createInvitationStub, 'execute').mockImplementation(async () => {
+      return new MemberAlreadyExistsError();
+    });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(conflict(new MemberAlreadyExistsError()));
+  });
+
+  it('should return 201 on success', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(created({ id: mockInvitation().id }));
+  });
+});
@@ -0,0 +1,105 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { InvitationExpiredError } from '@application/errors/InvitationExpiredError';
+import { InvitationNotFoundError } from '@application/errors/InvitationNotFoundError';
+import { DeclineInvitationController } from '@infrastructure/http/controllers/invitations/DeclineInvitationController';
+import { PermissionError } from '@infrastructure/http/errors/PermissionError';
+import {
+  conflict,
+  forbidden,
+  noContent,
+  notFound,
+} from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { DeclineInvitationStub } from '@tests/application/mocks/invitations/use-cases';
+import mockInvitation from '@tests/domain/mock-invitation';
+import mockUser from '@tests/domain/mock-user';
+
+type SutTypes = {
+  sut: DeclineInvitationController;
+  declineInvitationStub: DeclineInvitationStub;
+};
+
+const makeSut = (): SutTypes => {
+  const declineInvitationStub = new DeclineInvitationStub();
+  const sut = new DeclineInvitationController(declineInvitationStub);
+  return {
+    declineInvitationStub,
+    sut,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  const { token } = mockInvitation();
+  return {
+    params: {
+      token,
+    },
+    userId: mockUser().id,
+  };
+};
+
+describe('DeclineInvitationController', () => {
+  it('should call DeclineInvitation with correct params', async () => {
+    const { sut, declineInvitationStub } = makeSut();
+
+    const declineInvitationSpy = jest.spyOn(declineInvitationStub, 'execute');
+
+    const httpRequest = makeFakeHttpRequest();
+    await sut.handle(httpRequest);
+
+    expect(declineInvitationSpy).toHaveBeenCalledWith({
+      userId: httpRequest.userId,
+      token: httpRequest.params.token,
+    });
+  });
+
+  it('should return 404 if invitation is not found', async () => {
+    const { sut, declineInvitationStub } = makeSut();
+
+    jest
+      .spyOn(declineInvitationStub, 'execute')
+      .mockImplementation(async () => {
+        return new InvitationNotFoundError();
+      });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new InvitationNotFoundError()));
+  });
+
+  it('should return 403 if the invitation belongs to another email', async () => {
+    const { sut, declineInvitationStub } = makeSut();
+
+    jest
+      .spyOn(declineInvitationStub, 'execute')
+      .mockImplementation(async () => {
+        return new ForbiddenError();
+      });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(forbidden(new PermissionError()));
+  });
+
+  it('should return 409 if the invitation has expired', async () => {
+    const { sut, declineInvitationStub } = makeSut();
+
+    jest
+      .spyOn(declineInvitationStub, 'execute')
+      .mockImplementation(async () => {
+        return new InvitationExpiredError();
+      });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(conflict(new InvitationExpiredError()));
+  });
+
+  it('should return 204 on success', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(noContent());
+  });
+});
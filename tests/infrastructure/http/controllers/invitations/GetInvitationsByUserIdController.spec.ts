@@ -0,0 +1,66 @@
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
+import { GetInvitationsByUserIdController } from '@infrastructure/http/controllers/invitations/GetInvitationsByUserIdController';
+import { notFound } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { GetInvitationsByUserIdStub } from '@tests/application/mocks/invitations/use-cases';
+import mockUser from '@tests/domain/mock-user';
+
+type SutTypes = {
+  sut: GetInvitationsByUserIdController;
+  getInvitationsByUserIdStub: GetInvitationsByUserIdStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getInvitationsByUserIdStub = new GetInvitationsByUserIdStub();
+  const sut = new GetInvitationsByUserIdController(getInvitationsByUserIdStub);
+  return {
+    getInvitationsByUserIdStub,
+    sut,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  const { id } = mockUser();
+  return {
+    userId: id,
+  };
+};
+
+describe('GetInvitationsByUserIdController', () => {
+  it('should call GetInvitationsByUserId with the signed in user', async () => {
+    const { sut, getInvitationsByUserIdStub } = makeSut();
+
+    const getInvitationsByUserIdSpy = jest.spyOn(
+      getInvitationsByUserIdStub,
+      'execute'
+    );
+
+    const httpRequest = makeFakeHttpRequest();
+    await sut.handle(httpRequest);
+
+    expect(getInvitationsByUserIdSpy).toHaveBeenCalledWith(httpRequest.userId);
+  });
+
+  it('should return 404 if user is not found', async () => {
+    const { sut, getInvitationsByUserIdStub } = makeSut();
+
+    jest
+      .spyOn(getInvitationsByUserIdStub, 'execute')
+      .mockImplementation(async () => {
+        return new UserNotFoundError();
+      });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new UserNotFoundError()));
+  });
+
+  it('should return 200 on success', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse.statusCode).toBe(200);
+    expect(httpResponse.body).toHaveLength(1);
+  });
+});
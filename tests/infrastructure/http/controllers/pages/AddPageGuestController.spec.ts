@@ -0,0 +1,92 @@
+import { MemberAlreadyExistsError } from '@application/errors/MemberAlreadyExistsError';
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { AddPageGuestController } from '@infrastructure/http/controllers/pages/AddPageGuestController';
+import {
+  conflict,
+  noContent,
+  notFound,
+} from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { AddPageGuestStub } from '@tests/application/mocks/pages/use-cases';
+import mockPage from '@tests/domain/mock-page';
+import { ValidationStub } from '@tests/infrastructure/mocks/validators';
+
+type SutTypes = {
+  sut: AddPageGuestController;
+  validationStub: ValidationStub;
+  addPageGuestStub: AddPageGuestStub;
+};
+
+const makeSut = (): SutTypes => {
+  const validationStub = new ValidationStub();
+  const addPageGuestStub = new AddPageGuestStub();
+  const sut = new AddPageGuestController(validationStub, addPageGuestStub);
+
+  return {
+    validationStub,
+    addPageGuestStub,
+    sut,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  return {
+    params: {
+      pageId: mockPage().id,
+    },
+    body: {
+      email: 'guest@email.com',
+      role: 'viewer',
+    },
+    userId: 'sample-member-1',
+  };
+};
+
+describe('AddPageGuestController', () => {
+  it('should call AddPageGuest with correct params', async () => {
+    const { sut, addPageGuestStub } = makeSut();
+
+    const addPageGuestSpy = jest.spyOn(addPageGuestStub, 'execute');
+
+    await sut.handle(makeFakeHttpRequest());
+
+    expect(addPageGuestSpy).toHaveBeenCalledWith({
+      pageId: mockPage().id,
+      email: 'guest@email.com',
+      role: 'viewer',
+      grantedBy: 'sample-member-1',
+    });
+  });
+
+  it('should return 404 if the page is not found', async () => {
+    const { sut, addPageGuestStub } = makeSut();
+
+    jest
+      .spyOn(addPageGuestStub, 'execute')
+      .mockImplementation(async () => new PageNotFoundError());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new PageNotFoundError()));
+  });
+
+  it('should return 409 if the user is already a workspace member', async () => {
+    const { sut, addPageGuestStub } = makeSut();
+
+    jest
+      .spyOn(addPageGuestStub, 'execute')
+      .mockImplementation(async () => new MemberAlreadyExistsError());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(conflict(new MemberAlreadyExistsError()));
+  });
+
+  it('should return 204 on success', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(noContent());
+  });
+});
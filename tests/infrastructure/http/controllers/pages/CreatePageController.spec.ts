@@ -1,4 +1,7 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { Page } from '@domain/entities/Page';
 import { CreatePageController } from '@infrastructure/http/controllers/pages/CreatePageController';
+import { notFound } from '@infrastructure/http/helpers/http';
 import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
 import {
   CreatePageStub,
@@ -51,7 +54,7 @@ const makeFakeHttpRequest = (): HttpRequest => {
     content,
     favorite,
     pageSettings,
-    path,
+    parentId,
     workspaceId,
   } = mockPage();
 
@@ -63,9 +66,10 @@ const makeFakeHttpRequest = (): HttpRequest => {
       content,
       favorite,
       pageSettings,
-      path,
+      parentId,
       workspaceId,
     },
+    userId: favorite[0],
   };
 };
 
@@ -103,6 +107,90 @@ describe('CreatePageController', () => {
     expect(addPageSpy).toHaveBeenCalled();
   });
 
+  it('should store the ancestors of the parent below it', async () => {
+    const { sut, createPageStub, addPageStub } = makeSut();
+    const createPageSpy = jest.spyOn(createPageStub, 'execute');
+    const addPageSpy = jest.spyOn(addPageStub, 'execute');
+    const { id, ancestors } = mockPage();
+    const httpRequest = makeFakeHttpRequest();
+
+    await sut.handle({
+      ...httpRequest,
+      body: { ...httpRequest.body, parentId: id },
+    });
+
+    expect(createPageSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ parentId: id, ancestors: [...ancestors, id] })
+    );
+    expect(addPageSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        pageData: expect.objectContaining({ parentId: id }),
+      })
+    );
+  });
+
+  it('should store no ancestors for a root page', async () => {
+    const { sut, createPageStub, getPageByIdStub } = makeSut();
+    const createPageSpy = jest.spyOn(createPageStub, 'execute');
+    const getPageByIdSpy = jest.spyOn(getPageByIdStub, 'execute');
+    const httpRequest = makeFakeHttpRequest();
+
+    await sut.handle({
+      ...httpRequest,
+      body: { ...httpRequest.body, parentId: null },
+    });
+
+    expect(getPageByIdSpy).toHaveBeenCalledTimes(1);
+    expect(createPageSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ parentId: null, ancestors: [] })
+    );
+  });
+
+  it('should return 404 if the parent is not found', async () => {
+    const { sut, createPageStub, getPageByIdStub } = makeSut();
+    jest
+      .spyOn(getPageByIdStub, 'execute')
+      .mockImplementation(async () => new PageNotFoundError());
+    const createPageSpy = jest.spyOn(createPageStub, 'execute');
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new PageNotFoundError()));
+    expect(createPageSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 if the parent belongs to another workspace', async () => {
+    const { sut, getPageByIdStub } = makeSut();
+    jest
+      .spyOn(getPageByIdStub, 'execute')
+      .mockImplementation(
+        async () =>
+          new Page({ ...mockPage(), workspaceId: 'another-workspace-id' })
+      );
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new PageNotFoundError()));
+  });
+
+  it('should not favorite the page for another user', async () => {
+    const { sut, createPageStub, addPageIdToFavoritesByWorkspaceIdStub } =
+      makeSut();
+    const createPageSpy = jest.spyOn(createPageStub, 'execute');
+    const addPageIdToFavoritesByWorkspaceIdSpy = jest.spyOn(
+      addPageIdToFavoritesByWorkspaceIdStub,
+      'execute'
+    );
+    const httpRequest = makeFakeHttpRequest();
+
+    await sut.handle({ ...httpRequest, userId: 'another-user-id' });
+
+    expect(createPageSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ favorite: [] })
+    );
+    expect(addPageIdToFavoritesByWorkspaceIdSpy).not.toHaveBeenCalled();
+  });
+
   it('should return 201 on success', async () => {
     const { sut } = makeSut();
     const httpRequest = makeFakeHttpRequest();
@@ -12,6 +12,7 @@ import {
   RemovePageByPageIdStub,
 } from '@tests/application/mocks/workspaces/use-cases';
 import mockPage from '@tests/domain/mock-page';
+import mockUser from '@tests/domain/mock-user';
 
 type SutTypes = {
   sut: DeletePageController;
@@ -54,6 +55,8 @@ const makeFakeHttpRequest = (): HttpRequest => {
     params: {
       pageId: id,
     },
+    userId: mockUser().id,
+    ip: '127.0.0.1',
   };
 };
 
@@ -65,7 +68,12 @@ describe('DeletePageController', () => {
     const httpRequest = makeFakeHttpRequest();
     await sut.handle(httpRequest);
 
-    expect(deletePageSpy).toHaveBeenCalledWith(httpRequest.params.pageId);
+    expect(deletePageSpy).toHaveBeenCalledWith({
+      pageId: httpRequest.params.pageId,
+      workspaceId: mockPage().workspaceId,
+      actorId: mockUser().id,
+      ip: '127.0.0.1',
+    });
   });
 
   it('should return 404 if page is not found', async () => {
@@ -81,6 +89,38 @@ describe('DeletePageController', () => {
     expect(httpResponse).toEqual(notFound(new PageNotFoundError()));
   });
 
+  it('should return 404 if the page is already in the trash', async () => {
+    const { sut, deletePageStub, removePageByPageIdStub } = makeSut();
+    jest
+      .spyOn(deletePageStub, 'execute')
+      .mockImplementation(async () => new PageNotFoundError());
+    const removePageByPageIdSpy = jest.spyOn(removePageByPageIdStub, 'execute');
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new PageNotFoundError()));
+    expect(removePageByPageIdSpy).not.toHaveBeenCalled();
+  });
+
+  it('should remove every trashed page from the workspace pages', async () => {
+    const { sut, deletePageStub, removePageByPageIdStub } = makeSut();
+    jest
+      .spyOn(deletePageStub, 'execute')
+      .mockImplementation(async () => [
+        mockPage().id,
+        '112233445566778899bbccbb',
+      ]);
+    const removePageByPageIdSpy = jest.spyOn(removePageByPageIdStub, 'execute');
+
+    await sut.handle(makeFakeHttpRequest());
+
+    expect(removePageByPageIdSpy).toHaveBeenCalledTimes(2);
+    expect(removePageByPageIdSpy).toHaveBeenCalledWith({
+      workspaceId: mockPage().workspaceId,
+      pageId: '112233445566778899bbccbb',
+    });
+  });
+
   it('should return 204 on success', async () => {
     const { sut } = makeSut();
     const httpResponse = await sut.handle(makeFakeHttpRequest());
@@ -5,6 +5,7 @@ import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
 import { DeletePagesByWorkspaceIdStub } from '@tests/application/mocks/pages/use-cases';
 import { GetWorkspaceByIdStub } from '@tests/application/mocks/workspaces/use-cases';
 import mockPage from '@tests/domain/mock-page';
+import mockUser from '@tests/domain/mock-user';
 
 type SutTypes = {
   sut: DeletePagesByWorkspaceIdController;
@@ -33,6 +34,8 @@ const makeFakeHttpRequest = (): HttpRequest => {
     params: {
       workspaceId,
     },
+    userId: mockUser().id,
+    ip: '127.0.0.1',
   };
 };
 
@@ -47,9 +50,11 @@ describe('DeletePagesByWorkspaceIdController', () => {
     const httpRequest = makeFakeHttpRequest();
     await sut.handle(httpRequest);
 
-    expect(deletePagesByWorkspaceIdSpy).toHaveBeenCalledWith(
-      httpRequest.params.workspaceId
-    );
+    expect(deletePagesByWorkspaceIdSpy).toHaveBeenCalledWith({
+      workspaceId: httpRequest.params.workspaceId,
+      actorId: mockUser().id,
+      ip: '127.0.0.1',
+    });
   });
 
   it('should return 404 if workspace is not found', async () => {
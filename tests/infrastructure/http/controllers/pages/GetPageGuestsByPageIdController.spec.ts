@@ -0,0 +1,52 @@
+import { GetPageGuestsByPageIdController } from '@infrastructure/http/controllers/pages/GetPageGuestsByPageIdController';
+import { ok } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { GetPageGuestsByPageIdStub } from '@tests/application/mocks/pages/use-cases';
+import mockPage from '@tests/domain/mock-page';
+import mockPageGuest from '@tests/domain/mock-page-guest';
+
+type SutTypes = {
+  sut: GetPageGuestsByPageIdController;
+  getPageGuestsByPageIdStub: GetPageGuestsByPageIdStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getPageGuestsByPageIdStub = new GetPageGuestsByPageIdStub();
+  const sut = new GetPageGuestsByPageIdController(getPageGuestsByPageIdStub);
+
+  return {
+    getPageGuestsByPageIdStub,
+    sut,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  return {
+    params: {
+      pageId: mockPage().id,
+    },
+  };
+};
+
+describe('GetPageGuestsByPageIdController', () => {
+  it('should call GetPageGuestsByPageId with correct params', async () => {
+    const { sut, getPageGuestsByPageIdStub } = makeSut();
+
+    const getPageGuestsByPageIdSpy = jest.spyOn(
+      getPageGuestsByPageIdStub,
+      'execute'
+    );
+
+    await sut.handle(makeFakeHttpRequest());
+
+    expect(getPageGuestsByPageIdSpy).toHaveBeenCalledWith(mockPage().id);
+  });
+
+  it('should return 200 with the page guests', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(ok([mockPageGuest()]));
+  });
+});
@@ -0,0 +1,90 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { GetPublicPageBySlugController } from '@infrastructure/http/controllers/pages/GetPublicPageBySlugController';
+import { notFound, ok } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { GetPublicPageBySlugStub } from '@tests/application/mocks/pages/use-cases';
+import { mockPublishedPage } from '@tests/domain/mock-page';
+
+type SutTypes = {
+  sut: GetPublicPageBySlugController;
+  getPublicPageBySlugStub: GetPublicPageBySlugStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getPublicPageBySlugStub = new GetPublicPageBySlugStub();
+  const sut = new GetPublicPageBySlugController(getPublicPageBySlugStub);
+
+  return {
+    getPublicPageBySlugStub,
+    sut,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  return {
+    params: {
+      slug: 'sample-public-slug',
+    },
+  };
+};
+
+describe('GetPublicPageBySlugController', () => {
+  it('should call GetPublicPageBySlug with correct params', async () => {
+    const { sut, getPublicPageBySlugStub } = makeSut();
+
+    const getPublicPageBySlugSpy = jest.spyOn(
+      getPublicPageBySlugStub,
+      'execute'
+    );
+
+    await sut.handle(makeFakeHttpRequest());
+
+    expect(getPublicPageBySlugSpy).toHaveBeenCalledWith({
+      slug: 'sample-public-slug',
+      pageId: undefined,
+    });
+  });
+
+  it('should return 404 if the page is not published', async () => {
+    const { sut, getPublicPageBySlugStub } = makeSut();
+
+    jest
+      .spyOn(getPublicPageBySlugStub, 'execute')
+      .mockImplementation(async () => new PageNotFoundError());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new PageNotFoundError()));
+  });
+
+  it('should return 200 with the public page', async () => {
+    const { sut } = makeSut();
+    const { id, title } = mockPublishedPage();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(
+      ok(expect.objectContaining({ id, title, children: [] }), {
+        'X-Robots-Tag': 'noindex',
+      })
+    );
+  });
+
+  it('should not send the noindex header if indexing is allowed', async () => {
+    const { sut, getPublicPageBySlugStub } = makeSut();
+    const publicPage = await getPublicPageBySlugStub.execute({
+      slug: 'sample-public-slug',
+    });
+
+    jest
+      .spyOn(getPublicPageBySlugStub, 'execute')
+      .mockImplementation(async () => ({
+        ...publicPage,
+        allowIndexing: true,
+      }));
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse.headers).toBeUndefined();
+  });
+});
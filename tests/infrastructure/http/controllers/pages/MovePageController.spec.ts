@@ -0,0 +1,218 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { InvalidPageMoveError } from '@application/errors/InvalidPageMoveError';
+import { PageLockedError } from '@application/errors/PageLockedError';
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { Page } from '@domain/entities/Page';
+import { MovePageController } from '@infrastructure/http/controllers/pages/MovePageController';
+import { PermissionError } from '@infrastructure/http/errors/PermissionError';
+import {
+  conflict,
+  forbidden,
+  locked,
+  noContent,
+  notFound,
+} from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { MovePageStub } from '@tests/application/mocks/pages/use-cases';
+import {
+  AddPageStub,
+  RemovePageByPageIdStub,
+  UpdateWorkspacePagesMetaDataByPageIdStub,
+} from '@tests/application/mocks/workspaces/use-cases';
+import mockPage from '@tests/domain/mock-page';
+import { ValidationStub } from '@tests/infrastructure/mocks/validators';
+
+type SutTypes = {
+  sut: MovePageController;
+  validationStub: ValidationStub;
+  movePageStub: MovePageStub;
+  updateWorkspacePagesMetaDataByPageIdStub: UpdateWorkspacePagesMetaDataByPageIdStub;
+  removePageByPageIdStub: RemovePageByPageIdStub;
+  addPageStub: AddPageStub;
+};
+
+const makeSut = (): SutTypes => {
+  const validationStub = new ValidationStub();
+  const movePageStub = new MovePageStub();
+  const updateWorkspacePagesMetaDataByPageIdStub =
+    new UpdateWorkspacePagesMetaDataByPageIdStub();
+  const removePageByPageIdStub = new RemovePageByPageIdStub();
+  const addPageStub = new AddPageStub();
+  const sut = new MovePageController(
+    validationStub,
+    movePageStub,
+    updateWorkspacePagesMetaDataByPageIdStub,
+    removePageByPageIdStub,
+    addPageStub
+  );
+  return {
+    sut,
+    validationStub,
+    movePageStub,
+    updateWorkspacePagesMetaDataByPageIdStub,
+    removePageByPageIdStub,
+    addPageStub,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  const { id } = mockPage();
+  return {
+    params: {
+      pageId: id,
+    },
+    body: {
+      parentId: 'sample-parent-id',
+    },
+    userId: 'sample-member-1',
+  };
+};
+
+describe('MovePageController', () => {
+  it('should call MovePage with correct params', async () => {
+    const { sut, movePageStub } = makeSut();
+    const movePageSpy = jest.spyOn(movePageStub, 'execute');
+    const httpRequest = makeFakeHttpRequest();
+
+    await sut.handle(httpRequest);
+
+    expect(movePageSpy).toHaveBeenCalledWith({
+      pageId: httpRequest.params.pageId,
+      userId: httpRequest.userId,
+      parentId: httpRequest.body.parentId,
+      workspaceId: undefined,
+    });
+  });
+
+  it('should update the workspace page metadata of pages moved within the workspace', async () => {
+    const { sut, updateWorkspacePagesMetaDataByPageIdStub, addPageStub } =
+      makeSut();
+    const updateWorkspacePagesMetaDataByPageIdSpy = jest.spyOn(
+      updateWorkspacePagesMetaDataByPageIdStub,
+      'execute'
+    );
+    const addPageSpy = jest.spyOn(addPageStub, 'execute');
+    const { id, parentId, workspaceId } = mockPage();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(updateWorkspacePagesMetaDataByPageIdSpy).toHaveBeenCalledWith({
+      workspaceId,
+      pageId: id,
+      pageData: { parentId },
+    });
+    expect(addPageSpy).not.toHaveBeenCalled();
+    expect(httpResponse).toEqual(noContent());
+  });
+
+  it('should move the workspace page metadata of pages moved to another workspace', async () => {
+    const { sut, movePageStub, removePageByPageIdStub, addPageStub } =
+      makeSut();
+    const page = new Page({
+      ...mockPage(),
+      workspaceId: 'sample-target-workspace-id',
+    });
+    jest.spyOn(movePageStub, 'execute').mockImplementation(async () => ({
+      previousWorkspaceId: mockPage().workspaceId,
+      pages: [page],
+    }));
+    const removePageByPageIdSpy = jest.spyOn(removePageByPageIdStub, 'execute');
+    const addPageSpy = jest.spyOn(addPageStub, 'execute');
+
+    await sut.handle(makeFakeHttpRequest());
+
+    expect(removePageByPageIdSpy).toHaveBeenCalledWith({
+      workspaceId: mockPage().workspaceId,
+      pageId: page.id,
+    });
+    expect(addPageSpy).toHaveBeenCalledWith({
+      workspaceId: 'sample-target-workspace-id',
+      pageData: {
+        id: page.id,
+        reference: page.reference,
+        parentId: page.parentId,
+        icon: page.icon,
+        title: page.title,
+        createdAt: page.createdAt,
+      },
+    });
+  });
+
+  it('should return 404 if MovePage returns a PageNotFoundError', async () => {
+    const { sut, movePageStub } = makeSut();
+    jest
+      .spyOn(movePageStub, 'execute')
+      .mockImplementation(async () => new PageNotFoundError());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new PageNotFoundError()));
+  });
+
+  it('should return 423 if the page is locked', async () => {
+    const { sut, movePageStub } = makeSut();
+    jest
+      .spyOn(movePageStub, 'execute')
+      .mockImplementation(async () => new PageLockedError());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(locked(new PageLockedError()));
+  });
+
+  it('should return 409 if the page would be moved below itself', async () => {
+    const { sut, movePageStub, updateWorkspacePagesMetaDataByPageIdStub } =
+      makeSut();
+    jest
+      .spyOn(movePageStub, 'execute')
+      .mockImplementation(async () => new InvalidPageMoveError());
+    const updateWorkspacePagesMetaDataByPageIdSpy = jest.spyOn(
+      updateWorkspacePagesMetaDataByPageIdStub,
+      'execute'
+    );
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(conflict(new InvalidPageMoveError()));
+    expect(updateWorkspacePagesMetaDataByPageIdSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return 403 if MovePage returns a ForbiddenError', async () => {
+    const { sut, movePageStub } = makeSut();
+    jest
+      .spyOn(movePageStub, 'execute')
+      .mockImplementation(async () => new ForbiddenError());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(forbidden(new PermissionError()));
+  });
+
+  it('should return 403 if an api token moves a page outside its workspace', async () => {
+    const { sut, movePageStub } = makeSut();
+    const movePageSpy = jest.spyOn(movePageStub, 'execute');
+    const httpRequest = makeFakeHttpRequest();
+
+    const httpResponse = await sut.handle({
+      ...httpRequest,
+      body: { ...httpRequest.body, workspaceId: 'another-workspace-id' },
+      apiTokenWorkspaceId: mockPage().workspaceId,
+    });
+
+    expect(httpResponse).toEqual(forbidden(new PermissionError()));
+    expect(movePageSpy).not.toHaveBeenCalled();
+  });
+
+  it('should let an api token move a page within its workspace', async () => {
+    const { sut } = makeSut();
+    const httpRequest = makeFakeHttpRequest();
+
+    const httpResponse = await sut.handle({
+      ...httpRequest,
+      body: { ...httpRequest.body, workspaceId: mockPage().workspaceId },
+      apiTokenWorkspaceId: mockPage().workspaceId,
+    });
+
+    expect(httpResponse).toEqual(noContent());
+  });
+});
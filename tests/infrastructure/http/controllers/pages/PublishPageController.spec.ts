@@ -0,0 +1,80 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { PublishPageController } from '@infrastructure/http/controllers/pages/PublishPageController';
+import { notFound, ok } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { PublishPageStub } from '@tests/application/mocks/pages/use-cases';
+import mockPage, { mockPublishedPage } from '@tests/domain/mock-page';
+import { ValidationStub } from '@tests/infrastructure/mocks/validators';
+
+type SutTypes = {
+  sut: PublishPageController;
+  validationStub: ValidationStub;
+  publishPageStub: PublishPageStub;
+};
+
+const makeSut = (): SutTypes => {
+  const validationStub = new ValidationStub();
+  const publishPageStub = new PublishPageStub();
+  const sut = new PublishPageController(validationStub, publishPageStub);
+
+  return {
+    validationStub,
+    publishPageStub,
+    sut,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  return {
+    params: {
+      pageId: mockPage().id,
+    },
+    body: {
+      includeChildren: true,
+      allowIndexing: false,
+      expiresInDays: 30,
+    },
+  };
+};
+
+describe('PublishPageController', () => {
+  it('should call PublishPage with correct params', async () => {
+    const { sut, publishPageStub } = makeSut();
+
+    const publishPageSpy = jest.spyOn(publishPageStub, 'execute');
+
+    await sut.handle(makeFakeHttpRequest());
+
+    expect(publishPageSpy).toHaveBeenCalledWith({
+      pageId: mockPage().id,
+      includeChildren: true,
+      allowIndexing: false,
+      expiresInDays: 30,
+    });
+  });
+
+  it('should return 404 if the page is not found', async () => {
+    const { sut, publishPageStub } = makeSut();
+
+    jest
+      .spyOn(publishPageStub, 'execute')
+      .mockImplementation(async () => new PageNotFoundError());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new PageNotFoundError()));
+  });
+
+  it('should return 200 with the publication on success', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(
+      ok({
+        ...mockPublishedPage().publication,
+        publishedAt: expect.any(Date),
+      })
+    );
+  });
+});
@@ -0,0 +1,64 @@
+import { PageGuestNotFoundError } from '@application/errors/PageGuestNotFoundError';
+import { RemovePageGuestController } from '@infrastructure/http/controllers/pages/RemovePageGuestController';
+import { noContent, notFound } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { RemovePageGuestStub } from '@tests/application/mocks/pages/use-cases';
+import mockPageGuest from '@tests/domain/mock-page-guest';
+
+type SutTypes = {
+  sut: RemovePageGuestController;
+  removePageGuestStub: RemovePageGuestStub;
+};
+
+const makeSut = (): SutTypes => {
+  const removePageGuestStub = new RemovePageGuestStub();
+  const sut = new RemovePageGuestController(removePageGuestStub);
+
+  return {
+    removePageGuestStub,
+    sut,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  const { pageId, userId } = mockPageGuest();
+  return {
+    params: {
+      pageId,
+      guestId: userId,
+    },
+  };
+};
+
+describe('RemovePageGuestController', () => {
+  it('should call RemovePageGuest with correct params', async () => {
+    const { sut, removePageGuestStub } = makeSut();
+
+    const removePageGuestSpy = jest.spyOn(removePageGuestStub, 'execute');
+
+    await sut.handle(makeFakeHttpRequest());
+
+    const { pageId, userId } = mockPageGuest();
+    expect(removePageGuestSpy).toHaveBeenCalledWith({ pageId, userId });
+  });
+
+  it('should return 404 if the guest is not found', async () => {
+    const { sut, removePageGuestStub } = makeSut();
+
+    jest
+      .spyOn(removePageGuestStub, 'execute')
+      .mockImplementation(async () => new PageGuestNotFoundError());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new PageGuestNotFoundError()));
+  });
+
+  it('should return 204 on success', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(noContent());
+  });
+});
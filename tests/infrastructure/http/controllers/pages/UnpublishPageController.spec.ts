@@ -0,0 +1,61 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { UnpublishPageController } from '@infrastructure/http/controllers/pages/UnpublishPageController';
+import { noContent, notFound } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { UnpublishPageStub } from '@tests/application/mocks/pages/use-cases';
+import mockPage from '@tests/domain/mock-page';
+
+type SutTypes = {
+  sut: UnpublishPageController;
+  unpublishPageStub: UnpublishPageStub;
+};
+
+const makeSut = (): SutTypes => {
+  const unpublishPageStub = new UnpublishPageStub();
+  const sut = new UnpublishPageController(unpublishPageStub);
+
+  return {
+    unpublishPageStub,
+    sut,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  return {
+    params: {
+      pageId: mockPage().id,
+    },
+  };
+};
+
+describe('UnpublishPageController', () => {
+  it('should call UnpublishPage with correct params', async () => {
+    const { sut, unpublishPageStub } = makeSut();
+
+    const unpublishPageSpy = jest.spyOn(unpublishPageStub, 'execute');
+
+    await sut.handle(makeFakeHttpRequest());
+
+    expect(unpublishPageSpy).toHaveBeenCalledWith(mockPage().id);
+  });
+
+  it('should return 404 if the page is not found', async () => {
+    const { sut, unpublishPageStub } = makeSut();
+
+    jest
+      .spyOn(unpublishPageStub, 'execute')
+      .mockImplementation(async () => new PageNotFoundError());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new PageNotFoundError()));
+  });
+
+  it('should return 204 on success', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(noContent());
+  });
+});
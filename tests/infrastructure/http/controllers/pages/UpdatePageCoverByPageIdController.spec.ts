@@ -1,6 +1,7 @@
+import { PageLockedError } from '@application/errors/PageLockedError';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { UpdatePageCoverByPageIdController } from '@infrastructure/http/controllers/pages/UpdatePageCoverByPageIdController';
-import { noContent, notFound } from '@infrastructure/http/helpers/http';
+import { locked, noContent, notFound } from '@infrastructure/http/helpers/http';
 import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
 import {
   GetPageByIdStub,
@@ -85,4 +86,15 @@ describe('UpdatePageCoverByPageIdController', () => {
     const httpResponse = await sut.handle(makeFakeHttpRequest());
     expect(httpResponse).toEqual(noContent());
   });
+
+  it('should return 423 if the page is locked', async () => {
+    const { sut, updatePageCoverByPageIdStub } = makeSut();
+    jest
+      .spyOn(updatePageCoverByPageIdStub, 'execute')
+      .mockImplementation(async () => new PageLockedError());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(locked(new PageLockedError()));
+  });
 });
@@ -1,6 +1,7 @@
+import { PageLockedError } from '@application/errors/PageLockedError';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { UpdatePageIconByPageIdController } from '@infrastructure/http/controllers/pages/UpdatePageIconByPageIdController';
-import { noContent, notFound } from '@infrastructure/http/helpers/http';
+import { locked, noContent, notFound } from '@infrastructure/http/helpers/http';
 import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
 import {
   GetPageByIdStub,
@@ -92,4 +93,24 @@ describe('UpdatePageIconByPageIdController', () => {
     const httpResponse = await sut.handle(makeFakeHttpRequest());
     expect(httpResponse).toEqual(noContent());
   });
+
+  it('should return 423 if the page is locked', async () => {
+    const {
+      sut,
+      updatePageIconByPageIdStub,
+      updateWorkspacePagesMetaDataByPageIdStub,
+    } = makeSut();
+    jest
+      .spyOn(updatePageIconByPageIdStub, 'execute')
+      .mockImplementation(async () => new PageLockedError());
+    const updateWorkspacePagesMetaDataByPageIdSpy = jest.spyOn(
+      updateWorkspacePagesMetaDataByPageIdStub,
+      'execute'
+    );
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(locked(new PageLockedError()));
+    expect(updateWorkspacePagesMetaDataByPageIdSpy).not.toHaveBeenCalled();
+  });
 });
@@ -1,12 +1,14 @@
+import { PageLockedError } from '@application/errors/PageLockedError';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { UpdatePageSettingsByPageIdController } from '@infrastructure/http/controllers/pages/UpdatePageSettingsByPageIdController';
-import { noContent, notFound } from '@infrastructure/http/helpers/http';
+import { locked, noContent, notFound } from '@infrastructure/http/helpers/http';
 import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
 import {
   GetPageByIdStub,
   UpdatePageSettingsByPageIdStub,
 } from '@tests/application/mocks/pages/use-cases';
 import mockPage from '@tests/domain/mock-page';
+import mockUser from '@tests/domain/mock-user';
 import { ValidationStub } from '@tests/infrastructure/mocks/validators';
 
 type SutTypes = {
@@ -42,6 +44,8 @@ const makeFakeHttpRequest = (): HttpRequest => {
     body: {
       settings: pageSettings,
     },
+    userId: mockUser().id,
+    ip: '127.0.0.1',
   };
 };
 
@@ -58,6 +62,8 @@ describe('UpdatePageSettingsByPageIdController', () => {
     expect(updatePageSettingsByPageIdSpy).toHaveBeenCalledWith({
       pageId: httpRequest.params.pageId,
       settings: httpRequest.body.settings,
+      actorId: httpRequest.userId,
+      ip: httpRequest.ip,
     });
   });
 
@@ -75,4 +81,15 @@ describe('UpdatePageSettingsByPageIdController', () => {
     const httpResponse = await sut.handle(makeFakeHttpRequest());
     expect(httpResponse).toEqual(noContent());
   });
+
+  it('should return 423 if the page is locked', async () => {
+    const { sut, updatePageSettingsByPageIdStub } = makeSut();
+    jest
+      .spyOn(updatePageSettingsByPageIdStub, 'execute')
+      .mockImplementation(async () => new PageLockedError());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(locked(new PageLockedError()));
+  });
 });
@@ -1,11 +1,10 @@
+import { PageLockedError } from '@application/errors/PageLockedError';
 import { PageNotFoundError } from '@application/errors/PageNotFoundError';
 import { UpdatePageTitleByPageIdController } from '@infrastructure/http/controllers/pages/UpdatePageTitleByPageIdController';
-import { noContent, notFound } from '@infrastructure/http/helpers/http';
+import { locked, noContent, notFound } from '@infrastructure/http/helpers/http';
 import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
 import {
   GetPageByIdStub,
-  GetPageIdsByPathStub,
-  UpdatePagePathByPageIdStub,
   UpdatePageTitleByPageIdStub,
 } from '@tests/application/mocks/pages/use-cases';
 import { UpdateWorkspacePagesMetaDataByPageIdStub } from '@tests/application/mocks/workspaces/use-cases';
@@ -23,18 +22,14 @@ type SutTypes = {
 const makeSut = (): SutTypes => {
   const validationStub = new ValidationStub();
   const getPageByIdStub = new GetPageByIdStub();
-  const getPageIdsByPathStub = new GetPageIdsByPathStub();
   const updatePageTitleByPageIdStub = new UpdatePageTitleByPageIdStub();
-  const updatePagePathByPageIdStub = new UpdatePagePathByPageIdStub();
   const updateWorkspacePagesMetaDataByPageIdStub =
     new UpdateWorkspacePagesMetaDataByPageIdStub();
 
   const sut = new UpdatePageTitleByPageIdController(
     validationStub,
     getPageByIdStub,
-    getPageIdsByPathStub,
     updatePageTitleByPageIdStub,
-    updatePagePathByPageIdStub,
     updateWorkspacePagesMetaDataByPageIdStub
   );
   return {
@@ -88,4 +83,24 @@ describe('UpdatePageTitleByPageIdController', () => {
     const httpResponse = await sut.handle(makeFakeHttpRequest());
     expect(httpResponse).toEqual(noContent());
   });
+
+  it('should return 423 if the page is locked', async () => {
+    const {
+      sut,
+      updatePageTitleByPageIdStub,
+      updateWorkspacePagesMetaDataByPageIdStub,
+    } = makeSut();
+    jest
+      .spyOn(updatePageTitleByPageIdStub, 'execute')
+      .mockImplementation(async () => new PageLockedError());
+    const updateWorkspacePagesMetaDataByPageIdSpy = jest.spyOn(
+      updateWorkspacePagesMetaDataByPageIdStub,
+      'execute'
+    );
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(locked(new PageLockedError()));
+    expect(updateWorkspacePagesMetaDataByPageIdSpy).not.toHaveBeenCalled();
+  });
 });
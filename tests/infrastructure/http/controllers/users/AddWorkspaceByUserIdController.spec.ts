@@ -1,6 +1,8 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
 import { UserNotFoundError } from '@application/errors/UserNotFoundError';
 import { AddWorkspaceByUserIdController } from '@infrastructure/http/controllers/users/AddWorkspaceByUserIdController';
-import { notFound } from '@infrastructure/http/helpers/http';
+import { forbidden, notFound } from '@infrastructure/http/helpers/http';
+import { PermissionError } from '@infrastructure/http/errors/PermissionError';
 import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
 import {
   AddWorkspaceByUserIdStub,
@@ -74,6 +76,18 @@ describe('AddWorkspaceByUserIdController', () => {
     expect(httpResponse).toEqual(notFound(new UserNotFoundError()));
   });
 
+  it('should return 403 if the user is not a member of the workspace', async () => {
+    const { sut, addWorkspaceByUserIdStub } = makeSut();
+
+    jest
+      .spyOn(addWorkspaceByUserIdStub, 'execute')
+      .mockImplementation(async () => new ForbiddenError());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(forbidden(new PermissionError()));
+  });
+
   it('should return 204 on success', async () => {
     const { sut } = makeSut();
     const httpRequest = makeFakeHttpRequest();
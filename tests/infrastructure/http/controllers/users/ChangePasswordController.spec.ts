@@ -0,0 +1,151 @@
+import { InvalidPasswordError } from '@application/errors/InvalidPasswordError';
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
+import { ChangePasswordController } from '@infrastructure/http/controllers/users/ChangePasswordController';
+import { PermissionError } from '@infrastructure/http/errors/PermissionError';
+import { forbidden, notFound, ok } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import {
+  ChangePasswordStub,
+  SignInStub,
+} from '@tests/application/mocks/users/use-cases';
+import mockUser from '@tests/domain/mock-user';
+import { ValidationStub } from '@tests/infrastructure/mocks/validators';
+
+type SutTypes = {
+  sut: ChangePasswordController;
+  validationStub: ValidationStub;
+  changePasswordStub: ChangePasswordStub;
+  signInStub: SignInStub;
+};
+
+const makeSut = (): SutTypes => {
+  const validationStub = new ValidationStub();
+  const changePasswordStub = new ChangePasswordStub();
+  const signInStub = new SignInStub();
+  const sut = new ChangePasswordController(
+    validationStub,
+    changePasswordStub,
+    signInStub
+  );
+  return {
+    validationStub,
+    changePasswordStub,
+    signInStub,
+    sut,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  const { id } = mockUser();
+  return {
+    params: {
+      userId: id,
+    },
+    body: {
+      currentPassword: 'sample-password',
+      newPassword: 'new-password',
+    },
+    headers: {
+      'user-agent': 'sample-user-agent',
+    },
+    ip: '127.0.0.1',
+    userId: id,
+  };
+};
+
+describe('ChangePasswordController', () => {
+  it('should return 403 if the user changes the password of someone else', async () => {
+    const { sut, changePasswordStub } = makeSut();
+
+    const changePasswordSpy = jest.spyOn(changePasswordStub, 'execute');
+
+    const httpResponse = await sut.handle({
+      ...makeFakeHttpRequest(),
+      userId: 'another-user-id',
+    });
+
+    expect(httpResponse).toEqual(forbidden(new PermissionError()));
+    expect(changePasswordSpy).not.toHaveBeenCalled();
+  });
+
+  it('should call ChangePassword with correct params', async () => {
+    const { sut, changePasswordStub } = makeSut();
+
+    const changePasswordSpy = jest.spyOn(changePasswordStub, 'execute');
+
+    const httpRequest = makeFakeHttpRequest();
+    await sut.handle(httpRequest);
+
+    expect(changePasswordSpy).toHaveBeenCalledWith({
+      userId: httpRequest.params.userId,
+      ...httpRequest.body,
+      ip: '127.0.0.1',
+    });
+  });
+
+  it('should return 404 if user is not found', async () => {
+    const { sut, changePasswordStub } = makeSut();
+
+    jest.spyOn(changePasswordStub, 'execute').mockImplementation(async () => {
+      return new UserNotFoundError();
+    });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new UserNotFoundError()));
+  });
+
+  it('should return 403 if the current password is wrong', async () => {
+    const { sut, changePasswordStub } = makeSut();
+
+    jest.spyOn(changePasswordStub, 'execute').mockImplementation(async () => {
+      return new InvalidPasswordError();
+    });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(forbidden(new InvalidPasswordError()));
+  });
+
+  it('should sign the caller in again with the new password', async () => {
+    const { sut, signInStub } = makeSut();
+
+    const signInSpy = jest.spyOn(signInStub, 'execute');
+
+    await sut.handle(makeFakeHttpRequest());
+
+    expect(signInSpy).toHaveBeenCalledWith({
+      email: mockUser().email,
+      password: 'new-password',
+      userAgent: 'sample-user-agent',
+      ip: '127.0.0.1',
+    });
+  });
+
+  it('should return 200 with a new session on success', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(
+      ok(
+        {
+          accessToken: 'sample-access-token',
+        },
+        { token: 'sample-refresh-token' }
+      )
+    );
+  });
+
+  it('should return the mfa challenge without a cookie if two-factor is enabled', async () => {
+    const { sut, signInStub } = makeSut();
+
+    jest.spyOn(signInStub, 'execute').mockImplementation(async () => {
+      return { mfaToken: 'sample-mfa-token' };
+    });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(ok({ mfaToken: 'sample-mfa-token' }));
+  });
+});
@@ -0,0 +1,257 @@
+import { EmailInUseError } from '@application/errors/EmailInUseError';
+import { IdentityProviderNotFoundError } from '@application/errors/IdentityProviderNotFoundError';
+import { InvalidTokenError } from '@application/errors/InvalidTokenError';
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { UnverifiedEmailError } from '@application/errors/UnverifiedEmailError';
+import { CompleteOidcSignInController } from '@infrastructure/http/controllers/users/CompleteOidcSignInController';
+import {
+  conflict,
+  forbidden,
+  notFound,
+  ok,
+  unauthorized,
+} from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import {
+  CreatePageStub,
+  GetPageByIdStub,
+} from '@tests/application/mocks/pages/use-cases';
+import {
+  CompleteOidcSignInStub,
+  CreateSessionStub,
+  SignUpWithIdentityStub,
+} from '@tests/application/mocks/users/use-cases';
+import {
+  AddMemberByWorkspaceIdStub,
+  AddPageStub,
+  CreateWorkspaceStub,
+} from '@tests/application/mocks/workspaces/use-cases';
+import mockUser from '@tests/domain/mock-user';
+import mockWorkspace from '@tests/domain/mock-workspace';
+import { ValidationStub } from '@tests/infrastructure/mocks/validators';
+
+type SutTypes = {
+  sut: CompleteOidcSignInController;
+  validationStub: ValidationStub;
+  completeOidcSignInStub: CompleteOidcSignInStub;
+  signUpWithIdentityStub: SignUpWithIdentityStub;
+  createSessionStub: CreateSessionStub;
+  createWorkspaceStub: CreateWorkspaceStub;
+  createPageStub: CreatePageStub;
+  addMemberByWorkspaceIdStub: AddMemberByWorkspaceIdStub;
+  addPageStub: AddPageStub;
+  getPageByIdStub: GetPageByIdStub;
+};
+
+const makeSut = (): SutTypes => {
+  const validationStub = new ValidationStub();
+  const completeOidcSignInStub = new CompleteOidcSignInStub();
+  const signUpWithIdentityStub = new SignUpWithIdentityStub();
+  const createSessionStub = new CreateSessionStub();
+  const createWorkspaceStub = new CreateWorkspaceStub();
+  const createPageStub = new CreatePageStub();
+  const addMemberByWorkspaceIdStub = new AddMemberByWorkspaceIdStub();
+  const addPageStub = new AddPageStub();
+  const getPageByIdStub = new GetPageByIdStub();
+
+  const sut = new CompleteOidcSignInController(
+    validationStub,
+    completeOidcSignInStub,
+    signUpWithIdentityStub,
+    createSessionStub,
+    createWorkspaceStub,
+    createPageStub,
+    addMemberByWorkspaceIdStub,
+    addPageStub,
+    getPageByIdStub
+  );
+
+  return {
+    sut,
+    validationStub,
+    completeOidcSignInStub,
+    signUpWithIdentityStub,
+    createSessionStub,
+    createWorkspaceStub,
+    createPageStub,
+    addMemberByWorkspaceIdStub,
+    addPageStub,
+    getPageByIdStub,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => ({
+  params: { provider: 'sample-provider' },
+  body: { code: 'sample-code', state: 'sample-state' },
+  headers: { 'user-agent': 'sample-user-agent' },
+  ip: '127.0.0.1',
+});
+
+const mockIdentity = () => ({
+  subject: 'sample-subject',
+  email: 'new@email.com',
+  emailVerified: true,
+  name: 'sample-name',
+});
+
+describe('CompleteOidcSignInController', () => {
+  it('should call CompleteOidcSignIn with given params', async () => {
+    const { sut, completeOidcSignInStub } = makeSut();
+    const completeOidcSignInSpy = jest.spyOn(completeOidcSignInStub, 'execute');
+
+    await sut.handle(makeFakeHttpRequest());
+
+    expect(completeOidcSignInSpy).toHaveBeenCalledWith({
+      provider: 'sample-provider',
+      code: 'sample-code',
+      state: 'sample-state',
+    });
+  });
+
+  it('should return 404 if the provider is not configured', async () => {
+    const { sut, completeOidcSignInStub } = makeSut();
+    jest
+      .spyOn(completeOidcSignInStub, 'execute')
+      .mockImplementation(async () => new IdentityProviderNotFoundError());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new IdentityProviderNotFoundError()));
+  });
+
+  it('should return 401 if the state or code is invalid', async () => {
+    const { sut, completeOidcSignInStub } = makeSut();
+    jest
+      .spyOn(completeOidcSignInStub, 'execute')
+      .mockImplementation(async () => new InvalidTokenError());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(unauthorized(new InvalidTokenError()));
+  });
+
+  it('should return 403 if the email could not be trusted', async () => {
+    const { sut, completeOidcSignInStub } = makeSut();
+    jest
+      .spyOn(completeOidcSignInStub, 'execute')
+      .mockImplementation(async () => new UnverifiedEmailError());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(forbidden(new UnverifiedEmailError()));
+  });
+
+  it('should start a session for a linked user without onboarding', async () => {
+    const {
+      sut,
+      createSessionStub,
+      createWorkspaceStub,
+      signUpWithIdentityStub,
+    } = makeSut();
+    const createSessionSpy = jest.spyOn(createSessionStub, 'execute');
+    const createWorkspaceSpy = jest.spyOn(createWorkspaceStub, 'execute');
+    const signUpWithIdentitySpy = jest.spyOn(signUpWithIdentityStub, 'execute');
+
+    await sut.handle(makeFakeHttpRequest());
+
+    expect(createSessionSpy).toHaveBeenCalledWith({
+      userId: mockUser().id,
+      userAgent: 'sample-user-agent',
+      ip: '127.0.0.1',
+    });
+    expect(createWorkspaceSpy).not.toHaveBeenCalled();
+    expect(signUpWithIdentitySpy).not.toHaveBeenCalled();
+  });
+
+  it('should onboard a new identity with a home workspace', async () => {
+    const {
+      sut,
+      completeOidcSignInStub,
+      createWorkspaceStub,
+      signUpWithIdentityStub,
+      addMemberByWorkspaceIdStub,
+    } = makeSut();
+    jest
+      .spyOn(completeOidcSignInStub, 'execute')
+      .mockImplementation(async () => ({ identity: mockIdentity() }));
+    const createWorkspaceSpy = jest.spyOn(createWorkspaceStub, 'execute');
+    const signUpWithIdentitySpy = jest.spyOn(signUpWithIdentityStub, 'execute');
+    const addMemberByWorkspaceIdSpy = jest.spyOn(
+      addMemberByWorkspaceIdStub,
+      'execute'
+    );
+
+    await sut.handle(makeFakeHttpRequest());
+
+    expect(createWorkspaceSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'home-workspace' })
+    );
+    expect(signUpWithIdentitySpy).toHaveBeenCalledWith({
+      provider: 'sample-provider',
+      identity: mockIdentity(),
+      workspaces: [
+        expect.objectContaining({ workspaceId: mockWorkspace().id }),
+      ],
+    });
+    expect(addMemberByWorkspaceIdSpy).toHaveBeenCalledWith({
+      workspaceId: mockWorkspace().id,
+      memberId: mockUser().id,
+      role: 'owner',
+      actorId: mockUser().id,
+      ip: '127.0.0.1',
+    });
+  });
+
+  it('should return 403 if the starter page is not found', async () => {
+    const { sut, completeOidcSignInStub, getPageByIdStub } = makeSut();
+    jest
+      .spyOn(completeOidcSignInStub, 'execute')
+      .mockImplementation(async () => ({ identity: mockIdentity() }));
+    jest
+      .spyOn(getPageByIdStub, 'execute')
+      .mockImplementation(async () => new PageNotFoundError());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(forbidden(new PageNotFoundError()));
+  });
+
+  it('should return 409 if the email was registered meanwhile', async () => {
+    const { sut, completeOidcSignInStub, signUpWithIdentityStub } = makeSut();
+    jest
+      .spyOn(completeOidcSignInStub, 'execute')
+      .mockImplementation(async () => ({ identity: mockIdentity() }));
+    jest
+      .spyOn(signUpWithIdentityStub, 'execute')
+      .mockImplementation(async () => new EmailInUseError());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(conflict(new EmailInUseError()));
+  });
+
+  it('should return the mfa challenge without a cookie if two-factor is enabled', async () => {
+    const { sut, createSessionStub } = makeSut();
+    jest
+      .spyOn(createSessionStub, 'execute')
+      .mockImplementation(async () => ({ mfaToken: 'sample-mfa-token' }));
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(ok({ mfaToken: 'sample-mfa-token' }));
+    expect(httpResponse.headers).toBeUndefined();
+  });
+
+  it('should return 200 on success', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(
+      ok(
+        { accessToken: 'sample-access-token' },
+        { token: 'sample-refresh-token' }
+      )
+    );
+  });
+});
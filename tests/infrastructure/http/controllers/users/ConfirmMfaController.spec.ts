@@ -0,0 +1,100 @@
+import { InvalidMfaCodeError } from '@application/errors/InvalidMfaCodeError';
+import { MfaNotEnrolledError } from '@application/errors/MfaNotEnrolledError';
+import { ConfirmMfaController } from '@infrastructure/http/controllers/users/ConfirmMfaController';
+import { PermissionError } from '@infrastructure/http/errors/PermissionError';
+import { conflict, forbidden, ok } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { ConfirmMfaStub } from '@tests/application/mocks/users/use-cases';
+import mockUser from '@tests/domain/mock-user';
+import { ValidationStub } from '@tests/infrastructure/mocks/validators';
+
+type SutTypes = {
+  sut: ConfirmMfaController;
+  validationStub: ValidationStub;
+  confirmMfaStub: ConfirmMfaStub;
+};
+
+const makeSut = (): SutTypes => {
+  const validationStub = new ValidationStub();
+  const confirmMfaStub = new ConfirmMfaStub();
+  const sut = new ConfirmMfaController(validationStub, confirmMfaStub);
+  return {
+    validationStub,
+    confirmMfaStub,
+    sut,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  const { id } = mockUser();
+  return {
+    params: {
+      userId: id,
+    },
+    body: {
+      code: '123456',
+    },
+    userId: id,
+  };
+};
+
+describe('ConfirmMfaController', () => {
+  it('should return 403 if the user confirms for someone else', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle({
+      ...makeFakeHttpRequest(),
+      userId: 'another-user-id',
+    });
+
+    expect(httpResponse).toEqual(forbidden(new PermissionError()));
+  });
+
+  it('should call ConfirmMfa with correct params', async () => {
+    const { sut, confirmMfaStub } = makeSut();
+
+    const confirmMfaSpy = jest.spyOn(confirmMfaStub, 'execute');
+
+    const httpRequest = makeFakeHttpRequest();
+    await sut.handle(httpRequest);
+
+    expect(confirmMfaSpy).toHaveBeenCalledWith({
+      userId: httpRequest.params.userId,
+      code: '123456',
+    });
+  });
+
+  it('should return 409 if no secret was enrolled', async () => {
+    const { sut, confirmMfaStub } = makeSut();
+
+    jest.spyOn(confirmMfaStub, 'execute').mockImplementation(async () => {
+      return new MfaNotEnrolledError();
+    });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(conflict(new MfaNotEnrolledError()));
+  });
+
+  it('should return 403 if the code is wrong', async () => {
+    const { sut, confirmMfaStub } = makeSut();
+
+    jest.spyOn(confirmMfaStub, 'execute').mockImplementation(async () => {
+      return new InvalidMfaCodeError();
+    });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(forbidden(new InvalidMfaCodeError()));
+  });
+
+  it('should return 200 with the recovery codes on success', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(
+      ok({ recoveryCodes: ['sample-recovery-code'] })
+    );
+  });
+});
@@ -0,0 +1,86 @@
+import { CreateApiTokenController } from '@infrastructure/http/controllers/users/CreateApiTokenController';
+import { PermissionError } from '@infrastructure/http/errors/PermissionError';
+import { created, forbidden } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { CreateApiTokenStub } from '@tests/application/mocks/users/use-cases';
+import mockUser from '@tests/domain/mock-user';
+import { ValidationStub } from '@tests/infrastructure/mocks/validators';
+
+type SutTypes = {
+  sut: CreateApiTokenController;
+  validationStub: ValidationStub;
+  createApiTokenStub: CreateApiTokenStub;
+};
+
+const makeSut = (): SutTypes => {
+  const validationStub = new ValidationStub();
+  const createApiTokenStub = new CreateApiTokenStub();
+  const sut = new CreateApiTokenController(validationStub, createApiTokenStub);
+
+  return {
+    validationStub,
+    createApiTokenStub,
+    sut,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  const { id } = mockUser();
+  return {
+    params: {
+      userId: id,
+    },
+    body: {
+      name: 'sample-api-token-name',
+      scopes: ['pages:read'],
+      workspaceId: 'sample-workspace-id',
+      expiresInDays: 30,
+    },
+    userId: id,
+  };
+};
+
+describe('CreateApiTokenController', () => {
+  it('should return 403 if the user creates a token for someone else', async () => {
+    const { sut, createApiTokenStub } = makeSut();
+
+    const createApiTokenSpy = jest.spyOn(createApiTokenStub, 'execute');
+
+    const httpResponse = await sut.handle({
+      ...makeFakeHttpRequest(),
+      userId: 'another-user-id',
+    });
+
+    expect(httpResponse).toEqual(forbidden(new PermissionError()));
+    expect(createApiTokenSpy).not.toHaveBeenCalled();
+  });
+
+  it('should call CreateApiToken with correct params', async () => {
+    const { sut, createApiTokenStub } = makeSut();
+
+    const createApiTokenSpy = jest.spyOn(createApiTokenStub, 'execute');
+
+    const httpRequest = makeFakeHttpRequest();
+
+    await sut.handle(httpRequest);
+
+    expect(createApiTokenSpy).toHaveBeenCalledWith({
+      userId: mockUser().id,
+      ...httpRequest.body,
+    });
+  });
+
+  it('should return 201 with the plain token', async () => {
+    const { sut, createApiTokenStub } = makeSut();
+    const apiToken = await createApiTokenStub.execute(
+      makeFakeHttpRequest().body
+    );
+    jest
+      .spyOn(createApiTokenStub, 'execute')
+      .mockImplementationOnce(async () => apiToken);
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(created(apiToken));
+  });
+});
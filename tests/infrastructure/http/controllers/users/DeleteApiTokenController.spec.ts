@@ -0,0 +1,69 @@
+import { ApiTokenNotFoundError } from '@application/errors/ApiTokenNotFoundError';
+import { DeleteApiTokenController } from '@infrastructure/http/controllers/users/DeleteApiTokenController';
+import { noContent, notFound } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { DeleteApiTokenStub } from '@tests/application/mocks/users/use-cases';
+import mockApiToken from '@tests/domain/mock-api-token';
+import mockUser from '@tests/domain/mock-user';
+
+type SutTypes = {
+  sut: DeleteApiTokenController;
+  deleteApiTokenStub: DeleteApiTokenStub;
+};
+
+const makeSut = (): SutTypes => {
+  const deleteApiTokenStub = new DeleteApiTokenStub();
+  const sut = new DeleteApiTokenController(deleteApiTokenStub);
+
+  return {
+    deleteApiTokenStub,
+    sut,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  return {
+    params: {
+      userId: mockUser().id,
+      apiTokenId: mockApiToken().id,
+    },
+    ip: '127.0.0.1',
+  };
+};
+
+describe('DeleteApiTokenController', () => {
+  it('should call DeleteApiToken with correct params', async () => {
+    const { sut, deleteApiTokenStub } = makeSut();
+
+    const deleteApiTokenSpy = jest.spyOn(deleteApiTokenStub, 'execute');
+
+    const httpRequest = makeFakeHttpRequest();
+
+    await sut.handle(httpRequest);
+
+    expect(deleteApiTokenSpy).toHaveBeenCalledWith({
+      ...httpRequest.params,
+      ip: httpRequest.ip,
+    });
+  });
+
+  it('should return 404 if the API token is not found', async () => {
+    const { sut, deleteApiTokenStub } = makeSut();
+
+    jest
+      .spyOn(deleteApiTokenStub, 'execute')
+      .mockImplementation(async () => new ApiTokenNotFoundError());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new ApiTokenNotFoundError()));
+  });
+
+  it('should return 204 on success', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(noContent());
+  });
+});
@@ -1,52 +1,43 @@
+import { InvalidPasswordError } from '@application/errors/InvalidPasswordError';
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
 import {
   DeleteUserStub,
-  GetWorkspacesByUserIdStub,
+  PurgeUserStub,
 } from '@tests/application/mocks/users/use-cases';
 import { DeleteUserController } from '@infrastructure/http/controllers/users/DeleteUserController';
+import {
+  forbidden,
+  noContent,
+  notFound,
+  ok,
+} from '@infrastructure/http/helpers/http';
 import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
 import mockUser from '@tests/domain/mock-user';
-import {
-  DeleteWorkspaceStub,
-  GetAllMembersByWorkspaceIdStub,
-  RemoveMemberByWorkspaceIdStub,
-} from '@tests/application/mocks/workspaces/use-cases';
-import { DeletePagesByWorkspaceIdStub } from '@tests/application/mocks/pages/use-cases';
+import { ValidationStub } from '@tests/infrastructure/mocks/validators';
 
 type SutTypes = {
   sut: DeleteUserController;
+  validationStub: ValidationStub;
   deleteUserStub: DeleteUserStub;
-  getWorkspaceByUserIdStub: GetWorkspacesByUserIdStub;
-  getAllMembersByWorkspaceIdStub: GetAllMembersByWorkspaceIdStub;
-  removeMemberByWorkspaceIdStub: RemoveMemberByWorkspaceIdStub;
-  deletePagesByWorkspaceIdStub: DeletePagesByWorkspaceIdStub;
-  deleteWorkspaceStub: DeleteWorkspaceStub;
+  purgeUserStub: PurgeUserStub;
 };
 
 const makeSut = (): SutTypes => {
+  const validationStub = new ValidationStub();
   const deleteUserStub = new DeleteUserStub();
-  const getWorkspaceByUserIdStub = new GetWorkspacesByUserIdStub();
-  const getAllMembersByWorkspaceIdStub = new GetAllMembersByWorkspaceIdStub();
-  const removeMemberByWorkspaceIdStub = new RemoveMemberByWorkspaceIdStub();
-  const deletePagesByWorkspaceIdStub = new DeletePagesByWorkspaceIdStub();
-  const deleteWorkspaceStub = new DeleteWorkspaceStub();
+  const purgeUserStub = new PurgeUserStub();
 
   const sut = new DeleteUserController(
+    validationStub,
     deleteUserStub,
-    getWorkspaceByUserIdStub,
-    getAllMembersByWorkspaceIdStub,
-    removeMemberByWorkspaceIdStub,
-    deletePagesByWorkspaceIdStub,
-    deleteWorkspaceStub
+    purgeUserStub
   );
 
   return {
     sut,
+    validationStub,
     deleteUserStub,
-    getWorkspaceByUserIdStub,
-    getAllMembersByWorkspaceIdStub,
-    removeMemberByWorkspaceIdStub,
-    deletePagesByWorkspaceIdStub,
-    deleteWorkspaceStub,
+    purgeUserStub,
   };
 };
 
@@ -56,105 +47,80 @@ const makeFakeHttpRequest = (): HttpRequest => {
     params: {
       userId: id,
     },
+    body: {
+      password: 'sample-password',
+    },
+    ip: '127.0.0.1',
+    userId: id,
   };
 };
 
 describe('DeleteUserController', () => {
-  it('should call deleteUser with correct id', async () => {
+  it('should call DeleteUser with correct params', async () => {
     const { sut, deleteUserStub } = makeSut();
 
     const deleteUserSpy = jest.spyOn(deleteUserStub, 'execute');
     const httpRequest = makeFakeHttpRequest();
     await sut.handle(httpRequest);
 
-    expect(deleteUserSpy).toHaveBeenCalledWith(httpRequest.params.userId);
+    expect(deleteUserSpy).toHaveBeenCalledWith({
+      userId: httpRequest.params.userId,
+      actorId: httpRequest.userId,
+      password: 'sample-password',
+      ip: '127.0.0.1',
+    });
   });
 
-  it('should call getWorkspaceByUserId with given params', async () => {
-    const { sut, getWorkspaceByUserIdStub } = makeSut();
-
-    const getWorkspaceByUserIdSpy = jest.spyOn(
-      getWorkspaceByUserIdStub,
-      'execute'
-    );
-    const httpRequest = makeFakeHttpRequest();
-    await sut.handle(httpRequest);
-
-    expect(getWorkspaceByUserIdSpy).toHaveBeenCalledWith(
-      httpRequest.params.userId
-    );
-  });
+  it('should return 404 if the user is not found', async () => {
+    const { sut, deleteUserStub } = makeSut();
 
-  it('should call getAllMembersByWorkspaceId with given params', async () => {
-    const { sut, getAllMembersByWorkspaceIdStub } = makeSut();
+    jest.spyOn(deleteUserStub, 'execute').mockImplementation(async () => {
+      return new UserNotFoundError();
+    });
 
-    const getAllMembersByWorkspaceIdSpy = jest.spyOn(
-      getAllMembersByWorkspaceIdStub,
-      'execute'
-    );
-    const httpRequest = makeFakeHttpRequest();
-    await sut.handle(httpRequest);
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
 
-    expect(getAllMembersByWorkspaceIdSpy).toHaveBeenCalledWith(
-      '112233445566778899bbccaa'
-    );
+    expect(httpResponse).toEqual(notFound(new UserNotFoundError()));
   });
 
-  it('should call deleteWorkspace with given params', async () => {
-    const { sut, deleteWorkspaceStub } = makeSut();
+  it('should return 403 if the password is wrong', async () => {
+    const { sut, deleteUserStub } = makeSut();
 
-    const deleteWorkspaceSpy = jest.spyOn(deleteWorkspaceStub, 'execute');
-    const httpRequest = makeFakeHttpRequest();
-    await sut.handle(httpRequest);
+    jest.spyOn(deleteUserStub, 'execute').mockImplementation(async () => {
+      return new InvalidPasswordError();
+    });
 
-    expect(deleteWorkspaceSpy).toHaveBeenCalledWith('112233445566778899bbccaa');
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(forbidden(new InvalidPasswordError()));
   });
 
-  it('should call deleteWorkspace with given params', async () => {
-    const { sut, deletePagesByWorkspaceIdStub } = makeSut();
+  it('should return 200 with the deletion date during the grace period', async () => {
+    const { sut, deleteUserStub, purgeUserStub } = makeSut();
 
-    const deletePagesByWorkspaceIdSpy = jest.spyOn(
-      deletePagesByWorkspaceIdStub,
-      'execute'
-    );
-    const httpRequest = makeFakeHttpRequest();
-    await sut.handle(httpRequest);
+    const scheduledDeletionAt = new Date(Date.now() + 60 * 60 * 1000);
+    jest.spyOn(deleteUserStub, 'execute').mockImplementation(async () => {
+      return { scheduledDeletionAt };
+    });
+    const purgeUserSpy = jest.spyOn(purgeUserStub, 'execute');
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
 
-    expect(deletePagesByWorkspaceIdSpy).toHaveBeenCalledWith(
-      '112233445566778899bbccaa'
-    );
+    expect(httpResponse).toEqual(ok({ scheduledDeletionAt }));
+    expect(purgeUserSpy).not.toHaveBeenCalled();
   });
 
-  it('should call removeMemberByWorkspaceId with given params', async () => {
-    const {
-      sut,
-      removeMemberByWorkspaceIdStub,
-      getAllMembersByWorkspaceIdStub,
-    } = makeSut();
-
-    jest
-      .spyOn(getAllMembersByWorkspaceIdStub, 'execute')
-      .mockImplementation(() => {
-        return Promise.resolve(['112233445566778899bbccaa', 'sample-member-2']);
-      });
-
-    const removeMemberByWorkspaceIdSpy = jest.spyOn(
-      removeMemberByWorkspaceIdStub,
-      'execute'
-    );
-    const httpRequest = makeFakeHttpRequest();
-    await sut.handle(httpRequest);
+  it('should purge the user right away without a grace period', async () => {
+    const { sut, deleteUserStub, purgeUserStub } = makeSut();
 
-    expect(removeMemberByWorkspaceIdSpy).toHaveBeenCalledWith({
-      workspaceId: '112233445566778899bbccaa',
-      memberId: httpRequest.params.userId,
+    jest.spyOn(deleteUserStub, 'execute').mockImplementation(async () => {
+      return { scheduledDeletionAt: new Date(Date.now() - 1000) };
     });
-  });
+    const purgeUserSpy = jest.spyOn(purgeUserStub, 'execute');
 
-  it('should return 204 on success', async () => {
-    const { sut } = makeSut();
     const httpResponse = await sut.handle(makeFakeHttpRequest());
 
-    expect(httpResponse.statusCode).toBe(204);
+    expect(purgeUserSpy).toHaveBeenCalledWith(mockUser().id);
+    expect(httpResponse).toEqual(noContent());
   });
 });
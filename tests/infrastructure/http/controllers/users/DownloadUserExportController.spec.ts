@@ -0,0 +1,75 @@
+import { UserExportNotFoundError } from '@application/errors/UserExportNotFoundError';
+import { UserExportNotReadyError } from '@application/errors/UserExportNotReadyError';
+import { DownloadUserExportController } from '@infrastructure/http/controllers/users/DownloadUserExportController';
+import { conflict, notFound, ok } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { DownloadUserExportStub } from '@tests/application/mocks/users/use-cases';
+import mockUser from '@tests/domain/mock-user';
+import mockUserExport from '@tests/domain/mock-user-export';
+
+type SutTypes = {
+  sut: DownloadUserExportController;
+  downloadUserExportStub: DownloadUserExportStub;
+};
+
+const makeSut = (): SutTypes => {
+  const downloadUserExportStub = new DownloadUserExportStub();
+  const sut = new DownloadUserExportController(downloadUserExportStub);
+  return {
+    sut,
+    downloadUserExportStub,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => ({
+  params: { userId: mockUser().id, exportId: mockUserExport().id },
+});
+
+describe('DownloadUserExportController', () => {
+  it('should call DownloadUserExport with the user and export ids', async () => {
+    const { sut, downloadUserExportStub } = makeSut();
+    const downloadUserExportSpy = jest.spyOn(downloadUserExportStub, 'execute');
+
+    await sut.handle(makeFakeHttpRequest());
+
+    expect(downloadUserExportSpy).toHaveBeenCalledWith({
+      userId: mockUser().id,
+      exportId: mockUserExport().id,
+    });
+  });
+
+  it('should return 404 if the export was not found', async () => {
+    const { sut, downloadUserExportStub } = makeSut();
+    jest
+      .spyOn(downloadUserExportStub, 'execute')
+      .mockImplementationOnce(async () => new UserExportNotFoundError());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new UserExportNotFoundError()));
+  });
+
+  it('should return 409 if the export is not ready yet', async () => {
+    const { sut, downloadUserExportStub } = makeSut();
+    jest
+      .spyOn(downloadUserExportStub, 'execute')
+      .mockImplementationOnce(async () => new UserExportNotReadyError());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(conflict(new UserExportNotReadyError()));
+  });
+
+  it('should return 200 with the file', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(
+      ok({
+        fileName: `export-${mockUserExport().id}.json`,
+        content: '{"user":{}}',
+      })
+    );
+  });
+});
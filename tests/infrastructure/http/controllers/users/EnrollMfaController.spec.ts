@@ -0,0 +1,98 @@
+import { MfaAlreadyEnabledError } from '@application/errors/MfaAlreadyEnabledError';
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
+import { EnrollMfaController } from '@infrastructure/http/controllers/users/EnrollMfaController';
+import { PermissionError } from '@infrastructure/http/errors/PermissionError';
+import {
+  conflict,
+  forbidden,
+  notFound,
+  ok,
+} from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { EnrollMfaStub } from '@tests/application/mocks/users/use-cases';
+import mockUser from '@tests/domain/mock-user';
+
+type SutTypes = {
+  sut: EnrollMfaController;
+  enrollMfaStub: EnrollMfaStub;
+};
+
+const makeSut = (): SutTypes => {
+  const enrollMfaStub = new EnrollMfaStub();
+  const sut = new EnrollMfaController(enrollMfaStub);
+  return {
+    enrollMfaStub,
+    sut,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  const { id } = mockUser();
+  return {
+    params: {
+      userId: id,
+    },
+    userId: id,
+  };
+};
+
+describe('EnrollMfaController', () => {
+  it('should return 403 if the user enrolls someone else', async () => {
+    const { sut, enrollMfaStub } = makeSut();
+
+    const enrollMfaSpy = jest.spyOn(enrollMfaStub, 'execute');
+
+    const httpResponse = await sut.handle({
+      ...makeFakeHttpRequest(),
+      userId: 'another-user-id',
+    });
+
+    expect(httpResponse).toEqual(forbidden(new PermissionError()));
+    expect(enrollMfaSpy).not.toHaveBeenCalled();
+  });
+
+  it('should call EnrollMfa with correct params', async () => {
+    const { sut, enrollMfaStub } = makeSut();
+
+    const enrollMfaSpy = jest.spyOn(enrollMfaStub, 'execute');
+
+    const httpRequest = makeFakeHttpRequest();
+    await sut.handle(httpRequest);
+
+    expect(enrollMfaSpy).toHaveBeenCalledWith(httpRequest.params.userId);
+  });
+
+  it('should return 404 if the user is not found', async () => {
+    const { sut, enrollMfaStub } = makeSut();
+
+    jest.spyOn(enrollMfaStub, 'execute').mockImplementation(async () => {
+      return new UserNotFoundError();
+    });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new UserNotFoundError()));
+  });
+
+  it('should return 409 if two-factor is already enabled', async () => {
+    const { sut, enrollMfaStub } = makeSut();
+
+    jest.spyOn(enrollMfaStub, 'execute').mockImplementation(async () => {
+      return new MfaAlreadyEnabledError();
+    });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(conflict(new MfaAlreadyEnabledError()));
+  });
+
+  it('should return 200 with the secret on success', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(
+      ok({ secret: 'SAMPLESECRET', uri: 'otpauth://totp/sample-uri' })
+    );
+  });
+});
@@ -0,0 +1,53 @@
+import { ForgotPasswordController } from '@infrastructure/http/controllers/users/ForgotPasswordController';
+import { noContent } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { ForgotPasswordStub } from '@tests/application/mocks/users/use-cases';
+import mockUser from '@tests/domain/mock-user';
+import { ValidationStub } from '@tests/infrastructure/mocks/validators';
+
+type SutTypes = {
+  sut: ForgotPasswordController;
+  validationStub: ValidationStub;
+  forgotPasswordStub: ForgotPasswordStub;
+};
+
+const makeSut = (): SutTypes => {
+  const validationStub = new ValidationStub();
+  const forgotPasswordStub = new ForgotPasswordStub();
+  const sut = new ForgotPasswordController(validationStub, forgotPasswordStub);
+  return {
+    validationStub,
+    forgotPasswordStub,
+    sut,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  const { email } = mockUser();
+  return {
+    body: {
+      email,
+    },
+  };
+};
+
+describe('ForgotPasswordController', () => {
+  it('should call ForgotPassword with the given email', async () => {
+    const { sut, forgotPasswordStub } = makeSut();
+
+    const forgotPasswordSpy = jest.spyOn(forgotPasswordStub, 'execute');
+
+    const httpRequest = makeFakeHttpRequest();
+    await sut.handle(httpRequest);
+
+    expect(forgotPasswordSpy).toHaveBeenCalledWith(httpRequest.body.email);
+  });
+
+  it('should return 204 on success', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(noContent());
+  });
+});
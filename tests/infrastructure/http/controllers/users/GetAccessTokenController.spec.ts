@@ -1,6 +1,7 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
 import { InvalidTokenError } from '@application/errors/InvalidTokenError';
 import { GetAccessTokenController } from '@infrastructure/http/controllers/users/GetAccessTokenController';
-import { ok, unauthorized } from '@infrastructure/http/helpers/http';
+import { forbidden, ok, unauthorized } from '@infrastructure/http/helpers/http';
 import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
 import { GetAccessTokenStub } from '@tests/application/mocks/users/use-cases';
 
@@ -50,15 +51,30 @@ describe('GetAccessToken', () => {
     expect(httpResponse).toEqual(unauthorized(new InvalidTokenError()));
   });
 
-  it('should return 200 on success', async () => {
+  it('should return 403 if token is manipulated', async () => {
+    const { sut, getAccesTokenStub } = makeSut();
+
+    jest.spyOn(getAccesTokenStub, 'execute').mockImplementation(async () => {
+      return new ForbiddenError();
+    });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(forbidden(new ForbiddenError()));
+  });
+
+  it('should return 200 and the rotated refresh token on success', async () => {
     const { sut } = makeSut();
 
     const httpResponse = await sut.handle(makeFakeHttpRequest());
 
     expect(httpResponse).toEqual(
-      ok({
-        accessToken: 'sample-access-token',
-      })
+      ok(
+        {
+          accessToken: 'sample-access-token',
+        },
+        { token: 'sample-refresh-token' }
+      )
     );
   });
 });
@@ -0,0 +1,56 @@
+import { GetApiTokensByUserIdController } from '@infrastructure/http/controllers/users/GetApiTokensByUserIdController';
+import { ok } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { GetApiTokensByUserIdStub } from '@tests/application/mocks/users/use-cases';
+import mockUser from '@tests/domain/mock-user';
+
+type SutTypes = {
+  sut: GetApiTokensByUserIdController;
+  getApiTokensByUserIdStub: GetApiTokensByUserIdStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getApiTokensByUserIdStub = new GetApiTokensByUserIdStub();
+  const sut = new GetApiTokensByUserIdController(getApiTokensByUserIdStub);
+
+  return {
+    getApiTokensByUserIdStub,
+    sut,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  const { id } = mockUser();
+  return {
+    params: {
+      userId: id,
+    },
+  };
+};
+
+describe('GetApiTokensByUserIdController', () => {
+  it('should call GetApiTokensByUserId with correct user id', async () => {
+    const { sut, getApiTokensByUserIdStub } = makeSut();
+
+    const getApiTokensByUserIdSpy = jest.spyOn(
+      getApiTokensByUserIdStub,
+      'execute'
+    );
+
+    await sut.handle(makeFakeHttpRequest());
+
+    expect(getApiTokensByUserIdSpy).toHaveBeenCalledWith(mockUser().id);
+  });
+
+  it('should return 200 with the API tokens', async () => {
+    const { sut, getApiTokensByUserIdStub } = makeSut();
+    const apiTokens = await getApiTokensByUserIdStub.execute(mockUser().id);
+    jest
+      .spyOn(getApiTokensByUserIdStub, 'execute')
+      .mockImplementationOnce(async () => apiTokens);
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(ok(apiTokens));
+  });
+});
@@ -0,0 +1,102 @@
+import { GetAuditLogByUserIdController } from '@infrastructure/http/controllers/users/GetAuditLogByUserIdController';
+import { badRequest, ok } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { GetAuditLogByUserIdStub } from '@tests/application/mocks/users/use-cases';
+import mockAuditLogEntry from '@tests/domain/mock-audit-log-entry';
+import mockUser from '@tests/domain/mock-user';
+import { ValidationStub } from '@tests/infrastructure/mocks/validators';
+
+type SutTypes = {
+  sut: GetAuditLogByUserIdController;
+  validationStub: ValidationStub;
+  getAuditLogByUserIdStub: GetAuditLogByUserIdStub;
+};
+
+const makeSut = (): SutTypes => {
+  const validationStub = new ValidationStub();
+  const getAuditLogByUserIdStub = new GetAuditLogByUserIdStub();
+  const sut = new GetAuditLogByUserIdController(
+    validationStub,
+    getAuditLogByUserIdStub
+  );
+
+  return {
+    sut,
+    validationStub,
+    getAuditLogByUserIdStub,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  const { id } = mockUser();
+  return {
+    params: {
+      userId: id,
+    },
+    query: {
+      action: 'workspace.delete',
+      from: '2024-01-01T00:00:00.000Z',
+      to: '2024-02-01T00:00:00.000Z',
+      cursor: '112233445566778899ddeeff',
+      limit: '20',
+    },
+  };
+};
+
+describe('GetAuditLogByUserIdController', () => {
+  it('should call GetAuditLogByUserId with the parsed query', async () => {
+    const { sut, getAuditLogByUserIdStub } = makeSut();
+    const getAuditLogByUserIdSpy = jest.spyOn(
+      getAuditLogByUserIdStub,
+      'execute'
+    );
+
+    const httpRequest = makeFakeHttpRequest();
+    await sut.handle(httpRequest);
+
+    expect(getAuditLogByUserIdSpy).toHaveBeenCalledWith({
+      userId: httpRequest.params.userId,
+      action: 'workspace.delete',
+      from: new Date('2024-01-01T00:00:00.000Z'),
+      to: new Date('2024-02-01T00:00:00.000Z'),
+      cursor: '112233445566778899ddeeff',
+      limit: 20,
+    });
+  });
+
+  it('should leave out the filters that were not given', async () => {
+    const { sut, getAuditLogByUserIdStub } = makeSut();
+    const getAuditLogByUserIdSpy = jest.spyOn(
+      getAuditLogByUserIdStub,
+      'execute'
+    );
+
+    const { id } = mockUser();
+    await sut.handle({ params: { userId: id } });
+
+    expect(getAuditLogByUserIdSpy).toHaveBeenCalledWith({ userId: id });
+  });
+
+  it('should return 400 if the query is invalid', async () => {
+    const { sut, validationStub } = makeSut();
+    jest
+      .spyOn(validationStub, 'validate')
+      .mockImplementation(() => new Error());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(badRequest(new Error()));
+  });
+
+  it('should return 200 with the entries on success', async () => {
+    const { sut, getAuditLogByUserIdStub } = makeSut();
+    const auditLog = { entries: [mockAuditLogEntry()], nextCursor: null };
+    jest
+      .spyOn(getAuditLogByUserIdStub, 'execute')
+      .mockImplementation(async () => auditLog);
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(ok(auditLog));
+  });
+});
@@ -0,0 +1,28 @@
+import { GetJsonWebKeySetController } from '@infrastructure/http/controllers/users/GetJsonWebKeySetController';
+import { ok } from '@infrastructure/http/helpers/http';
+import { GetJsonWebKeySetStub } from '@tests/application/mocks/users/use-cases';
+
+type SutTypes = {
+  sut: GetJsonWebKeySetController;
+  getJsonWebKeySetStub: GetJsonWebKeySetStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getJsonWebKeySetStub = new GetJsonWebKeySetStub();
+  const sut = new GetJsonWebKeySetController(getJsonWebKeySetStub);
+
+  return {
+    getJsonWebKeySetStub,
+    sut,
+  };
+};
+
+describe('GetJsonWebKeySetController', () => {
+  it('should return 200 with the key set', async () => {
+    const { sut, getJsonWebKeySetStub } = makeSut();
+
+    const httpResponse = await sut.handle({});
+
+    expect(httpResponse).toEqual(ok(await getJsonWebKeySetStub.execute()));
+  });
+});
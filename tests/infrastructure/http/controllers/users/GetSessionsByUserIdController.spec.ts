@@ -0,0 +1,55 @@
+import { GetSessionsByUserIdController } from '@infrastructure/http/controllers/users/GetSessionsByUserIdController';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { GetSessionsByUserIdStub } from '@tests/application/mocks/users/use-cases';
+import mockUser from '@tests/domain/mock-user';
+
+type SutTypes = {
+  sut: GetSessionsByUserIdController;
+  getSessionsByUserIdStub: GetSessionsByUserIdStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getSessionsByUserIdStub = new GetSessionsByUserIdStub();
+  const sut = new GetSessionsByUserIdController(getSessionsByUserIdStub);
+
+  return {
+    getSessionsByUserIdStub,
+    sut,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  const { id } = mockUser();
+  return {
+    params: {
+      userId: id,
+    },
+  };
+};
+
+describe('GetSessionsByUserIdController', () => {
+  it('should call getSessionsByUserId with correct params', async () => {
+    const { sut, getSessionsByUserIdStub } = makeSut();
+
+    const getSessionsByUserIdSpy = jest.spyOn(
+      getSessionsByUserIdStub,
+      'execute'
+    );
+
+    const httpRequest = makeFakeHttpRequest();
+
+    await sut.handle(httpRequest);
+
+    expect(getSessionsByUserIdSpy).toHaveBeenCalledWith(
+      httpRequest.params.userId
+    );
+  });
+
+  it('should return 200 on success', async () => {
+    const { sut } = makeSut();
+    const httpRequest = makeFakeHttpRequest();
+    const httpResponse = await sut.handle(httpRequest);
+
+    expect(httpResponse.statusCode).toBe(200);
+  });
+});
@@ -0,0 +1,53 @@
+import { GetSharedPagesByUserIdController } from '@infrastructure/http/controllers/users/GetSharedPagesByUserIdController';
+import { ok } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { GetSharedPagesByUserIdStub } from '@tests/application/mocks/users/use-cases';
+import mockUser from '@tests/domain/mock-user';
+
+type SutTypes = {
+  sut: GetSharedPagesByUserIdController;
+  getSharedPagesByUserIdStub: GetSharedPagesByUserIdStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getSharedPagesByUserIdStub = new GetSharedPagesByUserIdStub();
+  const sut = new GetSharedPagesByUserIdController(getSharedPagesByUserIdStub);
+
+  return {
+    getSharedPagesByUserIdStub,
+    sut,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  return {
+    params: {
+      userId: mockUser().id,
+    },
+  };
+};
+
+describe('GetSharedPagesByUserIdController', () => {
+  it('should call GetSharedPagesByUserId with correct params', async () => {
+    const { sut, getSharedPagesByUserIdStub } = makeSut();
+
+    const getSharedPagesByUserIdSpy = jest.spyOn(
+      getSharedPagesByUserIdStub,
+      'execute'
+    );
+
+    await sut.handle(makeFakeHttpRequest());
+
+    expect(getSharedPagesByUserIdSpy).toHaveBeenCalledWith(mockUser().id);
+  });
+
+  it('should return 200 with the shared pages', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(
+      ok([expect.objectContaining({ role: 'viewer' })])
+    );
+  });
+});
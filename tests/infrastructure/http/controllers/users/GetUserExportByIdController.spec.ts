@@ -0,0 +1,62 @@
+import { UserExportNotFoundError } from '@application/errors/UserExportNotFoundError';
+import { GetUserExportByIdController } from '@infrastructure/http/controllers/users/GetUserExportByIdController';
+import { notFound, ok } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { GetUserExportByIdStub } from '@tests/application/mocks/users/use-cases';
+import mockUser from '@tests/domain/mock-user';
+import mockUserExport from '@tests/domain/mock-user-export';
+
+type SutTypes = {
+  sut: GetUserExportByIdController;
+  getUserExportByIdStub: GetUserExportByIdStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getUserExportByIdStub = new GetUserExportByIdStub();
+  const sut = new GetUserExportByIdController(getUserExportByIdStub);
+  return {
+    sut,
+    getUserExportByIdStub,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => ({
+  params: { userId: mockUser().id, exportId: mockUserExport().id },
+});
+
+describe('GetUserExportByIdController', () => {
+  it('should call GetUserExportById with the user and export ids', async () => {
+    const { sut, getUserExportByIdStub } = makeSut();
+    const getUserExportByIdSpy = jest.spyOn(getUserExportByIdStub, 'execute');
+
+    await sut.handle(makeFakeHttpRequest());
+
+    expect(getUserExportByIdSpy).toHaveBeenCalledWith({
+      userId: mockUser().id,
+      exportId: mockUserExport().id,
+    });
+  });
+
+  it('should return 404 if the export was not found', async () => {
+    const { sut, getUserExportByIdStub } = makeSut();
+    jest
+      .spyOn(getUserExportByIdStub, 'execute')
+      .mockImplementationOnce(async () => new UserExportNotFoundError());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new UserExportNotFoundError()));
+  });
+
+  it('should return 200 with the export', async () => {
+    const { sut, getUserExportByIdStub } = makeSut();
+    const userExport = mockUserExport();
+    jest
+      .spyOn(getUserExportByIdStub, 'execute')
+      .mockImplementationOnce(async () => userExport);
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(ok(userExport));
+  });
+});
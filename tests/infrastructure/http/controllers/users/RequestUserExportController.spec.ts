@@ -0,0 +1,47 @@
+import { RequestUserExportController } from '@infrastructure/http/controllers/users/RequestUserExportController';
+import { created } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { RequestUserExportStub } from '@tests/application/mocks/users/use-cases';
+import mockUser from '@tests/domain/mock-user';
+import { mockPendingUserExport } from '@tests/domain/mock-user-export';
+
+type SutTypes = {
+  sut: RequestUserExportController;
+  requestUserExportStub: RequestUserExportStub;
+};
+
+const makeSut = (): SutTypes => {
+  const requestUserExportStub = new RequestUserExportStub();
+  const sut = new RequestUserExportController(requestUserExportStub);
+  return {
+    sut,
+    requestUserExportStub,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => ({
+  params: { userId: mockUser().id },
+});
+
+describe('RequestUserExportController', () => {
+  it('should call RequestUserExport with the user id', async () => {
+    const { sut, requestUserExportStub } = makeSut();
+    const requestUserExportSpy = jest.spyOn(requestUserExportStub, 'execute');
+
+    await sut.handle(makeFakeHttpRequest());
+
+    expect(requestUserExportSpy).toHaveBeenCalledWith(mockUser().id);
+  });
+
+  it('should return 201 with the pending export', async () => {
+    const { sut, requestUserExportStub } = makeSut();
+    const pendingUserExport = mockPendingUserExport();
+    jest
+      .spyOn(requestUserExportStub, 'execute')
+      .mockImplementationOnce(async () => pendingUserExport);
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(created(pendingUserExport));
+  });
+});
@@ -0,0 +1,69 @@
+import { InvalidTokenError } from '@application/errors/InvalidTokenError';
+import { ResetPasswordController } from '@infrastructure/http/controllers/users/ResetPasswordController';
+import { noContent, unauthorized } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { ResetPasswordStub } from '@tests/application/mocks/users/use-cases';
+import { ValidationStub } from '@tests/infrastructure/mocks/validators';
+
+type SutTypes = {
+  sut: ResetPasswordController;
+  validationStub: ValidationStub;
+  resetPasswordStub: ResetPasswordStub;
+};
+
+const makeSut = (): SutTypes => {
+  const validationStub = new ValidationStub();
+  const resetPasswordStub = new ResetPasswordStub();
+  const sut = new ResetPasswordController(validationStub, resetPasswordStub);
+  return {
+    validationStub,
+    resetPasswordStub,
+    sut,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  return {
+    body: {
+      token: 'sample-reset-token',
+      password: 'new-password',
+    },
+    ip: '127.0.0.1',
+  };
+};
+
+describe('ResetPasswordController', () => {
+  it('should call ResetPassword with correct params', async () => {
+    const { sut, resetPasswordStub } = makeSut();
+
+    const resetPasswordSpy = jest.spyOn(resetPasswordStub, 'execute');
+
+    const httpRequest = makeFakeHttpRequest();
+    await sut.handle(httpRequest);
+
+    expect(resetPasswordSpy).toHaveBeenCalledWith({
+      ...httpRequest.body,
+      ip: '127.0.0.1',
+    });
+  });
+
+  it('should return 401 if the token is invalid', async () => {
+    const { sut, resetPasswordStub } = makeSut();
+
+    jest.spyOn(resetPasswordStub, 'execute').mockImplementation(async () => {
+      return new InvalidTokenError();
+    });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(unauthorized(new InvalidTokenError()));
+  });
+
+  it('should return 204 on success', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(noContent());
+  });
+});
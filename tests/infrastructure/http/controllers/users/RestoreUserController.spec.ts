@@ -0,0 +1,54 @@
+import { RestoreUserController } from '@infrastructure/http/controllers/users/RestoreUserController';
+import { noContent } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { RestoreUserStub } from '@tests/application/mocks/users/use-cases';
+import mockUser from '@tests/domain/mock-user';
+
+type SutTypes = {
+  sut: RestoreUserController;
+  restoreUserStub: RestoreUserStub;
+};
+
+const makeSut = (): SutTypes => {
+  const restoreUserStub = new RestoreUserStub();
+  const sut = new RestoreUserController(restoreUserStub);
+  return {
+    sut,
+    restoreUserStub,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  const { id } = mockUser();
+  return {
+    params: {
+      userId: id,
+    },
+    ip: '127.0.0.1',
+    userId: id,
+  };
+};
+
+describe('RestoreUserController', () => {
+  it('should call RestoreUser with correct params', async () => {
+    const { sut, restoreUserStub } = makeSut();
+
+    const restoreUserSpy = jest.spyOn(restoreUserStub, 'execute');
+    const httpRequest = makeFakeHttpRequest();
+    await sut.handle(httpRequest);
+
+    expect(restoreUserSpy).toHaveBeenCalledWith({
+      userId: httpRequest.params.userId,
+      actorId: httpRequest.userId,
+      ip: '127.0.0.1',
+    });
+  });
+
+  it('should return 204 on success', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(noContent());
+  });
+});
@@ -0,0 +1,69 @@
+import { SessionNotFoundError } from '@application/errors/SessionNotFoundError';
+import { RevokeSessionController } from '@infrastructure/http/controllers/users/RevokeSessionController';
+import { noContent, notFound } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { RevokeSessionStub } from '@tests/application/mocks/users/use-cases';
+import mockUser from '@tests/domain/mock-user';
+
+type SutTypes = {
+  sut: RevokeSessionController;
+  revokeSessionStub: RevokeSessionStub;
+};
+
+const makeSut = (): SutTypes => {
+  const revokeSessionStub = new RevokeSessionStub();
+  const sut = new RevokeSessionController(revokeSessionStub);
+
+  return {
+    revokeSessionStub,
+    sut,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  const { id } = mockUser();
+  return {
+    params: {
+      userId: id,
+      sessionId: 'sample-family',
+    },
+    ip: '127.0.0.1',
+  };
+};
+
+describe('RevokeSessionController', () => {
+  it('should call RevokeSession with correct params', async () => {
+    const { sut, revokeSessionStub } = makeSut();
+
+    const revokeSessionSpy = jest.spyOn(revokeSessionStub, 'execute');
+
+    const httpRequest = makeFakeHttpRequest();
+
+    await sut.handle(httpRequest);
+
+    expect(revokeSessionSpy).toHaveBeenCalledWith({
+      ...httpRequest.params,
+      ip: httpRequest.ip,
+    });
+  });
+
+  it('should return 404 if the session is not found', async () => {
+    const { sut, revokeSessionStub } = makeSut();
+
+    jest
+      .spyOn(revokeSessionStub, 'execute')
+      .mockImplementation(async () => new SessionNotFoundError());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new SessionNotFoundError()));
+  });
+
+  it('should return 204 on success', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(noContent());
+  });
+});
@@ -1,7 +1,13 @@
+import { AccountLockedError } from '@application/errors/AccountLockedError';
 import { InvalidPasswordError } from '@application/errors/InvalidPasswordError';
 import { InvalidUserError } from '@application/errors/InvalidUserError';
 import { SignInController } from '@infrastructure/http/controllers/users/SignInController';
-import { ok, unauthorized } from '@infrastructure/http/helpers/http';
+import { InvalidCredentialsError } from '@infrastructure/http/errors/InvalidCredentialsError';
+import {
+  ok,
+  tooManyRequests,
+  unauthorized,
+} from '@infrastructure/http/helpers/http';
 import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
 import { SignInStub } from '@tests/application/mocks/users/use-cases';
 import mockUser from '@tests/domain/mock-user';
@@ -32,6 +38,10 @@ const makeFakeHttpRequest = (): HttpRequest => {
       email,
       password,
     },
+    headers: {
+      'user-agent': 'sample-user-agent',
+    },
+    ip: '127.0.0.1',
   };
 };
 
@@ -45,10 +55,12 @@ describe('SignInController', () => {
 
     expect(signInSpy).toHaveBeenCalledWith({
       ...httpRequest.body,
+      userAgent: 'sample-user-agent',
+      ip: '127.0.0.1',
     });
   });
 
-  it('should return 403 if authentication fails', async () => {
+  it('should return 401 with a generic error if the email is unknown', async () => {
     const { sut, signInStub } = makeSut();
 
     jest.spyOn(signInStub, 'execute').mockImplementation(async () => {
@@ -57,10 +69,10 @@ describe('SignInController', () => {
 
     const httpResponse = await sut.handle(makeFakeHttpRequest());
 
-    expect(httpResponse).toEqual(unauthorized(new InvalidUserError()));
+    expect(httpResponse).toEqual(unauthorized(new InvalidCredentialsError()));
   });
 
-  it('should return 403 if authentication fails', async () => {
+  it('should return 401 with a generic error if the password is wrong', async () => {
     const { sut, signInStub } = makeSut();
 
     jest.spyOn(signInStub, 'execute').mockImplementation(async () => {
@@ -69,7 +81,19 @@ describe('SignInController', () => {
 
     const httpResponse = await sut.handle(makeFakeHttpRequest());
 
-    expect(httpResponse).toEqual(unauthorized(new InvalidPasswordError()));
+    expect(httpResponse).toEqual(unauthorized(new InvalidCredentialsError()));
+  });
+
+  it('should return 429 if the account is locked', async () => {
+    const { sut, signInStub } = makeSut();
+
+    jest.spyOn(signInStub, 'execute').mockImplementation(async () => {
+      return new AccountLockedError();
+    });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(tooManyRequests(new AccountLockedError()));
   });
 
   it('should return 200 on success', async () => {
@@ -90,4 +114,17 @@ describe('SignInController', () => {
       )
     );
   });
+
+  it('should return the mfa challenge without a cookie if two-factor is enabled', async () => {
+    const { sut, signInStub } = makeSut();
+
+    jest.spyOn(signInStub, 'execute').mockImplementation(async () => {
+      return { mfaToken: 'sample-mfa-token' };
+    });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(ok({ mfaToken: 'sample-mfa-token' }));
+    expect(httpResponse.headers).toBeUndefined();
+  });
 });
@@ -23,6 +23,7 @@ const makeFakeHttpRequest = (): HttpRequest => {
     headers: {
       cookie: 'token_v1=sample.refresh.token',
     },
+    ip: '127.0.0.1',
   };
 };
 
@@ -34,7 +35,10 @@ describe('SignOutController', () => {
     const httpRequest = makeFakeHttpRequest();
     await sut.handle(httpRequest);
 
-    expect(signOutSpy).toHaveBeenCalledWith('sample.refresh.token');
+    expect(signOutSpy).toHaveBeenCalledWith({
+      token: 'sample.refresh.token',
+      ip: '127.0.0.1',
+    });
   });
 
   it('should return 200 on success', async () => {
@@ -0,0 +1,80 @@
+import { SignOutEverywhereController } from '@infrastructure/http/controllers/users/SignOutEverywhereController';
+import { ok } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { SignOutEverywhereStub } from '@tests/application/mocks/users/use-cases';
+import mockUser from '@tests/domain/mock-user';
+
+type SutTypes = {
+  sut: SignOutEverywhereController;
+  signOutEverywhereStub: SignOutEverywhereStub;
+};
+
+const makeSut = (): SutTypes => {
+  const signOutEverywhereStub = new SignOutEverywhereStub();
+  const sut = new SignOutEverywhereController(signOutEverywhereStub);
+
+  return {
+    sut,
+    signOutEverywhereStub,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  const { id } = mockUser();
+  return {
+    params: {
+      userId: id,
+    },
+    userId: id,
+    ip: '127.0.0.1',
+  };
+};
+
+describe('SignOutEverywhereController', () => {
+  it('should call SignOutEverywhere with given params', async () => {
+    const { sut, signOutEverywhereStub } = makeSut();
+
+    const signOutEverywhereSpy = jest.spyOn(signOutEverywhereStub, 'execute');
+    const httpRequest = makeFakeHttpRequest();
+    await sut.handle(httpRequest);
+
+    expect(signOutEverywhereSpy).toHaveBeenCalledWith({
+      userId: httpRequest.params.userId,
+      ip: '127.0.0.1',
+    });
+  });
+
+  it('should return 200 on success', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    const refreshCookie = {
+      token: '',
+    };
+
+    expect(httpResponse).toEqual(
+      ok(
+        {
+          message: 'signed out of all sessions successfully',
+        },
+        refreshCookie
+      )
+    );
+  });
+
+  it('should not clear the cookie of an admin signing out another user', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle({
+      ...makeFakeHttpRequest(),
+      userId: 'sample-admin-id',
+    });
+
+    expect(httpResponse).toEqual(
+      ok({
+        message: 'signed out of all sessions successfully',
+      })
+    );
+  });
+});
@@ -14,6 +14,7 @@ import {
   GetPageByIdStub,
 } from '@tests/application/mocks/pages/use-cases';
 import {
+  SendEmailVerificationStub,
   SignInStub,
   SignUpStub,
 } from '@tests/application/mocks/users/use-cases';
@@ -35,6 +36,7 @@ type SutTypes = {
   addMemberByWorkspaceIdStub: AddMemberByWorkspaceIdStub;
   addPageStub: AddPageStub;
   getPageByIdStub: GetPageByIdStub;
+  sendEmailVerificationStub: SendEmailVerificationStub;
 };
 
 const makeSut = (): SutTypes => {
@@ -46,6 +48,7 @@ const makeSut = (): SutTypes => {
   const addMemberByWorkspaceIdStub = new AddMemberByWorkspaceIdStub();
   const addPageStub = new AddPageStub();
   const getPageByIdStub = new GetPageByIdStub();
+  const sendEmailVerificationStub = new SendEmailVerificationStub();
 
   const sut = new SignUpController(
     validationStub,
@@ -55,7 +58,8 @@ const makeSut = (): SutTypes => {
     createPageStub,
     addMemberByWorkspaceIdStub,
     addPageStub,
-    getPageByIdStub
+    getPageByIdStub,
+    sendEmailVerificationStub
   );
 
   return {
@@ -68,6 +72,7 @@ const makeSut = (): SutTypes => {
     addMemberByWorkspaceIdStub,
     addPageStub,
     getPageByIdStub,
+    sendEmailVerificationStub,
   };
 };
 
@@ -139,7 +144,8 @@ describe('SignUpController', () => {
           fullWidth: true,
           lock: true,
         },
-        path: null,
+        parentId: null,
+        ancestors: [],
       })
     );
   });
@@ -189,6 +195,22 @@ describe('SignUpController', () => {
     expect(addMemberByWorkspaceIdSpy).toBeCalled();
   });
 
+  it('should send a verification mail to the new user', async () => {
+    const { sut, sendEmailVerificationStub } = makeSut();
+
+    const sendEmailVerificationSpy = jest.spyOn(
+      sendEmailVerificationStub,
+      'execute'
+    );
+    const httpRequest = makeFakeHttpRequest();
+    await sut.handle(httpRequest);
+
+    expect(sendEmailVerificationSpy).toHaveBeenCalledWith({
+      userId: mockUser().id,
+      email: httpRequest.body.email,
+    });
+  });
+
   it('should return 409 if email is in use', async () => {
     const { sut, signUpStub } = makeSut();
 
@@ -0,0 +1,58 @@
+import { IdentityProviderNotFoundError } from '@application/errors/IdentityProviderNotFoundError';
+import { StartOidcSignInController } from '@infrastructure/http/controllers/users/StartOidcSignInController';
+import { notFound, ok } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { StartOidcSignInStub } from '@tests/application/mocks/users/use-cases';
+
+type SutTypes = {
+  sut: StartOidcSignInController;
+  startOidcSignInStub: StartOidcSignInStub;
+};
+
+const makeSut = (): SutTypes => {
+  const startOidcSignInStub = new StartOidcSignInStub();
+  const sut = new StartOidcSignInController(startOidcSignInStub);
+
+  return {
+    sut,
+    startOidcSignInStub,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => ({
+  params: { provider: 'sample-provider' },
+});
+
+describe('StartOidcSignInController', () => {
+  it('should call StartOidcSignIn with the provider', async () => {
+    const { sut, startOidcSignInStub } = makeSut();
+    const startOidcSignInSpy = jest.spyOn(startOidcSignInStub, 'execute');
+
+    await sut.handle(makeFakeHttpRequest());
+
+    expect(startOidcSignInSpy).toHaveBeenCalledWith('sample-provider');
+  });
+
+  it('should return 404 if the provider is not configured', async () => {
+    const { sut, startOidcSignInStub } = makeSut();
+    jest
+      .spyOn(startOidcSignInStub, 'execute')
+      .mockImplementation(async () => new IdentityProviderNotFoundError());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new IdentityProviderNotFoundError()));
+  });
+
+  it('should return 200 with the authorization url on success', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(
+      ok({
+        authorizationUrl: 'https://issuer.local/authorize?state=sample-state',
+      })
+    );
+  });
+});
@@ -4,6 +4,7 @@ import { notFound, ok } from '@infrastructure/http/helpers/http';
 import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
 import {
   GetUserByIdStub,
+  SendEmailVerificationStub,
   UpdateUserStub,
 } from '@tests/application/mocks/users/use-cases';
 import mockUser from '@tests/domain/mock-user';
@@ -14,27 +15,31 @@ type SutTypes = {
   validationStub: ValidationStub;
   getUserByIdStub: GetUserByIdStub;
   updateUserStub: UpdateUserStub;
+  sendEmailVerificationStub: SendEmailVerificationStub;
 };
 
 const makeSut = (): SutTypes => {
   const validationStub = new ValidationStub();
   const getUserByIdStub = new GetUserByIdStub();
   const updateUserStub = new UpdateUserStub();
+  const sendEmailVerificationStub = new SendEmailVerificationStub();
   const sut = new UpdateUserController(
     validationStub,
     getUserByIdStub,
-    updateUserStub
+    updateUserStub,
+    sendEmailVerificationStub
   );
   return {
     sut,
     getUserByIdStub,
     updateUserStub,
+    sendEmailVerificationStub,
     validationStub,
   };
 };
 
 const makeFakeHttpRequest = (): HttpRequest => {
-  const { name, email, password, isDarkMode, id } = mockUser();
+  const { name, email, isDarkMode, id } = mockUser();
   return {
     params: {
       userId: id,
@@ -42,7 +47,6 @@ const makeFakeHttpRequest = (): HttpRequest => {
     body: {
       name,
       email,
-      password,
       isDarkMode,
     },
   };
@@ -79,6 +83,38 @@ describe('UpdateUserController', () => {
     expect(httpResponse).toEqual(notFound(new UserNotFoundError()));
   });
 
+  it('should send a verification mail if the email changed', async () => {
+    const { sut, updateUserStub, sendEmailVerificationStub } = makeSut();
+    jest.spyOn(updateUserStub, 'execute').mockImplementation(async () => {
+      return { ...mockUser(), email: 'other@email.com', emailVerified: false };
+    });
+    const sendEmailVerificationSpy = jest.spyOn(
+      sendEmailVerificationStub,
+      'execute'
+    );
+    const httpRequest = makeFakeHttpRequest();
+    await sut.handle({
+      ...httpRequest,
+      body: { email: 'other@email.com' },
+    });
+
+    expect(sendEmailVerificationSpy).toHaveBeenCalledWith({
+      userId: httpRequest.params.userId,
+      email: 'other@email.com',
+    });
+  });
+
+  it('should not send a verification mail if the email is unchanged', async () => {
+    const { sut, sendEmailVerificationStub } = makeSut();
+    const sendEmailVerificationSpy = jest.spyOn(
+      sendEmailVerificationStub,
+      'execute'
+    );
+    await sut.handle(makeFakeHttpRequest());
+
+    expect(sendEmailVerificationSpy).not.toHaveBeenCalled();
+  });
+
   it('should return 200 on success', async () => {
     const { sut } = makeSut();
     const user = mockUser();
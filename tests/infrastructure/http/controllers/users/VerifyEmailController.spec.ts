@@ -0,0 +1,63 @@
+import { InvalidTokenError } from '@application/errors/InvalidTokenError';
+import { VerifyEmailController } from '@infrastructure/http/controllers/users/VerifyEmailController';
+import { noContent, unauthorized } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { VerifyEmailStub } from '@tests/application/mocks/users/use-cases';
+import { ValidationStub } from '@tests/infrastructure/mocks/validators';
+
+type SutTypes = {
+  sut: VerifyEmailController;
+  validationStub: ValidationStub;
+  verifyEmailStub: VerifyEmailStub;
+};
+
+const makeSut = (): SutTypes => {
+  const validationStub = new ValidationStub();
+  const verifyEmailStub = new VerifyEmailStub();
+  const sut = new VerifyEmailController(validationStub, verifyEmailStub);
+  return {
+    validationStub,
+    verifyEmailStub,
+    sut,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  return {
+    body: {
+      token: 'sample-verification-token',
+    },
+  };
+};
+
+describe('VerifyEmailController', () => {
+  it('should call VerifyEmail with correct params', async () => {
+    const { sut, verifyEmailStub } = makeSut();
+
+    const verifyEmailSpy = jest.spyOn(verifyEmailStub, 'execute');
+
+    await sut.handle(makeFakeHttpRequest());
+
+    expect(verifyEmailSpy).toHaveBeenCalledWith('sample-verification-token');
+  });
+
+  it('should return 401 if the token is invalid', async () => {
+    const { sut, verifyEmailStub } = makeSut();
+
+    jest.spyOn(verifyEmailStub, 'execute').mockImplementation(async () => {
+      return new InvalidTokenError();
+    });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(unauthorized(new InvalidTokenError()));
+  });
+
+  it('should return 204 on success', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(noContent());
+  });
+});
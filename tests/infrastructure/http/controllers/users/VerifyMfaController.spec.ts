@@ -0,0 +1,93 @@
+import { InvalidMfaCodeError } from '@application/errors/InvalidMfaCodeError';
+import { InvalidTokenError } from '@application/errors/InvalidTokenError';
+import { VerifyMfaController } from '@infrastructure/http/controllers/users/VerifyMfaController';
+import { ok, unauthorized } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { VerifyMfaStub } from '@tests/application/mocks/users/use-cases';
+import { ValidationStub } from '@tests/infrastructure/mocks/validators';
+
+type SutTypes = {
+  sut: VerifyMfaController;
+  validationStub: ValidationStub;
+  verifyMfaStub: VerifyMfaStub;
+};
+
+const makeSut = (): SutTypes => {
+  const validationStub = new ValidationStub();
+  const verifyMfaStub = new VerifyMfaStub();
+  const sut = new VerifyMfaController(validationStub, verifyMfaStub);
+  return {
+    validationStub,
+    verifyMfaStub,
+    sut,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  return {
+    body: {
+      mfaToken: 'sample-mfa-token',
+      code: '123456',
+    },
+    headers: {
+      'user-agent': 'sample-user-agent',
+    },
+    ip: '127.0.0.1',
+  };
+};
+
+describe('VerifyMfaController', () => {
+  it('should call VerifyMfa with correct params', async () => {
+    const { sut, verifyMfaStub } = makeSut();
+
+    const verifyMfaSpy = jest.spyOn(verifyMfaStub, 'execute');
+
+    const httpRequest = makeFakeHttpRequest();
+    await sut.handle(httpRequest);
+
+    expect(verifyMfaSpy).toHaveBeenCalledWith({
+      ...httpRequest.body,
+      userAgent: 'sample-user-agent',
+      ip: '127.0.0.1',
+    });
+  });
+
+  it('should return 401 if the challenge is invalid', async () => {
+    const { sut, verifyMfaStub } = makeSut();
+
+    jest.spyOn(verifyMfaStub, 'execute').mockImplementation(async () => {
+      return new InvalidTokenError();
+    });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(unauthorized(new InvalidTokenError()));
+  });
+
+  it('should return 401 if the code is wrong', async () => {
+    const { sut, verifyMfaStub } = makeSut();
+
+    jest.spyOn(verifyMfaStub, 'execute').mockImplementation(async () => {
+      return new InvalidMfaCodeError();
+    });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(unauthorized(new InvalidMfaCodeError()));
+  });
+
+  it('should return 200 with the refresh cookie on success', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(
+      ok(
+        {
+          accessToken: 'sample-access-token',
+        },
+        { token: 'sample-refresh-token' }
+      )
+    );
+  });
+});
@@ -1,28 +1,36 @@
+import { UnverifiedEmailError } from '@application/errors/UnverifiedEmailError';
+import { UserNotFoundError } from '@application/errors/UserNotFoundError';
 import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
 import { AddMemberByWorkspaceIdController } from '@infrastructure/http/controllers/workspaces/AddMemberByWorkspaceIdController';
-import { notFound } from '@infrastructure/http/helpers/http';
+import { forbidden, notFound } from '@infrastructure/http/helpers/http';
 import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
 import {
   AddMemberByWorkspaceIdStub,
   GetWorkspaceByIdStub,
 } from '@tests/application/mocks/workspaces/use-cases';
+import { GetUserByIdStub } from '@tests/application/mocks/users/use-cases';
+import mockUser from '@tests/domain/mock-user';
 import mockWorkspace from '@tests/domain/mock-workspace';
 
 type SutTypes = {
   sut: AddMemberByWorkspaceIdController;
   getWorkspaceByIdStub: GetWorkspaceByIdStub;
+  getUserByIdStub: GetUserByIdStub;
   addMemberByWorkspaceIdStub: AddMemberByWorkspaceIdStub;
 };
 
 const makeSut = (): SutTypes => {
   const getWorkspaceByIdStub = new GetWorkspaceByIdStub();
+  const getUserByIdStub = new GetUserByIdStub();
   const addMemberByWorkspaceIdStub = new AddMemberByWorkspaceIdStub();
   const sut = new AddMemberByWorkspaceIdController(
     getWorkspaceByIdStub,
+    getUserByIdStub,
     addMemberByWorkspaceIdStub
   );
   return {
     getWorkspaceByIdStub,
+    getUserByIdStub,
     addMemberByWorkspaceIdStub,
     sut,
   };
@@ -35,6 +43,8 @@ const makeFakeHttpRequest = (): HttpRequest => {
       workspaceId: id,
       memberId: 'sample-member-id-2',
     },
+    userId: 'sample-member-id-0',
+    ip: '127.0.0.1',
   };
 };
 
@@ -52,6 +62,9 @@ describe('AddMemberByWorkspaceIdController', () => {
 
     expect(addMemberByWorkspaceIdSpy).toHaveBeenCalledWith({
       ...httpRequest.params,
+      role: 'editor',
+      actorId: httpRequest.userId,
+      ip: httpRequest.ip,
     });
   });
 
@@ -70,6 +83,35 @@ describe('AddMemberByWorkspaceIdController', () => {
     expect(httpResponse).toEqual(notFound(new WorkspaceNotFoundError()));
   });
 
+  it('should return 404 if the member is not found', async () => {
+    const { sut, getUserByIdStub } = makeSut();
+
+    jest.spyOn(getUserByIdStub, 'execute').mockImplementation(async () => {
+      return new UserNotFoundError();
+    });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new UserNotFoundError()));
+  });
+
+  it('should return 403 if the member has not verified the email', async () => {
+    const { sut, getUserByIdStub, addMemberByWorkspaceIdStub } = makeSut();
+
+    jest.spyOn(getUserByIdStub, 'execute').mockImplementation(async () => {
+      return { ...mockUser(), emailVerified: false };
+    });
+    const addMemberByWorkspaceIdSpy = jest.spyOn(
+      addMemberByWorkspaceIdStub,
+      'execute'
+    );
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(forbidden(new UnverifiedEmailError()));
+    expect(addMemberByWorkspaceIdSpy).not.toHaveBeenCalled();
+  });
+
   it('should return 204 on success', async () => {
     const { sut } = makeSut();
     const httpRequest = makeFakeHttpRequest();
@@ -43,7 +43,7 @@ const makeFakeHttpRequest = (): HttpRequest => {
       id: 'sample-page-id-01',
       reference: 'sample-page-0101',
       icon: 'smaple-hex',
-      path: null,
+      parentId: null,
     },
   };
 };
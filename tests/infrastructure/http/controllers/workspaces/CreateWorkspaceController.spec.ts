@@ -108,7 +108,8 @@ describe('CreateWorkspaceController', () => {
           fullWidth: true,
           lock: true,
         },
-        path: null,
+        parentId: null,
+        ancestors: [],
       })
     );
   });
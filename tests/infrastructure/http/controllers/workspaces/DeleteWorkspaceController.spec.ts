@@ -9,6 +9,7 @@ import {
   GetAllMembersByWorkspaceIdStub,
   GetWorkspaceByIdStub,
 } from '@tests/application/mocks/workspaces/use-cases';
+import mockUser from '@tests/domain/mock-user';
 import mockWorkspace from '@tests/domain/mock-workspace';
 
 type SutTypes = {
@@ -51,6 +52,8 @@ const makeFakeHttpRequest = (): HttpRequest => {
     params: {
       workspaceId: id,
     },
+    userId: mockUser().id,
+    ip: '127.0.0.1',
   };
 };
 
@@ -62,9 +65,11 @@ describe('DeleteWorkspaceController', () => {
     const httpRequest = makeFakeHttpRequest();
     await sut.handle(httpRequest);
 
-    expect(deleteWorkspaceSpy).toHaveBeenCalledWith(
-      httpRequest.params.workspaceId
-    );
+    expect(deleteWorkspaceSpy).toHaveBeenCalledWith({
+      workspaceId: httpRequest.params.workspaceId,
+      actorId: mockUser().id,
+      ip: '127.0.0.1',
+    });
   });
 
   it('should call deletePagesByWorkspaceId with correct id', async () => {
@@ -77,9 +82,11 @@ describe('DeleteWorkspaceController', () => {
     const httpRequest = makeFakeHttpRequest();
     await sut.handle(httpRequest);
 
-    expect(deletePagesByWorkspaceIdSpy).toHaveBeenCalledWith(
-      httpRequest.params.workspaceId
-    );
+    expect(deletePagesByWorkspaceIdSpy).toHaveBeenCalledWith({
+      workspaceId: httpRequest.params.workspaceId,
+      actorId: mockUser().id,
+      ip: '127.0.0.1',
+    });
   });
 
   it('should return 404 if workspace is not found', async () => {
@@ -0,0 +1,119 @@
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { GetAuditLogByWorkspaceIdController } from '@infrastructure/http/controllers/workspaces/GetAuditLogByWorkspaceIdController';
+import { badRequest, notFound, ok } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { GetAuditLogByWorkspaceIdStub } from '@tests/application/mocks/workspaces/use-cases';
+import mockAuditLogEntry from '@tests/domain/mock-audit-log-entry';
+import mockWorkspace from '@tests/domain/mock-workspace';
+import { ValidationStub } from '@tests/infrastructure/mocks/validators';
+
+type SutTypes = {
+  sut: GetAuditLogByWorkspaceIdController;
+  validationStub: ValidationStub;
+  getAuditLogByWorkspaceIdStub: GetAuditLogByWorkspaceIdStub;
+};
+
+const makeSut = (): SutTypes => {
+  const validationStub = new ValidationStub();
+  const getAuditLogByWorkspaceIdStub = new GetAuditLogByWorkspaceIdStub();
+  const sut = new GetAuditLogByWorkspaceIdController(
+    validationStub,
+    getAuditLogByWorkspaceIdStub
+  );
+
+  return {
+    sut,
+    validationStub,
+    getAuditLogByWorkspaceIdStub,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  const { id } = mockWorkspace();
+  return {
+    params: {
+      workspaceId: id,
+    },
+    query: {
+      action: 'page.delete',
+      actorId: 'sample-member-1',
+      from: '2024-01-01T00:00:00.000Z',
+      to: '2024-02-01T00:00:00.000Z',
+      cursor: '112233445566778899ddeeff',
+      limit: '20',
+    },
+  };
+};
+
+describe('GetAuditLogByWorkspaceIdController', () => {
+  it('should call GetAuditLogByWorkspaceId with the parsed query', async () => {
+    const { sut, getAuditLogByWorkspaceIdStub } = makeSut();
+    const getAuditLogByWorkspaceIdSpy = jest.spyOn(
+      getAuditLogByWorkspaceIdStub,
+      'execute'
+    );
+
+    const httpRequest = makeFakeHttpRequest();
+    await sut.handle(httpRequest);
+
+    expect(getAuditLogByWorkspaceIdSpy).toHaveBeenCalledWith({
+      workspaceId: httpRequest.params.workspaceId,
+      action: 'page.delete',
+      actorId: 'sample-member-1',
+      from: new Date('2024-01-01T00:00:00.000Z'),
+      to: new Date('2024-02-01T00:00:00.000Z'),
+      cursor: '112233445566778899ddeeff',
+      limit: 20,
+    });
+  });
+
+  it('should leave out the filters that were not given', async () => {
+    const { sut, getAuditLogByWorkspaceIdStub } = makeSut();
+    const getAuditLogByWorkspaceIdSpy = jest.spyOn(
+      getAuditLogByWorkspaceIdStub,
+      'execute'
+    );
+
+    const { id } = mockWorkspace();
+    await sut.handle({ params: { workspaceId: id } });
+
+    expect(getAuditLogByWorkspaceIdSpy).toHaveBeenCalledWith({
+      workspaceId: id,
+    });
+  });
+
+  it('should return 400 if the query is invalid', async () => {
+    const { sut, validationStub } = makeSut();
+    jest
+      .spyOn(validationStub, 'validate')
+      .mockImplementation(() => new Error());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(badRequest(new Error()));
+  });
+
+  it('should return 404 if the workspace is not found', async () => {
+    const { sut, getAuditLogByWorkspaceIdStub } = makeSut();
+    jest
+      .spyOn(getAuditLogByWorkspaceIdStub, 'execute')
+      .mockImplementation(async () => new WorkspaceNotFoundError());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new WorkspaceNotFoundError()));
+  });
+
+  it('should return 200 with the entries on success', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(
+      ok({
+        entries: [{ ...mockAuditLogEntry(), createdAt: expect.any(Date) }],
+        nextCursor: null,
+      })
+    );
+  });
+});
@@ -0,0 +1,113 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { GetPageTreeByWorkspaceIdController } from '@infrastructure/http/controllers/workspaces/GetPageTreeByWorkspaceIdController';
+import { notFound, ok } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { GetPageTreeByWorkspaceIdStub } from '@tests/application/mocks/workspaces/use-cases';
+import mockWorkspace from '@tests/domain/mock-workspace';
+import { ValidationStub } from '@tests/infrastructure/mocks/validators';
+
+type SutTypes = {
+  sut: GetPageTreeByWorkspaceIdController;
+  validationStub: ValidationStub;
+  getPageTreeByWorkspaceIdStub: GetPageTreeByWorkspaceIdStub;
+};
+
+const makeSut = (): SutTypes => {
+  const validationStub = new ValidationStub();
+  const getPageTreeByWorkspaceIdStub = new GetPageTreeByWorkspaceIdStub();
+  const sut = new GetPageTreeByWorkspaceIdController(
+    validationStub,
+    getPageTreeByWorkspaceIdStub
+  );
+  return {
+    sut,
+    validationStub,
+    getPageTreeByWorkspaceIdStub,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  const { id } = mockWorkspace();
+  return {
+    params: {
+      workspaceId: id,
+    },
+    query: {
+      depth: '2',
+      root: 'sample-page-id-1',
+    },
+  };
+};
+
+describe('GetPageTreeByWorkspaceIdController', () => {
+  it('should call GetPageTreeByWorkspaceId with correct params', async () => {
+    const { sut, getPageTreeByWorkspaceIdStub } = makeSut();
+    const getPageTreeByWorkspaceIdSpy = jest.spyOn(
+      getPageTreeByWorkspaceIdStub,
+      'execute'
+    );
+    const httpRequest = makeFakeHttpRequest();
+
+    await sut.handle(httpRequest);
+
+    expect(getPageTreeByWorkspaceIdSpy).toHaveBeenCalledWith({
+      workspaceId: httpRequest.params.workspaceId,
+      rootPageId: 'sample-page-id-1',
+      depth: 2,
+    });
+  });
+
+  it('should leave the depth to the use case if it is not given', async () => {
+    const { sut, getPageTreeByWorkspaceIdStub } = makeSut();
+    const getPageTreeByWorkspaceIdSpy = jest.spyOn(
+      getPageTreeByWorkspaceIdStub,
+      'execute'
+    );
+    const { id } = mockWorkspace();
+
+    await sut.handle({ params: { workspaceId: id } });
+
+    expect(getPageTreeByWorkspaceIdSpy).toHaveBeenCalledWith({
+      workspaceId: id,
+      rootPageId: undefined,
+      depth: undefined,
+    });
+  });
+
+  it('should return 404 if the workspace does not exist', async () => {
+    const { sut, getPageTreeByWorkspaceIdStub } = makeSut();
+    jest
+      .spyOn(getPageTreeByWorkspaceIdStub, 'execute')
+      .mockImplementationOnce(async () => new WorkspaceNotFoundError());
+
+    const response = await sut.handle(makeFakeHttpRequest());
+
+    expect(response).toEqual(notFound(new WorkspaceNotFoundError()));
+  });
+
+  it('should return 404 if the root page does not exist', async () => {
+    const { sut, getPageTreeByWorkspaceIdStub } = makeSut();
+    jest
+      .spyOn(getPageTreeByWorkspaceIdStub, 'execute')
+      .mockImplementationOnce(async () => new PageNotFoundError());
+
+    const response = await sut.handle(makeFakeHttpRequest());
+
+    expect(response).toEqual(notFound(new PageNotFoundError()));
+  });
+
+  it('should return 200 with the tree on success', async () => {
+    const { sut, getPageTreeByWorkspaceIdStub } = makeSut();
+    const tree = await getPageTreeByWorkspaceIdStub.execute({
+      workspaceId: mockWorkspace().id,
+    });
+    jest
+      .spyOn(getPageTreeByWorkspaceIdStub, 'execute')
+      .mockImplementationOnce(async () => tree);
+
+    const response = await sut.handle(makeFakeHttpRequest());
+
+    expect(response).toEqual(ok(tree));
+  });
+});
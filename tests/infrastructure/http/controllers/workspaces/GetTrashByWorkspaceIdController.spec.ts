@@ -0,0 +1,58 @@
+import { GetTrashByWorkspaceIdController } from '@infrastructure/http/controllers/workspaces/GetTrashByWorkspaceIdController';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { GetTrashByWorkspaceIdStub } from '@tests/application/mocks/pages/use-cases';
+import { mockTrashedPage } from '@tests/domain/mock-page';
+import mockWorkspace from '@tests/domain/mock-workspace';
+
+type SutTypes = {
+  sut: GetTrashByWorkspaceIdController;
+  getTrashByWorkspaceIdStub: GetTrashByWorkspaceIdStub;
+};
+
+const makeSut = (): SutTypes => {
+  const getTrashByWorkspaceIdStub = new GetTrashByWorkspaceIdStub();
+  const sut = new GetTrashByWorkspaceIdController(getTrashByWorkspaceIdStub);
+
+  return {
+    sut,
+    getTrashByWorkspaceIdStub,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  const { id } = mockWorkspace();
+  return {
+    params: {
+      workspaceId: id,
+    },
+  };
+};
+
+describe('GetTrashByWorkspaceIdController', () => {
+  it('should call GetTrashByWorkspaceId with correct workspace id', async () => {
+    const { sut, getTrashByWorkspaceIdStub } = makeSut();
+    const getTrashByWorkspaceIdSpy = jest.spyOn(
+      getTrashByWorkspaceIdStub,
+      'execute'
+    );
+    const httpRequest = makeFakeHttpRequest();
+
+    await sut.handle(httpRequest);
+
+    expect(getTrashByWorkspaceIdSpy).toHaveBeenCalledWith(
+      httpRequest.params.workspaceId
+    );
+  });
+
+  it('should return 200 with the trashed pages on success', async () => {
+    const { sut } = makeSut();
+    const { id, reference, title, icon, parentId } = mockTrashedPage();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse.statusCode).toBe(200);
+    expect(httpResponse.body).toEqual([
+      { id, reference, title, icon, parentId, trashedAt: expect.any(Date) },
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { PurgePageController } from '@infrastructure/http/controllers/workspaces/PurgePageController';
+import { noContent, notFound } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { PurgePageStub } from '@tests/application/mocks/pages/use-cases';
+import mockPage from '@tests/domain/mock-page';
+import mockUser from '@tests/domain/mock-user';
+
+type SutTypes = {
+  sut: PurgePageController;
+  purgePageStub: PurgePageStub;
+};
+
+const makeSut = (): SutTypes => {
+  const purgePageStub = new PurgePageStub();
+  const sut = new PurgePageController(purgePageStub);
+
+  return {
+    sut,
+    purgePageStub,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  const { id, workspaceId } = mockPage();
+  return {
+    params: {
+      workspaceId,
+      pageId: id,
+    },
+    userId: mockUser().id,
+    ip: '127.0.0.1',
+  };
+};
+
+describe('PurgePageController', () => {
+  it('should call PurgePage with correct params', async () => {
+    const { sut, purgePageStub } = makeSut();
+    const purgePageSpy = jest.spyOn(purgePageStub, 'execute');
+    const httpRequest = makeFakeHttpRequest();
+
+    await sut.handle(httpRequest);
+
+    expect(purgePageSpy).toHaveBeenCalledWith({
+      workspaceId: httpRequest.params.workspaceId,
+      pageId: httpRequest.params.pageId,
+      actorId: mockUser().id,
+      ip: '127.0.0.1',
+    });
+  });
+
+  it('should return 404 if the page is not in the trash', async () => {
+    const { sut, purgePageStub } = makeSut();
+    jest
+      .spyOn(purgePageStub, 'execute')
+      .mockImplementation(async () => new PageNotFoundError());
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new PageNotFoundError()));
+  });
+
+  it('should return 204 on success', async () => {
+    const { sut } = makeSut();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(noContent());
+  });
+});
@@ -1,6 +1,13 @@
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { LastOwnerError } from '@application/errors/LastOwnerError';
 import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
 import { RemoveMemberByWorkspaceIdController } from '@infrastructure/http/controllers/workspaces/RemoveMemberByWorkspaceIdController';
-import { notFound } from '@infrastructure/http/helpers/http';
+import { PermissionError } from '@infrastructure/http/errors/PermissionError';
+import {
+  conflict,
+  forbidden,
+  notFound,
+} from '@infrastructure/http/helpers/http';
 import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
 import {
   GetWorkspaceByIdStub,
@@ -35,6 +42,8 @@ const makeFakeHttpRequest = (): HttpRequest => {
       workspaceId: id,
       memberId: 'sample-member-id-1',
     },
+    userId: 'sample-member-id-0',
+    ip: '127.0.0.1',
   };
 };
 
@@ -52,9 +61,39 @@ describe('RemoveMemberByWorkspaceIdController', () => {
 
     expect(removeMemberByWorkspaceIdSpy).toHaveBeenCalledWith({
       ...httpRequest.params,
+      userId: httpRequest.userId,
+      ip: httpRequest.ip,
     });
   });
 
+  it('should return 403 if the user may not remove the member', async () => {
+    const { sut, removeMemberByWorkspaceIdStub } = makeSut();
+
+    jest
+      .spyOn(removeMemberByWorkspaceIdStub, 'execute')
+      .mockImplementation(async () => {
+        return new ForbiddenError();
+      });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(forbidden(new PermissionError()));
+  });
+
+  it('should return 409 if the last owner leaves', async () => {
+    const { sut, removeMemberByWorkspaceIdStub } = makeSut();
+
+    jest
+      .spyOn(removeMemberByWorkspaceIdStub, 'execute')
+      .mockImplementation(async () => {
+        return new LastOwnerError();
+      });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(conflict(new LastOwnerError()));
+  });
+
   it('should return 404 if workspace is not found', async () => {
     const { sut, getWorkspaceByIdStub } = makeSut();
     const httpRequest = makeFakeHttpRequest();
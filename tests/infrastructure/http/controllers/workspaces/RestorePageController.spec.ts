@@ -0,0 +1,132 @@
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { Page } from '@domain/entities/Page';
+import { RestorePageController } from '@infrastructure/http/controllers/workspaces/RestorePageController';
+import { notFound, ok } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { RestorePageStub } from '@tests/application/mocks/pages/use-cases';
+import { AddPageIdToFavoritesByWorkspaceIdStub } from '@tests/application/mocks/users/use-cases';
+import { AddPageStub } from '@tests/application/mocks/workspaces/use-cases';
+import mockPage from '@tests/domain/mock-page';
+import mockUser from '@tests/domain/mock-user';
+
+type SutTypes = {
+  sut: RestorePageController;
+  restorePageStub: RestorePageStub;
+  addPageStub: AddPageStub;
+  addPageIdToFavoritesByWorkspaceIdStub: AddPageIdToFavoritesByWorkspaceIdStub;
+};
+
+const makeSut = (): SutTypes => {
+  const restorePageStub = new RestorePageStub();
+  const addPageStub = new AddPageStub();
+  const addPageIdToFavoritesByWorkspaceIdStub =
+    new AddPageIdToFavoritesByWorkspaceIdStub();
+  const sut = new RestorePageController(
+    restorePageStub,
+    addPageStub,
+    addPageIdToFavoritesByWorkspaceIdStub
+  );
+
+  return {
+    sut,
+    restorePageStub,
+    addPageStub,
+    addPageIdToFavoritesByWorkspaceIdStub,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  const { id, workspaceId } = mockPage();
+  return {
+    params: {
+      workspaceId,
+      pageId: id,
+    },
+    userId: mockUser().id,
+    ip: '127.0.0.1',
+  };
+};
+
+describe('RestorePageController', () => {
+  it('should call RestorePage with correct params', async () => {
+    const { sut, restorePageStub } = makeSut();
+    const restorePageSpy = jest.spyOn(restorePageStub, 'execute');
+    const httpRequest = makeFakeHttpRequest();
+
+    await sut.handle(httpRequest);
+
+    expect(restorePageSpy).toHaveBeenCalledWith({
+      workspaceId: httpRequest.params.workspaceId,
+      pageId: httpRequest.params.pageId,
+      actorId: mockUser().id,
+      ip: '127.0.0.1',
+    });
+  });
+
+  it('should add every restored page back to the workspace pages', async () => {
+    const { sut, restorePageStub, addPageStub } = makeSut();
+    const child = new Page({
+      ...mockPage(),
+      id: '112233445566778899bbccbb',
+      reference: 'sample-child',
+    });
+    jest
+      .spyOn(restorePageStub, 'execute')
+      .mockImplementation(async () => [mockPage(), child]);
+    const addPageSpy = jest.spyOn(addPageStub, 'execute');
+
+    await sut.handle(makeFakeHttpRequest());
+
+    expect(addPageSpy).toHaveBeenCalledTimes(2);
+    expect(addPageSpy).toHaveBeenCalledWith({
+      workspaceId: child.workspaceId,
+      pageData: {
+        id: child.id,
+        reference: child.reference,
+        parentId: child.parentId,
+        icon: child.icon,
+        title: child.title,
+        createdAt: child.createdAt,
+      },
+    });
+  });
+
+  it('should add the restored pages back to the favorites of their users', async () => {
+    const { sut, addPageIdToFavoritesByWorkspaceIdStub } = makeSut();
+    const addPageIdToFavoritesByWorkspaceIdSpy = jest.spyOn(
+      addPageIdToFavoritesByWorkspaceIdStub,
+      'execute'
+    );
+    const { id, workspaceId, favorite } = mockPage();
+
+    await sut.handle(makeFakeHttpRequest());
+
+    expect(addPageIdToFavoritesByWorkspaceIdSpy).toHaveBeenCalledWith({
+      userId: favorite![0],
+      workspaceId,
+      pageId: id,
+    });
+  });
+
+  it('should return 404 if the page is not in the trash', async () => {
+    const { sut, restorePageStub, addPageStub } = makeSut();
+    jest
+      .spyOn(restorePageStub, 'execute')
+      .mockImplementation(async () => new PageNotFoundError());
+    const addPageSpy = jest.spyOn(addPageStub, 'execute');
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new PageNotFoundError()));
+    expect(addPageSpy).not.toHaveBeenCalled();
+  });
+
+  it('should return 200 with the restored location on success', async () => {
+    const { sut } = makeSut();
+    const { id, parentId } = mockPage();
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(ok({ id, parentId }));
+  });
+});
@@ -0,0 +1,119 @@
+import { LastOwnerError } from '@application/errors/LastOwnerError';
+import { MemberNotFoundError } from '@application/errors/MemberNotFoundError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { UpdateMemberRoleByWorkspaceIdController } from '@infrastructure/http/controllers/workspaces/UpdateMemberRoleByWorkspaceIdController';
+import {
+  conflict,
+  noContent,
+  notFound,
+} from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { UpdateMemberRoleByWorkspaceIdStub } from '@tests/application/mocks/workspaces/use-cases';
+import mockWorkspace from '@tests/domain/mock-workspace';
+import { ValidationStub } from '@tests/infrastructure/mocks/validators';
+
+type SutTypes = {
+  sut: UpdateMemberRoleByWorkspaceIdController;
+  validationStub: ValidationStub;
+  updateMemberRoleByWorkspaceIdStub: UpdateMemberRoleByWorkspaceIdStub;
+};
+
+const makeSut = (): SutTypes => {
+  const validationStub = new ValidationStub();
+  const updateMemberRoleByWorkspaceIdStub =
+    new UpdateMemberRoleByWorkspaceIdStub();
+  const sut = new UpdateMemberRoleByWorkspaceIdController(
+    validationStub,
+    updateMemberRoleByWorkspaceIdStub
+  );
+  return {
+    validationStub,
+    updateMemberRoleByWorkspaceIdStub,
+    sut,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  const { id } = mockWorkspace();
+  return {
+    params: {
+      workspaceId: id,
+      memberId: 'sample-member-id-1',
+    },
+    body: {
+      role: 'viewer',
+    },
+    userId: 'sample-member-id-0',
+    ip: '127.0.0.1',
+  };
+};
+
+describe('UpdateMemberRoleByWorkspaceIdController', () => {
+  it('should call UpdateMemberRoleByWorkspaceId with correct params', async () => {
+    const { sut, updateMemberRoleByWorkspaceIdStub } = makeSut();
+
+    const updateMemberRoleByWorkspaceIdSpy = jest.spyOn(
+      updateMemberRoleByWorkspaceIdStub,
+      'execute'
+    );
+
+    const httpRequest = makeFakeHttpRequest();
+    await sut.handle(httpRequest);
+
+    expect(updateMemberRoleByWorkspaceIdSpy).toHaveBeenCalledWith({
+      ...httpRequest.params,
+      role: 'viewer',
+      actorId: httpRequest.userId,
+      ip: httpRequest.ip,
+    });
+  });
+
+  it('should return 404 if workspace is not found', async () => {
+    const { sut, updateMemberRoleByWorkspaceIdStub } = makeSut();
+
+    jest
+      .spyOn(updateMemberRoleByWorkspaceIdStub, 'execute')
+      .mockImplementation(async () => {
+        return new WorkspaceNotFoundError();
+      });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new WorkspaceNotFoundError()));
+  });
+
+  it('should return 404 if member is not found', async () => {
+    const { sut, updateMemberRoleByWorkspaceIdStub } = makeSut();
+
+    jest
+      .spyOn(updateMemberRoleByWorkspaceIdStub, 'execute')
+      .mockImplementation(async () => {
+        return new MemberNotFoundError();
+      });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(notFound(new MemberNotFoundError()));
+  });
+
+  it('should return 409 if the last owner is demoted', async () => {
+    const { sut, updateMemberRoleByWorkspaceIdStub } = makeSut();
+
+    jest
+      .spyOn(updateMemberRoleByWorkspaceIdStub, 'execute')
+      .mockImplementation(async () => {
+        return new LastOwnerError();
+      });
+
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(conflict(new LastOwnerError()));
+  });
+
+  it('should return 204 on success', async () => {
+    const { sut } = makeSut();
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+
+    expect(httpResponse).toEqual(noContent());
+  });
+});
@@ -0,0 +1,103 @@
+import { InvalidPagePositionError } from '@application/errors/InvalidPagePositionError';
+import { PageNotFoundError } from '@application/errors/PageNotFoundError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { UpdatePagePositionByPageIdController } from '@infrastructure/http/controllers/workspaces/UpdatePagePositionByPageIdController';
+import { conflict, notFound, ok } from '@infrastructure/http/helpers/http';
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { UpdatePagePositionByPageIdStub } from '@tests/application/mocks/workspaces/use-cases';
+import mockWorkspace from '@tests/domain/mock-workspace';
+import { ValidationStub } from '@tests/infrastructure/mocks/validators';
+
+type SutTypes = {
+  sut: UpdatePagePositionByPageIdController;
+  validationStub: ValidationStub;
+  updatePagePositionByPageIdStub: UpdatePagePositionByPageIdStub;
+};
+
+const makeSut = (): SutTypes => {
+  const validationStub = new ValidationStub();
+  const updatePagePositionByPageIdStub = new UpdatePagePositionByPageIdStub();
+  const sut = new UpdatePagePositionByPageIdController(
+    validationStub,
+    updatePagePositionByPageIdStub
+  );
+  return {
+    sut,
+    validationStub,
+    updatePagePositionByPageIdStub,
+  };
+};
+
+const makeFakeHttpRequest = (): HttpRequest => {
+  const { id } = mockWorkspace();
+  return {
+    params: {
+      workspaceId: id,
+      pageId: 'sample-page-id-2',
+    },
+    body: {
+      afterPageId: 'sample-page-id-3',
+    },
+  };
+};
+
+describe('UpdatePagePositionByPageIdController', () => {
+  it('should call UpdatePagePositionByPageId with correct params', async () => {
+    const { sut, updatePagePositionByPageIdStub } = makeSut();
+    const updatePagePositionByPageIdSpy = jest.spyOn(
+      updatePagePositionByPageIdStub,
+      'execute'
+    );
+    const httpRequest = makeFakeHttpRequest();
+
+    await sut.handle(httpRequest);
+
+    expect(updatePagePositionByPageIdSpy).toHaveBeenCalledWith({
+      workspaceId: httpRequest.params.workspaceId,
+      pageId: httpRequest.params.pageId,
+      afterPageId: httpRequest.body.afterPageId,
+      beforePageId: undefined,
+    });
+  });
+
+  it('should return 404 if the workspace does not exist', async () => {
+    const { sut, updatePagePositionByPageIdStub } = makeSut();
+    jest
+      .spyOn(updatePagePositionByPageIdStub, 'execute')
+      .mockImplementationOnce(async () => new WorkspaceNotFoundError());
+
+    const response = await sut.handle(makeFakeHttpRequest());
+
+    expect(response).toEqual(notFound(new WorkspaceNotFoundError()));
+  });
+
+  it('should return 404 if the page does not exist', async () => {
+    const { sut, updatePagePositionByPageIdStub } = makeSut();
+    jest
+      .spyOn(updatePagePositionByPageIdStub, 'execute')
+      .mockImplementationOnce(async () => new PageNotFoundError());
+
+    const response = await sut.handle(makeFakeHttpRequest());
+
+    expect(response).toEqual(notFound(new PageNotFoundError()));
+  });
+
+  it('should return 409 if the neighbours are not siblings next to each other', async () => {
+    const { sut, updatePagePositionByPageIdStub } = makeSut();
+    jest
+      .spyOn(updatePagePositionByPageIdStub, 'execute')
+      .mockImplementationOnce(async () => new InvalidPagePositionError());
+
+    const response = await sut.handle(makeFakeHttpRequest());
+
+    expect(response).toEqual(conflict(new InvalidPagePositionError()));
+  });
+
+  it('should return 200 with the new position on success', async () => {
+    const { sut } = makeSut();
+
+    const response = await sut.handle(makeFakeHttpRequest());
+
+    expect(response).toEqual(ok({ position: 'sample-position' }));
+  });
+});
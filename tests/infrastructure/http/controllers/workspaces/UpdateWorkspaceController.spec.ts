@@ -58,6 +58,8 @@ const makeFakeHttpRequest = (): HttpRequest => {
       members,
       pages,
     },
+    userId: members[0].userId,
+    ip: '127.0.0.1',
   };
 };
 
@@ -71,6 +73,8 @@ describe('UpdateWorkspaceController', () => {
     expect(updateWorkspaceSpy).toHaveBeenCalledWith({
       workspaceId: httpRequest.params.workspaceId,
       workspaceData: httpRequest.body,
+      actorId: httpRequest.userId,
+      ip: httpRequest.ip,
     });
   });
 
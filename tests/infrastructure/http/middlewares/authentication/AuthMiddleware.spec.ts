@@ -1,6 +1,8 @@
 import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { ApiTokenScope } from '@domain/entities/ApiToken';
 import { AuthTokenNotProvidedError } from '@infrastructure/http/errors/AuthTokenNotProvidedError';
 import { InvalidAuthTokenError } from '@infrastructure/http/errors/InvalidAuthTokenError';
+import { InsufficientScopeError } from '@infrastructure/http/errors/InsufficientScopeError';
 import { forbidden, ok } from '@infrastructure/http/helpers/http';
 import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
 import { AuthMiddleware } from '@infrastructure/http/middlewares/authentication/AuthMiddleware';
@@ -15,9 +17,9 @@ type SutTypes = {
   authenticateStub: AuthenticateStub;
 };
 
-const makeSut = (): SutTypes => {
+const makeSut = (scope?: ApiTokenScope): SutTypes => {
   const authenticateStub = new AuthenticateStub();
-  const sut = new AuthMiddleware(authenticateStub);
+  const sut = new AuthMiddleware(authenticateStub, scope);
   return {
     sut,
     authenticateStub,
@@ -50,6 +52,62 @@ describe('AuthMiddleware', () => {
   it('should return 200 if Authenticate returns a decoded token', async () => {
     const { sut } = makeSut();
     const httpResponse = await sut.handle(makeFakeHttpRequest());
-    expect(httpResponse).toEqual(ok({ userId: 'sample_token' }));
+    expect(httpResponse).toEqual(ok({ userId: 'sample-user-id' }));
+  });
+
+  it('should return 403 if an API token is used on a route without a scope', async () => {
+    const { sut, authenticateStub } = makeSut();
+    jest.spyOn(authenticateStub, 'execute').mockImplementation(async () => {
+      return {
+        userId: 'sample-user-id',
+        apiToken: { scopes: ['pages:read'], workspaceId: null },
+      };
+    });
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+    expect(httpResponse).toEqual(forbidden(new InsufficientScopeError()));
+  });
+
+  it('should return 403 if the API token lacks the required scope', async () => {
+    const { sut, authenticateStub } = makeSut('pages:write');
+    jest.spyOn(authenticateStub, 'execute').mockImplementation(async () => {
+      return {
+        userId: 'sample-user-id',
+        apiToken: { scopes: ['pages:read'], workspaceId: null },
+      };
+    });
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+    expect(httpResponse).toEqual(forbidden(new InsufficientScopeError()));
+  });
+
+  it('should return 200 if the API token grants the required scope', async () => {
+    const { sut, authenticateStub } = makeSut('pages:read');
+    jest.spyOn(authenticateStub, 'execute').mockImplementation(async () => {
+      return {
+        userId: 'sample-user-id',
+        apiToken: { scopes: ['pages:read'], workspaceId: null },
+      };
+    });
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+    expect(httpResponse).toEqual(ok({ userId: 'sample-user-id' }));
+  });
+
+  it('should pass on the workspace an API token is restricted to', async () => {
+    const { sut, authenticateStub } = makeSut('pages:read');
+    jest.spyOn(authenticateStub, 'execute').mockImplementation(async () => {
+      return {
+        userId: 'sample-user-id',
+        apiToken: {
+          scopes: ['pages:read'],
+          workspaceId: 'sample-workspace-id',
+        },
+      };
+    });
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+    expect(httpResponse).toEqual(
+      ok({
+        userId: 'sample-user-id',
+        apiTokenWorkspaceId: 'sample-workspace-id',
+      })
+    );
   });
 });
@@ -61,4 +61,58 @@ describe('AuthorizationMiddleware', () => {
     const httpResponse = await sut.handle(makeFakeHttpRequest());
     expect(httpResponse).toEqual(ok({ workspaceId: 'sample-workspace-id' }));
   });
+
+  it('should return 403 if an API token is restricted to another workspace', async () => {
+    const { sut } = makeSut();
+    const httpResponse = await sut.handle({
+      ...makeFakeHttpRequest(),
+      apiTokenWorkspaceId: 'other-workspace-id',
+    });
+    expect(httpResponse).toEqual(forbidden(new PermissionError()));
+  });
+
+  it('should return 200 if an API token is restricted to the page workspace', async () => {
+    const { sut } = makeSut();
+    const httpResponse = await sut.handle({
+      ...makeFakeHttpRequest(),
+      apiTokenWorkspaceId: 'sample-workspace-id',
+    });
+    expect(httpResponse).toEqual(ok({ workspaceId: 'sample-workspace-id' }));
+  });
+
+  it('should forward the required roles to Authorization', async () => {
+    const authorizationStub = new AuthorizationStub();
+    const sut = new AuthorizationMiddleware(authorizationStub, [
+      'owner',
+      'editor',
+    ]);
+    const executeSpy = jest.spyOn(authorizationStub, 'execute');
+
+    const httpRequest = makeFakeHttpRequest();
+    await sut.handle(httpRequest);
+    expect(executeSpy).toHaveBeenCalledWith({
+      userId: httpRequest.userId,
+      pageId: httpRequest.params.pageId,
+      roles: ['owner', 'editor'],
+    });
+  });
+
+  it('should forward membersOnly to Authorization', async () => {
+    const authorizationStub = new AuthorizationStub();
+    const sut = new AuthorizationMiddleware(
+      authorizationStub,
+      ['owner', 'editor'],
+      true
+    );
+    const executeSpy = jest.spyOn(authorizationStub, 'execute');
+
+    const httpRequest = makeFakeHttpRequest();
+    await sut.handle(httpRequest);
+    expect(executeSpy).toHaveBeenCalledWith({
+      userId: httpRequest.userId,
+      pageId: httpRequest.params.pageId,
+      roles: ['owner', 'editor'],
+      membersOnly: true,
+    });
+  });
 });
@@ -0,0 +1,56 @@
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { UserAuthorizationStub } from '@tests/application/mocks/users/use-cases';
+import { UserAuthorizationMiddleware } from '@infrastructure/http/middlewares/authorization/UserAuthorizationMiddleware';
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { forbidden, ok } from '@infrastructure/http/helpers/http';
+import { PermissionError } from '@infrastructure/http/errors/PermissionError';
+
+const makeFakeHttpRequest = (): HttpRequest => ({
+  params: { userId: 'sample-user-id' },
+  userId: 'sample-user-id',
+});
+
+type SutTypes = {
+  sut: UserAuthorizationMiddleware;
+  userAuthorizationStub: UserAuthorizationStub;
+};
+
+const makeSut = (): SutTypes => {
+  const userAuthorizationStub = new UserAuthorizationStub();
+  const sut = new UserAuthorizationMiddleware(userAuthorizationStub);
+  return {
+    sut,
+    userAuthorizationStub,
+  };
+};
+
+describe('UserAuthorizationMiddleware', () => {
+  it('should call UserAuthorization with correct params', async () => {
+    const { sut, userAuthorizationStub } = makeSut();
+    const executeSpy = jest.spyOn(userAuthorizationStub, 'execute');
+
+    const httpRequest = makeFakeHttpRequest();
+    await sut.handle(httpRequest);
+    expect(executeSpy).toHaveBeenCalledWith({
+      userId: httpRequest.userId,
+      targetUserId: httpRequest.params.userId,
+    });
+  });
+
+  it('should return 403 if UserAuthorization returns error', async () => {
+    const { sut, userAuthorizationStub } = makeSut();
+    jest
+      .spyOn(userAuthorizationStub, 'execute')
+      .mockImplementation(async () => {
+        return new ForbiddenError();
+      });
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+    expect(httpResponse).toEqual(forbidden(new PermissionError()));
+  });
+
+  it('should return 200 if UserAuthorization succeeds', async () => {
+    const { sut } = makeSut();
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+    expect(httpResponse).toEqual(ok({ userId: 'sample-user-id' }));
+  });
+});
@@ -0,0 +1,110 @@
+import { HttpRequest } from '@infrastructure/http/interfaces/HttpRequest';
+import { WorkspaceAuthorizationStub } from '@tests/application/mocks/workspaces/use-cases';
+import { WorkspaceAuthorizationMiddleware } from '@infrastructure/http/middlewares/authorization/WorkspaceAuthorizationMiddleware';
+import { ForbiddenError } from '@application/errors/ForbiddenError';
+import { WorkspaceNotFoundError } from '@application/errors/WorkspaceNotFoundError';
+import { forbidden, notFound, ok } from '@infrastructure/http/helpers/http';
+import { PermissionError } from '@infrastructure/http/errors/PermissionError';
+import mockWorkspace from '@tests/domain/mock-workspace';
+
+const makeFakeHttpRequest = (): HttpRequest => ({
+  params: { workspaceId: mockWorkspace().id },
+  userId: 'sample-user-id',
+});
+
+type SutTypes = {
+  sut: WorkspaceAuthorizationMiddleware;
+  workspaceAuthorizationStub: WorkspaceAuthorizationStub;
+};
+
+const makeSut = (): SutTypes => {
+  const workspaceAuthorizationStub = new WorkspaceAuthorizationStub();
+  const sut = new WorkspaceAuthorizationMiddleware(workspaceAuthorizationStub);
+  return {
+    sut,
+    workspaceAuthorizationStub,
+  };
+};
+
+describe('WorkspaceAuthorizationMiddleware', () => {
+  it('should call WorkspaceAuthorization with correct params', async () => {
+    const { sut, workspaceAuthorizationStub } = makeSut();
+    const executeSpy = jest.spyOn(workspaceAuthorizationStub, 'execute');
+
+    const httpRequest = makeFakeHttpRequest();
+    await sut.handle(httpRequest);
+    expect(executeSpy).toHaveBeenCalledWith({
+      userId: httpRequest.userId,
+      workspaceId: httpRequest.params.workspaceId,
+    });
+  });
+
+  it('should read the workspace id from the body if the path has none', async () => {
+    const { sut, workspaceAuthorizationStub } = makeSut();
+    const executeSpy = jest.spyOn(workspaceAuthorizationStub, 'execute');
+
+    await sut.handle({
+      params: {},
+      body: { workspaceId: mockWorkspace().id },
+      userId: 'sample-user-id',
+    });
+    expect(executeSpy).toHaveBeenCalledWith({
+      userId: 'sample-user-id',
+      workspaceId: mockWorkspace().id,
+    });
+  });
+
+  it('should return 404 if the workspace is not found', async () => {
+    const { sut, workspaceAuthorizationStub } = makeSut();
+    jest
+      .spyOn(workspaceAuthorizationStub, 'execute')
+      .mockImplementation(async () => {
+        return new WorkspaceNotFoundError();
+      });
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+    expect(httpResponse).toEqual(notFound(new WorkspaceNotFoundError()));
+  });
+
+  it('should return 403 if the user is not a member', async () => {
+    const { sut, workspaceAuthorizationStub } = makeSut();
+    jest
+      .spyOn(workspaceAuthorizationStub, 'execute')
+      .mockImplementation(async () => {
+        return new ForbiddenError();
+      });
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+    expect(httpResponse).toEqual(forbidden(new PermissionError()));
+  });
+
+  it('should return 200 with the workspace id on success', async () => {
+    const { sut } = makeSut();
+    const httpResponse = await sut.handle(makeFakeHttpRequest());
+    expect(httpResponse).toEqual(ok({ workspaceId: mockWorkspace().id }));
+  });
+
+  it('should return 403 if an API token is restricted to another workspace', async () => {
+    const { sut } = makeSut();
+    const httpResponse = await sut.handle({
+      ...makeFakeHttpRequest(),
+      apiTokenWorkspaceId: 'other-workspace-id',
+    });
+    expect(httpResponse).toEqual(forbidden(new PermissionError()));
+  });
+
+  it('should forward the required roles to WorkspaceAuthorization', async () => {
+    const workspaceAuthorizationStub = new WorkspaceAuthorizationStub();
+    const sut = new WorkspaceAuthorizationMiddleware(
+      workspaceAuthorizationStub,
+      ['owner']
+    );
+    const executeSpy = jest.spyOn(workspaceAuthorizationStub, 'execute');
+
+    const httpRequest = makeFakeHttpRequest();
+    await sut.handle(httpRequest);
+    expect(executeSpy).toHaveBeenCalledWith({
+      userId: httpRequest.userId,
+      workspaceId: httpRequest.params.workspaceId,
+      roles: ['owner'],
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { createHash } from 'crypto';
+import { OidcProvider } from '@infrastructure/identity/OidcProvider';
+import { StubOidcIssuer } from '@tests/infrastructure/mocks/oidc-issuer';
+
+describe('OidcProvider', () => {
+  const stubIssuer = new StubOidcIssuer();
+  let sut: OidcProvider;
+
+  beforeAll(async () => {
+    await stubIssuer.start();
+  });
+
+  afterAll(async () => {
+    await stubIssuer.stop();
+  });
+
+  beforeEach(() => {
+    sut = new OidcProvider({
+      issuer: stubIssuer.issuer,
+      clientId: stubIssuer.clientId,
+      clientSecret: stubIssuer.clientSecret,
+      redirectUri: 'http://localhost:3000/auth/stub/callback',
+    });
+  });
+
+  const authorizationRequest = {
+    state: 'sample-state',
+    nonce: 'sample-nonce',
+    codeVerifier: 'sample-code-verifier',
+  };
+
+  it('should build the authorization url with a S256 code challenge', async () => {
+    const authorizationUrl = await sut.getAuthorizationUrl(
+      authorizationRequest
+    );
+
+    const { origin, pathname, searchParams } = new URL(authorizationUrl);
+
+    expect(`${origin}${pathname}`).toBe(`${stubIssuer.issuer}/authorize`);
+    expect(searchParams.get('response_type')).toBe('code');
+    expect(searchParams.get('client_id')).toBe(stubIssuer.clientId);
+    expect(searchParams.get('state')).toBe('sample-state');
+    expect(searchParams.get('nonce')).toBe('sample-nonce');
+    expect(searchParams.get('code_challenge_method')).toBe('S256');
+    expect(searchParams.get('code_challenge')).toBe(
+      createHash('sha256').update('sample-code-verifier').digest('base64url')
+    );
+    expect(authorizationUrl).not.toContain('sample-code-verifier');
+  });
+
+  it('should return the identity from a valid id token', async () => {
+    const authorizationUrl = await sut.getAuthorizationUrl(
+      authorizationRequest
+    );
+    const { code } = stubIssuer.authorize(authorizationUrl);
+
+    const identity = await sut.getIdentity({
+      code,
+      nonce: 'sample-nonce',
+      codeVerifier: 'sample-code-verifier',
+    });
+
+    expect(identity).toEqual({
+      subject: 'stub-subject',
+      email: 'stub@email.com',
+      emailVerified: true,
+      name: 'stub-name',
+      picture: undefined,
+    });
+  });
+
+  it('should return null if the code verifier does not match the challenge', async () => {
+    const authorizationUrl = await sut.getAuthorizationUrl(
+      authorizationRequest
+    );
+    const { code } = stubIssuer.authorize(authorizationUrl);
+
+    const identity = await sut.getIdentity({
+      code,
+      nonce: 'sample-nonce',
+      codeVerifier: 'another-code-verifier',
+    });
+
+    expect(identity).toBeNull();
+  });
+
+  it('should return null if the nonce does not match', async () => {
+    const authorizationUrl = await sut.getAuthorizationUrl(
+      authorizationRequest
+    );
+    const { code } = stubIssuer.authorize(authorizationUrl);
+
+    const identity = await sut.getIdentity({
+      code,
+      nonce: 'another-nonce',
+      codeVerifier: 'sample-code-verifier',
+    });
+
+    expect(identity).toBeNull();
+  });
+
+  it('should return null if a code is used twice', async () => {
+    const authorizationUrl = await sut.getAuthorizationUrl(
+      authorizationRequest
+    );
+    const { code } = stubIssuer.authorize(authorizationUrl);
+    const authorization = {
+      code,
+      nonce: 'sample-nonce',
+      codeVerifier: 'sample-code-verifier',
+    };
+
+    await sut.getIdentity(authorization);
+    const identity = await sut.getIdentity(authorization);
+
+    expect(identity).toBeNull();
+  });
+
+  it('should return null if the id token was issued for another client', async () => {
+    const anotherClient = new OidcProvider({
+      issuer: stubIssuer.issuer,
+      clientId: 'another-client-id',
+      clientSecret: stubIssuer.clientSecret,
+      redirectUri: 'http://localhost:3000/auth/stub/callback',
+    });
+    const authorizationUrl = await anotherClient.getAuthorizationUrl(
+      authorizationRequest
+    );
+    const { code } = stubIssuer.authorize(authorizationUrl);
+
+    const identity = await anotherClient.getIdentity({
+      code,
+      nonce: 'sample-nonce',
+      codeVerifier: 'sample-code-verifier',
+    });
+
+    expect(identity).toBeNull();
+  });
+
+  it('should report an unverified email address', async () => {
+    stubIssuer.identity = { ...stubIssuer.identity, email_verified: false };
+    const authorizationUrl = await sut.getAuthorizationUrl(
+      authorizationRequest
+    );
+    const { code } = stubIssuer.authorize(authorizationUrl);
+    stubIssuer.identity = { ...stubIssuer.identity, email_verified: true };
+
+    const identity = await sut.getIdentity({
+      code,
+      nonce: 'sample-nonce',
+      codeVerifier: 'sample-code-verifier',
+    });
+
+    expect(identity?.emailVerified).toBe(false);
+  });
+});
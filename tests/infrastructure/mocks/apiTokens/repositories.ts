@@ -0,0 +1,62 @@
+/* eslint-disable @typescript-eslint/no-empty-function */
+/* eslint-disable max-classes-per-file */
+/* eslint-disable @typescript-eslint/no-unused-vars */
+import { CreateApiTokenRepository } from '@application/interfaces/repositories/apiTokens/createApiTokenRepository';
+import { DeleteApiTokenRepository } from '@application/interfaces/repositories/apiTokens/deleteApiTokenRepository';
+import { GetApiTokenByHashRepository } from '@application/interfaces/repositories/apiTokens/getApiTokenByHashRepository';
+import { GetApiTokensByUserIdRepository } from '@application/interfaces/repositories/apiTokens/getApiTokensByUserIdRepository';
+import { UpdateApiTokenLastUsedAtRepository } from '@application/interfaces/repositories/apiTokens/updateApiTokenLastUsedAtRepository';
+import { DeleteApiTokensByUserIdRepository } from '@application/interfaces/repositories/apiTokens/deleteApiTokensByUserIdRepository';
+import mockApiToken from '@tests/domain/mock-api-token';
+
+export class CreateApiTokenRepositoryStub implements CreateApiTokenRepository {
+  async createApiToken(
+    _apiTokenData: CreateApiTokenRepository.Request
+  ): Promise<CreateApiTokenRepository.Response> {
+    return mockApiToken().id;
+  }
+}
+
+export class GetApiTokensByUserIdRepositoryStub
+  implements GetApiTokensByUserIdRepository
+{
+  async getApiTokensByUserId(
+    _userId: GetApiTokensByUserIdRepository.Request
+  ): Promise<GetApiTokensByUserIdRepository.Response> {
+    return [mockApiToken()];
+  }
+}
+
+export class GetApiTokenByHashRepositoryStub
+  implements GetApiTokenByHashRepository
+{
+  async getApiTokenByHash(
+    _tokenHash: GetApiTokenByHashRepository.Request
+  ): Promise<GetApiTokenByHashRepository.Response> {
+    return mockApiToken();
+  }
+}
+
+export class UpdateApiTokenLastUsedAtRepositoryStub
+  implements UpdateApiTokenLastUsedAtRepository
+{
+  async updateApiTokenLastUsedAt(
+    _apiTokenId: UpdateApiTokenLastUsedAtRepository.Request
+  ): Promise<UpdateApiTokenLastUsedAtRepository.Response> {}
+}
+
+export class DeleteApiTokenRepositoryStub implements DeleteApiTokenRepository {
+  async deleteApiToken(
+    _params: DeleteApiTokenRepository.Request
+  ): Promise<DeleteApiTokenRepository.Response> {
+    return true;
+  }
+}
+
+export class DeleteApiTokensByUserIdRepositoryStub
+  implements DeleteApiTokensByUserIdRepository
+{
+  async deleteApiTokensByUserId(
+    _userId: DeleteApiTokensByUserIdRepository.Request
+  ): Promise<DeleteApiTokensByUserIdRepository.Response> {}
+}
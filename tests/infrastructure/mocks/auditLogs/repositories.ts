@@ -0,0 +1,35 @@
+/* eslint-disable @typescript-eslint/no-empty-function */
+/* eslint-disable max-classes-per-file */
+/* eslint-disable @typescript-eslint/no-unused-vars */
+import { CreateAuditLogEntryRepository } from '@application/interfaces/repositories/auditLogs/createAuditLogEntryRepository';
+import { GetAuditLogEntriesByWorkspaceIdRepository } from '@application/interfaces/repositories/auditLogs/getAuditLogEntriesByWorkspaceIdRepository';
+import { GetAuditLogEntriesByUserIdRepository } from '@application/interfaces/repositories/auditLogs/getAuditLogEntriesByUserIdRepository';
+import mockAuditLogEntry from '@tests/domain/mock-audit-log-entry';
+
+export class CreateAuditLogEntryRepositoryStub
+  implements CreateAuditLogEntryRepository
+{
+  async createAuditLogEntry(
+    _entryData: CreateAuditLogEntryRepository.Request
+  ): Promise<CreateAuditLogEntryRepository.Response> {}
+}
+
+export class GetAuditLogEntriesByWorkspaceIdRepositoryStub
+  implements GetAuditLogEntriesByWorkspaceIdRepository
+{
+  async getAuditLogEntriesByWorkspaceId(
+    _params: GetAuditLogEntriesByWorkspaceIdRepository.Request
+  ): Promise<GetAuditLogEntriesByWorkspaceIdRepository.Response> {
+    return [mockAuditLogEntry()];
+  }
+}
+
+export class GetAuditLogEntriesByUserIdRepositoryStub
+  implements GetAuditLogEntriesByUserIdRepository
+{
+  async getAuditLogEntriesByUserId(
+    _params: GetAuditLogEntriesByUserIdRepository.Request
+  ): Promise<GetAuditLogEntriesByUserIdRepository.Response> {
+    return [mockAuditLogEntry()];
+  }
+}
@@ -0,0 +1,60 @@
+/* eslint-disable @typescript-eslint/no-empty-function */
+/* eslint-disable max-classes-per-file */
+/* eslint-disable @typescript-eslint/no-unused-vars */
+import { ConsumeOidcStateRepository } from '@application/interfaces/repositories/identities/consumeOidcStateRepository';
+import { CreateIdentityRepository } from '@application/interfaces/repositories/identities/createIdentityRepository';
+import { CreateOidcStateRepository } from '@application/interfaces/repositories/identities/createOidcStateRepository';
+import { GetIdentityRepository } from '@application/interfaces/repositories/identities/getIdentityRepository';
+import { DeleteIdentitiesByUserIdRepository } from '@application/interfaces/repositories/identities/deleteIdentitiesByUserIdRepository';
+
+export class CreateOidcStateRepositoryStub
+  implements CreateOidcStateRepository
+{
+  async createOidcState(
+    _stateData: CreateOidcStateRepository.Request
+  ): Promise<CreateOidcStateRepository.Response> {
+    return 'sample-oidc-state-id';
+  }
+}
+
+export class ConsumeOidcStateRepositoryStub
+  implements ConsumeOidcStateRepository
+{
+  async consumeOidcState(
+    _state: ConsumeOidcStateRepository.Request
+  ): Promise<ConsumeOidcStateRepository.Response> {
+    return {
+      id: 'sample-oidc-state-id',
+      state: 'sample-state',
+      provider: 'sample-provider',
+      nonce: 'sample-nonce',
+      codeVerifier: 'sample-code-verifier',
+      expiresAt: new Date(Date.now() + 10 * 60 * 1000),
+      createdAt: new Date(),
+    };
+  }
+}
+
+export class GetIdentityRepositoryStub implements GetIdentityRepository {
+  async getIdentity(
+    _params: GetIdentityRepository.Request
+  ): Promise<GetIdentityRepository.Response> {
+    return null;
+  }
+}
+
+export class CreateIdentityRepositoryStub implements CreateIdentityRepository {
+  async createIdentity(
+    _identityData: CreateIdentityRepository.Request
+  ): Promise<CreateIdentityRepository.Response> {
+    return 'sample-identity-id';
+  }
+}
+
+export class DeleteIdentitiesByUserIdRepositoryStub
+  implements DeleteIdentitiesByUserIdRepository
+{
+  async deleteIdentitiesByUserId(
+    _userId: DeleteIdentitiesByUserIdRepository.Request
+  ): Promise<DeleteIdentitiesByUserIdRepository.Response> {}
+}
@@ -0,0 +1,27 @@
+/* eslint-disable @typescript-eslint/no-unused-vars */
+import {
+  AuthorizationCodeType,
+  AuthorizationRequestType,
+  ExternalIdentityType,
+  IdentityProvider,
+} from '@application/interfaces/identity/IdentityProvider';
+
+export class IdentityProviderStub implements IdentityProvider {
+  async getAuthorizationUrl(
+    _request: AuthorizationRequestType
+  ): Promise<string> {
+    return 'https://issuer.local/authorize?state=sample-state';
+  }
+
+  async getIdentity(
+    _authorization: AuthorizationCodeType
+  ): Promise<ExternalIdentityType | null> {
+    return {
+      subject: 'sample-subject',
+      email: 'sample@email.com',
+      emailVerified: true,
+      name: 'sample-name',
+      picture: 'sample-picture-url',
+    };
+  }
+}
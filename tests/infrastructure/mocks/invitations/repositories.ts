@@ -0,0 +1,56 @@
+/* eslint-disable @typescript-eslint/no-empty-function */
+/* eslint-disable max-classes-per-file */
+/* eslint-disable @typescript-eslint/no-unused-vars */
+import { CreateInvitationRepository } from '@application/interfaces/repositories/invitations/createInvitationRepository';
+import { GetInvitationByTokenRepository } from '@application/interfaces/repositories/invitations/getInvitationByTokenRepository';
+import { GetPendingInvitationsByEmailRepository } from '@application/interfaces/repositories/invitations/getPendingInvitationsByEmailRepository';
+import { UpdateInvitationStatusRepository } from '@application/interfaces/repositories/invitations/updateInvitationStatusRepository';
+import { DeletePendingInvitationsByEmailRepository } from '@application/interfaces/repositories/invitations/deletePendingInvitationsByEmailRepository';
+import mockInvitation from '@tests/domain/mock-invitation';
+
+export class CreateInvitationRepositoryStub
+  implements CreateInvitationRepository
+{
+  async createInvitation(
+    _invitationData: CreateInvitationRepository.Request
+  ): Promise<CreateInvitationRepository.Response> {
+    const { id } = mockInvitation();
+    return id;
+  }
+}
+
+export class GetInvitationByTokenRepositoryStub
+  implements GetInvitationByTokenRepository
+{
+  async getInvitationByToken(
+    _token: GetInvitationByTokenRepository.Request
+  ): Promise<GetInvitationByTokenRepository.Response> {
+    return mockInvitation();
+  }
+}
+
+export class GetPendingInvitationsByEmailRepositoryStub
+  implements GetPendingInvitationsByEmailRepository
+{
+  async getPendingInvitationsByEmail(
+    _email: GetPendingInvitationsByEmailRepository.Request
+  ): Promise<GetPendingInvitationsByEmailRepository.Response> {
+    return [mockInvitation()];
+  }
+}
+
+export class UpdateInvitationStatusRepositoryStub
+  implements UpdateInvitationStatusRepository
+{
+  async updateInvitationStatus(
+    _params: UpdateInvitationStatusRepository.Request
+  ): Promise<UpdateInvitationStatusRepository.Response> {}
+}
+
+export class DeletePendingInvitationsByEmailRepositoryStub
+  implements DeletePendingInvitationsByEmailRepository
+{
+  async deletePendingInvitationsByEmail(
+    _email: DeletePendingInvitationsByEmailRepository.Request
+  ): Promise<DeletePendingInvitationsByEmailRepository.Response> {}
+}
@@ -0,0 +1,32 @@
+/* eslint-disable @typescript-eslint/no-empty-function */
+/* eslint-disable max-classes-per-file */
+/* eslint-disable @typescript-eslint/no-unused-vars */
+import { ClearLoginAttemptsRepository } from '@application/interfaces/repositories/loginAttempts/clearLoginAttemptsRepository';
+import { GetLoginAttemptsRepository } from '@application/interfaces/repositories/loginAttempts/getLoginAttemptsRepository';
+import { RecordFailedLoginRepository } from '@application/interfaces/repositories/loginAttempts/recordFailedLoginRepository';
+
+export class GetLoginAttemptsRepositoryStub
+  implements GetLoginAttemptsRepository
+{
+  async getLoginAttempts(
+    _keys: GetLoginAttemptsRepository.Request
+  ): Promise<GetLoginAttemptsRepository.Response> {
+    return [];
+  }
+}
+
+export class RecordFailedLoginRepositoryStub
+  implements RecordFailedLoginRepository
+{
+  async recordFailedLogin(
+    _attemptData: RecordFailedLoginRepository.Request
+  ): Promise<RecordFailedLoginRepository.Response> {}
+}
+
+export class ClearLoginAttemptsRepositoryStub
+  implements ClearLoginAttemptsRepository
+{
+  async clearLoginAttempts(
+    _key: ClearLoginAttemptsRepository.Request
+  ): Promise<ClearLoginAttemptsRepository.Response> {}
+}
@@ -0,0 +1,7 @@
+/* eslint-disable @typescript-eslint/no-empty-function */
+/* eslint-disable @typescript-eslint/no-unused-vars */
+import { MailSender, MailType } from '@application/interfaces/mail/MailSender';
+
+export class MailSenderStub implements MailSender {
+  async send(_mail: MailType): Promise<void> {}
+}
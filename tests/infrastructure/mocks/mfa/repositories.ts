@@ -0,0 +1,93 @@
+/* eslint-disable @typescript-eslint/no-empty-function */
+/* eslint-disable max-classes-per-file */
+/* eslint-disable @typescript-eslint/no-unused-vars */
+import { AttemptMfaChallengeRepository } from '@application/interfaces/repositories/mfa/attemptMfaChallengeRepository';
+import { CreateMfaChallengeRepository } from '@application/interfaces/repositories/mfa/createMfaChallengeRepository';
+import { CreateMfaRepository } from '@application/interfaces/repositories/mfa/createMfaRepository';
+import { DeleteMfaChallengeRepository } from '@application/interfaces/repositories/mfa/deleteMfaChallengeRepository';
+import { EnableMfaRepository } from '@application/interfaces/repositories/mfa/enableMfaRepository';
+import { GetMfaByUserIdRepository } from '@application/interfaces/repositories/mfa/getMfaByUserIdRepository';
+import { RemoveRecoveryCodeRepository } from '@application/interfaces/repositories/mfa/removeRecoveryCodeRepository';
+import { UseMfaTimeStepRepository } from '@application/interfaces/repositories/mfa/useMfaTimeStepRepository';
+import { DeleteMfaByUserIdRepository } from '@application/interfaces/repositories/mfa/deleteMfaByUserIdRepository';
+
+export class CreateMfaRepositoryStub implements CreateMfaRepository {
+  async createMfa(
+    _mfaData: CreateMfaRepository.Request
+  ): Promise<CreateMfaRepository.Response> {}
+}
+
+export class GetMfaByUserIdRepositoryStub implements GetMfaByUserIdRepository {
+  async getMfaByUserId(
+    _userId: GetMfaByUserIdRepository.Request
+  ): Promise<GetMfaByUserIdRepository.Response> {
+    return null;
+  }
+}
+
+export class EnableMfaRepositoryStub implements EnableMfaRepository {
+  async enableMfa(
+    _params: EnableMfaRepository.Request
+  ): Promise<EnableMfaRepository.Response> {}
+}
+
+export class UseMfaTimeStepRepositoryStub implements UseMfaTimeStepRepository {
+  async useMfaTimeStep(
+    _params: UseMfaTimeStepRepository.Request
+  ): Promise<UseMfaTimeStepRepository.Response> {
+    return true;
+  }
+}
+
+export class RemoveRecoveryCodeRepositoryStub
+  implements RemoveRecoveryCodeRepository
+{
+  async removeRecoveryCode(
+    _params: RemoveRecoveryCodeRepository.Request
+  ): Promise<RemoveRecoveryCodeRepository.Response> {
+    return true;
+  }
+}
+
+export class CreateMfaChallengeRepositoryStub
+  implements CreateMfaChallengeRepository
+{
+  async createMfaChallenge(
+    _challengeData: CreateMfaChallengeRepository.Request
+  ): Promise<CreateMfaChallengeRepository.Response> {
+    return 'sample-id';
+  }
+}
+
+export class AttemptMfaChallengeRepositoryStub
+  implements AttemptMfaChallengeRepository
+{
+  async attemptMfaChallenge(
+    _token: AttemptMfaChallengeRepository.Request
+  ): Promise<AttemptMfaChallengeRepository.Response> {
+    return {
+      id: 'sample-id',
+      token: 'sample-mfa-token',
+      userId: 'sample-user-id',
+      attempts: 1,
+      expiresAt: new Date(Date.now() + 60 * 1000),
+      createdAt: new Date(),
+    };
+  }
+}
+
+export class DeleteMfaChallengeRepositoryStub
+  implements DeleteMfaChallengeRepository
+{
+  async deleteMfaChallenge(
+    _token: DeleteMfaChallengeRepository.Request
+  ): Promise<DeleteMfaChallengeRepository.Response> {}
+}
+
+export class DeleteMfaByUserIdRepositoryStub
+  implements DeleteMfaByUserIdRepository
+{
+  async deleteMfaByUserId(
+    _userId: DeleteMfaByUserIdRepository.Request
+  ): Promise<DeleteMfaByUserIdRepository.Response> {}
+}
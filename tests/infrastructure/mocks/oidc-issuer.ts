@@ -0,0 +1,126 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { createHash, generateKeyPairSync } from 'crypto';
+import jwt from 'jsonwebtoken';
+
+type StubIdentityType = {
+  sub: string;
+  email: string;
+  email_verified: boolean;
+  name: string;
+};
+
+type PendingCodeType = {
+  codeChallenge: string;
+  nonce: string;
+  identity: StubIdentityType;
+};
+
+// a local OpenID Provider speaking just enough of the protocol for the tests
+export class StubOidcIssuer {
+  public issuer = '';
+
+  public identity: StubIdentityType = {
+    sub: 'stub-subject',
+    email: 'stub@email.com',
+    email_verified: true,
+    name: 'stub-name',
+  };
+
+  private server?: Server;
+
+  private readonly codes = new Map<string, PendingCodeType>();
+
+  private readonly keys = generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+  constructor(
+    public readonly clientId = 'stub-client-id',
+    public readonly clientSecret = 'stub-client-secret'
+  ) {}
+
+  async start(port = 0): Promise<void> {
+    const app = express();
+    app.use(express.urlencoded({ extended: false }));
+
+    app.get('/.well-known/openid-configuration', (req, res) => {
+      res.json({
+        issuer: this.issuer,
+        authorization_endpoint: `${this.issuer}/authorize`,
+        token_endpoint: `${this.issuer}/token`,
+        jwks_uri: `${this.issuer}/jwks`,
+      });
+    });
+
+    app.get('/jwks', (req, res) => {
+      const jwk = this.keys.publicKey.export({ format: 'jwk' });
+      res.json({ keys: [{ ...jwk, kid: 'stub-key', alg: 'RS256' }] });
+    });
+
+    app.post('/token', (req, res) => {
+      const {
+        code,
+        client_id: clientId,
+        client_secret: clientSecret,
+        code_verifier: codeVerifier,
+      } = req.body;
+      const pendingCode = this.codes.get(code);
+      this.codes.delete(code);
+
+      const codeChallenge = createHash('sha256')
+        .update(codeVerifier || '')
+        .digest('base64url');
+
+      if (
+        !pendingCode ||
+        clientId !== this.clientId ||
+        clientSecret !== this.clientSecret ||
+        codeChallenge !== pendingCode.codeChallenge
+      ) {
+        res.status(400).json({ error: 'invalid_grant' });
+        return;
+      }
+
+      const idToken = jwt.sign(
+        { ...pendingCode.identity, nonce: pendingCode.nonce },
+        this.keys.privateKey,
+        {
+          algorithm: 'RS256',
+          keyid: 'stub-key',
+          issuer: this.issuer,
+          audience: this.clientId,
+          expiresIn: '5m',
+        }
+      );
+
+      res.json({ access_token: 'stub-access-token', id_token: idToken });
+    });
+
+    await new Promise<void>(resolve => {
+      this.server = app.listen(port, resolve);
+    });
+
+    const { port: boundPort } = this.server!.address() as AddressInfo;
+    this.issuer = `http://127.0.0.1:${boundPort}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise(resolve => {
+      this.server?.close(resolve);
+    });
+  }
+
+  // plays the user agreeing at the authorization endpoint
+  authorize(authorizationUrl: string): { code: string; state: string } {
+    const { searchParams } = new URL(authorizationUrl);
+    const code = `stub-code-${this.codes.size + 1}-${Date.now()}`;
+
+    this.codes.set(code, {
+      codeChallenge: searchParams.get('code_challenge') || '',
+      nonce: searchParams.get('nonce') || '',
+      identity: { ...this.identity },
+    });
+
+    return { code, state: searchParams.get('state') || '' };
+  }
+}
@@ -0,0 +1,8 @@
+/* eslint-disable @typescript-eslint/no-unused-vars */
+import { PositionGenerator } from '@application/interfaces/ordering/PositionGenerator';
+
+export class PositionGeneratorStub implements PositionGenerator {
+  generatePosition(_lower: string | null, _upper: string | null): string {
+    return 'sample-position';
+  }
+}
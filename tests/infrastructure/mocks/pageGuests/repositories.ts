@@ -0,0 +1,60 @@
+/* eslint-disable @typescript-eslint/no-empty-function */
+/* eslint-disable max-classes-per-file */
+/* eslint-disable @typescript-eslint/no-unused-vars */
+import { AddPageGuestRepository } from '@application/interfaces/repositories/pageGuests/addPageGuestRepository';
+import { GetPageGuestsByPageIdRepository } from '@application/interfaces/repositories/pageGuests/getPageGuestsByPageIdRepository';
+import { GetPageGuestsByUserIdRepository } from '@application/interfaces/repositories/pageGuests/getPageGuestsByUserIdRepository';
+import { RemovePageGuestRepository } from '@application/interfaces/repositories/pageGuests/removePageGuestRepository';
+import { DeletePageGuestsByUserIdRepository } from '@application/interfaces/repositories/pageGuests/deletePageGuestsByUserIdRepository';
+import { MovePageGuestsRepository } from '@application/interfaces/repositories/pageGuests/movePageGuestsRepository';
+import mockPageGuest from '@tests/domain/mock-page-guest';
+
+export class AddPageGuestRepositoryStub implements AddPageGuestRepository {
+  async addPageGuest(
+    _pageGuestData: AddPageGuestRepository.Request
+  ): Promise<AddPageGuestRepository.Response> {}
+}
+
+export class GetPageGuestsByPageIdRepositoryStub
+  implements GetPageGuestsByPageIdRepository
+{
+  async getPageGuestsByPageId(
+    _pageId: GetPageGuestsByPageIdRepository.Request
+  ): Promise<GetPageGuestsByPageIdRepository.Response> {
+    return [mockPageGuest()];
+  }
+}
+
+export class GetPageGuestsByUserIdRepositoryStub
+  implements GetPageGuestsByUserIdRepository
+{
+  async getPageGuestsByUserId(
+    userId: GetPageGuestsByUserIdRepository.Request
+  ): Promise<GetPageGuestsByUserIdRepository.Response> {
+    return [mockPageGuest()].filter(pageGuest => pageGuest.userId === userId);
+  }
+}
+
+export class RemovePageGuestRepositoryStub
+  implements RemovePageGuestRepository
+{
+  async removePageGuest(
+    _params: RemovePageGuestRepository.Request
+  ): Promise<RemovePageGuestRepository.Response> {
+    return true;
+  }
+}
+
+export class DeletePageGuestsByUserIdRepositoryStub
+  implements DeletePageGuestsByUserIdRepository
+{
+  async deletePageGuestsByUserId(
+    _userId: DeletePageGuestsByUserIdRepository.Request
+  ): Promise<DeletePageGuestsByUserIdRepository.Response> {}
+}
+
+export class MovePageGuestsRepositoryStub implements MovePageGuestsRepository {
+  async movePageGuests(
+    _params: MovePageGuestsRepository.Request
+  ): Promise<MovePageGuestsRepository.Response> {}
+}
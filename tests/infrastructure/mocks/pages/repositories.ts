@@ -7,17 +7,31 @@ import { DeletePageRepository } from '@application/interfaces/repositories/pages
 import { DeletePagesByWorkspaceIdRepository } from '@application/interfaces/repositories/pages/deletePagesByWorkspaceIdRepository';
 import { GetPageByIdRepository } from '@application/interfaces/repositories/pages/getPageByIdRepository';
 import { GetPageContentByPageIdRepository } from '@application/interfaces/repositories/pages/getPageContentByPageIdRepository';
-import { GetPageIdsByPathRepository } from '@application/interfaces/repositories/pages/getPageIdsByPathRepository';
+import { GetDescendantsByPageIdRepository } from '@application/interfaces/repositories/pages/getDescendantsByPageIdRepository';
+import { GetTrashedDescendantsByPageIdRepository } from '@application/interfaces/repositories/pages/getTrashedDescendantsByPageIdRepository';
+import { GetPageByPublicSlugRepository } from '@application/interfaces/repositories/pages/getPageByPublicSlugRepository';
+import { GetPagesByWorkspaceIdRepository } from '@application/interfaces/repositories/pages/getPagesByWorkspaceIdRepository';
 import { GetPageSettingsByPageIdRepository } from '@application/interfaces/repositories/pages/getPageSettingsByPageIdRepository';
+import { MovePagesRepository } from '@application/interfaces/repositories/pages/movePagesRepository';
 import { RemoveFromFavoriteRepository } from '@application/interfaces/repositories/pages/removeFromFavoriteRepository';
 import { UpdatePageContentByPageIdRepository } from '@application/interfaces/repositories/pages/updatePageContentByPageIdRepository';
 import { UpdatePageCoverByPageIdRepository } from '@application/interfaces/repositories/pages/updatePageCoverByPageIdRepository';
 import { UpdatePageIconByPageIdRepository } from '@application/interfaces/repositories/pages/updatePageIconByPageIdRepository';
-import { UpdatePagePathByPageIdRepository } from '@application/interfaces/repositories/pages/updatePagePathByPageIdRepository';
+import { UpdatePagePublicationByPageIdRepository } from '@application/interfaces/repositories/pages/updatePagePublicationByPageIdRepository';
 import { UpdatePageSettingsByPageIdRepository } from '@application/interfaces/repositories/pages/updatePageSettingsByPageIdRepository';
 import { UpdatePageTitleByPageIdRepository } from '@application/interfaces/repositories/pages/updatePageTitleByPageIdRepository';
+import { RemoveUserFromFavoritesRepository } from '@application/interfaces/repositories/pages/removeUserFromFavoritesRepository';
+import { TrashPagesRepository } from '@application/interfaces/repositories/pages/trashPagesRepository';
+import { GetTrashedPagesByWorkspaceIdRepository } from '@application/interfaces/repositories/pages/getTrashedPagesByWorkspaceIdRepository';
+import { GetTrashedPagesByPageIdRepository } from '@application/interfaces/repositories/pages/getTrashedPagesByPageIdRepository';
+import { GetTrashedPagesDueForPurgeRepository } from '@application/interfaces/repositories/pages/getTrashedPagesDueForPurgeRepository';
+import { RestorePagesRepository } from '@application/interfaces/repositories/pages/restorePagesRepository';
+import { PurgeTrashedPagesRepository } from '@application/interfaces/repositories/pages/purgeTrashedPagesRepository';
 import { Page } from '@domain/entities/Page';
-import mockPage from '@tests/domain/mock-page';
+import mockPage, {
+  mockPublishedPage,
+  mockTrashedPage,
+} from '@tests/domain/mock-page';
 
 export class CreatePageRepositoryStub implements CreatePageRepository {
   async createPage(
@@ -68,17 +82,6 @@ export class GetPageSettingsByPageIdRepositoryStub
   }
 }
 
-export class GetPageIdsByPathRepositoryStub
-  implements GetPageIdsByPathRepository
-{
-  async getPageIdsByPath(
-    _path: GetPageIdsByPathRepository.Request
-  ): Promise<GetPageIdsByPathRepository.Response> {
-    const { id } = mockPage();
-    return [id];
-  }
-}
-
 export class UpdatePageContentByPageIdRepositoryStub
   implements UpdatePageContentByPageIdRepository
 {
@@ -134,17 +137,6 @@ export class UpdatePageTitleByPageIdRepositoryStub
   }
 }
 
-export class UpdatePagePathByPageIdRepositoryStub
-  implements UpdatePagePathByPageIdRepository
-{
-  async updatePagePathByPageId(
-    params: UpdatePagePathByPageIdRepository.Request
-  ): Promise<UpdatePagePathByPageIdRepository.Response> {
-    const page = mockPage();
-    return page;
-  }
-}
-
 export class RemoveFromFavoriteRepositoryStub
   implements RemoveFromFavoriteRepository
 {
@@ -169,3 +161,144 @@ export class DeletePagesByWorkspaceIdRepositoryStub
     workspaceId: DeletePagesByWorkspaceIdRepository.Request
   ): Promise<DeletePagesByWorkspaceIdRepository.Response> {}
 }
+
+export class GetPageByPublicSlugRepositoryStub
+  implements GetPageByPublicSlugRepository
+{
+  async getPageByPublicSlug(
+    _slug: GetPageByPublicSlugRepository.Request
+  ): Promise<GetPageByPublicSlugRepository.Response> {
+    return mockPublishedPage();
+  }
+}
+
+export class GetDescendantsByPageIdRepositoryStub
+  implements GetDescendantsByPageIdRepository
+{
+  async getDescendantsByPageId(
+    _pageId: GetDescendantsByPageIdRepository.Request
+  ): Promise<GetDescendantsByPageIdRepository.Response> {
+    const { id, ancestors } = mockPublishedPage();
+    return [
+      new Page({
+        ...mockPage(),
+        id: '112233445566778899bbccbb',
+        reference: 'sample-child',
+        title: 'sample child',
+        parentId: id,
+        ancestors: [...ancestors, id],
+      }),
+      new Page({
+        ...mockPage(),
+        id: '112233445566778899bbccdd',
+        reference: 'sample-grandchild',
+        title: 'sample grandchild',
+        parentId: '112233445566778899bbccbb',
+        ancestors: [...ancestors, id, '112233445566778899bbccbb'],
+      }),
+    ];
+  }
+}
+
+export class GetTrashedDescendantsByPageIdRepositoryStub
+  implements GetTrashedDescendantsByPageIdRepository
+{
+  async getTrashedDescendantsByPageId(
+    _pageId: GetTrashedDescendantsByPageIdRepository.Request
+  ): Promise<GetTrashedDescendantsByPageIdRepository.Response> {
+    return [];
+  }
+}
+
+export class UpdatePagePublicationByPageIdRepositoryStub
+  implements UpdatePagePublicationByPageIdRepository
+{
+  async updatePagePublicationByPageId(
+    _params: UpdatePagePublicationByPageIdRepository.Request
+  ): Promise<UpdatePagePublicationByPageIdRepository.Response> {}
+}
+
+export class RemoveUserFromFavoritesRepositoryStub
+  implements RemoveUserFromFavoritesRepository
+{
+  async removeUserFromFavorites(
+    _userId: RemoveUserFromFavoritesRepository.Request
+  ): Promise<RemoveUserFromFavoritesRepository.Response> {}
+}
+
+export class GetPagesByWorkspaceIdRepositoryStub
+  implements GetPagesByWorkspaceIdRepository
+{
+  async getPagesByWorkspaceId(
+    _workspaceId: GetPagesByWorkspaceIdRepository.Request
+  ): Promise<GetPagesByWorkspaceIdRepository.Response> {
+    return [mockPage()];
+  }
+}
+
+export class MovePagesRepositoryStub implements MovePagesRepository {
+  async movePages(
+    _params: MovePagesRepository.Request
+  ): Promise<MovePagesRepository.Response> {}
+}
+
+export class TrashPagesRepositoryStub implements TrashPagesRepository {
+  async trashPages(
+    _params: TrashPagesRepository.Request
+  ): Promise<TrashPagesRepository.Response> {}
+}
+
+export class GetTrashedPagesByWorkspaceIdRepositoryStub
+  implements GetTrashedPagesByWorkspaceIdRepository
+{
+  async getTrashedPagesByWorkspaceId(
+    _workspaceId: GetTrashedPagesByWorkspaceIdRepository.Request
+  ): Promise<GetTrashedPagesByWorkspaceIdRepository.Response> {
+    return [mockTrashedPage()];
+  }
+}
+
+export class GetTrashedPagesByPageIdRepositoryStub
+  implements GetTrashedPagesByPageIdRepository
+{
+  async getTrashedPagesByPageId(
+    _pageId: GetTrashedPagesByPageIdRepository.Request
+  ): Promise<GetTrashedPagesByPageIdRepository.Response> {
+    const page = mockTrashedPage();
+    return [
+      page,
+      new Page({
+        ...page,
+        id: '112233445566778899bbccbb',
+        reference: 'sample-child',
+        title: 'sample child',
+        parentId: page.id,
+        ancestors: [...page.ancestors, page.id],
+      }),
+    ];
+  }
+}
+
+export class GetTrashedPagesDueForPurgeRepositoryStub
+  implements GetTrashedPagesDueForPurgeRepository
+{
+  async getTrashedPagesDueForPurge(
+    _trashedBefore: GetTrashedPagesDueForPurgeRepository.Request
+  ): Promise<GetTrashedPagesDueForPurgeRepository.Response> {
+    return [mockTrashedPage()];
+  }
+}
+
+export class RestorePagesRepositoryStub implements RestorePagesRepository {
+  async restorePages(
+    _params: RestorePagesRepository.Request
+  ): Promise<RestorePagesRepository.Response> {}
+}
+
+export class PurgeTrashedPagesRepositoryStub
+  implements PurgeTrashedPagesRepository
+{
+  async purgeTrashedPages(
+    _pageId: PurgeTrashedPagesRepository.Request
+  ): Promise<PurgeTrashedPagesRepository.Response> {}
+}
@@ -0,0 +1,13 @@
+/* eslint-disable @typescript-eslint/no-empty-function */
+/* eslint-disable @typescript-eslint/no-unused-vars */
+import { ExportStorage } from '@application/interfaces/storage/ExportStorage';
+
+export class ExportStorageStub implements ExportStorage {
+  async save(_exportId: string, _content: string): Promise<void> {}
+
+  async load(_exportId: string): Promise<string | null> {
+    return '{"user":{}}';
+  }
+
+  async remove(_exportId: string): Promise<void> {}
+}
@@ -3,11 +3,21 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 import { CreateTokenRepository } from '@application/interfaces/repositories/tokens/createTokenRepository';
 import { DeleteTokenRepository } from '@application/interfaces/repositories/tokens/deleteTokenRepository';
+import { DeleteTokensByFamilyRepository } from '@application/interfaces/repositories/tokens/deleteTokensByFamilyRepository';
+import { DeleteTokensByUserIdRepository } from '@application/interfaces/repositories/tokens/deleteTokensByUserIdRepository';
+import { GetSessionsByUserIdRepository } from '@application/interfaces/repositories/tokens/getSessionsByUserIdRepository';
 import { GetTokenRepository } from '@application/interfaces/repositories/tokens/getTokenRepository';
+import { RetireTokenRepository } from '@application/interfaces/repositories/tokens/retireTokenRepository';
+import { ConsumePasswordResetTokenRepository } from '@application/interfaces/repositories/tokens/consumePasswordResetTokenRepository';
+import { CreatePasswordResetTokenRepository } from '@application/interfaces/repositories/tokens/createPasswordResetTokenRepository';
+import { DeletePasswordResetTokensByUserIdRepository } from '@application/interfaces/repositories/tokens/deletePasswordResetTokensByUserIdRepository';
+import { ConsumeEmailVerificationTokenRepository } from '@application/interfaces/repositories/tokens/consumeEmailVerificationTokenRepository';
+import { CreateEmailVerificationTokenRepository } from '@application/interfaces/repositories/tokens/createEmailVerificationTokenRepository';
+import { DeleteEmailVerificationTokensByUserIdRepository } from '@application/interfaces/repositories/tokens/deleteEmailVerificationTokensByUserIdRepository';
 
 export class CreateTokenRepositoryStub implements CreateTokenRepository {
   async createToken(
-    _token: CreateTokenRepository.Request
+    _tokenData: CreateTokenRepository.Request
   ): Promise<CreateTokenRepository.Response> {
     return 'sample-id';
   }
@@ -20,13 +30,131 @@ export class GetTokenRepositoryStub implements GetTokenRepository {
     return {
       _id: 'sample-id',
       token: 'sample-token',
+      userId: 'sample-user-id',
+      family: 'sample-family',
+      userAgent: 'sample-user-agent',
+      ip: '127.0.0.1',
+      retiredAt: null,
+      lastUsedAt: new Date(),
       createdAt: new Date(),
     };
   }
 }
 
+export class GetSessionsByUserIdRepositoryStub
+  implements GetSessionsByUserIdRepository
+{
+  async getSessionsByUserId(
+    _userId: GetSessionsByUserIdRepository.Request
+  ): Promise<GetSessionsByUserIdRepository.Response> {
+    return [
+      {
+        id: 'sample-family',
+        userAgent: 'sample-user-agent',
+        ip: '127.0.0.1',
+        lastUsedAt: new Date(),
+      },
+    ];
+  }
+}
+
+export class RetireTokenRepositoryStub implements RetireTokenRepository {
+  async retireToken(
+    _token: RetireTokenRepository.Request
+  ): Promise<RetireTokenRepository.Response> {
+    return true;
+  }
+}
+
 export class DeleteTokenRepositoryStub implements DeleteTokenRepository {
   async deleteToken(
     _token: DeleteTokenRepository.Request
   ): Promise<DeleteTokenRepository.Response> {}
 }
+
+export class DeleteTokensByFamilyRepositoryStub
+  implements DeleteTokensByFamilyRepository
+{
+  async deleteTokensByFamily(
+    _family: DeleteTokensByFamilyRepository.Request
+  ): Promise<DeleteTokensByFamilyRepository.Response> {}
+}
+
+export class DeleteTokensByUserIdRepositoryStub
+  implements DeleteTokensByUserIdRepository
+{
+  async deleteTokensByUserId(
+    _userId: DeleteTokensByUserIdRepository.Request
+  ): Promise<DeleteTokensByUserIdRepository.Response> {}
+}
+
+export class CreatePasswordResetTokenRepositoryStub
+  implements CreatePasswordResetTokenRepository
+{
+  async createPasswordResetToken(
+    _tokenData: CreatePasswordResetTokenRepository.Request
+  ): Promise<CreatePasswordResetTokenRepository.Response> {
+    return 'sample-id';
+  }
+}
+
+export class ConsumePasswordResetTokenRepositoryStub
+  implements ConsumePasswordResetTokenRepository
+{
+  async consumePasswordResetToken(
+    _token: ConsumePasswordResetTokenRepository.Request
+  ): Promise<ConsumePasswordResetTokenRepository.Response> {
+    return {
+      id: 'sample-id',
+      token: 'sample-reset-token',
+      userId: 'sample-user-id',
+      expiresAt: new Date(Date.now() + 60 * 1000),
+      usedAt: new Date(),
+      createdAt: new Date(),
+    };
+  }
+}
+
+export class CreateEmailVerificationTokenRepositoryStub
+  implements CreateEmailVerificationTokenRepository
+{
+  async createEmailVerificationToken(
+    _tokenData: CreateEmailVerificationTokenRepository.Request
+  ): Promise<CreateEmailVerificationTokenRepository.Response> {
+    return 'sample-id';
+  }
+}
+
+export class ConsumeEmailVerificationTokenRepositoryStub
+  implements ConsumeEmailVerificationTokenRepository
+{
+  async consumeEmailVerificationToken(
+    _token: ConsumeEmailVerificationTokenRepository.Request
+  ): Promise<ConsumeEmailVerificationTokenRepository.Response> {
+    return {
+      id: 'sample-id',
+      token: 'sample-verification-token',
+      userId: 'sample-user-id',
+      email: 'sample@email.com',
+      expiresAt: new Date(Date.now() + 60 * 1000),
+      usedAt: new Date(),
+      createdAt: new Date(),
+    };
+  }
+}
+
+export class DeletePasswordResetTokensByUserIdRepositoryStub
+  implements DeletePasswordResetTokensByUserIdRepository
+{
+  async deletePasswordResetTokensByUserId(
+    _userId: DeletePasswordResetTokensByUserIdRepository.Request
+  ): Promise<DeletePasswordResetTokensByUserIdRepository.Response> {}
+}
+
+export class DeleteEmailVerificationTokensByUserIdRepositoryStub
+  implements DeleteEmailVerificationTokensByUserIdRepository
+{
+  async deleteEmailVerificationTokensByUserId(
+    _userId: DeleteEmailVerificationTokensByUserIdRepository.Request
+  ): Promise<DeleteEmailVerificationTokensByUserIdRepository.Response> {}
+}
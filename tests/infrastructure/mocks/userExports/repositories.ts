@@ -0,0 +1,82 @@
+/* eslint-disable @typescript-eslint/no-empty-function */
+/* eslint-disable max-classes-per-file */
+/* eslint-disable @typescript-eslint/no-unused-vars */
+import { ClaimPendingUserExportRepository } from '@application/interfaces/repositories/userExports/claimPendingUserExportRepository';
+import { CompleteUserExportRepository } from '@application/interfaces/repositories/userExports/completeUserExportRepository';
+import { CreateUserExportRepository } from '@application/interfaces/repositories/userExports/createUserExportRepository';
+import { DeleteUserExportsRepository } from '@application/interfaces/repositories/userExports/deleteUserExportsRepository';
+import { GetExpiredUserExportsRepository } from '@application/interfaces/repositories/userExports/getExpiredUserExportsRepository';
+import { GetUserExportByIdRepository } from '@application/interfaces/repositories/userExports/getUserExportByIdRepository';
+import { GetUserExportsByUserIdRepository } from '@application/interfaces/repositories/userExports/getUserExportsByUserIdRepository';
+import mockUserExport, {
+  mockPendingUserExport,
+} from '@tests/domain/mock-user-export';
+
+export class CreateUserExportRepositoryStub
+  implements CreateUserExportRepository
+{
+  async createUserExport(
+    _userId: CreateUserExportRepository.Request
+  ): Promise<CreateUserExportRepository.Response> {
+    return mockPendingUserExport();
+  }
+}
+
+export class GetUserExportByIdRepositoryStub
+  implements GetUserExportByIdRepository
+{
+  async getUserExportById(
+    _exportId: GetUserExportByIdRepository.Request
+  ): Promise<GetUserExportByIdRepository.Response> {
+    return mockUserExport();
+  }
+}
+
+export class ClaimPendingUserExportRepositoryStub
+  implements ClaimPendingUserExportRepository
+{
+  async claimPendingUserExport(): Promise<ClaimPendingUserExportRepository.Response> {
+    return { ...mockPendingUserExport(), status: 'processing' };
+  }
+}
+
+export class CompleteUserExportRepositoryStub
+  implements CompleteUserExportRepository
+{
+  async completeUserExport(
+    _params: CompleteUserExportRepository.Request
+  ): Promise<CompleteUserExportRepository.Response> {}
+}
+
+export class GetExpiredUserExportsRepositoryStub
+  implements GetExpiredUserExportsRepository
+{
+  async getExpiredUserExports(
+    _date: GetExpiredUserExportsRepository.Request
+  ): Promise<GetExpiredUserExportsRepository.Response> {
+    return [
+      {
+        ...mockUserExport(),
+        expiresAt: new Date(Date.now() - 60 * 60 * 1000),
+      },
+    ];
+  }
+}
+
+export class GetUserExportsByUserIdRepositoryStub
+  implements GetUserExportsByUserIdRepository
+{
+  async getUserExportsByUserId(
+    _userId: GetUserExportsByUserIdRepository.Request
+  ): Promise<GetUserExportsByUserIdRepository.Response> {
+    return [mockUserExport()];
+  }
+}
+
+export class DeleteUserExportsRepositoryStub
+  implements DeleteUserExportsRepository
+{
+  async deleteUserExports(
+    _exportIds: DeleteUserExportsRepository.Request
+  ): Promise<DeleteUserExportsRepository.Response> {}
+}
@@ -2,8 +2,16 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 import { HashComparer } from '@application/interfaces/cryptography/HashCompare';
 import { HashGenerator } from '@application/interfaces/cryptography/HashGenerator';
+import {
+  JsonWebKeySetType,
+  JWKSProvider,
+} from '@application/interfaces/cryptography/JWKSProvider';
 import { JWTGenerator } from '@application/interfaces/cryptography/JWTGenerator';
 import { JWTVerifier } from '@application/interfaces/cryptography/JWTVerifier';
+import { TokenGenerator } from '@application/interfaces/cryptography/TokenGenerator';
+import { TokenHasher } from '@application/interfaces/cryptography/TokenHasher';
+import { TotpGenerator } from '@application/interfaces/cryptography/TotpGenerator';
+import { TotpVerifier } from '@application/interfaces/cryptography/TotpVerifier';
 
 export class HashCompareStub implements HashComparer {
   async compare(_plaintext: string, _hash: string): Promise<boolean> {
@@ -27,6 +35,14 @@ export class JWTGeneratorStub implements JWTGenerator {
   }
 }
 
+export class JWKSProviderStub implements JWKSProvider {
+  async getJsonWebKeySet(): Promise<JsonWebKeySetType> {
+    return {
+      keys: [{ kid: 'sample-kid', alg: 'ES256', use: 'sig', kty: 'EC' }],
+    };
+  }
+}
+
 export class JWTVerifierStub implements JWTVerifier {
   async verifyAccessToken(_jwt: string): Promise<string | null> {
     return 'sample-user';
@@ -36,3 +52,31 @@ export class JWTVerifierStub implements JWTVerifier {
     return 'sample-user';
   }
 }
+
+export class TokenGeneratorStub implements TokenGenerator {
+  async generateToken(): Promise<string> {
+    return 'sample-invitation-token';
+  }
+}
+
+export class TokenHasherStub implements TokenHasher {
+  async hashToken(_token: string): Promise<string> {
+    return 'sample-token-hash';
+  }
+}
+
+export class TotpGeneratorStub implements TotpGenerator {
+  async generateSecret(): Promise<string> {
+    return 'SAMPLESECRET';
+  }
+
+  generateUri(_secret: string, _accountName: string): string {
+    return 'otpauth://totp/sample-uri';
+  }
+}
+
+export class TotpVerifierStub implements TotpVerifier {
+  async verify(_secret: string, _code: string): Promise<number | null> {
+    return 1;
+  }
+}
@@ -13,6 +13,11 @@ import { RemoveWorkspaceByUserIdRepository } from '@application/interfaces/repos
 import { UpdateUserProfilePictureRepository } from '@application/interfaces/repositories/users/updateUserProfilePictureRepository';
 import { UpdateUserRepository } from '@application/interfaces/repositories/users/updateUserRepository';
 import { UpdateUserWorkspaceMetaDataByWorkspaceIdRepository } from '@application/interfaces/repositories/users/updateUserWorkspaceMetaDataByWorkspaceIdRepository';
+import { UpdatePasswordRepository } from '@application/interfaces/repositories/users/updatePasswordRepository';
+import { VerifyEmailRepository } from '@application/interfaces/repositories/users/verifyEmailRepository';
+import { ScheduleUserDeletionRepository } from '@application/interfaces/repositories/users/scheduleUserDeletionRepository';
+import { CancelUserDeletionRepository } from '@application/interfaces/repositories/users/cancelUserDeletionRepository';
+import { GetUserIdsDueForDeletionRepository } from '@application/interfaces/repositories/users/getUserIdsDueForDeletionRepository';
 import mockUser from '@tests/domain/mock-user';
 
 export class CreateUserRepositoryStub implements CreateUserRepository {
@@ -138,3 +143,47 @@ export class DeleteUserRepositoryStub implements DeleteUserRepository {
     // eslint-disable-next-line @typescript-eslint/no-empty-function
   ): Promise<DeleteUserRepository.Response> {}
 }
+
+export class UpdatePasswordRepositoryStub implements UpdatePasswordRepository {
+  async updatePassword(
+    _params: UpdatePasswordRepository.Request
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+  ): Promise<UpdatePasswordRepository.Response> {}
+}
+
+export class VerifyEmailRepositoryStub implements VerifyEmailRepository {
+  async verifyEmail(
+    _params: VerifyEmailRepository.Request
+  ): Promise<VerifyEmailRepository.Response> {
+    return true;
+  }
+}
+
+export class ScheduleUserDeletionRepositoryStub
+  implements ScheduleUserDeletionRepository
+{
+  async scheduleUserDeletion(
+    _params: ScheduleUserDeletionRepository.Request
+    // eslint-disable-next-line @typescript-eslint/no-empty-function
+  ): Promise<ScheduleUserDeletionRepository.Response> {}
+}
+
+export class CancelUserDeletionRepositoryStub
+  implements CancelUserDeletionRepository
+{
+  async cancelUserDeletion(
+    _userId: CancelUserDeletionRepository.Request
+  ): Promise<CancelUserDeletionRepository.Response> {
+    return true;
+  }
+}
+
+export class GetUserIdsDueForDeletionRepositoryStub
+  implements GetUserIdsDueForDeletionRepository
+{
+  async getUserIdsDueForDeletion(
+    _date: GetUserIdsDueForDeletionRepository.Request
+  ): Promise<GetUserIdsDueForDeletionRepository.Response> {
+    return [mockUser().id];
+  }
+}
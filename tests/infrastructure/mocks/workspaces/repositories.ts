@@ -8,10 +8,13 @@ import { DeleteWorkspaceRepository } from '@application/interfaces/repositories/
 import { GetAllMembersByWorkspaceIdRepository } from '@application/interfaces/repositories/workspaces/getAllMembersByWorkspaceIdRepository';
 import { GetAllRootPagesRepository } from '@application/interfaces/repositories/workspaces/getAllRootPagesRepository';
 import { GetChildrensByPageReferenceRepository } from '@application/interfaces/repositories/workspaces/getChildrensByPageReferenceRepsoitory';
+import { GetPagesByWorkspaceIdRepository } from '@application/interfaces/repositories/workspaces/getPagesByWorkspaceIdRepository';
 import { GetWorkspaceByIdRepository } from '@application/interfaces/repositories/workspaces/getWorkspaceByIdRepository';
 import { RemoveMemberByWorkspaceIdRepository } from '@application/interfaces/repositories/workspaces/removeMemberByWorkspaceIdRepository';
 import { RemovePageByPageIdRepository } from '@application/interfaces/repositories/workspaces/removePageByPageIdRepository';
 import { UpdateWorkspaceRepository } from '@application/interfaces/repositories/workspaces/updateWorkspaceRepository';
+import { UpdateMemberRoleByWorkspaceIdRepository } from '@application/interfaces/repositories/workspaces/updateMemberRoleByWorkspaceIdRepository';
+import { UpdateWorkspacePagesMetaDataByPageIdRepository } from '@application/interfaces/repositories/workspaces/updateWorkspacePagesMetaDataByPageIdRepository';
 import mockWorkspace from '@tests/domain/mock-workspace';
 
 export class CreateWorkspaceRepositoryStub
@@ -49,7 +52,10 @@ export class GetAllMembersByWorkspaceIdRepositoryStub
   async getAllMembersByWorkspaceId(
     _workspaceId: GetAllMembersByWorkspaceIdRepository.Request
   ): Promise<GetAllMembersByWorkspaceIdRepository.Response> {
-    return ['sample-member-1', 'sample-member-2'];
+    return [
+      { userId: 'sample-member-1', role: 'owner' },
+      { userId: 'sample-member-2', role: 'viewer' },
+    ];
   }
 }
 
@@ -64,7 +70,8 @@ export class GetAllRootPagesRepositoryStub
         id: 'sample-page-1',
         reference: 'sample-page-reference',
         icon: 'icon-hex',
-        path: null,
+        parentId: null,
+        position: 'V',
         title: 'sample-page-reference',
         createdAt: new Date(),
       },
@@ -72,7 +79,8 @@ export class GetAllRootPagesRepositoryStub
         id: 'sample-page-2',
         reference: 'sample-page-reference-2',
         icon: 'icon-hex',
-        path: null,
+        parentId: null,
+        position: 'l',
         title: 'sample-page-reference',
         createdAt: new Date(),
       },
@@ -80,7 +88,8 @@ export class GetAllRootPagesRepositoryStub
         id: 'sample-page-3',
         reference: 'sample-page-reference-3',
         icon: 'icon-hex',
-        path: null,
+        parentId: null,
+        position: 't',
         title: 'sample-page-reference',
         createdAt: new Date(),
       },
@@ -99,7 +108,8 @@ export class GetChildrensByPageReferenceRepositoryStub
         id: 'sample-page-1',
         reference: 'sample-page-reference-1',
         icon: 'icon-hex',
-        path: ',sample-page-reference-0,',
+        parentId: 'sample-page-0',
+        position: 'V',
         title: 'sample-page-reference',
         createdAt: new Date(),
       },
@@ -107,7 +117,8 @@ export class GetChildrensByPageReferenceRepositoryStub
         id: 'sample-page-2',
         reference: 'sample-page-reference-2',
         icon: 'icon-hex',
-        path: ',sample-page-reference-0,',
+        parentId: 'sample-page-0',
+        position: 'l',
         title: 'sample-page-reference',
         createdAt: new Date(),
       },
@@ -115,6 +126,17 @@ export class GetChildrensByPageReferenceRepositoryStub
   }
 }
 
+export class GetPagesByWorkspaceIdRepositoryStub
+  implements GetPagesByWorkspaceIdRepository
+{
+  async getPagesByWorkspaceId(
+    _workspaceId: GetPagesByWorkspaceIdRepository.Request
+  ): Promise<GetPagesByWorkspaceIdRepository.Response> {
+    const { pages } = mockWorkspace();
+    return pages;
+  }
+}
+
 export class GetWorkspaceByIdRepositoryStub
   implements GetWorkspaceByIdRepository
 {
@@ -160,3 +182,19 @@ export class DeleteWorkspaceRepositoryStub
 {
   async deleteWorkspace(_workspaceId: string): Promise<void> {}
 }
+
+export class UpdateMemberRoleByWorkspaceIdRepositoryStub
+  implements UpdateMemberRoleByWorkspaceIdRepository
+{
+  async updateMemberRoleByWorkspaceId(
+    _params: UpdateMemberRoleByWorkspaceIdRepository.Request
+  ): Promise<UpdateMemberRoleByWorkspaceIdRepository.Response> {}
+}
+
+export class UpdateWorkspacePagesMetaDataByPageIdRepositoryStub
+  implements UpdateWorkspacePagesMetaDataByPageIdRepository
+{
+  async updateWorkspacePagesMetaDataByPageId(
+    _params: UpdateWorkspacePagesMetaDataByPageIdRepository.Request
+  ): Promise<UpdateWorkspacePagesMetaDataByPageIdRepository.Response> {}
+}
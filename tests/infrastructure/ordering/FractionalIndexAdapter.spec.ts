@@ -0,0 +1,56 @@
+import { FractionalIndexAdapter } from '@infrastructure/ordering/FractionalIndexAdapter';
+
+describe('FractionalIndexAdapter', () => {
+  it('should generate a position between two neighbours', () => {
+    const sut = new FractionalIndexAdapter();
+
+    const position = sut.generatePosition('V', 'l');
+
+    expect(position > 'V' && position < 'l').toBe(true);
+  });
+
+  it('should keep room between adjacent positions', () => {
+    const sut = new FractionalIndexAdapter();
+
+    const positions = ['W', 'V1', 'V0V'].map(upper =>
+      sut.generatePosition('V', upper)
+    );
+
+    expect(positions).toEqual(['VV', 'V0V', 'V0G']);
+  });
+
+  it('should generate positions before the first and after the last sibling', () => {
+    const sut = new FractionalIndexAdapter();
+
+    const first = sut.generatePosition(null, null);
+    const before = sut.generatePosition(null, first);
+    const after = sut.generatePosition(first, null);
+
+    expect(before < first && first < after).toBe(true);
+  });
+
+  it('should keep positions sorted when always inserting at the same place', () => {
+    const sut = new FractionalIndexAdapter();
+    const positions = [sut.generatePosition(null, null)];
+
+    Array.from({ length: 50 }).forEach(() => {
+      positions.splice(
+        1,
+        0,
+        sut.generatePosition(positions[0], positions[1] ?? null)
+      );
+      positions.push(
+        sut.generatePosition(positions[positions.length - 1], null)
+      );
+    });
+
+    expect(positions).toEqual([...positions].sort());
+    expect(new Set(positions).size).toBe(positions.length);
+  });
+
+  it('should throw if the bounds are not in order', () => {
+    const sut = new FractionalIndexAdapter();
+
+    expect(() => sut.generatePosition('l', 'V')).toThrow();
+  });
+});
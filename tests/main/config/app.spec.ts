@@ -0,0 +1,24 @@
+import setupApp from '@main/config/app';
+import env from '@main/config/env';
+
+describe('setupApp', () => {
+  const { trustProxy } = env;
+
+  afterEach(() => {
+    env.trustProxy = trustProxy;
+  });
+
+  it('should trust no proxy by default', () => {
+    const app = setupApp();
+
+    expect(app.get('trust proxy')).toBe(false);
+  });
+
+  it('should trust the configured proxies', () => {
+    env.trustProxy = 1;
+
+    const app = setupApp();
+
+    expect(app.get('trust proxy')).toBe(1);
+  });
+});
@@ -0,0 +1,83 @@
+import express, { Express } from 'express';
+import request from 'supertest';
+import { cors } from '@main/middlewares/cors';
+
+const makeApp = (): Express => {
+  const app = express();
+  app.use(
+    cors({
+      origins: [
+        'http://localhost:3000',
+        'https://*.example.com',
+        '/^app://desktop-[0-9]+$/',
+        '/https://[a-z]+\\.example\\.org/',
+      ],
+      credentials: true,
+      maxAgeSeconds: 600,
+    })
+  );
+  app.get('/sample', (req, res) => {
+    res.json({ ok: true });
+  });
+  return app;
+};
+
+describe('cors middleware', () => {
+  it('should allow an exact origin', async () => {
+    await request(makeApp())
+      .get('/sample')
+      .set('Origin', 'http://localhost:3000')
+      .expect('Access-Control-Allow-Origin', 'http://localhost:3000')
+      .expect('Access-Control-Allow-Credentials', 'true')
+      .expect(200);
+  });
+
+  it('should allow a wildcard subdomain', async () => {
+    await request(makeApp())
+      .get('/sample')
+      .set('Origin', 'https://app.eu.example.com')
+      .expect('Access-Control-Allow-Origin', 'https://app.eu.example.com')
+      .expect(200);
+  });
+
+  it('should allow an origin matching a regex', async () => {
+    await request(makeApp())
+      .get('/sample')
+      .set('Origin', 'app://desktop-42')
+      .expect('Access-Control-Allow-Origin', 'app://desktop-42')
+      .expect(200);
+  });
+
+  it('should not allow an origin that only partly matches a regex', async () => {
+    const response = await request(makeApp())
+      .get('/sample')
+      .set('Origin', 'https://app.example.org.evil.com')
+      .expect(200);
+
+    expect(response.headers['access-control-allow-origin']).toBeUndefined();
+  });
+
+  it('should not allow an origin outside the list', async () => {
+    const response = await request(makeApp())
+      .get('/sample')
+      .set('Origin', 'https://example.com.evil.com')
+      .expect(200);
+
+    expect(response.headers['access-control-allow-origin']).toBeUndefined();
+    expect(response.headers.vary).toBe('Origin');
+  });
+
+  it('should answer a preflight request without reaching the routes', async () => {
+    await request(makeApp())
+      .options('/sample')
+      .set('Origin', 'http://localhost:3000')
+      .set('Access-Control-Request-Method', 'PATCH')
+      .expect('Access-Control-Allow-Origin', 'http://localhost:3000')
+      .expect(
+        'Access-Control-Allow-Methods',
+        'PUT, POST, GET, DELETE, PATCH, OPTIONS'
+      )
+      .expect('Access-Control-Max-Age', '600')
+      .expect(204);
+  });
+});
@@ -0,0 +1,44 @@
+import express, { Express } from 'express';
+import request from 'supertest';
+import { securityHeaders } from '@main/middlewares/security-headers';
+
+const makeApp = (hstsMaxAgeSeconds: number, frameOptions = 'DENY'): Express => {
+  const app = express();
+  app.use(
+    securityHeaders({
+      contentSecurityPolicy: "default-src 'none'",
+      hstsMaxAgeSeconds,
+      frameOptions,
+      referrerPolicy: 'no-referrer',
+    })
+  );
+  app.get('/sample', (req, res) => {
+    res.json({ ok: true });
+  });
+  return app;
+};
+
+describe('security headers middleware', () => {
+  it('should set the configured headers', async () => {
+    const response = await request(makeApp(15552000))
+      .get('/sample')
+      .expect('Content-Security-Policy', "default-src 'none'")
+      .expect(
+        'Strict-Transport-Security',
+        'max-age=15552000; includeSubDomains'
+      )
+      .expect('X-Frame-Options', 'DENY')
+      .expect('Referrer-Policy', 'no-referrer')
+      .expect('X-Content-Type-Options', 'nosniff')
+      .expect(200);
+
+    expect(response.headers['x-powered-by']).toBeUndefined();
+  });
+
+  it('should leave out the headers that are disabled', async () => {
+    const response = await request(makeApp(0, '')).get('/sample').expect(200);
+
+    expect(response.headers['strict-transport-security']).toBeUndefined();
+    expect(response.headers['x-frame-options']).toBeUndefined();
+  });
+});
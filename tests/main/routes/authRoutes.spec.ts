@@ -0,0 +1,162 @@
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+import { IdentityRepository } from '@infrastructure/db/mongodb/repositories/IdentityRepository';
+import { OidcStateRepository } from '@infrastructure/db/mongodb/repositories/OidcStateRepository';
+import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
+import setupApp from '@main/config/app';
+import env from '@main/config/env';
+import { Collection } from 'mongodb';
+import request from 'supertest';
+import bcrypt from 'bcrypt';
+import { StubOidcIssuer } from '@tests/infrastructure/mocks/oidc-issuer';
+
+const STUB_ISSUER_PORT = 4571;
+const stubIssuer = new StubOidcIssuer();
+
+// the providers are read when the routes are set up
+env.oidcProviders = {
+  stub: {
+    issuer: `http://127.0.0.1:${STUB_ISSUER_PORT}`,
+    clientId: stubIssuer.clientId,
+    clientSecret: stubIssuer.clientSecret,
+    redirectUri: 'http://localhost:3000/auth/stub/callback',
+  },
+};
+
+describe('auth routes', () => {
+  const app = setupApp();
+  let userCollection: Collection;
+  let identityCollection: Collection;
+  let oidcStateCollection: Collection;
+  let workspaceCollection: Collection;
+
+  beforeAll(async () => {
+    await dbConnection.connect(env.mongoUrl);
+    await stubIssuer.start(STUB_ISSUER_PORT);
+  });
+
+  afterAll(async () => {
+    await stubIssuer.stop();
+    await dbConnection.disconnect();
+  });
+
+  beforeEach(async () => {
+    userCollection = await UserRepository.getCollection();
+    await userCollection.deleteMany({});
+
+    identityCollection = await IdentityRepository.getCollection();
+    await identityCollection.deleteMany({});
+
+    oidcStateCollection = await OidcStateRepository.getCollection();
+    await oidcStateCollection.deleteMany({});
+
+    workspaceCollection = await WorkspaceRepository.getCollection();
+    await workspaceCollection.deleteMany({});
+  });
+
+  const signInAtProvider = async () => {
+    const response = await request(app).get('/v1/auth/stub').expect(200);
+
+    return stubIssuer.authorize(response.body.authorizationUrl);
+  };
+
+  describe('GET /auth/:provider', () => {
+    it('should return 404 for an unknown provider', async () => {
+      await request(app).get('/v1/auth/unknown').expect(404);
+    });
+
+    it('should return an authorization url with a PKCE challenge', async () => {
+      const response = await request(app).get('/v1/auth/stub').expect(200);
+
+      const { searchParams } = new URL(response.body.authorizationUrl);
+
+      expect(searchParams.get('code_challenge_method')).toBe('S256');
+      expect(searchParams.get('code_challenge')).toBeTruthy();
+    });
+  });
+
+  describe('POST /auth/:provider/callback', () => {
+    it('should register a new user with a home workspace', async () => {
+      const { code, state } = await signInAtProvider();
+
+      const response = await request(app)
+        .post('/v1/auth/stub/callback')
+        .send({ code, state })
+        .expect(200);
+
+      const user = await userCollection.findOne({ email: 'stub@email.com' });
+      const workspaceCount = await workspaceCollection.countDocuments();
+
+      expect(response.body.accessToken).toBeTruthy();
+      expect(response.headers['set-cookie']).toBeTruthy();
+      expect(user?.emailVerified).toBe(true);
+      expect(user?.workspaces.length).toBe(1);
+      expect(workspaceCount).toBe(1);
+    });
+
+    it('should link the identity to an existing verified user', async () => {
+      const hashedPassword = await bcrypt.hash('any-password', env.bcryptSalt);
+      const { insertedId } = await userCollection.insertOne({
+        name: 'any-name',
+        email: 'stub@email.com',
+        emailVerified: true,
+        password: hashedPassword,
+        workspaces: [],
+      });
+      const { code, state } = await signInAtProvider();
+
+      await request(app)
+        .post('/v1/auth/stub/callback')
+        .send({ code, state })
+        .expect(200);
+
+      const identity = await identityCollection.findOne({});
+      const userCount = await userCollection.countDocuments();
+
+      expect(identity?.userId).toBe(insertedId.toHexString());
+      expect(userCount).toBe(1);
+    });
+
+    it('should return 403 if the existing user has not verified the email', async () => {
+      const hashedPassword = await bcrypt.hash('any-password', env.bcryptSalt);
+      await userCollection.insertOne({
+        name: 'any-name',
+        email: 'stub@email.com',
+        emailVerified: false,
+        password: hashedPassword,
+        workspaces: [],
+      });
+      const { code, state } = await signInAtProvider();
+
+      await request(app)
+        .post('/v1/auth/stub/callback')
+        .send({ code, state })
+        .expect(403);
+
+      const identityCount = await identityCollection.countDocuments();
+
+      expect(identityCount).toBe(0);
+    });
+
+    it('should return 401 if the state is reused', async () => {
+      const { code, state } = await signInAtProvider();
+
+      await request(app)
+        .post('/v1/auth/stub/callback')
+        .send({ code, state })
+        .expect(200);
+
+      await request(app)
+        .post('/v1/auth/stub/callback')
+        .send({ code, state })
+        .expect(401);
+    });
+
+    it('should return 400 if the code is missing', async () => {
+      await request(app)
+        .post('/v1/auth/stub/callback')
+        .send({ state: 'any-state' })
+        .expect(400);
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { InvitationRepository } from '@infrastructure/db/mongodb/repositories/InvitationRepository';
+import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
+import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
+import {
+  objectIdToString,
+  stringToObjectId,
+} from '@infrastructure/db/mongodb/helpers/mapper';
+import setupApp from '@main/config/app';
+import env from '@main/config/env';
+import { Collection } from 'mongodb';
+import request from 'supertest';
+import bcrypt from 'bcrypt';
+
+describe('invitation routes', () => {
+  const app = setupApp();
+  let userCollection: Collection;
+  let workspaceCollection: Collection;
+  let invitationCollection: Collection;
+
+  const ownerId = '112233445566778899aabbcc';
+  const inviteeId = '112233445566778899aabbdd';
+
+  beforeAll(async () => {
+    await dbConnection.connect(env.mongoUrl);
+  });
+
+  afterAll(async () => {
+    await dbConnection.disconnect();
+  });
+
+  beforeEach(async () => {
+    userCollection = await UserRepository.getCollection();
+    await userCollection.deleteMany({});
+
+    workspaceCollection = await WorkspaceRepository.getCollection();
+    await workspaceCollection.deleteMany({});
+
+    invitationCollection = await InvitationRepository.getCollection();
+    await invitationCollection.deleteMany({});
+  });
+
+  const getWorkspace = async (): Promise<string> => {
+    const { insertedId } = await workspaceCollection.insertOne({
+      name: 'sample-workspace-name',
+      icon: 'sample-icon-url',
+      members: [{ userId: ownerId, role: 'owner' }],
+      pages: [],
+    });
+    return objectIdToString(insertedId);
+  };
+
+  const getAccessToken = async (
+    userId: string,
+    email: string
+  ): Promise<string> => {
+    const hashedPassword = await bcrypt.hash('any-password', env.bcryptSalt);
+    await userCollection.insertOne({
+      _id: stringToObjectId(userId),
+      name: 'any-name',
+      email,
+      emailVerified: true,
+      password: hashedPassword,
+      isDarkMode: true,
+      profilePicture: {
+        url: 'any-url',
+      },
+      workspaces: [],
+    });
+
+    const response = await request(app).post('/v1/login').send({
+      email,
+      password: 'any-password',
+    });
+
+    return response.body.accessToken;
+  };
+
+  const invite = async (workspaceId: string): Promise<string> => {
+    const accessToken = await getAccessToken(ownerId, 'owner@email.com');
+
+    await request(app)
+      .post(`/v1/workspaces/${workspaceId}/invitations`)
+      .send({ email: 'invitee@email.com', role: 'editor' })
+      .set('Authorization', `Bearer ${accessToken}`)
+      .expect(201);
+
+    const invitation = await invitationCollection.findOne({
+      email: 'invitee@email.com',
+    });
+
+    return invitation?.token;
+  };
+
+  describe('POST /workspaces/:workspaceId/invitations', () => {
+    it('should return 201 and store a pending invitation', async () => {
+      const workspaceId = await getWorkspace();
+
+      const token = await invite(workspaceId);
+
+      const invitation = await invitationCollection.findOne({ token });
+
+      expect(invitation?.status).toBe('pending');
+      expect(invitation?.workspaceId).toBe(workspaceId);
+      expect(invitation?.expiresAt.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should return 400 on an invalid email', async () => {
+      const workspaceId = await getWorkspace();
+      const accessToken = await getAccessToken(ownerId, 'owner@email.com');
+
+      await request(app)
+        .post(`/v1/workspaces/${workspaceId}/invitations`)
+        .send({ email: 'not-an-email', role: 'editor' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(400);
+    });
+
+    it('should return 403 if the user is not an owner', async () => {
+      const workspaceId = await getWorkspace();
+      const accessToken = await getAccessToken(inviteeId, 'invitee@email.com');
+
+      await request(app)
+        .post(`/v1/workspaces/${workspaceId}/invitations`)
+        .send({ email: 'someone@email.com', role: 'editor' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+  });
+
+  describe('GET /invitations', () => {
+    it('should return the pending invitations of the signed in user', async () => {
+      const workspaceId = await getWorkspace();
+      await invite(workspaceId);
+
+      const accessToken = await getAccessToken(inviteeId, 'invitee@email.com');
+
+      const response = await request(app)
+        .get('/v1/invitations')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].workspaceId).toBe(workspaceId);
+    });
+  });
+
+  describe('POST /invitations/:token/accept', () => {
+    it('should return 204 and add the user to the workspace', async () => {
+      const workspaceId = await getWorkspace();
+      const token = await invite(workspaceId);
+
+      const accessToken = await getAccessToken(inviteeId, 'invitee@email.com');
+
+      await request(app)
+        .post(`/v1/invitations/${token}/accept`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(204);
+
+      const workspace = await workspaceCollection.findOne({
+        _id: stringToObjectId(workspaceId),
+      });
+      const user = await userCollection.findOne({
+        _id: stringToObjectId(inviteeId),
+      });
+      const invitation = await invitationCollection.findOne({ token });
+
+      expect(workspace?.members).toContainEqual({
+        userId: inviteeId,
+        role: 'editor',
+      });
+      expect(user?.workspaces[0].workspaceId).toBe(workspaceId);
+      expect(invitation?.status).toBe('accepted');
+    });
+
+    it('should return 403 if the invitation was sent to someone else', async () => {
+      const workspaceId = await getWorkspace();
+      const token = await invite(workspaceId);
+
+      const accessToken = await getAccessToken(inviteeId, 'other@email.com');
+
+      await request(app)
+        .post(`/v1/invitations/${token}/accept`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+
+    it('should return 403 if the user has not verified the email', async () => {
+      const workspaceId = await getWorkspace();
+      const token = await invite(workspaceId);
+
+      const accessToken = await getAccessToken(inviteeId, 'invitee@email.com');
+      await userCollection.updateOne(
+        { _id: stringToObjectId(inviteeId) },
+        { $set: { emailVerified: false } }
+      );
+
+      await request(app)
+        .post(`/v1/invitations/${token}/accept`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+
+    it('should return 409 if the invitation has expired', async () => {
+      const workspaceId = await getWorkspace();
+      const token = await invite(workspaceId);
+      await invitationCollection.updateOne(
+        { token },
+        { $set: { expiresAt: new Date(Date.now() - 1000) } }
+      );
+
+      const accessToken = await getAccessToken(inviteeId, 'invitee@email.com');
+
+      await request(app)
+        .post(`/v1/invitations/${token}/accept`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(409);
+    });
+
+    it('should return 404 if the token is unknown', async () => {
+      const accessToken = await getAccessToken(inviteeId, 'invitee@email.com');
+
+      await request(app)
+        .post('/v1/invitations/unknown-token/accept')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('POST /invitations/:token/decline', () => {
+    it('should return 204 and leave the workspace untouched', async () => {
+      const workspaceId = await getWorkspace();
+      const token = await invite(workspaceId);
+
+      const accessToken = await getAccessToken(inviteeId, 'invitee@email.com');
+
+      await request(app)
+        .post(`/v1/invitations/${token}/decline`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(204);
+
+      const workspace = await workspaceCollection.findOne({
+        _id: stringToObjectId(workspaceId),
+      });
+      const invitation = await invitationCollection.findOne({ token });
+
+      expect(workspace?.members).toHaveLength(1);
+      expect(invitation?.status).toBe('declined');
+    });
+  });
+});
@@ -3,19 +3,26 @@
 import dbConnection from '@infrastructure/db/mongodb/helpers/db-connection';
 import { PageRepository } from '@infrastructure/db/mongodb/repositories/PageRepository';
 import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+import { ApiTokenRepository } from '@infrastructure/db/mongodb/repositories/ApiTokenRepository';
+import { PageGuestRepository } from '@infrastructure/db/mongodb/repositories/PageGuestRepository';
 import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
 import setupApp from '@main/config/app';
 import env from '@main/config/env';
 import request from 'supertest';
 import bcrypt from 'bcrypt';
 import { Collection } from 'mongodb';
-import { objectIdToString } from '@infrastructure/db/mongodb/helpers/mapper';
+import {
+  objectIdToString,
+  stringToObjectId,
+} from '@infrastructure/db/mongodb/helpers/mapper';
 
 describe('page routes', () => {
   const app = setupApp();
   let pageCollection: Collection;
   let workspaceCollection: Collection;
   let userCollection: Collection;
+  let apiTokenCollection: Collection;
+  let pageGuestCollection: Collection;
 
   beforeAll(async () => {
     await dbConnection.connect(env.mongoUrl);
@@ -34,18 +41,24 @@ describe('page routes', () => {
 
     workspaceCollection = await WorkspaceRepository.getCollection();
     await workspaceCollection.deleteMany({});
+
+    apiTokenCollection = await ApiTokenRepository.getCollection();
+    await apiTokenCollection.deleteMany({});
+
+    pageGuestCollection = await PageGuestRepository.getCollection();
+    await pageGuestCollection.deleteMany({});
   });
 
-  const getWorkspace = async (): Promise<string> => {
+  const getWorkspace = async (role = 'owner'): Promise<string> => {
     const { insertedId } = await workspaceCollection.insertOne({
       name: 'sample-workspace-name',
       icon: 'sample-icon-url',
-      members: ['112233445566778899aabbcc'],
+      members: [{ userId: '112233445566778899aabbcc', role }],
       pages: [
         {
           id: 'sample-page-id-0',
           reference: 'sample-page-007',
-          path: null,
+          parentId: null,
           icon: '1F3F9',
         },
       ],
@@ -92,7 +105,8 @@ describe('page routes', () => {
         fullWidth: true,
         lock: false,
       },
-      path: null,
+      parentId: null,
+      ancestors: [],
       workspaceId: workspaceId || '112233445566778899bbccaa',
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -109,8 +123,11 @@ describe('page routes', () => {
   }> => {
     const hashedPassword = await bcrypt.hash('any-password', env.bcryptSalt);
     await userCollection.insertOne({
+      // matches the member of the workspaces created by getWorkspace
+      _id: stringToObjectId('112233445566778899aabbcc'),
       name: 'any-name',
       email: 'any@email.com',
+      emailVerified: true,
       password: hashedPassword,
       isDarkMode: true,
       profilePicture: {
@@ -169,6 +186,24 @@ describe('page routes', () => {
         .expect(200);
     });
 
+    it('should return 403 if the user only lists the workspace of the page', async () => {
+      const { insertedId } = await workspaceCollection.insertOne({
+        name: 'foreign-workspace-name',
+        members: [{ userId: '112233445566778899aabbdd', role: 'owner' }],
+        pages: [],
+      });
+      const workspaceId = objectIdToString(insertedId);
+      const tokens = await getTokens(workspaceId);
+      const { accessToken } = tokens;
+
+      const pageId = await getPage(workspaceId);
+
+      await request(app)
+        .get(`/v1/pages/${pageId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+
     it('should return 403 if page is not found', async () => {
       const workspaceId = await getWorkspace();
       const tokens = await getTokens(workspaceId);
@@ -243,7 +278,8 @@ describe('page routes', () => {
 
   describe('POST /pages', () => {
     it('should return 201 on creating page success', async () => {
-      const tokens = await getTokens();
+      const workspaceId = await getWorkspace();
+      const tokens = await getTokens(workspaceId);
       const { accessToken } = tokens;
 
       await request(app)
@@ -283,15 +319,16 @@ describe('page routes', () => {
             fullWidth: true,
             lock: false,
           },
-          path: null,
-          workspaceId: '112233445566778899bbccaa',
+          parentId: null,
+          workspaceId,
         })
         .set('Authorization', `Bearer ${accessToken}`)
         .expect(201);
     });
 
     it('should return 400 on not passed required fields', async () => {
-      const tokens = await getTokens();
+      const workspaceId = await getWorkspace();
+      const tokens = await getTokens(workspaceId);
       const { accessToken } = tokens;
 
       await request(app)
@@ -299,10 +336,51 @@ describe('page routes', () => {
         .send({
           title: 'sample-title',
           icon: 'sapmle-icon',
+          workspaceId,
         })
         .set('Authorization', `Bearer ${accessToken}`)
         .expect(400);
     });
+
+    it('should return 403 if a viewer creates a page', async () => {
+      const workspaceId = await getWorkspace('viewer');
+      const tokens = await getTokens(workspaceId);
+      const { accessToken } = tokens;
+
+      await request(app)
+        .post('/v1/pages')
+        .send({
+          title: 'sample-title',
+          icon: 'sapmle-icon',
+          parentId: null,
+          workspaceId,
+        })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+
+    it('should return 403 on creating a page in a workspace the user is not a member of', async () => {
+      const { insertedId } = await workspaceCollection.insertOne({
+        name: 'foreign-workspace-name',
+        members: [{ userId: '112233445566778899aabbdd', role: 'owner' }],
+        pages: [],
+      });
+      const workspaceId = objectIdToString(insertedId);
+      // the user lists the workspace itself, which grants nothing
+      const tokens = await getTokens(workspaceId);
+      const { accessToken } = tokens;
+
+      await request(app)
+        .post('/v1/pages')
+        .send({
+          title: 'sample-title',
+          icon: 'sapmle-icon',
+          parentId: null,
+          workspaceId,
+        })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
   });
 
   describe('POST /pages/:pageId/favorites', () => {
@@ -409,6 +487,36 @@ describe('page routes', () => {
     });
   });
 
+  describe('PATCH /pages/:pageId/** roles', () => {
+    it('should return 403 if the user is a viewer of the workspace', async () => {
+      const workspaceId = await getWorkspace('viewer');
+      const tokens = await getTokens(workspaceId);
+      const { accessToken } = tokens;
+
+      const pageId = await getPage(workspaceId);
+
+      await request(app)
+        .patch(`/v1/pages/${pageId}/title`)
+        .send({ title: 'new title' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+
+    it('should return 200 if the user is an editor of the workspace', async () => {
+      const workspaceId = await getWorkspace('editor');
+      const tokens = await getTokens(workspaceId);
+      const { accessToken } = tokens;
+
+      const pageId = await getPage(workspaceId);
+
+      await request(app)
+        .patch(`/v1/pages/${pageId}/icon`)
+        .send({ icon: '1F3F9' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+    });
+  });
+
   describe('PATCH /pages/:pageId/cover', () => {
     it('should return 204 on success', async () => {
       const workspaceId = await getWorkspace();
@@ -552,6 +660,63 @@ describe('page routes', () => {
     });
   });
 
+  describe('POST /pages/:pageId/move', () => {
+    it('should return 204 and place the page below its new parent', async () => {
+      const workspaceId = await getWorkspace();
+      const { accessToken } = await getTokens(workspaceId);
+
+      const pageId = await getPage(workspaceId);
+      const { insertedId: parentId } = await pageCollection.insertOne({
+        reference: 'sample-parent',
+        title: 'sample parent',
+        favorite: [],
+        pageSettings: { lock: false },
+        parentId: null,
+        ancestors: [],
+        workspaceId,
+      });
+
+      await request(app)
+        .post(`/v1/pages/${pageId}/move`)
+        .send({ parentId: objectIdToString(parentId) })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(204);
+
+      const page = await pageCollection.findOne({
+        _id: stringToObjectId(pageId),
+      });
+
+      expect(page?.parentId).toBe(objectIdToString(parentId));
+      expect(page?.ancestors).toEqual([objectIdToString(parentId)]);
+    });
+
+    it('should return 409 if the page is moved below itself', async () => {
+      const workspaceId = await getWorkspace();
+      const { accessToken } = await getTokens(workspaceId);
+
+      const pageId = await getPage(workspaceId);
+
+      await request(app)
+        .post(`/v1/pages/${pageId}/move`)
+        .send({ parentId: pageId })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(409);
+    });
+
+    it('should return 403 if the user is not a member of the target workspace', async () => {
+      const workspaceId = await getWorkspace();
+      const { accessToken } = await getTokens(workspaceId);
+
+      const pageId = await getPage(workspaceId);
+
+      await request(app)
+        .post(`/v1/pages/${pageId}/move`)
+        .send({ parentId: null, workspaceId: '112233445566778899bbccff' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+  });
+
   describe('DELETE /pages/:pageId/favorites', () => {
     it('should return 204 on success and remove member', async () => {
       const workspaceId = await getWorkspace();
@@ -593,6 +758,99 @@ describe('page routes', () => {
         .set('Authorization', `Bearer ${accessToken}`)
         .expect(204);
     });
+
+    it('should move the page to the trash of its workspace', async () => {
+      const workspaceId = await getWorkspace();
+      const { accessToken } = await getTokens(workspaceId);
+
+      const pageId = await getPage(workspaceId);
+
+      await request(app)
+        .delete(`/v1/pages/${pageId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(204);
+
+      const response = await request(app)
+        .get(`/v1/workspaces/${workspaceId}/trash`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.map((page: { id: string }) => page.id)).toEqual([
+        pageId,
+      ]);
+    });
+  });
+
+  describe('POST /workspaces/:workspaceId/trash/:pageId/restore', () => {
+    it('should return 200 and take the page out of the trash', async () => {
+      const workspaceId = await getWorkspace();
+      const { accessToken } = await getTokens(workspaceId);
+
+      const pageId = await getPage(workspaceId);
+
+      await request(app)
+        .delete(`/v1/pages/${pageId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(204);
+
+      await request(app)
+        .post(`/v1/workspaces/${workspaceId}/trash/${pageId}/restore`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      const page = await pageCollection.findOne({
+        _id: stringToObjectId(pageId),
+      });
+
+      expect(page?.trashedAt).toBeNull();
+    });
+
+    it('should return 404 if the page is not in the trash', async () => {
+      const workspaceId = await getWorkspace();
+      const { accessToken } = await getTokens(workspaceId);
+
+      const pageId = await getPage(workspaceId);
+
+      await request(app)
+        .post(`/v1/workspaces/${workspaceId}/trash/${pageId}/restore`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('DELETE /workspaces/:workspaceId/trash/:pageId', () => {
+    it('should return 204 and permanently delete the page', async () => {
+      const workspaceId = await getWorkspace();
+      const { accessToken } = await getTokens(workspaceId);
+
+      const pageId = await getPage(workspaceId);
+
+      await request(app)
+        .delete(`/v1/pages/${pageId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(204);
+
+      await request(app)
+        .delete(`/v1/workspaces/${workspaceId}/trash/${pageId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(204);
+
+      const count = await pageCollection.countDocuments();
+
+      expect(count).toBe(0);
+    });
+
+    it('should return 403 if the user is a viewer of the workspace', async () => {
+      const workspaceId = await getWorkspace('viewer');
+      const { accessToken } = await getTokens(workspaceId);
+
+      const pageId = await getPage(workspaceId);
+
+      await request(app)
+        .delete(`/v1/workspaces/${workspaceId}/trash/${pageId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
   });
 
   describe('DELETE /pages/all/:workspaceId', () => {
@@ -608,5 +866,376 @@ describe('page routes', () => {
         .set('Authorization', `Bearer ${accessToken}`)
         .expect(204);
     });
+
+    it('should return 403 if the user is not a member of the workspace', async () => {
+      const tokens = await getTokens();
+      const { accessToken } = tokens;
+
+      const { insertedId } = await workspaceCollection.insertOne({
+        name: 'foreign-workspace-name',
+        icon: 'sample-icon-url',
+        members: [{ userId: '112233445566778899aabbdd', role: 'owner' }],
+        pages: [],
+      });
+      const workspaceId = objectIdToString(insertedId);
+      await getPage(workspaceId);
+
+      await request(app)
+        .delete(`/v1/pages/all/${workspaceId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+
+      const count = await pageCollection.countDocuments();
+
+      expect(count).toBe(1);
+    });
+  });
+
+  describe('API tokens', () => {
+    const getApiToken = async (
+      accessToken: string,
+      params: { scopes: string[]; workspaceId?: string }
+    ): Promise<string> => {
+      const response = await request(app)
+        .post('/v1/users/112233445566778899aabbcc/api-tokens')
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'sample-api-token-name', ...params });
+
+      return response.body.token;
+    };
+
+    it('should return 200 when reading a page with a pages:read token', async () => {
+      const workspaceId = await getWorkspace();
+      const { accessToken } = await getTokens(workspaceId);
+      const apiToken = await getApiToken(accessToken, {
+        scopes: ['pages:read'],
+      });
+
+      const pageId = await getPage(workspaceId);
+
+      await request(app)
+        .get(`/v1/pages/${pageId}`)
+        .set('Authorization', `Bearer ${apiToken}`)
+        .expect(200);
+
+      const storedApiToken = await apiTokenCollection.findOne({});
+
+      expect(storedApiToken?.lastUsedAt).toBeInstanceOf(Date);
+    });
+
+    it('should return 403 when editing a page with a pages:read token', async () => {
+      const workspaceId = await getWorkspace();
+      const { accessToken } = await getTokens(workspaceId);
+      const apiToken = await getApiToken(accessToken, {
+        scopes: ['pages:read'],
+      });
+
+      const pageId = await getPage(workspaceId);
+
+      await request(app)
+        .patch(`/v1/pages/${pageId}/title`)
+        .send({ title: 'sample-new-title' })
+        .set('Authorization', `Bearer ${apiToken}`)
+        .expect(403);
+    });
+
+    it('should return 204 when editing a page with a pages:write token', async () => {
+      const workspaceId = await getWorkspace();
+      const { accessToken } = await getTokens(workspaceId);
+      const apiToken = await getApiToken(accessToken, {
+        scopes: ['pages:write'],
+        workspaceId,
+      });
+
+      const pageId = await getPage(workspaceId);
+
+      await request(app)
+        .patch(`/v1/pages/${pageId}/title`)
+        .send({ title: 'sample-new-title' })
+        .set('Authorization', `Bearer ${apiToken}`)
+        .expect(204);
+    });
+
+    it('should return 403 if the token is restricted to another workspace', async () => {
+      const workspaceId = await getWorkspace();
+      const { accessToken } = await getTokens(workspaceId);
+      const apiToken = await getApiToken(accessToken, {
+        scopes: ['pages:read'],
+        workspaceId: '112233445566778899bbccdd',
+      });
+
+      const pageId = await getPage(workspaceId);
+
+      await request(app)
+        .get(`/v1/pages/${pageId}`)
+        .set('Authorization', `Bearer ${apiToken}`)
+        .expect(403);
+    });
+  });
+
+  describe('Page guests', () => {
+    const getGuest = async (): Promise<string> => {
+      const { insertedId } = await userCollection.insertOne({
+        name: 'guest-name',
+        email: 'guest@email.com',
+        emailVerified: true,
+        workspaces: [],
+      });
+
+      return objectIdToString(insertedId);
+    };
+
+    it('should return 204 when an owner shares a page and list the guest', async () => {
+      const workspaceId = await getWorkspace();
+      const { accessToken } = await getTokens(workspaceId);
+      const guestId = await getGuest();
+
+      const pageId = await getPage(workspaceId);
+
+      await request(app)
+        .post(`/v1/pages/${pageId}/guests`)
+        .send({ email: 'guest@email.com', role: 'viewer' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(204);
+
+      const response = await request(app)
+        .get(`/v1/pages/${pageId}/guests`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].userId).toBe(guestId);
+    });
+
+    it('should answer an email without an account like a share and grant nothing', async () => {
+      const workspaceId = await getWorkspace();
+      const { accessToken } = await getTokens(workspaceId);
+
+      const pageId = await getPage(workspaceId);
+
+      await request(app)
+        .post(`/v1/pages/${pageId}/guests`)
+        .send({ email: 'unknown@email.com', role: 'viewer' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(204);
+
+      const response = await request(app)
+        .get(`/v1/pages/${pageId}/guests`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body).toHaveLength(0);
+    });
+
+    it('should return 403 when a viewer shares a page', async () => {
+      const workspaceId = await getWorkspace('viewer');
+      const { accessToken } = await getTokens(workspaceId);
+      await getGuest();
+
+      const pageId = await getPage(workspaceId);
+
+      await request(app)
+        .post(`/v1/pages/${pageId}/guests`)
+        .send({ email: 'guest@email.com', role: 'viewer' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+
+    it('should let a guest read the shared page but not manage its guests', async () => {
+      const { accessToken } = await getTokens();
+
+      const pageId = await getPage();
+      await pageGuestCollection.insertOne({
+        pageId,
+        workspaceId: '112233445566778899bbccaa',
+        userId: '112233445566778899aabbcc',
+        role: 'viewer',
+        grantedBy: 'sample-user-id',
+        createdAt: new Date(),
+      });
+
+      await request(app)
+        .get(`/v1/pages/${pageId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      await request(app)
+        .patch(`/v1/pages/${pageId}/title`)
+        .send({ title: 'sample-new-title' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+
+      await request(app)
+        .get(`/v1/pages/${pageId}/guests`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+
+    it('should return 204 when a guest is revoked and 404 when revoked again', async () => {
+      const workspaceId = await getWorkspace();
+      const { accessToken } = await getTokens(workspaceId);
+      const guestId = await getGuest();
+
+      const pageId = await getPage(workspaceId);
+      await pageGuestCollection.insertOne({
+        pageId,
+        workspaceId,
+        userId: guestId,
+        role: 'viewer',
+        grantedBy: '112233445566778899aabbcc',
+        createdAt: new Date(),
+      });
+
+      await request(app)
+        .delete(`/v1/pages/${pageId}/guests/${guestId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(204);
+
+      await request(app)
+        .delete(`/v1/pages/${pageId}/guests/${guestId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('Publish to web', () => {
+    it('should serve a published page without auth until it is unpublished', async () => {
+      const workspaceId = await getWorkspace();
+      const { accessToken } = await getTokens(workspaceId);
+
+      const pageId = await getPage(workspaceId);
+
+      const publishResponse = await request(app)
+        .put(`/v1/pages/${pageId}/publication`)
+        .send({ allowIndexing: true })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      const { slug } = publishResponse.body;
+
+      const publicResponse = await request(app)
+        .get(`/v1/public/pages/${slug}`)
+        .expect('Content-Type', /json/)
+        .expect(200);
+
+      expect(publicResponse.body.title).toBe('sample title');
+      expect(publicResponse.body.allowIndexing).toBe(true);
+      expect(publicResponse.body.favorite).toBeUndefined();
+      expect(publicResponse.headers['x-robots-tag']).toBeUndefined();
+
+      await request(app)
+        .delete(`/v1/pages/${pageId}/publication`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(204);
+
+      await request(app).get(`/v1/public/pages/${slug}`).expect(404);
+    });
+
+    it('should send a noindex header when indexing is not allowed', async () => {
+      const workspaceId = await getWorkspace();
+      const { accessToken } = await getTokens(workspaceId);
+
+      const pageId = await getPage(workspaceId);
+
+      const publishResponse = await request(app)
+        .put(`/v1/pages/${pageId}/publication`)
+        .send({})
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      await request(app)
+        .get(`/v1/public/pages/${publishResponse.body.slug}`)
+        .expect('X-Robots-Tag', 'noindex')
+        .expect(200);
+    });
+
+    it('should return 403 when a viewer publishes a page', async () => {
+      const workspaceId = await getWorkspace('viewer');
+      const { accessToken } = await getTokens(workspaceId);
+
+      const pageId = await getPage(workspaceId);
+
+      await request(app)
+        .put(`/v1/pages/${pageId}/publication`)
+        .send({})
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+  });
+
+  describe('PATCH /pages/:pageId/** on a locked page', () => {
+    const settings = {
+      font: 'serif',
+      smallText: true,
+      fullWidth: true,
+    };
+
+    const getLockedPage = async (workspaceId: string): Promise<string> => {
+      const pageId = await getPage(workspaceId);
+      await pageCollection.updateOne(
+        { _id: stringToObjectId(pageId) },
+        { $set: { 'pageSettings.lock': true } }
+      );
+
+      return pageId;
+    };
+
+    it.each([
+      ['content', { content: { type: 'doc', content: [] } }],
+      ['cover', { url: 'http://new-sample-url.com' }],
+      ['icon', { icon: '1F3F9' }],
+      ['title', { title: 'sample-new-title' }],
+      ['settings', { settings: { ...settings, font: 'mono', lock: true } }],
+    ])('should return 423 when updating the %s', async (route, body) => {
+      const workspaceId = await getWorkspace();
+      const { accessToken } = await getTokens(workspaceId);
+
+      const pageId = await getLockedPage(workspaceId);
+
+      await request(app)
+        .patch(`/v1/pages/${pageId}/${route}`)
+        .send(body)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(423);
+
+      const page = await pageCollection.findOne({
+        _id: stringToObjectId(pageId),
+      });
+
+      expect(page?.title).toBe('sample title');
+      expect(page?.icon).toBe('1F54A');
+    });
+
+    it('should return 204 when an editor unlocks the page', async () => {
+      const workspaceId = await getWorkspace('editor');
+      const { accessToken } = await getTokens(workspaceId);
+
+      const pageId = await getLockedPage(workspaceId);
+
+      await request(app)
+        .patch(`/v1/pages/${pageId}/settings`)
+        .send({ settings: { ...settings, lock: false } })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(204);
+
+      await request(app)
+        .patch(`/v1/pages/${pageId}/title`)
+        .send({ title: 'sample-new-title' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(204);
+    });
+
+    it('should return 403 when a viewer unlocks the page', async () => {
+      const workspaceId = await getWorkspace('viewer');
+      const { accessToken } = await getTokens(workspaceId);
+
+      const pageId = await getLockedPage(workspaceId);
+
+      await request(app)
+        .patch(`/v1/pages/${pageId}/settings`)
+        .send({ settings: { ...settings, lock: false } })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
   });
 });
@@ -7,11 +7,32 @@ import { Collection } from 'mongodb';
 import request from 'supertest';
 import bcrypt from 'bcrypt';
 import { TokenRepository } from '@infrastructure/db/mongodb/repositories/TokenRepository';
+import { EmailVerificationTokenRepository } from '@infrastructure/db/mongodb/repositories/EmailVerificationTokenRepository';
+import { PasswordResetTokenRepository } from '@infrastructure/db/mongodb/repositories/PasswordResetTokenRepository';
+import { MfaRepository } from '@infrastructure/db/mongodb/repositories/MfaRepository';
+import { MfaChallengeRepository } from '@infrastructure/db/mongodb/repositories/MfaChallengeRepository';
+import { LoginAttemptRepository } from '@infrastructure/db/mongodb/repositories/LoginAttemptRepository';
+import { ApiTokenRepository } from '@infrastructure/db/mongodb/repositories/ApiTokenRepository';
+import { PageGuestRepository } from '@infrastructure/db/mongodb/repositories/PageGuestRepository';
+import { PageRepository } from '@infrastructure/db/mongodb/repositories/PageRepository';
+import { WorkspaceRepository } from '@infrastructure/db/mongodb/repositories/WorkspaceRepository';
+import { objectIdToString } from '@infrastructure/db/mongodb/helpers/mapper';
+import { TotpAdapter } from '@infrastructure/cryptography/TotpAdapter';
+import { UserExportRepository } from '@infrastructure/db/mongodb/repositories/UserExportRepository';
+import { makeGenerateUserExport } from '@main/factories/use-cases/users/generate-user-export-factory';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
 
 describe('user routes', () => {
   const app = setupApp();
   let userCollection: Collection;
   let tokenCollection: Collection;
+  let passwordResetTokenCollection: Collection;
+  let emailVerificationTokenCollection: Collection;
+  let mfaCollection: Collection;
+  let mfaChallengeCollection: Collection;
+  let loginAttemptCollection: Collection;
+  let apiTokenCollection: Collection;
+  let auditLogCollection: Collection;
 
   beforeAll(async () => {
     await dbConnection.connect(env.mongoUrl);
@@ -27,6 +48,23 @@ describe('user routes', () => {
 
     tokenCollection = await TokenRepository.getCollection();
     await tokenCollection.deleteMany({});
+
+    passwordResetTokenCollection =
+      await PasswordResetTokenRepository.getCollection();
+    await passwordResetTokenCollection.deleteMany({});
+
+    emailVerificationTokenCollection =
+      await EmailVerificationTokenRepository.getCollection();
+    await emailVerificationTokenCollection.deleteMany({});
+
+    loginAttemptCollection = await LoginAttemptRepository.getCollection();
+    await loginAttemptCollection.deleteMany({});
+
+    apiTokenCollection = await ApiTokenRepository.getCollection();
+    await apiTokenCollection.deleteMany({});
+
+    auditLogCollection = await AuditLogRepository.getCollection();
+    await auditLogCollection.deleteMany({});
   });
 
   const getTokens = async (): Promise<{
@@ -37,6 +75,7 @@ describe('user routes', () => {
     await userCollection.insertOne({
       name: 'any-name',
       email: 'any@email.com',
+      emailVerified: true,
       password: hashedPassword,
       isDarkMode: true,
       profilePicture: {
@@ -96,6 +135,31 @@ describe('user routes', () => {
         .expect(200);
     });
 
+    it('should create an unverified user and issue a verification token', async () => {
+      await request(app)
+        .post('/v1/register')
+        .send({
+          name: 'user-name',
+          email: 'sampleuser@gmail.com',
+          password: 'any-password',
+          isDarkMode: true,
+          profilePicture: {
+            url: 'sample-url',
+          },
+        })
+        .expect(200);
+
+      const user = await userCollection.findOne({
+        email: 'sampleuser@gmail.com',
+      });
+      const verificationToken = await emailVerificationTokenCollection.findOne(
+        {}
+      );
+
+      expect(user?.emailVerified).toBe(false);
+      expect(verificationToken?.email).toBe('sampleuser@gmail.com');
+    });
+
     it('should return 403 if email is already in use', async () => {
       const hashedPassword = await bcrypt.hash(
         'sample-password',
@@ -176,6 +240,52 @@ describe('user routes', () => {
         .send({ email: 'any-email@email.com', password: 'sample-password' })
         .expect(401);
     });
+
+    it('should return the same error for an unknown email and a wrong password', async () => {
+      const hashedPassword = await bcrypt.hash('any-password', env.bcryptSalt);
+      await userCollection.insertOne({
+        name: 'any-name',
+        email: 'any@email.com',
+        emailVerified: true,
+        password: hashedPassword,
+        workspaces: [],
+      });
+
+      const unknownEmail = await request(app)
+        .post('/v1/login')
+        .send({ email: 'unknown@email.com', password: 'any-password' })
+        .expect(401);
+      const wrongPassword = await request(app)
+        .post('/v1/login')
+        .send({ email: 'any@email.com', password: 'wrong-password' })
+        .expect(401);
+
+      expect(unknownEmail.body).toEqual(wrongPassword.body);
+    });
+
+    it('should return 429 after repeated failures even with the right password', async () => {
+      const hashedPassword = await bcrypt.hash('any-password', env.bcryptSalt);
+      await userCollection.insertOne({
+        name: 'any-name',
+        email: 'any@email.com',
+        emailVerified: true,
+        password: hashedPassword,
+        workspaces: [],
+      });
+
+      for (let attempt = 0; attempt < 4; attempt += 1) {
+        // eslint-disable-next-line no-await-in-loop
+        await request(app)
+          .post('/v1/login')
+          .send({ email: 'any@email.com', password: 'wrong-password' })
+          .expect(401);
+      }
+
+      await request(app)
+        .post('/v1/login')
+        .send({ email: 'any@email.com', password: 'any-password' })
+        .expect(429);
+    });
   });
 
   describe('POST /logout', () => {
@@ -234,6 +344,179 @@ describe('user routes', () => {
         .set('Cookie', `token_v1=${refreshToken}`)
         .expect(200);
     });
+
+    it('should set a new refresh token cookie on success', async () => {
+      const tokens = await getTokens();
+      const { refreshToken } = tokens;
+
+      const response = await request(app)
+        .get('/v1/token')
+        .set('Cookie', `token_v1=${refreshToken}`)
+        .expect(200);
+
+      const [cookie] = response.headers['set-cookie'];
+
+      expect(cookie).toMatch(/^token_v1=/);
+      expect(cookie).not.toContain(refreshToken);
+    });
+
+    it('should return 401 and revoke the family if a retired token is reused', async () => {
+      const tokens = await getTokens();
+      const { refreshToken } = tokens;
+
+      await request(app)
+        .get('/v1/token')
+        .set('Cookie', `token_v1=${refreshToken}`)
+        .expect(200);
+
+      await request(app)
+        .get('/v1/token')
+        .set('Cookie', `token_v1=${refreshToken}`)
+        .expect(401);
+
+      const activeTokens = await tokenCollection.countDocuments({
+        retiredAt: null,
+      });
+
+      expect(activeTokens).toBe(0);
+    });
+  });
+
+  describe('GET /users/:userId/sessions', () => {
+    it('should return 200 on success and list of sessions', async () => {
+      const tokens = await getTokens();
+      const { accessToken } = tokens;
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const [jwtHeader, jwtPayload, jwtSignature] = accessToken.split('.');
+      const decodedPayload = JSON.parse(atob(jwtPayload));
+
+      const { userId } = decodedPayload;
+
+      const response = await request(app)
+        .get(`/v1/users/${userId}/sessions`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      const sessions = response.body;
+
+      expect(Array.isArray(sessions)).toBe(true);
+      expect(sessions.length).toBe(1);
+    });
+  });
+
+  describe('GET /users/:userId/audit-log', () => {
+    it('should return 200 on success and the account level entries', async () => {
+      const tokens = await getTokens();
+      const { accessToken } = tokens;
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const [jwtHeader, jwtPayload, jwtSignature] = accessToken.split('.');
+      const decodedPayload = JSON.parse(atob(jwtPayload));
+
+      const { userId } = decodedPayload;
+
+      await auditLogCollection.insertOne({
+        action: 'workspace.delete',
+        actorId: 'another-user-id',
+        targetType: 'workspace',
+        targetId: '112233445566778899bbccaa',
+        workspaceId: '112233445566778899bbccaa',
+        ownerIds: ['another-user-id', userId],
+        ip: null,
+        createdAt: new Date(),
+      });
+
+      const response = await request(app)
+        .get(`/v1/users/${userId}/audit-log`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(
+        response.body.entries.map((entry: { action: string }) => entry.action)
+      ).toEqual(['workspace.delete', 'user.sign_in']);
+      expect(response.body.nextCursor).toBeNull();
+    });
+
+    it('should return 400 on a workspace level action', async () => {
+      const tokens = await getTokens();
+      const { accessToken } = tokens;
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const [jwtHeader, jwtPayload, jwtSignature] = accessToken.split('.');
+      const decodedPayload = JSON.parse(atob(jwtPayload));
+
+      const { userId } = decodedPayload;
+
+      await request(app)
+        .get(`/v1/users/${userId}/audit-log?action=page.delete`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(400);
+    });
+  });
+
+  describe('DELETE /users/:userId/sessions/:sessionId', () => {
+    it('should return 204 on success and revoke the session', async () => {
+      const tokens = await getTokens();
+      const { accessToken } = tokens;
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const [jwtHeader, jwtPayload, jwtSignature] = accessToken.split('.');
+      const decodedPayload = JSON.parse(atob(jwtPayload));
+
+      const { userId } = decodedPayload;
+
+      const response = await request(app)
+        .get(`/v1/users/${userId}/sessions`)
+        .set('Authorization', `Bearer ${accessToken}`);
+
+      const [session] = response.body;
+
+      await request(app)
+        .delete(`/v1/users/${userId}/sessions/${session.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(204);
+
+      const count = await tokenCollection.countDocuments({ userId });
+
+      expect(count).toBe(0);
+    });
+
+    it('should return 404 if the session is not found', async () => {
+      const tokens = await getTokens();
+      const { accessToken } = tokens;
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const [jwtHeader, jwtPayload, jwtSignature] = accessToken.split('.');
+      const decodedPayload = JSON.parse(atob(jwtPayload));
+
+      const { userId } = decodedPayload;
+
+      await request(app)
+        .delete(`/v1/users/${userId}/sessions/unknown-session`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('DELETE /users/:userId/sessions', () => {
+    it('should return 200 on success and revoke every session', async () => {
+      const tokens = await getTokens();
+      const { accessToken } = tokens;
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const [jwtHeader, jwtPayload, jwtSignature] = accessToken.split('.');
+      const decodedPayload = JSON.parse(atob(jwtPayload));
+
+      const { userId } = decodedPayload;
+
+      const response = await request(app)
+        .delete(`/v1/users/${userId}/sessions`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.headers['set-cookie']).toEqual([
+        expect.stringMatching(/^token_v1=;/),
+      ]);
+
+      const count = await tokenCollection.countDocuments({ userId });
+
+      expect(count).toBe(0);
+    });
   });
 
   describe('GET /users/:userId/workspaces-access', () => {
@@ -326,7 +609,13 @@ describe('user routes', () => {
       const decodedPayload = JSON.parse(atob(jwtPayload));
 
       const { userId } = decodedPayload;
-      const workspaceId = 'new-workspaceId';
+      const workspaceCollection = await WorkspaceRepository.getCollection();
+      const { insertedId } = await workspaceCollection.insertOne({
+        name: 'sample-workspace-name',
+        members: [{ userId, role: 'editor' }],
+        pages: [],
+      });
+      const workspaceId = objectIdToString(insertedId);
 
       await request(app)
         .post(`/v1/users/${userId}/workspaces-access/${workspaceId}`)
@@ -334,6 +623,28 @@ describe('user routes', () => {
         .expect(204);
     });
 
+    it('should return 403 if the user is not a member of the workspace', async () => {
+      const tokens = await getTokens();
+      const { accessToken } = tokens;
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const [jwtHeader, jwtPayload, jwtSignature] = accessToken.split('.');
+      const decodedPayload = JSON.parse(atob(jwtPayload));
+
+      const { userId } = decodedPayload;
+      const workspaceCollection = await WorkspaceRepository.getCollection();
+      const { insertedId } = await workspaceCollection.insertOne({
+        name: 'foreign-workspace-name',
+        members: [{ userId: '112233445566778899aabbdd', role: 'owner' }],
+        pages: [],
+      });
+      const workspaceId = objectIdToString(insertedId);
+
+      await request(app)
+        .post(`/v1/users/${userId}/workspaces-access/${workspaceId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+
     it('should return 404 if user is not found', async () => {
       const tokens = await getTokens();
       const { accessToken } = tokens;
@@ -423,10 +734,8 @@ describe('user routes', () => {
         .set('Authorization', `Bearer ${accessToken}`)
         .expect(404);
     });
-  });
 
-  describe('PATCH /users/:userId/profile-picture', () => {
-    it('should return 204 on success', async () => {
+    it('should return 400 if a password is sent', async () => {
       const tokens = await getTokens();
       const { accessToken } = tokens;
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -434,67 +743,278 @@ describe('user routes', () => {
       const decodedPayload = JSON.parse(atob(jwtPayload));
 
       const { userId } = decodedPayload;
+
       await request(app)
-        .patch(`/v1/users/${userId}/profile-picture`)
+        .patch(`/v1/users/${userId}`)
         .send({
-          url: 'updated-sample-url',
+          password: 'new-password',
         })
         .set('Authorization', `Bearer ${accessToken}`)
-        .expect(204);
+        .expect(400);
     });
+  });
 
-    it('should return 404 if user is not found', async () => {
-      const tokens = await getTokens();
-      const { accessToken } = tokens;
-
-      const userId = 'no-user';
-
+  describe('POST /verify-email', () => {
+    const register = async (): Promise<string> => {
       await request(app)
-        .patch(`/v1/users/${userId}/profile-picture`)
+        .post('/v1/register')
         .send({
-          url: 'updated-sample-url',
+          name: 'user-name',
+          email: 'sampleuser@gmail.com',
+          password: 'any-password',
+          isDarkMode: true,
+          profilePicture: {
+            url: 'sample-url',
+          },
         })
-        .set('Authorization', `Bearer ${accessToken}`)
-        .expect(404);
-    });
-  });
+        .expect(200);
 
-  describe('DELETE /users/:userId/workspaces-access/:workspaceId', () => {
-    it('should return 204 on success', async () => {
-      const tokens = await getTokens();
-      const { accessToken } = tokens;
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const [jwtHeader, jwtPayload, jwtSignature] = accessToken.split('.');
-      const decodedPayload = JSON.parse(atob(jwtPayload));
+      const verificationToken = await emailVerificationTokenCollection.findOne(
+        {}
+      );
 
-      const { userId } = decodedPayload;
-      const workspaceId = '112233445566778899bbccab';
+      return verificationToken?.token;
+    };
 
-      await request(app)
-        .delete(`/v1/users/${userId}/workspaces-access/${workspaceId}`)
-        .set('Authorization', `Bearer ${accessToken}`)
-        .expect(204);
+    it('should return 204 and verify the email', async () => {
+      const token = await register();
+
+      await request(app).post('/v1/verify-email').send({ token }).expect(204);
+
+      const user = await userCollection.findOne({
+        email: 'sampleuser@gmail.com',
+      });
+
+      expect(user?.emailVerified).toBe(true);
     });
 
-    it('should return 403 if workspace is not found in users workspaces-access', async () => {
-      const tokens = await getTokens();
-      const { accessToken } = tokens;
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      const [jwtHeader, jwtPayload, jwtSignature] = accessToken.split('.');
-      const decodedPayload = JSON.parse(atob(jwtPayload));
+    it('should return 401 if the token was already used', async () => {
+      const token = await register();
 
-      const { userId } = decodedPayload;
-      const workspaceId = 'other-workspace-id';
+      await request(app).post('/v1/verify-email').send({ token }).expect(204);
 
-      await request(app)
-        .delete(`/v1/users/${userId}/workspaces-access/${workspaceId}`)
-        .set('Authorization', `Bearer ${accessToken}`)
-        .expect(403);
+      await request(app).post('/v1/verify-email').send({ token }).expect(401);
     });
-  });
 
-  describe('DELETE /users/:userId/workspaces-access/:workspaceId/favorites/:pageId', () => {
-    it('should return 204 on success', async () => {
+    it('should return 401 if the email changed since the token was sent', async () => {
+      const token = await register();
+      await userCollection.updateOne(
+        { email: 'sampleuser@gmail.com' },
+        { $set: { email: 'changed@gmail.com' } }
+      );
+
+      await request(app).post('/v1/verify-email').send({ token }).expect(401);
+    });
+
+    it('should return 400 if no token is sent', async () => {
+      await request(app).post('/v1/verify-email').send({}).expect(400);
+    });
+  });
+
+  describe('POST /password/forgot', () => {
+    it('should return 204 and store a reset token for a known email', async () => {
+      await getTokens();
+
+      await request(app)
+        .post('/v1/password/forgot')
+        .send({ email: 'any@email.com' })
+        .expect(204);
+
+      const count = await passwordResetTokenCollection.countDocuments();
+
+      expect(count).toBe(1);
+    });
+
+    it('should return 204 without a reset token for an unknown email', async () => {
+      await request(app)
+        .post('/v1/password/forgot')
+        .send({ email: 'unknown@email.com' })
+        .expect(204);
+
+      const count = await passwordResetTokenCollection.countDocuments();
+
+      expect(count).toBe(0);
+    });
+  });
+
+  describe('POST /password/reset', () => {
+    const forgotPassword = async (): Promise<string> => {
+      await request(app)
+        .post('/v1/password/forgot')
+        .send({ email: 'any@email.com' })
+        .expect(204);
+
+      const resetToken = await passwordResetTokenCollection.findOne({});
+
+      return resetToken?.token;
+    };
+
+    it('should return 204, change the password and revoke the sessions', async () => {
+      await getTokens();
+      const token = await forgotPassword();
+
+      await request(app)
+        .post('/v1/password/reset')
+        .send({ token, password: 'new-password' })
+        .expect(204);
+
+      const sessionCount = await tokenCollection.countDocuments();
+
+      expect(sessionCount).toBe(0);
+
+      await request(app)
+        .post('/v1/login')
+        .send({ email: 'any@email.com', password: 'new-password' })
+        .expect(200);
+    });
+
+    it('should return 401 if the token was already used', async () => {
+      await getTokens();
+      const token = await forgotPassword();
+
+      await request(app)
+        .post('/v1/password/reset')
+        .send({ token, password: 'new-password' })
+        .expect(204);
+
+      await request(app)
+        .post('/v1/password/reset')
+        .send({ token, password: 'another-password' })
+        .expect(401);
+    });
+
+    it('should return 401 if the token has expired', async () => {
+      await getTokens();
+      const token = await forgotPassword();
+      await passwordResetTokenCollection.updateOne(
+        { token },
+        { $set: { expiresAt: new Date(Date.now() - 1000) } }
+      );
+
+      await request(app)
+        .post('/v1/password/reset')
+        .send({ token, password: 'new-password' })
+        .expect(401);
+    });
+  });
+
+  describe('POST /users/:userId/password', () => {
+    it('should return 200 with a new session and revoke the others', async () => {
+      const tokens = await getTokens();
+      const { accessToken, refreshToken } = tokens;
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const [jwtHeader, jwtPayload, jwtSignature] = accessToken.split('.');
+      const decodedPayload = JSON.parse(atob(jwtPayload));
+
+      const { userId } = decodedPayload;
+
+      const response = await request(app)
+        .post(`/v1/users/${userId}/password`)
+        .send({ currentPassword: 'any-password', newPassword: 'new-password' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.accessToken).toBeTruthy();
+
+      const oldSession = await tokenCollection.findOne({
+        token: refreshToken,
+      });
+      const sessionCount = await tokenCollection.countDocuments();
+
+      expect(oldSession).toBeNull();
+      expect(sessionCount).toBe(1);
+    });
+
+    it('should return 403 if the current password is wrong', async () => {
+      const tokens = await getTokens();
+      const { accessToken } = tokens;
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const [jwtHeader, jwtPayload, jwtSignature] = accessToken.split('.');
+      const decodedPayload = JSON.parse(atob(jwtPayload));
+
+      const { userId } = decodedPayload;
+
+      await request(app)
+        .post(`/v1/users/${userId}/password`)
+        .send({
+          currentPassword: 'wrong-password',
+          newPassword: 'new-password',
+        })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+  });
+
+  describe('PATCH /users/:userId/profile-picture', () => {
+    it('should return 204 on success', async () => {
+      const tokens = await getTokens();
+      const { accessToken } = tokens;
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const [jwtHeader, jwtPayload, jwtSignature] = accessToken.split('.');
+      const decodedPayload = JSON.parse(atob(jwtPayload));
+
+      const { userId } = decodedPayload;
+      await request(app)
+        .patch(`/v1/users/${userId}/profile-picture`)
+        .send({
+          url: 'updated-sample-url',
+        })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(204);
+    });
+
+    it('should return 404 if user is not found', async () => {
+      const tokens = await getTokens();
+      const { accessToken } = tokens;
+
+      const userId = 'no-user';
+
+      await request(app)
+        .patch(`/v1/users/${userId}/profile-picture`)
+        .send({
+          url: 'updated-sample-url',
+        })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('DELETE /users/:userId/workspaces-access/:workspaceId', () => {
+    it('should return 204 on success', async () => {
+      const tokens = await getTokens();
+      const { accessToken } = tokens;
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const [jwtHeader, jwtPayload, jwtSignature] = accessToken.split('.');
+      const decodedPayload = JSON.parse(atob(jwtPayload));
+
+      const { userId } = decodedPayload;
+      const workspaceId = '112233445566778899bbccab';
+
+      await request(app)
+        .delete(`/v1/users/${userId}/workspaces-access/${workspaceId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(204);
+    });
+
+    it('should return 403 if workspace is not found in users workspaces-access', async () => {
+      const tokens = await getTokens();
+      const { accessToken } = tokens;
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const [jwtHeader, jwtPayload, jwtSignature] = accessToken.split('.');
+      const decodedPayload = JSON.parse(atob(jwtPayload));
+
+      const { userId } = decodedPayload;
+      const workspaceId = 'other-workspace-id';
+
+      await request(app)
+        .delete(`/v1/users/${userId}/workspaces-access/${workspaceId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+  });
+
+  describe('DELETE /users/:userId/workspaces-access/:workspaceId/favorites/:pageId', () => {
+    it('should return 204 on success', async () => {
       const tokens = await getTokens();
       const { accessToken } = tokens;
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -533,8 +1053,146 @@ describe('user routes', () => {
     });
   });
 
+  describe('/users/:userId/api-tokens', () => {
+    const getUserId = (accessToken: string): string => {
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const [jwtHeader, jwtPayload, jwtSignature] = accessToken.split('.');
+      return JSON.parse(atob(jwtPayload)).userId;
+    };
+
+    it('should return 201 with a token that is only shown once', async () => {
+      const { accessToken } = await getTokens();
+      const userId = getUserId(accessToken);
+
+      const response = await request(app)
+        .post(`/v1/users/${userId}/api-tokens`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'sample-api-token-name', scopes: ['pages:read'] })
+        .expect(201);
+
+      expect(response.body.token).toMatch(/^ntn_/);
+
+      const listResponse = await request(app)
+        .get(`/v1/users/${userId}/api-tokens`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(listResponse.body.length).toBe(1);
+      expect(listResponse.body[0].token).toBeUndefined();
+      expect(listResponse.body[0].tokenHash).toBeUndefined();
+    });
+
+    it('should return 400 on an unknown scope', async () => {
+      const { accessToken } = await getTokens();
+      const userId = getUserId(accessToken);
+
+      await request(app)
+        .post(`/v1/users/${userId}/api-tokens`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'sample-api-token-name', scopes: ['users:write'] })
+        .expect(400);
+    });
+
+    it('should not accept an API token on account routes', async () => {
+      const { accessToken } = await getTokens();
+      const userId = getUserId(accessToken);
+
+      const response = await request(app)
+        .post(`/v1/users/${userId}/api-tokens`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'sample-api-token-name', scopes: ['pages:write'] });
+
+      await request(app)
+        .get(`/v1/users/${userId}`)
+        .set('Authorization', `Bearer ${response.body.token}`)
+        .expect(403);
+    });
+
+    it('should return 204 on deleting a token and 404 afterwards', async () => {
+      const { accessToken } = await getTokens();
+      const userId = getUserId(accessToken);
+
+      const response = await request(app)
+        .post(`/v1/users/${userId}/api-tokens`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'sample-api-token-name', scopes: ['pages:read'] });
+
+      await request(app)
+        .delete(`/v1/users/${userId}/api-tokens/${response.body.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(204);
+
+      await request(app)
+        .delete(`/v1/users/${userId}/api-tokens/${response.body.id}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('GET /users/:userId/shared-pages', () => {
+    it('should return 200 with the pages shared with the user', async () => {
+      const { accessToken } = await getTokens();
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const [jwtHeader, jwtPayload, jwtSignature] = accessToken.split('.');
+      const { userId } = JSON.parse(atob(jwtPayload));
+
+      const pageCollection = await PageRepository.getCollection();
+      const pageGuestCollection = await PageGuestRepository.getCollection();
+      await pageCollection.deleteMany({});
+      await pageGuestCollection.deleteMany({});
+
+      const { insertedId } = await pageCollection.insertOne({
+        reference: 'sample-reference',
+        title: 'sample title',
+        icon: '1F54A',
+        workspaceId: 'sample-workspace-id',
+      });
+      await pageGuestCollection.insertOne({
+        pageId: objectIdToString(insertedId),
+        workspaceId: 'sample-workspace-id',
+        userId,
+        role: 'commenter',
+        grantedBy: 'sample-user-id',
+        createdAt: new Date(),
+      });
+
+      const response = await request(app)
+        .get(`/v1/users/${userId}/shared-pages`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body).toHaveLength(1);
+      expect(response.body[0].title).toBe('sample title');
+      expect(response.body[0].role).toBe('commenter');
+    });
+  });
+
   describe('DELETE /users/:userId', () => {
-    it('should return 204 on success', async () => {
+    it('should return 200 and schedule the deletion', async () => {
+      const tokens = await getTokens();
+      const { accessToken } = tokens;
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const [jwtHeader, jwtPayload, jwtSignature] = accessToken.split('.');
+      const decodedPayload = JSON.parse(atob(jwtPayload));
+
+      const { userId } = decodedPayload;
+
+      const response = await request(app)
+        .delete(`/v1/users/${userId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password: 'any-password' })
+        .expect(200);
+
+      const user = await userCollection.findOne({});
+      const count = await tokenCollection.countDocuments({ userId });
+
+      expect(new Date(response.body.scheduledDeletionAt)).toEqual(
+        user?.scheduledDeletionAt
+      );
+      expect(count).toBe(0);
+    });
+
+    it('should return 403 if the password is wrong', async () => {
       const tokens = await getTokens();
       const { accessToken } = tokens;
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -546,7 +1204,290 @@ describe('user routes', () => {
       await request(app)
         .delete(`/v1/users/${userId}`)
         .set('Authorization', `Bearer ${accessToken}`)
+        .send({ password: 'wrong-password' })
+        .expect(403);
+
+      const user = await userCollection.findOne({});
+
+      expect(user?.scheduledDeletionAt).toBeUndefined();
+    });
+  });
+
+  describe('POST /users/:userId/restore', () => {
+    it('should return 204 and cancel the scheduled deletion', async () => {
+      const tokens = await getTokens();
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const [jwtHeader, jwtPayload, jwtSignature] =
+        tokens.accessToken.split('.');
+      const decodedPayload = JSON.parse(atob(jwtPayload));
+
+      const { userId } = decodedPayload;
+
+      await request(app)
+        .delete(`/v1/users/${userId}`)
+        .set('Authorization', `Bearer ${tokens.accessToken}`)
+        .send({ password: 'any-password' })
+        .expect(200);
+
+      // the deletion signed the account out, restoring starts with signing in
+      const loginResponse = await request(app)
+        .post('/v1/login')
+        .send({ email: 'any@email.com', password: 'any-password' })
+        .expect(200);
+
+      await request(app)
+        .post(`/v1/users/${userId}/restore`)
+        .set('Authorization', `Bearer ${loginResponse.body.accessToken}`)
         .expect(204);
+
+      const user = await userCollection.findOne({});
+
+      expect(user?.scheduledDeletionAt).toBeUndefined();
+    });
+  });
+
+  describe('/users/:userId/export', () => {
+    beforeEach(async () => {
+      const userExportCollection = await UserExportRepository.getCollection();
+      await userExportCollection.deleteMany({});
+    });
+
+    it('should build the export in the background and serve it once ready', async () => {
+      const { accessToken } = await getTokens();
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const [jwtHeader, jwtPayload, jwtSignature] = accessToken.split('.');
+      const { userId } = JSON.parse(atob(jwtPayload));
+
+      const requestResponse = await request(app)
+        .post(`/v1/users/${userId}/export`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(201);
+      const exportId = requestResponse.body.id;
+
+      expect(requestResponse.body.status).toBe('pending');
+
+      await request(app)
+        .get(`/v1/users/${userId}/export/${exportId}/download`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(409);
+
+      await makeGenerateUserExport().execute();
+
+      const statusResponse = await request(app)
+        .get(`/v1/users/${userId}/export/${exportId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(statusResponse.body.status).toBe('ready');
+
+      const downloadResponse = await request(app)
+        .get(`/v1/users/${userId}/export/${exportId}/download`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(
+          'Content-Disposition',
+          `attachment; filename="export-${exportId}.json"`
+        )
+        .expect(200);
+      const bundle = JSON.parse(downloadResponse.text);
+
+      expect(bundle.user.email).toBe('any@email.com');
+      expect(bundle.user.password).toBeUndefined();
+    });
+
+    it('should return 404 for an unknown export', async () => {
+      const { accessToken } = await getTokens();
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const [jwtHeader, jwtPayload, jwtSignature] = accessToken.split('.');
+      const { userId } = JSON.parse(atob(jwtPayload));
+
+      await request(app)
+        .get(`/v1/users/${userId}/export/112233445566778899ddeeff`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(404);
+    });
+  });
+
+  describe('two-factor authentication', () => {
+    const totp = new TotpAdapter(env.mfaIssuer);
+
+    const enableMfa = async (): Promise<{ userId: string; secret: string }> => {
+      const { accessToken } = await getTokens();
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const [jwtHeader, jwtPayload, jwtSignature] = accessToken.split('.');
+      const { userId } = JSON.parse(atob(jwtPayload));
+
+      const enrollResponse = await request(app)
+        .post(`/v1/users/${userId}/mfa`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      const { secret } = enrollResponse.body;
+
+      // confirm with the previous time step so the current one stays unused
+      await request(app)
+        .post(`/v1/users/${userId}/mfa/confirm`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ code: await totp.generateCode(secret, Date.now() - 30000) })
+        .expect(200);
+
+      return { userId, secret };
+    };
+
+    const login = async () =>
+      request(app).post('/v1/login').send({
+        email: 'any@email.com',
+        password: 'any-password',
+      });
+
+    beforeEach(async () => {
+      mfaCollection = await MfaRepository.getCollection();
+      await mfaCollection.deleteMany({});
+
+      mfaChallengeCollection = await MfaChallengeRepository.getCollection();
+      await mfaChallengeCollection.deleteMany({});
+    });
+
+    it('should return recovery codes on confirming the enrollment', async () => {
+      const { userId } = await enableMfa();
+
+      const mfa = await mfaCollection.findOne({ userId });
+
+      expect(mfa?.enabled).toBe(true);
+      expect(mfa?.recoveryCodes.length).toBe(10);
+    });
+
+    it('should return an mfa challenge without a refresh cookie on login', async () => {
+      await enableMfa();
+
+      const response = await login();
+
+      expect(response.status).toBe(200);
+      expect(response.body.mfaToken).toBeTruthy();
+      expect(response.body.accessToken).toBeUndefined();
+      expect(response.headers['set-cookie']).toBeUndefined();
+    });
+
+    it('should issue tokens on POST /login/mfa with a valid code', async () => {
+      const { secret } = await enableMfa();
+      const { body } = await login();
+
+      const response = await request(app)
+        .post('/v1/login/mfa')
+        .send({
+          mfaToken: body.mfaToken,
+          code: await totp.generateCode(secret),
+        })
+        .expect(200);
+
+      expect(response.body.accessToken).toBeTruthy();
+      expect(response.headers['set-cookie']).toBeTruthy();
+    });
+
+    it('should return 401 on POST /login/mfa if a code is replayed', async () => {
+      const { secret } = await enableMfa();
+      const code = await totp.generateCode(secret);
+
+      const firstLogin = await login();
+      await request(app)
+        .post('/v1/login/mfa')
+        .send({ mfaToken: firstLogin.body.mfaToken, code })
+        .expect(200);
+
+      const secondLogin = await login();
+      await request(app)
+        .post('/v1/login/mfa')
+        .send({ mfaToken: secondLogin.body.mfaToken, code })
+        .expect(401);
+    });
+
+    it('should return 401 on POST /login/mfa with an unknown challenge', async () => {
+      await request(app)
+        .post('/v1/login/mfa')
+        .send({ mfaToken: 'unknown-mfa-token', code: '123456' })
+        .expect(401);
+    });
+  });
+
+  describe('/users/:userId ownership', () => {
+    const otherUserId = '112233445566778899aabbcc';
+
+    it('should return 403 on reading another user', async () => {
+      const { accessToken } = await getTokens();
+
+      await request(app)
+        .get(`/v1/users/${otherUserId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+
+    it("should return 403 on reading another user's workspaces", async () => {
+      const { accessToken } = await getTokens();
+
+      await request(app)
+        .get(`/v1/users/${otherUserId}/workspaces-access`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+
+    it("should return 403 on reading another user's favorites", async () => {
+      const { accessToken } = await getTokens();
+
+      await request(app)
+        .get(
+          `/v1/users/${otherUserId}/workspaces-access/112233445566778899bbccab/favorites`
+        )
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+
+    it('should return 403 on updating another user', async () => {
+      const { accessToken } = await getTokens();
+
+      await request(app)
+        .patch(`/v1/users/${otherUserId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'new-name' })
+        .expect(403);
+    });
+
+    it("should return 403 on revoking another user's sessions", async () => {
+      const { accessToken } = await getTokens();
+
+      await request(app)
+        .delete(`/v1/users/${otherUserId}/sessions`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+
+    it('should return 403 on deleting another user', async () => {
+      const { accessToken } = await getTokens();
+
+      await request(app)
+        .delete(`/v1/users/${otherUserId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+
+      const count = await userCollection.countDocuments();
+
+      expect(count).toBe(1);
+    });
+
+    it("should return 403 on exporting another user's data", async () => {
+      const { accessToken } = await getTokens();
+
+      await request(app)
+        .post(`/v1/users/${otherUserId}/export`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+
+    it('should return 403 on enrolling two-factor for another user', async () => {
+      const { accessToken } = await getTokens();
+
+      await request(app)
+        .post(`/v1/users/${otherUserId}/mfa`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
     });
   });
 });
@@ -0,0 +1,48 @@
+import { createPublicKey } from 'crypto';
+import jwt from 'jsonwebtoken';
+import setupApp from '@main/config/app';
+import request from 'supertest';
+import { makeJWTAdapter } from '@main/factories/cryptography/jwt-adapter-factory';
+import env from '@main/config/env';
+
+describe('well-known routes', () => {
+  const app = setupApp();
+
+  describe('GET /.well-known/jwks.json', () => {
+    it('should return keys that verify the issued access tokens', async () => {
+      const response = await request(app)
+        .get('/.well-known/jwks.json')
+        .expect('Content-Type', /json/)
+        .expect(200);
+
+      const accessToken = await makeJWTAdapter().generateAccessToken(
+        'sample-user-id'
+      );
+      const { header } = jwt.decode(accessToken, { complete: true })!;
+      const jwk = response.body.keys.find(
+        ({ kid }: { kid: string }) => kid === header.kid
+      );
+      const publicKey = createPublicKey({ key: jwk, format: 'jwk' });
+
+      expect(jwt.verify(accessToken, publicKey)).toEqual(
+        expect.objectContaining({ userId: 'sample-user-id' })
+      );
+    });
+
+    it('should answer with the api content security policy', async () => {
+      await request(app)
+        .get('/.well-known/jwks.json')
+        .expect('Content-Security-Policy', env.contentSecurityPolicy)
+        .expect(200);
+    });
+  });
+
+  describe('outside the api paths', () => {
+    it('should answer with the client content security policy', async () => {
+      await request(app)
+        .get('/test')
+        .expect('Content-Security-Policy', env.clientContentSecurityPolicy)
+        .expect(200);
+    });
+  });
+});
@@ -7,8 +7,12 @@ import env from '@main/config/env';
 import { Collection } from 'mongodb';
 import request from 'supertest';
 import bcrypt from 'bcrypt';
-import { objectIdToString } from '@infrastructure/db/mongodb/helpers/mapper';
+import {
+  objectIdToString,
+  stringToObjectId,
+} from '@infrastructure/db/mongodb/helpers/mapper';
 import { UserRepository } from '@infrastructure/db/mongodb/repositories/UserRepository';
+import { AuditLogRepository } from '@infrastructure/db/mongodb/repositories/AuditLogRepository';
 
 describe('workspace routes', () => {
   const app = setupApp();
@@ -29,46 +33,54 @@ describe('workspace routes', () => {
 
     workspaceCollection = await WorkspaceRepository.getCollection();
     await workspaceCollection.deleteMany({});
+
+    const auditLogCollection = await AuditLogRepository.getCollection();
+    await auditLogCollection.deleteMany({});
   });
 
-  const getWorkspace = async (): Promise<string> => {
+  const getWorkspace = async (role = 'owner'): Promise<string> => {
     const { insertedId } = await workspaceCollection.insertOne({
       name: 'sample-workspace-name',
       icon: 'sample-icon-url',
-      members: ['112233445566778899aabbcc'],
+      members: [{ userId: '112233445566778899aabbcc', role }],
       pages: [
         {
           id: 'sample-page-id-0',
           reference: 'sample-page-007',
-          path: null,
+          parentId: null,
+          position: 'V',
           icon: '1F3F9',
           title: 'sample-page',
         },
         {
           id: 'sample-page-id-1',
           reference: 'sample-page-123',
-          path: null,
+          parentId: null,
+          position: 'l',
           icon: '1F3F9',
           title: 'sample-page',
         },
         {
           id: 'sample-page-id-2',
           reference: 'sample-page-456',
-          path: ',sample-page-123,',
+          parentId: 'sample-page-id-1',
+          position: 'V',
           icon: '1F3F9',
           title: 'sample-page',
         },
         {
           id: 'sample-page-id-3',
           reference: 'sample-page-789',
-          path: ',sample-page-123,',
+          parentId: 'sample-page-id-1',
+          position: 'l',
           icon: '1F3F9',
           title: 'sample-page',
         },
         {
           id: 'sample-page-id-4',
           reference: 'sample-page-101',
-          path: ',sample-page-123,sample-page-789',
+          parentId: 'sample-page-id-3',
+          position: 'V',
           icon: '1F3F9',
           title: 'sample-page',
         },
@@ -84,8 +96,11 @@ describe('workspace routes', () => {
   }> => {
     const hashedPassword = await bcrypt.hash('any-password', env.bcryptSalt);
     await userCollection.insertOne({
+      // matches the member of the workspaces created by getWorkspace
+      _id: stringToObjectId('112233445566778899aabbcc'),
       name: 'any-name',
       email: 'any@email.com',
+      emailVerified: true,
       password: hashedPassword,
       isDarkMode: true,
       profilePicture: {
@@ -129,6 +144,22 @@ describe('workspace routes', () => {
     return tokens;
   };
 
+  const getMember = async (emailVerified = true): Promise<string> => {
+    const { insertedId } = await userCollection.insertOne({
+      name: 'member-name',
+      email: 'member@email.com',
+      emailVerified,
+      password: 'member-password',
+      isDarkMode: true,
+      profilePicture: {
+        url: 'member-url',
+      },
+      workspaces: [],
+    });
+
+    return objectIdToString(insertedId);
+  };
+
   describe('GET /workspaces/:workspaceId', () => {
     it('should return 200 on success and return workspace', async () => {
       const tokens = await getTokens();
@@ -239,6 +270,75 @@ describe('workspace routes', () => {
     });
   });
 
+  describe('GET /workspaces/:workspaceId/tree', () => {
+    it('should return 200 with the pages nested down to the requested depth', async () => {
+      const tokens = await getTokens();
+      const { accessToken } = tokens;
+
+      const workspaceId = await getWorkspace();
+
+      const response = await request(app)
+        .get(`/v1/workspaces/${workspaceId}/tree?depth=2`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect('Content-Type', /json/)
+        .expect(200);
+
+      const [, rootPage] = response.body;
+      expect(rootPage.id).toBe('sample-page-id-1');
+      expect(
+        rootPage.children.map(
+          ({ id, hasChildren }: { id: string; hasChildren: boolean }) => [
+            id,
+            hasChildren,
+          ]
+        )
+      ).toEqual([
+        ['sample-page-id-2', false],
+        ['sample-page-id-3', true],
+      ]);
+    });
+
+    it('should return the subtree under the root page', async () => {
+      const tokens = await getTokens();
+      const { accessToken } = tokens;
+
+      const workspaceId = await getWorkspace();
+
+      const response = await request(app)
+        .get(`/v1/workspaces/${workspaceId}/tree?root=sample-page-id-3`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.map(({ id }: { id: string }) => id)).toEqual([
+        'sample-page-id-4',
+      ]);
+    });
+
+    it('should return 400 on an invalid depth', async () => {
+      const tokens = await getTokens();
+      const { accessToken } = tokens;
+
+      const workspaceId = await getWorkspace();
+
+      await request(app)
+        .get(`/v1/workspaces/${workspaceId}/tree?depth=0`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(400);
+    });
+
+    it('should return 404 if the root page is not found', async () => {
+      const tokens = await getTokens();
+      const { accessToken } = tokens;
+
+      const workspaceId = await getWorkspace();
+
+      await request(app)
+        .get(`/v1/workspaces/${workspaceId}/tree?root=no-page`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(404);
+    });
+  });
+
   describe('POST /workspaces', () => {
     it('should return 200 on creating workspaces success', async () => {
       const tokens = await getTokens();
@@ -283,7 +383,7 @@ describe('workspace routes', () => {
           id: 'sample-page-id',
           reference: 'sample-page-reference',
           icon: 'sample-hex',
-          path: null,
+          parentId: null,
         })
         .set('Authorization', `Bearer ${accessToken}`)
         .expect(204);
@@ -301,11 +401,29 @@ describe('workspace routes', () => {
           id: 'sample-page-id',
           reference: 'sample-page-reference',
           icon: 'sample-hex',
-          path: null,
+          parentId: null,
         })
         .set('Authorization', `Bearer ${accessToken}`)
         .expect(404);
     });
+
+    it('should return 403 if a viewer adds a page', async () => {
+      const tokens = await getTokens();
+      const { accessToken } = tokens;
+
+      const workspaceId = await getWorkspace('viewer');
+
+      await request(app)
+        .post(`/v1/workspaces/${workspaceId}/pages`)
+        .send({
+          id: 'sample-page-id',
+          reference: 'sample-page-reference',
+          icon: 'sample-hex',
+          parentId: null,
+        })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
   });
 
   describe('POST /workspaces/:workspaceId/members/:memberId', () => {
@@ -314,7 +432,7 @@ describe('workspace routes', () => {
       const { accessToken } = tokens;
 
       const workspaceId = await getWorkspace();
-      const memberId = 'new-member-id';
+      const memberId = await getMember();
 
       await request(app)
         .post(`/v1/workspaces/${workspaceId}/members/${memberId}`)
@@ -322,6 +440,29 @@ describe('workspace routes', () => {
         .expect(204);
     });
 
+    it('should return 403 if the member has not verified the email', async () => {
+      const { accessToken } = await getTokens();
+
+      const workspaceId = await getWorkspace();
+      const memberId = await getMember(false);
+
+      await request(app)
+        .post(`/v1/workspaces/${workspaceId}/members/${memberId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+
+    it('should return 404 if the member is not found', async () => {
+      const { accessToken } = await getTokens();
+
+      const workspaceId = await getWorkspace();
+
+      await request(app)
+        .post(`/v1/workspaces/${workspaceId}/members/new-member-id`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(404);
+    });
+
     it('should return 404 if workspace is not found', async () => {
       const tokens = await getTokens();
       const { accessToken } = tokens;
@@ -336,6 +477,73 @@ describe('workspace routes', () => {
     });
   });
 
+  describe('PATCH /workspaces/:workspaceId/pages/:pageId/position', () => {
+    it('should return 200 on success and list the page in its new place', async () => {
+      const tokens = await getTokens();
+      const { accessToken } = tokens;
+
+      const workspaceId = await getWorkspace();
+
+      const response = await request(app)
+        .patch(`/v1/workspaces/${workspaceId}/pages/sample-page-id-1/position`)
+        .send({ afterPageId: null })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect('Content-Type', /json/)
+        .expect(200);
+
+      expect(response.body.position < 'V').toBe(true);
+
+      const rootPages = await request(app)
+        .get(`/v1/workspaces/${workspaceId}/pages/root`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(rootPages.body.map(({ id }: { id: string }) => id)).toEqual([
+        'sample-page-id-1',
+        'sample-page-id-0',
+      ]);
+    });
+
+    it('should return 400 if no neighbour is given', async () => {
+      const tokens = await getTokens();
+      const { accessToken } = tokens;
+
+      const workspaceId = await getWorkspace();
+
+      await request(app)
+        .patch(`/v1/workspaces/${workspaceId}/pages/sample-page-id-1/position`)
+        .send({})
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(400);
+    });
+
+    it('should return 409 if the neighbour is not a sibling', async () => {
+      const tokens = await getTokens();
+      const { accessToken } = tokens;
+
+      const workspaceId = await getWorkspace();
+
+      await request(app)
+        .patch(`/v1/workspaces/${workspaceId}/pages/sample-page-id-2/position`)
+        .send({ afterPageId: 'sample-page-id-0' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(409);
+    });
+
+    it('should return 403 if a viewer reorders the pages', async () => {
+      const tokens = await getTokens();
+      const { accessToken } = tokens;
+
+      const workspaceId = await getWorkspace('viewer');
+
+      await request(app)
+        .patch(`/v1/workspaces/${workspaceId}/pages/sample-page-id-1/position`)
+        .send({ afterPageId: null })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+  });
+
   describe('PATCH /workspaces/:workspaceId', () => {
     it('should return 200 on success and user', async () => {
       const tokens = await getTokens();
@@ -367,6 +575,34 @@ describe('workspace routes', () => {
         .set('Authorization', `Bearer ${accessToken}`)
         .expect(404);
     });
+
+    it('should return 403 if a viewer updates the workspace', async () => {
+      const tokens = await getTokens();
+      const { accessToken } = tokens;
+
+      const workspaceId = await getWorkspace('viewer');
+
+      await request(app)
+        .patch(`/v1/workspaces/${workspaceId}`)
+        .send({ name: 'updated-name' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+
+    it('should return 400 if the members are sent', async () => {
+      const tokens = await getTokens();
+      const { accessToken } = tokens;
+
+      const workspaceId = await getWorkspace('editor');
+
+      await request(app)
+        .patch(`/v1/workspaces/${workspaceId}`)
+        .send({
+          members: [{ userId: '112233445566778899aabbcc', role: 'owner' }],
+        })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(400);
+    });
   });
 
   describe('DELETE /workspaces/:workspaceId/pages/:pageId', () => {
@@ -395,6 +631,18 @@ describe('workspace routes', () => {
         .set('Authorization', `Bearer ${accessToken}`)
         .expect(404);
     });
+
+    it('should return 403 if a viewer removes a page', async () => {
+      const tokens = await getTokens();
+      const { accessToken } = tokens;
+
+      const workspaceId = await getWorkspace('viewer');
+
+      await request(app)
+        .delete(`/v1/workspaces/${workspaceId}/pages/sample-page-id-0`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
   });
 
   describe('DELETE /workspaces/:workspaceId/members/:memberId', () => {
@@ -438,4 +686,276 @@ describe('workspace routes', () => {
         .expect(204);
     });
   });
+
+  describe('GET /workspaces/:workspaceId/audit-log', () => {
+    it('should return 200 with the workspace entries only, newest first', async () => {
+      const { accessToken } = await getTokens();
+
+      const workspaceId = await getWorkspace();
+
+      await request(app)
+        .patch(`/v1/workspaces/${workspaceId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'new-workspace-name' })
+        .expect(200);
+
+      const response = await request(app)
+        .get(`/v1/workspaces/${workspaceId}/audit-log`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(
+        response.body.entries.map((entry: { action: string }) => entry.action)
+      ).toEqual(['workspace.update']);
+      expect(response.body.nextCursor).toBeNull();
+    });
+
+    it('should page through the entries with the cursor', async () => {
+      const { accessToken } = await getTokens();
+
+      const workspaceId = await getWorkspace();
+
+      await request(app)
+        .patch(`/v1/workspaces/${workspaceId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ name: 'new-workspace-name' })
+        .expect(200);
+
+      await request(app)
+        .patch(`/v1/workspaces/${workspaceId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .send({ icon: 'new-workspace-icon' })
+        .expect(200);
+
+      const firstPage = await request(app)
+        .get(`/v1/workspaces/${workspaceId}/audit-log?limit=1`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      const secondPage = await request(app)
+        .get(
+          `/v1/workspaces/${workspaceId}/audit-log?limit=1&cursor=${firstPage.body.nextCursor}`
+        )
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(firstPage.body.entries[0].action).toBe('workspace.update');
+      expect(secondPage.body.entries[0].action).toBe('workspace.update');
+      expect(secondPage.body.entries[0].id).not.toBe(
+        firstPage.body.entries[0].id
+      );
+      expect(secondPage.body.nextCursor).toBeNull();
+    });
+
+    it('should filter the entries by action', async () => {
+      const { accessToken } = await getTokens();
+
+      const workspaceId = await getWorkspace();
+
+      const response = await request(app)
+        .get(`/v1/workspaces/${workspaceId}/audit-log?action=workspace.update`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(200);
+
+      expect(response.body.entries).toEqual([]);
+    });
+
+    it('should return 400 on filtering by an account level action', async () => {
+      const { accessToken } = await getTokens();
+
+      const workspaceId = await getWorkspace();
+
+      await request(app)
+        .get(`/v1/workspaces/${workspaceId}/audit-log?action=user.sign_in`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(400);
+    });
+
+    it('should return 400 on an invalid limit', async () => {
+      const { accessToken } = await getTokens();
+
+      const workspaceId = await getWorkspace();
+
+      await request(app)
+        .get(`/v1/workspaces/${workspaceId}/audit-log?limit=500`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(400);
+    });
+
+    it('should return 403 if the user is not an owner', async () => {
+      const { accessToken } = await getTokens();
+
+      const workspaceId = await getWorkspace('editor');
+
+      await request(app)
+        .get(`/v1/workspaces/${workspaceId}/audit-log`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+  });
+
+  describe('/workspaces/:workspaceId membership', () => {
+    const getForeignWorkspace = async (): Promise<string> => {
+      const { insertedId } = await workspaceCollection.insertOne({
+        name: 'foreign-workspace-name',
+        icon: 'sample-icon-url',
+        members: [{ userId: '112233445566778899aabbdd', role: 'owner' }],
+        pages: [],
+      });
+
+      return objectIdToString(insertedId);
+    };
+
+    it('should return 403 on reading a workspace the user is not a member of', async () => {
+      const { accessToken } = await getTokens();
+
+      const workspaceId = await getForeignWorkspace();
+
+      await request(app)
+        .get(`/v1/workspaces/${workspaceId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+
+    it('should return 403 on adding a member to a foreign workspace', async () => {
+      const { accessToken } = await getTokens();
+
+      const workspaceId = await getForeignWorkspace();
+
+      await request(app)
+        .post(`/v1/workspaces/${workspaceId}/members/new-member-id`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+
+    it('should return 403 on deleting a foreign workspace', async () => {
+      const { accessToken } = await getTokens();
+
+      const workspaceId = await getForeignWorkspace();
+
+      await request(app)
+        .delete(`/v1/workspaces/${workspaceId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+
+      const count = await workspaceCollection.countDocuments();
+
+      expect(count).toBe(1);
+    });
+  });
+
+  describe('/workspaces/:workspaceId roles', () => {
+    it('should return 403 if an editor deletes the workspace', async () => {
+      const { accessToken } = await getTokens();
+
+      const workspaceId = await getWorkspace('editor');
+
+      await request(app)
+        .delete(`/v1/workspaces/${workspaceId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+
+    it('should return 403 if an editor removes another member', async () => {
+      const { accessToken } = await getTokens();
+
+      const workspaceId = await getWorkspace('editor');
+
+      await request(app)
+        .delete(`/v1/workspaces/${workspaceId}/members/another-member-id`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+
+    it('should return 409 if the last owner leaves', async () => {
+      const { accessToken } = await getTokens();
+
+      const workspaceId = await getWorkspace();
+
+      await request(app)
+        .delete(
+          `/v1/workspaces/${workspaceId}/members/112233445566778899aabbcc`
+        )
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(409);
+    });
+
+    it('should return 204 if an editor leaves', async () => {
+      const { accessToken } = await getTokens();
+
+      const workspaceId = await getWorkspace('editor');
+
+      await request(app)
+        .delete(
+          `/v1/workspaces/${workspaceId}/members/112233445566778899aabbcc`
+        )
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(204);
+    });
+  });
+
+  describe('PATCH /workspaces/:workspaceId/members/:memberId', () => {
+    it('should return 204 on success and change the role', async () => {
+      const { accessToken } = await getTokens();
+
+      const workspaceId = await getWorkspace();
+      const memberId = await getMember();
+
+      await request(app)
+        .post(`/v1/workspaces/${workspaceId}/members/${memberId}`)
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(204);
+
+      await request(app)
+        .patch(`/v1/workspaces/${workspaceId}/members/${memberId}`)
+        .send({ role: 'viewer' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(204);
+
+      const workspace = await workspaceCollection.findOne({
+        'members.userId': memberId,
+      });
+
+      expect(workspace?.members[1]).toEqual({
+        userId: memberId,
+        role: 'viewer',
+      });
+    });
+
+    it('should return 400 on an unknown role', async () => {
+      const { accessToken } = await getTokens();
+
+      const workspaceId = await getWorkspace();
+
+      await request(app)
+        .patch(`/v1/workspaces/${workspaceId}/members/112233445566778899aabbcc`)
+        .send({ role: 'admin' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(400);
+    });
+
+    it('should return 403 if a non owner changes a role', async () => {
+      const { accessToken } = await getTokens();
+
+      const workspaceId = await getWorkspace('editor');
+
+      await request(app)
+        .patch(`/v1/workspaces/${workspaceId}/members/112233445566778899aabbcc`)
+        .send({ role: 'owner' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(403);
+    });
+
+    it('should return 409 if the last owner is demoted', async () => {
+      const { accessToken } = await getTokens();
+
+      const workspaceId = await getWorkspace();
+
+      await request(app)
+        .patch(`/v1/workspaces/${workspaceId}/members/112233445566778899aabbcc`)
+        .send({ role: 'editor' })
+        .set('Authorization', `Bearer ${accessToken}`)
+        .expect(409);
+    });
+  });
 });